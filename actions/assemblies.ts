@@ -0,0 +1,421 @@
+'use server'
+
+/**
+ * Server actions for assemblies (kits).
+ *
+ * An assembly is a user-defined bundle of tasks, each with a quantity
+ * expression over room measures (lib/assemblies.ts). Inserting one into a
+ * room creates a line item per task; the items share an
+ * assembly_instance_id and keep their expression, so
+ * updateRoomDimensions() re-evaluates them together when the room changes.
+ *
+ * Unit costs on assembly items are the user's own prices, copied as-is;
+ * items without one are inserted unpriced.
+ */
+
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { refreshEstimateTotal } from '@/lib/estimate-total'
+import { getMarkupRules } from '@/lib/pricing/getMarkupRules'
+import { markupPercentForStack, resolveMarkupStack } from '@/lib/pricing/markup'
+import {
+  assemblyItemStack,
+  dependsOnRoomDimensions,
+  evaluateQuantityExpression,
+  priceAssemblyQuantity,
+  roomMeasures,
+  validateQuantityExpression,
+} from '@/lib/assemblies'
+import type { AssemblyWithItems, EstimateLineItemRow } from '@/types/db'
+import { randomUUID } from 'crypto'
+import { z } from 'zod'
+
+// ─── Zod schemas ────────────────────────────────────────────────────────────
+
+const AssemblyItemInputSchema = z.object({
+  description: z.string().trim().min(1, 'Description is required').max(500),
+  category: z.string().max(100).nullable().optional(),
+  cost_code: z.string().max(20).nullable().optional(),
+  unit: z.string().max(20).nullable().optional(),
+  quantity_expression: z.string().trim().min(1, 'Quantity is required').max(200)
+    .superRefine((expression, ctx) => {
+      const error = validateQuantityExpression(expression)
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+    }),
+  unit_cost: z.number().min(0).nullable().optional(),
+  margin_percent: z.number().min(0).max(500).nullable().optional(),
+})
+
+const AssemblyInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().max(2000).nullable().optional(),
+  items: z.array(AssemblyItemInputSchema).min(1, 'Add at least one item').max(100),
+})
+
+const InsertAssemblySchema = z.object({
+  estimateId: z.string().uuid('Invalid estimate ID'),
+  roomId: z.string().uuid('Invalid room ID'),
+  assemblyId: z.string().uuid('Invalid assembly ID'),
+  count: z.number().positive('Count must be > 0').max(9999).optional(),
+})
+
+export type AssemblyItemInput = z.input<typeof AssemblyItemInputSchema>
+
+export type AssemblyInput = {
+  name: string
+  description?: string | null
+  items: AssemblyItemInput[]
+}
+
+export type InsertAssemblyInput = z.input<typeof InsertAssemblySchema>
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function validationError(error: z.ZodError): string {
+  return `Validation failed: ${error.errors.map(e => `${e.path.join('.') || 'value'}: ${e.message}`).join('; ')}`
+}
+
+/**
+ * Get estimate with ownership verification
+ */
+async function getEstimateWithAuth(estimateId: string) {
+  const user = await requireAuth()
+  const supabase = await createServerClient()
+
+  const { data: estimate, error } = await supabase
+    .from('estimates')
+    .select(`
+      id,
+      project_id,
+      status,
+      projects!inner(user_id)
+    `)
+    .eq('id', estimateId)
+    .single()
+
+  if (error || !estimate) {
+    throw new Error('Estimate not found')
+  }
+
+  if ((estimate.projects as any).user_id !== user.id) {
+    throw new Error('Unauthorized: You do not own this estimate')
+  }
+
+  return { estimate, supabase, user }
+}
+
+function assertDraft(status: string) {
+  if (status !== 'draft') {
+    throw new Error(`Estimate is locked (status=${status}). Only drafts can be edited.`)
+  }
+}
+
+// ─── Assembly library ───────────────────────────────────────────────────────
+
+/**
+ * List the current user's assemblies with their items
+ */
+export async function listAssemblies(): Promise<{ success: boolean; assemblies?: AssemblyWithItems[]; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data, error } = await supabase
+      .from('assemblies')
+      .select('*, items:assembly_items(*)')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load assemblies: ${error.message}`)
+    }
+
+    const assemblies = (data || []).map((assembly: any) => ({
+      ...assembly,
+      items: [...(assembly.items || [])].sort((a: any, b: any) => a.sort_order - b.sort_order),
+    })) as AssemblyWithItems[]
+
+    return { success: true, assemblies }
+  } catch (error) {
+    console.error('Error listing assemblies:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load assemblies',
+    }
+  }
+}
+
+/**
+ * Create an assembly, or replace an existing one's name, description and
+ * items. Line items already inserted from it are not changed.
+ */
+export async function saveAssembly(
+  assemblyId: string | null,
+  input: AssemblyInput
+): Promise<{ success: boolean; assembly?: AssemblyWithItems; error?: string }> {
+  const parsed = AssemblyInputSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const fields = {
+      name: parsed.data.name,
+      description: parsed.data.description?.trim() || null,
+    }
+
+    const { data: assembly, error } = assemblyId
+      ? await supabase
+          .from('assemblies')
+          .update(fields)
+          .eq('id', assemblyId)
+          .eq('user_id', user.id)
+          .select('*')
+          .single()
+      : await supabase
+          .from('assemblies')
+          .insert({ ...fields, user_id: user.id })
+          .select('*')
+          .single()
+
+    if (error || !assembly) {
+      if (error?.code === '23505') {
+        return { success: false, error: `You already have an assembly named "${fields.name}"` }
+      }
+      throw new Error(`Failed to save assembly: ${error?.message || 'not found'}`)
+    }
+
+    if (assemblyId) {
+      const { error: deleteError } = await supabase
+        .from('assembly_items')
+        .delete()
+        .eq('assembly_id', assembly.id)
+
+      if (deleteError) {
+        throw new Error(`Failed to replace assembly items: ${deleteError.message}`)
+      }
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from('assembly_items')
+      .insert(parsed.data.items.map((item, index) => ({
+        assembly_id: assembly.id,
+        sort_order: index,
+        description: item.description,
+        category: item.category?.trim() || null,
+        cost_code: item.cost_code?.trim() || null,
+        unit: item.unit?.trim() || null,
+        quantity_expression: item.quantity_expression,
+        unit_cost: item.unit_cost ?? null,
+        margin_percent: item.margin_percent ?? null,
+      })))
+      .select('*')
+
+    if (itemsError) {
+      throw new Error(`Failed to save assembly items: ${itemsError.message}`)
+    }
+
+    return {
+      success: true,
+      assembly: {
+        ...assembly,
+        items: [...(items || [])].sort((a: any, b: any) => a.sort_order - b.sort_order),
+      } as AssemblyWithItems,
+    }
+  } catch (error) {
+    console.error('Error saving assembly:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save assembly',
+    }
+  }
+}
+
+/**
+ * Delete an assembly. Line items inserted from it stay on their estimates.
+ */
+export async function deleteAssembly(
+  assemblyId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { error } = await supabase
+      .from('assemblies')
+      .delete()
+      .eq('id', assemblyId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      throw new Error(`Failed to delete assembly: ${error.message}`)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting assembly:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete assembly',
+    }
+  }
+}
+
+// ─── Estimate insertion ─────────────────────────────────────────────────────
+
+/**
+ * Expand an assembly into line items in a room of a draft estimate.
+ *
+ * Each item's quantity is its expression evaluated against the room
+ * (null while the room has no dimensions). Items whose expression uses room
+ * measures are calc_source='room_dimensions' so they follow later
+ * dimension changes; count-only items are 'manual'. Prices use the user's
+ * markup stack for the item's trade, with the assembly item's margin as the
+ * profit layer when set.
+ */
+export async function insertAssemblyIntoRoom(
+  input: InsertAssemblyInput
+): Promise<{
+  success: boolean
+  assemblyInstanceId?: string
+  items?: EstimateLineItemRow[]
+  grandTotal?: number
+  error?: string
+}> {
+  const parsed = InsertAssemblySchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+
+  const { estimateId, roomId, assemblyId } = parsed.data
+  const count = parsed.data.count ?? 1
+
+  try {
+    const { estimate, supabase, user } = await getEstimateWithAuth(estimateId)
+    assertDraft(estimate.status)
+
+    const [{ data: room }, { data: assembly }, rules] = await Promise.all([
+      supabase
+        .from('rooms')
+        .select('id, project_id, name, level, length_ft, width_ft, ceiling_height_ft, floor_area_sqft, wall_area_sqft, ceiling_area_sqft, perimeter_ft, area_source')
+        .eq('id', roomId)
+        .maybeSingle(),
+      supabase
+        .from('assemblies')
+        .select('*, items:assembly_items(*)')
+        .eq('id', assemblyId)
+        .maybeSingle(),
+      getMarkupRules(supabase, user.id, estimate.project_id),
+    ])
+
+    if (!room || room.project_id !== estimate.project_id) {
+      return { success: false, error: 'Room not found in this project' }
+    }
+    if (!assembly) {
+      return { success: false, error: 'Assembly not found' }
+    }
+
+    const assemblyItems = [...((assembly as AssemblyWithItems).items || [])].sort((a, b) => a.sort_order - b.sort_order)
+    if (assemblyItems.length === 0) {
+      return { success: false, error: 'Assembly has no items' }
+    }
+
+    const measures = roomMeasures(room, count)
+    const assemblyInstanceId = randomUUID()
+
+    const rows = assemblyItems.map(item => {
+      const quantity = evaluateQuantityExpression(item.quantity_expression, measures)
+      const unitCost = item.unit_cost === null ? null : Number(item.unit_cost)
+      const stack = assemblyItemStack(
+        resolveMarkupStack(rules, { costCode: item.cost_code, projectId: estimate.project_id }),
+        item.margin_percent
+      )
+      const priced = unitCost !== null
+
+      return {
+        estimate_id: estimateId,
+        project_id: estimate.project_id,
+        room_id: room.id,
+        room_name: room.name,
+        level: room.level ?? null,
+        description: item.description,
+        category: item.category || 'Other',
+        cost_code: item.cost_code,
+        unit: item.unit,
+        quantity,
+        unit_cost: unitCost,
+        margin_percent: markupPercentForStack(stack),
+        ...priceAssemblyQuantity(quantity, unitCost, stack),
+        calc_source: dependsOnRoomDimensions(item.quantity_expression) ? 'room_dimensions' : 'manual',
+        pricing_source: priced ? 'manual' : null,
+        price_source: priced ? 'manual' : null,
+        is_allowance: false,
+        is_active: true,
+        assembly_id: assembly.id,
+        assembly_item_id: item.id,
+        assembly_instance_id: assemblyInstanceId,
+        assembly_count: count,
+        quantity_expression: item.quantity_expression,
+      }
+    })
+
+    const { data: created, error } = await supabase
+      .from('estimate_line_items')
+      .insert(rows)
+      .select('*')
+
+    if (error) {
+      throw new Error(`Failed to insert assembly: ${error.message}`)
+    }
+
+    const grandTotal = await refreshEstimateTotal(supabase, estimateId, estimate.project_id)
+
+    return {
+      success: true,
+      assemblyInstanceId,
+      items: (created || []) as EstimateLineItemRow[],
+      grandTotal,
+    }
+  } catch (error) {
+    console.error('Error inserting assembly:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to insert assembly',
+    }
+  }
+}
+
+/**
+ * Remove every line item created by one assembly insertion
+ */
+export async function removeAssemblyInstance(
+  estimateId: string,
+  assemblyInstanceId: string
+): Promise<{ success: boolean; removed?: number; grandTotal?: number; error?: string }> {
+  try {
+    const { estimate, supabase } = await getEstimateWithAuth(estimateId)
+    assertDraft(estimate.status)
+
+    const { data: removed, error } = await supabase
+      .from('estimate_line_items')
+      .delete()
+      .eq('estimate_id', estimateId)
+      .eq('assembly_instance_id', assemblyInstanceId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to remove assembly: ${error.message}`)
+    }
+
+    const grandTotal = await refreshEstimateTotal(supabase, estimateId, estimate.project_id)
+    return { success: true, removed: removed?.length ?? 0, grandTotal }
+  } catch (error) {
+    console.error('Error removing assembly instance:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove assembly',
+    }
+  }
+}
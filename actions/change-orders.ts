@@ -0,0 +1,517 @@
+'use server'
+
+/**
+ * Change Orders
+ *
+ * Once an estimate is contract_signed it is frozen: line items can no longer
+ * be edited through updateLineItem(). Scope changes mid-job go through a
+ * change order instead - a priced DELTA against the signed scope:
+ *
+ *   - add:    new line item added to the job
+ *   - remove: existing line item taken out of the job
+ *   - modify: existing line item with a new quantity / cost / price
+ *
+ * Lifecycle: draft → sent → approved (or draft | sent → rejected)
+ *
+ * Nothing touches the signed estimate until the change order is APPROVED.
+ * On approval:
+ * 1. The delta is applied to estimate_line_items (removed items are
+ *    deactivated, never deleted, so actuals and history stay intact)
+ * 2. contracts.total_price is adjusted by change_orders.total_delta
+ * 3. project_tasks are spawned (add) or repriced (modify/remove) if the job
+ *    has started
+ * 4. Pricing events are logged with stage='change_order_approved' for
+ *    added/modified items - a client-approved change order is as strong a
+ *    pricing signal as a signed contract
+ */
+
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { recordPricingCommit, type LineItemForCommit } from '@/hooks/usePricingFeedback'
+import { getProjectCostRegion } from '@/lib/pricing/getProjectCostRegion'
+import { refreshEstimateTotal } from '@/lib/estimate-total'
+import {
+  isValidChangeOrderTransition,
+  type ChangeOrderItemType,
+  type ChangeOrderStatus,
+  type ChangeOrderWithItems,
+} from '@/types/db'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ChangeOrderItemInput {
+  changeType: ChangeOrderItemType
+  /** Required for 'remove' and 'modify' */
+  lineItemId?: string | null
+  /** Required for 'add'; defaults to the existing description otherwise */
+  description?: string
+  costCode?: string | null
+  roomId?: string | null
+  roomName?: string | null
+  unit?: string | null
+  quantity?: number | null
+  directCost?: number | null
+  clientPrice?: number | null
+}
+
+export interface CreateChangeOrderData {
+  title?: string
+  reason?: string
+  items: ChangeOrderItemInput[]
+}
+
+export interface ChangeOrderResult {
+  success: boolean
+  changeOrderId?: string
+  status?: ChangeOrderStatus
+  error?: string
+}
+
+// =============================================================================
+// Internal Helpers
+// =============================================================================
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/**
+ * Get change order (with items) and verify the current user owns its project
+ */
+async function getChangeOrderWithAuth(changeOrderId: string) {
+  const user = await requireAuth()
+  const supabase = await createServerClient()
+
+  const { data: changeOrder, error } = await supabase
+    .from('change_orders')
+    .select('*, change_order_items(*), projects!inner(user_id)')
+    .eq('id', changeOrderId)
+    .single()
+
+  if (error || !changeOrder) {
+    throw new Error('Change order not found')
+  }
+
+  if ((changeOrder.projects as any).user_id !== user.id) {
+    throw new Error('Unauthorized: You do not own this change order')
+  }
+
+  return { changeOrder: changeOrder as ChangeOrderWithItems, user, supabase }
+}
+
+/**
+ * Get the region recorded with pricing events for a project
+ * 
+ * Region precedence:
+ * 1. The project's cost region name (projects.cost_region override, then
+ *    the ZIP in project_address - lib/pricing/regional-cost-index.ts)
+ * 2. user_profile_settings.region (user's configured region)
+ * 3. null (if not configured)
+ */
+async function getPricingRegion(
+  supabase: Awaited<ReturnType<typeof createServerClient>>,
+  userId: string,
+  projectId: string
+): Promise<string | null> {
+  const costRegion = await getProjectCostRegion(supabase, projectId)
+  if (costRegion) {
+    return costRegion.region.name
+  }
+
+  const { data: settings } = await supabase
+    .from('user_profile_settings')
+    .select('region')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return settings?.region || null
+}
+
+/**
+ * Transition change order to a new status with validation
+ */
+async function transitionChangeOrder(
+  changeOrderId: string,
+  targetStatus: ChangeOrderStatus
+): Promise<ChangeOrderResult> {
+  try {
+    const { changeOrder, supabase } = await getChangeOrderWithAuth(changeOrderId)
+
+    if (!isValidChangeOrderTransition(changeOrder.status, targetStatus)) {
+      return {
+        success: false,
+        error: `Invalid transition: ${changeOrder.status} → ${targetStatus}`
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('change_orders')
+      .update({ status: targetStatus })
+      .eq('id', changeOrderId)
+
+    if (updateError) {
+      throw new Error(`Failed to update change order: ${updateError.message}`)
+    }
+
+    return { success: true, changeOrderId, status: targetStatus }
+  } catch (error) {
+    console.error('Error transitioning change order:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update change order'
+    }
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Create a draft change order against a contract_signed estimate.
+ *
+ * For 'modify' and 'remove' items the current line item values are
+ * snapshotted into previous_* so the change order stays readable even
+ * after it has been applied.
+ */
+export async function createChangeOrder(
+  estimateId: string,
+  data: CreateChangeOrderData
+): Promise<ChangeOrderResult> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    if (!data.items || data.items.length === 0) {
+      return { success: false, error: 'A change order needs at least one item' }
+    }
+
+    // Verify estimate ownership and state
+    const { data: estimate, error: estimateError } = await supabase
+      .from('estimates')
+      .select('id, project_id, status, projects!inner(user_id)')
+      .eq('id', estimateId)
+      .single()
+
+    if (estimateError || !estimate) {
+      throw new Error('Estimate not found')
+    }
+
+    if ((estimate.projects as any).user_id !== user.id) {
+      throw new Error('Unauthorized: You do not own this estimate')
+    }
+
+    if (estimate.status !== 'contract_signed') {
+      return {
+        success: false,
+        error: `Change orders can only be created for signed estimates (status=${estimate.status})`
+      }
+    }
+
+    // Snapshot targeted line items
+    const targetIds = data.items
+      .filter(item => item.changeType !== 'add')
+      .map(item => item.lineItemId)
+      .filter((id): id is string => !!id)
+
+    if (targetIds.length !== data.items.filter(item => item.changeType !== 'add').length) {
+      return { success: false, error: 'Remove and modify items must reference a line item' }
+    }
+
+    const existingById = new Map<string, any>()
+    if (targetIds.length > 0) {
+      const { data: existingItems, error: existingError } = await supabase
+        .from('estimate_line_items')
+        .select('id, description, cost_code, room_id, room_name, unit, quantity, direct_cost, client_price, is_active')
+        .eq('estimate_id', estimateId)
+        .in('id', targetIds)
+
+      if (existingError) {
+        throw new Error(`Failed to load line items: ${existingError.message}`)
+      }
+      for (const item of existingItems || []) {
+        existingById.set(item.id, item)
+      }
+    }
+
+    const itemsToInsert = []
+    for (const input of data.items) {
+      if (input.changeType === 'add') {
+        if (!input.description || input.description.trim().length === 0) {
+          return { success: false, error: 'Added items need a description' }
+        }
+        const clientPrice = Number(input.clientPrice ?? input.directCost ?? 0)
+        itemsToInsert.push({
+          change_type: 'add' as const,
+          line_item_id: null,
+          description: input.description.trim(),
+          cost_code: input.costCode ?? null,
+          room_id: input.roomId ?? null,
+          room_name: input.roomName ?? null,
+          unit: input.unit ?? null,
+          quantity: input.quantity ?? null,
+          direct_cost: input.directCost ?? null,
+          client_price: clientPrice,
+          previous_quantity: null,
+          previous_direct_cost: null,
+          previous_client_price: null,
+          price_delta: round2(clientPrice)
+        })
+        continue
+      }
+
+      const existing = existingById.get(input.lineItemId as string)
+      if (!existing || existing.is_active === false) {
+        return { success: false, error: 'Line item not found on this estimate' }
+      }
+
+      const previousPrice = Number(existing.client_price) || 0
+      if (input.changeType === 'remove') {
+        itemsToInsert.push({
+          change_type: 'remove' as const,
+          line_item_id: existing.id,
+          description: existing.description || 'Untitled item',
+          cost_code: existing.cost_code,
+          room_id: existing.room_id,
+          room_name: existing.room_name,
+          unit: existing.unit,
+          quantity: null,
+          direct_cost: null,
+          client_price: null,
+          previous_quantity: existing.quantity,
+          previous_direct_cost: existing.direct_cost,
+          previous_client_price: existing.client_price,
+          price_delta: round2(-previousPrice)
+        })
+      } else {
+        const clientPrice = Number(input.clientPrice ?? existing.client_price ?? 0)
+        itemsToInsert.push({
+          change_type: 'modify' as const,
+          line_item_id: existing.id,
+          description: input.description?.trim() || existing.description || 'Untitled item',
+          cost_code: existing.cost_code,
+          room_id: existing.room_id,
+          room_name: existing.room_name,
+          unit: input.unit ?? existing.unit,
+          quantity: input.quantity !== undefined ? input.quantity : existing.quantity,
+          direct_cost: input.directCost !== undefined ? input.directCost : existing.direct_cost,
+          client_price: clientPrice,
+          previous_quantity: existing.quantity,
+          previous_direct_cost: existing.direct_cost,
+          previous_client_price: existing.client_price,
+          price_delta: round2(clientPrice - previousPrice)
+        })
+      }
+    }
+
+    const totalDelta = round2(itemsToInsert.reduce((sum, item) => sum + item.price_delta, 0))
+
+    // Link to the signed contract for this project, if any
+    const { data: contract } = await supabase
+      .from('contracts')
+      .select('id')
+      .eq('project_id', estimate.project_id)
+      .eq('status', 'signed')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    // Next sequential number within the project
+    const { data: lastChangeOrder } = await supabase
+      .from('change_orders')
+      .select('number')
+      .eq('project_id', estimate.project_id)
+      .order('number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const nextNumber = (lastChangeOrder?.number || 0) + 1
+
+    // Check if user profile exists before setting created_by
+    let createdBy: string | null = null
+    try {
+      const { data: userProfile, error: profileError } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('id', user.id)
+        .maybeSingle()
+
+      if (!profileError && userProfile && userProfile.id) {
+        createdBy = user.id
+      }
+    } catch (profileCheckError) {
+      console.warn('Error checking user profile:', profileCheckError)
+      createdBy = null
+    }
+
+    const { data: changeOrder, error: insertError } = await supabase
+      .from('change_orders')
+      .insert({
+        project_id: estimate.project_id,
+        estimate_id: estimateId,
+        contract_id: contract?.id ?? null,
+        number: nextNumber,
+        title: data.title?.trim() || `Change Order #${nextNumber}`,
+        reason: data.reason?.trim() || null,
+        status: 'draft',
+        total_delta: totalDelta,
+        created_by: createdBy
+      })
+      .select('id')
+      .single()
+
+    if (insertError || !changeOrder) {
+      throw new Error(`Failed to create change order: ${insertError?.message}`)
+    }
+
+    const { error: itemsError } = await supabase
+      .from('change_order_items')
+      .insert(itemsToInsert.map(item => ({ ...item, change_order_id: changeOrder.id })))
+
+    if (itemsError) {
+      // Try to delete the change order if items insertion fails
+      await supabase.from('change_orders').delete().eq('id', changeOrder.id)
+      throw new Error(`Failed to create change order items: ${itemsError.message}`)
+    }
+
+    return { success: true, changeOrderId: changeOrder.id, status: 'draft' }
+  } catch (error) {
+    console.error('Error creating change order:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create change order'
+    }
+  }
+}
+
+/**
+ * Mark change order as sent to the client - draft → sent
+ */
+export async function sendChangeOrder(changeOrderId: string): Promise<ChangeOrderResult> {
+  return transitionChangeOrder(changeOrderId, 'sent')
+}
+
+/**
+ * Reject change order - draft | sent → rejected. No delta is applied.
+ */
+export async function rejectChangeOrder(changeOrderId: string): Promise<ChangeOrderResult> {
+  return transitionChangeOrder(changeOrderId, 'rejected')
+}
+
+/**
+ * Delete a draft change order
+ */
+export async function deleteChangeOrder(changeOrderId: string): Promise<ChangeOrderResult> {
+  try {
+    const { changeOrder, supabase } = await getChangeOrderWithAuth(changeOrderId)
+
+    if (changeOrder.status !== 'draft') {
+      return { success: false, error: 'Only draft change orders can be deleted' }
+    }
+
+    const { error } = await supabase.from('change_orders').delete().eq('id', changeOrderId)
+    if (error) {
+      throw new Error(`Failed to delete change order: ${error.message}`)
+    }
+
+    return { success: true, changeOrderId }
+  } catch (error) {
+    console.error('Error deleting change order:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete change order'
+    }
+  }
+}
+
+/**
+ * Approve change order - sent → approved
+ *
+ * THIS IS A COMMIT MOMENT. When called:
+ * 1. Claims the change order and, in one transaction (apply_change_order),
+ *    checks no task is repriced below what has already been billed, applies
+ *    the delta to estimate_line_items, spawns/reprices project_tasks (only
+ *    if the job has been started) and adds total_delta to
+ *    contracts.total_price; then refreshes estimates.total
+ * 2. Logs pricing_events with stage='change_order_approved'
+ */
+export async function approveChangeOrder(changeOrderId: string): Promise<ChangeOrderResult> {
+  try {
+    const { changeOrder, user, supabase } = await getChangeOrderWithAuth(changeOrderId)
+
+    if (!isValidChangeOrderTransition(changeOrder.status, 'approved')) {
+      return {
+        success: false,
+        error: `Invalid transition: ${changeOrder.status} → approved. Send the change order first.`
+      }
+    }
+
+    const items = changeOrder.change_order_items || []
+
+    // 1. Claim and apply in one transaction: line items, tasks and the
+    // contract total (atomic increment). A second approval, concurrent or a
+    // retry, finds the change order no longer 'sent' and applies nothing; a
+    // task billed past its new price rolls the whole approval back.
+    const { error: applyError } = await supabase.rpc('apply_change_order', {
+      p_change_order_id: changeOrderId
+    })
+
+    if (applyError) {
+      if (applyError.message?.includes('not awaiting approval')) {
+        return { success: false, error: 'This change order has already been approved' }
+      }
+      if (applyError.message?.startsWith('Cannot approve:')) {
+        return { success: false, error: applyError.message }
+      }
+      throw new Error(`Failed to approve change order: ${applyError.message}`)
+    }
+
+    await refreshEstimateTotal(supabase, changeOrder.estimate_id, changeOrder.project_id)
+
+    // Added items got their line item ids from the apply
+    const { data: appliedItems } = await supabase
+      .from('change_order_items')
+      .select('id, line_item_id')
+      .eq('change_order_id', changeOrderId)
+    const appliedLineItemIds = new Map((appliedItems || []).map(row => [row.id, row.line_item_id as string | null]))
+
+    const committedItems: LineItemForCommit[] = items
+      .filter(item => item.change_type !== 'remove')
+      .map(item => ({
+        id: (item.change_type === 'add' ? appliedLineItemIds.get(item.id) : item.line_item_id) || '',
+        description: item.description,
+        costCode: item.cost_code,
+        unit: item.unit,
+        quantity: item.quantity ?? undefined,
+        directCost: item.direct_cost ?? undefined,
+        pricingSource: 'manual' as const
+      }))
+      .filter(item => item.id !== '')
+
+    // 2. Commit pricing for added/modified items
+    if (committedItems.length > 0) {
+      try {
+        const userRegion = await getPricingRegion(supabase, user.id, changeOrder.project_id)
+        // Fire-and-forget: don't block the approval
+        recordPricingCommit(committedItems, {
+          projectId: changeOrder.project_id,
+          estimateId: changeOrder.estimate_id,
+          region: userRegion,
+          stage: 'change_order_approved',
+          saveToLibrary: true
+        }).catch(err => console.warn('Failed to record change order pricing commit:', err))
+      } catch (pricingError) {
+        console.warn('Failed to record pricing events for change order:', pricingError)
+      }
+    }
+
+    return { success: true, changeOrderId, status: 'approved' }
+  } catch (error) {
+    console.error('Error approving change order:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to approve change order'
+    }
+  }
+}
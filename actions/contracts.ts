@@ -1,11 +1,20 @@
 'use server'
 
-import { createServerClient } from '@/lib/supabase/server'
+import { createHash } from 'crypto'
+import { headers } from 'next/headers'
+import { createServerClient, createServiceRoleClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/supabase/server'
+import { computeSelectionTotal } from '@/lib/estimate-alternates'
+import { generateShareToken, getClientIp } from '@/lib/proposal-portal'
+import { renderContractPdf } from '@/lib/contract-pdf'
+import { markContractSigned } from '@/actions/estimate-lifecycle'
 
 export interface PaymentMilestone {
   milestone: string
   amount: number
+  /** Cost code range whose tasks must be completed to invoice this milestone */
+  costCodeStart?: number | null
+  costCodeEnd?: number | null
 }
 
 export interface LegalClauses {
@@ -19,10 +28,51 @@ export interface CreateContractData {
   completionDate: string
   totalPrice: number
   downPayment: number
+  /** Percent withheld from each invoice until closeout (0-100) */
+  retainagePercent?: number
   paymentSchedule: PaymentMilestone[]
   legalText: LegalClauses
 }
 
+/**
+ * Accept a proposal's alternate selection into its estimate and refresh
+ * estimates.total (base + selected alternates, in-scope rooms only)
+ */
+async function syncEstimateAlternateSelection(
+  supabase: Awaited<ReturnType<typeof createServerClient>>,
+  estimateId: string,
+  selectedAlternateIds: string[]
+): Promise<void> {
+  const { data: estimate } = await supabase
+    .from('estimates')
+    .select('id, project_id')
+    .eq('id', estimateId)
+    .single()
+
+  if (!estimate) return
+
+  const [{ data: lineItems }, { data: rooms }] = await Promise.all([
+    supabase
+      .from('estimate_line_items')
+      .select('client_price, room_id, alternate_ids')
+      .eq('estimate_id', estimateId)
+      .neq('is_active', false),
+    supabase
+      .from('rooms')
+      .select('id, is_in_scope')
+      .eq('project_id', estimate.project_id),
+  ])
+
+  const outOfScope = new Set((rooms || []).filter(r => r.is_in_scope === false).map(r => r.id))
+  const inScopeItems = (lineItems || []).filter(li => !(li.room_id && outOfScope.has(li.room_id)))
+  const total = computeSelectionTotal(inScopeItems, selectedAlternateIds)
+
+  await supabase
+    .from('estimates')
+    .update({ selected_alternate_ids: selectedAlternateIds, total })
+    .eq('id', estimateId)
+}
+
 export async function createContractFromProposal(
   projectId: string,
   proposalId: string | null,
@@ -40,6 +90,14 @@ export async function createContractFromProposal(
       }
     }
 
+    const retainagePercent = data.retainagePercent ?? 0
+    if (retainagePercent < 0 || retainagePercent > 100) {
+      return {
+        success: false,
+        error: 'Retainage must be between 0% and 100%'
+      }
+    }
+
     // Check if user profile exists before setting created_by
     let createdBy: string | null = null
     try {
@@ -57,6 +115,20 @@ export async function createContractFromProposal(
       createdBy = null
     }
 
+    // Carry the client's alternate selection from the proposal
+    let selectedAlternateIds: string[] = []
+    let proposalEstimateId: string | null = null
+    if (proposalId) {
+      const { data: proposal } = await supabase
+        .from('proposals')
+        .select('estimate_id, selected_alternate_ids')
+        .eq('id', proposalId)
+        .maybeSingle()
+
+      selectedAlternateIds = proposal?.selected_alternate_ids || []
+      proposalEstimateId = proposal?.estimate_id ?? null
+    }
+
     // Create contract
     const { data: contract, error: contractError } = await supabase
       .from('contracts')
@@ -65,10 +137,12 @@ export async function createContractFromProposal(
         proposal_id: proposalId,
         total_price: data.totalPrice,
         down_payment: data.downPayment,
+        retainage_percent: retainagePercent,
         start_date: data.startDate || null,
         completion_date: data.completionDate || null,
         payment_schedule: data.paymentSchedule,
         legal_text: data.legalText,
+        selected_alternate_ids: selectedAlternateIds,
         status: 'draft',
         created_by: createdBy
       })
@@ -79,6 +153,46 @@ export async function createContractFromProposal(
       throw new Error(`Failed to create contract: ${contractError.message}`)
     }
 
+    // Down payment and payment schedule become invoiceable milestones
+    const milestoneRows = [
+      ...(data.downPayment > 0
+        ? [{ name: 'Down payment', amount: data.downPayment, is_down_payment: true, cost_code_start: null, cost_code_end: null }]
+        : []),
+      ...data.paymentSchedule
+        .filter(item => item.milestone.trim() !== '' || (item.amount || 0) > 0)
+        .map((item, idx) => {
+          const hasRange = item.costCodeStart != null && item.costCodeEnd != null
+          return {
+            name: item.milestone.trim() || `Milestone ${idx + 1}`,
+            amount: Math.max(0, item.amount || 0),
+            is_down_payment: false,
+            cost_code_start: hasRange ? Math.min(item.costCodeStart!, item.costCodeEnd!) : null,
+            cost_code_end: hasRange ? Math.max(item.costCodeStart!, item.costCodeEnd!) : null,
+          }
+        }),
+    ]
+
+    if (milestoneRows.length > 0) {
+      const { error: milestonesError } = await supabase
+        .from('contract_milestones')
+        .insert(milestoneRows.map((row, idx) => ({
+          ...row,
+          contract_id: contract.id,
+          project_id: projectId,
+          sort_order: row.is_down_payment ? 0 : idx + (data.downPayment > 0 ? 0 : 1),
+        })))
+
+      if (milestonesError) {
+        await supabase.from('contracts').delete().eq('id', contract.id)
+        throw new Error(`Failed to create payment milestones: ${milestonesError.message}`)
+      }
+    }
+
+    // Selected alternates become part of the job
+    if (proposalEstimateId) {
+      await syncEstimateAlternateSelection(supabase, proposalEstimateId, selectedAlternateIds)
+    }
+
     return {
       success: true,
       contractId: contract.id
@@ -95,6 +209,10 @@ export async function createContractFromProposal(
 /**
  * Recalculate and update a contract's total_price from current estimate line items.
  * Follows the chain: contract -> proposal -> estimate -> line items (filtered by room is_in_scope).
+ * Includes base scope plus the alternates selected on the contract.
+ *
+ * Draft contracts only: once sent, the total is what the client is signing
+ * and changes go through change orders.
  */
 export async function regenerateContractTotal(
   contractId: string
@@ -110,13 +228,16 @@ export async function regenerateContractTotal(
     // Fetch contract with proposal relationship
     const { data: contract, error: contractError } = await supabase
       .from('contracts')
-      .select('id, project_id, proposal_id, proposals(estimate_id)')
+      .select('id, project_id, proposal_id, status, selected_alternate_ids, proposals(estimate_id)')
       .eq('id', contractId)
       .maybeSingle()
 
     if (contractError || !contract) {
       throw new Error('Contract not found')
     }
+    if (contract.status !== 'draft') {
+      throw new Error('Only draft contracts can be re-priced. Use a change order once a contract is sent.')
+    }
 
     // Verify project ownership
     const { data: project, error: projectError } = await supabase
@@ -141,6 +262,7 @@ export async function regenerateContractTotal(
       .select(`
         client_price,
         room_id,
+        alternate_ids,
         rooms!estimate_line_items_room_id_fkey (
           id,
           is_in_scope
@@ -152,23 +274,27 @@ export async function regenerateContractTotal(
       throw new Error(`Failed to fetch line items: ${lineItemsError.message}`)
     }
 
-    // Calculate new total (only in-scope rooms)
-    let newTotal = 0
-    for (const item of (lineItems || []) as any[]) {
+    // Calculate new total (only in-scope rooms, base + selected alternates)
+    const inScopeItems = ((lineItems || []) as any[]).filter(item => {
       const room = item.rooms as { id: string; is_in_scope: boolean } | null
-      if (room && room.is_in_scope === false) continue
-      newTotal += Number(item.client_price) || 0
-    }
+      return !(room && room.is_in_scope === false)
+    })
+    const newTotal = computeSelectionTotal(inScopeItems, contract.selected_alternate_ids)
 
-    // Update contract total_price
-    const { error: updateError } = await supabase
+    // Update contract total_price (guarded: it may have been sent meanwhile)
+    const { data: updated, error: updateError } = await supabase
       .from('contracts')
       .update({ total_price: newTotal })
       .eq('id', contractId)
+      .eq('status', 'draft')
+      .select('id')
 
     if (updateError) {
       throw new Error(`Failed to update contract: ${updateError.message}`)
     }
+    if (!updated || updated.length === 0) {
+      throw new Error('Only draft contracts can be re-priced. Use a change order once a contract is sent.')
+    }
 
     return { success: true, newTotal }
   } catch (error) {
@@ -180,4 +306,257 @@ export async function regenerateContractTotal(
   }
 }
 
+/**
+ * Load a contract and verify the current user owns its project
+ */
+async function getContractWithAuth(contractId: string) {
+  const user = await requireAuth()
+  if (!user || !user.id) {
+    throw new Error('Authentication required')
+  }
+  const supabase = await createServerClient()
+
+  const { data: contract, error: contractError } = await supabase
+    .from('contracts')
+    .select('*')
+    .eq('id', contractId)
+    .maybeSingle()
+
+  if (contractError || !contract) {
+    throw new Error('Contract not found')
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id, user_id')
+    .eq('id', contract.project_id)
+    .single()
+
+  if (projectError || !project || project.user_id !== user.id) {
+    throw new Error('Unauthorized')
+  }
+
+  // created_by references profiles - only set it if the profile exists
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  return { user, supabase, contract, profileId: (profile?.id as string | undefined) ?? null }
+}
+
+/**
+ * Send a contract to the client for signature.
+ *
+ * Creates the signing token (reused unless regenerate is set) and moves a
+ * draft contract to 'sent'. The client signs at /portal/contracts/<token>.
+ */
+export async function sendContractForSignature(
+  contractId: string,
+  options: { regenerate?: boolean } = {}
+): Promise<{ success: boolean; signingToken?: string; error?: string }> {
+  try {
+    const { supabase, contract, profileId } = await getContractWithAuth(contractId)
+
+    if (contract.status === 'client_signed' || contract.status === 'signed') {
+      throw new Error('Contract has already been signed by the client')
+    }
+
+    if (contract.signing_token && !options.regenerate) {
+      return { success: true, signingToken: contract.signing_token }
+    }
+
+    const signingToken = generateShareToken()
+    const now = new Date().toISOString()
+
+    const { error: updateError } = await supabase
+      .from('contracts')
+      .update({
+        signing_token: signingToken,
+        sent_at: contract.sent_at || now,
+        status: 'sent',
+      })
+      .eq('id', contractId)
+
+    if (updateError) {
+      throw new Error(`Failed to send contract: ${updateError.message}`)
+    }
+
+    await supabase
+      .from('contract_events')
+      .insert({
+        contract_id: contractId,
+        event_type: 'sent',
+        metadata: {
+          channel: 'client_portal',
+          regenerated: Boolean(contract.signing_token),
+        },
+        created_by: profileId,
+      })
+
+    return { success: true, signingToken }
+  } catch (error) {
+    console.error('Error sending contract for signature:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send contract'
+    }
+  }
+}
+
+/**
+ * Countersign a client-signed contract.
+ *
+ * Records the contractor's typed-name signature, renders the final PDF (with
+ * the signature audit certificate) and archives it in storage as an immutable
+ * uploads row linked to the contract. The copy the client signed was
+ * archived and hashed when they signed (see clientSignContract); its hash is
+ * carried on the certificate. If the linked estimate is still at bid_final
+ * it is moved to contract_signed.
+ */
+export async function countersignContract(
+  contractId: string,
+  signerName: string
+): Promise<{ success: boolean; uploadId?: string; fileUrl?: string; error?: string }> {
+  try {
+    const { user, supabase, contract, profileId } = await getContractWithAuth(contractId)
+
+    if (contract.status === 'signed') {
+      throw new Error('Contract is already fully signed')
+    }
+    if (contract.status !== 'client_signed') {
+      throw new Error('The client must sign the contract before you countersign')
+    }
+
+    const name = signerName.trim()
+    if (!name) {
+      throw new Error('Type your full name to countersign')
+    }
+
+    const requestHeaders = await headers()
+    const ip = getClientIp(requestHeaders)
+    const now = new Date().toISOString()
+
+    const { data: updated, error: updateError } = await supabase
+      .from('contracts')
+      .update({
+        status: 'signed',
+        contractor_signer_name: name,
+        contractor_signed_at: now,
+        contractor_signer_ip: ip,
+        contractor_signed_by: profileId,
+      })
+      .eq('id', contractId)
+      .eq('status', 'client_signed')
+      .select('id')
+
+    if (updateError) {
+      throw new Error(`Failed to countersign contract: ${updateError.message}`)
+    }
+    if (!updated || updated.length === 0) {
+      throw new Error('Contract is already fully signed')
+    }
+
+    await supabase
+      .from('contract_events')
+      .insert({
+        contract_id: contractId,
+        event_type: 'countersigned',
+        metadata: {
+          signer_name: name,
+          signed_at: now,
+          ip,
+          user_agent: requestHeaders.get('user-agent'),
+        },
+        created_by: profileId,
+      })
+
+    // Render and archive the final signed copy
+    const { pdf, project } = await renderContractPdf(supabase, contractId)
+    const sha256 = createHash('sha256').update(pdf).digest('hex')
+    const filePath = `${user.id}/contracts/${contract.project_id}/${contractId}-signed-${Date.now()}.pdf`
+    const filename = `Contract-${project.title || 'Contract'}-signed.pdf`
+
+    const storage = createServiceRoleClient().storage
+    const { error: uploadError } = await storage
+      .from('uploads')
+      .upload(filePath, pdf, {
+        contentType: 'application/pdf',
+        upsert: false,
+      })
+
+    if (uploadError) {
+      throw new Error(`Contract signed, but archiving the PDF failed: ${uploadError.message}`)
+    }
+
+    const { data: { publicUrl } } = storage
+      .from('uploads')
+      .getPublicUrl(filePath)
+
+    const { data: upload, error: recordError } = await supabase
+      .from('uploads')
+      .insert({
+        project_id: contract.project_id,
+        file_url: publicUrl,
+        kind: 'contract',
+        tag: 'contract',
+        file_type: 'pdf',
+        original_filename: filename,
+        contract_id: contractId,
+        is_immutable: true,
+      })
+      .select('id')
+      .single()
+
+    if (recordError || !upload) {
+      await storage.from('uploads').remove([filePath])
+      throw new Error(`Contract signed, but archiving the PDF failed: ${recordError?.message || 'unknown error'}`)
+    }
+
+    await supabase
+      .from('contracts')
+      .update({
+        signed_upload_id: upload.id,
+        signed_pdf_sha256: sha256,
+      })
+      .eq('id', contractId)
+
+    await supabase
+      .from('contract_events')
+      .insert({
+        contract_id: contractId,
+        event_type: 'archived',
+        metadata: {
+          upload_id: upload.id,
+          sha256,
+        },
+        created_by: profileId,
+      })
+
+    // Signing the contract locks in the estimate's pricing
+    if (contract.proposal_id) {
+      const { data: proposal } = await supabase
+        .from('proposals')
+        .select('estimate_id, estimates(status)')
+        .eq('id', contract.proposal_id)
+        .maybeSingle()
 
+      const estimate = proposal?.estimates as any
+      if (proposal?.estimate_id && estimate?.status === 'bid_final') {
+        const transition = await markContractSigned(proposal.estimate_id)
+        if (!transition.success) {
+          console.warn('Contract countersigned but estimate was not moved to contract_signed:', transition.error)
+        }
+      }
+    }
+
+    return { success: true, uploadId: upload.id, fileUrl: publicUrl }
+  } catch (error) {
+    console.error('Error countersigning contract:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to countersign contract'
+    }
+  }
+}
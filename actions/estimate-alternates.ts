@@ -0,0 +1,366 @@
+'use server'
+
+/**
+ * Server actions for estimate alternates (good / better / best).
+ *
+ * An alternate is a named, optional scope package on an estimate. Line items
+ * with no alternate_ids are base scope; items assigned to alternates are only
+ * counted when one of their alternates is selected.
+ *
+ * Alternates and assignments can only be changed while the estimate is a
+ * draft. estimates.total is refreshed after every change that affects it.
+ */
+
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { refreshEstimateTotal } from '@/lib/estimate-total'
+import type { EstimateAlternate } from '@/types/db'
+import { z } from 'zod'
+
+// ─── Zod schemas ────────────────────────────────────────────────────────────
+
+const AlternateInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().max(2000).nullable().optional(),
+})
+
+const AlternateIdsSchema = z.array(z.string().uuid()).max(50)
+
+export type AlternateInput = {
+  name: string
+  description?: string | null
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function validationError(error: z.ZodError): string {
+  return `Validation failed: ${error.errors.map(e => `${e.path.join('.') || 'value'}: ${e.message}`).join('; ')}`
+}
+
+/**
+ * Get estimate with ownership verification
+ */
+async function getEstimateWithAuth(estimateId: string) {
+  const user = await requireAuth()
+  const supabase = await createServerClient()
+
+  const { data: estimate, error } = await supabase
+    .from('estimates')
+    .select(`
+      id,
+      project_id,
+      status,
+      selected_alternate_ids,
+      projects!inner(user_id)
+    `)
+    .eq('id', estimateId)
+    .single()
+
+  if (error || !estimate) {
+    throw new Error('Estimate not found')
+  }
+
+  if ((estimate.projects as any).user_id !== user.id) {
+    throw new Error('Unauthorized: You do not own this estimate')
+  }
+
+  return { estimate, supabase }
+}
+
+function assertDraft(status: string) {
+  if (status !== 'draft') {
+    throw new Error(`Estimate is locked (status=${status}). Only drafts can be edited.`)
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * List an estimate's alternates and which of them are selected
+ */
+export async function listEstimateAlternates(
+  estimateId: string
+): Promise<{ success: boolean; alternates?: EstimateAlternate[]; selectedAlternateIds?: string[]; error?: string }> {
+  try {
+    const { estimate, supabase } = await getEstimateWithAuth(estimateId)
+
+    const { data, error } = await supabase
+      .from('estimate_alternates')
+      .select('*')
+      .eq('estimate_id', estimateId)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load alternates: ${error.message}`)
+    }
+
+    return {
+      success: true,
+      alternates: (data || []) as EstimateAlternate[],
+      selectedAlternateIds: estimate.selected_alternate_ids || [],
+    }
+  } catch (error) {
+    console.error('Error listing estimate alternates:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load alternates',
+    }
+  }
+}
+
+/**
+ * Add an alternate to a draft estimate
+ */
+export async function createEstimateAlternate(
+  estimateId: string,
+  input: AlternateInput
+): Promise<{ success: boolean; alternate?: EstimateAlternate; error?: string }> {
+  const parsed = AlternateInputSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+
+  try {
+    const { estimate, supabase } = await getEstimateWithAuth(estimateId)
+    assertDraft(estimate.status)
+
+    const { data: last } = await supabase
+      .from('estimate_alternates')
+      .select('sort_order')
+      .eq('estimate_id', estimateId)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data: alternate, error } = await supabase
+      .from('estimate_alternates')
+      .insert({
+        estimate_id: estimateId,
+        project_id: estimate.project_id,
+        name: parsed.data.name,
+        description: parsed.data.description?.trim() || null,
+        sort_order: (last?.sort_order ?? -1) + 1,
+      })
+      .select('*')
+      .single()
+
+    if (error || !alternate) {
+      throw new Error(`Failed to create alternate: ${error?.message}`)
+    }
+
+    return { success: true, alternate: alternate as EstimateAlternate }
+  } catch (error) {
+    console.error('Error creating estimate alternate:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create alternate',
+    }
+  }
+}
+
+/**
+ * Rename or re-describe an alternate on a draft estimate
+ */
+export async function updateEstimateAlternate(
+  alternateId: string,
+  input: AlternateInput
+): Promise<{ success: boolean; alternate?: EstimateAlternate; error?: string }> {
+  const parsed = AlternateInputSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+
+  try {
+    const supabase = await createServerClient()
+    const { data: existing } = await supabase
+      .from('estimate_alternates')
+      .select('estimate_id')
+      .eq('id', alternateId)
+      .maybeSingle()
+
+    if (!existing) {
+      return { success: false, error: 'Alternate not found' }
+    }
+
+    const { estimate } = await getEstimateWithAuth(existing.estimate_id)
+    assertDraft(estimate.status)
+
+    const { data: alternate, error } = await supabase
+      .from('estimate_alternates')
+      .update({
+        name: parsed.data.name,
+        description: parsed.data.description?.trim() || null,
+      })
+      .eq('id', alternateId)
+      .select('*')
+      .single()
+
+    if (error || !alternate) {
+      throw new Error(`Failed to update alternate: ${error?.message}`)
+    }
+
+    return { success: true, alternate: alternate as EstimateAlternate }
+  } catch (error) {
+    console.error('Error updating estimate alternate:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update alternate',
+    }
+  }
+}
+
+/**
+ * Delete an alternate from a draft estimate.
+ *
+ * Line items that belong only to this alternate are deleted with it (DB
+ * trigger); items shared with other alternates stay on those alternates.
+ */
+export async function deleteEstimateAlternate(
+  alternateId: string
+): Promise<{ success: boolean; grandTotal?: number; error?: string }> {
+  try {
+    const supabase = await createServerClient()
+    const { data: existing } = await supabase
+      .from('estimate_alternates')
+      .select('estimate_id')
+      .eq('id', alternateId)
+      .maybeSingle()
+
+    if (!existing) {
+      return { success: false, error: 'Alternate not found' }
+    }
+
+    const { estimate } = await getEstimateWithAuth(existing.estimate_id)
+    assertDraft(estimate.status)
+
+    const { error } = await supabase
+      .from('estimate_alternates')
+      .delete()
+      .eq('id', alternateId)
+
+    if (error) {
+      throw new Error(`Failed to delete alternate: ${error.message}`)
+    }
+
+    const grandTotal = await refreshEstimateTotal(supabase, estimate.id, estimate.project_id)
+    return { success: true, grandTotal }
+  } catch (error) {
+    console.error('Error deleting estimate alternate:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete alternate',
+    }
+  }
+}
+
+/**
+ * Assign a line item to alternates. An empty list moves it back to base scope.
+ */
+export async function setLineItemAlternates(
+  lineItemId: string,
+  alternateIds: string[]
+): Promise<{ success: boolean; alternateIds?: string[]; grandTotal?: number; error?: string }> {
+  const parsed = AlternateIdsSchema.safeParse(alternateIds)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+  const ids = Array.from(new Set(parsed.data))
+
+  try {
+    const supabase = await createServerClient()
+    const { data: lineItem } = await supabase
+      .from('estimate_line_items')
+      .select('id, estimate_id')
+      .eq('id', lineItemId)
+      .maybeSingle()
+
+    if (!lineItem || !lineItem.estimate_id) {
+      return { success: false, error: 'Line item not found' }
+    }
+
+    const { estimate } = await getEstimateWithAuth(lineItem.estimate_id)
+    assertDraft(estimate.status)
+
+    if (ids.length > 0) {
+      const { data: alternates } = await supabase
+        .from('estimate_alternates')
+        .select('id')
+        .eq('estimate_id', estimate.id)
+        .in('id', ids)
+
+      if ((alternates || []).length !== ids.length) {
+        return { success: false, error: 'Unknown alternate for this estimate' }
+      }
+    }
+
+    const { error } = await supabase
+      .from('estimate_line_items')
+      .update({ alternate_ids: ids })
+      .eq('id', lineItemId)
+
+    if (error) {
+      throw new Error(`Failed to update line item: ${error.message}`)
+    }
+
+    const grandTotal = await refreshEstimateTotal(supabase, estimate.id, estimate.project_id)
+    return { success: true, alternateIds: ids, grandTotal }
+  } catch (error) {
+    console.error('Error assigning line item alternates:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to assign alternates',
+    }
+  }
+}
+
+/**
+ * Choose which alternates are included in the estimate total.
+ *
+ * Once a proposal is accepted the client's selection is carried over by
+ * createContractFromProposal; this is for the contractor's working total.
+ */
+export async function setEstimateAlternateSelection(
+  estimateId: string,
+  alternateIds: string[]
+): Promise<{ success: boolean; selectedAlternateIds?: string[]; grandTotal?: number; error?: string }> {
+  const parsed = AlternateIdsSchema.safeParse(alternateIds)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+  const ids = Array.from(new Set(parsed.data))
+
+  try {
+    const { estimate, supabase } = await getEstimateWithAuth(estimateId)
+    assertDraft(estimate.status)
+
+    if (ids.length > 0) {
+      const { data: alternates } = await supabase
+        .from('estimate_alternates')
+        .select('id')
+        .eq('estimate_id', estimateId)
+        .in('id', ids)
+
+      if ((alternates || []).length !== ids.length) {
+        return { success: false, error: 'Unknown alternate for this estimate' }
+      }
+    }
+
+    const { error } = await supabase
+      .from('estimates')
+      .update({ selected_alternate_ids: ids })
+      .eq('id', estimateId)
+
+    if (error) {
+      throw new Error(`Failed to update selection: ${error.message}`)
+    }
+
+    const grandTotal = await refreshEstimateTotal(supabase, estimateId, estimate.project_id)
+    return { success: true, selectedAlternateIds: ids, grandTotal }
+  } catch (error) {
+    console.error('Error selecting estimate alternates:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to select alternates',
+    }
+  }
+}
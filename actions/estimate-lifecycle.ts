@@ -45,16 +45,24 @@
  * Allowed transitions:
  * - draft → bid_final
  * - bid_final → contract_signed  
+ * - bid_final → draft (revise bid: bumps revision, supersedes bid_final events)
  * - contract_signed → completed
+ * 
+ * Every transition is recorded in estimate_status_history (who/when/why).
  */
 
 import { createServerClient, requireAuth } from '@/lib/supabase/server'
 import { 
   EstimateStatus, 
+  EstimateSnapshotTrigger,
+  EstimateStatusHistoryEntry,
+  ESTIMATE_STATUS_TRANSITIONS,
   isValidEstimateTransition,
   isPricingTruthState 
 } from '@/types/db'
 import { recordPricingCommit, type LineItemForCommit } from '@/hooks/usePricingFeedback'
+import { getProjectCostRegion } from '@/lib/pricing/getProjectCostRegion'
+import { captureEstimateSnapshot } from '@/lib/estimate-snapshots'
 
 // =============================================================================
 // Types
@@ -67,6 +75,7 @@ export interface EstimateTransitionResult {
     id: string
     status: EstimateStatus
     status_changed_at: string | null
+    revision: number
   }
 }
 
@@ -88,6 +97,7 @@ async function getEstimateWithAuth(estimateId: string) {
       project_id, 
       status, 
       status_changed_at,
+      revision,
       projects!inner(user_id)
     `)
     .eq('id', estimateId)
@@ -106,18 +116,24 @@ async function getEstimateWithAuth(estimateId: string) {
 }
 
 /**
- * Get user's default region from user_profile_settings
- * 
- * Region precedence (Phase 1):
- * 1. user_profile_settings.region (user's configured region)
- * 2. null (if not configured)
+ * Get the region recorded with pricing events for a project
  * 
- * Future: Could add project-level region override
+ * Region precedence:
+ * 1. The project's cost region name (projects.cost_region override, then
+ *    the ZIP in project_address - lib/pricing/regional-cost-index.ts)
+ * 2. user_profile_settings.region (user's configured region)
+ * 3. null (if not configured)
  */
-async function getUserRegion(
+async function getPricingRegion(
   supabase: Awaited<ReturnType<typeof createServerClient>>,
-  userId: string
+  userId: string,
+  projectId: string
 ): Promise<string | null> {
+  const costRegion = await getProjectCostRegion(supabase, projectId)
+  if (costRegion) {
+    return costRegion.region.name
+  }
+
   const { data: settings } = await supabase
     .from('user_profile_settings')
     .select('region')
@@ -172,6 +188,46 @@ async function validateAllItemsPriced(
   return null // All items are priced
 }
 
+/**
+ * Record a lifecycle transition in estimate_status_history
+ * Failures are logged, never thrown - the transition itself already happened
+ */
+async function recordStatusHistory(
+  supabase: Awaited<ReturnType<typeof createServerClient>>,
+  entry: {
+    estimateId: string
+    projectId: string
+    fromStatus: EstimateStatus
+    toStatus: EstimateStatus
+    revision: number
+    reason?: string | null
+    userId: string
+  }
+): Promise<void> {
+  // changed_by references profiles - only set it if the profile exists
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('id', entry.userId)
+    .maybeSingle()
+
+  const { error } = await supabase
+    .from('estimate_status_history')
+    .insert({
+      estimate_id: entry.estimateId,
+      project_id: entry.projectId,
+      from_status: entry.fromStatus,
+      to_status: entry.toStatus,
+      revision: entry.revision,
+      reason: entry.reason?.trim() || null,
+      changed_by: profile?.id ?? null
+    })
+
+  if (error) {
+    console.warn('Failed to record estimate status history:', error)
+  }
+}
+
 /**
  * Transition estimate to new status with validation
  */
@@ -181,7 +237,7 @@ async function transitionEstimate(
   captureCommitStage?: 'proposal_created' | 'bid_final' | 'contract_signed' | 'completed'
 ): Promise<EstimateTransitionResult> {
   try {
-    const { estimate, supabase } = await getEstimateWithAuth(estimateId)
+    const { estimate, user, supabase } = await getEstimateWithAuth(estimateId)
     const currentStatus = estimate.status as EstimateStatus
     
     // Validate transition
@@ -189,9 +245,7 @@ async function transitionEstimate(
       return {
         success: false,
         error: `Invalid transition: ${currentStatus} → ${targetStatus}. Allowed: ${currentStatus} → ${
-          currentStatus === 'draft' ? 'bid_final' :
-          currentStatus === 'bid_final' ? 'contract_signed' :
-          currentStatus === 'contract_signed' ? 'completed' : 'none'
+          ESTIMATE_STATUS_TRANSITIONS[currentStatus]?.join(' | ') || 'none'
         }`
       }
     }
@@ -202,7 +256,7 @@ async function transitionEstimate(
       .from('estimates')
       .update({ status: targetStatus })
       .eq('id', estimateId)
-      .select('id, status, status_changed_at')
+      .select('id, status, status_changed_at, revision')
       .single()
     
     if (updateError) {
@@ -216,13 +270,35 @@ async function transitionEstimate(
       throw updateError
     }
     
+    await recordStatusHistory(supabase, {
+      estimateId,
+      projectId: estimate.project_id,
+      fromStatus: currentStatus,
+      toStatus: targetStatus,
+      revision: updated.revision,
+      userId: user.id
+    })
+    
+    // Freeze the estimate as it stood at this transition so later edits
+    // (revisions, change orders) can be diffed against it
+    const snapshot = await captureEstimateSnapshot(supabase, {
+      estimateId,
+      projectId: estimate.project_id,
+      trigger: targetStatus as EstimateSnapshotTrigger,
+      estimateStatus: targetStatus,
+      userId: user.id
+    })
+    if (!snapshot.ok) {
+      // Don't fail the transition if the snapshot fails
+      console.warn('Failed to capture estimate snapshot at transition:', snapshot.error)
+    }
+    
     // If transitioning to a pricing truth state, capture pricing events
     // This logs the pricing data for learning (per PRODUCT_CONTEXT.md)
     if (isPricingTruthState(targetStatus) && captureCommitStage) {
       try {
         // Get user's region for consistent event/library capture
-        const { user } = await getEstimateWithAuth(estimateId)
-        const userRegion = await getUserRegion(supabase, user.id)
+        const userRegion = await getPricingRegion(supabase, user.id, estimate.project_id)
         
         const { data: lineItems } = await supabase
           .from('estimate_line_items')
@@ -247,7 +323,7 @@ async function transitionEstimate(
           recordPricingCommit(lineItemsForCommit, {
             projectId: estimate.project_id,
             estimateId,
-            region: userRegion, // User's default region from profile settings
+            region: userRegion, // Project cost region, else the user's region setting
             stage: captureCommitStage,
             saveToLibrary: true // Save prices to user library at commit
           }).catch(err => console.warn('Failed to record pricing commit:', err))
@@ -264,6 +340,7 @@ async function transitionEstimate(
         id: string
         status: EstimateStatus
         status_changed_at: string | null
+        revision: number
       }
     }
   } catch (error) {
@@ -288,6 +365,7 @@ async function transitionEstimate(
  * 3. pricing_events are logged with stage='bid_final' for ALL line items
  * 4. Prices are saved to user_cost_library for future reference
  * 5. Pricing is now considered "truth" for learning purposes
+ * 6. An immutable estimate snapshot is captured (trigger='bid_final')
  * 
  * Call this when the user confirms their bid is ready to send.
  * After this point, the contractor is committed to these prices.
@@ -327,6 +405,7 @@ export async function finalizeBid(estimateId: string): Promise<EstimateTransitio
  * 3. pricing_events are logged with stage='contract_signed' for ALL line items
  * 4. Prices are saved to user_cost_library (strongest signal - client agreed)
  * 5. Pricing is now locked and considered final truth
+ * 6. An immutable estimate snapshot is captured (trigger='contract_signed')
  * 
  * Call this when a contract is generated and accepted by the client.
  * This is the strongest pricing signal - both parties agreed.
@@ -373,6 +452,101 @@ export async function markCompleted(estimateId: string): Promise<EstimateTransit
   return transitionEstimate(estimateId, 'completed', 'completed')
 }
 
+/**
+ * Revise Bid - transitions estimate from bid_final → draft
+ * 
+ * The ONLY backward transition. Used when a bid was finalized by mistake or
+ * the client asked for changes before signing. When called:
+ * 1. Estimate status returns to 'draft' and revision is incremented
+ * 2. pricing_events captured at the bid_final commit are marked superseded
+ *    (kept in the log, excluded from learning - the contractor walked back
+ *    those prices)
+ * 3. The transition is recorded in estimate_status_history with the reason
+ * 
+ * The bid_final snapshot taken at the original commit is kept, so the revised
+ * estimate can be diffed against what was originally bid.
+ * 
+ * @param reason - Why the bid is being revised (required for the audit trail)
+ */
+export async function reviseBid(estimateId: string, reason: string): Promise<EstimateTransitionResult> {
+  try {
+    if (!reason || !reason.trim()) {
+      return {
+        success: false,
+        error: 'A reason is required to revise a finalized bid'
+      }
+    }
+    
+    const { estimate, user, supabase } = await getEstimateWithAuth(estimateId)
+    const currentStatus = estimate.status as EstimateStatus
+    
+    if (currentStatus !== 'bid_final') {
+      return {
+        success: false,
+        error: `Invalid transition: ${currentStatus} → draft. Only finalized bids can be revised`
+      }
+    }
+    
+    const previousRevision = estimate.revision ?? 1
+    
+    // The database trigger requires the revision bump for bid_final → draft
+    const { data: updated, error: updateError } = await supabase
+      .from('estimates')
+      .update({ status: 'draft', revision: previousRevision + 1 })
+      .eq('id', estimateId)
+      .select('id, status, status_changed_at, revision')
+      .single()
+    
+    if (updateError) {
+      if (updateError.message?.includes('Invalid estimate status transition')) {
+        return {
+          success: false,
+          error: updateError.message
+        }
+      }
+      throw updateError
+    }
+    
+    // Supersede (never delete) the pricing events from the walked-back commit
+    const { error: supersedeError } = await supabase.rpc('supersede_pricing_events', {
+      p_estimate_id: estimateId,
+      p_stage: 'bid_final',
+      p_revision: previousRevision
+    })
+    
+    if (supersedeError) {
+      // Don't fail the revision - the events just stay active
+      console.warn('Failed to supersede pricing events:', supersedeError)
+    }
+    
+    await recordStatusHistory(supabase, {
+      estimateId,
+      projectId: estimate.project_id,
+      fromStatus: currentStatus,
+      toStatus: 'draft',
+      revision: updated.revision,
+      reason,
+      userId: user.id
+    })
+    
+    return {
+      success: true,
+      estimate: updated as {
+        id: string
+        status: EstimateStatus
+        status_changed_at: string | null
+        revision: number
+      }
+    }
+  } catch (error) {
+    console.error('Error in reviseBid:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revise bid'
+    }
+  }
+}
+
 // =============================================================================
 // Query Functions
 // =============================================================================
@@ -384,6 +558,7 @@ export async function getEstimateStatus(estimateId: string): Promise<{
   success: boolean
   status?: EstimateStatus
   status_changed_at?: string | null
+  revision?: number
   error?: string
 }> {
   try {
@@ -391,7 +566,8 @@ export async function getEstimateStatus(estimateId: string): Promise<{
     return {
       success: true,
       status: estimate.status as EstimateStatus,
-      status_changed_at: estimate.status_changed_at
+      status_changed_at: estimate.status_changed_at,
+      revision: estimate.revision
     }
   } catch (error) {
     return {
@@ -424,3 +600,44 @@ export async function isEstimatePricingTruth(estimateId: string): Promise<boolea
     return false
   }
 }
+
+/**
+ * Get the lifecycle transition history for an estimate, newest first
+ */
+export async function getEstimateStatusHistory(estimateId: string): Promise<{
+  success: boolean
+  history?: EstimateStatusHistoryEntry[]
+  error?: string
+}> {
+  try {
+    const { supabase } = await getEstimateWithAuth(estimateId)
+    
+    const { data, error } = await supabase
+      .from('estimate_status_history')
+      .select('*, profiles:changed_by(full_name)')
+      .eq('estimate_id', estimateId)
+      .order('created_at', { ascending: false })
+    
+    if (error) {
+      throw new Error(`Failed to load status history: ${error.message}`)
+    }
+    
+    const history: EstimateStatusHistoryEntry[] = (data || []).map((row: any) => {
+      const { profiles, ...entry } = row
+      return {
+        ...entry,
+        changed_by_name: profiles?.full_name ?? null
+      }
+    })
+    
+    return {
+      success: true,
+      history
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get status history'
+    }
+  }
+}
@@ -12,6 +12,13 @@
  *     → If the user explicitly provides direct_cost we trust it.
  *     → Otherwise we derive it from the three sub-costs.
  *
+ *   labor_hours = quantity × labor_hours_per_unit × productivity_factor
+ *   labor_cost  = labor_hours × burdened_hourly_rate   (lib/labor.ts)
+ *
+ *     → Only for hours-based items (labor_hours_per_unit set). With a labor
+ *       rate, labor_cost is derived and direct_cost / client_price always
+ *       follow the formulas; without one, only labor_hours is derived.
+ *
  *   client_price = direct_cost × (1 + margin_percent / 100)
  *
  *     → For allowances: client_price = direct_cost (margin forced to 0).
@@ -26,12 +33,16 @@
  * GRAND TOTAL SYNC
  * ═══════════════════════════════════════════════════════════════════════════════
  *   After every line item save we SUM(client_price) across all active,
- *   in-scope items and write the result to estimates.total.
+ *   in-scope items (base + selected alternates) and write the result to
+ *   estimates.total.
  *   This keeps the estimate-level total always consistent.
  * ═══════════════════════════════════════════════════════════════════════════════
  */
 
 import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { refreshEstimateTotal } from '@/lib/estimate-total'
+import { deriveLaborFromHours, isHoursBased } from '@/lib/labor'
+import { findFieldConflicts, type FieldConflict } from '@/lib/field-conflicts'
 import { z } from 'zod'
 
 // ─── Zod schemas ────────────────────────────────────────────────────────────
@@ -57,9 +68,11 @@ const UpdateLineItemPatchSchema = z.object({
   margin_percent: z.number().min(0).max(500).optional(),
   client_price: numericField,
   pricing_source: z.enum(['task_library', 'user_library', 'manual', 'ai', 'history', 'seed']).nullable().optional(),
-  calc_source: z.enum(['manual', 'room_dimensions']).optional(),
+  calc_source: z.enum(['manual', 'room_dimensions', 'takeoff']).optional(),
   is_allowance: z.boolean().nullable().optional(),
   notes: z.string().max(5000).nullable().optional(),
+  labor_rate_id: z.string().uuid().nullable().optional(),
+  labor_hours_per_unit: z.number().min(0).max(10_000).nullable().optional(),
 })
 
 export type UpdateLineItemPatch = {
@@ -77,9 +90,11 @@ export type UpdateLineItemPatch = {
   margin_percent?: number
   client_price?: number | null
   pricing_source?: 'task_library' | 'user_library' | 'manual' | 'ai' | 'history' | 'seed' | null
-  calc_source?: 'manual' | 'room_dimensions'
+  calc_source?: 'manual' | 'room_dimensions' | 'takeoff'
   is_allowance?: boolean | null
   notes?: string | null
+  labor_rate_id?: string | null
+  labor_hours_per_unit?: number | null
 }
 
 // ─── Result type ─────────────────────────────────────────────────────────────
@@ -96,13 +111,25 @@ export interface UpdateLineItemResult {
     labor_cost: number | null
     material_cost: number | null
     overhead_cost: number | null
-    calc_source: 'manual' | 'room_dimensions'
+    labor_hours: number | null
+    calc_source: 'manual' | 'room_dimensions' | 'takeoff'
   }
   /** Updated grand total for the whole estimate */
   grandTotal?: number
+  /** Fields changed on the server since the client's copy (see options.expected) */
+  conflicts?: FieldConflict[]
   error?: string
 }
 
+export interface UpdateLineItemOptions {
+  /**
+   * Values the client last saw for the patched fields. When given, the
+   * update is refused with `conflicts` if any of those fields has since been
+   * changed on the server to something else (offline edit replay).
+   */
+  expected?: Partial<UpdateLineItemPatch>
+}
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 function round2(n: number): number {
@@ -171,6 +198,7 @@ function computeTotals(fields: {
 export async function updateLineItem(
   lineItemId: string,
   rawPatch: UpdateLineItemPatch,
+  options: UpdateLineItemOptions = {},
 ): Promise<UpdateLineItemResult> {
   // 1. Validate
   const parsed = UpdateLineItemPatchSchema.safeParse(rawPatch)
@@ -212,6 +240,14 @@ export async function updateLineItem(
       return { success: false, error: `Estimate is locked (status=${estimate.status}). Only drafts can be edited.` }
     }
 
+    // 4b. Conflict check for edits made against an older copy
+    if (options.expected) {
+      const conflicts = findFieldConflicts(existing, options.expected, patch)
+      if (conflicts.length > 0) {
+        return { success: false, error: 'Line item was changed by someone else since this edit was made', conflicts }
+      }
+    }
+
     // 5. Merge existing + patch
     const merged = {
       description: patch.description ?? existing.description,
@@ -231,6 +267,28 @@ export async function updateLineItem(
       calc_source: patch.calc_source ?? existing.calc_source ?? 'manual',
       is_allowance: patch.is_allowance !== undefined ? patch.is_allowance : existing.is_allowance,
       notes: patch.notes !== undefined ? patch.notes : existing.notes,
+      labor_rate_id: patch.labor_rate_id !== undefined ? patch.labor_rate_id : existing.labor_rate_id,
+      labor_hours_per_unit: patch.labor_hours_per_unit !== undefined ? patch.labor_hours_per_unit : existing.labor_hours_per_unit,
+    }
+
+    // 5b. Hours-based labor: derive labor_hours (and labor_cost with a rate)
+    let laborHours: number | null = null
+    let laborCostDerived = false
+    if (isHoursBased(merged)) {
+      const { data: rate } = merged.labor_rate_id
+        ? await supabase
+            .from('labor_rates')
+            .select('burdened_hourly_rate, crew_size, productivity_factor')
+            .eq('id', merged.labor_rate_id)
+            .maybeSingle()
+        : { data: null }
+
+      const labor = deriveLaborFromHours(merged, rate)
+      laborHours = labor.labor_hours
+      if (labor.labor_cost !== undefined) {
+        merged.labor_cost = labor.labor_cost
+        laborCostDerived = true
+      }
     }
 
     // 6. Server-side total computation
@@ -244,8 +302,8 @@ export async function updateLineItem(
       client_price: merged.client_price,
       quantity: merged.quantity,
       is_allowance: isAllowance,
-      directCostExplicit: patch.direct_cost !== undefined,
-      clientPriceExplicit: patch.client_price !== undefined,
+      directCostExplicit: patch.direct_cost !== undefined && !laborCostDerived,
+      clientPriceExplicit: patch.client_price !== undefined && !laborCostDerived,
     })
 
     // 7. Build update payload
@@ -266,6 +324,9 @@ export async function updateLineItem(
       pricing_source: merged.pricing_source,
       calc_source: merged.calc_source,
       is_allowance: isAllowance,
+      labor_rate_id: merged.labor_rate_id,
+      labor_hours_per_unit: merged.labor_hours_per_unit,
+      labor_hours: laborHours,
     }
 
     // 8. Write to DB
@@ -294,7 +355,8 @@ export async function updateLineItem(
         labor_cost: merged.labor_cost,
         material_cost: merged.material_cost,
         overhead_cost: merged.overhead_cost,
-        calc_source: merged.calc_source as 'manual' | 'room_dimensions',
+        labor_hours: laborHours,
+        calc_source: merged.calc_source as 'manual' | 'room_dimensions' | 'takeoff',
       },
       grandTotal,
     }
@@ -303,54 +365,3 @@ export async function updateLineItem(
     return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
   }
 }
-
-// ─── Helpers ─────────────────────────────────────────────────────────────────
-
-/**
- * Recompute estimates.total from the sum of client_price for all active
- * in-scope line items. Returns the new total.
- */
-async function refreshEstimateTotal(
-  supabase: Awaited<ReturnType<typeof createServerClient>>,
-  estimateId: string,
-  projectId: string,
-): Promise<number> {
-  // Fetch all active line items and rooms for scope filtering
-  const [{ data: lineItems }, { data: rooms }] = await Promise.all([
-    supabase
-      .from('estimate_line_items')
-      .select('client_price, room_id, is_active')
-      .eq('estimate_id', estimateId)
-      .neq('is_active', false),
-    supabase
-      .from('rooms')
-      .select('id, is_in_scope')
-      .eq('project_id', projectId),
-  ])
-
-  const scopeMap = new Map<string, boolean>()
-  if (rooms) {
-    for (const r of rooms) {
-      scopeMap.set(r.id, r.is_in_scope ?? true)
-    }
-  }
-
-  let total = 0
-  if (lineItems) {
-    for (const li of lineItems) {
-      // Skip items from out-of-scope rooms
-      if (li.room_id && scopeMap.get(li.room_id) === false) continue
-      total += Number(li.client_price ?? 0)
-    }
-  }
-
-  total = round2(total)
-
-  // Write to estimates table
-  await supabase
-    .from('estimates')
-    .update({ total })
-    .eq('id', estimateId)
-
-  return total
-}
@@ -0,0 +1,214 @@
+'use server'
+
+/**
+ * Estimate Snapshots & Revision Diff
+ *
+ * Snapshots are immutable copies of an estimate's line items, rooms and
+ * totals. They are captured automatically by transitionEstimate() at every
+ * lifecycle transition and by createProposalFromEstimate(), and can be taken
+ * on demand here.
+ *
+ * A diff compares two snapshots, or a snapshot against the live estimate, so
+ * contractors can see exactly what changed since a bid was finalized.
+ */
+
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { captureEstimateSnapshot, loadEstimatePayload } from '@/lib/estimate-snapshots'
+import { diffEstimateSnapshots, type EstimateDiff, type EstimateSnapshotPayload } from '@/lib/estimate-diff'
+import type { EstimateSnapshot, EstimateSnapshotSummary } from '@/types/db'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Diff target: a snapshot ID, or 'current' for the live estimate
+ */
+export type SnapshotDiffTarget = string | 'current'
+
+export interface EstimateSnapshotDiffResult {
+  success: boolean
+  error?: string
+  from?: EstimateSnapshotSummary
+  /** null when comparing against the live estimate */
+  to?: EstimateSnapshotSummary | null
+  diff?: EstimateDiff
+}
+
+// =============================================================================
+// Internal Helpers
+// =============================================================================
+
+/**
+ * Get estimate with ownership verification
+ */
+async function getEstimateWithAuth(estimateId: string) {
+  const user = await requireAuth()
+  const supabase = await createServerClient()
+
+  const { data: estimate, error } = await supabase
+    .from('estimates')
+    .select(`
+      id,
+      project_id,
+      status,
+      projects!inner(user_id)
+    `)
+    .eq('id', estimateId)
+    .single()
+
+  if (error || !estimate) {
+    throw new Error('Estimate not found')
+  }
+
+  if ((estimate.projects as any).user_id !== user.id) {
+    throw new Error('Unauthorized: You do not own this estimate')
+  }
+
+  return { estimate, user, supabase }
+}
+
+const SUMMARY_COLUMNS = 'id, estimate_id, project_id, trigger, label, estimate_status, version, totals, created_at, created_by'
+
+/**
+ * Strip the frozen payload from a snapshot
+ */
+function toSummary(snapshot: EstimateSnapshot): EstimateSnapshotSummary {
+  return {
+    id: snapshot.id,
+    estimate_id: snapshot.estimate_id,
+    project_id: snapshot.project_id,
+    trigger: snapshot.trigger,
+    label: snapshot.label,
+    estimate_status: snapshot.estimate_status,
+    version: snapshot.version,
+    totals: snapshot.totals,
+    created_at: snapshot.created_at,
+    created_by: snapshot.created_by,
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Take an on-demand snapshot of the estimate's current state
+ */
+export async function createEstimateSnapshot(
+  estimateId: string,
+  label?: string
+): Promise<{ success: boolean; snapshotId?: string; version?: number; error?: string }> {
+  try {
+    const { estimate, user, supabase } = await getEstimateWithAuth(estimateId)
+
+    const result = await captureEstimateSnapshot(supabase, {
+      estimateId,
+      projectId: estimate.project_id,
+      trigger: 'manual',
+      estimateStatus: estimate.status,
+      label,
+      userId: user.id,
+    })
+
+    if (!result.ok) {
+      return { success: false, error: result.error }
+    }
+
+    return { success: true, snapshotId: result.snapshotId, version: result.version }
+  } catch (error) {
+    console.error('Error creating estimate snapshot:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create snapshot',
+    }
+  }
+}
+
+/**
+ * List snapshots for an estimate, newest first (without frozen payloads)
+ */
+export async function listEstimateSnapshots(
+  estimateId: string
+): Promise<{ success: boolean; snapshots?: EstimateSnapshotSummary[]; error?: string }> {
+  try {
+    const { supabase } = await getEstimateWithAuth(estimateId)
+
+    const { data, error } = await supabase
+      .from('estimate_snapshots')
+      .select(SUMMARY_COLUMNS)
+      .eq('estimate_id', estimateId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load snapshots: ${error.message}`)
+    }
+
+    return { success: true, snapshots: (data || []) as EstimateSnapshotSummary[] }
+  } catch (error) {
+    console.error('Error listing estimate snapshots:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load snapshots',
+    }
+  }
+}
+
+/**
+ * Diff a snapshot against another snapshot or the live estimate
+ *
+ * @param estimateId - Estimate both snapshots belong to
+ * @param fromSnapshotId - The older snapshot
+ * @param to - A newer snapshot ID, or 'current' for the live estimate
+ */
+export async function getEstimateSnapshotDiff(
+  estimateId: string,
+  fromSnapshotId: string,
+  to: SnapshotDiffTarget = 'current'
+): Promise<EstimateSnapshotDiffResult> {
+  try {
+    const { estimate, supabase } = await getEstimateWithAuth(estimateId)
+
+    const snapshotIds = to === 'current' ? [fromSnapshotId] : [fromSnapshotId, to]
+    const { data: snapshots, error } = await supabase
+      .from('estimate_snapshots')
+      .select('*')
+      .eq('estimate_id', estimateId)
+      .in('id', snapshotIds)
+
+    if (error) {
+      throw new Error(`Failed to load snapshots: ${error.message}`)
+    }
+
+    const fromSnapshot = (snapshots || []).find(s => s.id === fromSnapshotId) as EstimateSnapshot | undefined
+    if (!fromSnapshot) {
+      return { success: false, error: 'Snapshot not found' }
+    }
+
+    let toPayload: EstimateSnapshotPayload
+    let toSnapshot: EstimateSnapshot | null = null
+
+    if (to === 'current') {
+      toPayload = await loadEstimatePayload(supabase, estimateId, estimate.project_id)
+    } else {
+      toSnapshot = ((snapshots || []).find(s => s.id === to) as EstimateSnapshot | undefined) ?? null
+      if (!toSnapshot) {
+        return { success: false, error: 'Snapshot not found' }
+      }
+      toPayload = toSnapshot
+    }
+
+    return {
+      success: true,
+      from: toSummary(fromSnapshot),
+      to: toSnapshot ? toSummary(toSnapshot) : null,
+      diff: diffEstimateSnapshots(fromSnapshot, toPayload),
+    }
+  } catch (error) {
+    console.error('Error diffing estimate snapshots:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to diff snapshots',
+    }
+  }
+}
@@ -2,6 +2,9 @@
 
 import { createServerClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/supabase/server'
+import { planPayApplication, type PayApplicationLineInput } from '@/lib/pay-application'
+import { deriveInvoiceStatus } from '@/lib/invoice-status'
+import { deriveMilestoneStatus } from '@/lib/contract-milestones'
 
 export interface InvoiceItemData {
   taskId: string
@@ -13,6 +16,181 @@ export interface CreateInvoiceData {
   issuedDate: string
   dueDate: string
   items: InvoiceItemData[]
+  /** Contract milestone this invoice bills (marks it invoiced) */
+  milestoneId?: string
+}
+
+export interface CreatePayApplicationData {
+  issuedDate: string
+  dueDate?: string
+  periodTo: string
+  retainagePercent: number
+  lines: PayApplicationLineInput[]
+}
+
+export interface CreateRetainageReleaseData {
+  issuedDate: string
+  dueDate?: string
+}
+
+type ServerSupabase = Awaited<ReturnType<typeof createServerClient>>
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Retainage percentage from the project's signed contract. 0 until a
+ * contract is signed - drafts and sent contracts aren't agreed terms.
+ */
+async function getProjectRetainagePercent(supabase: ServerSupabase, projectId: string): Promise<number> {
+  const { data: contract } = await supabase
+    .from('contracts')
+    .select('retainage_percent')
+    .eq('project_id', projectId)
+    .eq('status', 'signed')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return Number(contract?.retainage_percent) || 0
+}
+
+/**
+ * Next invoice number (INV-XXXX), falling back to INV-YYYYMMDD-NNN if the
+ * database function is missing
+ */
+async function nextInvoiceNumber(supabase: ServerSupabase): Promise<string> {
+  const { data: invoiceNumberData, error: invoiceNumberError } = await supabase
+    .rpc('generate_invoice_number')
+
+  if (!invoiceNumberError) {
+    return invoiceNumberData as string
+  }
+
+  // Fallback to manual generation if function doesn't exist
+  console.warn('Invoice number function not available, using fallback:', invoiceNumberError)
+  const today = new Date()
+  const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '')
+  const { count } = await supabase
+    .from('invoices')
+    .select('*', { count: 'exact', head: true })
+    .gte('created_at', `${today.toISOString().split('T')[0]}T00:00:00Z`)
+    .lt('created_at', `${today.toISOString().split('T')[0]}T23:59:59Z`)
+  const sequenceNumber = ((count || 0) + 1).toString().padStart(3, '0')
+  return `INV-${dateStr}-${sequenceNumber}`
+}
+
+/**
+ * created_by references profiles - only set it if the profile exists
+ */
+async function getCreatedBy(supabase: ServerSupabase, userId: string): Promise<string | null> {
+  try {
+    const { data: userProfile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', userId)
+      .maybeSingle()
+
+    return !profileError && userProfile && userProfile.id ? userId : null
+  } catch (profileCheckError) {
+    console.warn('Error checking user profile:', profileCheckError)
+    return null
+  }
+}
+
+/**
+ * Add billed amounts to project_tasks.billed_amount.
+ *
+ * bill_project_task increments atomically and refuses to bill past the task
+ * price. On failure, already-applied increments are reversed.
+ */
+async function applyTaskBilling(
+  supabase: ServerSupabase,
+  items: Array<{ taskId: string; amount: number }>
+): Promise<void> {
+  const applied: Array<{ taskId: string; amount: number }> = []
+
+  for (const item of items) {
+    if (item.amount === 0) continue
+    const { error } = await supabase.rpc('bill_project_task', {
+      p_task_id: item.taskId,
+      p_amount: item.amount
+    })
+
+    if (error) {
+      for (const done of applied) {
+        await supabase.rpc('bill_project_task', { p_task_id: done.taskId, p_amount: -done.amount })
+      }
+      throw new Error(`Failed to update billed amount: ${error.message}`)
+    }
+    applied.push(item)
+  }
+}
+
+/**
+ * Load a project's tasks and reject any billing that exceeds a task's
+ * remaining balance
+ */
+async function loadBillableTasks(supabase: ServerSupabase, projectId: string) {
+  const { data: tasks, error } = await supabase
+    .from('project_tasks')
+    .select('id, description, price, billed_amount')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch project tasks: ${error.message}`)
+  }
+
+  return (tasks || []).map((task: any) => ({
+    id: task.id as string,
+    description: task.description as string,
+    price: Number(task.price) || 0,
+    billed_amount: Number(task.billed_amount) || 0,
+  }))
+}
+
+/**
+ * Verify a contract milestone belongs to the project, has not been invoiced
+ * and is ready (all tasks in its cost code range completed)
+ */
+async function getInvoiceableMilestone(supabase: ServerSupabase, projectId: string, milestoneId: string) {
+  const { data: milestone, error } = await supabase
+    .from('contract_milestones')
+    .select('id, project_id, name, is_down_payment, cost_code_start, cost_code_end, invoice_id')
+    .eq('id', milestoneId)
+    .maybeSingle()
+
+  if (error || !milestone || milestone.project_id !== projectId) {
+    throw new Error('Milestone not found')
+  }
+  if (milestone.invoice_id) {
+    throw new Error(`"${milestone.name}" has already been invoiced`)
+  }
+
+  const { data: tasks, error: tasksError } = await supabase
+    .from('project_tasks')
+    .select('id, status, price, billed_amount, estimate_line_items!project_tasks_original_line_item_id_fkey(cost_code)')
+    .eq('project_id', projectId)
+
+  if (tasksError) {
+    throw new Error(`Failed to fetch project tasks: ${tasksError.message}`)
+  }
+
+  const milestoneTasks = (tasks || []).map((task: any) => ({
+    id: task.id,
+    status: task.status,
+    price: Number(task.price) || 0,
+    billed_amount: Number(task.billed_amount) || 0,
+    cost_code: task.estimate_line_items?.cost_code ?? null,
+  }))
+
+  if (deriveMilestoneStatus(milestone, milestoneTasks) !== 'ready') {
+    throw new Error(`"${milestone.name}" is not ready to invoice - its tasks are not all completed`)
+  }
+
+  return milestone
 }
 
 export async function createInvoice(
@@ -23,46 +201,45 @@ export async function createInvoice(
     const user = await requireAuth()
     const supabase = await createServerClient()
 
+    const milestone = data.milestoneId
+      ? await getInvoiceableMilestone(supabase, projectId, data.milestoneId)
+      : null
+
+    // Withhold the contract's retainage from each line of progress billing;
+    // a down payment is due in full. Total is the net due.
+    const retainagePercent = milestone?.is_down_payment
+      ? 0
+      : await getProjectRetainagePercent(supabase, projectId)
+    const itemsWithRetainage = data.items.map(item => ({
+      ...item,
+      retainageAmount: round2(item.amount * retainagePercent / 100)
+    }))
+    const retainageAmount = round2(itemsWithRetainage.reduce((sum, item) => sum + item.retainageAmount, 0))
+
     // Calculate total amount
-    const totalAmount = data.items.reduce((sum, item) => sum + item.amount, 0)
+    const totalAmount = round2(data.items.reduce((sum, item) => sum + item.amount, 0) - retainageAmount)
 
-    // Generate invoice number using database function (format: INV-XXXX)
-    let invoiceNumber: string
-    const { data: invoiceNumberData, error: invoiceNumberError } = await supabase
-      .rpc('generate_invoice_number')
-
-    if (invoiceNumberError) {
-      // Fallback to manual generation if function doesn't exist
-      console.warn('Invoice number function not available, using fallback:', invoiceNumberError)
-      const today = new Date()
-      const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '')
-      const { count } = await supabase
-        .from('invoices')
-        .select('*', { count: 'exact', head: true })
-        .gte('created_at', `${today.toISOString().split('T')[0]}T00:00:00Z`)
-        .lt('created_at', `${today.toISOString().split('T')[0]}T23:59:59Z`)
-      const sequenceNumber = ((count || 0) + 1).toString().padStart(3, '0')
-      invoiceNumber = `INV-${dateStr}-${sequenceNumber}`
-    } else {
-      invoiceNumber = invoiceNumberData as string
+    // Block over-billing before anything is written
+    const tasks = await loadBillableTasks(supabase, projectId)
+    for (const item of data.items) {
+      const task = tasks.find(t => t.id === item.taskId)
+      if (!task) {
+        throw new Error(`Task not found for "${item.description}"`)
+      }
+      if (item.amount < 0) {
+        throw new Error(`Invoice amount for "${item.description}" cannot be negative`)
+      }
+      const remaining = round2(task.price - task.billed_amount)
+      if (item.amount > remaining) {
+        throw new Error(`"${item.description}" has only $${remaining.toFixed(2)} left to bill`)
+      }
     }
 
+    // Generate invoice number using database function (format: INV-XXXX)
+    const invoiceNumber = await nextInvoiceNumber(supabase)
+
     // Check if user profile exists before setting created_by
-    let createdBy: string | null = null
-    try {
-      const { data: userProfile, error: profileError } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('id', user.id)
-        .maybeSingle()
-      
-      if (!profileError && userProfile && userProfile.id) {
-        createdBy = user.id
-      }
-    } catch (profileCheckError) {
-      console.warn('Error checking user profile:', profileCheckError)
-      createdBy = null
-    }
+    const createdBy = await getCreatedBy(supabase, user.id)
 
     // Create invoice
     const { data: invoice, error: invoiceError } = await supabase
@@ -72,6 +249,8 @@ export async function createInvoice(
         invoice_number: invoiceNumber,
         status: 'draft',
         total_amount: totalAmount,
+        retainage_percent: retainagePercent,
+        retainage_amount: retainageAmount,
         issued_date: data.issuedDate,
         due_date: (data.dueDate && typeof data.dueDate === 'string' && data.dueDate.trim() !== '') ? data.dueDate : null,
         created_by: createdBy
@@ -84,11 +263,12 @@ export async function createInvoice(
     }
 
     // Create invoice items
-    const invoiceItems = data.items.map(item => ({
+    const invoiceItems = itemsWithRetainage.map(item => ({
       invoice_id: invoice.id,
       task_id: item.taskId,
       amount: item.amount,
-      description: item.description
+      description: item.description,
+      retainage_amount: item.retainageAmount
     }))
 
     const { error: itemsError } = await supabase
@@ -101,24 +281,31 @@ export async function createInvoice(
       throw new Error(`Failed to create invoice items: ${itemsError.message}`)
     }
 
-    // Update project_tasks.billed_amount
-    for (const item of data.items) {
-      const { data: task, error: taskError } = await supabase
-        .from('project_tasks')
-        .select('billed_amount')
-        .eq('id', item.taskId)
-        .maybeSingle()
-
-      if (!taskError && task) {
-        const newBilledAmount = (Number(task.billed_amount) || 0) + item.amount
-        
-        await supabase
-          .from('project_tasks')
-          .update({ billed_amount: newBilledAmount })
-          .eq('id', item.taskId)
+    // Link the milestone; the conditional update loses if it was invoiced concurrently
+    if (milestone) {
+      const { data: linked, error: linkError } = await supabase
+        .from('contract_milestones')
+        .update({ invoice_id: invoice.id, invoiced_at: new Date().toISOString() })
+        .eq('id', milestone.id)
+        .is('invoice_id', null)
+        .select('id')
+
+      if (linkError || !linked || linked.length === 0) {
+        await supabase.from('invoices').delete().eq('id', invoice.id)
+        throw new Error(linkError
+          ? `Failed to link milestone: ${linkError.message}`
+          : `"${milestone.name}" has already been invoiced`)
       }
     }
 
+    // Update project_tasks.billed_amount
+    try {
+      await applyTaskBilling(supabase, data.items)
+    } catch (billingError) {
+      await supabase.from('invoices').delete().eq('id', invoice.id)
+      throw billingError
+    }
+
     return {
       success: true,
       invoiceId: invoice.id,
@@ -133,4 +320,277 @@ export async function createInvoice(
   }
 }
 
+/**
+ * Create a progress billing pay application (AIA G702/G703 style).
+ *
+ * Every task with a non-zero price gets a continuation sheet row; credit
+ * lines (negative price) bill towards their negative value. The client sends
+ * only percent complete to date per task; scheduled value, previous work,
+ * this period's work and retainage are recomputed here from current task
+ * state. The invoice total is the current payment due (this period's work
+ * less retainage), and billed_amount advances by this period's gross work.
+ */
+export async function createPayApplication(
+  projectId: string,
+  data: CreatePayApplicationData
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const tasks = (await loadBillableTasks(supabase, projectId)).filter(task => task.price !== 0)
+
+    // Retainage already held per task by earlier invoices
+    const { data: priorItems, error: priorError } = await supabase
+      .from('invoice_items')
+      .select('task_id, retainage_amount')
+      .in('task_id', tasks.map(task => task.id))
+
+    if (priorError) {
+      throw new Error(`Failed to fetch previous billing: ${priorError.message}`)
+    }
+
+    const previousRetainage = new Map<string, number>()
+    for (const item of priorItems || []) {
+      if (!item.task_id) continue
+      previousRetainage.set(item.task_id, (previousRetainage.get(item.task_id) ?? 0) + (Number(item.retainage_amount) || 0))
+    }
+
+    const { lines, summary } = planPayApplication(
+      tasks.map(task => ({ ...task, previous_retainage: previousRetainage.get(task.id) ?? 0 })),
+      data.lines,
+      data.retainagePercent
+    )
+
+    // Sequential application number per project
+    const { data: lastApplication } = await supabase
+      .from('invoices')
+      .select('application_number')
+      .eq('project_id', projectId)
+      .eq('invoice_type', 'pay_application')
+      .order('application_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const applicationNumber = (Number(lastApplication?.application_number) || 0) + 1
+    const invoiceNumber = await nextInvoiceNumber(supabase)
+    const createdBy = await getCreatedBy(supabase, user.id)
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .insert({
+        project_id: projectId,
+        invoice_number: invoiceNumber,
+        invoice_type: 'pay_application',
+        application_number: applicationNumber,
+        period_to: data.periodTo,
+        status: 'draft',
+        total_amount: summary.currentPaymentDue,
+        retainage_percent: data.retainagePercent,
+        retainage_amount: summary.thisPeriodRetainage,
+        issued_date: data.issuedDate,
+        due_date: data.dueDate && data.dueDate.trim() !== '' ? data.dueDate : null,
+        created_by: createdBy
+      })
+      .select()
+      .single()
+
+    if (invoiceError) {
+      throw new Error(`Failed to create pay application: ${invoiceError.message}`)
+    }
+
+    // Continuation sheet: one row per task, including lines with no work this period
+    const { error: itemsError } = await supabase
+      .from('invoice_items')
+      .insert(lines.map(line => ({
+        invoice_id: invoice.id,
+        task_id: line.taskId,
+        description: line.description,
+        amount: line.thisPeriodAmount,
+        scheduled_value: line.scheduledValue,
+        previous_amount: line.previousAmount,
+        percent_complete: line.percentComplete,
+        previous_retainage: line.previousRetainage,
+        retainage_amount: line.retainageAmount
+      })))
+
+    if (itemsError) {
+      await supabase.from('invoices').delete().eq('id', invoice.id)
+      throw new Error(`Failed to create continuation sheet: ${itemsError.message}`)
+    }
+
+    try {
+      await applyTaskBilling(
+        supabase,
+        lines.map(line => ({ taskId: line.taskId, amount: line.thisPeriodAmount }))
+      )
+    } catch (billingError) {
+      await supabase.from('invoices').delete().eq('id', invoice.id)
+      throw billingError
+    }
+
+    return {
+      success: true,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      applicationNumber,
+      currentPaymentDue: summary.currentPaymentDue
+    }
+  } catch (error) {
+    console.error('Error creating pay application:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create pay application'
+    }
+  }
+}
+
+/**
+ * Create a retainage release invoice at closeout.
+ *
+ * Bills all retainage still held on the project, one line per task. Release
+ * lines carry a negative retainage_amount so the held balance returns to
+ * zero; billed_amount is untouched because the work was already billed.
+ */
+export async function createRetainageReleaseInvoice(
+  projectId: string,
+  data: CreateRetainageReleaseData
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: tasks, error: tasksError } = await supabase
+      .from('project_tasks')
+      .select('id, description, status')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+
+    if (tasksError) {
+      throw new Error(`Failed to fetch project tasks: ${tasksError.message}`)
+    }
+
+    const openTasks = (tasks || []).filter((task: any) => task.status !== 'completed')
+    if (openTasks.length > 0) {
+      throw new Error(`Retainage is released at closeout - ${openTasks.length} task${openTasks.length !== 1 ? 's are' : ' is'} not completed yet`)
+    }
+
+    const { data: retainedItems, error: retainedError } = await supabase
+      .from('invoice_items')
+      .select('task_id, retainage_amount')
+      .in('task_id', (tasks || []).map((task: any) => task.id))
+
+    if (retainedError) {
+      throw new Error(`Failed to fetch retainage: ${retainedError.message}`)
+    }
+
+    const heldByTask = new Map<string, number>()
+    for (const item of retainedItems || []) {
+      if (!item.task_id) continue
+      heldByTask.set(item.task_id, (heldByTask.get(item.task_id) ?? 0) + (Number(item.retainage_amount) || 0))
+    }
+
+    const releaseLines = (tasks || [])
+      .map((task: any) => ({ task, amount: round2(heldByTask.get(task.id) ?? 0) }))
+      .filter(line => line.amount > 0)
 
+    const totalRelease = round2(releaseLines.reduce((sum, line) => sum + line.amount, 0))
+    if (totalRelease <= 0) {
+      throw new Error('No retainage is being held on this project')
+    }
+
+    const invoiceNumber = await nextInvoiceNumber(supabase)
+    const createdBy = await getCreatedBy(supabase, user.id)
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .insert({
+        project_id: projectId,
+        invoice_number: invoiceNumber,
+        invoice_type: 'retainage_release',
+        status: 'draft',
+        total_amount: totalRelease,
+        retainage_amount: -totalRelease,
+        issued_date: data.issuedDate,
+        due_date: data.dueDate && data.dueDate.trim() !== '' ? data.dueDate : null,
+        created_by: createdBy
+      })
+      .select()
+      .single()
+
+    if (invoiceError) {
+      throw new Error(`Failed to create retainage release: ${invoiceError.message}`)
+    }
+
+    const { error: itemsError } = await supabase
+      .from('invoice_items')
+      .insert(releaseLines.map(line => ({
+        invoice_id: invoice.id,
+        task_id: line.task.id,
+        description: `Retainage release: ${line.task.description}`,
+        amount: line.amount,
+        retainage_amount: -line.amount
+      })))
+
+    if (itemsError) {
+      await supabase.from('invoices').delete().eq('id', invoice.id)
+      throw new Error(`Failed to create retainage release items: ${itemsError.message}`)
+    }
+
+    return {
+      success: true,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      releasedAmount: totalRelease
+    }
+  } catch (error) {
+    console.error('Error creating retainage release:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create retainage release'
+    }
+  }
+}
+
+/**
+ * Mark a draft invoice as sent to the client. From then on its status is
+ * derived from payments and the due date.
+ */
+export async function markInvoiceSent(invoiceId: string) {
+  try {
+    await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: invoice, error: fetchError } = await supabase
+      .from('invoices')
+      .select('id, status, total_amount, amount_paid, due_date')
+      .eq('id', invoiceId)
+      .maybeSingle()
+
+    if (fetchError || !invoice) {
+      throw new Error('Invoice not found')
+    }
+    if (invoice.status !== 'draft') {
+      throw new Error('Invoice has already been sent')
+    }
+
+    const status = deriveInvoiceStatus({ ...invoice, status: 'sent' })
+    const { error: updateError } = await supabase
+      .from('invoices')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', invoiceId)
+      .eq('status', 'draft')
+
+    if (updateError) {
+      throw new Error(`Failed to update invoice: ${updateError.message}`)
+    }
+
+    return { success: true, status }
+  } catch (error) {
+    console.error('Error marking invoice sent:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to mark invoice sent'
+    }
+  }
+}
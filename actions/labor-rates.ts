@@ -0,0 +1,149 @@
+'use server'
+
+/**
+ * Server actions for labor rates (crew rates per trade).
+ *
+ * Rates are per user. Line items reference them through labor_rate_id and
+ * are costed as quantity × hours/unit × productivity × burdened rate.
+ * Editing a rate does not reprice existing line items; they pick up the new
+ * terms the next time their quantity or hours change.
+ */
+
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import type { LaborRate } from '@/types/db'
+import { z } from 'zod'
+
+// ─── Zod schemas ────────────────────────────────────────────────────────────
+
+const LaborRateInputSchema = z.object({
+  trade: z.string().trim().min(1, 'Trade is required').max(100),
+  crew_name: z.string().max(100).nullable().optional(),
+  cost_code: z.string().max(20).nullable().optional(),
+  burdened_hourly_rate: z.number().min(0, 'Rate must be >= 0').max(10_000),
+  crew_size: z.number().int().min(1, 'Crew size must be at least 1').max(100),
+  productivity_factor: z.number().positive('Productivity must be > 0').max(10),
+})
+
+export type LaborRateInput = z.input<typeof LaborRateInputSchema>
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function validationError(error: z.ZodError): string {
+  return `Validation failed: ${error.errors.map(e => `${e.path.join('.') || 'value'}: ${e.message}`).join('; ')}`
+}
+
+function toRow(input: z.output<typeof LaborRateInputSchema>) {
+  return {
+    trade: input.trade,
+    crew_name: input.crew_name?.trim() || null,
+    cost_code: input.cost_code?.trim() || null,
+    burdened_hourly_rate: input.burdened_hourly_rate,
+    crew_size: input.crew_size,
+    productivity_factor: input.productivity_factor,
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * List the current user's labor rates
+ */
+export async function listLaborRates(): Promise<{ success: boolean; rates?: LaborRate[]; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data, error } = await supabase
+      .from('labor_rates')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('trade', { ascending: true })
+      .order('crew_name', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load labor rates: ${error.message}`)
+    }
+
+    return { success: true, rates: (data || []) as LaborRate[] }
+  } catch (error) {
+    console.error('Error listing labor rates:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load labor rates',
+    }
+  }
+}
+
+/**
+ * Create a labor rate, or update one when rateId is given
+ */
+export async function saveLaborRate(
+  rateId: string | null,
+  input: LaborRateInput
+): Promise<{ success: boolean; rate?: LaborRate; error?: string }> {
+  const parsed = LaborRateInputSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: rate, error } = rateId
+      ? await supabase
+          .from('labor_rates')
+          .update(toRow(parsed.data))
+          .eq('id', rateId)
+          .eq('user_id', user.id)
+          .select('*')
+          .single()
+      : await supabase
+          .from('labor_rates')
+          .insert({ ...toRow(parsed.data), user_id: user.id })
+          .select('*')
+          .single()
+
+    if (error || !rate) {
+      throw new Error(`Failed to save labor rate: ${error?.message || 'not found'}`)
+    }
+
+    return { success: true, rate: rate as LaborRate }
+  } catch (error) {
+    console.error('Error saving labor rate:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save labor rate',
+    }
+  }
+}
+
+/**
+ * Delete a labor rate. Line items using it keep their hours and labor cost.
+ */
+export async function deleteLaborRate(
+  rateId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { error } = await supabase
+      .from('labor_rates')
+      .delete()
+      .eq('id', rateId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      throw new Error(`Failed to delete labor rate: ${error.message}`)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting labor rate:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete labor rate',
+    }
+  }
+}
@@ -0,0 +1,335 @@
+'use server'
+
+/**
+ * Server actions for markup rules (user_margin_rules).
+ *
+ * A rule sets any of the four markup layers - overhead, contingency, profit
+ * (margin_percent) and sales tax on materials - for a scope: 'all',
+ * 'trade:<code>' or 'project:<id>'. Layers left null inherit from the
+ * broader scope (lib/pricing/markup.ts).
+ *
+ * Changing a rule does not reprice existing estimates. The estimate markup
+ * summary shows how many items are out of date and applyMarkupRulesToEstimate
+ * reprices them.
+ */
+
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { isIncludedBySelection } from '@/lib/estimate-alternates'
+import { refreshEstimateTotal } from '@/lib/estimate-total'
+import { getMarkupRules } from '@/lib/pricing/getMarkupRules'
+import {
+  applyMarkupStack,
+  resolveMarkupStack,
+  sumMarkupBreakdowns,
+  projectScope,
+  type MarkupBreakdown,
+  type MarkupRule,
+  type MarkupStack,
+} from '@/lib/pricing/markup'
+import { z } from 'zod'
+
+// ─── Zod schemas ────────────────────────────────────────────────────────────
+
+const ScopeSchema = z.string().regex(
+  /^(all|trade:[A-Za-z0-9._-]{1,20}|project:[0-9a-f-]{36})$/,
+  'Scope must be "all", "trade:<code>" or "project:<id>"'
+)
+
+const percent = (max: number) => z.number().min(0, 'Must be >= 0').max(max, `Must be <= ${max}`).nullable()
+
+const MarkupRuleInputSchema = z.object({
+  margin_percent: percent(100),
+  overhead_percent: percent(100),
+  contingency_percent: percent(100),
+  sales_tax_percent: percent(25),
+})
+
+export type MarkupRuleInput = z.input<typeof MarkupRuleInputSchema>
+
+export interface EstimateMarkupSummary {
+  /** Stack that applies to items without a trade rule */
+  projectStack: MarkupStack
+  /** The project's own rule, if any */
+  projectRule: MarkupRule | null
+  /** Totals over in-scope, selected items at the current rules */
+  totals: Omit<MarkupBreakdown, 'markup_percent'>
+  /** Current estimate total (stored client prices) */
+  currentTotal: number
+  /** Non-allowance items whose client_price differs from the current rules */
+  outdatedItemCount: number
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function validationError(error: z.ZodError): string {
+  return `Validation failed: ${error.errors.map(e => `${e.path.join('.') || 'value'}: ${e.message}`).join('; ')}`
+}
+
+/**
+ * Get estimate with ownership verification
+ */
+async function getEstimateWithAuth(estimateId: string) {
+  const user = await requireAuth()
+  const supabase = await createServerClient()
+
+  const { data: estimate, error } = await supabase
+    .from('estimates')
+    .select(`
+      id,
+      project_id,
+      status,
+      selected_alternate_ids,
+      projects!inner(user_id)
+    `)
+    .eq('id', estimateId)
+    .single()
+
+  if (error || !estimate) {
+    throw new Error('Estimate not found')
+  }
+
+  if ((estimate.projects as any).user_id !== user.id) {
+    throw new Error('Unauthorized: You do not own this estimate')
+  }
+
+  return { estimate, supabase, user }
+}
+
+function assertDraft(status: string) {
+  if (status !== 'draft') {
+    throw new Error(`Estimate is locked (status=${status}). Only drafts can be edited.`)
+  }
+}
+
+/**
+ * Line items priced with the current rules, scoped like estimates.total
+ */
+async function priceEstimateItems(
+  supabase: Awaited<ReturnType<typeof createServerClient>>,
+  userId: string,
+  estimate: { id: string; project_id: string; selected_alternate_ids: string[] | null }
+) {
+  const [rules, { data: lineItems, error }, { data: rooms }] = await Promise.all([
+    getMarkupRules(supabase, userId, estimate.project_id),
+    supabase
+      .from('estimate_line_items')
+      .select('id, cost_code, room_id, alternate_ids, labor_cost, material_cost, overhead_cost, direct_cost, client_price, margin_percent, is_allowance')
+      .eq('estimate_id', estimate.id)
+      .neq('is_active', false),
+    supabase
+      .from('rooms')
+      .select('id, is_in_scope')
+      .eq('project_id', estimate.project_id),
+  ])
+
+  if (error) {
+    throw new Error(`Failed to load line items: ${error.message}`)
+  }
+
+  const scopeMap = new Map<string, boolean>()
+  for (const r of rooms || []) {
+    scopeMap.set(r.id, r.is_in_scope ?? true)
+  }
+
+  const items = (lineItems || []).map((item: any) => {
+    const stack = resolveMarkupStack(rules, { costCode: item.cost_code, projectId: estimate.project_id })
+    return {
+      item,
+      breakdown: applyMarkupStack(item, stack),
+      counted: !(item.room_id && scopeMap.get(item.room_id) === false) &&
+        isIncludedBySelection(item.alternate_ids, estimate.selected_alternate_ids),
+    }
+  })
+
+  return { rules, items }
+}
+
+/**
+ * Whether an item has a cost to mark up and its stored price is off
+ */
+function isOutdated(item: any, breakdown: MarkupBreakdown): boolean {
+  if (item.is_allowance || !(breakdown.direct_cost > 0)) return false
+  return Math.abs(Number(item.client_price ?? 0) - breakdown.client_price) >= 0.01
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * List the current user's global and trade rules, plus the project rule
+ * when a project is given
+ */
+export async function listMarkupRules(
+  projectId?: string
+): Promise<{ success: boolean; rules?: MarkupRule[]; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+    const rules = await getMarkupRules(supabase, user.id, projectId)
+    return { success: true, rules: rules.sort((a, b) => (a.scope === 'all' ? -1 : b.scope === 'all' ? 1 : a.scope.localeCompare(b.scope))) }
+  } catch (error) {
+    console.error('Error listing markup rules:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load markup rules',
+    }
+  }
+}
+
+/**
+ * Create or replace the rule for a scope
+ */
+export async function saveMarkupRule(
+  scope: string,
+  input: MarkupRuleInput
+): Promise<{ success: boolean; rule?: MarkupRule; error?: string }> {
+  const parsedScope = ScopeSchema.safeParse(scope)
+  if (!parsedScope.success) {
+    return { success: false, error: validationError(parsedScope.error) }
+  }
+  const parsed = MarkupRuleInputSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    if (scope.startsWith('project:')) {
+      const { data: project } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('id', scope.slice('project:'.length))
+        .eq('user_id', user.id)
+        .maybeSingle()
+      if (!project) {
+        throw new Error('Project not found')
+      }
+    }
+
+    const { data: rule, error } = await supabase
+      .from('user_margin_rules')
+      .upsert({ user_id: user.id, scope, ...parsed.data }, { onConflict: 'user_id,scope' })
+      .select('scope, margin_percent, overhead_percent, contingency_percent, sales_tax_percent')
+      .single()
+
+    if (error || !rule) {
+      throw new Error(`Failed to save markup rule: ${error?.message || 'not found'}`)
+    }
+
+    return { success: true, rule: rule as MarkupRule }
+  } catch (error) {
+    console.error('Error saving markup rule:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save markup rule',
+    }
+  }
+}
+
+/**
+ * Delete the rule for a scope; its layers fall back to the broader scope
+ */
+export async function deleteMarkupRule(
+  scope: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { error } = await supabase
+      .from('user_margin_rules')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('scope', scope)
+
+    if (error) {
+      throw new Error(`Failed to delete markup rule: ${error.message}`)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting markup rule:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete markup rule',
+    }
+  }
+}
+
+/**
+ * Markup layers of an estimate at the current rules
+ */
+export async function getEstimateMarkupSummary(
+  estimateId: string
+): Promise<{ success: boolean; summary?: EstimateMarkupSummary; error?: string }> {
+  try {
+    const { estimate, supabase, user } = await getEstimateWithAuth(estimateId)
+    const { rules, items } = await priceEstimateItems(supabase, user.id, estimate)
+
+    const counted = items.filter(i => i.counted)
+
+    return {
+      success: true,
+      summary: {
+        projectStack: resolveMarkupStack(rules, { projectId: estimate.project_id }),
+        projectRule: rules.find(r => r.scope === projectScope(estimate.project_id)) ?? null,
+        totals: sumMarkupBreakdowns(counted.map(i => i.breakdown)),
+        currentTotal: round2(counted.reduce((sum, i) => sum + Number(i.item.client_price ?? 0), 0)),
+        outdatedItemCount: items.filter(i => isOutdated(i.item, i.breakdown)).length,
+      },
+    }
+  } catch (error) {
+    console.error('Error loading markup summary:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load markup summary',
+    }
+  }
+}
+
+/**
+ * Reprice every priced, non-allowance item of a draft estimate with the
+ * current markup rules
+ */
+export async function applyMarkupRulesToEstimate(
+  estimateId: string
+): Promise<{ success: boolean; updatedCount?: number; grandTotal?: number; error?: string }> {
+  try {
+    const { estimate, supabase, user } = await getEstimateWithAuth(estimateId)
+
+    assertDraft(estimate.status)
+
+    const { items } = await priceEstimateItems(supabase, user.id, estimate)
+    const outdated = items.filter(i => isOutdated(i.item, i.breakdown))
+
+    for (const { item, breakdown } of outdated) {
+      const { error } = await supabase
+        .from('estimate_line_items')
+        .update({
+          direct_cost: breakdown.direct_cost,
+          margin_percent: breakdown.markup_percent,
+          client_price: breakdown.client_price,
+        })
+        .eq('id', item.id)
+
+      if (error) {
+        throw new Error(`Failed to update line item: ${error.message}`)
+      }
+    }
+
+    const grandTotal = await refreshEstimateTotal(supabase, estimate.id, estimate.project_id)
+
+    return { success: true, updatedCount: outdated.length, grandTotal }
+  } catch (error) {
+    console.error('Error applying markup rules:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to apply markup rules',
+    }
+  }
+}
@@ -0,0 +1,123 @@
+'use server'
+
+import { createServerClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/supabase/server'
+import { deriveInvoiceStatus } from '@/lib/invoice-status'
+import {
+  deriveMilestoneStatus,
+  getMilestoneProgress,
+  getMilestoneTasks,
+  type MilestoneStatus,
+} from '@/lib/contract-milestones'
+
+export interface ProjectMilestone {
+  id: string
+  name: string
+  amount: number
+  isDownPayment: boolean
+  costCodeStart: number | null
+  costCodeEnd: number | null
+  status: MilestoneStatus
+  /** Completed / total tasks in the cost code range (all tasks when unranged) */
+  progress: { completed: number; total: number }
+  /** Tasks the milestone amount is billed against */
+  taskIds: string[]
+  invoiceId: string | null
+  invoiceNumber: string | null
+  invoicedAt: string | null
+}
+
+/**
+ * Payment milestones of the project's contract (the signed one if there is
+ * one, otherwise the most recent) with their status derived from task
+ * completion and the linked invoice
+ */
+export async function getProjectMilestones(projectId: string) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', projectId)
+      .single()
+
+    if (projectError || !project || project.user_id !== user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    const { data: contracts, error: contractsError } = await supabase
+      .from('contracts')
+      .select('id, status')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+
+    if (contractsError) {
+      throw new Error(`Failed to fetch contracts: ${contractsError.message}`)
+    }
+
+    const contract = (contracts || []).find((c: any) => c.status === 'signed') || (contracts || [])[0]
+    if (!contract) {
+      return { success: true, data: { contractId: null, milestones: [] as ProjectMilestone[] } }
+    }
+
+    const [{ data: milestones, error: milestonesError }, { data: tasks, error: tasksError }] = await Promise.all([
+      supabase
+        .from('contract_milestones')
+        .select(`
+          id, name, amount, is_down_payment, cost_code_start, cost_code_end, invoice_id, invoiced_at,
+          invoices (invoice_number, status, total_amount, amount_paid, due_date)
+        `)
+        .eq('contract_id', contract.id)
+        .order('sort_order', { ascending: true }),
+      supabase
+        .from('project_tasks')
+        .select('id, status, price, billed_amount, estimate_line_items!project_tasks_original_line_item_id_fkey(cost_code)')
+        .eq('project_id', projectId),
+    ])
+
+    if (milestonesError) {
+      throw new Error(`Failed to fetch milestones: ${milestonesError.message}`)
+    }
+    if (tasksError) {
+      throw new Error(`Failed to fetch project tasks: ${tasksError.message}`)
+    }
+
+    const milestoneTasks = (tasks || []).map((task: any) => ({
+      id: task.id as string,
+      status: task.status as string,
+      price: Number(task.price) || 0,
+      billed_amount: Number(task.billed_amount) || 0,
+      cost_code: task.estimate_line_items?.cost_code ?? null,
+    }))
+
+    const result: ProjectMilestone[] = (milestones || []).map((milestone: any) => {
+      const invoice = milestone.invoices
+      const invoiceStatus = invoice ? deriveInvoiceStatus(invoice) : null
+
+      return {
+        id: milestone.id,
+        name: milestone.name,
+        amount: Number(milestone.amount) || 0,
+        isDownPayment: milestone.is_down_payment,
+        costCodeStart: milestone.cost_code_start,
+        costCodeEnd: milestone.cost_code_end,
+        status: deriveMilestoneStatus(milestone, milestoneTasks, invoiceStatus),
+        progress: getMilestoneProgress(milestone, milestoneTasks),
+        taskIds: getMilestoneTasks(milestone, milestoneTasks).map(task => task.id),
+        invoiceId: milestone.invoice_id,
+        invoiceNumber: invoice?.invoice_number ?? null,
+        invoicedAt: milestone.invoiced_at,
+      }
+    })
+
+    return { success: true, data: { contractId: contract.id as string, milestones: result } }
+  } catch (error) {
+    console.error('Error fetching milestones:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch milestones'
+    }
+  }
+}
@@ -0,0 +1,419 @@
+'use server'
+
+import { createServerClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/supabase/server'
+import {
+  agingBucket,
+  daysPastDue,
+  deriveInvoiceStatus,
+  invoiceBalance,
+  todayIsoDate,
+  PAYMENT_METHODS,
+  type AgingBucket,
+  type InvoiceStatus,
+  type PaymentMethod,
+} from '@/lib/invoice-status'
+
+export interface RecordPaymentData {
+  paymentDate: string
+  amount: number
+  method: PaymentMethod
+  reference?: string
+  notes?: string
+}
+
+export interface Payment {
+  id: string
+  invoice_id: string
+  payment_date: string
+  amount: number
+  method: PaymentMethod
+  reference: string | null
+  notes: string | null
+  created_at: string
+}
+
+export interface ArAgingInvoice {
+  invoiceId: string
+  invoiceNumber: string
+  projectId: string
+  projectTitle: string
+  issuedDate: string
+  dueDate: string | null
+  totalAmount: number
+  amountPaid: number
+  balance: number
+  daysPastDue: number
+  bucket: AgingBucket
+  status: InvoiceStatus
+}
+
+export interface ArAgingReport {
+  buckets: Record<AgingBucket, number>
+  totalOutstanding: number
+  invoices: ArAgingInvoice[]
+}
+
+export interface ProjectPaymentSummary {
+  /** Signed contract total (or the latest contract), null without one */
+  contractValue: number | null
+  /** Total of issued (non-draft) invoices */
+  invoiced: number
+  paid: number
+  outstanding: number
+  overdue: number
+  /** Total of invoices still in draft */
+  drafts: number
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Load an invoice and verify the current user owns its project
+ */
+async function getInvoiceWithAuth(invoiceId: string) {
+  const user = await requireAuth()
+  if (!user || !user.id) {
+    throw new Error('Authentication required')
+  }
+  const supabase = await createServerClient()
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, project_id, invoice_number, status, total_amount, amount_paid, due_date')
+    .eq('id', invoiceId)
+    .maybeSingle()
+
+  if (invoiceError || !invoice) {
+    throw new Error('Invoice not found')
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id, user_id')
+    .eq('id', invoice.project_id)
+    .single()
+
+  if (projectError || !project || project.user_id !== user.id) {
+    throw new Error('Unauthorized')
+  }
+
+  return { user, supabase, invoice }
+}
+
+/**
+ * Record a payment received against an invoice.
+ *
+ * The payments trigger updates invoices.amount_paid and status; payments
+ * larger than the remaining balance are rejected.
+ */
+export async function recordPayment(invoiceId: string, data: RecordPaymentData) {
+  try {
+    const { user, supabase, invoice } = await getInvoiceWithAuth(invoiceId)
+
+    const amount = round2(Number(data.amount) || 0)
+    if (amount <= 0) {
+      throw new Error('Payment amount must be greater than zero')
+    }
+    if (!data.paymentDate) {
+      throw new Error('Payment date is required')
+    }
+    if (!PAYMENT_METHODS.some(m => m.value === data.method)) {
+      throw new Error('Invalid payment method')
+    }
+
+    const balance = invoiceBalance(invoice)
+    if (amount > balance) {
+      throw new Error(`Payment of $${amount.toFixed(2)} exceeds the invoice balance of $${balance.toFixed(2)}`)
+    }
+
+    // created_by references profiles - only set it if the profile exists
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    const { data: payment, error: insertError } = await supabase
+      .from('payments')
+      .insert({
+        invoice_id: invoice.id,
+        project_id: invoice.project_id,
+        payment_date: data.paymentDate,
+        amount,
+        method: data.method,
+        reference: data.reference?.trim() || null,
+        notes: data.notes?.trim() || null,
+        created_by: profile?.id || null,
+      })
+      .select('id')
+      .single()
+
+    if (insertError || !payment) {
+      throw new Error(`Failed to record payment: ${insertError?.message || 'Unknown error'}`)
+    }
+
+    const amountPaid = round2((Number(invoice.amount_paid) || 0) + amount)
+    return {
+      success: true,
+      paymentId: payment.id as string,
+      status: deriveInvoiceStatus({ ...invoice, amount_paid: amountPaid }),
+    }
+  } catch (error) {
+    console.error('Error recording payment:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record payment'
+    }
+  }
+}
+
+/**
+ * Remove a payment (e.g. a bounced check). The invoice balance and status
+ * are recomputed by the payments trigger.
+ */
+export async function deletePayment(paymentId: string) {
+  try {
+    const user = await requireAuth()
+    if (!user || !user.id) {
+      throw new Error('Authentication required')
+    }
+    const supabase = await createServerClient()
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('id, invoice_id')
+      .eq('id', paymentId)
+      .maybeSingle()
+
+    if (paymentError || !payment) {
+      throw new Error('Payment not found')
+    }
+
+    // Ownership check on the parent invoice's project
+    await getInvoiceWithAuth(payment.invoice_id)
+
+    const { error: deleteError } = await supabase
+      .from('payments')
+      .delete()
+      .eq('id', paymentId)
+
+    if (deleteError) {
+      throw new Error(`Failed to delete payment: ${deleteError.message}`)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting payment:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete payment'
+    }
+  }
+}
+
+/**
+ * Payments recorded against an invoice, newest first
+ */
+export async function getInvoicePayments(invoiceId: string) {
+  try {
+    const { supabase } = await getInvoiceWithAuth(invoiceId)
+
+    const { data, error } = await supabase
+      .from('payments')
+      .select('id, invoice_id, payment_date, amount, method, reference, notes, created_at')
+      .eq('invoice_id', invoiceId)
+      .order('payment_date', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch payments: ${error.message}`)
+    }
+
+    const payments: Payment[] = (data || []).map((p: any) => ({
+      ...p,
+      amount: Number(p.amount) || 0,
+    }))
+
+    return { success: true, data: payments }
+  } catch (error) {
+    console.error('Error fetching payments:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch payments'
+    }
+  }
+}
+
+/**
+ * Accounts receivable aging across all of the user's projects.
+ *
+ * Every issued invoice with a balance is bucketed by days past its due date
+ * (issue date when it has none): current, 1-30, 31-60, 61-90 and 90+.
+ */
+export async function getArAging() {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: projects, error: projectsError } = await supabase
+      .from('projects')
+      .select('id, title')
+      .eq('user_id', user.id)
+
+    if (projectsError) {
+      throw new Error(`Failed to fetch projects: ${projectsError.message}`)
+    }
+
+    const buckets: Record<AgingBucket, number> = {
+      current: 0,
+      days_1_30: 0,
+      days_31_60: 0,
+      days_61_90: 0,
+      days_90_plus: 0,
+    }
+
+    if (!projects || projects.length === 0) {
+      return { success: true, data: { buckets, totalOutstanding: 0, invoices: [] } as ArAgingReport }
+    }
+
+    const projectTitles = new Map<string, string>(projects.map((p: any) => [p.id, p.title]))
+
+    const { data: invoices, error: invoicesError } = await supabase
+      .from('invoices')
+      .select('id, project_id, invoice_number, status, total_amount, amount_paid, issued_date, due_date')
+      .in('project_id', Array.from(projectTitles.keys()))
+      .neq('status', 'draft')
+
+    if (invoicesError) {
+      throw new Error(`Failed to fetch invoices: ${invoicesError.message}`)
+    }
+
+    const today = todayIsoDate()
+    const open: ArAgingInvoice[] = []
+
+    for (const invoice of (invoices || []) as any[]) {
+      const balance = invoiceBalance(invoice)
+      if (balance <= 0) continue
+
+      const days = daysPastDue(invoice, today)
+      const bucket = agingBucket(days)
+      buckets[bucket] = round2(buckets[bucket] + balance)
+
+      open.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoice_number,
+        projectId: invoice.project_id,
+        projectTitle: projectTitles.get(invoice.project_id) || 'Untitled project',
+        issuedDate: invoice.issued_date,
+        dueDate: invoice.due_date,
+        totalAmount: Number(invoice.total_amount) || 0,
+        amountPaid: Number(invoice.amount_paid) || 0,
+        balance,
+        daysPastDue: Math.max(0, days),
+        bucket,
+        status: deriveInvoiceStatus(invoice, today),
+      })
+    }
+
+    // Oldest first - those are the ones to chase
+    open.sort((a, b) => b.daysPastDue - a.daysPastDue)
+
+    const report: ArAgingReport = {
+      buckets,
+      totalOutstanding: round2(open.reduce((sum, i) => sum + i.balance, 0)),
+      invoices: open,
+    }
+
+    return { success: true, data: report }
+  } catch (error) {
+    console.error('Error building A/R aging:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build A/R aging'
+    }
+  }
+}
+
+/**
+ * Contract value alongside invoiced, paid and outstanding totals for a project
+ */
+export async function getProjectPaymentSummary(projectId: string) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', projectId)
+      .single()
+
+    if (projectError || !project || project.user_id !== user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    const [{ data: contracts }, { data: invoices, error: invoicesError }] = await Promise.all([
+      supabase
+        .from('contracts')
+        .select('status, total_price')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('invoices')
+        .select('status, total_amount, amount_paid, due_date')
+        .eq('project_id', projectId),
+    ])
+
+    if (invoicesError) {
+      throw new Error(`Failed to fetch invoices: ${invoicesError.message}`)
+    }
+
+    const contract = (contracts || []).find((c: any) => c.status === 'signed') || (contracts || [])[0]
+    const today = todayIsoDate()
+    const summary: ProjectPaymentSummary = {
+      contractValue: contract ? Number(contract.total_price) || 0 : null,
+      invoiced: 0,
+      paid: 0,
+      outstanding: 0,
+      overdue: 0,
+      drafts: 0,
+    }
+
+    for (const invoice of (invoices || []) as any[]) {
+      const status = deriveInvoiceStatus(invoice, today)
+      const total = Number(invoice.total_amount) || 0
+
+      if (status === 'draft') {
+        summary.drafts += total
+        continue
+      }
+
+      const balance = invoiceBalance(invoice)
+      summary.invoiced += total
+      summary.paid += Number(invoice.amount_paid) || 0
+      summary.outstanding += balance
+      if (status === 'overdue') summary.overdue += balance
+    }
+
+    return {
+      success: true,
+      data: {
+        contractValue: summary.contractValue,
+        invoiced: round2(summary.invoiced),
+        paid: round2(summary.paid),
+        outstanding: round2(summary.outstanding),
+        overdue: round2(summary.overdue),
+        drafts: round2(summary.drafts),
+      } as ProjectPaymentSummary
+    }
+  } catch (error) {
+    console.error('Error fetching project payment summary:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch payment summary'
+    }
+  }
+}
@@ -9,8 +9,31 @@
  * - "Remove room" = exclude from scope (is_active = false), not delete
  */
 
+import { after } from 'next/server'
 import { createServerClient, requireAuth } from '@/lib/supabase/server'
-import { resolveAreaFieldForLineItem, getRoomAreaValue, isAreaUnit } from '@/lib/area-mapping'
+import { resolveAreaFieldForLineItem, getRoomAreaValue } from '@/lib/area-mapping'
+import { readPlanParseSheets } from '@/lib/plans/schemas'
+import { runPlanParseJob } from '@/lib/plans/parse-job'
+import {
+  diffPlanRevision,
+  isRevisionChangeApplicable,
+  markRevisionEdits,
+  revisionRoomFromParsed,
+  scaffoldLineItemValues,
+  type CurrentLineItemValues,
+  type CurrentRoomValues,
+  type PlanRevisionDiff,
+  type RevisionLineItem,
+} from '@/lib/plans/revision-diff'
+import { refreshEstimateTotal } from '@/lib/estimate-total'
+import { toggleRoomScope, updateRoomDimensions } from '@/actions/rooms'
+import { updateLineItem, type UpdateLineItemPatch } from '@/actions/estimate-line-items'
+import type {
+  PlanParseAppliedSnapshot,
+  PlanParseResult,
+  PlanParseSnapshotLineItem,
+  PlanParseSnapshotRoom,
+} from '@/types/db'
 
 // =============================================================================
 // Types
@@ -29,6 +52,9 @@ export interface ParsedRoomInput {
   included: boolean // User can exclude during review
   sheet_label?: string | null  // e.g. "A1.2 - SECOND FLOOR PLAN"
   level_source?: string | null // 'parsed' | 'manual' | 'backfilled'
+  perimeter_ft?: number | null
+  polygon?: Array<[number, number]> | null
+  area_source?: 'dimensions' | 'geometry' | null
 }
 
 export interface LineItemScaffoldInput {
@@ -42,12 +68,18 @@ export interface LineItemScaffoldInput {
   included: boolean // User can exclude during review
 }
 
+/** Counted line item built from reviewed schedule rows (lib/plans/schedule-items) */
+export interface ScheduleLineItemInput extends LineItemScaffoldInput {
+  selection_title: string | null // Creates a linked selection when set
+}
+
 export interface ApplyParsedResultsInput {
   projectId: string
   estimateId: string
   planParseId?: string // Link to plan_parses record
   rooms: ParsedRoomInput[]
   lineItems: LineItemScaffoldInput[]
+  scheduleItems?: ScheduleLineItemInput[]
 }
 
 export interface ApplyParsedResultsOutput {
@@ -56,6 +88,7 @@ export interface ApplyParsedResultsOutput {
   createdRooms: number
   createdLineItems: number
   excludedRooms: number
+  createdSelections?: number
 }
 
 // =============================================================================
@@ -156,62 +189,10 @@ export async function applyParsedResults(
         continue
       }
 
-      // Create new room with level and dimensions
-      // Build the insert payload — include Phase 1 columns (dimensions, is_in_scope)
-      // but fall back gracefully if migration 033 hasn't been applied yet.
-      const roomInsertBase: Record<string, unknown> = {
-        project_id: input.projectId,
-        name: room.name.trim(),
-        type: room.type?.trim() || null,
-        area_sqft: room.area_sqft || null,
-        notes: room.notes ? `${room.notes}${room.dimensions ? ` | Dimensions: ${room.dimensions}` : ''}` : (room.dimensions || null),
-        source: 'blueprint',
-        is_active: room.included,
-      }
-
-      // Phase 1 columns (may not exist if migration 033 hasn't been run)
-      const roomInsertFull: Record<string, unknown> = {
-        ...roomInsertBase,
-        level: room.level || null,            // NULL = unknown level, never default to "Level 1"
-        level_source: room.level ? 'parsed' : null,
-        sheet_label: room.sheet_label || null,
-        length_ft: room.length_ft || null,
-        width_ft: room.width_ft || null,
-        ceiling_height_ft: room.ceiling_height_ft || null,
-        is_in_scope: room.included,
-      }
-
-      let newRoom: { id: string } | null = null
-      let roomError: any = null
+      const newRoomId = await insertParsedRoom(supabase, input.projectId, room)
+      if (!newRoomId) continue
 
-      // Try full insert first (with Phase 1 columns)
-      const fullResult = await supabase
-        .from('rooms')
-        .insert(roomInsertFull)
-        .select('id')
-        .single()
-
-      if (fullResult.error?.message?.includes('column') && fullResult.error?.message?.includes('schema cache')) {
-        // Phase 1 columns don't exist yet — fall back to base columns only
-        console.warn(`[ApplyParsed] Phase 1 columns missing, falling back to base insert for room "${room.name}"`)
-        const baseResult = await supabase
-          .from('rooms')
-          .insert(roomInsertBase)
-          .select('id')
-          .single()
-        newRoom = baseResult.data
-        roomError = baseResult.error
-      } else {
-        newRoom = fullResult.data
-        roomError = fullResult.error
-      }
-
-      if (roomError || !newRoom) {
-        console.error('Error creating room:', roomError)
-        continue
-      }
-
-      roomNameToId.set(room.name, newRoom.id)
+      roomNameToId.set(room.name, newRoomId)
       
       if (room.included) {
         createdRooms++
@@ -225,7 +206,12 @@ export async function applyParsedResults(
 
     // Create line items (only included ones)
     let createdLineItems = 0
-    const includedLineItems = input.lineItems.filter(li => li.included)
+    let createdSelections = 0
+    let insertedItems: InsertedLineItem[] = []
+    const includedLineItems: Array<LineItemScaffoldInput & { selection_title?: string | null }> = [
+      ...input.lineItems,
+      ...(input.scheduleItems || []),
+    ].filter(li => li.included)
 
     if (includedLineItems.length > 0) {
       // Build room name → level lookup from input rooms
@@ -233,171 +219,77 @@ export async function applyParsedResults(
         input.rooms.map(r => [r.name, r.level || null])
       )
 
-      // Fetch rooms with their computed areas for area-based quantity derivation
-      const roomIds = Array.from(new Set(
-        includedLineItems
-          .map(li => roomNameToId.get(li.room_name))
-          .filter((id): id is string => !!id)
-      ))
-
-      let roomAreaMap = new Map<string, {
-        floor_area_sqft: number | null
-        wall_area_sqft: number | null
-        ceiling_area_sqft: number | null
-      }>()
-
-      if (roomIds.length > 0) {
-        try {
-          const { data: roomsWithAreas } = await supabase
-            .from('rooms')
-            .select('id, floor_area_sqft, wall_area_sqft, ceiling_area_sqft')
-            .in('id', roomIds)
-
-          if (roomsWithAreas) {
-            for (const r of roomsWithAreas) {
-              roomAreaMap.set(r.id, {
-                floor_area_sqft: r.floor_area_sqft,
-                wall_area_sqft: r.wall_area_sqft,
-                ceiling_area_sqft: r.ceiling_area_sqft,
-              })
-            }
-          }
-        } catch {
-          // Phase 1 area columns may not exist yet — area-based quantity derivation will be skipped
-          console.warn('[ApplyParsed] Could not fetch room areas (migration 033 may not be applied)')
-        }
-      }
-
-      // Batch insert line items with level denormalized from room
-      // Auto-detect area-based items and set calc_source='room_dimensions'
-      const lineItemsToInsert = includedLineItems.map(li => {
-        // Find room ID by name
-        const roomId = roomNameToId.get(li.room_name) || null
-        const level = roomNameToLevel.get(li.room_name) || null
-
-        const description = li.notes
-          ? `${li.description} — ${li.notes}`
-          : li.description
-
-        const unit = li.unit || 'EA'
-
-        // Determine if this is an area-based item that should auto-derive quantity
-        const areaField = resolveAreaFieldForLineItem({
-          cost_code: li.cost_code,
-          unit,
-          description,
-          category: li.category,
-        })
-
-        let calcSource: 'manual' | 'room_dimensions' = 'manual'
-        let quantity = li.quantity || 1
-
-        // If area-based AND we have a room with area data, derive the quantity
-        if (areaField && roomId) {
-          const roomAreas = roomAreaMap.get(roomId)
-          if (roomAreas) {
-            const derivedQty = getRoomAreaValue(roomAreas, areaField)
-            if (derivedQty !== null) {
-              quantity = derivedQty
-              calcSource = 'room_dimensions'
-            }
-          }
-        }
-
-        return {
-          estimate_id: input.estimateId,
-          project_id: input.projectId,
-          room_id: roomId,
-          room_name: li.room_name,
-          level,
-          description,
-          category: li.category || 'Other',
-          cost_code: li.cost_code || '999',
-          quantity,
-          unit: isAreaUnit(unit) ? 'SQFT' : unit, // Normalize area units to SQFT
-          calc_source: calcSource,
-          // Phase 1: NO PRICING - all pricing fields are NULL
-          labor_cost: null,
-          material_cost: null,
-          direct_cost: null,
-          margin_percent: null,
-          client_price: null,
-          pricing_source: null,
-          price_source: null,
-          task_library_id: null,
-          is_allowance: false,
-          is_active: true
-        }
+      const inserted = await insertScaffoldLineItems(supabase, {
+        projectId: input.projectId,
+        estimateId: input.estimateId,
+        items: includedLineItems.map(scaffoldLineItemValues),
+        roomNameToId,
+        roomNameToLevel,
       })
 
-      // ─── Phase 1 Logging: Line Items ───
-      const autoCalcCount = lineItemsToInsert.filter(li => li.calc_source === 'room_dimensions').length
-      const manualCount = lineItemsToInsert.filter(li => li.calc_source === 'manual').length
-      console.log(`[ApplyParsed] Line items to insert: ${lineItemsToInsert.length} ` +
-        `(${autoCalcCount} area-based auto-calc, ${manualCount} manual)`)
-      for (const li of lineItemsToInsert.filter(l => l.calc_source === 'room_dimensions')) {
-        console.log(`[ApplyParsed]   Auto-calc: "${li.description}" → room "${li.room_name}" → qty=${li.quantity} ${li.unit}`)
-      }
-
-      // Try full insert first (with Phase 1 columns: level, calc_source)
-      let insertedItems: { id: string }[] | null = null
-      let insertError: any = null
-
-      const fullInsertResult = await supabase
-        .from('estimate_line_items')
-        .insert(lineItemsToInsert)
-        .select('id')
-
-      if (fullInsertResult.error?.message?.includes('column') && fullInsertResult.error?.message?.includes('schema cache')) {
-        // Phase 1 columns don't exist — strip them and retry
-        console.warn('[ApplyParsed] Phase 1 line item columns missing, falling back to base insert')
-        const baseLineItems = lineItemsToInsert.map(({ level: _l, calc_source: _c, ...rest }) => rest)
-        const baseResult = await supabase
-          .from('estimate_line_items')
-          .insert(baseLineItems)
-          .select('id')
-        insertedItems = baseResult.data
-        insertError = baseResult.error
-      } else {
-        insertedItems = fullInsertResult.data
-        insertError = fullInsertResult.error
-      }
-
-      if (insertError) {
-        console.error('Error creating line items:', insertError)
+      if (inserted.error) {
         return {
           success: false,
-          error: `Created ${createdRooms} rooms but failed to create line items: ${insertError.message}`,
+          error: `Created ${createdRooms} rooms but failed to create line items: ${inserted.error}`,
           createdRooms,
           createdLineItems: 0,
           excludedRooms
         }
       }
 
-      createdLineItems = insertedItems?.length || 0
+      insertedItems = inserted.rows
+      createdLineItems = insertedItems.length
+
+      // Schedule items on allowance cost codes get a selection (inserted rows
+      // come back in input order)
+      const selectionLinks = insertedItems
+        .map((row, i) => ({ lineItemId: row.id, title: includedLineItems[i]?.selection_title }))
+        .filter((link): link is { lineItemId: string; title: string } => !!link.title)
+      createdSelections = await createScheduleSelections(supabase, input.estimateId, selectionLinks)
     }
 
-    // Update plan_parses record to mark as applied
+    // Update plan_parses record to mark as applied, with what it put into
+    // the estimate (the base for later plan revisions)
     if (input.planParseId) {
-      await supabase
-        .from('plan_parses')
-        .update({
-          status: 'applied',
-          applied_at: new Date().toISOString(),
+      const includedScaffold = input.lineItems.filter(li => li.included)
+      const appliedSnapshot: PlanParseAppliedSnapshot = {
+        estimate_id: input.estimateId,
+        rooms: input.rooms.map(room => ({
+          room_id: roomNameToId.get(room.name) ?? null,
+          ...revisionRoomFromParsed(room),
+          included: room.included,
+        })),
+        // Scaffold items come first in includedLineItems, so in insertedItems
+        line_items: includedScaffold.map((li, i) => snapshotLineItem(li.description, insertedItems[i]))
+          .filter((item): item is PlanParseSnapshotLineItem => item !== null),
+      }
+
+      const markError = await markPlanParseApplied(supabase, input.planParseId, {
           applied_rooms_count: createdRooms,
           applied_line_items_count: createdLineItems,
           excluded_rooms_count: excludedRooms,
-        })
-        .eq('id', input.planParseId)
+        }, appliedSnapshot)
+      if (markError) {
+        return {
+          success: false,
+          error: `Created ${createdRooms} rooms and ${createdLineItems} line items. ${markError}`,
+          createdRooms,
+          createdLineItems,
+          excludedRooms,
+          createdSelections,
+        }
+      }
     }
 
-    console.log(`[ApplyParsed] ✅ Complete: ${createdRooms} rooms, ${createdLineItems} line items, ${excludedRooms} excluded`)
+    console.log(`[ApplyParsed] ✅ Complete: ${createdRooms} rooms, ${createdLineItems} line items, ` +
+      `${createdSelections} selections, ${excludedRooms} excluded`)
 
     return {
       success: true,
       createdRooms,
       createdLineItems,
-      excludedRooms
+      excludedRooms,
+      createdSelections,
     }
 
   } catch (error) {
@@ -411,3 +303,1073 @@ export async function applyParsedResults(
     }
   }
 }
+
+type ServerClient = Awaited<ReturnType<typeof createServerClient>>
+
+/** Inserted scaffold/schedule line item, in input order */
+interface InsertedLineItem {
+  id: string
+  room_name: string
+  description: string
+  category: string
+  cost_code: string
+  quantity: number | null
+  unit: string
+  calc_source: 'manual' | 'room_dimensions'
+}
+
+function isMissingColumn(error: { message?: string } | null): boolean {
+  return !!error?.message?.includes('column') && !!error?.message?.includes('schema cache')
+}
+
+/**
+ * Insert a parsed room with its level, dimensions and measured outline.
+ * Returns the new room id, or null when the insert failed.
+ */
+async function insertParsedRoom(
+  supabase: ServerClient,
+  projectId: string,
+  room: ParsedRoomInput
+): Promise<string | null> {
+  // Create new room with level and dimensions
+  // Build the insert payload — include Phase 1 columns (dimensions, is_in_scope)
+  // but fall back gracefully if migration 033 hasn't been applied yet.
+  const roomInsertBase: Record<string, unknown> = {
+    project_id: projectId,
+    name: room.name.trim(),
+    type: room.type?.trim() || null,
+    area_sqft: room.area_sqft || null,
+    notes: room.notes ? `${room.notes}${room.dimensions ? ` | Dimensions: ${room.dimensions}` : ''}` : (room.dimensions || null),
+    source: 'blueprint',
+    is_active: room.included,
+  }
+
+  // Phase 1 columns (may not exist if migration 033 hasn't been run)
+  const roomInsertFull: Record<string, unknown> = {
+    ...roomInsertBase,
+    level: room.level || null,            // NULL = unknown level, never default to "Level 1"
+    level_source: room.level ? 'parsed' : null,
+    sheet_label: room.sheet_label || null,
+    length_ft: room.length_ft || null,
+    width_ft: room.width_ft || null,
+    ceiling_height_ft: room.ceiling_height_ft || null,
+    is_in_scope: room.included,
+  }
+
+  // Measured outline (migration 053); the area trigger prefers it over length × width
+  const isMeasured = room.area_source === 'geometry' && !!room.polygon && !!room.area_sqft
+  const roomInsertGeometry: Record<string, unknown> = isMeasured
+    ? {
+        ...roomInsertFull,
+        polygon: room.polygon,
+        polygon_area_sqft: room.area_sqft,
+        perimeter_ft: room.perimeter_ft || null,
+        area_source: 'geometry',
+      }
+    : roomInsertFull
+
+  let newRoom: { id: string } | null = null
+  let roomError: any = null
+
+  // Try full insert first (with Phase 1 and geometry columns)
+  let fullResult = await supabase
+    .from('rooms')
+    .insert(roomInsertGeometry)
+    .select('id')
+    .single()
+
+  if (isMeasured && isMissingColumn(fullResult.error)) {
+    console.warn(`[ApplyParsed] Geometry columns missing, inserting room "${room.name}" without its outline`)
+    fullResult = await supabase
+      .from('rooms')
+      .insert(roomInsertFull)
+      .select('id')
+      .single()
+  }
+
+  if (isMissingColumn(fullResult.error)) {
+    // Phase 1 columns don't exist yet — fall back to base columns only
+    console.warn(`[ApplyParsed] Phase 1 columns missing, falling back to base insert for room "${room.name}"`)
+    const baseResult = await supabase
+      .from('rooms')
+      .insert(roomInsertBase)
+      .select('id')
+      .single()
+    newRoom = baseResult.data
+    roomError = baseResult.error
+  } else {
+    newRoom = fullResult.data
+    roomError = fullResult.error
+  }
+
+  if (roomError || !newRoom) {
+    console.error('Error creating room:', roomError)
+    return null
+  }
+  return newRoom.id
+}
+
+/**
+ * Insert scaffold (and schedule) line items with level denormalized from
+ * the room. Area-based items in a room with known areas take the room's
+ * area as quantity (calc_source='room_dimensions'). NO PRICING.
+ */
+async function insertScaffoldLineItems(
+  supabase: ServerClient,
+  input: {
+    projectId: string
+    estimateId: string
+    items: RevisionLineItem[]
+    roomNameToId: Map<string, string>
+    roomNameToLevel: Map<string, string | null>
+  }
+): Promise<{ rows: InsertedLineItem[]; error?: string }> {
+  const { roomNameToId, roomNameToLevel } = input
+
+  // Fetch rooms with their computed areas for area-based quantity derivation
+  const roomIds = Array.from(new Set(
+    input.items
+      .map(li => roomNameToId.get(li.room_name))
+      .filter((id): id is string => !!id)
+  ))
+
+  const roomAreaMap = new Map<string, {
+    floor_area_sqft: number | null
+    wall_area_sqft: number | null
+    ceiling_area_sqft: number | null
+  }>()
+
+  if (roomIds.length > 0) {
+    try {
+      const { data: roomsWithAreas } = await supabase
+        .from('rooms')
+        .select('id, floor_area_sqft, wall_area_sqft, ceiling_area_sqft')
+        .in('id', roomIds)
+
+      if (roomsWithAreas) {
+        for (const r of roomsWithAreas) {
+          roomAreaMap.set(r.id, {
+            floor_area_sqft: r.floor_area_sqft,
+            wall_area_sqft: r.wall_area_sqft,
+            ceiling_area_sqft: r.ceiling_area_sqft,
+          })
+        }
+      }
+    } catch {
+      // Phase 1 area columns may not exist yet — area-based quantity derivation will be skipped
+      console.warn('[ApplyParsed] Could not fetch room areas (migration 033 may not be applied)')
+    }
+  }
+
+  // Auto-detect area-based items and set calc_source='room_dimensions'
+  const lineItemsToInsert = input.items.map(li => {
+    // Find room ID by name
+    const roomId = roomNameToId.get(li.room_name) || null
+    const level = roomNameToLevel.get(li.room_name) || null
+
+    // Determine if this is an area-based item that should auto-derive quantity
+    const areaField = resolveAreaFieldForLineItem({
+      cost_code: li.cost_code,
+      unit: li.unit,
+      description: li.description,
+      category: li.category,
+    })
+
+    let calcSource: 'manual' | 'room_dimensions' = 'manual'
+    let quantity = li.quantity
+
+    // If area-based AND we have a room with area data, derive the quantity
+    if (areaField && roomId) {
+      const roomAreas = roomAreaMap.get(roomId)
+      if (roomAreas) {
+        const derivedQty = getRoomAreaValue(roomAreas, areaField)
+        if (derivedQty !== null) {
+          quantity = derivedQty
+          calcSource = 'room_dimensions'
+        }
+      }
+    }
+
+    return {
+      estimate_id: input.estimateId,
+      project_id: input.projectId,
+      room_id: roomId,
+      room_name: li.room_name,
+      level,
+      description: li.description,
+      category: li.category,
+      cost_code: li.cost_code || '999',
+      quantity,
+      unit: li.unit,
+      calc_source: calcSource,
+      // Phase 1: NO PRICING - all pricing fields are NULL
+      labor_cost: null,
+      material_cost: null,
+      direct_cost: null,
+      margin_percent: null,
+      client_price: null,
+      pricing_source: null,
+      price_source: null,
+      task_library_id: null,
+      is_allowance: false,
+      is_active: true
+    }
+  })
+
+  // ─── Phase 1 Logging: Line Items ───
+  const autoCalcCount = lineItemsToInsert.filter(li => li.calc_source === 'room_dimensions').length
+  const manualCount = lineItemsToInsert.filter(li => li.calc_source === 'manual').length
+  console.log(`[ApplyParsed] Line items to insert: ${lineItemsToInsert.length} ` +
+    `(${autoCalcCount} area-based auto-calc, ${manualCount} manual)`)
+  for (const li of lineItemsToInsert.filter(l => l.calc_source === 'room_dimensions')) {
+    console.log(`[ApplyParsed]   Auto-calc: "${li.description}" → room "${li.room_name}" → qty=${li.quantity} ${li.unit}`)
+  }
+
+  // Try full insert first (with Phase 1 columns: level, calc_source)
+  let insertedItems: { id: string }[] | null = null
+  let insertError: any = null
+
+  const fullInsertResult = await supabase
+    .from('estimate_line_items')
+    .insert(lineItemsToInsert)
+    .select('id')
+
+  if (isMissingColumn(fullInsertResult.error)) {
+    // Phase 1 columns don't exist — strip them and retry
+    console.warn('[ApplyParsed] Phase 1 line item columns missing, falling back to base insert')
+    const baseLineItems = lineItemsToInsert.map(({ level: _l, calc_source: _c, ...rest }) => rest)
+    const baseResult = await supabase
+      .from('estimate_line_items')
+      .insert(baseLineItems)
+      .select('id')
+    insertedItems = baseResult.data
+    insertError = baseResult.error
+  } else {
+    insertedItems = fullInsertResult.data
+    insertError = fullInsertResult.error
+  }
+
+  if (insertError) {
+    console.error('Error creating line items:', insertError)
+    return { rows: [], error: insertError.message }
+  }
+
+  // Inserted rows come back in input order
+  return {
+    rows: (insertedItems || []).map((row, i) => ({
+      id: row.id,
+      room_name: lineItemsToInsert[i].room_name,
+      description: lineItemsToInsert[i].description,
+      category: lineItemsToInsert[i].category,
+      cost_code: lineItemsToInsert[i].cost_code,
+      quantity: lineItemsToInsert[i].quantity,
+      unit: lineItemsToInsert[i].unit,
+      calc_source: lineItemsToInsert[i].calc_source,
+    })),
+  }
+}
+
+/** Snapshot entry for an inserted scaffold item */
+function snapshotLineItem(
+  scaffoldDescription: string,
+  row: InsertedLineItem | undefined
+): PlanParseSnapshotLineItem | null {
+  if (!row) return null
+  return {
+    line_item_id: row.id,
+    room_name: row.room_name,
+    scaffold_description: scaffoldDescription,
+    description: row.description,
+    category: row.category,
+    cost_code: row.cost_code,
+    quantity: row.quantity,
+    unit: row.unit,
+    calc_source: row.calc_source,
+  }
+}
+
+/**
+ * Mark a plan parse applied with its counts and applied snapshot. The
+ * snapshot is dropped when its column doesn't exist yet (migration 055).
+ * With claimedAt (claimPlanRevision) only that claim is marked. Returns an
+ * error message, or null.
+ */
+async function markPlanParseApplied(
+  supabase: ServerClient,
+  planParseId: string,
+  counts: {
+    applied_rooms_count: number
+    applied_line_items_count: number
+    excluded_rooms_count: number
+  },
+  appliedSnapshot: PlanParseAppliedSnapshot,
+  claimedAt?: string
+): Promise<string | null> {
+  const update = { status: 'applied', applied_at: new Date().toISOString(), ...counts }
+
+  const mark = (values: Record<string, unknown>) => {
+    let query = supabase.from('plan_parses').update(values).eq('id', planParseId)
+    if (claimedAt) query = query.eq('status', 'parsed').eq('applied_at', claimedAt)
+    return query.select('id')
+  }
+
+  let marked = await mark({ ...update, applied_snapshot: appliedSnapshot })
+  if (isMissingColumn(marked.error)) {
+    console.warn('[ApplyParsed] applied_snapshot column missing, plan revisions will compare against the parse result')
+    marked = await mark(update)
+  }
+
+  if (marked.error) return `Failed to mark the plan parse applied: ${marked.error.message}`
+  if (!marked.data || marked.data.length === 0) return 'The plan parse was changed while it was being applied'
+  return null
+}
+
+/** A revision claim older than this was left by a request that died */
+const REVISION_CLAIM_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Claim a parsed revision for applying: applied_at is set while the status
+ * stays 'parsed', and only one request can set it. A claim left by a
+ * request that died can be taken over once stale. Returns the claim
+ * timestamp, or null when another request holds it.
+ */
+async function claimPlanRevision(supabase: ServerClient, planParseId: string): Promise<string | null> {
+  const claimedAt = new Date().toISOString()
+  const staleBefore = new Date(Date.now() - REVISION_CLAIM_TTL_MS).toISOString()
+
+  const { data } = await supabase
+    .from('plan_parses')
+    .update({ applied_at: claimedAt })
+    .eq('id', planParseId)
+    .eq('status', 'parsed')
+    .or(`applied_at.is.null,applied_at.lt.${staleBefore}`)
+    .select('id')
+
+  return data && data.length > 0 ? claimedAt : null
+}
+
+/**
+ * Create a selection per schedule line item and link it. Failures are logged
+ * and skipped: the line items are already in the estimate.
+ */
+async function createScheduleSelections(
+  supabase: Awaited<ReturnType<typeof createServerClient>>,
+  estimateId: string,
+  links: Array<{ lineItemId: string; title: string }>
+): Promise<number> {
+  let created = 0
+  for (const link of links) {
+    // NOTE: Do NOT copy cost_code, room, category, or description from line items
+    // Selections should only store: allowance, subcontractor, product_name (title)
+    const { data: selection, error: selectionError } = await supabase
+      .from('selections')
+      .insert({
+        estimate_id: estimateId,
+        title: link.title.substring(0, 100),
+        allowance: null,
+        subcontractor: null,
+        source: 'file',
+        cost_code: null,
+        room: null,
+        category: null,
+        description: null,
+      })
+      .select('id')
+      .single()
+
+    if (selectionError || !selection) {
+      console.error(`[ApplyParsed] Failed to create selection "${link.title}":`, selectionError)
+      continue
+    }
+
+    const { error: linkError } = await supabase
+      .from('estimate_line_items')
+      .update({ selection_id: selection.id })
+      .eq('id', link.lineItemId)
+
+    if (linkError) {
+      console.warn('[ApplyParsed] Failed to link selection to line item:', linkError)
+    }
+    created++
+  }
+  return created
+}
+
+// =============================================================================
+// Parse Jobs
+// =============================================================================
+
+/**
+ * Stop a plan parse job. A queued job is cancelled right away; a running
+ * one stops at its next work item.
+ */
+export async function cancelPlanParse(
+  planParseId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: planParse } = await supabase
+      .from('plan_parses')
+      .select('id, status')
+      .eq('id', planParseId)
+      .maybeSingle()
+
+    if (!planParse) {
+      return { success: false, error: 'Plan parse not found' }
+    }
+    if (planParse.status !== 'queued' && planParse.status !== 'processing') {
+      return { success: false, error: 'This parse is not running' }
+    }
+
+    const now = new Date().toISOString()
+    const { error } = await supabase
+      .from('plan_parses')
+      .update(planParse.status === 'queued'
+        ? { status: 'cancelled', cancel_requested_at: now, parsed_at: now }
+        : { cancel_requested_at: now })
+      .eq('id', planParseId)
+      .eq('status', planParse.status)
+
+    if (error) {
+      throw new Error(`Failed to cancel parse: ${error.message}`)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error cancelling plan parse:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel parse' }
+  }
+}
+
+/**
+ * Re-run failed sheets of a finished plan parse job. Other sheets keep their
+ * results; rooms and line items are rebuilt once the retried sheets finish.
+ * Retries every failed sheet when sheetIds is omitted.
+ */
+export async function retryPlanParseSheets(
+  planParseId: string,
+  sheetIds?: string[]
+): Promise<{ success: boolean; retried?: number; error?: string }> {
+  try {
+    await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: planParse } = await supabase
+      .from('plan_parses')
+      .select('id, status, sheets, progress')
+      .eq('id', planParseId)
+      .maybeSingle()
+
+    if (!planParse) {
+      return { success: false, error: 'Plan parse not found' }
+    }
+    if (planParse.status !== 'parsed' && planParse.status !== 'failed') {
+      return { success: false, error: 'Only finished parses can be retried' }
+    }
+
+    let retried = 0
+    const sheets = readPlanParseSheets(planParse.sheets).map(sheet => {
+      if (sheet.status !== 'failed' || (sheetIds && !sheetIds.includes(sheet.id))) return sheet
+      retried += 1
+      return { ...sheet, status: 'pending' as const, error: null }
+    })
+
+    if (retried === 0) {
+      return { success: false, error: 'No failed sheets to retry' }
+    }
+
+    const { error } = await supabase
+      .from('plan_parses')
+      .update({
+        status: 'queued',
+        sheets,
+        progress: { ...planParse.progress, stage: 'queued' },
+        error_message: null,
+        error_code: null,
+        cancel_requested_at: null,
+      })
+      .eq('id', planParseId)
+      .eq('status', planParse.status)
+
+    if (error) {
+      throw new Error(`Failed to retry sheets: ${error.message}`)
+    }
+
+    after(() => runPlanParseJob(planParseId))
+
+    return { success: true, retried }
+  } catch (error) {
+    console.error('Error retrying plan parse sheets:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to retry sheets' }
+  }
+}
+
+// =============================================================================
+// Plan Revisions
+// =============================================================================
+
+export interface PlanRevisionReview {
+  planParseId: string
+  basePlanParseId: string
+  diff: PlanRevisionDiff
+}
+
+export interface ApplyPlanRevisionInput {
+  projectId: string
+  estimateId: string
+  planParseId: string // The revision's plan_parses record
+  changeIds: string[] // Selected RoomRevisionChange / LineItemRevisionChange ids
+}
+
+export interface ApplyPlanRevisionOutput {
+  success: boolean
+  error?: string
+  addedRooms: number
+  updatedRooms: number
+  removedRooms: number
+  addedLineItems: number
+  updatedLineItems: number
+  removedLineItems: number
+  keptEdits: number // Fields left as edited in the estimate
+  errors?: string[] // Selected changes that failed; the rest were applied
+}
+
+interface CurrentRoom extends CurrentRoomValues {
+  area_source: string | null
+}
+
+interface LoadedPlanRevision {
+  projectId: string
+  status: string
+  basePlanParseId: string
+  snapshot: PlanParseAppliedSnapshot
+  currentRooms: Map<string, CurrentRoom>
+  diff: PlanRevisionDiff
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * Snapshot of a parse applied before applied_snapshot existed: its parse
+ * result, matched to project rooms by name and to the estimate's line items
+ * by room and description
+ */
+async function legacyAppliedSnapshot(
+  supabase: ServerClient,
+  result: PlanParseResult,
+  currentRooms: Map<string, CurrentRoom>,
+  estimateId: string
+): Promise<PlanParseAppliedSnapshot> {
+  const roomIdByName = new Map<string, string>()
+  for (const [id, room] of currentRooms) {
+    const key = room.name.trim().toLowerCase()
+    if (!roomIdByName.has(key)) roomIdByName.set(key, id)
+  }
+
+  const { data: lineItems } = await supabase
+    .from('estimate_line_items')
+    .select('id, room_name, description, calc_source')
+    .eq('estimate_id', estimateId)
+
+  const lineItemByKey = new Map<string, { id: string; calc_source: string | null }>()
+  for (const li of lineItems || []) {
+    lineItemByKey.set(`${(li.room_name || '').toLowerCase()}|${(li.description || '').toLowerCase()}`, li)
+  }
+
+  return {
+    estimate_id: estimateId,
+    rooms: result.rooms.map(room => {
+      const roomId = roomIdByName.get(room.name.trim().toLowerCase()) ?? null
+      return {
+        room_id: roomId,
+        ...revisionRoomFromParsed(room),
+        included: roomId ? currentRooms.get(roomId)?.is_in_scope !== false : false,
+      }
+    }),
+    line_items: result.lineItemScaffold.map(li => {
+      const values = scaffoldLineItemValues(li)
+      const match = lineItemByKey.get(`${values.room_name.toLowerCase()}|${values.description.toLowerCase()}`)
+      return {
+        line_item_id: match?.id ?? null,
+        ...values,
+        calc_source: (match?.calc_source as PlanParseSnapshotLineItem['calc_source']) || 'manual',
+      }
+    }),
+  }
+}
+
+/**
+ * Load a parsed revision, what its base put into the estimate and the diff
+ * between them, checked against the rows in the estimate now
+ */
+async function loadPlanRevision(
+  supabase: ServerClient,
+  planParseId: string,
+  estimateId: string
+): Promise<LoadedPlanRevision> {
+  const { data: revision } = await supabase
+    .from('plan_parses')
+    .select('id, project_id, status, base_plan_parse_id, parse_result_json')
+    .eq('id', planParseId)
+    .maybeSingle()
+
+  if (!revision) throw new Error('Plan parse not found')
+  if (!revision.base_plan_parse_id) throw new Error('This parse is not a revision of earlier plans')
+
+  const result = revision.parse_result_json as PlanParseResult | null
+  if (!result || (revision.status !== 'parsed' && revision.status !== 'applied')) {
+    throw new Error('The revision has not finished parsing')
+  }
+  if (result.fallback) throw new Error('No rooms were found on the revised plans')
+
+  const { data: base } = await supabase
+    .from('plan_parses')
+    .select('id, status, parse_result_json, applied_snapshot')
+    .eq('id', revision.base_plan_parse_id)
+    .maybeSingle()
+
+  if (!base || base.status !== 'applied') {
+    throw new Error('The plans this is a revision of have not been applied')
+  }
+
+  const { data: rooms } = await supabase
+    .from('rooms')
+    .select('id, name, level, length_ft, width_ft, ceiling_height_ft, area_sqft, polygon_area_sqft, area_source, is_in_scope')
+    .eq('project_id', revision.project_id)
+
+  const currentRooms = new Map<string, CurrentRoom>()
+  for (const room of rooms || []) {
+    currentRooms.set(room.id, {
+      name: room.name,
+      level: room.level ?? null,
+      length_ft: toNumberOrNull(room.length_ft),
+      width_ft: toNumberOrNull(room.width_ft),
+      ceiling_height_ft: toNumberOrNull(room.ceiling_height_ft),
+      // Outlined rooms: compare the measured area
+      area_sqft: toNumberOrNull(room.area_source === 'geometry' ? room.polygon_area_sqft : room.area_sqft),
+      is_in_scope: room.is_in_scope ?? null,
+      area_source: room.area_source ?? null,
+    })
+  }
+
+  let snapshot = base.applied_snapshot as PlanParseAppliedSnapshot | null
+  if (!snapshot) {
+    const baseResult = base.parse_result_json as PlanParseResult | null
+    if (!baseResult) throw new Error('The plans this is a revision of have no parse result')
+    snapshot = await legacyAppliedSnapshot(supabase, baseResult, currentRooms, estimateId)
+  }
+
+  const diff = diffPlanRevision(snapshot, {
+    rooms: result.rooms.map(revisionRoomFromParsed),
+    lineItems: result.lineItemScaffold.map(scaffoldLineItemValues),
+  })
+
+  const lineItemIds = diff.lineItems
+    .map(change => change.lineItemId)
+    .filter((id): id is string => !!id)
+
+  const currentLineItems = new Map<string, CurrentLineItemValues>()
+  if (lineItemIds.length > 0) {
+    const { data: lineItems } = await supabase
+      .from('estimate_line_items')
+      .select('id, estimate_id, description, quantity, unit, calc_source, is_active, direct_cost')
+      .in('id', lineItemIds)
+
+    for (const li of lineItems || []) {
+      currentLineItems.set(li.id, {
+        estimate_id: li.estimate_id,
+        description: li.description,
+        quantity: toNumberOrNull(li.quantity),
+        unit: li.unit,
+        calc_source: li.calc_source ?? null,
+        is_active: li.is_active ?? null,
+        direct_cost: toNumberOrNull(li.direct_cost),
+      })
+    }
+  }
+
+  return {
+    projectId: revision.project_id,
+    status: revision.status,
+    basePlanParseId: revision.base_plan_parse_id,
+    snapshot,
+    currentRooms,
+    diff: markRevisionEdits(diff, { estimateId, rooms: currentRooms, lineItems: currentLineItems }),
+  }
+}
+
+/**
+ * Compare a parsed plan revision with what its base parse applied to the
+ * estimate. Fields edited in the estimate since then are marked kept.
+ */
+export async function getPlanRevisionDiff(
+  planParseId: string,
+  estimateId: string
+): Promise<{ success: boolean; review?: PlanRevisionReview; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const loaded = await loadPlanRevision(supabase, planParseId, estimateId)
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', loaded.projectId)
+      .single()
+
+    if (!project || project.user_id !== user.id) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    return {
+      success: true,
+      review: { planParseId, basePlanParseId: loaded.basePlanParseId, diff: loaded.diff },
+    }
+  } catch (error) {
+    console.error('Error comparing plan revision:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to compare revision' }
+  }
+}
+
+/**
+ * Apply the selected differences of a plan revision. Rooms are added,
+ * taken out of scope, renamed or resized (dependent quantities follow);
+ * scaffold line items are added, deactivated or updated. Fields edited in
+ * the estimate are left alone. NO PRICING on added items.
+ *
+ * The revision is claimed before anything is written, so it is applied
+ * once. Changes that fail are listed in errors and left out of the applied
+ * snapshot; the revision is still marked applied with what was written.
+ */
+export async function applyPlanRevision(
+  input: ApplyPlanRevisionInput
+): Promise<ApplyPlanRevisionOutput> {
+  const output: ApplyPlanRevisionOutput = {
+    success: false,
+    addedRooms: 0,
+    updatedRooms: 0,
+    removedRooms: 0,
+    addedLineItems: 0,
+    updatedLineItems: 0,
+    removedLineItems: 0,
+    keptEdits: 0,
+  }
+  let claim: { supabase: ServerClient; claimedAt: string } | null = null
+
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', input.projectId)
+      .single()
+
+    if (!project) return { ...output, error: 'Project not found' }
+    if (project.user_id !== user.id) return { ...output, error: 'Unauthorized' }
+
+    const { data: estimate } = await supabase
+      .from('estimates')
+      .select('id, status')
+      .eq('id', input.estimateId)
+      .eq('project_id', input.projectId)
+      .single()
+
+    if (!estimate) return { ...output, error: 'Estimate not found' }
+    if (estimate.status !== 'draft') {
+      return { ...output, error: 'Estimate is locked. Can only add items to draft estimates.' }
+    }
+
+    const loaded = await loadPlanRevision(supabase, input.planParseId, input.estimateId)
+    if (loaded.projectId !== input.projectId) return { ...output, error: 'Plan parse not found' }
+    if (loaded.status === 'applied') return { ...output, error: 'This revision has already been applied' }
+
+    const claimedAt = await claimPlanRevision(supabase, input.planParseId)
+    if (!claimedAt) {
+      return { ...output, error: 'This revision is already being applied' }
+    }
+    claim = { supabase, claimedAt }
+    const errors: string[] = []
+
+    const selected = new Set(input.changeIds)
+    const roomChanges = loaded.diff.rooms.filter(c => selected.has(c.id) && isRevisionChangeApplicable(c))
+    const itemChanges = loaded.diff.lineItems.filter(c => selected.has(c.id) && isRevisionChangeApplicable(c))
+    output.keptEdits = [...roomChanges, ...itemChanges]
+      .reduce((n, c) => n + c.fields.filter(f => f.kept).length, 0)
+
+    // Snapshot entries replaced (or dropped, null) by applied changes
+    const snapshotRooms = new Map<PlanParseSnapshotRoom, PlanParseSnapshotRoom>()
+    const addedSnapshotRooms: PlanParseSnapshotRoom[] = []
+    const snapshotItems = new Map<PlanParseSnapshotLineItem, PlanParseSnapshotLineItem | null>()
+    const addedSnapshotItems: PlanParseSnapshotLineItem[] = []
+
+    // ─── Rooms ───
+    for (const change of roomChanges) {
+      if (change.kind === 'added' && change.revision) {
+        const revised = change.revision
+        // Reuse a room of the same name (e.g. added by hand since)
+        const existing = Array.from(loaded.currentRooms.entries())
+          .find(([, room]) => room.name.trim().toLowerCase() === revised.name.toLowerCase())
+
+        let roomId = existing?.[0] ?? null
+        if (existing && existing[1].is_in_scope === false) {
+          const result = await toggleRoomScope(existing[0], true)
+          if (!result.success) {
+            errors.push(`Failed to bring room "${revised.name}" back into scope: ${result.error}`)
+            continue
+          }
+        }
+        if (!roomId) {
+          roomId = await insertParsedRoom(supabase, input.projectId, {
+            ...revised,
+            dimensions: null,
+            notes: null,
+            included: true,
+          })
+        }
+        if (!roomId) {
+          errors.push(`Failed to add room "${revised.name}"`)
+          continue
+        }
+
+        output.addedRooms++
+        addedSnapshotRooms.push({ room_id: roomId, ...revised, included: true })
+        continue
+      }
+
+      if (!change.roomId || !change.base) continue
+
+      if (change.kind === 'removed') {
+        const result = await toggleRoomScope(change.roomId, false)
+        if (!result.success) {
+          errors.push(`Failed to take room "${change.base.name}" out of scope: ${result.error}`)
+          continue
+        }
+        output.removedRooms++
+        snapshotRooms.set(change.base, { ...change.base, included: false })
+        continue
+      }
+
+      const current = loaded.currentRooms.get(change.roomId)
+      if (!current || !change.revision) continue
+      const revised = change.revision
+      const applied = new Map(change.fields.filter(f => !f.kept).map(f => [f.field, f]))
+      const entry: PlanParseSnapshotRoom = { ...change.base }
+      let updated = false
+
+      // Name and level, denormalized onto the room's line items
+      const rename: Record<string, unknown> = {}
+      if (applied.has('name')) rename.name = revised.name
+      if (applied.has('level')) rename.level = revised.level
+      if (Object.keys(rename).length > 0) {
+        const { error } = await supabase.from('rooms').update(rename).eq('id', change.roomId)
+        if (error) {
+          errors.push(`Failed to rename room "${change.base.name}": ${error.message}`)
+        } else {
+          const { error: itemsError } = await supabase
+            .from('estimate_line_items')
+            .update({
+              ...(applied.has('name') ? { room_name: revised.name } : {}),
+              ...(applied.has('level') ? { level: revised.level } : {}),
+            })
+            .eq('room_id', change.roomId)
+          if (itemsError) {
+            errors.push(`Renamed room "${change.base.name}" but not its line items: ${itemsError.message}`)
+          }
+          if (applied.has('name')) entry.name = revised.name
+          if (applied.has('level')) entry.level = revised.level
+          updated = true
+        }
+      }
+
+      // Area: a new outline for measured rooms, otherwise the stated area
+      const outlined = revised.area_source === 'geometry' && !!revised.polygon && current.area_source === 'geometry'
+      if (applied.has('area_sqft')) {
+        const { error } = await supabase
+          .from('rooms')
+          .update(outlined
+            ? { polygon: revised.polygon, polygon_area_sqft: revised.area_sqft, perimeter_ft: revised.perimeter_ft }
+            : { area_sqft: revised.area_sqft })
+          .eq('id', change.roomId)
+        if (error) {
+          errors.push(`Failed to update the area of room "${change.base.name}": ${error.message}`)
+        } else {
+          entry.area_sqft = revised.area_sqft
+          if (outlined) {
+            entry.polygon = revised.polygon
+            entry.perimeter_ft = revised.perimeter_ft
+          }
+          updated = true
+        }
+      }
+
+      // Dimensions through updateRoomDimensions, so dependent quantities
+      // follow; a new outline re-derives them the same way
+      const dimensionFields = (['length_ft', 'width_ft', 'ceiling_height_ft'] as const)
+      if (dimensionFields.some(field => applied.has(field)) || (applied.has('area_sqft') && outlined)) {
+        const valueOf = (field: typeof dimensionFields[number], side: 'from' | 'to') => {
+          const fieldChange = applied.get(field)
+          return fieldChange ? toNumberOrNull(fieldChange[side]) : current[field]
+        }
+        const result = await updateRoomDimensions({
+          roomId: change.roomId,
+          length_ft: valueOf('length_ft', 'to'),
+          width_ft: valueOf('width_ft', 'to'),
+          ceiling_height_ft: valueOf('ceiling_height_ft', 'to'),
+          expected: {
+            length_ft: valueOf('length_ft', 'from'),
+            width_ft: valueOf('width_ft', 'from'),
+            ceiling_height_ft: valueOf('ceiling_height_ft', 'from'),
+          },
+        })
+        if (!result.success) {
+          errors.push(`Failed to resize room "${change.base.name}": ${result.error}`)
+        } else {
+          for (const field of dimensionFields) {
+            if (applied.has(field)) entry[field] = revised[field]
+          }
+          updated = true
+        }
+      }
+
+      if (updated) {
+        output.updatedRooms++
+        snapshotRooms.set(change.base, entry)
+      }
+    }
+
+    // ─── Scaffold line items ───
+    const added = itemChanges.filter(c => c.kind === 'added' && c.revision)
+    if (added.length > 0) {
+      // Rooms as they are now, after renames and additions
+      const { data: rooms } = await supabase
+        .from('rooms')
+        .select('id, name, level, is_in_scope')
+        .eq('project_id', input.projectId)
+
+      const roomNameToId = new Map<string, string>()
+      const roomNameToLevel = new Map<string, string | null>()
+      for (const room of (rooms || []).sort((a, b) => Number(a.is_in_scope === false) - Number(b.is_in_scope === false))) {
+        if (roomNameToId.has(room.name)) continue
+        roomNameToId.set(room.name, room.id)
+        roomNameToLevel.set(room.name, room.level ?? null)
+      }
+
+      const items = added.map(c => c.revision!)
+      const { rows, error } = await insertScaffoldLineItems(supabase, {
+        projectId: input.projectId,
+        estimateId: input.estimateId,
+        items,
+        roomNameToId,
+        roomNameToLevel,
+      })
+      if (error) {
+        errors.push(`Failed to add ${items.length} line item${items.length !== 1 ? 's' : ''}: ${error}`)
+      }
+      items.forEach((item, i) => {
+        const entry = snapshotLineItem(item.scaffold_description, rows[i])
+        if (entry) addedSnapshotItems.push(entry)
+      })
+      output.addedLineItems = rows.length
+    }
+
+    for (const change of itemChanges) {
+      if (!change.lineItemId || !change.base) continue
+
+      if (change.kind === 'removed') {
+        const { error } = await supabase
+          .from('estimate_line_items')
+          .update({ is_active: false })
+          .eq('id', change.lineItemId)
+          .eq('estimate_id', input.estimateId)
+        if (error) {
+          errors.push(`Failed to remove line item "${change.base.description}": ${error.message}`)
+          continue
+        }
+        output.removedLineItems++
+        snapshotItems.set(change.base, null)
+        continue
+      }
+
+      if (change.kind !== 'changed') continue
+
+      const patch: UpdateLineItemPatch = {}
+      const expected: Partial<UpdateLineItemPatch> = {}
+      for (const f of change.fields) {
+        if (f.kept) continue
+        if (f.field === 'quantity') {
+          patch.quantity = toNumberOrNull(f.to)
+          expected.quantity = toNumberOrNull(f.from)
+        } else {
+          patch[f.field] = String(f.to ?? '')
+          expected[f.field] = String(f.from ?? '')
+        }
+      }
+
+      const result = await updateLineItem(change.lineItemId, patch, { expected })
+      if (!result.success) {
+        errors.push(`Failed to update line item "${change.base.description}": ${result.error}`)
+        continue
+      }
+      output.updatedLineItems++
+      snapshotItems.set(change.base, { ...change.base, ...patch } as PlanParseSnapshotLineItem)
+    }
+
+    if (output.removedLineItems > 0) {
+      await refreshEstimateTotal(supabase, input.estimateId, input.projectId)
+    }
+
+    // The revision becomes the base for the next one
+    const appliedSnapshot: PlanParseAppliedSnapshot = {
+      estimate_id: input.estimateId,
+      rooms: [
+        ...loaded.snapshot.rooms.map(room => snapshotRooms.get(room) ?? room),
+        ...addedSnapshotRooms,
+      ],
+      line_items: [
+        ...loaded.snapshot.line_items.flatMap(item => {
+          const entry = snapshotItems.has(item) ? snapshotItems.get(item) : item
+          return entry ? [entry] : []
+        }),
+        ...addedSnapshotItems,
+      ],
+    }
+
+    const markError = await markPlanParseApplied(supabase, input.planParseId, {
+      applied_rooms_count: output.addedRooms + output.updatedRooms,
+      applied_line_items_count: output.addedLineItems + output.updatedLineItems,
+      excluded_rooms_count: output.removedRooms,
+    }, appliedSnapshot, claimedAt)
+    if (markError) errors.push(markError)
+
+    if (errors.length > 0) {
+      return {
+        ...output,
+        success: false,
+        error: `${errors.length} change${errors.length !== 1 ? 's' : ''} could not be applied: ${errors.join('; ')}`,
+        errors,
+      }
+    }
+    return { ...output, success: true }
+  } catch (error) {
+    console.error('Error applying plan revision:', error)
+    if (claim) {
+      // Let the revision be applied again (changes written so far stay)
+      await claim.supabase
+        .from('plan_parses')
+        .update({ applied_at: null })
+        .eq('id', input.planParseId)
+        .eq('status', 'parsed')
+        .eq('applied_at', claim.claimedAt)
+    }
+    return { ...output, success: false, error: error instanceof Error ? error.message : 'Failed to apply revision' }
+  }
+}
@@ -2,6 +2,8 @@
 
 import { createServerClient, requireAuth } from '@/lib/supabase/server'
 import { COST_CATEGORIES } from '@/lib/constants'
+import { getProjectCostRegion as resolveProjectCostRegion } from '@/lib/pricing/getProjectCostRegion'
+import { getCostRegion, type ResolvedCostRegion } from '@/lib/pricing/regional-cost-index'
 import type { Project } from '@/types/db'
 
 /**
@@ -298,6 +300,75 @@ function getTradeNameFromCostCode(costCode: string): string {
   return `Trade ${costCode}`
 }
 
+/**
+ * Get a project's cost region: the override (if any) and what it resolves to
+ */
+export async function getProjectCostRegion(
+  projectId: string
+): Promise<{ success: boolean; override?: string | null; resolved?: ResolvedCostRegion | null; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
 
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id, cost_region')
+      .eq('id', projectId)
+      .single()
 
+    if (projectError || !project) {
+      return { success: false, error: 'Project not found' }
+    }
 
+    if (project.user_id !== user.id) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    return {
+      success: true,
+      override: project.cost_region ?? null,
+      resolved: await resolveProjectCostRegion(supabase, projectId),
+    }
+  } catch (error) {
+    console.error('Error getting project cost region:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+/**
+ * Override a project's cost region, or pass null to resolve it from the address again
+ */
+export async function setProjectCostRegion(
+  projectId: string,
+  regionKey: string | null
+): Promise<{ success: boolean; resolved?: ResolvedCostRegion | null; error?: string }> {
+  try {
+    if (regionKey !== null && !getCostRegion(regionKey)) {
+      return { success: false, error: `Unknown cost region: ${regionKey}` }
+    }
+
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { error } = await supabase
+      .from('projects')
+      .update({ cost_region: regionKey })
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      return { success: false, error: `Failed to update cost region: ${error.message}` }
+    }
+
+    return { success: true, resolved: await resolveProjectCostRegion(supabase, projectId) }
+  } catch (error) {
+    console.error('Error setting project cost region:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
@@ -1,6 +1,9 @@
 'use server'
 
 import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { captureEstimateSnapshot, priceProposalSelection } from '@/lib/estimate-snapshots'
+import { computeAlternateTotals, computeSelectionTotal, isBaseItem } from '@/lib/estimate-alternates'
+import { generateShareToken } from '@/lib/proposal-portal'
 
 /**
  * Form data structure for proposal creation
@@ -22,6 +25,16 @@ interface AllowanceItem {
   amount: number
 }
 
+/**
+ * Alternate presented as an optional add-on in proposal body_json
+ */
+export interface ProposalAlternate {
+  id: string
+  name: string
+  description: string | null
+  amount: number
+}
+
 /**
  * Proposal body JSON structure
  */
@@ -31,6 +44,10 @@ interface ProposalBodyJson {
   exclusions: string[]
   basis_of_estimate: string
   notes: string
+  /** Price of the base scope (excludes all alternates) */
+  base_price: number
+  /** Optional add-ons the client can select */
+  alternates: ProposalAlternate[]
 }
 
 /**
@@ -38,10 +55,11 @@ interface ProposalBodyJson {
  * 
  * This function:
  * 1. Fetches all estimate line items
- * 2. Calculates total price and extracts allowance items
+ * 2. Calculates base price, per-alternate add-on prices and allowance items
  * 3. Constructs the proposal body_json
- * 4. Creates the proposal with incremented version number
- * 5. Creates an audit event
+ * 4. Captures an estimate snapshot the proposal is priced from
+ * 5. Creates the proposal with incremented version number (linked to the snapshot)
+ * 6. Creates an audit event
  * 
  * @param projectId - The project ID this proposal belongs to
  * @param estimateId - The estimate ID to create the proposal from
@@ -80,7 +98,7 @@ export async function createProposalFromEstimate(
     // Verify estimate belongs to project
     const { data: estimate, error: estimateError } = await supabase
       .from('estimates')
-      .select('id, project_id')
+      .select('id, project_id, status, selected_alternate_ids')
       .eq('id', estimateId)
       .single()
 
@@ -114,9 +132,10 @@ export async function createProposalFromEstimate(
     }
 
     // 2. Calculate totals and extract allowance items
-    // Only include items from in-scope rooms
-    let totalPrice = 0
+    // Only include items from in-scope rooms. Allowances listed on the
+    // proposal are base-scope allowances; alternates are priced separately.
     const allowanceItems: AllowanceItem[] = []
+    const inScopeItems: typeof lineItems = []
 
     for (const item of lineItems) {
       // Filter out items from excluded (out-of-scope) rooms
@@ -125,10 +144,14 @@ export async function createProposalFromEstimate(
       if (room && room.is_in_scope === false) {
         continue // Skip excluded room items
       }
+      if (item.is_active === false) {
+        continue
+      }
+
+      inScopeItems.push(item)
 
-      // Sum all client_price values
-      if (item.client_price !== null && item.client_price !== undefined) {
-        totalPrice += Number(item.client_price) || 0
+      if (!isBaseItem(item.alternate_ids)) {
+        continue // Alternate items are presented as optional add-ons
       }
 
       // Filter and map allowance items
@@ -144,13 +167,34 @@ export async function createProposalFromEstimate(
       }
     }
 
+    // Alternates become optional add-ons; start from the alternates already
+    // accepted on the estimate (usually none)
+    const { data: alternates } = await supabase
+      .from('estimate_alternates')
+      .select('id, name, description, sort_order')
+      .eq('estimate_id', estimateId)
+      .order('sort_order', { ascending: true })
+
+    const alternateTotals = computeAlternateTotals(inScopeItems)
+    const proposalAlternates: ProposalAlternate[] = (alternates || []).map(alt => ({
+      id: alt.id,
+      name: alt.name,
+      description: alt.description,
+      amount: alternateTotals.byAlternate.get(alt.id) ?? 0
+    }))
+    const selectedAlternateIds = (estimate.selected_alternate_ids || [])
+      .filter((id: string) => proposalAlternates.some(alt => alt.id === id))
+    const totalPrice = computeSelectionTotal(inScopeItems, selectedAlternateIds)
+
     // 3. Construct body_json object
     const bodyJson: ProposalBodyJson = {
       allowances: allowanceItems,
       inclusions: formData.inclusions || [],
       exclusions: formData.exclusions || [],
       basis_of_estimate: formData.basis_of_estimate || '',
-      notes: formData.notes || ''
+      notes: formData.notes || '',
+      base_price: alternateTotals.base,
+      alternates: proposalAlternates
     }
 
     // 4. Calculate version number - query existing proposals for this project
@@ -190,7 +234,21 @@ export async function createProposalFromEstimate(
       createdBy = null
     }
 
-    // 6. Insert new proposal
+    // 6. Freeze the estimate this proposal is priced from
+    const snapshot = await captureEstimateSnapshot(supabase, {
+      estimateId,
+      projectId,
+      trigger: 'proposal_created',
+      estimateStatus: estimate.status,
+      label: `Proposal v${nextVersion}`,
+      userId: user.id
+    })
+
+    if (!snapshot.ok) {
+      throw new Error(`Failed to snapshot estimate: ${snapshot.error}`)
+    }
+
+    // 7. Insert new proposal
     const { data: newProposal, error: insertError } = await supabase
       .from('proposals')
       .insert({
@@ -201,6 +259,8 @@ export async function createProposalFromEstimate(
         total_price: totalPrice,
         body_json: bodyJson as any, // Cast to any since Supabase expects JSONB
         status: 'draft',
+        snapshot_id: snapshot.snapshotId,
+        selected_alternate_ids: selectedAlternateIds,
         created_by: createdBy // Will be null if profile doesn't exist
       })
       .select('id')
@@ -214,7 +274,7 @@ export async function createProposalFromEstimate(
       throw new Error('Failed to create proposal: No ID returned')
     }
 
-    // 7. Insert audit event (only set created_by if profile exists)
+    // 8. Insert audit event (only set created_by if profile exists)
     const { error: eventError } = await supabase
       .from('proposal_events')
       .insert({
@@ -222,9 +282,11 @@ export async function createProposalFromEstimate(
         event_type: 'created',
         metadata: {
           estimate_id: estimateId,
+          snapshot_id: snapshot.snapshotId,
           total_price: totalPrice,
           line_items_count: lineItems.length,
-          allowance_items_count: allowanceItems.length
+          allowance_items_count: allowanceItems.length,
+          alternates_count: proposalAlternates.length
         },
         created_by: createdBy // Will be null if profile doesn't exist
       })
@@ -249,9 +311,12 @@ export async function createProposalFromEstimate(
 }
 
 /**
- * Recalculate and update a proposal's total_price from current estimate line items.
- * Filters out items from excluded (out-of-scope) rooms.
- * Used when scope changes make the stored total_price stale.
+ * Re-price a draft proposal from the current estimate: base price, offered
+ * alternate amounts and total_price, frozen in a new snapshot. Filters out
+ * items from excluded (out-of-scope) rooms and includes only the alternates
+ * selected on the proposal.
+ * Used when scope changes make a draft's prices stale. Sent proposals keep
+ * the prices the client was shown - create a new version instead.
  */
 export async function regenerateProposalTotal(
   proposalId: string
@@ -260,12 +325,13 @@ export async function regenerateProposalTotal(
     const user = await requireAuth()
     if (!user || !user.id) {
       throw new Error('Authentication required')
-    }    const supabase = await createServerClient()
+    }
+    const supabase = await createServerClient()
 
     // Fetch proposal with its estimate_id
     const { data: proposal, error: proposalError } = await supabase
       .from('proposals')
-      .select('id, estimate_id, project_id')
+      .select('id, estimate_id, project_id, status, version, body_json, selected_alternate_ids')
       .eq('id', proposalId)
       .single()
 
@@ -284,18 +350,27 @@ export async function regenerateProposalTotal(
       throw new Error('Unauthorized')
     }
 
+    if (proposal.status !== 'draft') {
+      throw new Error('Only draft proposals can be re-priced. Create a new proposal version instead.')
+    }
+
     if (!proposal.estimate_id) {
       throw new Error('Proposal has no linked estimate')
     }
 
+    const { data: estimate } = await supabase
+      .from('estimates')
+      .select('status')
+      .eq('id', proposal.estimate_id)
+      .single()
+
     // Fetch line items with room exclusion filter
     const { data: lineItems, error: lineItemsError } = await supabase
       .from('estimate_line_items')
       .select(`
         client_price,
-        is_allowance,
-        description,
-        room_id,
+        is_active,
+        alternate_ids,
         rooms!estimate_line_items_room_id_fkey (
           id,
           is_in_scope
@@ -307,23 +382,52 @@ export async function regenerateProposalTotal(
       throw new Error(`Failed to fetch line items: ${lineItemsError.message}`)
     }
 
-    // Calculate new total (only in-scope rooms)
-    let newTotal = 0
-    for (const item of (lineItems || []) as any[]) {
+    // Calculate new prices (only active items in in-scope rooms)
+    const inScopeItems = ((lineItems || []) as any[]).filter(item => {
       const room = item.rooms as { id: string; is_in_scope: boolean } | null
-      if (room && room.is_in_scope === false) continue
-      newTotal += Number(item.client_price) || 0
+      return item.is_active !== false && !(room && room.is_in_scope === false)
+    })
+    const alternateTotals = computeAlternateTotals(inScopeItems)
+    const newTotal = computeSelectionTotal(inScopeItems, proposal.selected_alternate_ids)
+
+    const body = (proposal.body_json || {}) as ProposalBodyJson
+    const bodyJson: ProposalBodyJson = {
+      ...body,
+      base_price: alternateTotals.base,
+      alternates: (body.alternates || []).map(alt => ({
+        ...alt,
+        amount: alternateTotals.byAlternate.get(alt.id) ?? 0
+      }))
     }
 
-    // Update proposal total_price
-    const { error: updateError } = await supabase
+    // Freeze what the proposal is now priced from
+    const snapshot = await captureEstimateSnapshot(supabase, {
+      estimateId: proposal.estimate_id,
+      projectId: proposal.project_id,
+      trigger: 'proposal_created',
+      estimateStatus: estimate?.status || 'draft',
+      label: `Proposal v${proposal.version || 1} (re-priced)`,
+      userId: user.id
+    })
+
+    if (!snapshot.ok) {
+      throw new Error(`Failed to snapshot estimate: ${snapshot.error}`)
+    }
+
+    // Update proposal prices; a proposal sent meanwhile keeps its prices
+    const { data: updated, error: updateError } = await supabase
       .from('proposals')
-      .update({ total_price: newTotal })
+      .update({ total_price: newTotal, body_json: bodyJson as any, snapshot_id: snapshot.snapshotId })
       .eq('id', proposalId)
+      .eq('status', 'draft')
+      .select('id')
 
     if (updateError) {
       throw new Error(`Failed to update proposal: ${updateError.message}`)
     }
+    if (!updated || updated.length === 0) {
+      throw new Error('Only draft proposals can be re-priced. Create a new proposal version instead.')
+    }
 
     // Create audit event
     await supabase
@@ -334,6 +438,7 @@ export async function regenerateProposalTotal(
         metadata: {
           action: 'regenerate_total',
           new_total: newTotal,
+          snapshot_id: snapshot.snapshotId,
           regenerated_at: new Date().toISOString(),
         },
       })
@@ -346,4 +451,178 @@ export async function regenerateProposalTotal(
       error: error instanceof Error ? error.message : 'Unknown error',
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Record which optional alternates the client selected on a proposal.
+ * Recomputes total_price as base + selected alternates; the selection is
+ * carried into the contract by createContractFromProposal().
+ *
+ * Only draft and sent proposals can change their selection.
+ */
+export async function setProposalAlternateSelection(
+  proposalId: string,
+  alternateIds: string[]
+): Promise<{ success: boolean; newTotal?: number; error?: string }> {
+  try {
+    const user = await requireAuth()
+    if (!user || !user.id) {
+      throw new Error('Authentication required')
+    }
+    const supabase = await createServerClient()
+
+    const { data: proposal, error: proposalError } = await supabase
+      .from('proposals')
+      .select('id, estimate_id, project_id, status, body_json, snapshot_id, total_price')
+      .eq('id', proposalId)
+      .single()
+
+    if (proposalError || !proposal) {
+      throw new Error('Proposal not found')
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', proposal.project_id)
+      .single()
+
+    if (projectError || !project || project.user_id !== user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    if (proposal.status !== 'draft' && proposal.status !== 'sent') {
+      throw new Error(`Alternates cannot be changed on a ${proposal.status} proposal`)
+    }
+
+    // Only alternates offered on this proposal can be selected
+    const offered = ((proposal.body_json as any)?.alternates || []) as ProposalAlternate[]
+    const unknown = alternateIds.filter(id => !offered.some(alt => alt.id === id))
+    if (unknown.length > 0) {
+      throw new Error('Selected alternate is not offered on this proposal')
+    }
+    const selectedAlternateIds = Array.from(new Set(alternateIds))
+
+    // Priced as the proposal was sent, not from the live estimate
+    const newTotal = await priceProposalSelection(supabase, proposal, selectedAlternateIds)
+
+    const { error: updateError } = await supabase
+      .from('proposals')
+      .update({ selected_alternate_ids: selectedAlternateIds, total_price: newTotal })
+      .eq('id', proposalId)
+
+    if (updateError) {
+      throw new Error(`Failed to update proposal: ${updateError.message}`)
+    }
+
+    await supabase
+      .from('proposal_events')
+      .insert({
+        proposal_id: proposalId,
+        event_type: 'revised',
+        metadata: {
+          action: 'select_alternates',
+          selected_alternate_ids: selectedAlternateIds,
+          new_total: newTotal,
+        },
+      })
+
+    return { success: true, newTotal }
+  } catch (error) {
+    console.error('Error setting proposal alternates:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Share a proposal with the client through the public portal
+ *
+ * Creates the portal link token (or replaces it when regenerate is true,
+ * which revokes the old link), marks a draft proposal as sent, and logs a
+ * 'sent' event. The client opens /portal/proposals/<token> without logging in.
+ *
+ * @param proposalId - The proposal to share
+ * @param options.regenerate - Issue a new token, invalidating the previous link
+ */
+export async function shareProposal(
+  proposalId: string,
+  options: { regenerate?: boolean } = {}
+): Promise<{ success: boolean; shareToken?: string; error?: string }> {
+  try {
+    const user = await requireAuth()
+    if (!user || !user.id) {
+      throw new Error('Authentication required')
+    }
+    const supabase = await createServerClient()
+
+    const { data: proposal, error: proposalError } = await supabase
+      .from('proposals')
+      .select('id, project_id, status, share_token, sent_at')
+      .eq('id', proposalId)
+      .single()
+
+    if (proposalError || !proposal) {
+      throw new Error('Proposal not found')
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', proposal.project_id)
+      .single()
+
+    if (projectError || !project || project.user_id !== user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    if (proposal.share_token && !options.regenerate) {
+      return { success: true, shareToken: proposal.share_token }
+    }
+
+    const shareToken = generateShareToken()
+    const now = new Date().toISOString()
+
+    const { error: updateError } = await supabase
+      .from('proposals')
+      .update({
+        share_token: shareToken,
+        sent_at: proposal.sent_at || now,
+        status: proposal.status === 'draft' ? 'sent' : proposal.status,
+      })
+      .eq('id', proposalId)
+
+    if (updateError) {
+      throw new Error(`Failed to share proposal: ${updateError.message}`)
+    }
+
+    // created_by references profiles - only set it if the profile exists
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    await supabase
+      .from('proposal_events')
+      .insert({
+        proposal_id: proposalId,
+        event_type: 'sent',
+        metadata: {
+          channel: 'client_portal',
+          regenerated: Boolean(proposal.share_token),
+        },
+        created_by: profile?.id ?? null,
+      })
+
+    return { success: true, shareToken }
+  } catch (error) {
+    console.error('Error sharing proposal:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
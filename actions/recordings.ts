@@ -0,0 +1,124 @@
+'use server'
+
+/**
+ * Server actions for diarized walkthrough recordings.
+ *
+ * The diarized transcript itself is produced by /api/transcribe/diarize;
+ * these actions load it back and save the user's speaker tagging (who is
+ * who, and whose statements define scope).
+ */
+
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import {
+  RECORDING_TRANSCRIPT_COLUMNS,
+  readTranscriptSegments,
+  toRecordingTranscript,
+  type RecordingTranscript,
+} from '@/lib/diarized-transcript'
+import { z } from 'zod'
+
+// ─── Zod schemas ────────────────────────────────────────────────────────────
+
+const SpeakerTaggingSchema = z.object({
+  speakerRoles: z.record(z.string().min(1).max(20), z.enum(['contractor', 'homeowner', 'other'])),
+  authoritativeSpeakers: z.array(z.string().min(1).max(20)).min(1, 'Choose at least one authoritative speaker'),
+})
+
+export type SpeakerTagging = z.input<typeof SpeakerTaggingSchema>
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function validationError(error: z.ZodError): string {
+  return `Validation failed: ${error.errors.map(e => `${e.path.join('.') || 'value'}: ${e.message}`).join('; ')}`
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Load a recording's diarized transcript and speaker tagging
+ */
+export async function getRecordingTranscript(
+  uploadId: string
+): Promise<{ success: boolean; data?: RecordingTranscript; error?: string }> {
+  try {
+    await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: upload, error } = await supabase
+      .from('uploads')
+      .select(RECORDING_TRANSCRIPT_COLUMNS)
+      .eq('id', uploadId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load recording: ${error.message}`)
+    }
+    if (!upload || upload.kind !== 'audio') {
+      return { success: false, error: 'Recording not found' }
+    }
+
+    return { success: true, data: toRecordingTranscript(upload) }
+  } catch (error) {
+    console.error('Error loading recording transcript:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load recording transcript',
+    }
+  }
+}
+
+/**
+ * Save who each speaker is and whose statements define scope
+ */
+export async function updateRecordingSpeakers(
+  uploadId: string,
+  input: SpeakerTagging
+): Promise<{ success: boolean; data?: RecordingTranscript; error?: string }> {
+  try {
+    const parsed = SpeakerTaggingSchema.safeParse(input)
+    if (!parsed.success) {
+      return { success: false, error: validationError(parsed.error) }
+    }
+
+    await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: upload } = await supabase
+      .from('uploads')
+      .select('id, kind, transcript_segments')
+      .eq('id', uploadId)
+      .maybeSingle()
+
+    if (!upload || upload.kind !== 'audio') {
+      return { success: false, error: 'Recording not found' }
+    }
+
+    const known = new Set(readTranscriptSegments(upload.transcript_segments).map(segment => segment.speaker))
+    const unknown = parsed.data.authoritativeSpeakers.filter(speaker => !known.has(speaker))
+    if (unknown.length > 0) {
+      return { success: false, error: `Unknown speaker ${unknown.join(', ')}` }
+    }
+
+    const { data, error } = await supabase
+      .from('uploads')
+      .update({
+        speaker_roles: parsed.data.speakerRoles,
+        authoritative_speakers: parsed.data.authoritativeSpeakers,
+      })
+      .eq('id', uploadId)
+      .select(RECORDING_TRANSCRIPT_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save speakers: ${error.message}`)
+    }
+
+    return { success: true, data: toRecordingTranscript(data) }
+  } catch (error) {
+    console.error('Error updating recording speakers:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update speakers',
+    }
+  }
+}
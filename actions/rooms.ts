@@ -2,9 +2,15 @@
 
 import { createServerClient, requireAuth } from '@/lib/supabase/server'
 import { formatCostCode } from '@/lib/constants'
+import { refreshEstimateTotal } from '@/lib/estimate-total'
 import { z } from 'zod'
 import type { Room, EstimateLineItemRow } from '@/types/db'
 import { resolveAreaFieldForLineItem as resolveAreaField, type RoomAreaField } from '@/lib/area-mapping'
+import { evaluateQuantityExpression, priceAssemblyQuantity, roomMeasures } from '@/lib/assemblies'
+import { costHoursBasedItem, isHoursBased, type LaborRateTerms } from '@/lib/labor'
+import { resolveMarkupStack, type MarkupStack } from '@/lib/pricing/markup'
+import { getMarkupRules } from '@/lib/pricing/getMarkupRules'
+import { findFieldConflicts, sameFieldValue, type FieldConflict } from '@/lib/field-conflicts'
 
 // =============================================================================
 // Zod Schemas
@@ -28,8 +34,17 @@ export type UpdateRoomDimensionsInput = {
   length_ft: number | null
   width_ft: number | null
   ceiling_height_ft: number | null
+  /**
+   * Dimensions the client saw before editing (offline edit replay). Fields
+   * the client left unchanged keep the server's current value; fields both
+   * sides changed are returned as conflicts instead of saved.
+   */
+  expected?: Pick<UpdateRoomDimensionsInput, 'length_ft' | 'width_ft' | 'ceiling_height_ft'>
 }
 
+type DimensionField = 'length_ft' | 'width_ft' | 'ceiling_height_ft'
+const DIMENSION_FIELDS: DimensionField[] = ['length_ft', 'width_ft', 'ceiling_height_ft']
+
 // =============================================================================
 // Area-to-Cost-Code Mapping for Dependent Line Item Recalc
 // =============================================================================
@@ -45,6 +60,55 @@ function resolveAreaFieldForLineItem(item: {
   return resolveAreaField(item)
 }
 
+/**
+ * Cost fields for a line item at a quantity derived from its room.
+ * Hours-based items cost from their crew rate; priced items follow
+ * quantity × unit_cost. Both are marked up with the item's stack, taxing
+ * its material cost and passing allowances through at cost. An unpriced
+ * item keeps its costs unless the quantity can no longer be derived.
+ */
+function costDerivedItem(
+  item: {
+    unit_cost: number | null
+    material_cost: number | null
+    overhead_cost: number | null
+    is_allowance: boolean | null
+    labor_hours_per_unit: number | null
+  },
+  quantity: number | null,
+  rate: LaborRateTerms | null | undefined,
+  stack: MarkupStack
+): {
+  labor_hours?: number | null
+  labor_cost?: number | null
+  direct_cost?: number | null
+  client_price?: number | null
+  margin_percent?: number
+} {
+  if (isHoursBased(item)) {
+    return costHoursBasedItem(item, quantity, rate, stack)
+  }
+  const unitCost = item.unit_cost === null || item.unit_cost === undefined ? null : Number(item.unit_cost)
+  if (unitCost === null && quantity !== null) return {}
+  return priceAssemblyQuantity(quantity, unitCost, stack, item)
+}
+
+/**
+ * Cost fields after costDerivedItem, falling back to the stored values it
+ * left alone
+ */
+function derivedCostResult(
+  item: { direct_cost: number | null; client_price: number | null; margin_percent: number | null },
+  costs: ReturnType<typeof costDerivedItem>
+): { direct_cost: number | null; client_price: number | null; margin_percent: number | null; labor_hours?: number | null } {
+  return {
+    direct_cost: costs.direct_cost === undefined ? item.direct_cost ?? null : costs.direct_cost,
+    client_price: costs.client_price === undefined ? item.client_price ?? null : costs.client_price,
+    margin_percent: costs.margin_percent === undefined ? item.margin_percent ?? null : costs.margin_percent,
+    ...(costs.labor_hours !== undefined ? { labor_hours: costs.labor_hours } : {}),
+  }
+}
+
 /**
  * Room with aggregated statistics from line items
  */
@@ -262,7 +326,10 @@ export async function upsertRoom(input: {
  * 2. Update room dimensions → DB trigger auto-computes derived areas.
  * 3. Fetch the updated room to get computed areas.
  * 4. Find all line items with calc_source='room_dimensions' for this room.
- * 5. Update their quantities based on the appropriate area field.
+ * 5. Update their quantities: assembly items (quantity_expression set)
+ *    re-evaluate their expression; others use the appropriate area field.
+ *    Costs follow, marked up with each item's stack, and the estimate
+ *    totals are refreshed.
  * 6. Return updated room + count of affected line items.
  *
  * The DB trigger `trg_compute_room_areas` (migration 033) handles:
@@ -276,6 +343,7 @@ export async function updateRoomDimensions(
   success: boolean
   room?: Room
   affectedLineItems?: number
+  conflicts?: FieldConflict[]
   error?: string
 }> {
   // Step 1: Validate
@@ -285,7 +353,12 @@ export async function updateRoomDimensions(
     return { success: false, error: firstError?.message || 'Invalid input' }
   }
 
-  const { roomId, length_ft, width_ft, ceiling_height_ft } = parsed.data
+  const { roomId } = parsed.data
+  const dims: Record<DimensionField, number | null> = {
+    length_ft: parsed.data.length_ft,
+    width_ft: parsed.data.width_ft,
+    ceiling_height_ft: parsed.data.ceiling_height_ft,
+  }
 
   try {
     const user = await requireAuth()
@@ -294,7 +367,7 @@ export async function updateRoomDimensions(
     // Verify room exists and user owns the project
     const { data: room, error: roomError } = await supabase
       .from('rooms')
-      .select('id, project_id')
+      .select('id, project_id, length_ft, width_ft, ceiling_height_ft, area_source')
       .eq('id', roomId)
       .single()
 
@@ -312,6 +385,30 @@ export async function updateRoomDimensions(
       return { success: false, error: 'Unauthorized' }
     }
 
+    // Step 1b: Three-way merge against the client's base copy
+    if (input.expected) {
+      const expected = input.expected
+      const changed = DIMENSION_FIELDS.filter(field => !sameFieldValue(dims[field], expected[field]))
+      const conflicts = findFieldConflicts(
+        room,
+        Object.fromEntries(changed.map(field => [field, expected[field]])),
+        dims
+      )
+      if (conflicts.length > 0) {
+        return { success: false, error: 'Room dimensions were changed by someone else since this edit was made', conflicts }
+      }
+      for (const field of DIMENSION_FIELDS) {
+        if (!changed.includes(field)) dims[field] = room[field] !== null ? Number(room[field]) : null
+      }
+    }
+
+    const { length_ft, width_ft, ceiling_height_ft } = dims
+
+    // Editing the footprint of a measured room replaces its outline with the
+    // typed dimensions; a height change keeps it (wall area = perimeter × height)
+    const footprintChanged = !sameFieldValue(length_ft, room.length_ft) || !sameFieldValue(width_ft, room.width_ft)
+    const areaSource = room.area_source === 'geometry' && footprintChanged ? { area_source: 'dimensions' } : {}
+
     // Step 2: Update dimensions (trigger computes derived areas)
     const { data: updatedRoom, error: updateError } = await supabase
       .from('rooms')
@@ -319,6 +416,7 @@ export async function updateRoomDimensions(
         length_ft,
         width_ft,
         ceiling_height_ft,
+        ...areaSource,
       })
       .eq('id', roomId)
       .select()
@@ -332,12 +430,16 @@ export async function updateRoomDimensions(
     // Step 3: Update dependent line items (calc_source = 'room_dimensions')
     let affectedLineItems = 0
 
-    // If any dimension is null, derived areas are null → set dependent quantities to null
-    const hasCompleteDimensions = length_ft !== null && width_ft !== null
+    // If the trigger couldn't compute areas, set dependent quantities to null
+    const hasCompleteDimensions = updatedRoom.floor_area_sqft !== null
 
     const { data: dependentItems, error: fetchItemsError } = await supabase
       .from('estimate_line_items')
-      .select('id, cost_code, unit, description, category, quantity')
+      .select(`
+        id, estimate_id, cost_code, unit, description, category, quantity, quantity_expression, assembly_count,
+        unit_cost, material_cost, overhead_cost, is_allowance,
+        labor_rate_id, labor_hours_per_unit
+      `)
       .eq('room_id', roomId)
       .eq('calc_source', 'room_dimensions')
       .eq('is_active', true)
@@ -354,7 +456,52 @@ export async function updateRoomDimensions(
         ceiling_area_sqft: updatedRoom.ceiling_area_sqft,
       }
 
+      const measures = roomMeasures(updatedRoom)
+
+      // Crew rates for hours-based items (labor follows the new quantity)
+      const rateIds = [...new Set(dependentItems.map(item => item.labor_rate_id).filter(Boolean))]
+      const [{ data: rates }, rules] = await Promise.all([
+        rateIds.length > 0
+          ? supabase
+              .from('labor_rates')
+              .select('id, burdened_hourly_rate, crew_size, productivity_factor')
+              .in('id', rateIds)
+          : Promise.resolve({ data: [] }),
+        getMarkupRules(supabase, user.id, room.project_id),
+      ])
+      const ratesById = new Map<string, LaborRateTerms>((rates || []).map((rate: any) => [rate.id, rate]))
+      const touchedEstimates = new Set<string>()
+
       for (const item of dependentItems) {
+        const rate = item.labor_rate_id ? ratesById.get(item.labor_rate_id) : null
+        const stack = resolveMarkupStack(rules, { costCode: item.cost_code, projectId: room.project_id })
+
+        // Assembly items: re-evaluate the expression (direct_cost and
+        // client_price follow, so the whole kit stays consistent)
+        if (item.quantity_expression) {
+          const newQuantity = evaluateQuantityExpression(
+            item.quantity_expression,
+            { ...measures, count: item.assembly_count === null ? 1 : Number(item.assembly_count) }
+          )
+          if (newQuantity === item.quantity) continue
+
+          const { error: itemUpdateError } = await supabase
+            .from('estimate_line_items')
+            .update({
+              quantity: newQuantity,
+              ...costDerivedItem(item, newQuantity, rate, stack),
+            })
+            .eq('id', item.id)
+
+          if (!itemUpdateError) {
+            affectedLineItems++
+            touchedEstimates.add(item.estimate_id)
+          } else {
+            console.warn(`Failed to update line item ${item.id}:`, itemUpdateError)
+          }
+          continue
+        }
+
         const areaField = resolveAreaFieldForLineItem({
           cost_code: item.cost_code,
           unit: item.unit,
@@ -370,39 +517,28 @@ export async function updateRoomDimensions(
 
         // Only update if quantity actually changed
         if (newQuantity !== item.quantity) {
-          const updateFields: Record<string, unknown> = { quantity: newQuantity }
-
-          // Also recompute direct_cost if unit_cost is available
-          // (we need to fetch unit_cost for this)
-          const { data: fullItem } = await supabase
-            .from('estimate_line_items')
-            .select('unit_cost, labor_cost, material_cost, margin_percent')
-            .eq('id', item.id)
-            .single()
-
-          if (fullItem && newQuantity !== null) {
-            // Recompute cost fields if we have unit_cost
-            if (fullItem.unit_cost !== null && fullItem.unit_cost !== undefined) {
-              const unitCost = Number(fullItem.unit_cost)
-              updateFields.direct_cost = Math.round(newQuantity * unitCost * 100) / 100
-            }
-          } else if (newQuantity === null) {
-            // If quantity becomes null, clear direct_cost too
-            updateFields.direct_cost = null
-          }
-
+          // Costs follow the quantity (cleared when it becomes null)
           const { error: itemUpdateError } = await supabase
             .from('estimate_line_items')
-            .update(updateFields)
+            .update({
+              quantity: newQuantity,
+              ...costDerivedItem(item, newQuantity, rate, stack),
+            })
             .eq('id', item.id)
 
           if (!itemUpdateError) {
             affectedLineItems++
+            touchedEstimates.add(item.estimate_id)
           } else {
             console.warn(`Failed to update line item ${item.id}:`, itemUpdateError)
           }
         }
       }
+
+      // Client prices moved with the quantities
+      for (const estimateId of touchedEstimates) {
+        await refreshEstimateTotal(supabase, estimateId, room.project_id)
+      }
     }
 
     return {
@@ -482,51 +618,13 @@ export async function toggleRoomScope(
     // ── CASCADE: refresh estimates.total for every estimate in this project ──
     const updatedEstimateTotals: Record<string, number> = {}
     try {
-      // 1. Get all estimates for this project
       const { data: estimates } = await supabase
         .from('estimates')
         .select('id')
         .eq('project_id', room.project_id)
 
-      if (estimates && estimates.length > 0) {
-        // 2. Get all rooms with current scope for this project
-        const { data: allRooms } = await supabase
-          .from('rooms')
-          .select('id, is_in_scope')
-          .eq('project_id', room.project_id)
-
-        const scopeMap = new Map<string, boolean>()
-        if (allRooms) {
-          for (const r of allRooms) {
-            scopeMap.set(r.id, r.is_in_scope ?? true)
-          }
-        }
-
-        // 3. For each estimate, recompute total
-        for (const est of estimates) {
-          const { data: lineItems } = await supabase
-            .from('estimate_line_items')
-            .select('client_price, room_id, is_active')
-            .eq('estimate_id', est.id)
-            .neq('is_active', false)
-
-          let total = 0
-          if (lineItems) {
-            for (const li of lineItems) {
-              if (li.room_id && scopeMap.get(li.room_id) === false) continue
-              total += Number(li.client_price ?? 0)
-            }
-          }
-
-          total = Math.round(total * 100) / 100
-
-          await supabase
-            .from('estimates')
-            .update({ total })
-            .eq('id', est.id)
-
-          updatedEstimateTotals[est.id] = total
-        }
+      for (const est of estimates || []) {
+        updatedEstimateTotals[est.id] = await refreshEstimateTotal(supabase, est.id, room.project_id)
       }
     } catch (cascadeError) {
       // Don't fail the scope toggle if total refresh fails
@@ -612,9 +710,11 @@ export async function deleteRoom(
  *
  * Steps:
  * 1. Fetch the line item and its linked room.
- * 2. Resolve which area field to use.
+ * 2. Resolve which area field to use (assembly items evaluate their
+ *    quantity_expression instead).
  * 3. Set quantity = room area, calc_source = 'room_dimensions'.
- * 4. Recompute direct_cost if unit_cost is available.
+ * 4. Recompute costs: from the crew rate for hours-based items, otherwise
+ *    from unit_cost when available, marked up with the item's stack.
  * 5. Return the updated values.
  */
 export async function rederiveLineItemQuantity(
@@ -623,8 +723,11 @@ export async function rederiveLineItemQuantity(
   success: boolean
   quantity?: number | null
   direct_cost?: number | null
+  client_price?: number | null
+  margin_percent?: number | null
   calc_source?: 'manual' | 'room_dimensions'
   area_field?: string | null
+  labor_hours?: number | null
   error?: string
 }> {
   try {
@@ -635,10 +738,13 @@ export async function rederiveLineItemQuantity(
     const { data: lineItem, error: liError } = await supabase
       .from('estimate_line_items')
       .select(`
-        id, room_id, cost_code, unit, description, category,
-        quantity, unit_cost, labor_cost, material_cost, margin_percent,
+        id, estimate_id, room_id, cost_code, unit, description, category,
+        quantity, unit_cost, labor_cost, material_cost, direct_cost, client_price, margin_percent,
+        quantity_expression, assembly_count, overhead_cost, is_allowance,
+        labor_rate_id, labor_hours_per_unit,
         rooms!estimate_line_items_room_id_fkey (
-          id, project_id, floor_area_sqft, wall_area_sqft, ceiling_area_sqft
+          id, project_id, length_ft, width_ft, ceiling_height_ft,
+          floor_area_sqft, wall_area_sqft, ceiling_area_sqft, perimeter_ft, area_source
         )
       `)
       .eq('id', lineItemId)
@@ -649,7 +755,16 @@ export async function rederiveLineItemQuantity(
     }
 
     // Verify ownership
-    const room = (lineItem as any).rooms as { id: string; project_id: string; floor_area_sqft: number | null; wall_area_sqft: number | null; ceiling_area_sqft: number | null } | null
+    const room = (lineItem as any).rooms as {
+      id: string
+      project_id: string
+      length_ft: number | null
+      width_ft: number | null
+      ceiling_height_ft: number | null
+      floor_area_sqft: number | null
+      wall_area_sqft: number | null
+      ceiling_area_sqft: number | null
+    } | null
 
     if (!room) {
       return { success: false, error: 'Line item has no linked room. Cannot auto-derive quantity.' }
@@ -665,6 +780,51 @@ export async function rederiveLineItemQuantity(
       return { success: false, error: 'Unauthorized' }
     }
 
+    // Crew rate for hours-based items (labor follows the new quantity)
+    const [{ data: rate }, rules] = await Promise.all([
+      isHoursBased(lineItem) && lineItem.labor_rate_id
+        ? supabase
+            .from('labor_rates')
+            .select('burdened_hourly_rate, crew_size, productivity_factor')
+            .eq('id', lineItem.labor_rate_id)
+            .maybeSingle()
+        : Promise.resolve({ data: null }),
+      getMarkupRules(supabase, user.id, room.project_id),
+    ])
+    const stack = resolveMarkupStack(rules, { costCode: lineItem.cost_code, projectId: room.project_id })
+
+    // Assembly items: evaluate their expression against the room
+    if (lineItem.quantity_expression) {
+      const quantity = evaluateQuantityExpression(
+        lineItem.quantity_expression,
+        roomMeasures(room, lineItem.assembly_count === null ? 1 : Number(lineItem.assembly_count))
+      )
+      const costs = costDerivedItem(lineItem, quantity, rate, stack)
+
+      const { error: updateError } = await supabase
+        .from('estimate_line_items')
+        .update({
+          quantity,
+          calc_source: 'room_dimensions',
+          ...costs,
+        })
+        .eq('id', lineItemId)
+
+      if (updateError) {
+        console.error('Error updating line item:', updateError)
+        return { success: false, error: 'Failed to update line item' }
+      }
+      await refreshEstimateTotal(supabase, lineItem.estimate_id, room.project_id)
+
+      return {
+        success: true,
+        quantity,
+        ...derivedCostResult(lineItem, costs),
+        calc_source: 'room_dimensions',
+        area_field: null,
+      }
+    }
+
     // Resolve area field
     const areaField = resolveAreaFieldForLineItem({
       cost_code: lineItem.cost_code,
@@ -685,35 +845,28 @@ export async function rederiveLineItemQuantity(
       ? Number(room[areaField])
       : null
 
-    // Compute direct_cost if possible
-    let newDirectCost: number | null = null
-    if (newQuantity !== null && lineItem.unit_cost !== null && lineItem.unit_cost !== undefined) {
-      newDirectCost = Math.round(newQuantity * Number(lineItem.unit_cost) * 100) / 100
-    }
-
-    // Update the line item
-    const updateFields: Record<string, unknown> = {
-      quantity: newQuantity,
-      calc_source: 'room_dimensions',
-    }
-    if (newDirectCost !== null) {
-      updateFields.direct_cost = newDirectCost
-    }
+    // Update the line item (hours-based items cost from their crew rate)
+    const costs = costDerivedItem(lineItem, newQuantity, rate, stack)
 
     const { error: updateError } = await supabase
       .from('estimate_line_items')
-      .update(updateFields)
+      .update({
+        quantity: newQuantity,
+        calc_source: 'room_dimensions',
+        ...costs,
+      })
       .eq('id', lineItemId)
 
     if (updateError) {
       console.error('Error updating line item:', updateError)
       return { success: false, error: 'Failed to update line item' }
     }
+    await refreshEstimateTotal(supabase, lineItem.estimate_id, room.project_id)
 
     return {
       success: true,
       quantity: newQuantity,
-      direct_cost: newDirectCost,
+      ...derivedCostResult(lineItem, costs),
       calc_source: 'room_dimensions',
       area_field: areaField,
     }
@@ -2,6 +2,7 @@
 
 import { createServerClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/supabase/server'
+import { isIncludedBySelection } from '@/lib/estimate-alternates'
 
 /**
  * Start Job Action
@@ -156,6 +157,10 @@ export async function startJobFromContract(contractId: string) {
         if (!item.description || item.description.trim().length === 0) {
           return false
         }
+        // Filter out alternates the client didn't select
+        if (!isIncludedBySelection(item.alternate_ids, contract.selected_alternate_ids)) {
+          return false
+        }
         // Include items without a room (General items)
         const room = item.rooms as { id: string; is_in_scope: boolean } | null
         if (!room) {
@@ -268,7 +273,7 @@ export async function startJobFromEstimate(projectId: string) {
     // 3. Find the most recent estimate for the project
     const { data: estimate, error: estimateError } = await supabase
       .from('estimates')
-      .select('id')
+      .select('id, selected_alternate_ids')
       .eq('project_id', projectId)
       .order('created_at', { ascending: false })
       .limit(1)
@@ -312,6 +317,10 @@ export async function startJobFromEstimate(projectId: string) {
         if (!item.description || item.description.trim().length === 0) {
           return false
         }
+        // Filter out alternates the client didn't select
+        if (!isIncludedBySelection(item.alternate_ids, estimate.selected_alternate_ids)) {
+          return false
+        }
         // Include items without a room (General items)
         const room = item.rooms as { id: string; is_in_scope: boolean } | null
         if (!room) {
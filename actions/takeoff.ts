@@ -0,0 +1,709 @@
+'use server'
+
+/**
+ * Server actions for on-plan takeoff.
+ *
+ * A plan page is rendered once (renderPdfPagesToImages) and cached in
+ * storage; the estimator calibrates it and draws linear, area and count
+ * measurements on it. A measurement bound to a line item drives that item's
+ * quantity (calc_source = 'takeoff'): the quantity is the sum of the item's
+ * measurements and follows edits and recalibration until the estimator sets
+ * it by hand. Only items in a draft estimate whose unit matches the
+ * measurement's (LF, SF or EA) can be bound.
+ */
+
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { getPdfPageCount, renderPdfPagesToImages } from '@/lib/plans/pdf-utils'
+import { refreshEstimateTotal } from '@/lib/estimate-total'
+import { priceAssemblyQuantity } from '@/lib/assemblies'
+import { costHoursBasedItem, isHoursBased, type LaborRateTerms } from '@/lib/labor'
+import { resolveMarkupStack, type MarkupRule } from '@/lib/pricing/markup'
+import { getMarkupRules } from '@/lib/pricing/getMarkupRules'
+import {
+  TAKEOFF_RENDER_SCALE,
+  TAKEOFF_UNITS,
+  calibrationScale,
+  measurementQuantity,
+  takeoffKindForUnit,
+  takeoffPageImagePath,
+  type TakeoffKind,
+  type TakeoffPoint,
+} from '@/lib/takeoff'
+import type { TakeoffMeasurement, TakeoffPage } from '@/types/db'
+import { z } from 'zod'
+
+const STORAGE_BUCKET = 'uploads'
+
+// ─── Zod schemas ────────────────────────────────────────────────────────────
+
+const PointSchema = z.tuple([z.number().min(0).max(100_000), z.number().min(0).max(100_000)])
+
+const CalibrateSchema = z.object({
+  pageId: z.string().uuid(),
+  points: z.tuple([PointSchema, PointSchema]),
+  lengthFt: z.number().positive().max(100_000),
+})
+
+const SaveMeasurementSchema = z.object({
+  id: z.string().uuid().optional(),
+  pageId: z.string().uuid(),
+  kind: z.enum(['linear', 'area', 'count']),
+  label: z.string().trim().max(200).nullable().optional(),
+  points: z.array(PointSchema).min(1).max(500),
+  roomId: z.string().uuid().nullable().optional(),
+  lineItemId: z.string().uuid().nullable().optional(),
+  /** Create a line item for this measurement instead of binding an existing one */
+  newLineItem: z.object({
+    estimateId: z.string().uuid(),
+    description: z.string().trim().min(1).max(2000),
+    category: z.string().trim().max(255).nullable().optional(),
+    costCode: z.string().trim().max(20).nullable().optional(),
+  }).nullable().optional(),
+})
+
+export type CalibrateTakeoffInput = z.input<typeof CalibrateSchema>
+export type SaveTakeoffMeasurementInput = z.input<typeof SaveMeasurementSchema>
+
+export interface TakeoffPageView {
+  page: TakeoffPage
+  imageUrl: string
+  measurements: TakeoffMeasurement[]
+}
+
+type ServerClient = Awaited<ReturnType<typeof createServerClient>>
+
+/** A line item's estimate embedded by estimates!inner(status) - many-to-one, so one row */
+type WithEstimateStatus = { estimates: { status: string } }
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function validationError(error: z.ZodError): string {
+  return `Validation failed: ${error.errors.map(e => `${e.path.join('.') || 'value'}: ${e.message}`).join('; ')}`
+}
+
+/** Storage path inside the uploads bucket from a public file URL */
+function storagePathOf(fileUrl: string): string | null {
+  const match = fileUrl.match(/\/uploads\/(.+)$/)
+  return match ? decodeURIComponent(match[1]) : null
+}
+
+function isPdfUpload(upload: { file_type: string | null; file_url: string }): boolean {
+  return upload.file_type === 'pdf' || /\.pdf($|\?)/i.test(upload.file_url)
+}
+
+async function loadPageView(
+  supabase: ServerClient,
+  page: TakeoffPage,
+  uploadFileUrl?: string
+): Promise<TakeoffPageView> {
+  let imageUrl = uploadFileUrl ?? ''
+  if (page.image_path) {
+    imageUrl = supabase.storage.from(STORAGE_BUCKET).getPublicUrl(page.image_path).data.publicUrl
+  } else if (!imageUrl) {
+    const { data: upload } = await supabase
+      .from('uploads')
+      .select('file_url')
+      .eq('id', page.upload_id)
+      .maybeSingle()
+    imageUrl = upload?.file_url ?? ''
+  }
+
+  const { data: measurements, error } = await supabase
+    .from('takeoff_measurements')
+    .select('*')
+    .eq('page_id', page.id)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load measurements: ${error.message}`)
+  }
+
+  return {
+    page: normalizePage(page),
+    imageUrl,
+    measurements: (measurements || []).map(normalizeMeasurement),
+  }
+}
+
+/** NUMERIC columns come back as strings */
+function normalizePage(page: TakeoffPage): TakeoffPage {
+  return { ...page, feet_per_pixel: page.feet_per_pixel === null ? null : Number(page.feet_per_pixel) }
+}
+
+function normalizeMeasurement(measurement: TakeoffMeasurement): TakeoffMeasurement {
+  return { ...measurement, quantity: measurement.quantity === null ? null : Number(measurement.quantity) }
+}
+
+/**
+ * Takeoff page owned by the current user
+ */
+async function getPageWithAuth(pageId: string) {
+  const user = await requireAuth()
+  const supabase = await createServerClient()
+
+  const { data: page, error } = await supabase
+    .from('takeoff_pages')
+    .select('*')
+    .eq('id', pageId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error || !page) {
+    throw new Error('Takeoff page not found')
+  }
+
+  return { user, supabase, page: normalizePage(page as TakeoffPage) }
+}
+
+function lockedEstimateError(status: string): string {
+  return `Estimate is locked (status=${status}). Only drafts can be edited.`
+}
+
+/**
+ * Why a measurement of this kind can't drive a line item: the item isn't in
+ * the project, its estimate is locked, its unit isn't the one the
+ * measurement gives (TAKEOFF_UNITS) or it is already measured with another
+ * kind. Null when it can.
+ */
+async function lineItemBindError(
+  supabase: ServerClient,
+  lineItemId: string,
+  projectId: string,
+  kind: TakeoffKind,
+  measurementId?: string
+): Promise<string | null> {
+  const { data: item } = await supabase
+    .from('estimate_line_items')
+    .select('id, project_id, unit, estimates!inner(status)')
+    .eq('id', lineItemId)
+    .maybeSingle()
+    .overrideTypes<WithEstimateStatus>()
+  if (!item || item.project_id !== projectId) {
+    return 'Line item not found in this project'
+  }
+
+  const status = item.estimates.status
+  if (status !== 'draft') {
+    return lockedEstimateError(status)
+  }
+  if (takeoffKindForUnit(item.unit) !== kind) {
+    return `A ${kind} measurement (${TAKEOFF_UNITS[kind]}) can't set the quantity of a line item in ${item.unit || 'no unit'}`
+  }
+
+  const { data: measured } = await supabase
+    .from('takeoff_measurements')
+    .select('id, kind')
+    .eq('line_item_id', lineItemId)
+  if ((measured || []).some(m => m.id !== measurementId && m.kind !== kind)) {
+    return 'The line item is already measured with a different kind of measurement'
+  }
+  return null
+}
+
+/**
+ * Error when changing measurements would change the quantity of a line item
+ * they drive in a locked estimate. Items the estimator set by hand don't
+ * follow their measurements, so they don't count.
+ */
+async function lockedLineItemError(
+  supabase: ServerClient,
+  lineItemIds: Array<string | null | undefined>
+): Promise<string | null> {
+  const ids = Array.from(new Set(lineItemIds.filter((id): id is string => !!id)))
+  if (ids.length === 0) return null
+
+  const { data: items } = await supabase
+    .from('estimate_line_items')
+    .select('id, calc_source, estimates!inner(status)')
+    .in('id', ids)
+    .eq('calc_source', 'takeoff')
+    .overrideTypes<WithEstimateStatus[]>()
+
+  const locked = (items || []).find(item => item.estimates.status !== 'draft')
+  return locked ? lockedEstimateError(locked.estimates.status) : null
+}
+
+/**
+ * Set each line item's quantity to the sum of its measurements. Items the
+ * estimator switched to manual are left alone unless they are being bound
+ * now; an item with no measurements left goes back to manual (quantity
+ * kept). Costs follow the quantity the same way room dimension changes do,
+ * marked up with each item's stack.
+ *
+ * Callers check binds and locked estimates first (lineItemBindError,
+ * lockedLineItemError); an item that still can't be updated is reported in
+ * errors, not skipped.
+ */
+async function syncTakeoffLineItems(
+  supabase: ServerClient,
+  userId: string,
+  lineItemIds: Array<string | null | undefined>,
+  binding: Set<string> = new Set()
+): Promise<{ updated: number; errors: string[] }> {
+  const ids = Array.from(new Set(lineItemIds.filter((id): id is string => !!id)))
+  if (ids.length === 0) return { updated: 0, errors: [] }
+
+  const { data: items } = await supabase
+    .from('estimate_line_items')
+    .select(`
+      id, estimate_id, project_id, description, cost_code, calc_source, quantity, unit, unit_cost,
+      material_cost, overhead_cost, is_allowance, labor_rate_id, labor_hours_per_unit,
+      estimates!inner(status)
+    `)
+    .in('id', ids)
+    .overrideTypes<WithEstimateStatus[]>()
+
+  let updated = 0
+  const errors: string[] = []
+  const touchedEstimates = new Map<string, string>()
+  const rulesByProject = new Map<string, MarkupRule[]>()
+
+  for (const item of items || []) {
+    if (item.calc_source !== 'takeoff' && !binding.has(item.id)) continue
+
+    const status = item.estimates.status
+    if (status !== 'draft') {
+      errors.push(`"${item.description}" was not updated: ${lockedEstimateError(status)}`)
+      continue
+    }
+
+    const { data: measurements } = await supabase
+      .from('takeoff_measurements')
+      .select('quantity, kind')
+      .eq('line_item_id', item.id)
+
+    if (!measurements || measurements.length === 0) {
+      if (item.calc_source === 'takeoff') {
+        const { error } = await supabase.from('estimate_line_items').update({ calc_source: 'manual' }).eq('id', item.id)
+        if (error) errors.push(`Failed to update "${item.description}": ${error.message}`)
+      }
+      continue
+    }
+
+    const kind = takeoffKindForUnit(item.unit)
+    if (!kind || measurements.some(m => m.kind !== kind)) {
+      errors.push(`"${item.description}" was not updated: its measurements don't match its unit (${item.unit || 'none'})`)
+      continue
+    }
+
+    const measured = measurements.filter(m => m.quantity !== null).map(m => Number(m.quantity))
+    const quantity = measured.length > 0 ? round2(measured.reduce((sum, q) => sum + q, 0)) : null
+
+    let rate: LaborRateTerms | null = null
+    if (isHoursBased(item) && item.labor_rate_id) {
+      const { data } = await supabase
+        .from('labor_rates')
+        .select('id, burdened_hourly_rate, crew_size, productivity_factor')
+        .eq('id', item.labor_rate_id)
+        .maybeSingle()
+      rate = data as LaborRateTerms | null
+    }
+
+    if (!rulesByProject.has(item.project_id)) {
+      rulesByProject.set(item.project_id, await getMarkupRules(supabase, userId, item.project_id))
+    }
+    const stack = resolveMarkupStack(rulesByProject.get(item.project_id)!, { costCode: item.cost_code, projectId: item.project_id })
+
+    const unitCost = item.unit_cost === null ? null : Number(item.unit_cost)
+    const { error } = await supabase
+      .from('estimate_line_items')
+      .update({
+        quantity,
+        calc_source: 'takeoff',
+        ...(isHoursBased(item)
+          ? costHoursBasedItem(item, quantity, rate, stack)
+          : unitCost === null
+            ? {}
+            : priceAssemblyQuantity(quantity, unitCost, stack, item)),
+      })
+      .eq('id', item.id)
+
+    if (error) {
+      errors.push(`Failed to update "${item.description}": ${error.message}`)
+      continue
+    }
+    updated++
+    touchedEstimates.set(item.estimate_id, item.project_id)
+  }
+
+  for (const [estimateId, projectId] of touchedEstimates) {
+    await refreshEstimateTotal(supabase, estimateId, projectId)
+  }
+  return { updated, errors }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Open a page of a plan upload for takeoff, rendering and caching its image
+ * the first time. Image uploads have a single page: the image itself.
+ */
+export async function openTakeoffPage(
+  uploadId: string,
+  pageNumber: number = 1
+): Promise<{ success: boolean; view?: TakeoffPageView; error?: string }> {
+  try {
+    if (!z.string().uuid().safeParse(uploadId).success || !Number.isInteger(pageNumber) || pageNumber < 1) {
+      return { success: false, error: 'Invalid page' }
+    }
+
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: upload } = await supabase
+      .from('uploads')
+      .select('id, project_id, file_url, file_type, projects!inner(user_id)')
+      .eq('id', uploadId)
+      .maybeSingle()
+
+    if (!upload || (upload.projects as any)?.user_id !== user.id) {
+      return { success: false, error: 'File not found' }
+    }
+
+    const { data: existing } = await supabase
+      .from('takeoff_pages')
+      .select('*')
+      .eq('upload_id', uploadId)
+      .eq('page_number', pageNumber)
+      .maybeSingle()
+
+    if (existing) {
+      return { success: true, view: await loadPageView(supabase, existing as TakeoffPage, upload.file_url) }
+    }
+
+    const row: Record<string, unknown> = {
+      user_id: user.id,
+      project_id: upload.project_id,
+      upload_id: uploadId,
+      page_number: pageNumber,
+      page_count: 1,
+      image_path: null,
+    }
+
+    if (isPdfUpload(upload)) {
+      const sourcePath = storagePathOf(upload.file_url)
+      const { data: file, error: downloadError } = sourcePath
+        ? await supabase.storage.from(STORAGE_BUCKET).download(sourcePath)
+        : { data: null, error: null }
+      if (downloadError || !file) {
+        return { success: false, error: 'Failed to download the plan' }
+      }
+
+      const buffer = Buffer.from(await file.arrayBuffer())
+      const pageCount = await getPdfPageCount(buffer)
+      if (pageCount > 0 && pageNumber > pageCount) {
+        return { success: false, error: `The plan has ${pageCount} pages` }
+      }
+
+      const [rendered] = await renderPdfPagesToImages(buffer, [pageNumber], TAKEOFF_RENDER_SCALE)
+      if (!rendered) {
+        return { success: false, error: `Could not render page ${pageNumber}` }
+      }
+
+      const imagePath = takeoffPageImagePath(user.id, uploadId, pageNumber)
+      const { error: uploadError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(imagePath, Buffer.from(rendered.base64, 'base64'), { contentType: 'image/png', upsert: true })
+      if (uploadError) {
+        throw new Error(`Failed to store page image: ${uploadError.message}`)
+      }
+
+      row.page_count = Math.max(pageCount, 1)
+      row.image_path = imagePath
+    } else if (pageNumber !== 1) {
+      return { success: false, error: 'Images have a single page' }
+    }
+
+    // Upsert: two tabs opening the same page render it once
+    const { data: page, error } = await supabase
+      .from('takeoff_pages')
+      .upsert(row, { onConflict: 'upload_id,page_number' })
+      .select('*')
+      .single()
+
+    if (error || !page) {
+      throw new Error(`Failed to create takeoff page: ${error?.message}`)
+    }
+
+    return { success: true, view: await loadPageView(supabase, page as TakeoffPage, upload.file_url) }
+  } catch (error) {
+    console.error('Error opening takeoff page:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to open plan page',
+    }
+  }
+}
+
+/**
+ * Calibrate a page from a line of known length. Every measurement on the
+ * page is recomputed, and so are the line items they drive.
+ */
+export async function calibrateTakeoffPage(
+  input: CalibrateTakeoffInput
+): Promise<{ success: boolean; view?: TakeoffPageView; updatedLineItems?: number; error?: string }> {
+  const parsed = CalibrateSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+
+  try {
+    const { user, supabase, page } = await getPageWithAuth(parsed.data.pageId)
+    const points = parsed.data.points as [TakeoffPoint, TakeoffPoint]
+    const feetPerPixel = calibrationScale(points, parsed.data.lengthFt)
+    if (!feetPerPixel) {
+      return { success: false, error: 'Pick two different points to calibrate' }
+    }
+
+    const { data: measurements } = await supabase
+      .from('takeoff_measurements')
+      .select('*')
+      .eq('page_id', page.id)
+
+    const lockedError = await lockedLineItemError(
+      supabase,
+      ((measurements || []) as TakeoffMeasurement[]).map(m => m.line_item_id)
+    )
+    if (lockedError) {
+      return { success: false, error: `Recalibrating would change line item quantities. ${lockedError}` }
+    }
+
+    const { data: calibrated, error } = await supabase
+      .from('takeoff_pages')
+      .update({
+        calibration: { points, length_ft: parsed.data.lengthFt },
+        feet_per_pixel: feetPerPixel,
+      })
+      .eq('id', page.id)
+      .select('*')
+      .single()
+
+    if (error || !calibrated) {
+      throw new Error(`Failed to save calibration: ${error?.message}`)
+    }
+
+    const boundLineItems: string[] = []
+    for (const measurement of (measurements || []) as TakeoffMeasurement[]) {
+      const quantity = measurementQuantity(measurement.kind, measurement.points, feetPerPixel)
+      if (quantity === (measurement.quantity === null ? null : Number(measurement.quantity))) continue
+      await supabase.from('takeoff_measurements').update({ quantity }).eq('id', measurement.id)
+      if (measurement.line_item_id) boundLineItems.push(measurement.line_item_id)
+    }
+
+    const { updated: updatedLineItems, errors } = await syncTakeoffLineItems(supabase, user.id, boundLineItems)
+    const view = await loadPageView(supabase, calibrated as TakeoffPage)
+
+    if (errors.length > 0) {
+      return { success: false, view, updatedLineItems, error: `Page calibrated, but ${errors.join('; ')}` }
+    }
+    return { success: true, view, updatedLineItems }
+  } catch (error) {
+    console.error('Error calibrating takeoff page:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to calibrate page',
+    }
+  }
+}
+
+/**
+ * Create or update a measurement, bound to a room and (optionally) a line
+ * item, existing or created here. The line item's quantity becomes the sum of
+ * its measurements.
+ */
+export async function saveTakeoffMeasurement(
+  input: SaveTakeoffMeasurementInput
+): Promise<{ success: boolean; measurement?: TakeoffMeasurement; lineItemId?: string | null; error?: string }> {
+  const parsed = SaveMeasurementSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: validationError(parsed.error) }
+  }
+  const data = parsed.data
+
+  try {
+    const { user, supabase, page } = await getPageWithAuth(data.pageId)
+
+    const quantity = measurementQuantity(data.kind, data.points as TakeoffPoint[], page.feet_per_pixel)
+    if (data.kind !== 'count' && quantity === null) {
+      return { success: false, error: 'Calibrate the page before saving linear or area measurements' }
+    }
+
+    let room: { id: string; name: string; level: string | null } | null = null
+    if (data.roomId) {
+      const { data: found } = await supabase
+        .from('rooms')
+        .select('id, project_id, name, level')
+        .eq('id', data.roomId)
+        .maybeSingle()
+      if (!found || found.project_id !== page.project_id) {
+        return { success: false, error: 'Room not found in this project' }
+      }
+      room = found
+    }
+
+    let previous: TakeoffMeasurement | null = null
+    if (data.id) {
+      const { data: found } = await supabase
+        .from('takeoff_measurements')
+        .select('*')
+        .eq('id', data.id)
+        .eq('page_id', page.id)
+        .maybeSingle()
+      if (!found) {
+        return { success: false, error: 'Measurement not found' }
+      }
+      previous = found as TakeoffMeasurement
+    }
+
+    // The item the measurement drove loses it (or follows its new points)
+    const lockedError = await lockedLineItemError(supabase, [previous?.line_item_id])
+    if (lockedError) {
+      return { success: false, error: lockedError }
+    }
+
+    let lineItemId = data.lineItemId ?? null
+    if (lineItemId) {
+      const bindError = await lineItemBindError(supabase, lineItemId, page.project_id, data.kind, previous?.id)
+      if (bindError) {
+        return { success: false, error: bindError }
+      }
+    } else if (data.newLineItem) {
+      const { data: estimate } = await supabase
+        .from('estimates')
+        .select('id, project_id, status')
+        .eq('id', data.newLineItem.estimateId)
+        .maybeSingle()
+      if (!estimate || estimate.project_id !== page.project_id) {
+        return { success: false, error: 'Estimate not found in this project' }
+      }
+      if (estimate.status !== 'draft') {
+        return { success: false, error: lockedEstimateError(estimate.status) }
+      }
+
+      const { data: created, error: createError } = await supabase
+        .from('estimate_line_items')
+        .insert({
+          estimate_id: estimate.id,
+          project_id: page.project_id,
+          room_id: room?.id ?? null,
+          room_name: room?.name ?? null,
+          level: room?.level ?? null,
+          description: data.newLineItem.description,
+          category: data.newLineItem.category || 'Other',
+          cost_code: data.newLineItem.costCode || '999',
+          quantity,
+          unit: TAKEOFF_UNITS[data.kind],
+          calc_source: 'takeoff',
+          // NO PRICING - the estimator prices the item in the estimate
+          labor_cost: null,
+          material_cost: null,
+          direct_cost: null,
+          client_price: null,
+          pricing_source: null,
+          is_allowance: false,
+          is_active: true,
+        })
+        .select('id')
+        .single()
+
+      if (createError || !created) {
+        throw new Error(`Failed to create line item: ${createError?.message}`)
+      }
+      lineItemId = created.id
+    }
+
+    const row = {
+      page_id: page.id,
+      user_id: user.id,
+      project_id: page.project_id,
+      kind: data.kind,
+      label: data.label || null,
+      points: data.points,
+      quantity,
+      unit: TAKEOFF_UNITS[data.kind],
+      room_id: room?.id ?? null,
+      line_item_id: lineItemId,
+    }
+
+    const { data: saved, error } = previous
+      ? await supabase.from('takeoff_measurements').update(row).eq('id', previous.id).select('*').single()
+      : await supabase.from('takeoff_measurements').insert(row).select('*').single()
+
+    if (error || !saved) {
+      throw new Error(`Failed to save measurement: ${error?.message}`)
+    }
+
+    const { errors } = await syncTakeoffLineItems(
+      supabase,
+      user.id,
+      [lineItemId, previous?.line_item_id],
+      new Set(lineItemId ? [lineItemId] : [])
+    )
+
+    const measurement = normalizeMeasurement(saved as TakeoffMeasurement)
+    if (errors.length > 0) {
+      return { success: false, measurement, lineItemId, error: `Measurement saved, but ${errors.join('; ')}` }
+    }
+    return { success: true, measurement, lineItemId }
+  } catch (error) {
+    console.error('Error saving takeoff measurement:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save measurement',
+    }
+  }
+}
+
+/**
+ * Delete a measurement. Its line item's quantity drops by the measurement
+ * (or goes back to manual when nothing is left driving it).
+ */
+export async function deleteTakeoffMeasurement(
+  measurementId: string
+): Promise<{ success: boolean; deleted?: boolean; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: measurement } = await supabase
+      .from('takeoff_measurements')
+      .select('id, line_item_id')
+      .eq('id', measurementId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!measurement) {
+      return { success: false, error: 'Measurement not found' }
+    }
+
+    const lockedError = await lockedLineItemError(supabase, [measurement.line_item_id])
+    if (lockedError) {
+      return { success: false, error: lockedError }
+    }
+
+    const { error } = await supabase
+      .from('takeoff_measurements')
+      .delete()
+      .eq('id', measurementId)
+
+    if (error) {
+      throw new Error(`Failed to delete measurement: ${error.message}`)
+    }
+
+    const { errors } = await syncTakeoffLineItems(supabase, user.id, [measurement.line_item_id])
+    if (errors.length > 0) {
+      return { success: false, deleted: true, error: `Measurement deleted, but ${errors.join('; ')}` }
+    }
+    return { success: true, deleted: true }
+  } catch (error) {
+    console.error('Error deleting takeoff measurement:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete measurement',
+    }
+  }
+}
@@ -0,0 +1,301 @@
+'use server'
+
+/**
+ * Server actions for streaming voice sessions.
+ *
+ * Audio segments are uploaded and transcribed by /api/transcribe/segments;
+ * these actions manage the session around them: starting one, loading it
+ * back for resume, recording live parse progress, and closing it out.
+ */
+
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { joinSegmentTranscripts } from '@/lib/voice-session'
+import type { VoiceSession, VoiceSessionSegment } from '@/types/db'
+import { z } from 'zod'
+
+// ─── Zod schemas ────────────────────────────────────────────────────────────
+
+const StartSessionSchema = z.object({
+  projectId: z.string().uuid().nullable().optional(),
+  mimeType: z.string().max(100).nullable().optional(),
+})
+
+const ProgressSchema = z.object({
+  estimateId: z.string().uuid().nullable().optional(),
+  currentRoom: z.string().trim().max(200).nullable().optional(),
+  parsedThroughSeq: z.number().int().min(-1).optional(),
+})
+
+export type VoiceSessionProgress = z.input<typeof ProgressSchema>
+
+export interface VoiceSessionWithSegments {
+  session: VoiceSession
+  segments: VoiceSessionSegment[]
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function validationError(error: z.ZodError): string {
+  return `Validation failed: ${error.errors.map(e => `${e.path.join('.') || 'value'}: ${e.message}`).join('; ')}`
+}
+
+async function loadSessionWithSegments(
+  supabase: any,
+  userId: string,
+  sessionId: string
+): Promise<VoiceSessionWithSegments | null> {
+  const { data: session, error } = await supabase
+    .from('voice_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load voice session: ${error.message}`)
+  }
+  if (!session) return null
+
+  const { data: segments, error: segmentsError } = await supabase
+    .from('voice_session_segments')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('seq', { ascending: true })
+
+  if (segmentsError) {
+    throw new Error(`Failed to load voice segments: ${segmentsError.message}`)
+  }
+
+  return {
+    session: session as VoiceSession,
+    segments: (segments || []) as VoiceSessionSegment[],
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Start a new voice session, optionally tied to a project
+ */
+export async function startVoiceSession(
+  input: z.input<typeof StartSessionSchema>
+): Promise<{ success: boolean; session?: VoiceSession; error?: string }> {
+  try {
+    const parsed = StartSessionSchema.safeParse(input)
+    if (!parsed.success) {
+      return { success: false, error: validationError(parsed.error) }
+    }
+
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    if (parsed.data.projectId) {
+      const { data: project } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('id', parsed.data.projectId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (!project) {
+        return { success: false, error: 'Project not found' }
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('voice_sessions')
+      .insert({
+        user_id: user.id,
+        project_id: parsed.data.projectId ?? null,
+        mime_type: parsed.data.mimeType ?? null,
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to start voice session: ${error.message}`)
+    }
+
+    return { success: true, session: data as VoiceSession }
+  } catch (error) {
+    console.error('Error starting voice session:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start voice session',
+    }
+  }
+}
+
+/**
+ * Load a session with its segments (for resuming after a reload)
+ */
+export async function getVoiceSession(
+  sessionId: string
+): Promise<{ success: boolean; data?: VoiceSessionWithSegments; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const data = await loadSessionWithSegments(supabase, user.id, sessionId)
+    if (!data) {
+      return { success: false, error: 'Voice session not found' }
+    }
+
+    return { success: true, data }
+  } catch (error) {
+    console.error('Error loading voice session:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load voice session',
+    }
+  }
+}
+
+/**
+ * Most recent unfinished session for a project, if any
+ */
+export async function findResumableVoiceSession(
+  projectId: string
+): Promise<{ success: boolean; data?: VoiceSessionWithSegments | null; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: session, error } = await supabase
+      .from('voice_sessions')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('project_id', projectId)
+      .eq('status', 'recording')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to find voice session: ${error.message}`)
+    }
+    if (!session) {
+      return { success: true, data: null }
+    }
+
+    return { success: true, data: await loadSessionWithSegments(supabase, user.id, session.id) }
+  } catch (error) {
+    console.error('Error finding resumable voice session:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to find voice session',
+    }
+  }
+}
+
+/**
+ * Record how far live line item extraction has got
+ */
+export async function updateVoiceSessionProgress(
+  sessionId: string,
+  progress: VoiceSessionProgress
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const parsed = ProgressSchema.safeParse(progress)
+    if (!parsed.success) {
+      return { success: false, error: validationError(parsed.error) }
+    }
+
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const update: Record<string, unknown> = {}
+    if (parsed.data.estimateId !== undefined) update.estimate_id = parsed.data.estimateId
+    if (parsed.data.currentRoom !== undefined) update.current_room = parsed.data.currentRoom || null
+    if (parsed.data.parsedThroughSeq !== undefined) update.parsed_through_seq = parsed.data.parsedThroughSeq
+
+    if (Object.keys(update).length === 0) {
+      return { success: true }
+    }
+
+    const { error } = await supabase
+      .from('voice_sessions')
+      .update(update)
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      throw new Error(`Failed to update voice session: ${error.message}`)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating voice session:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update voice session',
+    }
+  }
+}
+
+/**
+ * Close a session and return its full transcript
+ */
+export async function completeVoiceSession(
+  sessionId: string
+): Promise<{ success: boolean; transcript?: string; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const data = await loadSessionWithSegments(supabase, user.id, sessionId)
+    if (!data) {
+      return { success: false, error: 'Voice session not found' }
+    }
+
+    const { error } = await supabase
+      .from('voice_sessions')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      throw new Error(`Failed to complete voice session: ${error.message}`)
+    }
+
+    return { success: true, transcript: joinSegmentTranscripts(data.segments) }
+  } catch (error) {
+    console.error('Error completing voice session:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to complete voice session',
+    }
+  }
+}
+
+/**
+ * Discard an unfinished session so it is no longer offered for resume.
+ * Uploaded audio is kept.
+ */
+export async function abandonVoiceSession(
+  sessionId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { error } = await supabase
+      .from('voice_sessions')
+      .update({ status: 'abandoned' })
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+      .eq('status', 'recording')
+
+    if (error) {
+      throw new Error(`Failed to abandon voice session: ${error.message}`)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error abandoning voice session:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to abandon voice session',
+    }
+  }
+}
@@ -7,8 +7,10 @@ import { createServerClient, createServiceRoleClient, requireAuth } from '@/lib/
 // - fuzzyScore kept for room name matching only
 import { fuzzyScore } from '@/lib/pricing/fuzzy'
 import { isAreaBasedItem } from '@/lib/area-mapping'
+import { chatJson, getLLMProvider, isLLMConfigured, type ChatMessage, type LLMProvider } from '@/lib/ai'
+import { insertAssemblyIntoRoom } from '@/actions/assemblies'
 
-export const runtime = 'nodejs' // Disable Edge runtime for OpenAI API compatibility
+export const runtime = 'nodejs' // Disable Edge runtime for AI provider compatibility
 
 /**
  * =============================================================================
@@ -16,7 +18,9 @@ export const runtime = 'nodejs' // Disable Edge runtime for OpenAI API compatibi
  * =============================================================================
  * 
  * This copilot is restricted to Phase 1 scope per PHASE_1_RELEASE_CHECKLIST.md:
- * - Allowed actions: add_room, add_line_item, update_line_item, hide_room, info
+ * - Allowed actions: add_room, add_line_item, update_line_item, hide_room, add_assembly, info
+ * - add_assembly expands one of the user's own assemblies into a room; any
+ *   prices come from the assembly the user defined, never from the model
  * - Pricing fields are IGNORED and stored as NULL (direct_cost, client_price, etc.)
  * - Chat must NEVER suggest or auto-fill prices
  * - No pricing suggestions, no market data, no historical pricing
@@ -163,9 +167,10 @@ const CopilotResponseSchema = z.object({
     // - update_line_item: Update quantity, room, description (NO PRICING)
     // - add_room: Create new rooms
     // - hide_room: Toggle room inclusion (is_active = false)
+    // - add_assembly: Insert one of the user's assemblies into a room
     // - info: Informational responses
     // Removed from Phase 1: delete_line_item, set_margin_rule, update_task_price, review_pricing
-    type: z.enum(['add_line_item', 'update_line_item', 'add_room', 'hide_room', 'info']),
+    type: z.enum(['add_line_item', 'update_line_item', 'add_room', 'hide_room', 'add_assembly', 'info']),
     data: z.record(z.any())
   }))
 })
@@ -371,9 +376,16 @@ export async function POST(req: NextRequest) {
       console.warn('[Copilot] Could not fetch rooms (migration may not be applied):', roomsError.message)
     }
 
+    // The user's assemblies, so the model can insert them by name
+    const { data: assemblies } = await supabase
+      .from('assemblies')
+      .select('id, name, description')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true })
+
     // Build system prompt for the AI
     // Note: recentActions will be populated from previous turns by the frontend
-    const systemPrompt = buildSystemPrompt(currentLineItems, project, fileContext, rooms || [], recentActions)
+    const systemPrompt = buildSystemPrompt(currentLineItems, project, fileContext, rooms || [], recentActions, assemblies || [])
 
     // Enhance user message with file context if present
     const enhancedMessages = [...messages]
@@ -385,12 +397,11 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Call OpenAI
-    // Phase 1: Return 503 if OpenAI key missing (graceful degradation)
-    const openaiApiKey = process.env.OPENAI_API_KEY
-    if (!openaiApiKey) {
+    // Call the AI provider
+    // Phase 1: Return 503 if no provider is configured (graceful degradation)
+    if (!isLLMConfigured()) {
       return NextResponse.json(
-        { error: 'AI service temporarily unavailable. OpenAI API key not configured.' },
+        { error: 'AI service temporarily unavailable. AI provider not configured.' },
         { status: 503 }
       )
     }
@@ -398,7 +409,7 @@ export async function POST(req: NextRequest) {
     const aiResponse = await callCopilotAI(
       systemPrompt,
       enhancedMessages,
-      openaiApiKey,
+      getLLMProvider(),
       imageUrls
     )
 
@@ -591,38 +602,19 @@ async function createRoom(
  */
 
 /**
- * Transcribe audio using OpenAI Whisper
+ * Transcribe audio with the configured AI provider
  */
 async function transcribeAudio(audioFile: File): Promise<string> {
-  const openaiApiKey = process.env.OPENAI_API_KEY
-  if (!openaiApiKey) {
-    throw new Error('OpenAI API key not configured')
+  if (!isLLMConfigured()) {
+    throw new Error('AI provider not configured')
   }
 
-  const arrayBuffer = await audioFile.arrayBuffer()
-  const buffer = Buffer.from(arrayBuffer)
-  
-  const formData = new FormData()
-  formData.append('file', new Blob([buffer], { type: audioFile.type }), audioFile.name)
-  formData.append('model', 'whisper-1')
-  formData.append('language', 'en')
-  formData.append('response_format', 'json')
-
-  const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-    },
-    body: formData,
+  const { text } = await getLLMProvider().transcribe({
+    audio: audioFile,
+    filename: audioFile.name,
+    language: 'en',
   })
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(`OpenAI transcription error: ${response.status} ${errorData.error?.message || response.statusText}`)
-  }
-
-  const result = await response.json()
-  return result.text || ''
+  return text
 }
 
 /**
@@ -859,7 +851,8 @@ function buildSystemPrompt(
   project: { title: string },
   fileContext?: string,
   existingRooms: Array<{ id: string; name: string; type: string | null; is_active: boolean }> = [],
-  recentActions: Array<{ type: string; success: boolean; id?: string; description?: string; created_items?: Array<{ id: string; description: string }> }> = []
+  recentActions: Array<{ type: string; success: boolean; id?: string; description?: string; created_items?: Array<{ id: string; description: string }> }> = [],
+  assemblies: Array<{ id: string; name: string; description: string | null }> = []
 ): string {
   const lineItemsSummary = currentLineItems.length > 0
     ? currentLineItems.map(item => 
@@ -882,13 +875,19 @@ ${fileContext}`
 ${roomsSummary}
 When adding line items, use these room names exactly as shown. If a user mentions a room that doesn't exist, create it first with add_room action.`
 
+  const assembliesSection = assemblies.length > 0
+    ? `\n\nTHE USER'S ASSEMBLIES (kits that expand into several line items):
+${assemblies.map(a => `- ${a.name}${a.description ? `: ${a.description}` : ''}`).join('\n')}
+When the user asks for one of these in a room (e.g. "do a full bathroom gut in the hall bath"), use add_assembly instead of listing the items yourself.`
+    : ''
+
   // Build recent actions context
   const recentActionsSection = recentActions.length > 0
     ? `\n\nRECENTLY EXECUTED ACTIONS (from previous turns - use these IDs for corrections):
 ${recentActions
   .filter(action => action.success && (action.id || action.created_items))
   .map(action => {
-    if (action.type === 'add_line_item' && action.created_items && action.created_items.length > 0) {
+    if ((action.type === 'add_line_item' || action.type === 'add_assembly') && action.created_items && action.created_items.length > 0) {
       return action.created_items.map(item => 
         `- Created: "${item.description}" (ID: ${item.id})`
       ).join('\n')
@@ -915,7 +914,7 @@ PROJECT CONTEXT:
 Project: ${project.title}
 
 CURRENT LINE ITEMS:
-${lineItemsSummary}${roomsSection}${recentActionsSection}${fileContextSection}
+${lineItemsSummary}${roomsSection}${assembliesSection}${recentActionsSection}${fileContextSection}
 
 YOUR ROLE:
 You help contractors manage their project estimates by:
@@ -1002,7 +1001,7 @@ You MUST return valid JSON with this structure:
   "response_text": "Your natural language response to the user",
   "actions": [
     {
-      "type": "add_line_item" | "update_line_item" | "add_room" | "hide_room" | "info",
+      "type": "add_line_item" | "update_line_item" | "add_room" | "hide_room" | "add_assembly" | "info",
       "data": { ...action-specific data... }
     }
   ]
@@ -1071,7 +1070,19 @@ ACTION TYPES (Phase 1):
    Use when the user says they're not doing a room anymore or want to exclude it.
    This excludes the room and all its line items from totals and documents.
 
-5. "info":
+5. "add_assembly":
+   {
+     "type": "add_assembly",
+     "data": {
+       "assembly_name": "Name of one of the user's assemblies, exactly as listed",
+       "room_name": "Room to insert it into",
+       "count": number (optional - only when the user gives a number of units, default 1)
+     }
+   }
+   Use when the user asks for one of their assemblies in a room. Quantities come from the
+   room's dimensions; do not add the assembly's items separately.
+
+6. "info":
    {
      "type": "info",
      "data": {
@@ -1091,128 +1102,52 @@ Return ONLY valid JSON, no markdown or additional text.`
 }
 
 /**
- * Call OpenAI API with conversation context
+ * Call the AI provider with conversation context
  */
 async function callCopilotAI(
   systemPrompt: string,
   messages: Array<{ role: string; content: string }>,
-  apiKey: string,
+  provider: LLMProvider,
   imageUrls: string[] = []
 ): Promise<CopilotResponse> {
-  const maxRetries = 3
-  let lastError: Error | null = null
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      // Add delay between retries
-      if (attempt > 0) {
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempt))
-      }
-
-      // Build messages with image support if needed
-      const messagePayload = [
-        {
-          role: 'system',
-          content: systemPrompt
-        },
-        ...messages.map((msg, index) => {
-          // If this is the last user message and we have images, include them
-          const isLastUserMessage = msg.role === 'user' && index === messages.length - 1
-          if (isLastUserMessage && imageUrls.length > 0) {
-            return {
-              role: msg.role,
-              content: [
-                { type: 'text', text: msg.content },
-                ...imageUrls.map(url => ({
-                  type: 'image_url' as const,
-                  image_url: { url }
-                }))
-              ]
-            }
-          }
-          return {
-            role: msg.role,
-            content: msg.content
-          }
-        })
-      ]
-
-      // Use GPT-4o for vision, otherwise use gpt-4o-mini
-      const model = imageUrls.length > 0 ? 'gpt-4o' : 'gpt-4o-mini'
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
-          messages: messagePayload,
-          temperature: 0.7,
-          max_tokens: 2000,
-          response_format: { type: 'json_object' }
-        })
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        const status = response.status
-        const isRetryable = status === 502 || status === 503 || status === 504 || status === 429
-        
-        if (isRetryable && attempt < maxRetries - 1) {
-          lastError = new Error(`OpenAI API error: ${status} ${errorData.error?.message || response.statusText}`)
-          continue
-        }
-        
-        throw new Error(`OpenAI API error: ${status} ${errorData.error?.message || response.statusText}`)
-      }
-
-      const result = await response.json()
-      const content = result.choices[0]?.message?.content
-
-      if (!content) {
-        throw new Error('No content returned from OpenAI')
-      }
-
-      // Try to parse JSON, handling cases where it might be wrapped in markdown code blocks
-      let parsed: any
-      try {
-        // First, try parsing directly
-        parsed = JSON.parse(content)
-      } catch (parseError) {
-        // If that fails, try to extract JSON from markdown code blocks
-        const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/) || 
-                         content.match(/\{[\s\S]*\}/)
-        
-        if (jsonMatch) {
-          try {
-            const jsonString = jsonMatch[1] || jsonMatch[0]
-            parsed = JSON.parse(jsonString.trim())
-          } catch (extractError) {
-            console.error('Failed to parse OpenAI response:', content)
-            throw new Error(`Invalid JSON response from AI. Raw content: ${content.substring(0, 200)}...`)
-          }
-        } else {
-          console.error('Failed to parse OpenAI response:', content)
-          throw new Error(`Invalid JSON response from AI. Raw content: ${content.substring(0, 200)}...`)
+  // Build messages with image support if needed
+  const messagePayload: ChatMessage[] = [
+    {
+      role: 'system',
+      content: systemPrompt
+    },
+    ...messages.map((msg, index): ChatMessage => {
+      const role = msg.role === 'assistant' ? 'assistant' : 'user'
+      // If this is the last user message and we have images, include them
+      const isLastUserMessage = msg.role === 'user' && index === messages.length - 1
+      if (isLastUserMessage && imageUrls.length > 0) {
+        return {
+          role,
+          content: [
+            { type: 'text', text: msg.content },
+            ...imageUrls.map(url => ({
+              type: 'image_url' as const,
+              image_url: { url }
+            }))
+          ]
         }
       }
-
-      const validated = CopilotResponseSchema.parse(parsed)
-
-      return validated
-
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error))
-      
-      if (attempt === maxRetries - 1) {
-        throw lastError
+      return {
+        role,
+        content: msg.content
       }
-    }
-  }
+    })
+  ]
 
-  throw lastError || new Error('Failed to call OpenAI API')
+  // Vision needs the smart tier; plain chat uses the fast tier.
+  // Transient failures are retried by the provider.
+  return chatJson(provider, {
+    model: imageUrls.length > 0 ? 'smart' : 'fast',
+    messages: messagePayload,
+    temperature: 0.7,
+    maxTokens: 2000,
+    schema: CopilotResponseSchema,
+  })
 }
 
 /**
@@ -1444,6 +1379,64 @@ async function executeActions(
           break
         }
 
+        case 'add_assembly': {
+          // Expands the user's own assembly; pricing (if any) is the user's,
+          // copied from the assembly definition
+          const { data } = action
+          const assemblyName = (data.assembly_name || data.name || '').trim()
+          if (!assemblyName) {
+            results.push({ type: 'add_assembly', success: false, error: 'Missing assembly_name' })
+            break
+          }
+
+          const { data: assemblies } = await supabase
+            .from('assemblies')
+            .select('id, name')
+            .eq('user_id', userId)
+
+          let matchedAssembly: { id: string; name: string; score: number } | null = null
+          for (const assembly of assemblies || []) {
+            const score = fuzzyScore(assemblyName.toLowerCase(), assembly.name.toLowerCase())
+            if (score >= 0.7 && (!matchedAssembly || score > matchedAssembly.score)) {
+              matchedAssembly = { id: assembly.id, name: assembly.name, score }
+            }
+          }
+
+          if (!matchedAssembly) {
+            results.push({ type: 'add_assembly', success: false, error: `Assembly "${assemblyName}" not found` })
+            break
+          }
+
+          const roomName = data.room_name || data.room || 'General'
+          const roomId = await resolveRoomName(roomName, projectId, supabase)
+          if (!roomId) {
+            results.push({ type: 'add_assembly', success: false, error: `Room "${roomName}" not found` })
+            break
+          }
+
+          const count = Number(data.count)
+          const result = await insertAssemblyIntoRoom({
+            estimateId,
+            roomId,
+            assemblyId: matchedAssembly.id,
+            count: Number.isFinite(count) && count > 0 ? count : undefined,
+          })
+
+          if (!result.success) {
+            results.push({ type: 'add_assembly', success: false, error: result.error })
+            break
+          }
+
+          results.push({
+            type: 'add_assembly',
+            success: true,
+            id: result.assemblyInstanceId,
+            description: `${matchedAssembly.name} in ${roomName}`,
+            created_items: (result.items || []).map(item => ({ id: item.id, description: item.description || '' })),
+          })
+          break
+        }
+
         case 'info': {
           // Info actions don't modify the database
           results.push({ type: 'info', success: true })
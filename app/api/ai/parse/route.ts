@@ -3,8 +3,16 @@ import { z } from 'zod'
 import { createServerClient } from '@/lib/supabase/server'
 import { suggestAllowanceForSelection } from '@/lib/selections'
 import { requireAuth } from '@/lib/supabase/server'
+import { chatJson, getLLMProvider, isLLMConfigured, parseModelJson, type LLMProvider } from '@/lib/ai'
+import {
+  RECORDING_TRANSCRIPT_COLUMNS,
+  formatTranscriptForParse,
+  snippetRange,
+  toRecordingTranscript,
+  type RecordingTranscript,
+} from '@/lib/diarized-transcript'
 
-export const runtime = 'nodejs' // Disable Edge runtime for OpenAI API compatibility
+export const runtime = 'nodejs' // Disable Edge runtime for AI provider compatibility
 
 // Allowance keywords for determining if cost_code 999 should be assigned
 const ALLOWANCE_KEYWORDS = ['allowance', 'budget', 'finish package', '$', 'fixture package']
@@ -59,6 +67,9 @@ const StructuredLineItemSchema = z.object({
 
   notes: z.string().optional(),
 
+  // Diarized transcripts: ids of the segments the item came from
+  source_segment_ids: z.array(z.string()).optional(),
+
   // Allowance fields (for allowance line items)
   is_allowance: z.boolean().default(false),
   allowance_amount: z.number().nullable().optional(),
@@ -97,9 +108,22 @@ type SelectionClassification = z.infer<typeof SelectionClassificationSchema>
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
-    const { transcript, projectId, estimateId } = body
+    const { projectId, estimateId } = body
+    let transcript = body.transcript
+    // Diarized recording: the transcript comes from the upload's speaker
+    // segments, and items cite the segments they came from
+    const sourceUploadId: string | null = typeof body.sourceUploadId === 'string' ? body.sourceUploadId : null
+    // Incremental mode: one segment of a live walkthrough. Items are appended
+    // to the project's estimate and the room carries over between segments.
+    const incremental = body.incremental === true
+    const liveContext: LiveParseContext | undefined = incremental
+      ? {
+          currentRoom: typeof body.currentRoom === 'string' && body.currentRoom.trim() ? body.currentRoom.trim() : null,
+          previousTranscript: typeof body.previousTranscript === 'string' ? body.previousTranscript : '',
+        }
+      : undefined
     
-    console.log('AI Parse API called with:', { projectId, estimateId, transcriptLength: transcript?.length })
+    console.log('AI Parse API called with:', { projectId, estimateId, incremental, transcriptLength: transcript?.length })
     
     // Get user for selection creation (needed for ownership verification)
     const user = await requireAuth()
@@ -110,6 +134,31 @@ export async function POST(req: NextRequest) {
       )
     }
     
+    let recording: RecordingTranscript | null = null
+    if (sourceUploadId) {
+      const supabase = await createServerClient()
+      const { data: upload } = await supabase
+        .from('uploads')
+        .select(RECORDING_TRANSCRIPT_COLUMNS)
+        .eq('id', sourceUploadId)
+        .maybeSingle()
+
+      recording = upload && upload.kind === 'audio' ? toRecordingTranscript(upload) : null
+      if (!recording || recording.segments.length === 0) {
+        return NextResponse.json(
+          { error: 'Recording has no speaker transcript yet' },
+          { status: 400 }
+        )
+      }
+      if (recording.authoritativeSpeakers.length === 0) {
+        return NextResponse.json(
+          { error: 'Choose which speaker is authoritative before parsing' },
+          { status: 400 }
+        )
+      }
+      transcript = formatTranscriptForParse(recording.segments, recording.speakerRoles, recording.authoritativeSpeakers)
+    }
+
     // Validate required fields
     if (!transcript || typeof transcript !== 'string' || transcript.trim().length === 0) {
       return NextResponse.json(
@@ -125,17 +174,28 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    const openaiApiKey = process.env.OPENAI_API_KEY
-
-    if (!openaiApiKey) {
+    if (!isLLMConfigured()) {
       return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
-        { status: 500 }
+        { error: 'AI provider not configured' },
+        { status: 503 }
       )
     }
+    const provider = getLLMProvider()
+
+    // Parse transcript with the AI provider to generate spec sections and line items
+    const parseResult = await parseTranscriptWithAI(transcript, projectId, provider, liveContext, !!recording)
 
-    // Parse transcript with OpenAI to generate spec sections and line items
-    const parseResult = await parseTranscriptWithAI(transcript, projectId, openaiApiKey)
+    // Drop items the model took only from non-authoritative speakers
+    if (recording) {
+      const authoritativeIds = new Set(
+        recording.segments
+          .filter(segment => recording!.authoritativeSpeakers.includes(segment.speaker))
+          .map(segment => segment.id)
+      )
+      parseResult.line_items = parseResult.line_items.filter(item =>
+        !item.source_segment_ids?.length || item.source_segment_ids.some(id => authoritativeIds.has(id))
+      )
+    }
     
     // Validate projectId from parse result
     if (!parseResult.projectId || parseResult.projectId === 'null' || parseResult.projectId === 'undefined') {
@@ -145,6 +205,7 @@ export async function POST(req: NextRequest) {
     // If estimateId is provided, we're modifying an existing estimate
     // Otherwise, create a new estimate
     const isModifyingExisting = estimateId && typeof estimateId === 'string'
+    const appendItems = isModifyingExisting || incremental
 
     // Normalize allowances (convert string "$5000" to number 5000)
     const normalizedSections = normalizeAllowances(parseResult.spec_sections)
@@ -163,7 +224,7 @@ export async function POST(req: NextRequest) {
     if (isModifyingExisting) {
       const { data, error } = await supabase
         .from('estimates')
-        .select('id')
+        .select('id, json_data, spec_sections, total')
         .eq('id', estimateId)
         .single()
       
@@ -181,7 +242,7 @@ export async function POST(req: NextRequest) {
     } else {
       const { data, error: checkError } = await supabase
         .from('estimates')
-        .select('id')
+        .select('id, json_data, spec_sections, total')
         .eq('project_id', projectId)
         .maybeSingle()
       
@@ -219,6 +280,8 @@ export async function POST(req: NextRequest) {
           clientPrice = item.allowance_amount
         }
         
+        const snippet = recording ? snippetRange(recording.segments, item.source_segment_ids || []) : null
+
         return {
           category: item.category || 'Other',
           description: description,
@@ -233,7 +296,10 @@ export async function POST(req: NextRequest) {
           allowance_amount: isAllowance ? (item.allowance_amount ?? null) : null,
           subcontractor: isAllowance ? (item.subcontractor ?? null) : null,
           allowance_notes: isAllowance ? (item.allowance_notes ?? null) : null,
-          notes: item.notes || null
+          notes: item.notes || null,
+          source_segment_ids: snippet ? (item.source_segment_ids || []) : [],
+          source_start_sec: snippet?.start ?? null,
+          source_end_sec: snippet?.end ?? null
         }
       }
       // Fallback for unexpected types (should not happen with structured-only schema)
@@ -248,7 +314,10 @@ export async function POST(req: NextRequest) {
         margin_percent: 0,
         client_price: 0,
         is_allowance: false,
-        notes: null
+        notes: null,
+        source_segment_ids: [] as string[],
+        source_start_sec: null,
+        source_end_sec: null
       }
     })
 
@@ -275,15 +344,20 @@ export async function POST(req: NextRequest) {
     if (existingEstimate) {
       console.log('Saving to estimate:', existingEstimate.id)
       
+      // Live segments add to what earlier segments produced
+      const estimateUpdate = incremental
+        ? mergeIncrementalEstimate(existingEstimate, estimateData)
+        : {
+            spec_sections: enrichedSections,
+            json_data: estimateData.json_data,
+            ai_summary: estimateData.ai_summary,
+            total: estimateData.total
+          }
+
       // Update existing estimate
       const { data: updatedEstimate, error: updateError } = await supabase
         .from('estimates')
-        .update({
-          spec_sections: enrichedSections,
-          json_data: estimateData.json_data,
-          ai_summary: estimateData.ai_summary,
-          total: estimateData.total
-        })
+        .update(estimateUpdate)
         .eq('id', existingEstimate.id)
         .select()
         .single()
@@ -323,8 +397,8 @@ export async function POST(req: NextRequest) {
     // Save line items to estimate_line_items table
     if (processedItems.length > 0) {
       // Delete existing line items for this estimate (only if creating new estimate, not modifying)
-      // When modifying, we append new items instead of replacing
-      if (!isModifyingExisting) {
+      // When modifying or parsing a live segment, we append new items instead of replacing
+      if (!appendItems) {
         await supabase
           .from('estimate_line_items')
           .delete()
@@ -349,7 +423,11 @@ export async function POST(req: NextRequest) {
         is_allowance: item.is_allowance || false, // Include is_allowance flag
         allowance_amount: item.is_allowance ? (item.allowance_amount || null) : null,
         subcontractor: item.is_allowance ? (item.subcontractor || null) : null,
-        allowance_notes: item.is_allowance ? (item.allowance_notes || null) : null
+        allowance_notes: item.is_allowance ? (item.allowance_notes || null) : null,
+        source_upload_id: recording && item.source_segment_ids.length > 0 ? recording.uploadId : null,
+        source_segment_ids: item.source_segment_ids,
+        source_start_sec: item.source_start_sec,
+        source_end_sec: item.source_end_sec
       }))
 
       const { data: insertedLineItems, error: lineItemsError } = await supabase
@@ -373,7 +451,7 @@ export async function POST(req: NextRequest) {
               nonAllowanceItems,
               finalEstimateId,
               user.id,
-              openaiApiKey
+              provider
             ).catch((err) => {
               // Log but don't fail - selection detection is additive
               console.warn('Selection detection failed (non-blocking):', err)
@@ -402,7 +480,9 @@ export async function POST(req: NextRequest) {
         assumptions: parseResult.assumptions || [],
         missing_info: parseResult.missing_info || []
       },
-      estimateId: finalEstimateId
+      estimateId: finalEstimateId,
+      // Room the walkthrough ended this segment in, for the next segment
+      currentRoom: lastSpokenRoom(processedItems, liveContext?.currentRoom ?? null)
     })
 
   } catch (error) {
@@ -414,6 +494,71 @@ export async function POST(req: NextRequest) {
   }
 }
 
+interface LiveParseContext {
+  currentRoom: string | null
+  /** Tail of the already-parsed transcript, for context only */
+  previousTranscript: string
+}
+
+/**
+ * Room of the last item that named one; items without a room come back as
+ * 'General'
+ */
+function lastSpokenRoom(items: Array<{ room_name: string }>, fallback: string | null): string | null {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (items[i].room_name && items[i].room_name !== 'General') return items[i].room_name
+  }
+  return fallback
+}
+
+function uniqueStrings(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)))
+}
+
+/**
+ * Add one live segment's parse to the estimate's stored JSON instead of
+ * replacing it: items append, spec section rooms merge by cost code, and
+ * the total accumulates
+ */
+function mergeIncrementalEstimate(
+  existing: { json_data?: any; spec_sections?: any; total?: number | null },
+  next: { spec_sections: any[]; json_data: { items: any[]; assumptions: string[]; missing_info: string[] }; total: number }
+) {
+  const previous = existing.json_data || {}
+  const sections: any[] = Array.isArray(existing.spec_sections)
+    ? existing.spec_sections.map((section: any) => ({ ...section, items: [...(section.items || [])] }))
+    : []
+
+  next.spec_sections.forEach(newSection => {
+    const section = sections.find(s => s.code === newSection.code)
+    if (!section) {
+      sections.push(newSection)
+      return
+    }
+    for (const item of newSection.items || []) {
+      const sameRoom = section.items.find((existingItem: any) => item.label && existingItem.label === item.label)
+      if (sameRoom) {
+        sameRoom.subitems = [...(sameRoom.subitems || []), ...(item.subitems || [])]
+      } else {
+        section.items.push(item)
+      }
+    }
+  })
+
+  const items = [...(previous.items || []), ...next.json_data.items]
+
+  return {
+    spec_sections: sections,
+    json_data: {
+      items,
+      assumptions: uniqueStrings([...(previous.assumptions || []), ...next.json_data.assumptions]),
+      missing_info: uniqueStrings([...(previous.missing_info || []), ...next.json_data.missing_info])
+    },
+    ai_summary: `Parsed ${sections.length} specification sections and ${items.length} atomic line items from live walkthrough`,
+    total: (Number(existing.total) || 0) + next.total
+  }
+}
+
 // Normalize allowances: convert string "$5000" to number 5000
 function normalizeAllowances(sections: any[]): any[] {
   return sections.map(section => {
@@ -686,7 +831,8 @@ function sanitizeLineItems(lineItems: any[] = []): Array<Record<string, any>> {
       notes: item.notes || item.allowance_notes ? String(item.notes || item.allowance_notes) : '',
       is_allowance: isAllowance,
       allowance_amount: isAllowance ? parseNumericValue(item.allowance_amount) : null,
-      subcontractor: isAllowance ? (item.subcontractor ? String(item.subcontractor) : null) : null
+      subcontractor: isAllowance ? (item.subcontractor ? String(item.subcontractor) : null) : null,
+      source_segment_ids: Array.isArray(item.source_segment_ids) ? item.source_segment_ids.map(String) : []
     }
   })
 }
@@ -720,8 +866,40 @@ function sanitizeParseResult(raw: any, fallbackProjectId: string) {
 async function parseTranscriptWithAI(
   transcript: string,
   projectId: string,
-  apiKey: string
+  provider: LLMProvider,
+  liveContext?: LiveParseContext,
+  speakerLabelled = false
 ): Promise<ParseResult> {
+  const speakerSection = speakerLabelled
+    ? `
+SPEAKER-LABELLED TRANSCRIPT:
+The transcript is a recorded walkthrough with several people talking. Each line is
+"[segment_id m:ss] Speaker, AUTHORITATIVE|context only: text".
+- Create line items ONLY from scope stated by AUTHORITATIVE speakers.
+- Lines marked "context only" (homeowner wishes, side chatter) never become line items on
+  their own. Use them only to understand what an authoritative speaker agrees to
+  ("yes, let's do that" after a homeowner request means the request is in scope).
+- Wishes nobody authoritative agreed to go in missing_info as open questions, not line items.
+- For every line item set "source_segment_ids" to the segment ids the task was taken from
+  (e.g. ["s4", "s5"]), including the context lines an authoritative speaker agreed to.
+`
+    : ''
+
+  const liveSection = liveContext
+    ? `
+LIVE WALKTHROUGH SEGMENT:
+This transcript is the next few sentences of a walkthrough that is still being recorded.
+${liveContext.currentRoom
+  ? `- The contractor was last describing: "${liveContext.currentRoom}". Until another room is named, tasks in this segment belong to "${liveContext.currentRoom}" (use that exact room name, not "General").`
+  : '- No room has been named yet. Use "General" until one is.'}
+- When the contractor moves to a new room ("now in the primary bath", "moving to the kitchen"), use that room for the tasks that follow.
+- Create line items ONLY for the TRANSCRIPT below. The earlier transcript is context and has already been parsed.
+${liveContext.previousTranscript ? `
+EARLIER TRANSCRIPT (context only):
+${liveContext.previousTranscript}
+` : ''}`
+    : ''
+
   const prompt = `You are a senior construction estimator. Parse the contractor transcript into precise JSON that matches ParseResultSchema exactly. Do not change field names or structure.
 
 CORE BEHAVIOR (STRICT) — ATOMIC LINE ITEMS WITH ALLOWANCE EXCEPTION
@@ -952,188 +1130,120 @@ Example line_items output (allowance):
 
 All numbers must be numeric (no commas, no "$").
 Return JSON only, no markdown.
-
+${liveSection}${speakerSection}
 TRANSCRIPT:
 ${transcript}`
 
-  // Retry logic for transient errors (502, 503, 504)
-  const maxRetries = 3
-  let lastError: Error | null = null
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      if (attempt > 0) {
-        // Exponential backoff: 1s, 2s, 4s
-        const delayMs = Math.pow(2, attempt - 1) * 1000
-        console.log(`Retrying OpenAI API call (attempt ${attempt + 1}/${maxRetries}) after ${delayMs}ms...`)
-        await new Promise(resolve => setTimeout(resolve, delayMs))
+  // Transient provider failures (rate limits, gateway errors) are retried by the provider
+  const { content } = await provider.chat({
+    model: 'fast',
+    messages: [
+      {
+        role: 'system',
+        content: [
+          'You are Estimatix\'s parsing engine, a senior construction estimator AI.',
+          'Your job is to convert contractor speech into STRICTLY structured JSON that matches ParseResultSchema exactly.',
+          '',
+          'Hard rules:',
+          '- Always return valid JSON with no comments, no trailing commas, no markdown.',
+          '- Never return plain strings in line_items. Every line item MUST be a structured object.',
+          '- Never invent IDs. Use the projectId exactly as provided in the user prompt.',
+          '- All numeric fields must be bare numbers (no "$", no commas).',
+          '- If information is vague or missing, set labor_cost=null, margin_percent=null, client_price=null and record what is missing in missing_info.',
+          '',
+          'Spec Sheet vs Estimate responsibilities:',
+          '- spec_sections: for human-readable spec sheet (spec sheet PDF). One section per trade (per cost code). Group by room with subitems as atomic task descriptions.',
+          '- line_items: atomic tasks ONLY. Every described task becomes its own line item. Never group multiple tasks into one line item.',
+          '',
+          'You must obey the user prompt exactly. If any conflict exists, prefer the user prompt.'
+        ].join('\n')
+      },
+      {
+        role: 'user',
+        content: prompt
       }
+    ],
+    temperature: 0.1, // Low temperature for consistent, structured output
+    maxTokens: 4000,
+    responseFormat: { type: 'json_object' },
+  })
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-              content: [
-                'You are Estimatix\'s parsing engine, a senior construction estimator AI.',
-                'Your job is to convert contractor speech into STRICTLY structured JSON that matches ParseResultSchema exactly.',
-                '',
-                'Hard rules:',
-                '- Always return valid JSON with no comments, no trailing commas, no markdown.',
-                '- Never return plain strings in line_items. Every line item MUST be a structured object.',
-                '- Never invent IDs. Use the projectId exactly as provided in the user prompt.',
-                '- All numeric fields must be bare numbers (no "$", no commas).',
-                '- If information is vague or missing, set labor_cost=null, margin_percent=null, client_price=null and record what is missing in missing_info.',
-                '',
-                'Spec Sheet vs Estimate responsibilities:',
-                '- spec_sections: for human-readable spec sheet (spec sheet PDF). One section per trade (per cost code). Group by room with subitems as atomic task descriptions.',
-                '- line_items: atomic tasks ONLY. Every described task becomes its own line item. Never group multiple tasks into one line item.',
-                '',
-                'You must obey the user prompt exactly. If any conflict exists, prefer the user prompt.'
-              ].join('\n')
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.1, // Low temperature for consistent, structured output
-          max_tokens: 4000,
-          response_format: { type: 'json_object' }
-        })
-      })
+  // Log raw AI output
+  console.log('AI RAW OUTPUT:', content)
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        const status = response.status
-        const isRetryable = status === 502 || status === 503 || status === 504 || status === 429
-        
-        // If it's a retryable error and we have retries left, continue to retry
-        if (isRetryable && attempt < maxRetries - 1) {
-          lastError = new Error(`OpenAI API error: ${status} ${errorData.error?.message || response.statusText}`)
-          console.warn(`OpenAI API returned ${status}, will retry...`, errorData)
-          continue
-        }
-        
-        // Non-retryable error or out of retries
-        console.error('OpenAI API error:', { status, errorData, attempt: attempt + 1 })
-        throw new Error(`OpenAI API error: ${status} ${errorData.error?.message || response.statusText}${attempt > 0 ? ` (after ${attempt + 1} attempts)` : ''}`)
-      }
-
-      // Success - break out of retry loop
-      const result = await response.json()
-      const content = result.choices[0]?.message?.content
+  try {
+    const parsed = parseModelJson(content)
+    const sanitized = sanitizeParseResult(parsed, projectId)
+    
+    // Log sanitized JSON
+    console.log('AI PARSED JSON:', JSON.stringify(sanitized, null, 2))
+    
+    // Validate with Zod schema
+    const validated = ParseResultSchema.parse(sanitized)
+    
+    // Ensure line_items are properly formatted (all items are structured objects)
+    const normalizedLineItems = validated.line_items.map(item => {
+      // All line items are structured objects (enforced by schema)
+      const categoryOptions: Array<'Windows' | 'Doors' | 'Cabinets' | 'Flooring' | 'Plumbing' | 'Electrical' | 'HVAC' | 'Demo' | 'Framing' | 'Paint' | 'Countertops' | 'Tile' | 'Other'> = 
+        ['Windows', 'Doors', 'Cabinets', 'Flooring', 'Plumbing', 'Electrical', 'HVAC', 'Demo', 'Framing', 'Paint', 'Countertops', 'Tile', 'Other']
+      const validCategory = item.category && categoryOptions.includes(item.category as any) 
+        ? item.category 
+        : 'Other' as const
 
-      if (!content) {
-        throw new Error('No content returned from OpenAI')
-      }
+      const isAllowance = item.is_allowance === true
 
-      // Log raw AI output
-      console.log('AI RAW OUTPUT:', content)
+      if (item && typeof item === 'object') {
+        // For allowance items, use allowance_amount as client_price
+        const clientPrice = isAllowance && item.allowance_amount !== null && item.allowance_amount !== undefined
+          ? item.allowance_amount
+          : (item.client_price ?? null)
 
-      try {
-        const parsed = JSON.parse(content)
-        const sanitized = sanitizeParseResult(parsed, projectId)
-        
-        // Log sanitized JSON
-        console.log('AI PARSED JSON:', JSON.stringify(sanitized, null, 2))
-        
-        // Validate with Zod schema
-        const validated = ParseResultSchema.parse(sanitized)
-        
-        // Ensure line_items are properly formatted (all items are structured objects)
-        const normalizedLineItems = validated.line_items.map(item => {
-          // All line items are structured objects (enforced by schema)
-          const categoryOptions: Array<'Windows' | 'Doors' | 'Cabinets' | 'Flooring' | 'Plumbing' | 'Electrical' | 'HVAC' | 'Demo' | 'Framing' | 'Paint' | 'Countertops' | 'Tile' | 'Other'> = 
-            ['Windows', 'Doors', 'Cabinets', 'Flooring', 'Plumbing', 'Electrical', 'HVAC', 'Demo', 'Framing', 'Paint', 'Countertops', 'Tile', 'Other']
-          const validCategory = item.category && categoryOptions.includes(item.category as any) 
-            ? item.category 
-            : 'Other' as const
-
-          const isAllowance = item.is_allowance === true
-
-          if (item && typeof item === 'object') {
-            // For allowance items, use allowance_amount as client_price
-            const clientPrice = isAllowance && item.allowance_amount !== null && item.allowance_amount !== undefined
-              ? item.allowance_amount
-              : (item.client_price ?? null)
-
-            return {
-              description: item.description || '',
-              is_allowance: isAllowance,
-              category: validCategory,
-              cost_code: item.cost_code || null,
-              room: item.room || 'General',
-              labor_cost: isAllowance ? null : (item.labor_cost ?? null), // Allowances don't use labor_cost
-              margin_percent: isAllowance ? null : (item.margin_percent ?? null), // Allowances don't use margin
-              client_price: clientPrice,
-              notes: item.notes || item.allowance_notes || undefined,
-              allowance_amount: isAllowance ? (item.allowance_amount ?? null) : undefined,
-              subcontractor: isAllowance ? (item.subcontractor ?? null) : undefined
-            }
-          }
-          // Fallback for unexpected types (should not happen with structured-only schema)
-          return {
-            description: '',
-            is_allowance: false,
-            category: 'Other' as const,
-            cost_code: null,
-            room: 'General',
-            labor_cost: null,
-            margin_percent: null,
-            client_price: null,
-            notes: undefined
-          }
-        })
-        
         return {
-          ...validated,
-          line_items: normalizedLineItems as any // Type assertion needed due to optional fields in schema
-        }
-      } catch (parseError) {
-        console.error('JSON parse/validation error:', parseError)
-        console.error('Raw content:', content)
-        
-        // Fallback: return safe empty structure instead of throwing
-        console.warn('Falling back to safe empty structure due to parse error')
-        return {
-          projectId: projectId,
-          spec_sections: [],
-          line_items: [],
-          assumptions: [],
-          missing_info: ['Failed to parse AI response. Please try again or add items manually.']
+          description: item.description || '',
+          is_allowance: isAllowance,
+          category: validCategory,
+          cost_code: item.cost_code || null,
+          room: item.room || 'General',
+          labor_cost: isAllowance ? null : (item.labor_cost ?? null), // Allowances don't use labor_cost
+          margin_percent: isAllowance ? null : (item.margin_percent ?? null), // Allowances don't use margin
+          client_price: clientPrice,
+          notes: item.notes || item.allowance_notes || undefined,
+          allowance_amount: isAllowance ? (item.allowance_amount ?? null) : undefined,
+          subcontractor: isAllowance ? (item.subcontractor ?? null) : undefined
         }
       }
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error))
-      
-      // If this is the last attempt, throw the error
-      if (attempt === maxRetries - 1) {
-        // Check if it's a network error that might benefit from retry suggestion
-        const isNetworkError = lastError.message.includes('fetch failed') || 
-                              lastError.message.includes('ECONNREFUSED') ||
-                              lastError.message.includes('ENOTFOUND')
-        
-        if (isNetworkError) {
-          throw new Error(`Network error connecting to OpenAI API. Please check your internet connection and try again.${attempt > 0 ? ` (tried ${attempt + 1} times)` : ''}`)
-        }
-        
-        throw lastError
+      // Fallback for unexpected types (should not happen with structured-only schema)
+      return {
+        description: '',
+        is_allowance: false,
+        category: 'Other' as const,
+        cost_code: null,
+        room: 'General',
+        labor_cost: null,
+        margin_percent: null,
+        client_price: null,
+        notes: undefined
       }
-      
-      // Otherwise, log and continue to retry
-      console.warn(`OpenAI API call failed (attempt ${attempt + 1}/${maxRetries}):`, lastError.message)
+    })
+    
+    return {
+      ...validated,
+      line_items: normalizedLineItems as any // Type assertion needed due to optional fields in schema
+    }
+  } catch (parseError) {
+    console.error('JSON parse/validation error:', parseError)
+    console.error('Raw content:', content)
+    
+    // Fallback: return safe empty structure instead of throwing
+    console.warn('Falling back to safe empty structure due to parse error')
+    return {
+      projectId: projectId,
+      spec_sections: [],
+      line_items: [],
+      assumptions: [],
+      missing_info: ['Failed to parse AI response. Please try again or add items manually.']
     }
   }
-  
-  // Should not reach here, but handle it just in case
-  throw lastError || new Error('Failed to call OpenAI API after retries')
 }
 
 /**
@@ -1153,7 +1263,7 @@ async function detectAndCreateSelections(
   }>,
   estimateId: string,
   userId: string,
-  openaiApiKey: string
+  provider: LLMProvider
 ): Promise<void> {
   const supabase = await createServerClient()
   
@@ -1181,7 +1291,7 @@ async function detectAndCreateSelections(
       // Classify the line item description
       const classification = await classifyLineItemAsSelection(
         lineItem.description,
-        openaiApiKey
+        provider
       )
 
       if (!classification || !classification.is_selection) {
@@ -1264,11 +1374,11 @@ async function detectAndCreateSelections(
 
 /**
  * Classify a line item description to determine if it's a product selection
- * Uses GPT-4o-mini for lightweight classification
+ * Uses the fast model tier for lightweight classification
  */
 async function classifyLineItemAsSelection(
   description: string,
-  apiKey: string
+  provider: LLMProvider
 ): Promise<SelectionClassification | null> {
   try {
     const prompt = `Classify the following construction line item description to determine if it represents a product selection (specific brand, model, or product choice).
@@ -1305,44 +1415,22 @@ Return JSON only, no markdown.
 Description to classify:
 ${description}`
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a construction product classification assistant. Return only valid JSON matching the SelectionClassificationSchema.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 200,
-      response_format: { type: 'json_object' }
+    const validated = await chatJson(provider, {
+      model: 'fast',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a construction product classification assistant. Return only valid JSON matching the SelectionClassificationSchema.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.1,
+      maxTokens: 200,
+      schema: SelectionClassificationSchema,
     })
-  })
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(`OpenAI API error: ${response.status} ${errorData.error?.message || response.statusText}`)
-  }
-
-  const result = await response.json()
-  const content = result.choices[0]?.message?.content
-
-  if (!content) {
-    throw new Error('No content returned from OpenAI')
-  }
-
-    const parsed = JSON.parse(content)
-    const validated = SelectionClassificationSchema.parse(parsed)
 
     return validated
 
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/supabase/server'
+import { loadTemplate } from '@/lib/loadTemplate'
+import { renderTemplate } from '@/lib/renderTemplate'
+import { launchBrowser } from '@/lib/pdf-browser'
+import { getProfileByUserId } from '@/lib/profile'
+import type { ChangeOrderItem, ChangeOrderWithItems } from '@/types/db'
+
+export const runtime = 'nodejs'
+
+const CHANGE_LABELS: Record<ChangeOrderItem['change_type'], string> = {
+  add: 'Add',
+  remove: 'Remove',
+  modify: 'Modify'
+}
+
+function formatSignedCurrency(value: number): string {
+  const formatted = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(Math.abs(value))
+  if (value > 0) return `+${formatted}`
+  if (value < 0) return `-${formatted}`
+  return formatted
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: changeOrderId } = await context.params
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    // Fetch change order with its items
+    const { data: changeOrderData, error: changeOrderError } = await supabase
+      .from('change_orders')
+      .select('*, change_order_items(*)')
+      .eq('id', changeOrderId)
+      .maybeSingle()
+
+    if (changeOrderError || !changeOrderData) {
+      return NextResponse.json({ error: 'Change order not found' }, { status: 404 })
+    }
+
+    const changeOrder = changeOrderData as ChangeOrderWithItems
+
+    // Fetch project
+    const { data: project } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', changeOrder.project_id)
+      .maybeSingle()
+
+    if (!project || project.user_id !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    // Fetch contractor profile
+    let contractorProfile = null
+    try {
+      contractorProfile = await getProfileByUserId(changeOrder.created_by || project.user_id)
+    } catch (profileError) {
+      console.warn('Failed to fetch contractor profile:', profileError)
+    }
+
+    // Work out the contract price before/after this change order.
+    // Approved change orders are already folded into contracts.total_price.
+    let contractPrice = 0
+    if (changeOrder.contract_id) {
+      const { data: contract } = await supabase
+        .from('contracts')
+        .select('total_price')
+        .eq('id', changeOrder.contract_id)
+        .maybeSingle()
+      contractPrice = Number(contract?.total_price) || 0
+    }
+
+    const { data: approvedChangeOrders } = await supabase
+      .from('change_orders')
+      .select('id, number, total_delta')
+      .eq('project_id', changeOrder.project_id)
+      .eq('status', 'approved')
+
+    const approved = approvedChangeOrders || []
+    const approvedTotal = approved.reduce((sum, co) => sum + (Number(co.total_delta) || 0), 0)
+    const originalContractPrice = contractPrice - approvedTotal
+    const previousChangeOrdersTotal = approved
+      .filter(co => co.number < changeOrder.number)
+      .reduce((sum, co) => sum + (Number(co.total_delta) || 0), 0)
+    const totalDelta = Number(changeOrder.total_delta) || 0
+    const revisedContractPrice = originalContractPrice + previousChangeOrdersTotal + totalDelta
+
+    // Shape items for the template
+    const items = (changeOrder.change_order_items || [])
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(item => {
+        const quantityChanged = item.change_type === 'modify' &&
+          item.previous_quantity !== null && item.quantity !== item.previous_quantity
+        return {
+          change_label: CHANGE_LABELS[item.change_type],
+          description: item.description,
+          room_name: item.room_name,
+          quantity_text: quantityChanged
+            ? `Qty ${item.previous_quantity} → ${item.quantity} ${item.unit || ''}`.trim()
+            : item.change_type === 'add' && item.quantity
+            ? `Qty ${item.quantity} ${item.unit || ''}`.trim()
+            : null,
+          is_remove: item.change_type === 'remove',
+          client_price: Number(item.client_price) || 0,
+          has_previous: item.change_type === 'modify' && item.previous_client_price !== null,
+          previous_client_price: Number(item.previous_client_price) || 0,
+          delta_text: formatSignedCurrency(Number(item.price_delta) || 0)
+        }
+      })
+
+    // Extract profile information
+    const profileAny = contractorProfile as any
+    const companyName = profileAny?.company_name || 'Contractor'
+    const companyPhone = profileAny?.phone || ''
+    const contractorLicense = profileAny?.license_number || profileAny?.license || ''
+
+    const changeOrderDate = new Date(changeOrder.sent_at || changeOrder.created_at).toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric'
+    })
+
+    // Load and render template
+    const templateString = loadTemplate('change-order.html')
+    const html = renderTemplate(templateString, {
+      company_name: companyName,
+      company_phone: companyPhone,
+      contractor_license: contractorLicense,
+      client_name: project.client_name || project.owner_name || 'Client',
+      project_address: project.project_address || 'Property Address',
+      change_order_number: changeOrder.number,
+      change_order_date: changeOrderDate,
+      title: changeOrder.title,
+      reason: changeOrder.reason,
+      items,
+      original_contract_price: originalContractPrice,
+      previous_change_orders_total_text: previousChangeOrdersTotal !== 0
+        ? formatSignedCurrency(previousChangeOrdersTotal)
+        : null,
+      total_delta_text: formatSignedCurrency(totalDelta),
+      revised_contract_price: revisedContractPrice
+    })
+
+    // Generate PDF using Playwright-core + @sparticuz/chromium
+    const browser = await launchBrowser()
+    const page = await browser.newPage()
+    await page.setContent(html, { waitUntil: 'networkidle' })
+    const pdf = await page.pdf({
+      format: 'Letter',
+      printBackground: true,
+      margin: { top: '50px', right: '60px', bottom: '50px', left: '60px' }
+    })
+    await browser.close()
+
+    // Convert Buffer -> ArrayBuffer for NextResponse
+    const pdfArrayBuffer = pdf instanceof Buffer ? pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.byteLength) : pdf
+
+    return new NextResponse(pdfArrayBuffer as BodyInit, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="Change-Order-${changeOrder.number}-${project.title || 'Project'}.pdf"`
+      }
+    })
+  } catch (error) {
+    console.error('Error generating change order PDF:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to generate PDF' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isLLMConfigured } from '@/lib/ai'
+import { findRunnablePlanParseJobs, runPlanParseJob, type PlanParseRunOutcome } from '@/lib/plans/parse-job'
+
+export const runtime = 'nodejs'
+export const maxDuration = 120
+
+/** Jobs advanced side by side per invocation, each with its own run budget */
+const JOBS_PER_RUN = 3
+
+/**
+ * GET /api/cron/plan-parse
+ *
+ * Background driver for plan parse jobs, called every minute by Vercel Cron
+ * (vercel.json). Runs queued jobs - yielded, retried or never started - and
+ * jobs whose worker stopped reporting, so a plan set keeps parsing after the
+ * review drawer is closed. Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isLLMConfigured()) {
+    return NextResponse.json({ error: 'AI provider not configured' }, { status: 503 })
+  }
+
+  try {
+    const jobIds = await findRunnablePlanParseJobs(JOBS_PER_RUN)
+    const outcomes: Record<string, PlanParseRunOutcome | 'error'> = {}
+
+    await Promise.all(jobIds.map(async (jobId) => {
+      try {
+        outcomes[jobId] = await runPlanParseJob(jobId)
+      } catch (error) {
+        console.error(`[Plans Parse] Cron run of ${jobId} failed:`, error)
+        outcomes[jobId] = 'error'
+      }
+    }))
+
+    return NextResponse.json({ outcomes })
+  } catch (error) {
+    console.error('[Plans Parse] Cron error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run parse jobs' },
+      { status: 500 }
+    )
+  }
+}
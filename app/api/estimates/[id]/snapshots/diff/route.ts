@@ -0,0 +1,55 @@
+/**
+ * API Route: Estimate Snapshot Diff
+ * 
+ * GET /api/estimates/:id/snapshots/diff?from=<snapshotId>&to=<snapshotId|current>
+ * 
+ * Compares two snapshots, or a snapshot against the live estimate
+ * (to=current, the default). Returns added/removed/changed line items,
+ * per-room quantity/cost deltas and total deltas.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getEstimateSnapshotDiff } from '@/actions/estimate-snapshots'
+
+export const runtime = 'nodejs'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: estimateId } = await params
+    const from = req.nextUrl.searchParams.get('from')
+    const to = req.nextUrl.searchParams.get('to') || 'current'
+    
+    if (!from) {
+      return NextResponse.json(
+        { error: 'from snapshot ID is required' },
+        { status: 400 }
+      )
+    }
+    
+    const result = await getEstimateSnapshotDiff(estimateId, from, to)
+    
+    if (!result.success) {
+      const statusCode = result.error?.includes('Unauthorized') ? 403 :
+                        result.error?.includes('not found') ? 404 : 500
+      return NextResponse.json(
+        { error: result.error },
+        { status: statusCode }
+      )
+    }
+    
+    return NextResponse.json({
+      from: result.from,
+      to: result.to,
+      diff: result.diff
+    })
+  } catch (error) {
+    console.error('GET /api/estimates/[id]/snapshots/diff error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * API Route: Estimate Snapshots
+ * 
+ * GET  /api/estimates/:id/snapshots - List snapshots (newest first)
+ * POST /api/estimates/:id/snapshots - Take an on-demand snapshot
+ * 
+ * Snapshots are immutable copies of line items, rooms and totals. They are
+ * also captured automatically at each lifecycle transition and when a
+ * proposal is created.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createEstimateSnapshot, listEstimateSnapshots } from '@/actions/estimate-snapshots'
+
+export const runtime = 'nodejs'
+
+// Request schema
+const CreateSnapshotSchema = z.object({
+  label: z.string().max(200).optional()
+})
+
+function errorStatus(error?: string): number {
+  return error?.includes('Unauthorized') ? 403 :
+         error?.includes('not found') ? 404 : 500
+}
+
+// GET: List snapshots for an estimate
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: estimateId } = await params
+    
+    const result = await listEstimateSnapshots(estimateId)
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: errorStatus(result.error) }
+      )
+    }
+    
+    return NextResponse.json({ snapshots: result.snapshots })
+  } catch (error) {
+    console.error('GET /api/estimates/[id]/snapshots error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Take a manual snapshot
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: estimateId } = await params
+    
+    const body = await req.json().catch(() => ({}))
+    const validation = CreateSnapshotSchema.safeParse(body)
+    
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+    
+    const result = await createEstimateSnapshot(estimateId, validation.data.label)
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: errorStatus(result.error) }
+      )
+    }
+    
+    return NextResponse.json({
+      success: true,
+      snapshot_id: result.snapshotId,
+      version: result.version
+    })
+  } catch (error) {
+    console.error('POST /api/estimates/[id]/snapshots error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -10,6 +10,7 @@
  *   - draft → bid_final
  *   - bid_final → contract_signed
  *   - contract_signed → completed
+ *   - bid_final → draft (revise_bid, requires a reason; bumps the revision)
  * - PRICING TRUTH is captured at bid_final and contract_signed
  * - Illegal transitions return 400 Bad Request
  */
@@ -20,6 +21,7 @@ import {
   finalizeBid, 
   markContractSigned, 
   markCompleted,
+  reviseBid,
   getEstimateStatus 
 } from '@/actions/estimate-lifecycle'
 import { EstimateStatus } from '@/types/db'
@@ -28,7 +30,8 @@ export const runtime = 'nodejs'
 
 // Request schema
 const TransitionRequestSchema = z.object({
-  action: z.enum(['finalize_bid', 'mark_contract_signed', 'mark_completed'])
+  action: z.enum(['finalize_bid', 'mark_contract_signed', 'mark_completed', 'revise_bid']),
+  reason: z.string().optional()
 })
 
 // GET: Get current estimate status
@@ -57,7 +60,8 @@ export async function GET(
     
     return NextResponse.json({
       status: result.status,
-      status_changed_at: result.status_changed_at
+      status_changed_at: result.status_changed_at,
+      revision: result.revision
     })
   } catch (error) {
     console.error('GET /api/estimates/[id]/status error:', error)
@@ -92,13 +96,13 @@ export async function POST(
         { 
           error: 'Invalid request',
           details: validation.error.errors,
-          hint: 'action must be one of: finalize_bid, mark_contract_signed, mark_completed'
+          hint: 'action must be one of: finalize_bid, mark_contract_signed, mark_completed, revise_bid'
         },
         { status: 400 }
       )
     }
     
-    const { action } = validation.data
+    const { action, reason } = validation.data
     
     // Execute the appropriate transition
     let result
@@ -112,6 +116,9 @@ export async function POST(
       case 'mark_completed':
         result = await markCompleted(estimateId)
         break
+      case 'revise_bid':
+        result = await reviseBid(estimateId, reason || '')
+        break
       default:
         return NextResponse.json(
           { error: `Unknown action: ${action}` },
@@ -123,6 +130,7 @@ export async function POST(
       // Determine appropriate status code
       const statusCode = result.error?.includes('Unauthorized') ? 403 :
                         result.error?.includes('Invalid transition') ? 400 :
+                        result.error?.includes('reason is required') ? 400 :
                         result.error?.includes('not found') ? 404 : 500
       
       return NextResponse.json(
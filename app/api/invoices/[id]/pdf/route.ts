@@ -5,6 +5,8 @@ import { loadTemplate } from '@/lib/loadTemplate'
 import { renderTemplate } from '@/lib/renderTemplate'
 import { launchBrowser } from '@/lib/pdf-browser'
 import { getProfileByUserId } from '@/lib/profile'
+import { summarizePayApplication, type PayApplicationLine } from '@/lib/pay-application'
+import { invoiceBalance } from '@/lib/invoice-status'
 
 export const runtime = 'nodejs'
 
@@ -87,6 +89,82 @@ export async function GET(
       }
     })
 
+    // Retainage: withheld (positive) on standard invoices, released (negative)
+    // on retainage release invoices. total_amount is already the net due.
+    const isRetainageRelease = invoice.invoice_type === 'retainage_release'
+    const retainageAmount = Number(invoice.retainage_amount) || 0
+    const subtotalAmount = invoiceItems.reduce((sum, item) => sum + item.amount, 0)
+
+    // Pay applications: rebuild the G703 continuation sheet from the snapshot
+    // columns so the PDF matches what was billed, then roll up the G702 summary
+    const isPayApplication = invoice.invoice_type === 'pay_application'
+    let payApplication: Record<string, any> | null = null
+
+    if (isPayApplication) {
+      const lines: PayApplicationLine[] = ((invoice.invoice_items as any[]) || [])
+        .slice()
+        .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))
+        .map((item: any) => {
+          const scheduledValue = Number(item.scheduled_value) || 0
+          const previousAmount = Number(item.previous_amount) || 0
+          const thisPeriodAmount = Number(item.amount) || 0
+          const completedToDate = previousAmount + thisPeriodAmount
+          const previousRetainage = Number(item.previous_retainage) || 0
+          const retainageAmount = Number(item.retainage_amount) || 0
+          return {
+            taskId: item.task_id,
+            description: item.description || item.project_tasks?.description || 'Service',
+            scheduledValue,
+            previousAmount,
+            thisPeriodAmount,
+            completedToDate,
+            percentComplete: Number(item.percent_complete) || 0,
+            balanceToFinish: scheduledValue - completedToDate,
+            previousRetainage,
+            retainageAmount,
+            retainageToDate: previousRetainage + retainageAmount,
+          }
+        })
+
+      const summary = summarizePayApplication(lines)
+      payApplication = {
+        application_number: invoice.application_number,
+        period_to: invoice.period_to
+          ? new Date(invoice.period_to).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+          : null,
+        retainage_percent: Number(invoice.retainage_percent) || 0,
+        lines: lines.map((line, idx) => ({
+          item_number: idx + 1,
+          description: line.description,
+          scheduled_value: line.scheduledValue,
+          previous_amount: line.previousAmount,
+          this_period_amount: line.thisPeriodAmount,
+          completed_to_date: line.completedToDate,
+          percent_complete: Math.round(line.percentComplete),
+          balance_to_finish: line.balanceToFinish,
+          retainage_to_date: line.retainageToDate,
+        })),
+        totals: {
+          scheduled_value: summary.contractSum,
+          previous_amount: lines.reduce((sum, line) => sum + line.previousAmount, 0),
+          this_period_amount: summary.thisPeriodAmount,
+          completed_to_date: summary.completedToDate,
+          percent_complete: summary.contractSum > 0 ? Math.round((summary.completedToDate / summary.contractSum) * 100) : 0,
+          balance_to_finish: summary.contractSum - summary.completedToDate,
+          retainage_to_date: summary.retainageToDate,
+        },
+        summary: {
+          contract_sum: summary.contractSum,
+          completed_to_date: summary.completedToDate,
+          retainage_to_date: summary.retainageToDate,
+          earned_less_retainage: summary.earnedLessRetainage,
+          previous_certificates: summary.previousCertificates,
+          current_payment_due: summary.currentPaymentDue,
+          balance_to_finish: summary.balanceToFinishWithRetainage,
+        },
+      }
+    }
+
     // Extract profile information
     const profileAny = contractorProfile as any
     const companyName = profileAny?.company_name || 'Contractor'
@@ -145,6 +223,21 @@ export async function GET(
       // Invoice items with % billed
       items: invoiceItems,
       total_amount: invoice.total_amount || 0,
+
+      // Retainage
+      is_retainage_release: isRetainageRelease,
+      show_percent_billed: !isRetainageRelease,
+      subtotal_amount: subtotalAmount,
+      retainage_withheld: !isRetainageRelease && retainageAmount > 0 ? retainageAmount : 0,
+      retainage_percent: Number(invoice.retainage_percent) || 0,
+
+      // Payments received so far
+      amount_paid: Number(invoice.amount_paid) || 0,
+      balance_due: invoiceBalance(invoice),
+
+      // Progress billing (G702 summary + G703 continuation sheet)
+      is_pay_application: isPayApplication,
+      pay_application: payApplication,
       
       // Payment instructions
       bank_account: bankAccount,
@@ -171,7 +264,7 @@ export async function GET(
     return new NextResponse(pdfArrayBuffer as BodyInit, {
       headers: {
         'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="Invoice-${invoice.invoice_number}.pdf"`
+        'Content-Disposition': `attachment; filename="${isPayApplication ? `PayApp-${invoice.application_number}` : isRetainageRelease ? 'RetainageRelease' : 'Invoice'}-${invoice.invoice_number}.pdf"`
       }
     })
   } catch (error) {
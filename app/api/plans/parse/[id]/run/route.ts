@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { isLLMConfigured } from '@/lib/ai'
+import { runPlanParseJob } from '@/lib/plans/parse-job'
+
+export const runtime = 'nodejs'
+export const maxDuration = 120
+
+/**
+ * POST /api/plans/parse/[id]/run
+ *
+ * Run a queued plan parse job in this request: resumes jobs that yielded
+ * after their time budget, were retried, or whose worker died (stale
+ * heartbeat). Responds with the run outcome; 'not_claimed' means another run
+ * has the job or it isn't queued.
+ *
+ * The review drawer calls this to pick a job up sooner; the cron driver
+ * (/api/cron/plan-parse) advances queued jobs on its own.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: planParseId } = await context.params
+    await requireAuth()
+    const supabase = await createServerClient()
+
+    // RLS: only the project owner can see the job
+    const { data: planParse } = await supabase
+      .from('plan_parses')
+      .select('id')
+      .eq('id', planParseId)
+      .maybeSingle()
+
+    if (!planParse) {
+      return NextResponse.json({ error: 'Plan parse not found' }, { status: 404 })
+    }
+
+    if (!isLLMConfigured()) {
+      return NextResponse.json({ error: 'AI provider not configured' }, { status: 503 })
+    }
+
+    const outcome = await runPlanParseJob(planParseId)
+    return NextResponse.json({ outcome })
+  } catch (error) {
+    console.error('[Plans Parse] Run error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run parse job' },
+      { status: 500 }
+    )
+  }
+}
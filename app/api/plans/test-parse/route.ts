@@ -20,6 +20,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/supabase/server'
+import { getLLMProvider, isLLMConfigured } from '@/lib/ai'
 
 import {
   extractPdfPagesWithText,
@@ -60,11 +61,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
     }
 
-    // Check OpenAI key
-    const openaiApiKey = process.env.OPENAI_API_KEY
-    if (!openaiApiKey) {
-      return NextResponse.json({ error: 'OPENAI_API_KEY not configured' }, { status: 503 })
+    // Check AI provider
+    if (!isLLMConfigured()) {
+      return NextResponse.json({ error: 'AI provider not configured (set AI_PROVIDER / AI_API_KEY)' }, { status: 503 })
     }
+    const provider = getLLMProvider()
 
     // Parse multipart form data
     const formData = await req.formData()
@@ -118,7 +119,7 @@ export async function POST(req: NextRequest) {
       const renderedPages = await renderPdfPagesToImages(buffer, pagesToRender, 1.5)
 
       if (renderedPages.length > 0) {
-        const visionResult = await analyzeBase64ImagesForRooms(renderedPages, openaiApiKey)
+        const visionResult = await analyzeBase64ImagesForRooms(renderedPages, provider)
         return NextResponse.json({
           success: true,
           method: 'vision',
@@ -149,7 +150,7 @@ export async function POST(req: NextRequest) {
     const pagesForClassification = preparePagesForClassification(sampledPages)
     const classificationResult = await classifyPagesWithAI({
       pages: pagesForClassification,
-      apiKey: openaiApiKey,
+      provider,
     })
 
     // Step 4: Enrich with level detection
@@ -183,7 +184,7 @@ export async function POST(req: NextRequest) {
       const perSheetResult = await extractRoomsPerSheet({
         sheets: sheetInfos,
         pages: extractionResult.pages.map(p => ({ pageNumber: p.pageNumber, text: p.text })),
-        apiKey: openaiApiKey,
+        provider,
       })
 
       rooms = perSheetResult.rooms
@@ -216,7 +217,7 @@ export async function POST(req: NextRequest) {
         const result = await extractRoomsFromPagesWithAI({
           pageTexts: fallbackTexts,
           pageNumbers: fallbackPages.map(p => p.pageNumber),
-          apiKey: openaiApiKey,
+          provider,
         })
         rooms = result.rooms
       }
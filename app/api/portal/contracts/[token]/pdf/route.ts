@@ -0,0 +1,48 @@
+/**
+ * API Route: Client Contract PDF
+ * 
+ * GET /api/portal/contracts/:token/pdf
+ * 
+ * Public (no login) - lets the client read the full contract before signing
+ * and download their copy afterwards. Rendered with the service role client
+ * once the token has been resolved.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { getSigningContractId } from '@/lib/contract-signing'
+import { renderContractPdf } from '@/lib/contract-pdf'
+
+export const runtime = 'nodejs'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const contractId = await getSigningContractId(token)
+
+    if (!contractId) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 })
+    }
+
+    const { pdf, project } = await renderContractPdf(createServiceRoleClient(), contractId)
+
+    // Convert Buffer -> ArrayBuffer for NextResponse
+    const pdfArrayBuffer = pdf instanceof Buffer ? pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.byteLength) : pdf
+
+    return new NextResponse(pdfArrayBuffer as BodyInit, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="Contract-${project.title || 'Contract'}.pdf"`
+      }
+    })
+  } catch (error) {
+    console.error('GET /api/portal/contracts/[token]/pdf error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate PDF' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * API Route: Client Contract Signing
+ * 
+ * POST /api/portal/contracts/:token
+ * 
+ * Public (no login) - the signing token is the credential. Records the
+ * client's typed-name signature. The client's IP and user agent are captured
+ * from the request as signature evidence.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { clientSignContract } from '@/lib/contract-signing'
+import { getClientIp } from '@/lib/proposal-portal'
+
+export const runtime = 'nodejs'
+
+const SignRequestSchema = z.object({
+  signer_name: z.string().trim().min(1, 'Please type your full name to sign').max(255),
+  agreed: z.literal(true, { errorMap: () => ({ message: 'You must agree to sign electronically' }) })
+})
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      )
+    }
+    
+    const body = await req.json().catch(() => null)
+    const parsed = SignRequestSchema.safeParse(body)
+    
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+    
+    const result = await clientSignContract(token, {
+      signerName: parsed.data.signer_name,
+      ip: getClientIp(req.headers),
+      userAgent: req.headers.get('user-agent')
+    })
+    
+    if (!result.ok) {
+      const status = result.error.includes('not found')
+        ? 404
+        : result.error.includes('already')
+          ? 409
+          : 400
+      return NextResponse.json({ error: result.error }, { status })
+    }
+    
+    return NextResponse.json({
+      status: 'client_signed',
+      signed_at: result.signedAt
+    })
+  } catch (error) {
+    console.error('POST /api/portal/contracts/[token] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * API Route: Client Proposal Portal
+ * 
+ * POST /api/portal/proposals/:token
+ * 
+ * Public (no login) - the share token is the credential. Lets the client
+ * accept or decline a proposal with a typed-name signature. The client's IP
+ * and user agent are captured from the request as signature evidence.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getClientIp, respondToPortalProposal } from '@/lib/proposal-portal'
+
+export const runtime = 'nodejs'
+
+const RespondRequestSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  signer_name: z.string().trim().min(1, 'Please type your full name to sign').max(255),
+  comments: z.string().max(5000).nullable().optional(),
+  selected_alternate_ids: z.array(z.string().uuid()).max(50).optional(),
+  agreed: z.literal(true, { errorMap: () => ({ message: 'You must agree to sign electronically' }) })
+})
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      )
+    }
+    
+    const body = await req.json().catch(() => null)
+    const parsed = RespondRequestSchema.safeParse(body)
+    
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+    
+    const result = await respondToPortalProposal(token, {
+      decision: parsed.data.decision,
+      signerName: parsed.data.signer_name,
+      comments: parsed.data.comments,
+      selectedAlternateIds: parsed.data.selected_alternate_ids,
+      ip: getClientIp(req.headers),
+      userAgent: req.headers.get('user-agent')
+    })
+    
+    if (!result.ok) {
+      const status = result.error.includes('not found')
+        ? 404
+        : result.error.includes('already')
+          ? 409
+          : 400
+      return NextResponse.json({ error: result.error }, { status })
+    }
+    
+    return NextResponse.json({
+      status: result.status,
+      total_price: result.totalPrice
+    })
+  } catch (error) {
+    console.error('POST /api/portal/proposals/[token] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * POST /api/pricing/suggestions
+ * 
+ * Returns the current user's typical unit cost per task, built from their
+ * committed pricing_events (see lib/pricing/suggestions.ts for the model).
+ * Requires authentication - suggestions are only ever built from the
+ * caller's own history.
+ * 
+ * Display-only: callers show the suggestion next to the price field and
+ * never write it into a line item (Phase 1 no-autofill rule). Returns
+ * enabled=false unless the user turned on show_pricing_suggestions.
+ * 
+ * Request: { items: [{ costCode?, description, unit? }] }
+ * Response: { enabled, suggestions: { [taskKey]: PricingSuggestion } }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/supabase/server'
+import { makeTaskKey } from '@/lib/pricing/makeTaskKey'
+import { getPricingSuggestions } from '@/lib/pricing/getPricingSuggestions'
+
+export const runtime = 'nodejs'
+
+const RequestBodySchema = z.object({
+  items: z.array(z.object({
+    costCode: z.string().optional().nullable(),
+    description: z.string(),
+    unit: z.string().optional().nullable()
+  })).max(500)
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    if (!user || !user.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = RequestBodySchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Validation error', 
+          details: validation.error.errors.map(e => ({
+            path: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const taskKeys: string[] = []
+    for (const item of validation.data.items) {
+      try {
+        taskKeys.push(makeTaskKey(item))
+      } catch {
+        // Items without a description have no key
+      }
+    }
+
+    const result = await getPricingSuggestions(user.id, taskKeys)
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Error in /api/pricing/suggestions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
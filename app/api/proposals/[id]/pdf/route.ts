@@ -4,6 +4,8 @@ import { loadTemplate } from "@/lib/loadTemplate"
 import { renderTemplate } from "@/lib/renderTemplate"
 import { createServerClient, requireAuth } from "@/lib/supabase/server"
 import { getProfileByUserId } from "@/lib/profile"
+import { isIncludedBySelection } from "@/lib/estimate-alternates"
+import { getIncludedSalesTax } from "@/lib/pricing/getMarkupRules"
 
 export const runtime = "nodejs"
 
@@ -113,6 +115,13 @@ export async function GET(
       exclusions?: string[]
       basis_of_estimate?: string
       notes?: string
+      base_price?: number
+      alternates?: Array<{
+        id: string
+        name: string
+        description: string | null
+        amount: number
+      }>
     } || {}
 
     // Fetch ALL line items from the estimate and separate allowances from scope work
@@ -120,6 +129,10 @@ export async function GET(
     let allowanceItems: Array<{ description: string; client_price: number }> = []
     let scopeItems: Array<{ description: string; client_price: number }> = []
     let totalAllowances = 0
+    // Items counted in total_price (base + selected alternates), for the sales tax line
+    const pricedItems: any[] = []
+    // Alternate items, keyed by alternate id (an item may belong to several)
+    const alternateItems = new Map<string, string[]>()
     
     if (proposal.estimate_id) {
       // Join with rooms to filter out excluded rooms (is_in_scope = false)
@@ -129,7 +142,14 @@ export async function GET(
           description, 
           client_price, 
           is_allowance,
+          cost_code,
+          labor_cost,
+          material_cost,
+          overhead_cost,
+          direct_cost,
+          is_active,
           room_id,
+          alternate_ids,
           rooms!estimate_line_items_room_id_fkey (
             id,
             is_in_scope
@@ -149,6 +169,22 @@ export async function GET(
           if (room && room.is_in_scope === false) {
             return // Skip excluded room items
           }
+          if (item.is_active === false) return
+
+          if (isIncludedBySelection(item.alternate_ids, proposal.selected_alternate_ids)) {
+            pricedItems.push(item)
+          }
+
+          // Alternate items are listed under their optional add-on, not the base scope
+          const itemAlternateIds: string[] = item.alternate_ids || []
+          if (itemAlternateIds.length > 0) {
+            itemAlternateIds.forEach(alternateId => {
+              const list = alternateItems.get(alternateId) || []
+              list.push(desc.trim())
+              alternateItems.set(alternateId, list)
+            })
+            return
+          }
           
           const isAllowance = item.is_allowance === true || 
                              (desc.toUpperCase().trim().startsWith('ALLOWANCE:'))
@@ -173,6 +209,24 @@ export async function GET(
       }
     }
 
+    // Sales tax on materials included in the price (same markup rules as the estimate)
+    let salesTaxIncluded = 0
+    try {
+      salesTaxIncluded = await getIncludedSalesTax(supabase, project.user_id, project.id, pricedItems)
+    } catch (taxError) {
+      console.warn("Failed to compute included sales tax:", taxError)
+    }
+
+    // Optional add-ons, flagged with the client's current selection
+    const selectedAlternateIds: string[] = proposal.selected_alternate_ids || []
+    const alternates = (bodyJson.alternates || []).map(alt => ({
+      name: alt.name,
+      description: alt.description || "",
+      amount: alt.amount || 0,
+      selected: selectedAlternateIds.includes(alt.id),
+      items: (alternateItems.get(alt.id) || []).sort((a, b) => a.localeCompare(b)),
+    }))
+
     // Get company logo URL
     const companyLogoUrl = 
       (contractorProfile as any)?.company_logo_url || 
@@ -220,6 +274,7 @@ export async function GET(
       proposal_date: proposalDate,
       proposal_version: proposal.version || 1,
       total_price: proposal.total_price || 0,
+      sales_tax_included: salesTaxIncluded,
       year: new Date().getFullYear(),
       
       // Client info
@@ -244,6 +299,11 @@ export async function GET(
       custom_inclusions: bodyJson.inclusions || [], // User-provided custom inclusions (if any)
       exclusions: bodyJson.exclusions || [],
       discussions: bodyJson.notes || "", // Store discussions in notes field
+
+      // Good / better / best alternates
+      has_alternates: alternates.length > 0,
+      base_price: bodyJson.base_price ?? proposal.total_price ?? 0,
+      alternates,
       })
     } catch (renderError) {
       console.error("Error rendering template:", renderError)
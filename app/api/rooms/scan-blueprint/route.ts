@@ -4,6 +4,7 @@ import { requireAuth } from '@/lib/supabase/server'
 import { z } from 'zod'
 import { detectLevelFromText, postProcessRooms } from '@/lib/plans/room-processor'
 import { ExtractedRoomSchema, type ExtractedRoom } from '@/lib/plans/schemas'
+import { chatJson, getLLMProvider, isLLMConfigured, type LLMProvider } from '@/lib/ai'
 
 export const runtime = 'nodejs'
 
@@ -13,12 +14,12 @@ const ScanBlueprintRequestSchema = z.object({
 })
 
 /**
- * Extract rooms from blueprint text using GPT-4o-mini.
+ * Extract rooms from blueprint text using the fast model tier.
  * Now level-aware: detects building level and produces deterministic names.
  */
 async function extractRoomsFromBlueprint(
   blueprintText: string,
-  apiKey: string
+  provider: LLMProvider
 ): Promise<ExtractedRoom[]> {
   // Detect level from the text
   const detectedLevel = detectLevelFromText('', blueprintText)
@@ -53,56 +54,19 @@ CRITICAL RULES:
 - Return empty array if no rooms found.
 - Do NOT include any pricing information.`
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        {
-          role: 'user',
-          content: `Extract all rooms from this blueprint text:\n\n${blueprintText}`,
-        },
-      ],
-      temperature: 0.1,
-      max_tokens: 2000,
-      response_format: { type: 'json_object' },
-    }),
+  const parsed = await chatJson<Record<string, unknown>>(provider, {
+    model: 'fast',
+    messages: [
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: `Extract all rooms from this blueprint text:\n\n${blueprintText}`,
+      },
+    ],
+    temperature: 0.1,
+    maxTokens: 2000,
   })
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(
-      `OpenAI API error: ${response.status} ${(errorData as { error?: { message?: string } }).error?.message || response.statusText}`
-    )
-  }
-
-  const result = await response.json()
-  const content = result.choices[0]?.message?.content
-
-  if (!content) {
-    throw new Error('No content returned from OpenAI')
-  }
-
-  // Parse JSON response
-  let parsed: Record<string, unknown>
-  try {
-    parsed = JSON.parse(content)
-  } catch {
-    // Try to extract JSON from markdown code blocks
-    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/) || content.match(/\{[\s\S]*\}/)
-    if (jsonMatch) {
-      const jsonString = jsonMatch[1] || jsonMatch[0]
-      parsed = JSON.parse(jsonString.trim())
-    } else {
-      throw new Error('Invalid JSON response from AI')
-    }
-  }
-
   // Handle both { rooms: [...] } and direct array responses
   const rawRooms = (parsed as { rooms?: unknown[] }).rooms || (Array.isArray(parsed) ? parsed : [])
 
@@ -176,17 +140,16 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Check for OpenAI API key
-    const openaiApiKey = process.env.OPENAI_API_KEY
-    if (!openaiApiKey) {
+    // Check for an AI provider
+    if (!isLLMConfigured()) {
       return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
-        { status: 500 }
+        { error: 'AI provider not configured' },
+        { status: 503 }
       )
     }
 
     // Extract rooms from blueprint text (now with level detection + deterministic naming)
-    const extractedRooms = await extractRoomsFromBlueprint(blueprintText, openaiApiKey)
+    const extractedRooms = await extractRoomsFromBlueprint(blueprintText, getLLMProvider())
 
     if (extractedRooms.length === 0) {
       return NextResponse.json({
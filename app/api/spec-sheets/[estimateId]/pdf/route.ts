@@ -7,6 +7,8 @@ import { createServiceRoleClient } from "@/lib/supabase/server";
 import { isAllowanceCostCode, getCostCodeForItem } from "@/lib/allowanceRules";
 import { getProfileByUserId } from "@/lib/profile";
 import { COST_CODES, getCostCode } from "@/lib/constants";
+import { isIncludedBySelection } from "@/lib/estimate-alternates";
+import { getIncludedSalesTax } from "@/lib/pricing/getMarkupRules";
 
 export const runtime = "nodejs";
 
@@ -645,6 +647,7 @@ export async function GET(_req: Request, context: { params: Promise<{ estimateId
 
     const jsonData = estimate.json_data as any;
     let allItems = jsonData?.items || [];
+    let salesTaxIncluded = 0;
 
     // Try to fetch line items from estimate_line_items table (authoritative source)
     // Join with rooms to filter out excluded rooms (is_in_scope = false)
@@ -684,6 +687,22 @@ export async function GET(_req: Request, context: { params: Promise<{ estimateId
         allowance_amount: item.allowance_amount || null
       }));
       console.log('[PDF] Using estimate_line_items from database:', allItems.length, 'items (after room filtering)');
+
+      // Sales tax on materials included in the prices (same markup rules as the estimate)
+      if (project?.user_id) {
+        try {
+          salesTaxIncluded = await getIncludedSalesTax(
+            supabase,
+            project.user_id,
+            project.id,
+            includedItems.filter((item: any) =>
+              item.is_active !== false && isIncludedBySelection(item.alternate_ids, estimate.selected_alternate_ids)
+            )
+          );
+        } catch (taxError) {
+          console.warn('[PDF] Could not compute included sales tax:', taxError);
+        }
+      }
     }
 
     // Fetch selections for this estimate (Phase 1: selections tab hidden but backend still works)
@@ -1029,6 +1048,7 @@ export async function GET(_req: Request, context: { params: Promise<{ estimateId
       spec_sheet_date: new Date().toLocaleDateString(),
       year: new Date().getFullYear(),
       sections: sections,
+      sales_tax_included: salesTaxIncluded,
       estimator_name: estimatorProfile?.full_name || null,
       estimator_company: estimatorProfile?.company_name || null,
       company_logo_url: companyLogoUrl,
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLLMProvider, isLLMConfigured } from '@/lib/ai'
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import { VOICE_AUDIO_BUCKET, audioExtension } from '@/lib/voice-session'
+import {
+  RECORDING_TRANSCRIPT_COLUMNS,
+  defaultSpeakerRoles,
+  storagePathFromPublicUrl,
+  toRecordingTranscript,
+  toTranscriptSegments,
+} from '@/lib/diarized-transcript'
+import type { TranscriptSegment } from '@/types/db'
+
+export const runtime = 'nodejs' // Disable Edge runtime for AI provider compatibility
+
+/**
+ * Transcribe a saved walkthrough recording with speaker labels.
+ *
+ * Body: { uploadId } — an audio `uploads` row in the audio-uploads bucket.
+ * The diarized segments, a first guess at speaker roles and the plain
+ * transcript are stored on the upload. Responds with { data:
+ * RecordingTranscript }; a recording that is already transcribed returns
+ * the stored result.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { uploadId } = await request.json()
+    if (!uploadId || typeof uploadId !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid uploadId' }, { status: 400 })
+    }
+
+    await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: upload } = await supabase
+      .from('uploads')
+      .select(RECORDING_TRANSCRIPT_COLUMNS)
+      .eq('id', uploadId)
+      .maybeSingle()
+
+    if (!upload || upload.kind !== 'audio') {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 })
+    }
+
+    if (upload.transcript_status === 'ready') {
+      return NextResponse.json({ data: toRecordingTranscript(upload) })
+    }
+
+    if (!isLLMConfigured()) {
+      return NextResponse.json({ error: 'AI provider not configured' }, { status: 503 })
+    }
+
+    const storagePath = storagePathFromPublicUrl(upload.file_url, VOICE_AUDIO_BUCKET)
+    if (!storagePath) {
+      return NextResponse.json({ error: 'Recording is not stored in the audio bucket' }, { status: 400 })
+    }
+
+    await supabase.from('uploads').update({ transcript_status: 'processing' }).eq('id', uploadId)
+
+    const { data: audio, error: downloadError } = await supabase.storage
+      .from(VOICE_AUDIO_BUCKET)
+      .download(storagePath)
+
+    if (downloadError || !audio) {
+      await supabase.from('uploads').update({ transcript_status: 'failed' }).eq('id', uploadId)
+      throw new Error(`Failed to read recording: ${downloadError?.message || 'empty file'}`)
+    }
+
+    let segments: TranscriptSegment[]
+    let text: string
+    try {
+      const result = await getLLMProvider().transcribe({
+        audio,
+        filename: `recording.${audioExtension(audio.type)}`,
+        language: 'en',
+        diarize: true,
+      })
+      segments = toTranscriptSegments(result.segments || [])
+      text = result.text
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transcription failed'
+      await supabase.from('uploads').update({ transcript_status: 'failed' }).eq('id', uploadId)
+      return NextResponse.json({ error: message, retryable: true }, { status: 502 })
+    }
+
+    const { speakerRoles, authoritativeSpeakers } = defaultSpeakerRoles(segments)
+
+    const { data: updated, error: updateError } = await supabase
+      .from('uploads')
+      .update({
+        transcript: text,
+        transcript_segments: segments,
+        transcript_status: 'ready',
+        speaker_roles: speakerRoles,
+        authoritative_speakers: authoritativeSpeakers,
+      })
+      .eq('id', uploadId)
+      .select(RECORDING_TRANSCRIPT_COLUMNS)
+      .single()
+
+    if (updateError) {
+      throw new Error(`Failed to save transcript: ${updateError.message}`)
+    }
+
+    return NextResponse.json({ data: toRecordingTranscript(updated) })
+  } catch (error) {
+    console.error('Diarized transcription API error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Transcription failed' },
+      { status: 500 }
+    )
+  }
+}
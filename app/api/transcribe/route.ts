@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getLLMProvider, isLLMConfigured } from '@/lib/ai'
 
-export const runtime = 'nodejs' // Disable Edge runtime for OpenAI API compatibility
+export const runtime = 'nodejs' // Disable Edge runtime for AI provider compatibility
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,17 +16,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if OpenAI API key is available
-    const openaiApiKey = process.env.OPENAI_API_KEY
-    
-    if (openaiApiKey) {
-      // Use OpenAI Whisper API for accurate transcription
+    // Check if an AI provider is available
+    if (isLLMConfigured()) {
+      // Use the provider's speech-to-text for accurate transcription
       try {
-        const transcription = await transcribeWithOpenAI(audioFile, openaiApiKey)
-        return NextResponse.json({ transcript: transcription })
+        const { text } = await getLLMProvider().transcribe({
+          audio: audioFile,
+          filename: audioFile.name,
+          language: 'en',
+        })
+        return NextResponse.json({ transcript: text || 'No transcription available' })
       } catch (error) {
-        console.error('OpenAI transcription error:', error)
-        // Fall back to client transcript if OpenAI fails
+        console.error('AI transcription error:', error)
+        // Fall back to client transcript if the provider fails
         const clientTranscript = formData.get('transcript') as string
         return NextResponse.json({ 
           transcript: clientTranscript || 'Transcription failed' 
@@ -46,35 +49,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-async function transcribeWithOpenAI(audioFile: File, apiKey: string): Promise<string> {
-  // Convert File to Buffer
-  const arrayBuffer = await audioFile.arrayBuffer()
-  const buffer = Buffer.from(arrayBuffer)
-  
-  // Create FormData for OpenAI API
-  const formData = new FormData()
-  formData.append('file', new Blob([buffer], { type: audioFile.type }), audioFile.name)
-  formData.append('model', 'whisper-1')
-  formData.append('language', 'en')
-  formData.append('response_format', 'json')
-
-  // Call OpenAI Whisper API
-  const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: formData,
-  })
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(`OpenAI API error: ${response.status} ${errorData.error?.message || response.statusText}`)
-  }
-
-  const result = await response.json()
-  return result.text || 'No transcription available'
-}
-
-
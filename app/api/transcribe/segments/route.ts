@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLLMProvider, isLLMConfigured } from '@/lib/ai'
+import { createServerClient, requireAuth } from '@/lib/supabase/server'
+import {
+  VOICE_AUDIO_BUCKET,
+  audioExtension,
+  joinSegmentTranscripts,
+  segmentStoragePath,
+  transcriptTail,
+} from '@/lib/voice-session'
+
+export const runtime = 'nodejs' // Disable Edge runtime for AI provider compatibility
+
+/**
+ * Transcribe one segment of a streaming recording.
+ *
+ * Multipart fields:
+ * - audio: the segment (a complete, independently decodable file)
+ * - seq: segment number, from 0
+ * - sessionId: optional voice session. With a session the audio is stored
+ *   and the transcript persisted, and a retried seq returns the stored
+ *   transcript instead of transcribing again. Without one the segment is
+ *   transcribed and discarded (dictation).
+ * - previousText: optional transcript tail for sessionless calls, used as a
+ *   continuity hint across segment boundaries
+ * - transcript: optional client-side (Web Speech) transcript, the fallback
+ *   when no AI provider is configured
+ * - durationMs: optional segment length
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const audioFile = formData.get('audio') as File | null
+    const seq = Number(formData.get('seq'))
+    const sessionId = (formData.get('sessionId') as string | null) || null
+    const clientTranscript = ((formData.get('transcript') as string | null) || '').trim()
+    const durationMs = Number(formData.get('durationMs')) || null
+
+    if (!audioFile) {
+      return NextResponse.json({ error: 'No audio file provided' }, { status: 400 })
+    }
+    if (!Number.isInteger(seq) || seq < 0) {
+      return NextResponse.json({ error: 'Missing or invalid seq' }, { status: 400 })
+    }
+
+    if (!sessionId) {
+      const previousText = ((formData.get('previousText') as string | null) || '').trim()
+      const transcript = await transcribeSegment(audioFile, previousText, clientTranscript)
+      return NextResponse.json({ seq, transcript })
+    }
+
+    const user = await requireAuth()
+    const supabase = await createServerClient()
+
+    const { data: session } = await supabase
+      .from('voice_sessions')
+      .select('id, status, mime_type')
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!session) {
+      return NextResponse.json({ error: 'Voice session not found' }, { status: 404 })
+    }
+    if (session.status !== 'recording') {
+      return NextResponse.json({ error: `Voice session is ${session.status}` }, { status: 409 })
+    }
+
+    const { data: segments } = await supabase
+      .from('voice_session_segments')
+      .select('seq, transcript, status')
+      .eq('session_id', sessionId)
+
+    // Retried upload of a segment that already made it
+    const existing = (segments || []).find((segment: any) => segment.seq === seq)
+    if (existing?.status === 'transcribed') {
+      return NextResponse.json({ seq, transcript: existing.transcript || '' })
+    }
+
+    const mimeType = audioFile.type || session.mime_type || 'audio/webm'
+    const storagePath = segmentStoragePath(user.id, sessionId, seq, mimeType)
+
+    if (!existing) {
+      const { error: uploadError } = await supabase.storage
+        .from(VOICE_AUDIO_BUCKET)
+        .upload(storagePath, audioFile, { contentType: mimeType, upsert: false })
+
+      // An earlier attempt may have stored the audio before failing
+      if (uploadError && !/exists|duplicate/i.test(uploadError.message)) {
+        throw new Error(`Failed to store audio segment: ${uploadError.message}`)
+      }
+
+      const { error: insertError } = await supabase
+        .from('voice_session_segments')
+        .upsert({
+          session_id: sessionId,
+          user_id: user.id,
+          seq,
+          storage_path: storagePath,
+          duration_ms: durationMs,
+          status: 'uploaded',
+        }, { onConflict: 'session_id,seq' })
+
+      if (insertError) {
+        throw new Error(`Failed to save audio segment: ${insertError.message}`)
+      }
+    }
+
+    // Earlier segments' text keeps names and trade terms consistent across cuts
+    const previousText = transcriptTail(joinSegmentTranscripts(
+      (segments || []).filter((segment: any) => segment.seq < seq)
+    ))
+
+    let transcript: string
+    try {
+      transcript = await transcribeSegment(audioFile, previousText, clientTranscript, true)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transcription failed'
+      await supabase
+        .from('voice_session_segments')
+        .update({ status: 'failed', error: message })
+        .eq('session_id', sessionId)
+        .eq('seq', seq)
+      return NextResponse.json({ error: message, retryable: true }, { status: 502 })
+    }
+
+    const { error: updateError } = await supabase
+      .from('voice_session_segments')
+      .update({ transcript, status: 'transcribed', error: null })
+      .eq('session_id', sessionId)
+      .eq('seq', seq)
+
+    if (updateError) {
+      throw new Error(`Failed to save segment transcript: ${updateError.message}`)
+    }
+
+    return NextResponse.json({ seq, transcript })
+  } catch (error) {
+    console.error('Segment transcription API error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Transcription failed' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Transcribe with the AI provider, falling back to the client transcript.
+ * With `throwOnFailure` a provider error is rethrown when there is no
+ * client transcript, so the caller can ask for a retry.
+ */
+async function transcribeSegment(
+  audio: File,
+  previousText: string,
+  clientTranscript: string,
+  throwOnFailure = false
+): Promise<string> {
+  if (!isLLMConfigured()) {
+    return clientTranscript
+  }
+
+  try {
+    const { text } = await getLLMProvider().transcribe({
+      audio,
+      filename: audio.name || `segment.${audioExtension(audio.type)}`,
+      language: 'en',
+      prompt: previousText || undefined,
+    })
+    return (text || '').trim()
+  } catch (error) {
+    console.error('AI segment transcription error:', error)
+    if (clientTranscript || !throwOnFailure) return clientTranscript
+    throw error
+  }
+}
@@ -8,6 +8,7 @@ import { useRouter } from "next/navigation"
 import { useSidebar } from "@/lib/sidebar-context"
 // Phase 1: PricingSetupModal removed per PHASE_1_RELEASE_CHECKLIST.md
 import { EstimationAccuracyWidget } from "@/components/dashboard/EstimationAccuracyWidget"
+import { ArAgingWidget } from "@/components/dashboard/ArAgingWidget"
 
 export default function DashboardPage() {
   const router = useRouter()
@@ -47,6 +48,8 @@ export default function DashboardPage() {
                   </Button>
                 </CardContent>
               </Card>
+
+              <ArAgingWidget />
             </div>
           </div>
         </div>
@@ -3,6 +3,8 @@ import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import { AuthProvider } from "@/lib/auth-context"
 import { SidebarProvider } from "@/lib/sidebar-context"
+import { OfflineProvider } from "@/lib/offline-context"
+import { OutboxStatus } from "@/components/offline/OutboxStatus"
 import { Toaster } from "sonner"
 import "./globals.css"
 
@@ -11,7 +13,7 @@ const inter = Inter({ subsets: ["latin"] })
 export const metadata: Metadata = {
   title: "Estimatix - AI-Assisted Contractor Estimating",
   description: "Generate accurate project estimates through voice recording powered by AI",
-  manifest: "/manifest.json", // TODO: Create manifest.json for PWA
+  manifest: "/manifest.json",
 }
 
 export default function RootLayout({
@@ -24,11 +26,13 @@ export default function RootLayout({
       <body className={`${inter.className} overflow-x-hidden max-w-[100vw]`}>
         <AuthProvider>
           <SidebarProvider>
-            {children}
+            <OfflineProvider>
+              {children}
+              <OutboxStatus />
+            </OfflineProvider>
           </SidebarProvider>
         </AuthProvider>
         <Toaster />
-        {/* TODO: Add service worker registration script */}
       </body>
     </html>
   )
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
@@ -12,20 +13,12 @@ import { AuthGuard } from '@/components/auth-guard'
 import { useAuth } from '@/lib/auth-context'
 import { supabase } from '@/lib/supabase/client'
 import { toast } from 'sonner'
+import { LaborRatesManager } from '@/components/onboarding/LaborRatesManager'
+import { COST_REGIONS } from '@/lib/pricing/regional-cost-index'
 
-const REGIONS = [
-  'Seattle',
-  'Bay Area',
-  'Los Angeles',
-  'San Diego',
-  'Portland',
-  'Phoenix',
-  'Denver',
-  'Dallas',
-  'Chicago',
-  'Miami',
-  'National'
-]
+// Region names match the regional cost index so projects without a ZIP
+// code still get location factors
+const REGIONS = COST_REGIONS.map(region => region.name)
 
 const QUALITY_OPTIONS = [
   'Budget',
@@ -55,6 +48,7 @@ interface UserProfileSettings {
   quality: string | null
   default_margin: number | null
   main_trades: string[] | null
+  show_pricing_suggestions: boolean
 }
 
 export default function PricingOnboardingPage() {
@@ -67,6 +61,7 @@ export default function PricingOnboardingPage() {
   const [quality, setQuality] = useState<string>('')
   const [defaultMargin, setDefaultMargin] = useState<number>(20)
   const [selectedTrades, setSelectedTrades] = useState<string[]>([])
+  const [showPricingSuggestions, setShowPricingSuggestions] = useState(false)
   
   const [originalSettings, setOriginalSettings] = useState<UserProfileSettings | null>(null)
   const [hasChanges, setHasChanges] = useState(false)
@@ -95,12 +90,14 @@ export default function PricingOnboardingPage() {
           setQuality(data.quality || '')
           setDefaultMargin(data.default_margin || 20)
           setSelectedTrades(data.main_trades || [])
+          setShowPricingSuggestions(data.show_pricing_suggestions === true)
           
           setOriginalSettings({
             region: data.region,
             quality: data.quality,
             default_margin: data.default_margin,
-            main_trades: data.main_trades
+            main_trades: data.main_trades,
+            show_pricing_suggestions: data.show_pricing_suggestions === true
           })
         }
       } catch (err) {
@@ -117,7 +114,7 @@ export default function PricingOnboardingPage() {
   useEffect(() => {
     if (!originalSettings) {
       // If no original settings, enable save if any field is filled
-      const hasAnyValue = Boolean(region || quality || defaultMargin !== 20 || selectedTrades.length > 0)
+      const hasAnyValue = Boolean(region || quality || defaultMargin !== 20 || selectedTrades.length > 0 || showPricingSuggestions)
       setHasChanges(hasAnyValue)
       return
     }
@@ -126,17 +123,19 @@ export default function PricingOnboardingPage() {
       region: region || null,
       quality: quality || null,
       default_margin: defaultMargin,
-      main_trades: selectedTrades.length > 0 ? selectedTrades : null
+      main_trades: selectedTrades.length > 0 ? selectedTrades : null,
+      show_pricing_suggestions: showPricingSuggestions
     }
 
     const changed = 
       originalSettings.region !== currentSettings.region ||
       originalSettings.quality !== currentSettings.quality ||
       Math.abs((originalSettings.default_margin || 20) - (currentSettings.default_margin || 20)) > 0.01 ||
-      JSON.stringify((originalSettings.main_trades || []).sort()) !== JSON.stringify((currentSettings.main_trades || []).sort())
+      JSON.stringify((originalSettings.main_trades || []).sort()) !== JSON.stringify((currentSettings.main_trades || []).sort()) ||
+      originalSettings.show_pricing_suggestions !== currentSettings.show_pricing_suggestions
 
     setHasChanges(changed)
-  }, [region, quality, defaultMargin, selectedTrades, originalSettings])
+  }, [region, quality, defaultMargin, selectedTrades, showPricingSuggestions, originalSettings])
 
   const handleTradeToggle = (trade: string) => {
     setSelectedTrades(prev => {
@@ -164,7 +163,8 @@ export default function PricingOnboardingPage() {
           region: region || null,
           quality: quality || null,
           default_margin: defaultMargin,
-          main_trades: selectedTrades.length > 0 ? selectedTrades : null
+          main_trades: selectedTrades.length > 0 ? selectedTrades : null,
+          show_pricing_suggestions: showPricingSuggestions
         }, {
           onConflict: 'user_id'
         })
@@ -173,55 +173,20 @@ export default function PricingOnboardingPage() {
         throw new Error(`Failed to save settings: ${settingsError.message}`)
       }
 
-      // Update user_margin_rules with default margin rule
-      const minMargin = Math.round(defaultMargin * 0.75 * 100) / 100
-      const maxMargin = Math.round(defaultMargin * 1.25 * 100) / 100
-
-      // First, check if default rule exists
-      const { data: existingRules, error: checkError } = await supabase
+      // Default margin is the profit layer of the global markup rule
+      const { error: marginError } = await supabase
         .from('user_margin_rules')
-        .select('id')
-        .eq('user_id', user.id)
-        .eq('rule_name', 'Default')
-        .maybeSingle()
+        .upsert({
+          user_id: user.id,
+          scope: 'all',
+          margin_percent: defaultMargin
+        }, {
+          onConflict: 'user_id,scope'
+        })
 
-      if (checkError && checkError.code !== 'PGRST116') {
-        console.error('Error checking for existing margin rule:', checkError)
-      }
-
-      if (existingRules && existingRules.id) {
-        // Update existing rule
-        const { error: updateError } = await supabase
-          .from('user_margin_rules')
-          .update({
-            default_margin: defaultMargin,
-            min_margin: minMargin,
-            max_margin: maxMargin,
-            applies_to_cost_codes: null
-          })
-          .eq('id', existingRules.id)
-
-        if (updateError) {
-          console.error('Error updating margin rule:', updateError)
-          // Don't throw - settings saved successfully
-        }
-      } else {
-        // Create new rule
-        const { error: insertError } = await supabase
-          .from('user_margin_rules')
-          .insert({
-            user_id: user.id,
-            rule_name: 'Default',
-            default_margin: defaultMargin,
-            min_margin: minMargin,
-            max_margin: maxMargin,
-            applies_to_cost_codes: null
-          })
-
-        if (insertError) {
-          console.error('Error creating margin rule:', insertError)
-          // Don't throw - settings saved successfully
-        }
+      if (marginError) {
+        console.error('Error saving margin rule:', marginError)
+        // Don't throw - settings saved successfully
       }
 
       // Update original settings to reflect saved state
@@ -229,7 +194,8 @@ export default function PricingOnboardingPage() {
         region: region || null,
         quality: quality || null,
         default_margin: defaultMargin,
-        main_trades: selectedTrades.length > 0 ? selectedTrades : null
+        main_trades: selectedTrades.length > 0 ? selectedTrades : null,
+        show_pricing_suggestions: showPricingSuggestions
       })
 
       toast.success('Settings saved successfully!')
@@ -256,7 +222,7 @@ export default function PricingOnboardingPage() {
 
   return (
     <AuthGuard>
-      <div className="flex min-h-screen w-full max-w-[100vw] overflow-x-hidden items-center justify-center bg-muted/50 p-4">
+      <div className="flex min-h-screen w-full max-w-[100vw] overflow-x-hidden flex-col items-center justify-center bg-muted/50 p-4">
         <Card className="w-full max-w-2xl">
           <CardHeader>
             <CardTitle className="text-2xl">Pricing Setup</CardTitle>
@@ -320,7 +286,10 @@ export default function PricingOnboardingPage() {
                   <span className="text-muted-foreground">%</span>
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  Your default margin will be used for estimates when no specific rule applies.
+                  Your default margin will be used for estimates when no specific rule applies.{' '}
+                  <Link href="/settings/markup" className="text-primary hover:underline">
+                    Overhead, contingency, sales tax and trade markups
+                  </Link>
                 </p>
               </div>
             </div>
@@ -350,6 +319,29 @@ export default function PricingOnboardingPage() {
               </div>
             </div>
 
+            {/* Pricing Suggestions */}
+            <div className="space-y-2">
+              <Label>Pricing Suggestions</Label>
+              <div className="flex items-start space-x-2 p-4 border rounded-lg">
+                <Checkbox
+                  id="show-pricing-suggestions"
+                  checked={showPricingSuggestions}
+                  onCheckedChange={(checked) => setShowPricingSuggestions(checked === true)}
+                />
+                <div className="space-y-1">
+                  <label
+                    htmlFor="show-pricing-suggestions"
+                    className="text-sm font-medium leading-none cursor-pointer"
+                  >
+                    Show my typical prices while estimating
+                  </label>
+                  <p className="text-sm text-muted-foreground">
+                    Displays what you usually charge for a task, based on your finalized bids and signed contracts. Prices are never filled in for you.
+                  </p>
+                </div>
+              </div>
+            </div>
+
             {/* Save Button */}
             <div className="flex justify-end gap-4 pt-4">
               <Button
@@ -374,6 +366,18 @@ export default function PricingOnboardingPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Card className="w-full max-w-2xl mt-6">
+          <CardHeader>
+            <CardTitle>Labor Rates</CardTitle>
+            <CardDescription>
+              Your crews by trade. Line items with hours per unit use these rates to calculate labor cost.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LaborRatesManager />
+          </CardContent>
+        </Card>
       </div>
     </AuthGuard>
   )
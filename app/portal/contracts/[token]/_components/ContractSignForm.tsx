@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CheckCircle2, FileSignature, Loader2 } from "lucide-react"
+import type { SigningContract } from "@/lib/contract-signing"
+
+interface ContractSignFormProps {
+  token: string
+  contract: SigningContract
+}
+
+const formatDateTime = (value: string | null) => {
+  if (!value) return ''
+  return new Date(value).toLocaleString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Typed-name signature for the public contract signing page
+ */
+export function ContractSignForm({ token, contract }: ContractSignFormProps) {
+  const [signerName, setSignerName] = useState('')
+  const [agreed, setAgreed] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [signed, setSigned] = useState<{ name: string; at: string } | null>(
+    contract.client_signed_at
+      ? { name: contract.client_signer_name || '', at: contract.client_signed_at }
+      : null
+  )
+
+  const submit = async () => {
+    setError(null)
+
+    if (!signerName.trim()) {
+      setError('Please type your full name to sign')
+      return
+    }
+    if (!agreed) {
+      setError('Please confirm that your typed name is your electronic signature')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/portal/contracts/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          signer_name: signerName,
+          agreed: true,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign the contract')
+      }
+
+      setSigned({ name: signerName.trim(), at: data.signed_at })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign the contract')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (signed) {
+    const fullySigned = contract.status === 'signed'
+    return (
+      <Card>
+        <CardContent className="py-8 text-center space-y-2">
+          <CheckCircle2 className="mx-auto h-10 w-10 text-green-600" />
+          <h3 className="text-lg font-semibold">
+            {fullySigned ? 'Contract fully signed' : 'Contract signed'}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Signed by {signed.name || 'client'} on {formatDateTime(signed.at)}.
+            {fullySigned
+              ? ` Countersigned by ${contract.contractor_signer_name || 'your contractor'}.`
+              : ' Your contractor will countersign and you can download the final copy from this page.'}
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (contract.status !== 'sent') {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <p className="text-sm text-muted-foreground">
+            This contract is not open for signature. Please contact your contractor.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign Contract</CardTitle>
+        <CardDescription>
+          Type your full name to sign. Your name, the date and time, your IP address and device are recorded on the signature certificate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div>
+          <Label htmlFor="contract-signer-name">Full name</Label>
+          <Input
+            id="contract-signer-name"
+            value={signerName}
+            onChange={(e) => setSignerName(e.target.value)}
+            placeholder={contract.project.client_name || 'Your full name'}
+            autoComplete="name"
+          />
+        </div>
+
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="contract-agree"
+            checked={agreed}
+            onCheckedChange={(checked) => setAgreed(checked === true)}
+            className="mt-0.5"
+          />
+          <label htmlFor="contract-agree" className="text-sm text-muted-foreground">
+            I have read the contract and agree that typing my name above is my electronic signature.
+          </label>
+        </div>
+
+        <Button
+          onClick={submit}
+          disabled={submitting}
+          className="min-h-[44px] w-full"
+        >
+          {submitting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <FileSignature className="mr-2 h-4 w-4" />
+          )}
+          Sign Contract
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
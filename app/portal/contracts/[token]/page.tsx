@@ -0,0 +1,127 @@
+import { headers } from "next/headers"
+import { notFound } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { FileText } from "lucide-react"
+import { getSigningContract, recordContractView } from "@/lib/contract-signing"
+import { getClientIp } from "@/lib/proposal-portal"
+import { ContractSignForm } from "./_components/ContractSignForm"
+
+export const dynamic = "force-dynamic"
+
+const formatCurrency = (value: number | null | undefined) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value || 0)
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '—'
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+/**
+ * Public signing page for a contract (no login - the token in the URL is the
+ * credential). Every visit is logged as a 'viewed' contract event.
+ */
+export default async function ContractSigningPage({
+  params,
+}: {
+  params: Promise<{ token: string }>
+}) {
+  const { token } = await params
+  const contract = await getSigningContract(token)
+
+  if (!contract) {
+    notFound()
+  }
+
+  const requestHeaders = await headers()
+  await recordContractView(token, {
+    ip: getClientIp(requestHeaders),
+    userAgent: requestHeaders.get('user-agent'),
+  })
+
+  const { contractor, project } = contract
+
+  return (
+    <div className="min-h-screen bg-muted/30 px-4 py-8 md:py-12">
+      <div className="mx-auto max-w-3xl space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-1">
+          {contractor.company && (
+            <div className="text-2xl md:text-3xl font-bold tracking-wide">{contractor.company}</div>
+          )}
+          <div className="text-lg font-semibold">{project.name}</div>
+          {project.address && (
+            <div className="text-sm text-muted-foreground">{project.address}</div>
+          )}
+          <div className="text-sm text-muted-foreground">
+            Construction Contract · Sent {formatDate(contract.sent_at)}
+          </div>
+        </div>
+
+        {/* Contract summary */}
+        <Card>
+          <CardContent className="py-6 text-center space-y-2">
+            <p className="text-sm text-muted-foreground">Contract amount</p>
+            <div className="text-3xl md:text-4xl font-bold">{formatCurrency(contract.total_price)}</div>
+            <p className="text-sm text-muted-foreground">
+              Down payment {formatCurrency(contract.down_payment)}
+              {contract.start_date && <> · Starts {formatDate(contract.start_date)}</>}
+              {contract.completion_date && <> · Completes {formatDate(contract.completion_date)}</>}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Payment schedule */}
+        {contract.payment_schedule.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Payment Schedule</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {contract.payment_schedule.map((milestone, idx) => (
+                <div key={idx} className="flex items-center justify-between gap-4 text-sm">
+                  <span>{milestone.milestone || milestone.description || `Payment ${idx + 1}`}</span>
+                  <span className="font-medium tabular-nums whitespace-nowrap">{formatCurrency(milestone.amount)}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Full document */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Contract Document</CardTitle>
+            <CardDescription>Please read the full contract, including the terms and conditions, before signing</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="min-h-[44px]">
+              <a href={`/api/portal/contracts/${token}/pdf`} target="_blank" rel="noopener noreferrer">
+                <FileText className="mr-2 h-4 w-4" />
+                View Contract (PDF)
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Signature */}
+        <ContractSignForm token={token} contract={contract} />
+
+        {/* Contractor footer */}
+        <div className="text-center text-xs text-muted-foreground space-x-2">
+          {contractor.company && <span>{contractor.company}</span>}
+          {contractor.name && <span>· {contractor.name}</span>}
+          {contractor.phone && <span>· Ph: {contractor.phone}</span>}
+        </div>
+      </div>
+    </div>
+  )
+}
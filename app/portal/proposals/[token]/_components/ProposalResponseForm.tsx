@@ -0,0 +1,235 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CheckCircle2, XCircle, Loader2 } from "lucide-react"
+import type { PortalProposal } from "@/lib/proposal-portal"
+
+interface ProposalResponseFormProps {
+  token: string
+  proposal: PortalProposal
+}
+
+const formatCurrency = (value: number | null | undefined) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value || 0)
+
+/**
+ * Optional add-on selection plus typed-name accept / decline for the
+ * public proposal portal
+ */
+export function ProposalResponseForm({ token, proposal }: ProposalResponseFormProps) {
+  const [selected, setSelected] = useState<string[]>(proposal.selected_alternate_ids)
+  const [signerName, setSignerName] = useState('')
+  const [comments, setComments] = useState('')
+  const [agreed, setAgreed] = useState(false)
+  const [submitting, setSubmitting] = useState<'approve' | 'reject' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [outcome, setOutcome] = useState<{ status: 'approved' | 'rejected'; total: number; name: string } | null>(
+    proposal.status === 'approved' || proposal.status === 'rejected'
+      ? { status: proposal.status, total: proposal.total_price, name: proposal.signer_name || '' }
+      : null
+  )
+
+  // Preview only - the server prices the selection without double-counting shared items
+  const previewTotal = proposal.alternates.length > 0
+    ? proposal.base_price + proposal.alternates
+        .filter(alt => selected.includes(alt.id))
+        .reduce((sum, alt) => sum + (alt.amount || 0), 0)
+    : proposal.total_price
+
+  const toggle = (alternateId: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, alternateId] : prev.filter(id => id !== alternateId))
+  }
+
+  const submit = async (decision: 'approve' | 'reject') => {
+    setError(null)
+
+    if (!signerName.trim()) {
+      setError('Please type your full name to sign')
+      return
+    }
+    if (!agreed) {
+      setError('Please confirm that your typed name is your electronic signature')
+      return
+    }
+
+    setSubmitting(decision)
+    try {
+      const response = await fetch(`/api/portal/proposals/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          decision,
+          signer_name: signerName,
+          comments: comments || null,
+          selected_alternate_ids: decision === 'approve' ? selected : undefined,
+          agreed: true,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit your response')
+      }
+
+      setOutcome({ status: data.status, total: data.total_price, name: signerName.trim() })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit your response')
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  if (outcome) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center space-y-2">
+          {outcome.status === 'approved' ? (
+            <>
+              <CheckCircle2 className="mx-auto h-10 w-10 text-green-600" />
+              <h3 className="text-lg font-semibold">Proposal accepted</h3>
+              <p className="text-sm text-muted-foreground">
+                Signed by {outcome.name || 'client'} for {formatCurrency(outcome.total)}.
+                Your contractor will follow up with the contract.
+              </p>
+            </>
+          ) : (
+            <>
+              <XCircle className="mx-auto h-10 w-10 text-muted-foreground" />
+              <h3 className="text-lg font-semibold">Proposal declined</h3>
+              <p className="text-sm text-muted-foreground">
+                Thank you for letting us know. Your contractor has been notified.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <>
+      {proposal.alternates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Optional Add-Ons</CardTitle>
+            <CardDescription>Select any add-ons you would like included</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {proposal.alternates.map(alt => (
+              <div key={alt.id} className="flex items-start justify-between gap-3 text-sm">
+                <div className="flex items-start gap-2 min-w-0">
+                  <Checkbox
+                    id={`portal-alternate-${alt.id}`}
+                    checked={selected.includes(alt.id)}
+                    onCheckedChange={(checked) => toggle(alt.id, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <label htmlFor={`portal-alternate-${alt.id}`} className="min-w-0">
+                    <span className="font-medium">{alt.name}</span>
+                    {alt.description && (
+                      <span className="block text-xs text-muted-foreground">{alt.description}</span>
+                    )}
+                  </label>
+                </div>
+                <span className="tabular-nums whitespace-nowrap">+{formatCurrency(alt.amount)}</span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between border-t pt-3 font-semibold">
+              <span>Total</span>
+              <span className="tabular-nums">{formatCurrency(previewTotal)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accept or Decline</CardTitle>
+          <CardDescription>
+            Type your full name to sign. Your name, the date and time, and your IP address are recorded with your response.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-800">{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div>
+            <Label htmlFor="portal-signer-name">Full name</Label>
+            <Input
+              id="portal-signer-name"
+              value={signerName}
+              onChange={(e) => setSignerName(e.target.value)}
+              placeholder={proposal.project.client_name || 'Your full name'}
+              autoComplete="name"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="portal-comments">Comments (optional)</Label>
+            <Textarea
+              id="portal-comments"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Questions or notes for your contractor"
+              rows={3}
+            />
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="portal-agree"
+              checked={agreed}
+              onCheckedChange={(checked) => setAgreed(checked === true)}
+              className="mt-0.5"
+            />
+            <label htmlFor="portal-agree" className="text-sm text-muted-foreground">
+              I agree that typing my name above is my electronic signature on this response.
+            </label>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button
+              onClick={() => submit('approve')}
+              disabled={submitting !== null}
+              className="min-h-[44px] sm:flex-1"
+            >
+              {submitting === 'approve' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+              )}
+              Accept {formatCurrency(previewTotal)}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => submit('reject')}
+              disabled={submitting !== null}
+              className="min-h-[44px] sm:flex-1"
+            >
+              {submitting === 'reject' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <XCircle className="mr-2 h-4 w-4" />
+              )}
+              Decline
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
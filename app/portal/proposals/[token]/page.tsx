@@ -0,0 +1,154 @@
+import { headers } from "next/headers"
+import { notFound } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { getClientIp, getPortalProposal, recordPortalView } from "@/lib/proposal-portal"
+import { ProposalResponseForm } from "./_components/ProposalResponseForm"
+
+export const dynamic = "force-dynamic"
+
+const formatCurrency = (value: number | null | undefined) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value || 0)
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '—'
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+/**
+ * Public client portal for a shared proposal (no login - the token in the
+ * URL is the credential). Every visit is logged as a 'viewed' event.
+ */
+export default async function ProposalPortalPage({
+  params,
+}: {
+  params: Promise<{ token: string }>
+}) {
+  const { token } = await params
+  const proposal = await getPortalProposal(token)
+
+  if (!proposal) {
+    notFound()
+  }
+
+  const requestHeaders = await headers()
+  await recordPortalView(token, {
+    ip: getClientIp(requestHeaders),
+    userAgent: requestHeaders.get('user-agent'),
+  })
+
+  const { contractor, project } = proposal
+
+  return (
+    <div className="min-h-screen bg-muted/30 px-4 py-8 md:py-12">
+      <div className="mx-auto max-w-3xl space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-1">
+          {contractor.company && (
+            <div className="text-2xl md:text-3xl font-bold tracking-wide">{contractor.company}</div>
+          )}
+          <div className="text-lg font-semibold">{project.name}</div>
+          {project.address && (
+            <div className="text-sm text-muted-foreground">{project.address}</div>
+          )}
+          <div className="text-sm text-muted-foreground">
+            {proposal.title} · v{proposal.version} · {formatDate(proposal.created_at)}
+          </div>
+        </div>
+
+        {/* Total */}
+        <Card>
+          <CardContent className="py-6 text-center space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {proposal.basis_of_estimate || 'The total estimated budget for this project is:'}
+            </p>
+            <div className="text-3xl md:text-4xl font-bold">{formatCurrency(proposal.total_price)}</div>
+            {proposal.alternates.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Base price {formatCurrency(proposal.base_price)}, plus any optional add-ons you select below.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Scope of work */}
+        {(proposal.inclusions.length > 0 || proposal.scope_items.length > 0) && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Scope of Work</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="list-disc pl-5 space-y-1 text-sm">
+                {(proposal.inclusions.length > 0 ? proposal.inclusions : proposal.scope_items).map((item, idx) => (
+                  <li key={idx}>{item}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Allowances */}
+        {proposal.allowances.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Allowances</CardTitle>
+              <CardDescription>This proposal includes the following allowances</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {proposal.allowances.map((allowance, idx) => (
+                <div key={idx} className="flex items-center justify-between gap-4 text-sm">
+                  <span>{allowance.description}</span>
+                  <span className="font-medium tabular-nums whitespace-nowrap">{formatCurrency(allowance.amount)}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Exclusions */}
+        {proposal.exclusions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Exclusions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="list-disc pl-5 space-y-1 text-sm">
+                {proposal.exclusions.map((item, idx) => (
+                  <li key={idx}>{item}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        {proposal.notes && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Notes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm whitespace-pre-line">{proposal.notes}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Add-ons + accept / decline */}
+        <ProposalResponseForm token={token} proposal={proposal} />
+
+        {/* Contractor footer */}
+        <div className="text-center text-xs text-muted-foreground space-x-2">
+          {contractor.company && <span>{contractor.company}</span>}
+          {contractor.name && <span>· {contractor.name}</span>}
+          {contractor.phone && <span>· Ph: {contractor.phone}</span>}
+        </div>
+      </div>
+    </div>
+  )
+}
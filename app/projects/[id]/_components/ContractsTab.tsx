@@ -9,9 +9,11 @@ import { supabase } from "@/lib/supabase/client"
 import { toast } from 'sonner'
 import { startJobFromContract } from '@/actions/start-job'
 import type { Project } from "@/types/db"
-import { FileText, Play, Plus, RefreshCcw, Loader2 } from "lucide-react"
+import { FileText, Play, Plus, RefreshCcw, Loader2, Link2, FileSignature, FileCheck } from "lucide-react"
 import { CreateContractDrawer } from '@/components/contracts/CreateContractDrawer'
-import { regenerateContractTotal } from '@/actions/contracts'
+import { CountersignContractDialog } from '@/components/contracts/CountersignContractDialog'
+import { regenerateContractTotal, sendContractForSignature } from '@/actions/contracts'
+import { ChangeOrdersSection } from '@/components/change-orders/ChangeOrdersSection'
 
 interface Contract {
   id: string
@@ -20,14 +22,43 @@ interface Contract {
   status: string
   created_at: string
   proposal_id: string | null
+  signing_token: string | null
+  client_signer_name: string | null
+  client_signed_at: string | null
+  contractor_signer_name: string | null
+  contractor_signed_at: string | null
+  signed_upload: { file_url: string } | null
   is_stale?: boolean // True if estimate changed after contract creation
 }
 
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'draft',
+  sent: 'awaiting client',
+  client_signed: 'awaiting countersign',
+  signed: 'signed',
+}
+
+function ContractStatusBadge({ status }: { status: string }) {
+  if (status === 'client_signed') {
+    return (
+      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+        {STATUS_LABELS[status]}
+      </Badge>
+    )
+  }
+  if (status === 'sent') {
+    return <Badge variant="secondary">{STATUS_LABELS[status]}</Badge>
+  }
+  return <Badge>{STATUS_LABELS[status] || status}</Badge>
+}
+
 export function ContractsTab({ project }: { project: Project }) {
   const [contracts, setContracts] = useState<Contract[]>([])
   const [loading, setLoading] = useState(true)
   const [createDrawerOpen, setCreateDrawerOpen] = useState(false)
   const [regeneratingId, setRegeneratingId] = useState<string | null>(null)
+  const [sendingId, setSendingId] = useState<string | null>(null)
+  const [countersignTarget, setCountersignTarget] = useState<Contract | null>(null)
 
   useEffect(() => {
     fetchContracts()
@@ -37,7 +68,7 @@ export function ContractsTab({ project }: { project: Project }) {
     try {
       const { data, error } = await supabase
         .from('contracts')
-        .select('*, proposals(estimate_id)')
+        .select('*, proposals(estimate_id), signed_upload:uploads!contracts_signed_upload_id_fkey(file_url)')
         .eq('project_id', project.id)
         .order('created_at', { ascending: false })
 
@@ -113,6 +144,38 @@ export function ContractsTab({ project }: { project: Project }) {
     }
   }
 
+  const handleSendForSignature = async (contractId: string) => {
+    try {
+      setSendingId(contractId)
+      const result = await sendContractForSignature(contractId)
+
+      if (!result.success || !result.signingToken) {
+        throw new Error(result.error || 'Failed to create signing link')
+      }
+
+      const url = `${window.location.origin}/portal/contracts/${result.signingToken}`
+      try {
+        await navigator.clipboard.writeText(url)
+        toast.success('Signing link copied to clipboard')
+      } catch {
+        toast.success(`Signing link: ${url}`)
+      }
+
+      setContracts(prev =>
+        prev.map(c =>
+          c.id === contractId
+            ? { ...c, signing_token: result.signingToken!, status: 'sent' }
+            : c
+        )
+      )
+    } catch (err) {
+      console.error('Error sending contract:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to create signing link')
+    } finally {
+      setSendingId(null)
+    }
+  }
+
   const handleRegenerate = async (contractId: string) => {
     try {
       setRegeneratingId(contractId)
@@ -194,10 +257,23 @@ export function ContractsTab({ project }: { project: Project }) {
                       </div>
                     </TableCell>
                     <TableCell>${new Intl.NumberFormat().format(contract.total_price || 0)}</TableCell>
-                    <TableCell><Badge>{contract.status}</Badge></TableCell>
+                    <TableCell>
+                      <ContractStatusBadge status={contract.status} />
+                      {contract.client_signed_at && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Client: {contract.client_signer_name} · {new Date(contract.client_signed_at).toLocaleDateString()}
+                        </div>
+                      )}
+                      {contract.contractor_signed_at && (
+                        <div className="text-xs text-muted-foreground">
+                          Contractor: {contract.contractor_signer_name} · {new Date(contract.contractor_signed_at).toLocaleDateString()}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
-                        {contract.is_stale && (
+                        {/* Sent contracts keep the terms the client signs */}
+                        {contract.is_stale && contract.status === 'draft' && (
                           <Button
                             variant="outline"
                             size="sm"
@@ -226,6 +302,34 @@ export function ContractsTab({ project }: { project: Project }) {
                         >
                           <FileText className="mr-2 h-4 w-4" />View PDF
                         </Button>
+                        {(contract.status === 'draft' || contract.status === 'sent') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleSendForSignature(contract.id)}
+                            disabled={sendingId === contract.id}
+                            title="Copy a link the client can open to sign"
+                          >
+                            {sendingId === contract.id ? (
+                              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Link2 className="mr-1 h-4 w-4" />
+                            )}
+                            {contract.signing_token ? 'Copy Link' : 'Send for Signature'}
+                          </Button>
+                        )}
+                        {contract.status === 'client_signed' && (
+                          <Button size="sm" onClick={() => setCountersignTarget(contract)}>
+                            <FileSignature className="mr-2 h-4 w-4" />Countersign
+                          </Button>
+                        )}
+                        {contract.signed_upload && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={contract.signed_upload.file_url} target="_blank" rel="noopener noreferrer">
+                              <FileCheck className="mr-2 h-4 w-4" />Signed Copy
+                            </a>
+                          </Button>
+                        )}
                         {contract.status === 'signed' && (
                           <Button variant="outline" size="sm" onClick={() => handleStartJob(contract.id)}>
                             <Play className="mr-2 h-4 w-4" />Start Job
@@ -249,7 +353,7 @@ export function ContractsTab({ project }: { project: Project }) {
                     <span className="text-sm text-muted-foreground">
                       {new Date(contract.created_at).toLocaleDateString()}
                     </span>
-                    <Badge>{contract.status}</Badge>
+                    <ContractStatusBadge status={contract.status} />
                   </div>
 
                   {/* Price + stale */}
@@ -267,7 +371,8 @@ export function ContractsTab({ project }: { project: Project }) {
 
                   {/* Actions */}
                   <div className="flex flex-wrap gap-2">
-                    {contract.is_stale && (
+                    {/* Sent contracts keep the terms the client signs */}
+                    {contract.is_stale && contract.status === 'draft' && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -296,6 +401,38 @@ export function ContractsTab({ project }: { project: Project }) {
                     >
                       <FileText className="mr-2 h-4 w-4" />View PDF
                     </Button>
+                    {(contract.status === 'draft' || contract.status === 'sent') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSendForSignature(contract.id)}
+                        disabled={sendingId === contract.id}
+                        className="min-h-[44px] flex-1"
+                      >
+                        {sendingId === contract.id ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Link2 className="mr-1 h-4 w-4" />
+                        )}
+                        {contract.signing_token ? 'Copy Link' : 'Send for Signature'}
+                      </Button>
+                    )}
+                    {contract.status === 'client_signed' && (
+                      <Button
+                        size="sm"
+                        onClick={() => setCountersignTarget(contract)}
+                        className="min-h-[44px] flex-1"
+                      >
+                        <FileSignature className="mr-2 h-4 w-4" />Countersign
+                      </Button>
+                    )}
+                    {contract.signed_upload && (
+                      <Button variant="outline" size="sm" asChild className="min-h-[44px] flex-1">
+                        <a href={contract.signed_upload.file_url} target="_blank" rel="noopener noreferrer">
+                          <FileCheck className="mr-2 h-4 w-4" />Signed Copy
+                        </a>
+                      </Button>
+                    )}
                     {contract.status === 'signed' && (
                       <Button 
                         variant="outline" 
@@ -314,6 +451,17 @@ export function ContractsTab({ project }: { project: Project }) {
         </>
       )}
 
+      <div className="pt-4">
+        <ChangeOrdersSection projectId={project.id} onContractChanged={fetchContracts} />
+      </div>
+
+      <CountersignContractDialog
+        open={countersignTarget !== null}
+        onOpenChange={(open) => !open && setCountersignTarget(null)}
+        contract={countersignTarget}
+        onSuccess={fetchContracts}
+      />
+
       <CreateContractDrawer
         open={createDrawerOpen}
         onOpenChange={setCreateDrawerOpen}
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { supabase } from "@/lib/supabase/client"
+import { isIncludedBySelection } from '@/lib/estimate-alternates'
 import { createProposalFromEstimate } from '@/actions/proposals'
 import { Loader2, AlertCircle, DollarSign } from "lucide-react"
 import { toast } from 'sonner'
@@ -91,6 +92,8 @@ export function CreateProposalDialog({
             direct_cost, 
             description,
             room_id,
+            is_active,
+            alternate_ids,
             rooms!estimate_line_items_room_id_fkey (
               id,
               is_in_scope
@@ -107,7 +110,14 @@ export function CreateProposalDialog({
           return
         }
 
-        // Calculate total price (sum of all client_price from IN-SCOPE rooms only)
+        const { data: estimate } = await supabase
+          .from('estimates')
+          .select('selected_alternate_ids')
+          .eq('id', estimateId)
+          .maybeSingle()
+
+        // Calculate total price (sum of all client_price from IN-SCOPE rooms only,
+        // base scope plus the alternates selected on the estimate)
         let total = 0
         let allowances = 0
 
@@ -118,6 +128,8 @@ export function CreateProposalDialog({
           if (room && room.is_in_scope === false) {
             continue // Skip excluded room items
           }
+          if (item.is_active === false) continue
+          if (!isIncludedBySelection(item.alternate_ids, estimate?.selected_alternate_ids)) continue
           
           const price = item.client_price || 0
           total += Number(price) || 0
@@ -6,8 +6,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { EstimateTable } from "@/components/estimate/EstimateTable"
+import { EstimateRevisionHistory } from "@/components/estimate/EstimateRevisionHistory"
+import { ReviseBidDialog } from "@/components/estimate/ReviseBidDialog"
 import type { Project, Estimate, EstimateStatus } from "@/types/db"
-import { FileText, Trash2, CheckCircle, FileSignature, Loader2, MapPin, Settings } from "lucide-react"
+import { FileText, Trash2, CheckCircle, FileSignature, Loader2, MapPin, Settings, RotateCcw } from "lucide-react"
 import { finalizeBid, markContractSigned } from "@/actions/estimate-lifecycle"
 import { toast } from "sonner"
 import { supabase } from "@/lib/supabase/client"
@@ -57,7 +59,9 @@ export function EstimateTab({
 }: EstimateTabProps) {
   const { user } = useAuth()
   const [estimateStatus, setEstimateStatus] = useState<EstimateStatus | null>(null)
+  const [estimateRevision, setEstimateRevision] = useState(1)
   const [isTransitioning, setIsTransitioning] = useState(false)
+  const [reviseOpen, setReviseOpen] = useState(false)
   const [userRegion, setUserRegion] = useState<string | null>(null)
   const [regionLoaded, setRegionLoaded] = useState(false)
 
@@ -100,12 +104,13 @@ export function EstimateTab({
     try {
       const { data, error } = await supabase
         .from('estimates')
-        .select('status')
+        .select('status, revision')
         .eq('id', activeEstimateId)
         .single()
       
       if (!error && data) {
         setEstimateStatus(data.status as EstimateStatus)
+        setEstimateRevision(data.revision ?? 1)
       }
     } catch (err) {
       console.error('Error fetching estimate status:', err)
@@ -160,6 +165,14 @@ export function EstimateTab({
     }
   }
 
+  // Handle Revise Bid (bid_final → draft)
+  const handleBidRevised = (revision: number) => {
+    setReviseOpen(false)
+    setEstimateStatus('draft')
+    setEstimateRevision(revision)
+    onEstimateStatusChange?.()
+  }
+
   const statusBadge = getStatusBadge(estimateStatus)
 
   return (
@@ -239,6 +252,11 @@ export function EstimateTab({
                 <Badge variant={statusBadge.variant} className={statusBadge.className}>
                   {statusBadge.label}
                 </Badge>
+                {estimateRevision > 1 && (
+                  <Badge variant="outline" className="text-xs">
+                    Rev {estimateRevision}
+                  </Badge>
+                )}
                 {userRegion && (
                   <span className="text-xs text-muted-foreground flex items-center gap-1">
                     <MapPin className="h-3 w-3" />
@@ -263,6 +281,19 @@ export function EstimateTab({
                   </Button>
                 )}
                 
+                {/* Revise Bid Button - only show when bid_final */}
+                {estimateStatus === 'bid_final' && (
+                  <Button
+                    onClick={() => setReviseOpen(true)}
+                    disabled={isTransitioning}
+                    size="sm"
+                    variant="outline"
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Revise Bid
+                  </Button>
+                )}
+                
                 {/* Mark Contract Signed Button - only show when bid_final */}
                 {estimateStatus === 'bid_final' && (
                   <Button
@@ -306,7 +337,7 @@ export function EstimateTab({
             {/* Status explanation */}
             <CardDescription className="mt-2">
               {estimateStatus === 'draft' && 'This estimate is in draft mode. Finalize the bid when pricing is complete.'}
-              {estimateStatus === 'bid_final' && 'Bid has been finalized. Mark as contract signed when the client accepts.'}
+              {estimateStatus === 'bid_final' && 'Bid has been finalized. Mark as contract signed when the client accepts, or revise the bid if changes are needed before signing.'}
               {estimateStatus === 'contract_signed' && 'Contract is signed. You can now track progress and close out when complete.'}
               {estimateStatus === 'completed' && 'This project has been completed and closed out.'}
             </CardDescription>
@@ -390,8 +421,27 @@ export function EstimateTab({
           estimateId={activeEstimateId}
           initialData={estimateData || { items: [], assumptions: [], missing_info: [] }}
           onSave={onSave}
+          estimateStatus={estimateStatus}
         />
       </div>
+
+      {activeEstimateId && (
+        <ReviseBidDialog
+          open={reviseOpen}
+          onOpenChange={setReviseOpen}
+          estimateId={activeEstimateId}
+          revision={estimateRevision}
+          onSuccess={handleBidRevised}
+        />
+      )}
+
+      {/* Revision History */}
+      {activeEstimateId && estimateStatus && (
+        <EstimateRevisionHistory
+          estimateId={activeEstimateId}
+          estimateStatus={estimateStatus}
+        />
+      )}
     </div>
   )
 }
@@ -11,11 +11,19 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { supabase } from "@/lib/supabase/client"
 import { toast } from 'sonner'
 import type { Project, EstimateStatus } from "@/types/db"
-import { ListChecks, FileText, Plus, Play, Download, CheckCircle2 } from "lucide-react"
-import { CreateInvoiceDrawer } from '@/components/invoices/CreateInvoiceDrawer'
+import { ListChecks, FileText, Plus, Play, Download, CheckCircle2, Percent, Landmark, Loader2, Send, Wallet } from "lucide-react"
+import { CreateInvoiceDrawer, type InvoiceMilestone } from '@/components/invoices/CreateInvoiceDrawer'
+import { CreatePayApplicationDrawer } from '@/components/invoices/CreatePayApplicationDrawer'
+import { RecordPaymentDialog } from '@/components/invoices/RecordPaymentDialog'
+import { PaymentMilestonesCard } from '@/components/invoices/PaymentMilestonesCard'
 import { CloseOutProjectDialog } from '@/components/projects/CloseOutProjectDialog'
 import { EstimateVsActualSummary } from '@/components/projects/EstimateVsActualSummary'
 import { startJobFromEstimate } from '@/actions/start-job'
+import { createRetainageReleaseInvoice, markInvoiceSent } from '@/actions/invoices'
+import { getProjectMilestones, type ProjectMilestone } from '@/actions/milestones'
+import { deriveInvoiceStatus, formatInvoiceStatus, invoiceBalance } from '@/lib/invoice-status'
+import { format } from 'date-fns'
+import { cn } from "@/lib/utils"
 
 interface ProjectTask {
   id: string
@@ -34,15 +42,29 @@ interface Invoice {
   invoice_number: string
   status: string
   total_amount: number
+  amount_paid: number
   issued_date: string
   due_date: string | null
+  invoice_type: 'standard' | 'pay_application' | 'retainage_release'
+  application_number: number | null
+  retainage_amount: number
 }
 
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value)
+
 export function ManageTab({ project }: { project: Project }) {
   const [tasks, setTasks] = useState<ProjectTask[]>([])
   const [invoices, setInvoices] = useState<Invoice[]>([])
   const [loading, setLoading] = useState(true)
   const [createInvoiceOpen, setCreateInvoiceOpen] = useState(false)
+  const [milestones, setMilestones] = useState<ProjectMilestone[]>([])
+  const [invoiceMilestone, setInvoiceMilestone] = useState<InvoiceMilestone | null>(null)
+  const [createPayAppOpen, setCreatePayAppOpen] = useState(false)
+  const [retainagePercent, setRetainagePercent] = useState(0)
+  const [releasingRetainage, setReleasingRetainage] = useState(false)
+  const [paymentInvoiceId, setPaymentInvoiceId] = useState<string | null>(null)
+  const [markingSentId, setMarkingSentId] = useState<string | null>(null)
   const [closeOutOpen, setCloseOutOpen] = useState(false)
   const [activeTab, setActiveTab] = useState('scope')
   const [startingJob, setStartingJob] = useState(false)
@@ -106,6 +128,35 @@ export function ManageTab({ project }: { project: Project }) {
     }
   }, [project.id])
 
+  // Contract retainage percentage (signed contract only)
+  const fetchRetainagePercent = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('contracts')
+        .select('retainage_percent')
+        .eq('project_id', project.id)
+        .eq('status', 'signed')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) throw error
+      setRetainagePercent(Number(data?.retainage_percent) || 0)
+    } catch (error) {
+      console.error('Error fetching contract retainage:', error)
+    }
+  }, [project.id])
+
+  // Contract payment milestones with derived status
+  const fetchMilestones = useCallback(async () => {
+    const result = await getProjectMilestones(project.id)
+    if (result.success && result.data) {
+      setMilestones(result.data.milestones)
+    } else {
+      console.error('Error fetching milestones:', result.error)
+    }
+  }, [project.id])
+
   // Fetch estimate info for close out
   const fetchEstimate = useCallback(async () => {
     try {
@@ -132,8 +183,10 @@ export function ManageTab({ project }: { project: Project }) {
       fetchTasks()
       fetchInvoices()
       fetchEstimate()
+      fetchRetainagePercent()
+      fetchMilestones()
     }
-  }, [project.id, fetchTasks, fetchInvoices, fetchEstimate])
+  }, [project.id, fetchTasks, fetchInvoices, fetchEstimate, fetchRetainagePercent, fetchMilestones])
 
   const handleStartJob = async () => {
     try {
@@ -181,12 +234,72 @@ export function ManageTab({ project }: { project: Project }) {
       
       toast.success('Task status updated')
       fetchTasks()
+      fetchMilestones()
     } catch (error) {
       console.error('Error updating task status:', error)
       toast.error('Failed to update task status')
     }
   }
 
+  const handleReleaseRetainage = async () => {
+    if (!confirm(`Create an invoice releasing $${formatMoney(retainageHeld)} of held retainage?`)) return
+
+    try {
+      setReleasingRetainage(true)
+      const result = await createRetainageReleaseInvoice(project.id, {
+        issuedDate: format(new Date(), 'yyyy-MM-dd')
+      })
+
+      if (!result.success) throw new Error(result.error)
+
+      toast.success(`Retainage release ${result.invoiceNumber} created`)
+      fetchInvoices()
+    } catch (error) {
+      console.error('Error releasing retainage:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to release retainage')
+    } finally {
+      setReleasingRetainage(false)
+    }
+  }
+
+  const handleMarkSent = async (invoice: Invoice) => {
+    setMarkingSentId(invoice.id)
+    try {
+      const result = await markInvoiceSent(invoice.id)
+      if (!result.success) throw new Error(result.error)
+
+      toast.success(`${invoice.invoice_number} marked as sent`)
+      fetchInvoices()
+    } catch (error) {
+      console.error('Error marking invoice sent:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to mark invoice sent')
+    } finally {
+      setMarkingSentId(null)
+    }
+  }
+
+  const paymentInvoice = invoices.find(i => i.id === paymentInvoiceId) || null
+
+  const handleInvoiceMilestone = (milestone: ProjectMilestone) => {
+    setInvoiceMilestone({
+      id: milestone.id,
+      name: milestone.name,
+      amount: milestone.amount,
+      taskIds: milestone.taskIds,
+      isDownPayment: milestone.isDownPayment,
+    })
+    setCreateInvoiceOpen(true)
+  }
+
+  // Retainage: withheld amounts are positive, releases negative
+  const retainageWithheld = invoices
+    .filter(i => i.invoice_type !== 'retainage_release')
+    .reduce((sum, i) => sum + (Number(i.retainage_amount) || 0), 0)
+  const retainageReleased = -invoices
+    .filter(i => i.invoice_type === 'retainage_release')
+    .reduce((sum, i) => sum + (Number(i.retainage_amount) || 0), 0)
+  const retainageHeld = Math.round((retainageWithheld - retainageReleased) * 100) / 100
+
   const completedTasks = tasks.filter(t => t.status === 'completed').length
   const totalTasks = tasks.length
   const progress = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0
@@ -366,12 +479,62 @@ export function ManageTab({ project }: { project: Project }) {
         <TabsContent value="invoices" className="space-y-4">
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
             <h2 className="text-xl sm:text-2xl font-semibold">Project Invoices</h2>
-            <Button onClick={() => setCreateInvoiceOpen(true)} className="w-full sm:w-auto min-h-[44px] sm:min-h-0">
-              <Plus className="mr-2 h-4 w-4" />
-              Create New Invoice
-            </Button>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setCreatePayAppOpen(true)}
+                className="w-full sm:w-auto min-h-[44px] sm:min-h-0"
+              >
+                <Percent className="mr-2 h-4 w-4" />
+                New Pay Application
+              </Button>
+              <Button onClick={() => setCreateInvoiceOpen(true)} className="w-full sm:w-auto min-h-[44px] sm:min-h-0">
+                <Plus className="mr-2 h-4 w-4" />
+                Create New Invoice
+              </Button>
+            </div>
           </div>
 
+          <PaymentMilestonesCard milestones={milestones} onInvoice={handleInvoiceMilestone} />
+
+          {/* Retainage held */}
+          {(retainagePercent > 0 || retainageWithheld > 0) && (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="flex items-start gap-3">
+                    <Landmark className="h-5 w-5 text-muted-foreground mt-0.5" />
+                    <div>
+                      <p className="text-sm text-muted-foreground">
+                        Retainage held{retainagePercent > 0 && ` (${retainagePercent}% per contract)`}
+                      </p>
+                      <p className="text-2xl font-bold tabular-nums">${formatMoney(retainageHeld)}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        ${formatMoney(retainageWithheld)} withheld · ${formatMoney(retainageReleased)} released
+                      </p>
+                    </div>
+                  </div>
+                  {retainageHeld > 0 && (
+                    <Button
+                      variant="outline"
+                      onClick={handleReleaseRetainage}
+                      disabled={releasingRetainage || completedTasks < totalTasks}
+                      title={completedTasks < totalTasks ? 'Retainage is released at closeout, once every task is completed' : undefined}
+                      className="w-full sm:w-auto min-h-[44px] sm:min-h-0"
+                    >
+                      {releasingRetainage ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Landmark className="mr-2 h-4 w-4" />
+                      )}
+                      Release Retainage
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {invoices.length === 0 ? (
             <Card><CardContent className="py-12 text-center">
               <FileText className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
@@ -387,7 +550,9 @@ export function ManageTab({ project }: { project: Project }) {
                     <TableRow>
                       <TableHead>Invoice #</TableHead>
                       <TableHead>Date Issued</TableHead>
+                      <TableHead>Due</TableHead>
                       <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
@@ -398,6 +563,8 @@ export function ManageTab({ project }: { project: Project }) {
                         switch (status.toLowerCase()) {
                           case 'paid':
                             return 'bg-primary/20 text-primary border-primary/30'
+                          case 'partially_paid':
+                            return 'bg-amber-100 text-amber-800 border-amber-300'
                           case 'sent':
                             return 'bg-primary/10 text-primary border-primary/20'
                           case 'draft':
@@ -409,19 +576,63 @@ export function ManageTab({ project }: { project: Project }) {
                         }
                       }
 
+                      const status = deriveInvoiceStatus(invoice)
+                      const balance = invoiceBalance(invoice)
+
                       return (
                         <TableRow key={invoice.id}>
-                          <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                          <TableCell className="font-medium">
+                            {invoice.invoice_number}
+                            {invoice.invoice_type === 'pay_application' && (
+                              <Badge variant="outline" className="ml-2 text-xs">
+                                Pay App #{invoice.application_number}
+                              </Badge>
+                            )}
+                            {invoice.invoice_type === 'retainage_release' && (
+                              <Badge variant="outline" className="ml-2 text-xs">
+                                Retainage Release
+                              </Badge>
+                            )}
+                          </TableCell>
                           <TableCell>{new Date(invoice.issued_date).toLocaleDateString()}</TableCell>
+                          <TableCell className={cn(status === 'overdue' && 'text-destructive')}>
+                            {invoice.due_date ? new Date(`${invoice.due_date}T00:00:00`).toLocaleDateString() : '—'}
+                          </TableCell>
                           <TableCell className="text-right tabular-nums">
                             ${new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(invoice.total_amount || 0)}
                           </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            ${formatMoney(balance)}
+                          </TableCell>
                           <TableCell>
-                            <Badge className={getStatusColor(invoice.status)}>
-                              {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                            <Badge className={getStatusColor(status)}>
+                              {formatInvoiceStatus(status)}
                             </Badge>
                           </TableCell>
-                          <TableCell className="text-right">
+                          <TableCell className="text-right whitespace-nowrap">
+                            {status === 'draft' && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleMarkSent(invoice)}
+                                disabled={markingSentId === invoice.id}
+                                title="Mark as Sent"
+                              >
+                                {markingSentId === invoice.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Send className="h-4 w-4" />
+                                )}
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setPaymentInvoiceId(invoice.id)}
+                              title={balance > 0 ? 'Record Payment' : 'View Payments'}
+                            >
+                              <Wallet className="h-4 w-4" />
+                            </Button>
                             <Button 
                               variant="ghost" 
                               size="icon"
@@ -462,6 +673,8 @@ export function ManageTab({ project }: { project: Project }) {
                     switch (status.toLowerCase()) {
                       case 'paid':
                         return 'bg-primary/20 text-primary border-primary/30'
+                      case 'partially_paid':
+                        return 'bg-amber-100 text-amber-800 border-amber-300'
                       case 'sent':
                         return 'bg-primary/10 text-primary border-primary/20'
                       case 'draft':
@@ -473,23 +686,67 @@ export function ManageTab({ project }: { project: Project }) {
                     }
                   }
 
+                  const status = deriveInvoiceStatus(invoice)
+                  const balance = invoiceBalance(invoice)
+
                   return (
                     <Card key={invoice.id} className="p-4">
                       <div className="space-y-2">
                         <div className="flex items-center justify-between">
-                          <span className="font-medium text-sm">{invoice.invoice_number}</span>
-                          <Badge className={getStatusColor(invoice.status)}>
-                            {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                          <span className="font-medium text-sm">
+                            {invoice.invoice_number}
+                            {invoice.invoice_type === 'pay_application' && (
+                              <span className="ml-2 text-xs text-muted-foreground">Pay App #{invoice.application_number}</span>
+                            )}
+                            {invoice.invoice_type === 'retainage_release' && (
+                              <span className="ml-2 text-xs text-muted-foreground">Retainage Release</span>
+                            )}
+                          </span>
+                          <Badge className={getStatusColor(status)}>
+                            {formatInvoiceStatus(status)}
                           </Badge>
                         </div>
                         <div className="flex items-center justify-between">
                           <span className="text-xs text-muted-foreground">
                             {new Date(invoice.issued_date).toLocaleDateString()}
+                            {invoice.due_date && (
+                              <span className={cn(status === 'overdue' && 'text-destructive')}>
+                                {' · Due '}{new Date(`${invoice.due_date}T00:00:00`).toLocaleDateString()}
+                              </span>
+                            )}
                           </span>
                           <span className="text-lg font-semibold tabular-nums">
                             ${new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(invoice.total_amount || 0)}
                           </span>
                         </div>
+                        {status !== 'draft' && balance > 0 && balance < invoice.total_amount && (
+                          <p className="text-xs text-muted-foreground text-right tabular-nums">
+                            ${formatMoney(balance)} outstanding
+                          </p>
+                        )}
+                        <div className="grid grid-cols-2 gap-2">
+                          {status === 'draft' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="min-h-[44px]"
+                              onClick={() => handleMarkSent(invoice)}
+                              disabled={markingSentId === invoice.id}
+                            >
+                              <Send className="mr-2 h-4 w-4" />
+                              Mark Sent
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className={cn("min-h-[44px]", status !== 'draft' && "col-span-2")}
+                            onClick={() => setPaymentInvoiceId(invoice.id)}
+                          >
+                            <Wallet className="mr-2 h-4 w-4" />
+                            {balance > 0 ? 'Record Payment' : 'Payments'}
+                          </Button>
+                        </div>
                         <Button 
                           variant="outline" 
                           size="sm"
@@ -526,13 +783,43 @@ export function ManageTab({ project }: { project: Project }) {
 
           <CreateInvoiceDrawer
             open={createInvoiceOpen}
-            onOpenChange={setCreateInvoiceOpen}
+            onOpenChange={(open) => {
+              setCreateInvoiceOpen(open)
+              if (!open) setInvoiceMilestone(null)
+            }}
             projectId={project.id}
             tasks={tasks}
+            retainagePercent={retainagePercent}
+            milestone={invoiceMilestone}
             onSuccess={() => {
               fetchInvoices()
               fetchTasks()
+              fetchMilestones()
               setCreateInvoiceOpen(false)
+              setInvoiceMilestone(null)
+            }}
+          />
+
+          <RecordPaymentDialog
+            open={paymentInvoiceId !== null}
+            onOpenChange={(open) => { if (!open) setPaymentInvoiceId(null) }}
+            invoice={paymentInvoice}
+            onSuccess={() => {
+              fetchInvoices()
+              fetchMilestones()
+            }}
+          />
+
+          <CreatePayApplicationDrawer
+            open={createPayAppOpen}
+            onOpenChange={setCreatePayAppOpen}
+            projectId={project.id}
+            tasks={tasks}
+            defaultRetainagePercent={retainagePercent}
+            onSuccess={() => {
+              fetchInvoices()
+              fetchTasks()
+              setCreatePayAppOpen(false)
             }}
           />
         </TabsContent>
@@ -546,6 +833,7 @@ export function ManageTab({ project }: { project: Project }) {
           projectId={project.id}
           estimateId={estimateId}
           projectName={project.title}
+          retainageHeld={retainageHeld}
           onSuccess={() => {
             fetchEstimate()
             toast.success('Project closed out successfully!')
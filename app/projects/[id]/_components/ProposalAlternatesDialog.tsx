@@ -0,0 +1,125 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { setProposalAlternateSelection, type ProposalAlternate } from '@/actions/proposals'
+import { toast } from 'sonner'
+
+interface ProposalAlternatesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  proposalId: string
+  basePrice: number
+  alternates: ProposalAlternate[]
+  selectedAlternateIds: string[]
+  onSuccess: (selectedAlternateIds: string[], newTotal: number) => void
+}
+
+const formatCurrency = (value: number | null | undefined) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value || 0)
+
+/**
+ * Record which optional add-ons the client accepted on a proposal.
+ * The selection sets the proposal total and carries through to the contract.
+ */
+export function ProposalAlternatesDialog({
+  open,
+  onOpenChange,
+  proposalId,
+  basePrice,
+  alternates,
+  selectedAlternateIds,
+  onSuccess,
+}: ProposalAlternatesDialogProps) {
+  const [selected, setSelected] = useState<string[]>(selectedAlternateIds)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setSelected(selectedAlternateIds)
+    }
+  }, [open, selectedAlternateIds])
+
+  // Preview only - the server recomputes the total without double-counting shared items
+  const previewTotal = basePrice + alternates
+    .filter(alt => selected.includes(alt.id))
+    .reduce((sum, alt) => sum + (alt.amount || 0), 0)
+
+  const toggle = (alternateId: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, alternateId] : prev.filter(id => id !== alternateId))
+  }
+
+  const handleSave = async () => {
+    setLoading(true)
+    try {
+      const result = await setProposalAlternateSelection(proposalId, selected)
+      if (!result.success) throw new Error(result.error)
+      toast.success(`Total updated to ${formatCurrency(result.newTotal)}`)
+      onSuccess(selected, result.newTotal ?? previewTotal)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update add-ons')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Optional Add-Ons</DialogTitle>
+          <DialogDescription>
+            Select the alternates the client accepted. The proposal total, and any contract created from it,
+            includes the base price plus the selected add-ons.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Base price</span>
+            <span className="font-medium tabular-nums">{formatCurrency(basePrice)}</span>
+          </div>
+          {alternates.map(alt => (
+            <div key={alt.id} className="flex items-start justify-between gap-3 text-sm">
+              <div className="flex items-start gap-2 min-w-0">
+                <Checkbox
+                  id={`proposal-alternate-${alt.id}`}
+                  checked={selected.includes(alt.id)}
+                  onCheckedChange={(checked) => toggle(alt.id, checked === true)}
+                  className="mt-0.5"
+                />
+                <label htmlFor={`proposal-alternate-${alt.id}`} className="min-w-0">
+                  <span className="font-medium">{alt.name}</span>
+                  {alt.description && (
+                    <span className="block text-xs text-muted-foreground">{alt.description}</span>
+                  )}
+                </label>
+              </div>
+              <span className="tabular-nums whitespace-nowrap">+{formatCurrency(alt.amount)}</span>
+            </div>
+          ))}
+          <div className="flex items-center justify-between border-t pt-3 font-semibold">
+            <span>Total</span>
+            <span className="tabular-nums">{formatCurrency(previewTotal)}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? 'Saving...' : 'Save Selection'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,11 +7,13 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { supabase } from "@/lib/supabase/client"
-import { Plus, FileText, CheckCircle2, AlertCircle, Eye, RefreshCcw, Loader2 } from "lucide-react"
+import { Plus, FileText, CheckCircle2, AlertCircle, Eye, RefreshCcw, Loader2, ListPlus, Link2, FileSignature } from "lucide-react"
 import { toast } from 'sonner'
 import type { Project } from "@/types/db"
 import { CreateProposalDialog } from './CreateProposalDialog'
-import { regenerateProposalTotal } from '@/actions/proposals'
+import { ProposalAlternatesDialog } from './ProposalAlternatesDialog'
+import { CreateContractDrawer } from '@/components/contracts/CreateContractDrawer'
+import { regenerateProposalTotal, shareProposal, type ProposalAlternate } from '@/actions/proposals'
 
 interface Proposal {
   id: string
@@ -24,7 +26,15 @@ interface Proposal {
   approved_at: string | null
   created_at: string
   created_by: string | null
+  body_json?: { base_price?: number; alternates?: ProposalAlternate[] } | null
+  selected_alternate_ids?: string[] | null
+  share_token?: string | null
+  first_viewed_at?: string | null
+  last_viewed_at?: string | null
+  signer_name?: string | null
+  client_comments?: string | null
   is_stale?: boolean // Added for tracking if estimate changed after proposal creation
+  has_contract?: boolean // An approved proposal without a contract prompts contract creation
 }
 
 interface ProposalsTabProps {
@@ -65,6 +75,46 @@ const StatusBadge = ({ status }: { status: Proposal['status'] }) => {
   )
 }
 
+/**
+ * Flag proposals that already have a contract
+ */
+const withContractFlags = async <T extends { id: string }>(proposals: T[]): Promise<Array<T & { has_contract: boolean }>> => {
+  if (proposals.length === 0) return []
+
+  const { data: contracts } = await supabase
+    .from('contracts')
+    .select('proposal_id')
+    .in('proposal_id', proposals.map(p => p.id))
+
+  const withContract = new Set((contracts || []).map(c => c.proposal_id))
+  return proposals.map(p => ({ ...p, has_contract: withContract.has(p.id) }))
+}
+
+/**
+ * Client portal activity shown under the proposal title
+ */
+const PortalActivity = ({ proposal }: { proposal: Proposal }) => {
+  if (proposal.signer_name && (proposal.status === 'approved' || proposal.status === 'rejected')) {
+    return (
+      <p className="text-xs text-muted-foreground mt-0.5">
+        {proposal.status === 'approved' ? 'Signed' : 'Declined'} by {proposal.signer_name}
+        {proposal.client_comments ? ` · "${proposal.client_comments}"` : ''}
+      </p>
+    )
+  }
+  if (proposal.last_viewed_at) {
+    return (
+      <p className="text-xs text-muted-foreground mt-0.5">
+        Viewed by client {formatDate(proposal.last_viewed_at)}
+      </p>
+    )
+  }
+  if (proposal.share_token) {
+    return <p className="text-xs text-muted-foreground mt-0.5">Shared · not yet viewed</p>
+  }
+  return null
+}
+
 export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
   const [proposals, setProposals] = useState<Proposal[]>([])
   const [isLoading, setIsLoading] = useState(true)
@@ -73,6 +123,13 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [approvingId, setApprovingId] = useState<string | null>(null)
   const [regeneratingId, setRegeneratingId] = useState<string | null>(null)
+  const [alternatesProposal, setAlternatesProposal] = useState<Proposal | null>(null)
+  const [sharingId, setSharingId] = useState<string | null>(null)
+  const [contractProposalId, setContractProposalId] = useState<string | null>(null)
+
+  const hasAlternates = (proposal: Proposal) => (proposal.body_json?.alternates?.length ?? 0) > 0
+  const canSelectAlternates = (proposal: Proposal) =>
+    hasAlternates(proposal) && (proposal.status === 'draft' || proposal.status === 'sent')
 
   // Load proposals when project changes
   useEffect(() => {
@@ -137,7 +194,7 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
           })
         )
 
-        setProposals(proposalsWithStaleness)
+        setProposals(await withContractFlags(proposalsWithStaleness))
       } catch (err) {
         console.error('Error loading proposals:', err)
         setError(err instanceof Error ? err.message : 'Failed to load proposals')
@@ -149,6 +206,38 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
     loadProposals()
   }, [project?.id])
 
+  const handleShare = async (proposalId: string) => {
+    try {
+      setSharingId(proposalId)
+      const result = await shareProposal(proposalId)
+
+      if (!result.success || !result.shareToken) {
+        throw new Error(result.error || 'Failed to create share link')
+      }
+
+      const url = `${window.location.origin}/portal/proposals/${result.shareToken}`
+      try {
+        await navigator.clipboard.writeText(url)
+        toast.success('Client link copied to clipboard')
+      } catch {
+        toast.success(`Client link: ${url}`)
+      }
+
+      setProposals(prev =>
+        prev.map(p =>
+          p.id === proposalId
+            ? { ...p, share_token: result.shareToken, status: p.status === 'draft' ? 'sent' : p.status }
+            : p
+        )
+      )
+    } catch (err) {
+      console.error('Error sharing proposal:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to create share link')
+    } finally {
+      setSharingId(null)
+    }
+  }
+
   const handleRegenerate = async (proposalId: string) => {
     try {
       setRegeneratingId(proposalId)
@@ -176,6 +265,18 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
     }
   }
 
+  const handleAlternatesSaved = (selectedAlternateIds: string[], newTotal: number) => {
+    if (!alternatesProposal) return
+    const proposalId = alternatesProposal.id
+    setProposals(prev =>
+      prev.map(p =>
+        p.id === proposalId
+          ? { ...p, selected_alternate_ids: selectedAlternateIds, total_price: newTotal }
+          : p
+      )
+    )
+  }
+
   const handleMarkApproved = async (proposalId: string) => {
     try {
       setApprovingId(proposalId)
@@ -349,12 +450,20 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
         .order('created_at', { ascending: false })
 
       if (data) {
-        setProposals(data)
+        setProposals(await withContractFlags(data))
       }
     }
     loadProposals()
   }
 
+  const handleContractCreated = () => {
+    const proposalId = contractProposalId
+    setProposals(prev =>
+      prev.map(p => (p.id === proposalId ? { ...p, has_contract: true } : p))
+    )
+    setContractProposalId(null)
+  }
+
   if (!activeEstimateId) {
     return (
       <Card>
@@ -460,6 +569,7 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
                             </Badge>
                           )}
                         </div>
+                        <PortalActivity proposal={proposal} />
                       </TableCell>
                       <TableCell className="text-right font-semibold">
                         {formatCurrency(proposal.total_price)}
@@ -469,7 +579,8 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
-                          {proposal.is_stale && (
+                          {/* Sent proposals keep the prices the client was shown */}
+                          {proposal.is_stale && proposal.status === 'draft' && (
                             <Button
                               variant="outline"
                               size="sm"
@@ -490,6 +601,41 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
                               )}
                             </Button>
                           )}
+                          {proposal.status === 'approved' && !proposal.has_contract && (
+                            <Button
+                              size="sm"
+                              onClick={() => setContractProposalId(proposal.id)}
+                            >
+                              <FileSignature className="mr-1 h-4 w-4" />
+                              Create Contract
+                            </Button>
+                          )}
+                          {(proposal.status === 'draft' || proposal.status === 'sent') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleShare(proposal.id)}
+                              disabled={sharingId === proposal.id}
+                              title="Copy a link the client can open to accept or decline"
+                            >
+                              {sharingId === proposal.id ? (
+                                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                              ) : (
+                                <Link2 className="mr-1 h-4 w-4" />
+                              )}
+                              {proposal.share_token ? 'Copy Link' : 'Share'}
+                            </Button>
+                          )}
+                          {canSelectAlternates(proposal) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setAlternatesProposal(proposal)}
+                            >
+                              <ListPlus className="mr-1 h-4 w-4" />
+                              Add-Ons
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
@@ -499,7 +645,7 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
                             <Eye className="mr-1 h-4 w-4" />
                             View PDF
                           </Button>
-                          {proposal.status === 'draft' && (
+                          {(proposal.status === 'draft' || proposal.status === 'sent') && (
                             <Button
                               variant="ghost"
                               size="sm"
@@ -543,6 +689,7 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
                       <p className="text-xs text-muted-foreground mt-0.5">
                         v{proposal.version} &middot; {formatDate(proposal.created_at)}
                       </p>
+                      <PortalActivity proposal={proposal} />
                     </div>
                     <StatusBadge status={proposal.status} />
                   </div>
@@ -560,7 +707,8 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
 
                   {/* Actions */}
                   <div className="flex flex-wrap gap-2">
-                    {proposal.is_stale && (
+                    {/* Sent proposals keep the prices the client was shown */}
+                    {proposal.is_stale && proposal.status === 'draft' && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -581,6 +729,43 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
                         )}
                       </Button>
                     )}
+                    {proposal.status === 'approved' && !proposal.has_contract && (
+                      <Button
+                        size="sm"
+                        onClick={() => setContractProposalId(proposal.id)}
+                        className="min-h-[44px] flex-1"
+                      >
+                        <FileSignature className="mr-1 h-4 w-4" />
+                        Create Contract
+                      </Button>
+                    )}
+                    {(proposal.status === 'draft' || proposal.status === 'sent') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleShare(proposal.id)}
+                        disabled={sharingId === proposal.id}
+                        className="min-h-[44px] flex-1"
+                      >
+                        {sharingId === proposal.id ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Link2 className="mr-1 h-4 w-4" />
+                        )}
+                        {proposal.share_token ? 'Copy Link' : 'Share'}
+                      </Button>
+                    )}
+                    {canSelectAlternates(proposal) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAlternatesProposal(proposal)}
+                        className="min-h-[44px] flex-1"
+                      >
+                        <ListPlus className="mr-1 h-4 w-4" />
+                        Add-Ons
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -590,7 +775,7 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
                       <Eye className="mr-1 h-4 w-4" />
                       View PDF
                     </Button>
-                    {proposal.status === 'draft' && (
+                    {(proposal.status === 'draft' || proposal.status === 'sent') && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -627,6 +812,28 @@ export function ProposalsTab({ project, activeEstimateId }: ProposalsTabProps) {
         estimateId={activeEstimateId}
         onProposalCreated={handleProposalCreated}
       />
+
+      {/* Contract from an approved proposal */}
+      <CreateContractDrawer
+        open={!!contractProposalId}
+        onOpenChange={(open) => !open && setContractProposalId(null)}
+        projectId={project.id}
+        proposalId={contractProposalId}
+        onSuccess={handleContractCreated}
+      />
+
+      {/* Optional Add-Ons Dialog */}
+      {alternatesProposal && (
+        <ProposalAlternatesDialog
+          open={!!alternatesProposal}
+          onOpenChange={(open) => !open && setAlternatesProposal(null)}
+          proposalId={alternatesProposal.id}
+          basePrice={alternatesProposal.body_json?.base_price ?? 0}
+          alternates={alternatesProposal.body_json?.alternates || []}
+          selectedAlternateIds={alternatesProposal.selected_alternate_ids || []}
+          onSuccess={handleAlternatesSaved}
+        />
+      )}
     </div>
   )
 }
@@ -15,6 +15,8 @@ import { Switch } from "@/components/ui/switch"
 import type { Project, Room } from "@/types/db"
 import { getProjectRooms, upsertRoom, toggleRoomScope, deleteRoom, updateRoomDimensions, type RoomWithStats } from "@/actions/rooms"
 import { RoomDimensionsEditor } from "@/components/rooms/RoomDimensionsEditor"
+import { useOffline } from "@/lib/offline-context"
+import { isNetworkError } from "@/lib/offline/outbox"
 import { Plus, Trash2, ExternalLink, Loader2 } from "lucide-react"
 import { toast } from 'sonner'
 
@@ -24,6 +26,7 @@ interface RoomsTabProps {
 
 export function RoomsTab({ project }: RoomsTabProps) {
   const router = useRouter()
+  const { queue } = useOffline()
   const [rooms, setRooms] = useState<RoomWithStats[]>([])
   const [selectedRoom, setSelectedRoom] = useState<RoomWithStats | null>(null)
   const [isLoading, setIsLoading] = useState(true)
@@ -220,10 +223,40 @@ export function RoomsTab({ project }: RoomsTabProps) {
   }) => {
     if (!selectedRoom) return { success: false, error: 'No room selected' }
 
-    const result = await updateRoomDimensions({
-      roomId: selectedRoom.id,
-      ...dimensions,
-    })
+    // Offline: keep the edit on this device and replay it when reconnected
+    const queueOffline = async () => {
+      await queue({
+        projectId: project.id,
+        label: `${selectedRoom.name} – dimensions`,
+        payload: {
+          kind: 'room_dimensions',
+          roomId: selectedRoom.id,
+          dimensions,
+          base: {
+            length_ft: selectedRoom.length_ft,
+            width_ft: selectedRoom.width_ft,
+            ceiling_height_ft: selectedRoom.ceiling_height_ft,
+          },
+        },
+      })
+      const updatedRoom = { ...selectedRoom, ...dimensions }
+      setSelectedRoom(updatedRoom)
+      setRooms(prev => prev.map(r => (r.id === updatedRoom.id ? { ...r, ...dimensions } : r)))
+      return { success: true, queued: true }
+    }
+
+    if (!navigator.onLine) return queueOffline()
+
+    let result: Awaited<ReturnType<typeof updateRoomDimensions>>
+    try {
+      result = await updateRoomDimensions({
+        roomId: selectedRoom.id,
+        ...dimensions,
+      })
+    } catch (err) {
+      if (isNetworkError(err)) return queueOffline()
+      throw err
+    }
 
     if (result.success && result.room) {
       // Optimistically update the selected room and room list
@@ -7,6 +7,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { EditableProjectTitle } from "@/components/editable-project-title"
 import { EditableField } from "@/components/editable-field"
 import { db } from "@/lib/db-client"
+import { EstimateStatusHistory } from "@/components/estimate/EstimateStatusHistory"
+import { ProjectPaymentsSummary } from "@/components/projects/ProjectPaymentsSummary"
+import { CostRegionField } from "@/components/projects/CostRegionField"
+import { MarkupSummary } from "@/components/estimate/MarkupSummary"
 import type { Project, Estimate } from "@/types/db"
 import { 
   MapPin, 
@@ -362,6 +366,7 @@ export function SummaryTab({
                     onSave={handleUpdateProjectType}
                     placeholder="Enter project type"
                   />
+                  <CostRegionField projectId={project.id} projectAddress={project.project_address} />
                 </div>
               </div>
 
@@ -584,6 +589,20 @@ export function SummaryTab({
         </Card>
       </div>
 
+      {/* CONTRACT & PAYMENTS - once the project has a contract or invoices */}
+      <ProjectPaymentsSummary projectId={project.id} />
+
+      {/* MARKUP SUMMARY - overhead / contingency / profit / tax on the active estimate */}
+      {activeEstimate && (
+        <MarkupSummary
+          key={activeEstimate.id}
+          estimateId={activeEstimate.id}
+          projectId={project.id}
+          isDraft={activeEstimate.status === 'draft'}
+          onRepriced={onRefresh}
+        />
+      )}
+
       {/* ROW 2 - AI SUMMARY (FULL WIDTH) */}
       <Card className="mb-6">
         <CardHeader>
@@ -636,7 +655,12 @@ export function SummaryTab({
         </CardContent>
       </Card>
 
-      {/* ROW 5 - GO TO ESTIMATE BUTTON (FULL WIDTH) */}
+      {/* ROW 5 - ESTIMATE STATUS HISTORY (FULL WIDTH) */}
+      {activeEstimate && (
+        <EstimateStatusHistory key={`${activeEstimate.id}-${activeEstimate.status}`} estimateId={activeEstimate.id} />
+      )}
+
+      {/* ROW 6 - GO TO ESTIMATE BUTTON (FULL WIDTH) */}
       <Card>
         <CardContent className="flex justify-end pt-6">
           <Button onClick={handleGoToEstimate} size="lg">
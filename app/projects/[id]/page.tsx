@@ -26,6 +26,7 @@ import { ArrowLeft, Trash2, MessageSquare, Download, FileDown, FileText } from "
 import { toast } from 'sonner'
 import { supabase } from "@/lib/supabase/client"
 import { useSidebar } from "@/lib/sidebar-context"
+import { useOffline } from "@/lib/offline-context"
 import { CopilotChat } from "@/components/copilot/CopilotChat"
 import { Drawer, DrawerContent } from "@/components/ui/sheet"
 import { CloseJobModal } from "@/components/projects/CloseJobModal"
@@ -35,6 +36,7 @@ export default function ProjectDetailPage() {
   const params = useParams()
   const searchParams = useSearchParams()
   const { user } = useAuth()
+  const { queue: queueOutbox } = useOffline()
   const { sidebarWidth, isCollapsed } = useSidebar()
   const projectId = params.id as string
 
@@ -364,6 +366,17 @@ export default function ProjectDetailPage() {
   const handleUploadPhoto = async (file: File) => {
     if (!user) throw new Error('User not authenticated')
 
+    // Offline: keep the photo on this device; it lands in Files when reconnected
+    if (!navigator.onLine) {
+      await queueOutbox({
+        projectId,
+        label: file.name,
+        payload: { kind: 'file_upload', file, fileName: file.name, tag: 'photo', userId: user.id },
+      })
+      toast.info('You are offline', { description: `${file.name} will upload when you reconnect.` })
+      return
+    }
+
     // Dynamically import supabase to avoid webpack chunking issues
     const { supabase } = await import('@/lib/supabase/client')
 
@@ -351,6 +351,7 @@ export default function RecordPage() {
                         <EstimateChat
                           projectId={projectId}
                           estimateId={estimateId}
+                          diarizeRecordings
                           onEstimateUpdate={(newEstimateId, newData) => {
                             setEstimateId(newEstimateId)
                             setEstimateData(newData)
@@ -481,6 +482,7 @@ export default function RecordPage() {
                         <EstimateChat
                           projectId={projectId!}
                           estimateId={estimateId}
+                          diarizeRecordings
                           onEstimateUpdate={(newEstimateId, newData) => {
                             setEstimateId(newEstimateId)
                             setEstimateData(newData)
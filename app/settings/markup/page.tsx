@@ -0,0 +1,210 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AuthGuard } from '@/components/auth-guard'
+import { Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { listMarkupRules, saveMarkupRule, deleteMarkupRule } from '@/actions/markup-rules'
+import { DEFAULT_MARKUP_STACK, tradeScope, type MarkupRule } from '@/lib/pricing/markup'
+import { COST_CODES, formatCostCode } from '@/lib/constants'
+import {
+  MarkupRuleFields,
+  ruleToDraft,
+  draftToInput,
+  EMPTY_MARKUP_DRAFT,
+  type MarkupRuleDraft,
+} from '@/components/estimate/MarkupRuleFields'
+
+const DEFAULT_PLACEHOLDERS = {
+  overhead_percent: `${DEFAULT_MARKUP_STACK.overhead_percent}`,
+  contingency_percent: `${DEFAULT_MARKUP_STACK.contingency_percent}`,
+  margin_percent: `${DEFAULT_MARKUP_STACK.profit_percent}`,
+  sales_tax_percent: `${DEFAULT_MARKUP_STACK.sales_tax_percent}`,
+}
+
+export default function MarkupSettingsPage() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [savingScope, setSavingScope] = useState<string | null>(null)
+  const [drafts, setDrafts] = useState<Record<string, MarkupRuleDraft>>({ all: EMPTY_MARKUP_DRAFT })
+  const [newTradeCode, setNewTradeCode] = useState<string>('')
+
+  useEffect(() => {
+    listMarkupRules()
+      .then(result => {
+        if (!result.success || !result.rules) {
+          toast.error(result.error || 'Failed to load markup rules')
+          return
+        }
+        const loaded: Record<string, MarkupRuleDraft> = { all: EMPTY_MARKUP_DRAFT }
+        result.rules.forEach((rule: MarkupRule) => {
+          loaded[rule.scope] = ruleToDraft(rule)
+        })
+        setDrafts(loaded)
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const tradeScopes = Object.keys(drafts).filter(scope => scope.startsWith('trade:')).sort()
+  const globalDraft = drafts.all
+
+  // Trade rules show the global value (or the default) when a layer is blank
+  const inheritedPlaceholders = {
+    overhead_percent: globalDraft.overhead_percent || DEFAULT_PLACEHOLDERS.overhead_percent,
+    contingency_percent: globalDraft.contingency_percent || DEFAULT_PLACEHOLDERS.contingency_percent,
+    margin_percent: globalDraft.margin_percent || DEFAULT_PLACEHOLDERS.margin_percent,
+    sales_tax_percent: globalDraft.sales_tax_percent || DEFAULT_PLACEHOLDERS.sales_tax_percent,
+  }
+
+  const handleSave = async (scope: string) => {
+    setSavingScope(scope)
+    try {
+      const result = await saveMarkupRule(scope, draftToInput(drafts[scope]))
+      if (!result.success) throw new Error(result.error)
+      toast.success('Markup saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save markup')
+    } finally {
+      setSavingScope(null)
+    }
+  }
+
+  const handleDelete = async (scope: string) => {
+    setSavingScope(scope)
+    try {
+      const result = await deleteMarkupRule(scope)
+      if (!result.success) throw new Error(result.error)
+      setDrafts(prev => {
+        const next = { ...prev }
+        delete next[scope]
+        return next
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete markup')
+    } finally {
+      setSavingScope(null)
+    }
+  }
+
+  const handleAddTrade = () => {
+    if (!newTradeCode) return
+    const scope = tradeScope(newTradeCode)
+    setDrafts(prev => (prev[scope] ? prev : { ...prev, [scope]: EMPTY_MARKUP_DRAFT }))
+    setNewTradeCode('')
+  }
+
+  if (isLoading) {
+    return (
+      <AuthGuard>
+        <div className="flex min-h-screen w-full max-w-[100vw] overflow-x-hidden items-center justify-center">
+          <div className="text-center">
+            <div className="mx-auto mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+            <p className="text-muted-foreground">Loading markup rules...</p>
+          </div>
+        </div>
+      </AuthGuard>
+    )
+  }
+
+  return (
+    <AuthGuard>
+      <div className="flex min-h-screen w-full max-w-[100vw] overflow-x-hidden flex-col items-center bg-muted/50 p-4 gap-6">
+        <Card className="w-full max-w-3xl">
+          <CardHeader>
+            <CardTitle className="text-2xl">Markup</CardTitle>
+            <CardDescription>
+              Sales tax applies to materials only. Overhead and contingency are a percentage of cost plus tax; profit is applied on top of all three.
+              Trade and project rules override only the layers they set. Projects are configured from their Summary tab.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3">
+              <p className="text-sm font-medium">All Work</p>
+              <MarkupRuleFields
+                idPrefix="all"
+                draft={globalDraft}
+                onChange={(draft) => setDrafts(prev => ({ ...prev, all: draft }))}
+                placeholders={DEFAULT_PLACEHOLDERS}
+              />
+              <div className="flex justify-end">
+                <Button size="sm" onClick={() => handleSave('all')} disabled={savingScope !== null}>
+                  {savingScope === 'all' ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="w-full max-w-3xl">
+          <CardHeader>
+            <CardTitle>By Trade</CardTitle>
+            <CardDescription>
+              Different markup for specific cost codes, e.g. a lower profit on pass-through subcontracts.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {tradeScopes.length === 0 && (
+              <p className="text-sm text-muted-foreground">No trade rules. Every trade uses the markup above.</p>
+            )}
+
+            {tradeScopes.map(scope => (
+              <div key={scope} className="space-y-3 border-b pb-4 last:border-b-0">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">{formatCostCode(scope.slice('trade:'.length))}</p>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => handleDelete(scope)}
+                    disabled={savingScope !== null}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <MarkupRuleFields
+                  idPrefix={scope}
+                  draft={drafts[scope]}
+                  onChange={(draft) => setDrafts(prev => ({ ...prev, [scope]: draft }))}
+                  placeholders={inheritedPlaceholders}
+                />
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={() => handleSave(scope)} disabled={savingScope !== null}>
+                    {savingScope === scope ? 'Saving...' : 'Save'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2">
+              <Select value={newTradeCode} onValueChange={setNewTradeCode}>
+                <SelectTrigger className="h-9">
+                  <SelectValue placeholder="Select a trade..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {COST_CODES.filter(cc => !drafts[tradeScope(cc.code)]).map(cc => (
+                    <SelectItem key={cc.code} value={cc.code}>
+                      {cc.code} - {cc.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleAddTrade} disabled={!newTradeCode}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Trade
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="w-full max-w-3xl flex justify-end">
+          <Link href="/onboarding/pricing" className="text-sm text-primary hover:underline">
+            Pricing setup →
+          </Link>
+        </div>
+      </div>
+    </AuthGuard>
+  )
+}
@@ -0,0 +1,242 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { supabase } from "@/lib/supabase/client"
+import { toast } from 'sonner'
+import type { ChangeOrder, ChangeOrderStatus, EstimateStatus } from "@/types/db"
+import { FileText, Plus, Send, Check, X, Trash2 } from "lucide-react"
+import { CreateChangeOrderDialog } from './CreateChangeOrderDialog'
+import {
+  sendChangeOrder,
+  approveChangeOrder,
+  rejectChangeOrder,
+  deleteChangeOrder,
+  type ChangeOrderResult
+} from '@/actions/change-orders'
+
+const formatDelta = (value: number) => {
+  const formatted = new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(Math.abs(value))
+  return `${value >= 0 ? '+' : '-'}$${formatted}`
+}
+
+const getStatusColor = (status: ChangeOrderStatus) => {
+  switch (status) {
+    case 'approved':
+      return 'bg-primary/20 text-primary border-primary/30'
+    case 'sent':
+      return 'bg-primary/10 text-primary border-primary/20'
+    case 'rejected':
+      return 'bg-destructive/10 text-destructive border-destructive/30'
+    default:
+      return 'bg-muted text-muted-foreground border-border'
+  }
+}
+
+/**
+ * Change orders for a project. New change orders can only be created once
+ * the estimate is contract_signed; before that the estimate itself is edited.
+ */
+export function ChangeOrdersSection({ projectId, onContractChanged }: { projectId: string; onContractChanged?: () => void }) {
+  const [changeOrders, setChangeOrders] = useState<ChangeOrder[]>([])
+  const [estimateId, setEstimateId] = useState<string | null>(null)
+  const [estimateStatus, setEstimateStatus] = useState<EstimateStatus | null>(null)
+  const [createOpen, setCreateOpen] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchChangeOrders = useCallback(async () => {
+    try {
+      const [{ data: changeOrderData, error }, { data: estimate }] = await Promise.all([
+        supabase
+          .from('change_orders')
+          .select('*')
+          .eq('project_id', projectId)
+          .order('number', { ascending: false }),
+        supabase
+          .from('estimates')
+          .select('id, status')
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+      ])
+
+      if (error) throw error
+      setChangeOrders((changeOrderData || []) as ChangeOrder[])
+      setEstimateId(estimate?.id ?? null)
+      setEstimateStatus((estimate?.status as EstimateStatus) ?? null)
+    } catch (error) {
+      console.error('Error fetching change orders:', error)
+      toast.error('Failed to load change orders')
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchChangeOrders()
+  }, [fetchChangeOrders])
+
+  const runAction = async (
+    changeOrderId: string,
+    action: (id: string) => Promise<ChangeOrderResult>,
+    successMessage: string
+  ) => {
+    try {
+      setBusyId(changeOrderId)
+      const result = await action(changeOrderId)
+      if (!result.success) throw new Error(result.error)
+      toast.success(successMessage)
+      await fetchChangeOrders()
+      if (result.status === 'approved') {
+        onContractChanged?.()
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update change order')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleViewPdf = async (changeOrder: ChangeOrder) => {
+    try {
+      toast.loading('Generating PDF...', { id: 'co-pdf' })
+      const response = await fetch(`/api/change-orders/${changeOrder.id}/pdf`)
+      if (!response.ok) throw new Error('Failed to generate PDF')
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `change-order-${changeOrder.number}.pdf`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      window.URL.revokeObjectURL(url)
+      toast.success('PDF generated successfully', { id: 'co-pdf' })
+    } catch (err) {
+      toast.error('Failed to generate PDF', { id: 'co-pdf' })
+    }
+  }
+
+  const canCreate = estimateStatus === 'contract_signed' && !!estimateId
+
+  const renderActions = (changeOrder: ChangeOrder, mobile = false) => {
+    const busy = busyId === changeOrder.id
+    const sizeClass = mobile ? 'min-h-[44px] flex-1' : undefined
+    return (
+      <>
+        {changeOrder.status === 'draft' && (
+          <>
+            <Button variant="outline" size="sm" className={sizeClass} disabled={busy}
+              onClick={() => runAction(changeOrder.id, sendChangeOrder, 'Change order marked as sent')}>
+              <Send className="mr-2 h-4 w-4" />Send
+            </Button>
+            <Button variant="ghost" size="sm" className={sizeClass} disabled={busy}
+              onClick={() => {
+                if (!confirm(`Delete change order #${changeOrder.number}?`)) return
+                runAction(changeOrder.id, deleteChangeOrder, 'Change order deleted')
+              }}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        {changeOrder.status === 'sent' && (
+          <>
+            <Button variant="outline" size="sm" className={sizeClass} disabled={busy}
+              onClick={() => runAction(changeOrder.id, approveChangeOrder, 'Change order approved')}>
+              <Check className="mr-2 h-4 w-4" />Approve
+            </Button>
+            <Button variant="outline" size="sm" className={sizeClass} disabled={busy}
+              onClick={() => runAction(changeOrder.id, rejectChangeOrder, 'Change order rejected')}>
+              <X className="mr-2 h-4 w-4" />Reject
+            </Button>
+          </>
+        )}
+        <Button variant="outline" size="sm" className={sizeClass} onClick={() => handleViewPdf(changeOrder)}>
+          <FileText className="mr-2 h-4 w-4" />View PDF
+        </Button>
+      </>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <CardHeader className="p-0"><CardTitle>Change Orders</CardTitle></CardHeader>
+        <Button
+          onClick={() => setCreateOpen(true)}
+          disabled={!canCreate}
+          title={canCreate ? undefined : 'Change orders are available once the contract is signed'}
+          className="w-full sm:w-auto min-h-[44px] sm:min-h-0"
+        >
+          <Plus className="mr-2 h-4 w-4" />New Change Order
+        </Button>
+      </div>
+
+      {changeOrders.length === 0 ? (
+        <Card><CardContent className="py-12 text-center text-muted-foreground">
+          {canCreate ? 'No change orders yet' : 'Change orders become available once the contract is signed'}
+        </CardContent></Card>
+      ) : (
+        <>
+          {/* Desktop Table */}
+          <Card className="hidden md:block">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead className="text-right">Price Change</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changeOrders.map((changeOrder) => (
+                  <TableRow key={changeOrder.id}>
+                    <TableCell className="font-medium">CO-{changeOrder.number}</TableCell>
+                    <TableCell>{changeOrder.title}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatDelta(Number(changeOrder.total_delta) || 0)}</TableCell>
+                    <TableCell><Badge className={getStatusColor(changeOrder.status)}>{changeOrder.status}</Badge></TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">{renderActions(changeOrder)}</div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+
+          {/* Mobile Card List */}
+          <div className="space-y-3 md:hidden">
+            {changeOrders.map((changeOrder) => (
+              <Card key={changeOrder.id} className="p-4">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">CO-{changeOrder.number} · {changeOrder.title}</span>
+                    <Badge className={getStatusColor(changeOrder.status)}>{changeOrder.status}</Badge>
+                  </div>
+                  <span className="text-lg font-semibold tabular-nums">{formatDelta(Number(changeOrder.total_delta) || 0)}</span>
+                  <div className="flex flex-wrap gap-2">{renderActions(changeOrder, true)}</div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+
+      {estimateId && (
+        <CreateChangeOrderDialog
+          open={createOpen}
+          onOpenChange={setCreateOpen}
+          estimateId={estimateId}
+          onSuccess={() => {
+            fetchChangeOrders()
+            setCreateOpen(false)
+          }}
+        />
+      )}
+    </div>
+  )
+}
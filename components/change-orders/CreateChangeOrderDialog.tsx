@@ -0,0 +1,367 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { createChangeOrder, type ChangeOrderItemInput } from '@/actions/change-orders'
+import { supabase } from "@/lib/supabase/client"
+import { toast } from 'sonner'
+import { cn } from "@/lib/utils"
+import { Plus, Trash2, DollarSign } from "lucide-react"
+
+interface CreateChangeOrderDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  estimateId: string
+  onSuccess: () => void
+}
+
+interface SignedLineItem {
+  id: string
+  description: string | null
+  room_name: string | null
+  quantity: number | null
+  unit: string | null
+  direct_cost: number | null
+  client_price: number | null
+}
+
+type LineItemChange =
+  | { type: 'none' }
+  | { type: 'remove' }
+  | { type: 'modify'; quantity: number | null; clientPrice: number }
+
+interface AddedItem {
+  description: string
+  quantity: number | null
+  unit: string
+  directCost: number
+  clientPrice: number
+}
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value)
+
+export function CreateChangeOrderDialog({ open, onOpenChange, estimateId, onSuccess }: CreateChangeOrderDialogProps) {
+  const [title, setTitle] = useState('')
+  const [reason, setReason] = useState('')
+  const [lineItems, setLineItems] = useState<SignedLineItem[]>([])
+  const [changes, setChanges] = useState<Record<string, LineItemChange>>({})
+  const [addedItems, setAddedItems] = useState<AddedItem[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setTitle('')
+      setReason('')
+      setChanges({})
+      setAddedItems([])
+      fetchLineItems()
+    }
+  }, [open, estimateId])
+
+  const fetchLineItems = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('estimate_line_items')
+        .select('id, description, room_name, quantity, unit, direct_cost, client_price')
+        .eq('estimate_id', estimateId)
+        .neq('is_active', false)
+        .order('room_name', { ascending: true })
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      setLineItems(data || [])
+    } catch (error) {
+      console.error('Error fetching line items:', error)
+      toast.error('Failed to load line items')
+    }
+  }
+
+  const setChangeType = (item: SignedLineItem, type: LineItemChange['type']) => {
+    setChanges(prev => ({
+      ...prev,
+      [item.id]: type === 'modify'
+        ? { type: 'modify', quantity: item.quantity, clientPrice: Number(item.client_price) || 0 }
+        : { type }
+    }))
+  }
+
+  const updateModify = (itemId: string, field: 'quantity' | 'clientPrice', value: number) => {
+    setChanges(prev => {
+      const current = prev[itemId]
+      if (!current || current.type !== 'modify') return prev
+      return { ...prev, [itemId]: { ...current, [field]: value } }
+    })
+  }
+
+  const addItem = () => {
+    setAddedItems([...addedItems, { description: '', quantity: 1, unit: 'EA', directCost: 0, clientPrice: 0 }])
+  }
+
+  const updateAddedItem = (index: number, field: keyof AddedItem, value: string | number) => {
+    const next = [...addedItems]
+    next[index] = { ...next[index], [field]: value }
+    setAddedItems(next)
+  }
+
+  const removeAddedItem = (index: number) => {
+    setAddedItems(addedItems.filter((_, i) => i !== index))
+  }
+
+  // Net change to the contract price
+  const totalDelta = lineItems.reduce((sum, item) => {
+    const change = changes[item.id]
+    const previous = Number(item.client_price) || 0
+    if (!change || change.type === 'none') return sum
+    if (change.type === 'remove') return sum - previous
+    return sum + (change.clientPrice - previous)
+  }, 0) + addedItems.reduce((sum, item) => sum + (item.clientPrice || 0), 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const items: ChangeOrderItemInput[] = []
+    for (const item of lineItems) {
+      const change = changes[item.id]
+      if (!change || change.type === 'none') continue
+      if (change.type === 'remove') {
+        items.push({ changeType: 'remove', lineItemId: item.id })
+      } else {
+        items.push({
+          changeType: 'modify',
+          lineItemId: item.id,
+          quantity: change.quantity,
+          clientPrice: change.clientPrice
+        })
+      }
+    }
+    for (const item of addedItems) {
+      if (!item.description.trim()) {
+        toast.error('Every added item needs a description')
+        return
+      }
+      items.push({
+        changeType: 'add',
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit || null,
+        directCost: item.directCost || null,
+        clientPrice: item.clientPrice
+      })
+    }
+
+    if (items.length === 0) {
+      toast.error('Add, modify or remove at least one item')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const result = await createChangeOrder(estimateId, { title, reason, items })
+      if (!result.success) throw new Error(result.error)
+      toast.success('Change order created')
+      onSuccess()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create change order')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Change Order</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="co-title">Title</Label>
+              <Input
+                id="co-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g., Upgrade kitchen countertops to quartz"
+              />
+            </div>
+            <div>
+              <Label htmlFor="co-reason">Reason</Label>
+              <Textarea
+                id="co-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is the scope changing?"
+                className="min-h-[80px]"
+              />
+            </div>
+          </div>
+
+          {/* Existing signed scope */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Signed Scope</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {lineItems.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No active line items on this estimate.</p>
+              ) : lineItems.map((item) => {
+                const change = changes[item.id] || { type: 'none' }
+                return (
+                  <div
+                    key={item.id}
+                    className={cn(
+                      "border rounded-lg p-3 space-y-2",
+                      change.type === 'remove' && "bg-red-50 border-red-200",
+                      change.type === 'modify' && "bg-yellow-50 border-yellow-200"
+                    )}
+                  >
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className={cn("text-sm font-medium", change.type === 'remove' && "line-through")}>
+                          {item.description || 'Untitled item'}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.room_name || 'General'} · {item.quantity ?? '—'} {item.unit || ''} · ${formatMoney(Number(item.client_price) || 0)}
+                        </p>
+                      </div>
+                      <Select
+                        value={change.type}
+                        onValueChange={(value: LineItemChange['type']) => setChangeType(item, value)}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No change</SelectItem>
+                          <SelectItem value="modify">Modify</SelectItem>
+                          <SelectItem value="remove">Remove</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {change.type === 'modify' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label className="text-xs">New Quantity</Label>
+                          <Input
+                            type="number"
+                            step="any"
+                            value={change.quantity ?? ''}
+                            onChange={(e) => updateModify(item.id, 'quantity', Number(e.target.value))}
+                            className="text-sm tabular-nums"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">New Price</Label>
+                          <div className="relative">
+                            <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              value={change.clientPrice}
+                              onChange={(e) => updateModify(item.id, 'clientPrice', Number(e.target.value))}
+                              className="pl-9 text-sm tabular-nums"
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+
+          {/* Added scope */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Added Scope</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {addedItems.map((item, idx) => (
+                <div key={idx} className="flex gap-2 items-start">
+                  <div className="flex-1 grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <Input
+                      value={item.description}
+                      onChange={(e) => updateAddedItem(idx, 'description', e.target.value)}
+                      placeholder="Description"
+                      className="text-sm col-span-2"
+                    />
+                    <div className="flex gap-1">
+                      <Input
+                        type="number"
+                        step="any"
+                        value={item.quantity ?? ''}
+                        onChange={(e) => updateAddedItem(idx, 'quantity', Number(e.target.value))}
+                        placeholder="Qty"
+                        className="text-sm tabular-nums"
+                      />
+                      <Input
+                        value={item.unit}
+                        onChange={(e) => updateAddedItem(idx, 'unit', e.target.value)}
+                        placeholder="Unit"
+                        className="text-sm w-16"
+                      />
+                    </div>
+                    <div className="relative">
+                      <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={item.clientPrice}
+                        onChange={(e) => updateAddedItem(idx, 'clientPrice', Number(e.target.value))}
+                        placeholder="Price"
+                        className="pl-9 text-sm tabular-nums"
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeAddedItem(idx)}
+                    className="h-9 w-9 text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={addItem} className="w-full">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Item
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="bg-muted p-4 rounded-lg">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Contract Price Change:</span>
+              <span className={cn(
+                "text-lg font-bold tabular-nums",
+                totalDelta > 0 && "text-green-700",
+                totalDelta < 0 && "text-red-700"
+              )}>
+                {totalDelta >= 0 ? '+' : '-'}${formatMoney(Math.abs(totalDelta))}
+              </span>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Creating...' : 'Create Change Order'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { countersignContract } from '@/actions/contracts'
+import { toast } from 'sonner'
+import { Loader2 } from "lucide-react"
+
+interface CountersignContractDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  contract: {
+    id: string
+    total_price: number
+    client_signer_name: string | null
+    client_signed_at: string | null
+  } | null
+  onSuccess: () => void
+}
+
+export function CountersignContractDialog({ open, onOpenChange, contract, onSuccess }: CountersignContractDialogProps) {
+  const [signerName, setSignerName] = useState('')
+  const [agreed, setAgreed] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setSignerName('')
+      setAgreed(false)
+    }
+  }, [open, contract?.id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!contract) return
+
+    if (!signerName.trim()) {
+      toast.error('Type your full name to countersign')
+      return
+    }
+    if (!agreed) {
+      toast.error('Confirm that your typed name is your electronic signature')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const result = await countersignContract(contract.id, signerName)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to countersign contract')
+      }
+
+      toast.success('Contract signed - the signed copy has been saved to Files')
+      onSuccess()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error countersigning contract:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to countersign contract')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-md">
+        <DialogHeader>
+          <DialogTitle>Countersign Contract</DialogTitle>
+          <DialogDescription>
+            {contract?.client_signed_at
+              ? `Signed by ${contract.client_signer_name || 'the client'} on ${new Date(contract.client_signed_at).toLocaleDateString()}. `
+              : ''}
+            Countersigning finalizes the contract and archives a signed copy that can't be edited or deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="countersign-name">Your full name</Label>
+            <Input
+              id="countersign-name"
+              value={signerName}
+              onChange={(e) => setSignerName(e.target.value)}
+              autoComplete="name"
+            />
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="countersign-agree"
+              checked={agreed}
+              onCheckedChange={(checked) => setAgreed(checked === true)}
+              className="mt-0.5"
+            />
+            <label htmlFor="countersign-agree" className="text-sm text-muted-foreground">
+              I agree that typing my name above is my electronic signature on this contract
+              for ${new Intl.NumberFormat().format(contract?.total_price || 0)}.
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {loading ? 'Signing...' : 'Countersign'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -27,6 +27,9 @@ interface CreateContractDrawerProps {
 interface PaymentMilestone {
   milestone: string
   amount: number
+  /** Optional cost code range whose completed tasks make this milestone invoiceable */
+  costCodeStart?: number | null
+  costCodeEnd?: number | null
 }
 
 export function CreateContractDrawer({ open, onOpenChange, projectId, proposalId: providedProposalId, onSuccess }: CreateContractDrawerProps) {
@@ -34,6 +37,7 @@ export function CreateContractDrawer({ open, onOpenChange, projectId, proposalId
   const [completionDate, setCompletionDate] = useState<Date>()
   const [totalPrice, setTotalPrice] = useState(0)
   const [downPayment, setDownPayment] = useState(0)
+  const [retainagePercent, setRetainagePercent] = useState(0)
   const [paymentSchedule, setPaymentSchedule] = useState<PaymentMilestone[]>([
     { milestone: '50% Rough', amount: 0 },
     { milestone: '50% Finish', amount: 0 }
@@ -98,6 +102,13 @@ export function CreateContractDrawer({ open, onOpenChange, projectId, proposalId
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    const partialRange = paymentSchedule.find(item => (item.costCodeStart == null) !== (item.costCodeEnd == null))
+    if (partialRange) {
+      toast.error(`Enter both ends of the cost code range for "${partialRange.milestone || 'milestone'}"`)
+      return
+    }
+
     setLoading(true)
     try {
       const result = await createContractFromProposal(projectId, proposalId, {
@@ -105,6 +116,7 @@ export function CreateContractDrawer({ open, onOpenChange, projectId, proposalId
         completionDate: completionDate ? format(completionDate, 'yyyy-MM-dd') : '',
         totalPrice,
         downPayment,
+        retainagePercent,
         paymentSchedule,
         legalText
       })
@@ -139,7 +151,11 @@ export function CreateContractDrawer({ open, onOpenChange, projectId, proposalId
   }
 
   // Update payment milestone
-  const updatePaymentMilestone = (index: number, field: 'milestone' | 'amount', value: string | number) => {
+  const updatePaymentMilestone = (
+    index: number,
+    field: 'milestone' | 'amount' | 'costCodeStart' | 'costCodeEnd',
+    value: string | number | null
+  ) => {
     const newSchedule = [...paymentSchedule]
     newSchedule[index] = { ...newSchedule[index], [field]: value }
     setPaymentSchedule(newSchedule)
@@ -245,6 +261,26 @@ export function CreateContractDrawer({ open, onOpenChange, projectId, proposalId
                   />
                 </div>
               </div>
+              <div>
+                <Label htmlFor="retainage-percent">Retainage</Label>
+                <div className="relative">
+                  <Input
+                    id="retainage-percent"
+                    type="number"
+                    step="0.5"
+                    min={0}
+                    max={100}
+                    value={retainagePercent}
+                    onChange={(e) => setRetainagePercent(Number(e.target.value))}
+                    className="pr-8"
+                    placeholder="0"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Withheld from each invoice and released at closeout. Leave at 0 for none.
+                </p>
+              </div>
               <div className="bg-muted p-4 rounded-lg">
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium">Remaining Balance:</span>
@@ -283,6 +319,31 @@ export function CreateContractDrawer({ open, onOpenChange, projectId, proposalId
                           className="pl-9 text-sm tabular-nums"
                         />
                       </div>
+                      <div className="sm:col-span-2 flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="whitespace-nowrap">Ready when cost codes</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={item.costCodeStart ?? ''}
+                          onChange={(e) => updatePaymentMilestone(idx, 'costCodeStart', e.target.value === '' ? null : Number(e.target.value))}
+                          placeholder="400"
+                          className="h-8 w-20 text-xs tabular-nums"
+                          aria-label="First cost code"
+                        />
+                        <span>to</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={item.costCodeEnd ?? ''}
+                          onChange={(e) => updatePaymentMilestone(idx, 'costCodeEnd', e.target.value === '' ? null : Number(e.target.value))}
+                          placeholder="499"
+                          className="h-8 w-20 text-xs tabular-nums"
+                          aria-label="Last cost code"
+                        />
+                        <span className="whitespace-nowrap">are complete (optional)</span>
+                      </div>
                     </div>
                     <Button
                       type="button"
@@ -0,0 +1,138 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { getArAging, type ArAgingReport } from '@/actions/payments'
+import { AGING_BUCKETS } from '@/lib/invoice-status'
+import { cn } from '@/lib/utils'
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value || 0)
+
+const formatCurrencyPrecise = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value || 0)
+
+/** Invoices listed under the bucket totals */
+const MAX_INVOICES = 8
+
+export function ArAgingWidget() {
+  const [report, setReport] = useState<ArAgingReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    setIsLoading(true)
+    try {
+      const result = await getArAging()
+      if (result.success && result.data) {
+        setReport(result.data)
+      }
+    } catch (error) {
+      console.error('Error loading A/R aging:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (isLoading || !report || report.invoices.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts Receivable</CardTitle>
+          <CardDescription>Outstanding invoices by age</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-32 flex items-center justify-center text-muted-foreground">
+            {isLoading ? 'Loading...' : <p className="text-sm">No outstanding invoices</p>}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Accounts Receivable</CardTitle>
+            <CardDescription>
+              {report.invoices.length} open invoice{report.invoices.length !== 1 ? 's' : ''} across all projects
+            </CardDescription>
+          </div>
+          <p className="text-2xl font-bold tabular-nums">{formatCurrency(report.totalOutstanding)}</p>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Aging buckets */}
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          {AGING_BUCKETS.map(({ key, label }) => (
+            <div
+              key={key}
+              className={cn(
+                "rounded-lg border p-3",
+                key !== 'current' && report.buckets[key] > 0 && "border-destructive/30 bg-destructive/5"
+              )}
+            >
+              <p className="text-xs text-muted-foreground">{key === 'current' ? label : `${label} days`}</p>
+              <p className="text-lg font-semibold tabular-nums">{formatCurrency(report.buckets[key])}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Oldest open invoices */}
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead className="text-right">Days Past Due</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.invoices.slice(0, MAX_INVOICES).map(invoice => (
+                <TableRow key={invoice.invoiceId}>
+                  <TableCell className="font-medium whitespace-nowrap">
+                    {invoice.invoiceNumber}
+                    {invoice.status === 'partially_paid' && (
+                      <Badge variant="outline" className="ml-2 text-xs">Partial</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-[200px] truncate">
+                    <Link href={`/projects/${invoice.projectId}?tab=manage`} className="hover:underline">
+                      {invoice.projectTitle}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(`${(invoice.dueDate || invoice.issuedDate).slice(0, 10)}T00:00:00`).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrencyPrecise(invoice.balance)}</TableCell>
+                  <TableCell className={cn(
+                    "text-right tabular-nums",
+                    invoice.daysPastDue > 0 && "text-destructive font-medium"
+                  )}>
+                    {invoice.daysPastDue > 0 ? invoice.daysPastDue : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {report.invoices.length > MAX_INVOICES && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Showing the {MAX_INVOICES} oldest of {report.invoices.length} open invoices
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react"
+import {
+  createEstimateAlternate,
+  updateEstimateAlternate,
+  deleteEstimateAlternate,
+  setEstimateAlternateSelection,
+} from '@/actions/estimate-alternates'
+import type { EstimateAlternate } from "@/types/db"
+import { toast } from 'sonner'
+
+interface AlternatesManagerProps {
+  estimateId: string
+  alternates: EstimateAlternate[]
+  selectedAlternateIds: string[]
+  /** Base scope total and each alternate's own total */
+  totals: { base: number; byAlternate: Map<string, number> }
+  isLocked: boolean
+  onAlternatesChange: (alternates: EstimateAlternate[]) => void
+  onSelectionChange: (selectedAlternateIds: string[]) => void
+  /** Called after a delete - items belonging only to that alternate are removed server-side */
+  onAlternateDeleted: () => void
+}
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/**
+ * Good / better / best alternates for an estimate: base total, each
+ * alternate's total, and which alternates count toward the estimate total.
+ */
+export function AlternatesManager({
+  estimateId,
+  alternates,
+  selectedAlternateIds,
+  totals,
+  isLocked,
+  onAlternatesChange,
+  onSelectionChange,
+  onAlternateDeleted,
+}: AlternatesManagerProps) {
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return
+    setBusy(true)
+    try {
+      const result = await createEstimateAlternate(estimateId, { name: newName })
+      if (!result.success || !result.alternate) throw new Error(result.error)
+      onAlternatesChange([...alternates, result.alternate])
+      setNewName('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add alternate')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRename = async (alternate: EstimateAlternate) => {
+    if (!editingName.trim() || editingName.trim() === alternate.name) {
+      setEditingId(null)
+      return
+    }
+    setBusy(true)
+    try {
+      const result = await updateEstimateAlternate(alternate.id, {
+        name: editingName,
+        description: alternate.description,
+      })
+      if (!result.success || !result.alternate) throw new Error(result.error)
+      onAlternatesChange(alternates.map(a => a.id === alternate.id ? result.alternate! : a))
+      setEditingId(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rename alternate')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async (alternate: EstimateAlternate) => {
+    if (!confirm(`Delete alternate "${alternate.name}"? Line items only in this alternate will be deleted.`)) {
+      return
+    }
+    setBusy(true)
+    try {
+      const result = await deleteEstimateAlternate(alternate.id)
+      if (!result.success) throw new Error(result.error)
+      onAlternatesChange(alternates.filter(a => a.id !== alternate.id))
+      onSelectionChange(selectedAlternateIds.filter(id => id !== alternate.id))
+      onAlternateDeleted()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete alternate')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleToggleSelected = async (alternateId: string, selected: boolean) => {
+    const next = selected
+      ? [...selectedAlternateIds, alternateId]
+      : selectedAlternateIds.filter(id => id !== alternateId)
+    const previous = selectedAlternateIds
+    onSelectionChange(next)
+    const result = await setEstimateAlternateSelection(estimateId, next)
+    if (!result.success) {
+      onSelectionChange(previous)
+      toast.error(result.error || 'Failed to update alternate selection')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Alternates</h4>
+
+      <div className="flex items-center justify-between text-sm py-0.5">
+        <span className="text-muted-foreground">Base scope</span>
+        <span className="font-medium tabular-nums whitespace-nowrap">{formatMoney(totals.base)}</span>
+      </div>
+
+      {alternates.map(alternate => {
+        const isSelected = selectedAlternateIds.includes(alternate.id)
+        const isEditing = editingId === alternate.id
+        return (
+          <div key={alternate.id} className="flex items-center justify-between gap-2 text-sm py-0.5">
+            <div className="flex items-center gap-2 min-w-0 flex-1">
+              <Checkbox
+                id={`alternate-${alternate.id}`}
+                checked={isSelected}
+                disabled={isLocked || busy}
+                onCheckedChange={(checked) => handleToggleSelected(alternate.id, checked === true)}
+                aria-label={`Include ${alternate.name} in total`}
+              />
+              {isEditing ? (
+                <Input
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(alternate)
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  className="h-7 text-sm"
+                  autoFocus
+                />
+              ) : (
+                <label htmlFor={`alternate-${alternate.id}`} className="truncate">
+                  {alternate.name}
+                </label>
+              )}
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <span className="font-medium tabular-nums whitespace-nowrap">
+                +{formatMoney(totals.byAlternate.get(alternate.id) ?? 0)}
+              </span>
+              {!isLocked && (
+                isEditing ? (
+                  <>
+                    <Button variant="ghost" size="icon-sm" className="h-6 w-6 p-0" onClick={() => handleRename(alternate)} disabled={busy}>
+                      <Check className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon-sm" className="h-6 w-6 p-0" onClick={() => setEditingId(null)}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => {
+                        setEditingId(alternate.id)
+                        setEditingName(alternate.name)
+                      }}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon-sm" className="h-6 w-6 p-0" onClick={() => handleDelete(alternate)} disabled={busy}>
+                      <Trash2 className="h-3 w-3 text-destructive" />
+                    </Button>
+                  </>
+                )
+              )}
+            </div>
+          </div>
+        )
+      })}
+
+      {!isLocked && (
+        <div className="flex items-center gap-2 pt-1">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd()
+            }}
+            placeholder="e.g., Better – Quartz countertops"
+            className="h-8 text-sm"
+          />
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={busy || !newName.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      )}
+
+      {alternates.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Checked alternates are included in the estimate total. Proposals list every alternate as an optional add-on.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,442 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import { supabase } from '@/lib/supabase/client'
+import { cn } from '@/lib/utils'
+import {
+  listAssemblies,
+  saveAssembly,
+  deleteAssembly,
+  insertAssemblyIntoRoom,
+  type AssemblyItemInput,
+} from '@/actions/assemblies'
+import { listMarkupRules } from '@/actions/markup-rules'
+import { resolveMarkupStack, type MarkupRule } from '@/lib/pricing/markup'
+import {
+  ASSEMBLY_VARIABLES,
+  assemblyItemStack,
+  evaluateQuantityExpression,
+  priceAssemblyQuantity,
+  roomMeasures,
+  validateQuantityExpression,
+  type MeasurableRoom,
+} from '@/lib/assemblies'
+import type { AssemblyWithItems } from "@/types/db"
+import { toast } from 'sonner'
+
+interface AssembliesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  projectId: string
+  estimateId: string
+  /** Called after an assembly was inserted - the table reloads its items */
+  onInserted: () => void
+}
+
+interface RoomOption extends MeasurableRoom {
+  id: string
+  name: string
+}
+
+type DraftItem = {
+  description: string
+  cost_code: string
+  unit: string
+  quantity_expression: string
+  unit_cost: string
+}
+
+const EMPTY_DRAFT_ITEM: DraftItem = { description: '', cost_code: '', unit: 'SF', quantity_expression: 'floor', unit_cost: '' }
+
+function formatMoney(value: number | null): string {
+  if (value === null) return '—'
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/**
+ * Insert an assembly (kit) into a room, and create / edit the user's
+ * assemblies. The preview evaluates each item's quantity expression against
+ * the selected room before anything is written.
+ */
+export function AssembliesDialog({ open, onOpenChange, projectId, estimateId, onInserted }: AssembliesDialogProps) {
+  const [assemblies, setAssemblies] = useState<AssemblyWithItems[]>([])
+  const [rooms, setRooms] = useState<RoomOption[]>([])
+  const [markupRules, setMarkupRules] = useState<MarkupRule[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const [assemblyId, setAssemblyId] = useState<string>('')
+  const [roomId, setRoomId] = useState<string>('')
+  const [count, setCount] = useState('1')
+
+  // Editor state: null = insert view, '' = new assembly, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [draftDescription, setDraftDescription] = useState('')
+  const [draftItems, setDraftItems] = useState<DraftItem[]>([EMPTY_DRAFT_ITEM])
+
+  useEffect(() => {
+    if (!open) return
+    setEditingId(null)
+    setCount('1')
+
+    const load = async () => {
+      setLoading(true)
+      try {
+        const [assembliesResult, { data: roomsData }, rulesResult] = await Promise.all([
+          listAssemblies(),
+          supabase
+            .from('rooms')
+            .select('id, name, length_ft, width_ft, ceiling_height_ft, floor_area_sqft, wall_area_sqft, ceiling_area_sqft')
+            .eq('project_id', projectId)
+            .eq('is_active', true)
+            .order('name', { ascending: true }),
+          listMarkupRules(projectId),
+        ])
+        if (!assembliesResult.success) throw new Error(assembliesResult.error)
+        setAssemblies(assembliesResult.assemblies || [])
+        setMarkupRules(rulesResult.rules || [])
+        setRooms((roomsData || []) as RoomOption[])
+        setAssemblyId(prev => prev || assembliesResult.assemblies?.[0]?.id || '')
+        setRoomId(prev => prev || roomsData?.[0]?.id || '')
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load assemblies')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [open, projectId])
+
+  const selectedAssembly = assemblies.find(a => a.id === assemblyId) || null
+  const selectedRoom = rooms.find(r => r.id === roomId) || null
+  const countValue = Number(count) > 0 ? Number(count) : 1
+
+  const preview = useMemo(() => {
+    if (!selectedAssembly) return []
+    const measures = roomMeasures(selectedRoom, countValue)
+    return selectedAssembly.items.map(item => {
+      const quantity = evaluateQuantityExpression(item.quantity_expression, measures)
+      const { client_price } = priceAssemblyQuantity(
+        quantity,
+        item.unit_cost === null ? null : Number(item.unit_cost),
+        assemblyItemStack(resolveMarkupStack(markupRules, { costCode: item.cost_code, projectId }), item.margin_percent)
+      )
+      return { item, quantity, clientPrice: client_price }
+    })
+  }, [selectedAssembly, selectedRoom, countValue, markupRules, projectId])
+
+  const previewTotal = preview.reduce((sum, row) => sum + (row.clientPrice ?? 0), 0)
+  const missingDimensions = preview.some(row => row.quantity === null)
+
+  const handleInsert = async () => {
+    if (!assemblyId || !roomId) return
+    setBusy(true)
+    try {
+      const result = await insertAssemblyIntoRoom({ estimateId, roomId, assemblyId, count: countValue })
+      if (!result.success) throw new Error(result.error)
+      toast.success(`Added ${result.items?.length ?? 0} items from "${selectedAssembly?.name}" to ${selectedRoom?.name}`)
+      onInserted()
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to insert assembly')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const startEditing = (assembly: AssemblyWithItems | null) => {
+    setEditingId(assembly?.id ?? '')
+    setDraftName(assembly?.name ?? '')
+    setDraftDescription(assembly?.description ?? '')
+    setDraftItems(assembly && assembly.items.length > 0
+      ? assembly.items.map(item => ({
+          description: item.description,
+          cost_code: item.cost_code ?? '',
+          unit: item.unit ?? '',
+          quantity_expression: item.quantity_expression,
+          unit_cost: item.unit_cost === null ? '' : String(item.unit_cost),
+        }))
+      : [EMPTY_DRAFT_ITEM])
+  }
+
+  const updateDraftItem = (index: number, updates: Partial<DraftItem>) => {
+    setDraftItems(prev => prev.map((item, i) => (i === index ? { ...item, ...updates } : item)))
+  }
+
+  const handleSave = async () => {
+    const items: AssemblyItemInput[] = draftItems
+      .filter(item => item.description.trim())
+      .map(item => ({
+        description: item.description,
+        cost_code: item.cost_code || null,
+        unit: item.unit || null,
+        quantity_expression: item.quantity_expression,
+        unit_cost: item.unit_cost.trim() === '' ? null : Number(item.unit_cost),
+      }))
+
+    setBusy(true)
+    try {
+      const result = await saveAssembly(editingId || null, {
+        name: draftName,
+        description: draftDescription,
+        items,
+      })
+      if (!result.success || !result.assembly) throw new Error(result.error)
+      const saved = result.assembly
+      setAssemblies(prev =>
+        [...prev.filter(a => a.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      )
+      setAssemblyId(saved.id)
+      setEditingId(null)
+      toast.success(`Saved "${saved.name}"`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save assembly')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async (assembly: AssemblyWithItems) => {
+    if (!confirm(`Delete the assembly "${assembly.name}"? Items already in estimates are kept.`)) return
+    setBusy(true)
+    try {
+      const result = await deleteAssembly(assembly.id)
+      if (!result.success) throw new Error(result.error)
+      setAssemblies(prev => prev.filter(a => a.id !== assembly.id))
+      if (assemblyId === assembly.id) setAssemblyId('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete assembly')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editingId === null ? 'Insert Assembly' : editingId ? 'Edit Assembly' : 'New Assembly'}</DialogTitle>
+          <DialogDescription>
+            {editingId === null
+              ? 'Adds every item in the kit to a room. Quantities follow the room when its dimensions change.'
+              : `Quantities are formulas over room measures: ${ASSEMBLY_VARIABLES.map(v => v.name).join(', ')}. E.g. "floor * 1.1" or "roundup(wall / 32)".`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId === null ? (
+          <div className="space-y-4">
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : assemblies.length === 0 ? (
+              <div className="text-center py-6 text-sm text-muted-foreground">
+                <p className="mb-3">No assemblies yet. Create one for bundles you enter often, like a full bathroom gut.</p>
+                <Button variant="outline" size="sm" onClick={() => startEditing(null)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Assembly
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_90px] gap-3">
+                  <div>
+                    <Label>Assembly</Label>
+                    <Select value={assemblyId} onValueChange={setAssemblyId}>
+                      <SelectTrigger><SelectValue placeholder="Choose an assembly" /></SelectTrigger>
+                      <SelectContent>
+                        {assemblies.map(a => (<SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Room</Label>
+                    <Select value={roomId} onValueChange={setRoomId}>
+                      <SelectTrigger><SelectValue placeholder={rooms.length ? 'Choose a room' : 'No rooms yet'} /></SelectTrigger>
+                      <SelectContent>
+                        {rooms.map(r => (<SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="assembly-count">Count</Label>
+                    <Input
+                      id="assembly-count"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={count}
+                      onChange={(e) => setCount(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                {selectedAssembly && (
+                  <div className="rounded-md border">
+                    <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/40">
+                      <span className="text-sm font-medium">{selectedAssembly.name}</span>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(selectedAssembly)} disabled={busy}>
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(selectedAssembly)} disabled={busy}>
+                          <Trash2 className="h-3.5 w-3.5 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="divide-y">
+                      {preview.map(({ item, quantity, clientPrice }) => (
+                        <div key={item.id} className="grid grid-cols-[1fr_auto_auto] gap-3 px-3 py-1.5 text-sm">
+                          <div className="min-w-0">
+                            <p className="truncate">{item.description}</p>
+                            <p className="text-[11px] text-muted-foreground font-mono">{item.quantity_expression}</p>
+                          </div>
+                          <span className={cn("tabular-nums text-right", quantity === null && "text-amber-600")}>
+                            {quantity === null ? 'needs dims' : `${quantity.toLocaleString()} ${item.unit || ''}`}
+                          </span>
+                          <span className="tabular-nums text-right w-24">{item.unit_cost === null ? 'unpriced' : formatMoney(clientPrice)}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-between px-3 py-2 border-t text-sm font-medium">
+                      <span>Total</span>
+                      <span className="tabular-nums">{formatMoney(previewTotal)}</span>
+                    </div>
+                  </div>
+                )}
+
+                {missingDimensions && (
+                  <p className="text-xs text-amber-700">
+                    This room has no dimensions yet. Those items are added without a quantity and fill in once
+                    dimensions are entered.
+                  </p>
+                )}
+              </>
+            )}
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              {assemblies.length > 0 ? (
+                <Button variant="outline" onClick={() => startEditing(null)} disabled={busy}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Assembly
+                </Button>
+              ) : <span />}
+              <Button onClick={handleInsert} disabled={busy || !assemblyId || !roomId}>
+                {busy ? 'Adding...' : 'Add to Room'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-3">
+              <div>
+                <Label htmlFor="assembly-name">Name</Label>
+                <Input
+                  id="assembly-name"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  placeholder="e.g., Full bathroom gut"
+                />
+              </div>
+              <div>
+                <Label htmlFor="assembly-description">Description</Label>
+                <Textarea
+                  id="assembly-description"
+                  value={draftDescription}
+                  onChange={(e) => setDraftDescription(e.target.value)}
+                  rows={2}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="hidden sm:grid grid-cols-[1fr_70px_60px_150px_90px_32px] gap-2 text-xs text-muted-foreground">
+                <span>Description</span>
+                <span>Cost code</span>
+                <span>Unit</span>
+                <span>Quantity</span>
+                <span>Unit cost</span>
+                <span />
+              </div>
+              {draftItems.map((item, index) => {
+                const expressionError = item.quantity_expression.trim()
+                  ? validateQuantityExpression(item.quantity_expression)
+                  : 'Quantity is required'
+                return (
+                  <div key={index} className="space-y-0.5">
+                    <div className="grid grid-cols-2 sm:grid-cols-[1fr_70px_60px_150px_90px_32px] gap-2">
+                      <Input
+                        className="col-span-2 sm:col-span-1 h-8 text-sm"
+                        value={item.description}
+                        onChange={(e) => updateDraftItem(index, { description: e.target.value })}
+                        placeholder="Description"
+                      />
+                      <Input
+                        className="h-8 text-sm"
+                        value={item.cost_code}
+                        onChange={(e) => updateDraftItem(index, { cost_code: e.target.value })}
+                        placeholder="728"
+                      />
+                      <Input
+                        className="h-8 text-sm"
+                        value={item.unit}
+                        onChange={(e) => updateDraftItem(index, { unit: e.target.value.toUpperCase() })}
+                        placeholder="SF"
+                      />
+                      <Input
+                        className={cn("h-8 text-sm font-mono", expressionError && item.description.trim() && "border-red-400")}
+                        value={item.quantity_expression}
+                        onChange={(e) => updateDraftItem(index, { quantity_expression: e.target.value })}
+                        placeholder="floor * 1.1"
+                      />
+                      <Input
+                        className="h-8 text-sm"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.unit_cost}
+                        onChange={(e) => updateDraftItem(index, { unit_cost: e.target.value })}
+                        placeholder="—"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setDraftItems(prev => prev.length > 1 ? prev.filter((_, i) => i !== index) : prev)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                    {expressionError && item.description.trim() && (
+                      <p className="text-[11px] text-red-600">{expressionError}</p>
+                    )}
+                  </div>
+                )
+              })}
+              <Button variant="outline" size="sm" onClick={() => setDraftItems(prev => [...prev, EMPTY_DRAFT_ITEM])}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Item
+              </Button>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditingId(null)} disabled={busy}>
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={busy || !draftName.trim()}>
+                {busy ? 'Saving...' : 'Save Assembly'}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
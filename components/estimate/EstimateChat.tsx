@@ -6,9 +6,12 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent } from '@/components/ui/card'
 // Using div with overflow for scrolling since ScrollArea may not exist
 import { Mic, Send, Loader2, Eye, Edit, Undo2, CheckCircle2 } from 'lucide-react'
-import { Recorder } from '@/components/voice/Recorder'
+import { Recorder, type LiveExtractionResult } from '@/components/voice/Recorder'
+import { SpeakerTranscriptReview } from '@/components/voice/SpeakerTranscriptReview'
+import { updateRecordingSpeakers, type SpeakerTagging } from '@/actions/recordings'
 import { useAuth } from '@/lib/auth-context'
 import { supabase } from '@/lib/supabase/client'
+import type { RecordingTranscript } from '@/lib/diarized-transcript'
 import type { EstimateData } from '@/types/estimate'
 
 interface ChatMessage {
@@ -24,15 +27,18 @@ interface EstimateChatProps {
   estimateId: string | null
   onEstimateUpdate?: (estimateId: string, data: EstimateData) => void
   onLineItemClick?: (lineItemId: string) => void
+  /** Transcribe recordings with speaker labels and review speakers before parsing */
+  diarizeRecordings?: boolean
 }
 
-export function EstimateChat({ projectId, estimateId, onEstimateUpdate, onLineItemClick }: EstimateChatProps) {
+export function EstimateChat({ projectId, estimateId, onEstimateUpdate, onLineItemClick, diarizeRecordings = false }: EstimateChatProps) {
   const { user } = useAuth()
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [inputText, setInputText] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isRecording, setIsRecording] = useState(false)
   const [transcriptFromRecording, setTranscriptFromRecording] = useState<string | null>(null)
+  const [recordingForReview, setRecordingForReview] = useState<RecordingTranscript | null>(null)
   const scrollAreaRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
@@ -52,12 +58,39 @@ export function EstimateChat({ projectId, estimateId, onEstimateUpdate, onLineIt
     }
   }, [transcriptFromRecording])
 
-  const handleRecordingComplete = useCallback((audioBlob: Blob, transcript: string) => {
+  const handleRecordingComplete = useCallback((
+    audioBlob: Blob,
+    transcript: string,
+    live?: LiveExtractionResult,
+    recording?: RecordingTranscript
+  ) => {
+    // Line items were already added while recording; don't parse the
+    // transcript a second time
+    if (live?.estimateId && live.items.length > 0) {
+      const rooms = Array.from(new Set(live.items.map(item => item.room_name)))
+      setMessages(prev => [...prev, {
+        id: `system-${Date.now()}`,
+        type: 'system',
+        content: `Added ${live.items.length} line item${live.items.length > 1 ? 's' : ''} from your walkthrough (${rooms.join(', ')})`,
+        timestamp: new Date()
+      }])
+      onEstimateUpdate?.(live.estimateId, { items: live.items, assumptions: [], missing_info: [] })
+      setIsRecording(false)
+      return
+    }
+
+    // Speaker-labelled recording: tag speakers before anything is parsed
+    if (recording && recording.segments.length > 0) {
+      setRecordingForReview(recording)
+      setIsRecording(false)
+      return
+    }
+
     if (transcript && transcript.trim().length > 0) {
       setTranscriptFromRecording(transcript)
       setIsRecording(false)
     }
-  }, [])
+  }, [onEstimateUpdate])
 
   const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault()
@@ -78,6 +111,38 @@ export function EstimateChat({ projectId, estimateId, onEstimateUpdate, onLineIt
     setMessages(prev => [...prev, userMessage])
     const messageToSend = inputText.trim()
     setInputText('')
+    await runParse({ transcript: messageToSend })
+  }
+
+  const handleBuildFromRecording = async (tagging: SpeakerTagging) => {
+    if (!recordingForReview || isSubmitting) return
+
+    setIsSubmitting(true)
+    const saved = await updateRecordingSpeakers(recordingForReview.uploadId, tagging)
+    if (!saved.success) {
+      setIsSubmitting(false)
+      setMessages(prev => [...prev, {
+        id: `error-${Date.now()}`,
+        type: 'system',
+        content: `Error: ${saved.error || 'Failed to save speakers'}`,
+        timestamp: new Date()
+      }])
+      return
+    }
+
+    const uploadId = recordingForReview.uploadId
+    setRecordingForReview(null)
+    setMessages(prev => [...prev, {
+      id: `user-${Date.now()}`,
+      type: 'user',
+      content: 'Build estimate from walkthrough recording',
+      timestamp: new Date()
+    }])
+    await runParse({ sourceUploadId: uploadId })
+  }
+
+  // Parse free text or a speaker-labelled recording into the estimate
+  const runParse = async (source: { transcript: string } | { sourceUploadId: string }) => {
     setIsSubmitting(true)
 
     try {
@@ -88,7 +153,7 @@ export function EstimateChat({ projectId, estimateId, onEstimateUpdate, onLineIt
         },
         body: JSON.stringify({
           projectId: projectId,
-          transcript: messageToSend,
+          ...source,
           estimateId: estimateId // Pass existing estimate ID to modify it
         })
       })
@@ -333,8 +398,10 @@ export function EstimateChat({ projectId, estimateId, onEstimateUpdate, onLineIt
         <div className="border-t p-4 bg-muted/50">
           <Recorder
             projectId={projectId}
-            onRecordingComplete={(audioBlob, transcript) => {
-              handleRecordingComplete(audioBlob, transcript)
+            estimateId={estimateId}
+            diarize={diarizeRecordings}
+            onRecordingComplete={(audioBlob, transcript, live, recording) => {
+              handleRecordingComplete(audioBlob, transcript, live, recording)
               setIsRecording(false)
             }}
           />
@@ -349,6 +416,18 @@ export function EstimateChat({ projectId, estimateId, onEstimateUpdate, onLineIt
         </div>
       )}
 
+      {/* Speaker review for a diarized recording */}
+      {recordingForReview && !isRecording && (
+        <div className="border-t p-4 bg-muted/50">
+          <SpeakerTranscriptReview
+            recording={recordingForReview}
+            isBuilding={isSubmitting}
+            onBuild={handleBuildFromRecording}
+            onCancel={() => setRecordingForReview(null)}
+          />
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="border-t p-4 bg-background">
         <form onSubmit={handleSubmit} className="flex gap-2">
@@ -0,0 +1,406 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from 'sonner'
+import { History, Camera, Loader2 } from "lucide-react"
+import type { EstimateSnapshotSummary, EstimateSnapshotTrigger, EstimateStatus } from "@/types/db"
+import type { EstimateDiff, LineItemChangeType, LineItemDiff } from "@/lib/estimate-diff"
+import {
+  createEstimateSnapshot,
+  listEstimateSnapshots,
+  getEstimateSnapshotDiff
+} from '@/actions/estimate-snapshots'
+
+const formatCurrency = (value: number) =>
+  `$${new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value)}`
+
+const formatDelta = (value: number) => {
+  const formatted = new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(Math.abs(value))
+  return `${value >= 0 ? '+' : '-'}$${formatted}`
+}
+
+const formatQuantityDelta = (value: number) => {
+  if (value === 0) return '—'
+  const formatted = new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 }).format(Math.abs(value))
+  return `${value > 0 ? '+' : '-'}${formatted}`
+}
+
+const deltaClassName = (value: number) =>
+  value > 0 ? 'text-primary' : value < 0 ? 'text-destructive' : 'text-muted-foreground'
+
+const TRIGGER_LABELS: Record<EstimateSnapshotTrigger, string> = {
+  bid_final: 'Bid Final',
+  contract_signed: 'Contract Signed',
+  completed: 'Completed',
+  proposal_created: 'Proposal',
+  manual: 'Manual'
+}
+
+const CHANGE_LABELS: Record<LineItemChangeType, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-primary/10 text-primary border-primary/20' },
+  removed: { label: 'Removed', className: 'bg-destructive/10 text-destructive border-destructive/30' },
+  changed: { label: 'Changed', className: 'bg-muted text-muted-foreground border-border' }
+}
+
+const snapshotLabel = (snapshot: EstimateSnapshotSummary) =>
+  `v${snapshot.version} · ${snapshot.label || TRIGGER_LABELS[snapshot.trigger]} · ${new Date(snapshot.created_at).toLocaleDateString()}`
+
+const describeChange = (diff: LineItemDiff) => {
+  if (diff.change_type !== 'changed' || !diff.before || !diff.after) return null
+  const parts: string[] = []
+  for (const field of diff.changed_fields) {
+    switch (field) {
+      case 'quantity':
+        parts.push(`Qty ${diff.before.quantity ?? 0} → ${diff.after.quantity ?? 0}${diff.unit ? ` ${diff.unit}` : ''}`)
+        break
+      case 'direct_cost':
+        parts.push(`Cost ${formatCurrency(Number(diff.before.direct_cost ?? 0))} → ${formatCurrency(Number(diff.after.direct_cost ?? 0))}`)
+        break
+      case 'room_name':
+        parts.push(`Moved from ${diff.before.room_name || 'Unassigned'}`)
+        break
+      case 'description':
+        parts.push('Description edited')
+        break
+      case 'unit':
+        parts.push(`Unit ${diff.before.unit || '—'} → ${diff.after.unit || '—'}`)
+        break
+      case 'is_allowance':
+        parts.push(diff.after.is_allowance ? 'Marked as allowance' : 'No longer an allowance')
+        break
+    }
+  }
+  return parts.join(' · ')
+}
+
+interface EstimateRevisionHistoryProps {
+  estimateId: string
+  /** Refetch snapshots when the lifecycle status changes (transitions take snapshots) */
+  estimateStatus: EstimateStatus | null
+}
+
+/**
+ * Revision history for an estimate: the list of immutable snapshots and a
+ * diff of any snapshot against a later snapshot or the current estimate.
+ */
+export function EstimateRevisionHistory({ estimateId, estimateStatus }: EstimateRevisionHistoryProps) {
+  const [snapshots, setSnapshots] = useState<EstimateSnapshotSummary[]>([])
+  const [fromId, setFromId] = useState<string>('')
+  const [toId, setToId] = useState<string>('current')
+  const [diff, setDiff] = useState<EstimateDiff | null>(null)
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false)
+  const [label, setLabel] = useState('')
+  const [isSnapshotting, setIsSnapshotting] = useState(false)
+
+  const fetchSnapshots = useCallback(async () => {
+    const result = await listEstimateSnapshots(estimateId)
+    if (!result.success) {
+      console.error('Error fetching snapshots:', result.error)
+      return
+    }
+    const list = result.snapshots || []
+    setSnapshots(list)
+    // Default to comparing the most recent bid_final snapshot against now
+    setFromId(prev => {
+      if (prev && list.some(s => s.id === prev)) return prev
+      const bidFinal = list.find(s => s.trigger === 'bid_final')
+      return bidFinal?.id ?? list[0]?.id ?? ''
+    })
+  }, [estimateId])
+
+  useEffect(() => {
+    fetchSnapshots()
+  }, [fetchSnapshots, estimateStatus])
+
+  useEffect(() => {
+    if (!fromId || fromId === toId) {
+      setDiff(null)
+      return
+    }
+
+    let cancelled = false
+    const loadDiff = async () => {
+      setIsLoadingDiff(true)
+      const result = await getEstimateSnapshotDiff(estimateId, fromId, toId)
+      if (cancelled) return
+      if (result.success && result.diff) {
+        setDiff(result.diff)
+      } else {
+        setDiff(null)
+        toast.error(result.error || 'Failed to compare snapshots')
+      }
+      setIsLoadingDiff(false)
+    }
+    loadDiff()
+
+    return () => {
+      cancelled = true
+    }
+  }, [estimateId, fromId, toId])
+
+  const handleTakeSnapshot = async () => {
+    setIsSnapshotting(true)
+    try {
+      const result = await createEstimateSnapshot(estimateId, label || undefined)
+      if (result.success) {
+        toast.success(`Snapshot v${result.version} saved`)
+        setLabel('')
+        fetchSnapshots()
+      } else {
+        toast.error(result.error || 'Failed to save snapshot')
+      }
+    } finally {
+      setIsSnapshotting(false)
+    }
+  }
+
+  const hasChanges = diff && (diff.line_items.length > 0 || diff.totals.total_delta !== 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-muted-foreground" />
+            <CardTitle className="text-lg">Revision History</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Snapshot label (optional)"
+              className="h-9 w-full sm:w-56"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleTakeSnapshot}
+              disabled={isSnapshotting}
+              className="min-h-[44px] md:min-h-0 shrink-0"
+            >
+              {isSnapshotting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Camera className="mr-2 h-4 w-4" />
+              )}
+              Snapshot
+            </Button>
+          </div>
+        </div>
+        <CardDescription className="mt-2">
+          Snapshots are taken automatically when the bid is finalized, the contract is signed and a proposal is created.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No snapshots yet. Finalize the bid or take a snapshot to start a revision history.</p>
+        ) : (
+          <>
+            {/* Compare selectors */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <span className="text-xs font-medium text-muted-foreground">Compare from</span>
+                <Select value={fromId} onValueChange={setFromId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select snapshot" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {snapshots.map(s => (
+                      <SelectItem key={s.id} value={s.id}>{snapshotLabel(s)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs font-medium text-muted-foreground">To</span>
+                <Select value={toId} onValueChange={setToId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">Current estimate</SelectItem>
+                    {snapshots.map(s => (
+                      <SelectItem key={s.id} value={s.id}>{snapshotLabel(s)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isLoadingDiff && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Comparing...
+              </div>
+            )}
+
+            {!isLoadingDiff && diff && !hasChanges && (
+              <p className="text-sm text-muted-foreground">No changes between these versions.</p>
+            )}
+
+            {!isLoadingDiff && diff && hasChanges && (
+              <div className="space-y-4">
+                {/* Totals */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div className="rounded-md border p-3">
+                    <div className="text-xs text-muted-foreground">Total</div>
+                    <div className="text-sm font-medium">
+                      {formatCurrency(diff.totals.total_before)} → {formatCurrency(diff.totals.total_after)}
+                    </div>
+                    <div className={`text-sm font-semibold ${deltaClassName(diff.totals.total_delta)}`}>
+                      {formatDelta(diff.totals.total_delta)}
+                    </div>
+                  </div>
+                  <div className="rounded-md border p-3">
+                    <div className="text-xs text-muted-foreground">Direct Cost</div>
+                    <div className="text-sm font-medium">
+                      {formatCurrency(diff.totals.direct_cost_before)} → {formatCurrency(diff.totals.direct_cost_after)}
+                    </div>
+                    <div className={`text-sm font-semibold ${deltaClassName(diff.totals.direct_cost_delta)}`}>
+                      {formatDelta(diff.totals.direct_cost_delta)}
+                    </div>
+                  </div>
+                  <div className="rounded-md border p-3 col-span-2">
+                    <div className="text-xs text-muted-foreground">Line Items</div>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      <Badge variant="outline" className={CHANGE_LABELS.added.className}>{diff.totals.added_count} added</Badge>
+                      <Badge variant="outline" className={CHANGE_LABELS.removed.className}>{diff.totals.removed_count} removed</Badge>
+                      <Badge variant="outline" className={CHANGE_LABELS.changed.className}>{diff.totals.changed_count} changed</Badge>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Per-room deltas */}
+                {diff.rooms.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-semibold mb-2">By Room</h4>
+                    <div className="hidden md:block">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Room</TableHead>
+                            <TableHead className="text-center">Changes</TableHead>
+                            <TableHead className="text-right">Direct Cost Δ</TableHead>
+                            <TableHead className="text-right">Total Before</TableHead>
+                            <TableHead className="text-right">Total After</TableHead>
+                            <TableHead className="text-right">Total Δ</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {diff.rooms.map(room => (
+                            <TableRow key={room.room_id ?? 'unassigned'}>
+                              <TableCell className="font-medium">{room.room_name}</TableCell>
+                              <TableCell className="text-center text-xs text-muted-foreground">
+                                +{room.added_count} / -{room.removed_count} / ~{room.changed_count}
+                              </TableCell>
+                              <TableCell className={`text-right ${deltaClassName(room.direct_cost_delta)}`}>
+                                {formatDelta(room.direct_cost_delta)}
+                              </TableCell>
+                              <TableCell className="text-right">{formatCurrency(room.total_before)}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(room.total_after)}</TableCell>
+                              <TableCell className={`text-right font-medium ${deltaClassName(room.total_delta)}`}>
+                                {formatDelta(room.total_delta)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                    <div className="md:hidden space-y-2">
+                      {diff.rooms.map(room => (
+                        <div key={room.room_id ?? 'unassigned'} className="rounded-md border p-3 flex items-center justify-between">
+                          <div>
+                            <div className="text-sm font-medium">{room.room_name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              +{room.added_count} / -{room.removed_count} / ~{room.changed_count}
+                            </div>
+                          </div>
+                          <div className={`text-sm font-semibold ${deltaClassName(room.total_delta)}`}>
+                            {formatDelta(room.total_delta)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Line item changes */}
+                {diff.line_items.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-semibold mb-2">Line Item Changes</h4>
+                    <div className="hidden md:block">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-24">Change</TableHead>
+                            <TableHead>Description</TableHead>
+                            <TableHead>Room</TableHead>
+                            <TableHead className="text-right">Qty Δ</TableHead>
+                            <TableHead className="text-right">Cost Δ</TableHead>
+                            <TableHead className="text-right">Price Δ</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {diff.line_items.map(item => (
+                            <TableRow key={`${item.change_type}-${item.line_item_id}`}>
+                              <TableCell>
+                                <Badge variant="outline" className={CHANGE_LABELS[item.change_type].className}>
+                                  {CHANGE_LABELS[item.change_type].label}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>
+                                <div className="text-sm">{item.description || 'Untitled item'}</div>
+                                {describeChange(item) && (
+                                  <div className="text-xs text-muted-foreground">{describeChange(item)}</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">{item.room_name}</TableCell>
+                              <TableCell className="text-right text-sm">
+                                {formatQuantityDelta(item.quantity_delta)}
+                              </TableCell>
+                              <TableCell className={`text-right text-sm ${deltaClassName(item.direct_cost_delta)}`}>
+                                {formatDelta(item.direct_cost_delta)}
+                              </TableCell>
+                              <TableCell className={`text-right text-sm font-medium ${deltaClassName(item.client_price_delta)}`}>
+                                {formatDelta(item.client_price_delta)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                    <div className="md:hidden space-y-2">
+                      {diff.line_items.map(item => (
+                        <div key={`${item.change_type}-${item.line_item_id}`} className="rounded-md border p-3 space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <Badge variant="outline" className={CHANGE_LABELS[item.change_type].className}>
+                              {CHANGE_LABELS[item.change_type].label}
+                            </Badge>
+                            <span className={`text-sm font-semibold ${deltaClassName(item.client_price_delta)}`}>
+                              {formatDelta(item.client_price_delta)}
+                            </span>
+                          </div>
+                          <div className="text-sm">{item.description || 'Untitled item'}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {item.room_name}
+                            {describeChange(item) ? ` · ${describeChange(item)}` : ''}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
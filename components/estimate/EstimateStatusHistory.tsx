@@ -0,0 +1,82 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ArrowRight } from "lucide-react"
+import { getEstimateStatusHistory } from '@/actions/estimate-lifecycle'
+import type { EstimateStatus, EstimateStatusHistoryEntry } from "@/types/db"
+
+const STATUS_LABELS: Record<EstimateStatus, string> = {
+  draft: 'Draft',
+  bid_final: 'Bid Final',
+  contract_signed: 'Contract Signed',
+  completed: 'Completed'
+}
+
+interface EstimateStatusHistoryProps {
+  estimateId: string
+}
+
+/**
+ * Audit trail of estimate lifecycle transitions - who changed the status,
+ * when, and why (bid revisions carry a required reason).
+ */
+export function EstimateStatusHistory({ estimateId }: EstimateStatusHistoryProps) {
+  const [history, setHistory] = useState<EstimateStatusHistoryEntry[]>([])
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchHistory = async () => {
+      const result = await getEstimateStatusHistory(estimateId)
+      if (cancelled) return
+      if (result.success) {
+        setHistory(result.history || [])
+      } else {
+        console.error('Error fetching estimate status history:', result.error)
+      }
+      setLoaded(true)
+    }
+    fetchHistory()
+
+    return () => {
+      cancelled = true
+    }
+  }, [estimateId])
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Estimate History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loaded && history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No status changes yet.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {history.map(entry => (
+              <li key={entry.id} className="flex flex-col gap-1 border-b pb-3 last:border-b-0 last:pb-0">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant="outline">{STATUS_LABELS[entry.from_status] ?? entry.from_status}</Badge>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  <Badge variant="outline">{STATUS_LABELS[entry.to_status] ?? entry.to_status}</Badge>
+                  <span className="text-xs text-muted-foreground">Rev {entry.revision}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(entry.created_at).toLocaleString()}
+                  {entry.changed_by_name ? ` · ${entry.changed_by_name}` : ''}
+                </div>
+                {entry.reason && (
+                  <p className="text-sm text-muted-foreground">{entry.reason}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -11,20 +11,33 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge'
 import { Textarea } from '@/components/ui/textarea'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
-import { Save, AlertTriangle, Plus, Trash2, FileText, Download, BookOpen, Wrench, Edit, RotateCcw, ChevronRight, ChevronDown, Sparkles, History, Database, User, Info as InfoIcon, Ruler, Pencil } from 'lucide-react'
+import { Save, AlertTriangle, Plus, Trash2, FileText, Download, BookOpen, Wrench, Edit, RotateCcw, ChevronRight, ChevronDown, Sparkles, History, Database, User, Info as InfoIcon, Ruler, Pencil, Package } from 'lucide-react'
 import { supabase } from '@/lib/supabase/client'
 import { useAuth } from '@/lib/auth-context'
 import { SmartRoomInput } from './SmartRoomInput'
 import { cn } from '@/lib/utils'
 import { COST_CATEGORIES, getCostCode, formatCostCode } from '@/lib/constants'
 import type { LineItem, EstimateData } from '@/types/estimate'
-import type { EstimateStatus } from '@/types/db'
+import type { EstimateStatus, EstimateAlternate, LaborRate } from '@/types/db'
 import { mergeEstimateItems, type EstimateItem } from '@/lib/estimate-utils'
 import { toast } from 'sonner'
 import { Lock } from 'lucide-react'
 import { rederiveLineItemQuantity, setLineItemCalcSourceManual } from '@/actions/rooms'
 import { updateLineItem as serverUpdateLineItem, type UpdateLineItemPatch } from '@/actions/estimate-line-items'
+import { useOffline } from '@/lib/offline-context'
+import { isNetworkError } from '@/lib/offline/outbox'
 import { isAreaBasedItem, getAreaFieldLabel, resolveAreaFieldForLineItem } from '@/lib/area-mapping'
+import { listEstimateAlternates, setLineItemAlternates } from '@/actions/estimate-alternates'
+import { computeAlternateTotals, isBaseItem, isIncludedBySelection } from '@/lib/estimate-alternates'
+import { AlternatesManager } from './AlternatesManager'
+import { AssembliesDialog } from './AssembliesDialog'
+import { listLaborRates } from '@/actions/labor-rates'
+import { computeCrewDays, deriveLaborFromHours, formatLaborRate, isHoursBased, summarizeLaborHours } from '@/lib/labor'
+import { LineItemAlternatesPicker } from './LineItemAlternatesPicker'
+import { PricingSuggestionHint } from './PricingSuggestionHint'
+import { TranscriptSnippetButton } from '@/components/voice/TranscriptSnippetButton'
+import { makeTaskKey } from '@/lib/pricing/makeTaskKey'
+import type { PricingSuggestion } from '@/lib/pricing/suggestions'
 
 // Unit options
 const UNIT_OPTIONS = ['EA', 'SF', 'LF', 'SQ', 'ROOM']
@@ -49,6 +62,8 @@ interface EstimateTableProps {
   estimateId?: string | null
   initialData?: EstimateData
   onSave?: (estimateId: string, total: number) => void
+  /** Lifecycle status from the parent - keeps the edit lock in sync after transitions */
+  estimateStatus?: EstimateStatus | null
   projectMetadata?: {
     projectName: string
     clientName: string
@@ -57,7 +72,45 @@ interface EstimateTableProps {
   }
 }
 
-export function EstimateTable({ projectId, estimateId, initialData, onSave, projectMetadata }: EstimateTableProps) {
+/**
+ * Task key used to look up a line item's pricing suggestion (null for
+ * allowances and items without a description)
+ */
+function taskKeyFor(item: LineItem): string | null {
+  const isAllowance = item.is_allowance || (item.description || '').toUpperCase().startsWith('ALLOWANCE:')
+  if (isAllowance || !item.description?.trim()) return null
+  try {
+    return makeTaskKey({ costCode: item.cost_code, description: item.description, unit: item.unit })
+  } catch {
+    return null
+  }
+}
+
+/** Full server patch for a line item as shown in the table */
+function toLineItemPatch(item: LineItem): UpdateLineItemPatch {
+  return {
+    room_name: item.room_name || null,
+    room_id: item.room_id || null,
+    description: item.description || undefined,
+    category: item.category || undefined,
+    cost_code: item.cost_code || null,
+    quantity: item.quantity ?? null,
+    unit: item.unit || undefined,
+    labor_cost: item.labor_cost ?? null,
+    material_cost: item.material_cost ?? null,
+    overhead_cost: item.overhead_cost ?? null,
+    direct_cost: item.direct_cost ?? null,
+    margin_percent: item.margin_percent || 30,
+    client_price: item.client_price ?? null,
+    pricing_source: (item.pricing_source as UpdateLineItemPatch['pricing_source']) || null,
+    calc_source: item.calc_source || 'manual',
+    is_allowance: item.is_allowance ?? null,
+    labor_rate_id: item.labor_rate_id ?? null,
+    labor_hours_per_unit: item.labor_hours_per_unit ?? null,
+  }
+}
+
+export function EstimateTable({ projectId, estimateId, initialData, onSave, estimateStatus: parentEstimateStatus, projectMetadata }: EstimateTableProps) {
   const [items, setItems] = useState<LineItem[]>([])
   const [missingInfo, setMissingInfo] = useState<string[]>(initialData?.missing_info || [])
   const [isSaving, setIsSaving] = useState(false)
@@ -74,12 +127,48 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
   const itemsRef = useRef<LineItem[]>([])
   // Track original AI values for reset functionality
   const originalValuesRef = useRef<Map<string, Partial<LineItem>>>(new Map())
+  // Last copy of each item known to match the server (base for offline edits)
+  const syncedPatchRef = useRef<Map<string, UpdateLineItemPatch>>(new Map())
+  const { queue: queueOutbox } = useOffline()
   
   // =============================================================================
   // Room scope map: roomId → is_in_scope (for filtering excluded rooms from totals)
   // =============================================================================
   const [roomScopeMap, setRoomScopeMap] = useState<Map<string, boolean>>(new Map())
 
+  // =============================================================================
+  // Alternates (good / better / best): items with no alternate_ids are base
+  // scope; alternate items only count toward the total when selected
+  // =============================================================================
+  const [alternates, setAlternates] = useState<EstimateAlternate[]>([])
+  const [selectedAlternateIds, setSelectedAlternateIds] = useState<string[]>([])
+
+  // =============================================================================
+  // Pricing suggestions: the user's own typical unit cost per task, shown as a
+  // hint only (Phase 1: never auto-filled). Off unless enabled in settings.
+  // =============================================================================
+  const [pricingSuggestions, setPricingSuggestions] = useState<Record<string, PricingSuggestion>>({})
+  const [pricingSuggestionsEnabled, setPricingSuggestionsEnabled] = useState(true)
+
+  const [showAssembliesDialog, setShowAssembliesDialog] = useState(false)
+
+  // =============================================================================
+  // Labor rates: crews per trade for hours-based items
+  // (labor_cost = quantity × hours/unit × productivity × burdened rate)
+  // =============================================================================
+  const [laborRates, setLaborRates] = useState<LaborRate[]>([])
+  const laborRatesById = React.useMemo(
+    () => new Map(laborRates.map(r => [r.id, r])),
+    [laborRates]
+  )
+
+  useEffect(() => {
+    if (!user?.id) return
+    listLaborRates().then(result => {
+      if (result.success && result.rates) setLaborRates(result.rates)
+    })
+  }, [user?.id])
+
   // =============================================================================
   // EDIT LOCK: Estimates are locked when status != 'draft'
   // =============================================================================
@@ -112,11 +201,18 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
     fetchEstimateStatus()
   }, [estimateId])
   
+  // Parent-driven status changes (finalize, revise) update the lock without a refetch
+  useEffect(() => {
+    if (parentEstimateStatus) {
+      setEstimateStatus(parentEstimateStatus)
+    }
+  }, [parentEstimateStatus])
+  
   // Helper to get lock message based on status
   const getLockMessage = (status: EstimateStatus): string => {
     switch (status) {
       case 'bid_final':
-        return 'This estimate is locked (Bid Finalized). Create a new estimate to make changes.'
+        return 'This estimate is locked (Bid Finalized). Use Revise Bid to re-open it for changes.'
       case 'contract_signed':
         return 'This estimate is locked (Contract Signed). Pricing cannot be modified.'
       case 'completed':
@@ -198,6 +294,12 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
           setRoomScopeMap(scopeMap)
         }
 
+        const alternatesResult = await listEstimateAlternates(estimateId)
+        if (alternatesResult.success) {
+          setAlternates(alternatesResult.alternates || [])
+          setSelectedAlternateIds(alternatesResult.selectedAlternateIds || [])
+        }
+
         const { data, error } = await supabase
           .from('estimate_line_items')
           .select('*, price_source')
@@ -254,10 +356,21 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
               price_source: (item as any).price_source || item.pricing_source || null,
               confidence: item.confidence ?? null,
               is_allowance: isAllowance,
-              calc_source: (item.calc_source as 'manual' | 'room_dimensions') || 'manual',
+              calc_source: (item.calc_source as 'manual' | 'room_dimensions' | 'takeoff') || 'manual',
+              alternate_ids: item.alternate_ids || [],
+              assembly_instance_id: item.assembly_instance_id || null,
+              quantity_expression: item.quantity_expression || null,
+              labor_rate_id: item.labor_rate_id || null,
+              labor_hours_per_unit: item.labor_hours_per_unit ?? null,
+              labor_hours: item.labor_hours ?? null,
+              source_upload_id: item.source_upload_id || null,
+              source_segment_ids: item.source_segment_ids || [],
+              source_start_sec: item.source_start_sec != null ? Number(item.source_start_sec) : null,
+              source_end_sec: item.source_end_sec != null ? Number(item.source_end_sec) : null,
             }
           })
           setItems(loadedItems)
+          syncedPatchRef.current = new Map(loadedItems.map(item => [item.id, toLineItemPatch(item)]))
           console.log('[EstimateTable] Loaded', loadedItems.length, 'line items from database')
           
           // Store original values for reset functionality (only if from AI pricing)
@@ -354,6 +467,45 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
     itemsRef.current = items
   }, [items])
 
+  // Refetch pricing suggestions when the set of task keys changes
+  const suggestionKeySignature = items
+    .map(item => taskKeyFor(item))
+    .filter((key): key is string => Boolean(key))
+    .sort()
+    .filter((key, i, keys) => i === 0 || keys[i - 1] !== key)
+    .join('\n')
+
+  useEffect(() => {
+    if (!user?.id || !pricingSuggestionsEnabled || !suggestionKeySignature) return
+
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/pricing/suggestions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            items: itemsRef.current
+              .filter(item => item.description?.trim())
+              .map(item => ({ costCode: item.cost_code, description: item.description, unit: item.unit }))
+          })
+        })
+        if (!response.ok || cancelled) return
+        const result = await response.json() as { enabled: boolean; suggestions: Record<string, PricingSuggestion> }
+        if (cancelled) return
+        setPricingSuggestionsEnabled(result.enabled)
+        setPricingSuggestions(result.suggestions || {})
+      } catch (err) {
+        console.warn('Failed to load pricing suggestions:', err)
+      }
+    }, 600)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [user?.id, pricingSuggestionsEnabled, suggestionKeySignature])
+
   // ═══════════════════════════════════════════════════════════════════════════
   // SAVE (debounced, via server action with Zod validation + server-side calc)
   // ═══════════════════════════════════════════════════════════════════════════
@@ -390,26 +542,36 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
     // slow enough to batch rapid keystrokes)
     const timeout = setTimeout(async () => {
       try {
-        const patch: UpdateLineItemPatch = {
-          room_name: item.room_name || null,
-          room_id: item.room_id || null,
-          description: item.description || undefined,
-          category: item.category || undefined,
-          cost_code: item.cost_code || null,
-          quantity: item.quantity ?? null,
-          unit: item.unit || undefined,
-          labor_cost: item.labor_cost ?? null,
-          material_cost: item.material_cost ?? null,
-          overhead_cost: item.overhead_cost ?? null,
-          direct_cost: item.direct_cost ?? null,
-          margin_percent: item.margin_percent || 30,
-          client_price: item.client_price ?? null,
-          pricing_source: (item.pricing_source as UpdateLineItemPatch['pricing_source']) || null,
-          calc_source: item.calc_source || 'manual',
-          is_allowance: item.is_allowance ?? null,
+        const patch = toLineItemPatch(item)
+
+        // Offline: queue against the last synced copy so replay can spot
+        // changes made on the server in the meantime
+        const queueOffline = async () => {
+          await queueOutbox({
+            projectId,
+            label: `${item.room_name || 'General'} – ${item.description || 'Line item'}`,
+            payload: {
+              kind: 'line_item_update',
+              lineItemId: itemId,
+              patch,
+              base: syncedPatchRef.current.get(itemId) ?? {},
+            },
+          })
         }
 
-        const result = await serverUpdateLineItem(itemId, patch)
+        if (!navigator.onLine) {
+          await queueOffline()
+          return
+        }
+
+        let result: Awaited<ReturnType<typeof serverUpdateLineItem>>
+        try {
+          result = await serverUpdateLineItem(itemId, patch)
+        } catch (err) {
+          if (!isNetworkError(err)) throw err
+          await queueOffline()
+          return
+        }
 
         if (!result.success) {
           console.error(`[saveLineItem] Server error for ${itemId}:`, result.error)
@@ -417,6 +579,17 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
           return
         }
 
+        if (result.item) {
+          syncedPatchRef.current.set(itemId, {
+            ...patch,
+            direct_cost: result.item.direct_cost,
+            client_price: result.item.client_price,
+            margin_percent: result.item.margin_percent,
+            calc_source: result.item.calc_source,
+            labor_cost: result.item.labor_cost,
+          })
+        }
+
         // ── Reconcile: server-computed fields win ──
         if (result.item) {
           setItems(prev => {
@@ -432,6 +605,8 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
               client_price: result.item!.client_price,
               margin_percent: result.item!.margin_percent,
               calc_source: result.item!.calc_source,
+              labor_cost: result.item!.labor_cost,
+              labor_hours: result.item!.labor_hours,
             }
             return next
           })
@@ -553,12 +728,19 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
             ...next[index],
             quantity: result.quantity ?? next[index].quantity,
             direct_cost: result.direct_cost ?? next[index].direct_cost,
+            client_price: result.client_price ?? next[index].client_price,
+            margin_percent: result.margin_percent ?? next[index].margin_percent,
+            labor_hours: result.labor_hours !== undefined ? result.labor_hours : next[index].labor_hours,
             calc_source: 'room_dimensions',
           }
           return next
         })
-        const areaLabel = result.area_field ? getAreaFieldLabel(result.area_field as any) : 'Room Area'
-        toast.success(`Quantity auto-set from ${areaLabel}: ${result.quantity?.toLocaleString() ?? '—'} SQFT`)
+        if (item.quantity_expression) {
+          toast.success(`Quantity auto-set from ${item.quantity_expression}: ${result.quantity?.toLocaleString() ?? '—'} ${item.unit || ''}`.trim())
+        } else {
+          const areaLabel = result.area_field ? getAreaFieldLabel(result.area_field as any) : 'Room Area'
+          toast.success(`Quantity auto-set from ${areaLabel}: ${result.quantity?.toLocaleString() ?? '—'} SQFT`)
+        }
       } else {
         toast.error(result.error || 'Failed to re-derive quantity')
       }
@@ -595,7 +777,7 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
       Object.assign(item, updates)
 
       // If user edits quantity, switch calc_source to 'manual'
-      if (updates.quantity !== undefined && item.calc_source === 'room_dimensions') {
+      if (updates.quantity !== undefined && (item.calc_source === 'room_dimensions' || item.calc_source === 'takeoff')) {
         item.calc_source = 'manual'
       }
 
@@ -606,6 +788,19 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
         item.pricing_source = 'manual'
       }
 
+      // Hours-based labor: re-derive hours (and labor cost when a crew rate is set)
+      const isLaborHoursEdit = isHoursBased(item) && (
+        updates.quantity !== undefined || updates.labor_hours_per_unit !== undefined ||
+        updates.labor_rate_id !== undefined
+      )
+      if (isLaborHoursEdit) {
+        const rate = item.labor_rate_id ? laborRatesById.get(item.labor_rate_id) : null
+        Object.assign(item, deriveLaborFromHours(item, rate))
+      } else if (updates.labor_hours_per_unit !== undefined) {
+        // Hours cleared → labor cost is entered by hand again
+        item.labor_hours = null
+      }
+
       // Allowance check
       const isAllowance = updates.is_allowance !== undefined
         ? updates.is_allowance
@@ -618,7 +813,7 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
         updates.labor_cost !== undefined || updates.material_cost !== undefined ||
         updates.overhead_cost !== undefined || updates.direct_cost !== undefined ||
         updates.margin_percent !== undefined || updates.quantity !== undefined ||
-        updates.is_allowance !== undefined
+        updates.is_allowance !== undefined || isLaborHoursEdit
       )
       const isClientPriceEdit = updates.client_price !== undefined
 
@@ -728,6 +923,25 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
     setItems(prevItems => prevItems.filter((_, i) => i !== index))
   }
 
+  const updateItemAlternates = async (index: number, alternateIds: string[]) => {
+    if (isLocked) {
+      toast.error(getLockMessage(estimateStatus))
+      return
+    }
+
+    const item = items[index]
+    if (!item?.id || item.id.startsWith('temp-')) return
+
+    const previous = item.alternate_ids || []
+    setItems(prevItems => prevItems.map((it, i) => i === index ? { ...it, alternate_ids: alternateIds } : it))
+
+    const result = await setLineItemAlternates(item.id, alternateIds)
+    if (!result.success) {
+      setItems(prevItems => prevItems.map((it, i) => i === index ? { ...it, alternate_ids: previous } : it))
+      toast.error(result.error || 'Failed to update alternates')
+    }
+  }
+
   // =============================================================================
   // TOTALS: Treat null as 0 for summation, but track unpriced items separately
   // Filter out items from rooms that are excluded from scope (is_in_scope = false)
@@ -737,10 +951,24 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
     return roomScopeMap.get(item.room_id) !== false
   }, [roomScopeMap])
 
+  const isItemSelected = useCallback((item: LineItem): boolean => {
+    return isIncludedBySelection(item.alternate_ids, selectedAlternateIds)
+  }, [selectedAlternateIds])
+
   const grandTotal = items.reduce((sum, item) => {
-    if (!isItemInScope(item)) return sum
+    if (!isItemInScope(item) || !isItemSelected(item)) return sum
     return sum + (item.client_price ?? 0)
   }, 0)
+
+  // Base total and each alternate's own total (in-scope items only)
+  const alternateTotals = React.useMemo(
+    () => computeAlternateTotals(items.filter(isItemInScope)),
+    [items, isItemInScope]
+  )
+  const alternateNames = React.useMemo(
+    () => new Map(alternates.map(a => [a.id, a.name])),
+    [alternates]
+  )
   const unpricedItemCount = items.filter(item => isItemInScope(item) && (item.direct_cost === null || item.direct_cost === undefined)).length
   const excludedItemCount = items.filter(item => !isItemInScope(item)).length
 
@@ -752,7 +980,7 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
   const roomTotals = React.useMemo(() => {
     const map = new Map<string, { total: number; count: number; room_name: string }>()
     for (const item of items) {
-      if (!isItemInScope(item)) continue
+      if (!isItemInScope(item) || !isItemSelected(item)) continue
       const key = (item.room_name || 'Unassigned').toLowerCase()
       const existing = map.get(key) || { total: 0, count: 0, room_name: item.room_name || 'Unassigned' }
       existing.total += (item.client_price ?? 0)
@@ -760,7 +988,13 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
       map.set(key, existing)
     }
     return map
-  }, [items, isItemInScope])
+  }, [items, isItemInScope, isItemSelected])
+
+  // Labor hours per trade across in-scope, selected items
+  const laborHours = React.useMemo(
+    () => summarizeLaborHours(items.filter(item => isItemInScope(item) && isItemSelected(item)), laborRatesById),
+    [items, isItemInScope, isItemSelected, laborRatesById]
+  )
 
   // Get title from description (first 50 chars or first sentence)
   const getTitle = (description: string): string => {
@@ -1354,6 +1588,13 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                 <Plus className="mr-1 md:mr-2 h-4 w-4" />
                 Add Item
               </Button>
+              {estimateId && projectId && (
+                <Button onClick={() => setShowAssembliesDialog(true)} variant="outline" size="sm" disabled={isLocked} className="min-h-[44px] md:min-h-0">
+                  <Package className="mr-1 md:mr-2 h-4 w-4" />
+                  <span className="hidden sm:inline">Insert Assembly</span>
+                  <span className="sm:hidden">Assembly</span>
+                </Button>
+              )}
               <Button 
                 onClick={generateSpecSheet} 
                 disabled={isGeneratingSpecSheet}
@@ -1462,6 +1703,14 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                           <span>{item.room_name || 'No room'}</span>
                           <span>•</span>
                           <span>{costCodeLabel}</span>
+                          {!isBaseItem(item.alternate_ids) && (
+                            <>
+                              <span>•</span>
+                              <Badge variant="outline" className={cn("h-4 px-1 text-[10px]", !isItemSelected(item) && "border-dashed")}>
+                                {item.alternate_ids!.map(id => alternateNames.get(id) || 'Alternate').join(', ')}
+                              </Badge>
+                            </>
+                          )}
                           {!itemInScope && (
                             <>
                               <span>•</span>
@@ -1483,12 +1732,17 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                         <div className="flex items-center gap-1.5 mb-1">
                           <Label className="text-xs text-muted-foreground">Qty</Label>
                           {/* Calc source badge on mobile */}
-                          {item.room_id && isAreaBasedItem({
+                          {item.calc_source === 'takeoff' && (
+                            <span className="flex items-center gap-0.5 h-5 px-1.5 rounded text-[10px] border bg-amber-50 text-amber-700 border-amber-200">
+                              <Ruler className="h-2.5 w-2.5" />Plan
+                            </span>
+                          )}
+                          {item.calc_source !== 'takeoff' && item.room_id && (item.quantity_expression || isAreaBasedItem({
                             cost_code: item.cost_code,
                             unit: item.unit,
                             description: item.description,
                             category: item.category,
-                          }) && (
+                          })) && (
                             <button
                               type="button"
                               onClick={() => !isLocked && toggleCalcSource(index)}
@@ -1549,6 +1803,11 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                             min="0" step="0.01" disabled={isLocked}
                           />
                         </div>
+                        <PricingSuggestionHint
+                          suggestion={pricingSuggestions[taskKeyFor(item) ?? '']}
+                          unit={item.unit}
+                          className="mt-1 text-right"
+                        />
                       </div>
                       <div>
                         <Label className="text-xs text-muted-foreground mb-1 block">Margin %</Label>
@@ -1617,8 +1876,24 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
 
                     {isExpanded && (
                       <div className="space-y-3 pt-2 border-t">
+                        <LineItemAlternatesPicker
+                          alternates={alternates}
+                          value={item.alternate_ids || []}
+                          disabled={isLocked || !item.id || item.id.startsWith('temp-')}
+                          onChange={(ids) => updateItemAlternates(index, ids)}
+                        />
                         <div>
-                          <Label className="text-xs text-muted-foreground mb-1 block">Description</Label>
+                          <div className="flex items-center justify-between mb-1">
+                            <Label className="text-xs text-muted-foreground block">Description</Label>
+                            {item.source_upload_id && (
+                              <TranscriptSnippetButton
+                                uploadId={item.source_upload_id}
+                                segmentIds={item.source_segment_ids || []}
+                                startSec={item.source_start_sec ?? null}
+                                endSec={item.source_end_sec ?? null}
+                              />
+                            )}
+                          </div>
                           <DescriptionTextarea
                             value={item.description}
                             onChange={(value) => updateItem(index, { description: value }, false)}
@@ -1771,6 +2046,15 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                                   Excluded
                                 </Badge>
                               )}
+                              {!isBaseItem(item.alternate_ids) && (
+                                <Badge
+                                  variant="outline"
+                                  className={cn("h-5 px-1 text-[10px] shrink-0", !isItemSelected(item) && "border-dashed text-muted-foreground")}
+                                  title={isItemSelected(item) ? 'Alternate (included in total)' : 'Alternate (not included in total)'}
+                                >
+                                  {item.alternate_ids!.map(id => alternateNames.get(id) || 'Alternate').join(', ')}
+                                </Badge>
+                              )}
                               {isAIGenerated && (
                                 <Badge variant="outline" className="h-5 px-1.5 text-xs">
                                   <Sparkles className="h-3 w-3 mr-1" />
@@ -1861,12 +2145,29 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                                 </SelectContent>
                               </Select>
                               {/* Calc source badge + toggle */}
-                              {item.room_id && isAreaBasedItem({
+                              {item.calc_source === 'takeoff' && (
+                                <TooltipProvider>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <span className="flex items-center gap-0.5 h-5 px-1 rounded text-[10px] border bg-amber-50 text-amber-700 border-amber-200">
+                                        <Ruler className="h-2.5 w-2.5" />Plan
+                                      </span>
+                                    </TooltipTrigger>
+                                    <TooltipContent side="top" className="max-w-[200px]">
+                                      <p className="text-xs">
+                                        Qty measured on the plans (Files → Measure).
+                                        Editing it switches to manual.
+                                      </p>
+                                    </TooltipContent>
+                                  </Tooltip>
+                                </TooltipProvider>
+                              )}
+                              {item.calc_source !== 'takeoff' && item.room_id && (item.quantity_expression || isAreaBasedItem({
                                 cost_code: item.cost_code,
                                 unit: item.unit,
                                 description: item.description,
                                 category: item.category,
-                              }) && (
+                              })) && (
                                 <TooltipProvider>
                                   <Tooltip>
                                     <TooltipTrigger asChild>
@@ -1891,11 +2192,15 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                                     <TooltipContent side="top" className="max-w-[200px]">
                                       {item.calc_source === 'room_dimensions' ? (
                                         <p className="text-xs">
-                                          Qty auto-derived from room {(() => {
-                                            const field = resolveAreaFieldForLineItem({ cost_code: item.cost_code, unit: item.unit, description: item.description, category: item.category })
-                                            return field ? getAreaFieldLabel(field).toLowerCase() : 'area'
-                                          })()}.
-                                          Click to switch to manual.
+                                          {item.quantity_expression ? (
+                                            <>Qty = <span className="font-mono">{item.quantity_expression}</span> from the assembly.</>
+                                          ) : (
+                                            <>Qty auto-derived from room {(() => {
+                                              const field = resolveAreaFieldForLineItem({ cost_code: item.cost_code, unit: item.unit, description: item.description, category: item.category })
+                                              return field ? getAreaFieldLabel(field).toLowerCase() : 'area'
+                                            })()}.</>
+                                          )}
+                                          {' '}Click to switch to manual.
                                         </p>
                                       ) : (
                                         <p className="text-xs">
@@ -1988,6 +2293,11 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                                 )
                               })()}
                             </div>
+                            <PricingSuggestionHint
+                              suggestion={pricingSuggestions[taskKeyFor(item) ?? '']}
+                              unit={item.unit}
+                              className="mt-0.5 text-right"
+                            />
                           </TableCell>
                           <TableCell className="text-right py-1 px-2">
                             <div className="flex items-center justify-end gap-1">
@@ -2062,9 +2372,25 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                           <TableRow className="bg-muted/20">
                             <TableCell colSpan={8} className="py-2 px-2">
                               <div className="space-y-3">
+                                <LineItemAlternatesPicker
+                                  alternates={alternates}
+                                  value={item.alternate_ids || []}
+                                  disabled={isLocked || !item.id || item.id.startsWith('temp-')}
+                                  onChange={(ids) => updateItemAlternates(index, ids)}
+                                />
                                 {/* Full Description */}
                                 <div>
-                                  <Label className="text-xs text-muted-foreground mb-1 block">Description</Label>
+                                  <div className="flex items-center justify-between mb-1">
+                                    <Label className="text-xs text-muted-foreground block">Description</Label>
+                                    {item.source_upload_id && (
+                                      <TranscriptSnippetButton
+                                        uploadId={item.source_upload_id}
+                                        segmentIds={item.source_segment_ids || []}
+                                        startSec={item.source_start_sec ?? null}
+                                        endSec={item.source_end_sec ?? null}
+                                      />
+                                    )}
+                                  </div>
                                   <DescriptionTextarea
                                     value={item.description}
                                     onChange={(value) => {
@@ -2100,9 +2426,13 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                                           saveLineItem(currentItem.id, currentItem)
                                         }
                                       }}
-                                      className="h-8 text-sm text-right tabular-nums [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                                      className={cn(
+                                        "h-8 text-sm text-right tabular-nums [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none",
+                                        isHoursBased(item) && item.labor_rate_id && "bg-muted"
+                                      )}
                                       min="0"
                                       step="0.01"
+                                      readOnly={isHoursBased(item) && !!item.labor_rate_id}
                                       disabled={isLocked}
                                     />
                                   </div>
@@ -2164,6 +2494,67 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                                   </div>
                                 </div>
 
+                                {/* Labor Hours: cost labor from hours × crew rate */}
+                                <div className="grid grid-cols-4 gap-4 items-end">
+                                  <div className="col-span-2">
+                                    <Label className="text-xs text-muted-foreground mb-1 block">Crew Rate</Label>
+                                    <Select
+                                      value={item.labor_rate_id || 'none'}
+                                      onValueChange={(value) => {
+                                        updateItem(index, { labor_rate_id: value === 'none' ? null : value }, true)
+                                      }}
+                                      disabled={isLocked}
+                                    >
+                                      <SelectTrigger className="h-8 text-sm">
+                                        <SelectValue placeholder="No crew rate" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        <SelectItem value="none">No crew rate</SelectItem>
+                                        {laborRates.map(rate => (
+                                          <SelectItem key={rate.id} value={rate.id}>
+                                            {formatLaborRate(rate)}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                  <div>
+                                    <Label className="text-xs text-muted-foreground mb-1 block">Hours / {item.unit || 'Unit'}</Label>
+                                    <Input
+                                      type="number"
+                                      value={item.labor_hours_per_unit ?? ''}
+                                      placeholder="—"
+                                      onChange={(e) => {
+                                        const rawValue = e.target.value
+                                        const value = rawValue === '' ? null : Math.min(Math.max(parseFloat(rawValue) || 0, 0), 10000)
+                                        updateItem(index, { labor_hours_per_unit: value })
+                                      }}
+                                      onBlur={() => {
+                                        const currentItem = itemsRef.current[index]
+                                        if (currentItem?.id) {
+                                          saveLineItem(currentItem.id, currentItem)
+                                        }
+                                      }}
+                                      className="h-8 text-sm text-right tabular-nums [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                                      min="0"
+                                      step="0.01"
+                                      disabled={isLocked}
+                                    />
+                                  </div>
+                                  <div className="text-sm text-right tabular-nums pb-1.5">
+                                    {isHoursBased(item) && item.labor_hours !== null && item.labor_hours !== undefined ? (
+                                      <>
+                                        <span className="font-medium">{Number(item.labor_hours).toLocaleString()} hrs</span>
+                                        <span className="text-xs text-muted-foreground ml-1">
+                                          ({computeCrewDays(Number(item.labor_hours), item.labor_rate_id ? laborRatesById.get(item.labor_rate_id) : null)} crew-days)
+                                        </span>
+                                      </>
+                                    ) : (
+                                      <span className="text-xs text-muted-foreground">Labor cost entered directly</span>
+                                    )}
+                                  </div>
+                                </div>
+
                                 {/* Source & Confidence Badges - "Zebel-Style" */}
                                 <div className="flex items-center gap-3">
                                   {item.pricing_source && (
@@ -2247,9 +2638,23 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
             </>
           )}
 
-          {/* Room Subtotals + Grand Total */}
+          {/* Room Subtotals + Alternates + Grand Total */}
           {items.length > 0 && (
             <div className="mt-6 pt-4 border-t space-y-4">
+              {/* Alternates: base + per-alternate totals */}
+              {estimateId && (
+                <AlternatesManager
+                  estimateId={estimateId}
+                  alternates={alternates}
+                  selectedAlternateIds={selectedAlternateIds}
+                  totals={alternateTotals}
+                  isLocked={isLocked}
+                  onAlternatesChange={setAlternates}
+                  onSelectionChange={setSelectedAlternateIds}
+                  onAlternateDeleted={loadLineItems}
+                />
+              )}
+
               {/* Room Subtotals */}
               {roomTotals.size > 1 && (
                 <div className="space-y-1">
@@ -2261,6 +2666,9 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                         <div key={key} className="flex items-center justify-between text-sm py-0.5">
                           <span className="text-muted-foreground truncate mr-2">
                             {room_name} <span className="text-xs">({count})</span>
+                            {laborHours.byRoom.get(room_name) ? (
+                              <span className="text-xs ml-1">· {(Math.round(laborHours.byRoom.get(room_name)! * 100) / 100).toLocaleString()} hrs</span>
+                            ) : null}
                           </span>
                           <span className="font-medium tabular-nums whitespace-nowrap">
                             ${total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
@@ -2271,6 +2679,27 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
                 </div>
               )}
 
+              {/* Labor Hours by Trade */}
+              {laborHours.total > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+                    Labor Hours ({laborHours.total.toLocaleString()} hrs)
+                  </h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-1">
+                    {Array.from(laborHours.byTrade.entries())
+                      .sort((a, b) => b[1] - a[1])
+                      .map(([trade, hours]) => (
+                        <div key={trade} className="flex items-center justify-between text-sm py-0.5">
+                          <span className="text-muted-foreground truncate mr-2">{trade}</span>
+                          <span className="font-medium tabular-nums whitespace-nowrap">
+                            {(Math.round(hours * 100) / 100).toLocaleString()} hrs
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+
               {/* Grand Total */}
               <div className="flex justify-end pt-2 border-t">
                 <div className="text-right">
@@ -2312,6 +2741,16 @@ export function EstimateTable({ projectId, estimateId, initialData, onSave, proj
           </div>
         </div>
       )}
+
+      {estimateId && projectId && (
+        <AssembliesDialog
+          open={showAssembliesDialog}
+          onOpenChange={setShowAssembliesDialog}
+          projectId={projectId}
+          estimateId={estimateId}
+          onInserted={loadLineItems}
+        />
+      )}
     </div>
   )
 }
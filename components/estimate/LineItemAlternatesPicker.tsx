@@ -0,0 +1,51 @@
+'use client'
+
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+import type { EstimateAlternate } from "@/types/db"
+
+interface LineItemAlternatesPickerProps {
+  alternates: EstimateAlternate[]
+  value: string[]
+  disabled?: boolean
+  onChange: (alternateIds: string[]) => void
+}
+
+/**
+ * Toggle which alternates a line item belongs to. No alternates = base scope.
+ */
+export function LineItemAlternatesPicker({ alternates, value, disabled, onChange }: LineItemAlternatesPickerProps) {
+  if (alternates.length === 0) return null
+
+  const toggle = (alternateId: string) => {
+    onChange(value.includes(alternateId)
+      ? value.filter(id => id !== alternateId)
+      : [...value, alternateId])
+  }
+
+  return (
+    <div>
+      <Label className="text-xs text-muted-foreground mb-1 block">Alternates</Label>
+      <div className="flex flex-wrap items-center gap-1">
+        <Badge
+          variant={value.length === 0 ? 'default' : 'outline'}
+          className={cn("h-6 text-xs", !disabled && "cursor-pointer")}
+          onClick={() => !disabled && value.length > 0 && onChange([])}
+        >
+          Base
+        </Badge>
+        {alternates.map(alternate => (
+          <Badge
+            key={alternate.id}
+            variant={value.includes(alternate.id) ? 'default' : 'outline'}
+            className={cn("h-6 text-xs", !disabled && "cursor-pointer")}
+            onClick={() => !disabled && toggle(alternate.id)}
+          >
+            {alternate.name}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { MarkupRuleInput } from '@/actions/markup-rules'
+import type { MarkupRule } from '@/lib/pricing/markup'
+
+export type MarkupLayerKey = 'overhead_percent' | 'contingency_percent' | 'margin_percent' | 'sales_tax_percent'
+
+/** Form state: '' means the layer inherits from the broader scope */
+export type MarkupRuleDraft = Record<MarkupLayerKey, string>
+
+export const MARKUP_LAYERS: Array<{ key: MarkupLayerKey; label: string }> = [
+  { key: 'overhead_percent', label: 'Overhead %' },
+  { key: 'contingency_percent', label: 'Contingency %' },
+  { key: 'margin_percent', label: 'Profit %' },
+  { key: 'sales_tax_percent', label: 'Sales Tax % (materials)' },
+]
+
+export const EMPTY_MARKUP_DRAFT: MarkupRuleDraft = {
+  overhead_percent: '',
+  contingency_percent: '',
+  margin_percent: '',
+  sales_tax_percent: '',
+}
+
+export function ruleToDraft(rule: MarkupRule | null | undefined): MarkupRuleDraft {
+  if (!rule) return EMPTY_MARKUP_DRAFT
+  const value = (n: number | null) => (n === null || n === undefined ? '' : String(n))
+  return {
+    overhead_percent: value(rule.overhead_percent),
+    contingency_percent: value(rule.contingency_percent),
+    margin_percent: value(rule.margin_percent),
+    sales_tax_percent: value(rule.sales_tax_percent),
+  }
+}
+
+export function draftToInput(draft: MarkupRuleDraft): MarkupRuleInput {
+  const value = (s: string) => (s.trim() === '' ? null : Number(s))
+  return {
+    overhead_percent: value(draft.overhead_percent),
+    contingency_percent: value(draft.contingency_percent),
+    margin_percent: value(draft.margin_percent),
+    sales_tax_percent: value(draft.sales_tax_percent),
+  }
+}
+
+interface MarkupRuleFieldsProps {
+  idPrefix: string
+  draft: MarkupRuleDraft
+  onChange: (draft: MarkupRuleDraft) => void
+  /** Shown when a layer is blank, e.g. the inherited value */
+  placeholders?: Partial<Record<MarkupLayerKey, string>>
+  disabled?: boolean
+}
+
+/**
+ * The four markup layers of a rule. Blank layers inherit.
+ */
+export function MarkupRuleFields({ idPrefix, draft, onChange, placeholders, disabled }: MarkupRuleFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {MARKUP_LAYERS.map(layer => (
+        <div key={layer.key} className="space-y-1">
+          <Label htmlFor={`${idPrefix}-${layer.key}`} className="text-xs text-muted-foreground">
+            {layer.label}
+          </Label>
+          <Input
+            id={`${idPrefix}-${layer.key}`}
+            type="number"
+            min="0"
+            max={layer.key === 'sales_tax_percent' ? 25 : 100}
+            step="0.1"
+            value={draft[layer.key]}
+            placeholder={placeholders?.[layer.key] ?? 'Inherit'}
+            onChange={(e) => onChange({ ...draft, [layer.key]: e.target.value })}
+            className="h-8 text-right tabular-nums"
+            disabled={disabled}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+'use client'
+
+/**
+ * Markup Summary
+ *
+ * Direct cost → sales tax → overhead → contingency → profit for the active
+ * estimate at the current markup rules, with this project's own markup
+ * overrides. Items priced before a rule change are flagged and can be
+ * repriced while the estimate is a draft.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertTriangle, Settings } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  getEstimateMarkupSummary,
+  applyMarkupRulesToEstimate,
+  saveMarkupRule,
+  deleteMarkupRule,
+  type EstimateMarkupSummary,
+} from '@/actions/markup-rules'
+import { projectScope } from '@/lib/pricing/markup'
+import { MarkupRuleFields, ruleToDraft, draftToInput, type MarkupRuleDraft } from './MarkupRuleFields'
+
+interface MarkupSummaryProps {
+  estimateId: string
+  projectId: string
+  isDraft: boolean
+  /** Called after items were repriced */
+  onRepriced?: () => void
+}
+
+const formatCurrency = (value: number | null | undefined) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value || 0)
+
+export function MarkupSummary({ estimateId, projectId, isDraft, onRepriced }: MarkupSummaryProps) {
+  const [summary, setSummary] = useState<EstimateMarkupSummary | null>(null)
+  const [editingProject, setEditingProject] = useState(false)
+  const [projectDraft, setProjectDraft] = useState<MarkupRuleDraft>(ruleToDraft(null))
+  const [busy, setBusy] = useState(false)
+
+  const fetchSummary = useCallback(async () => {
+    const result = await getEstimateMarkupSummary(estimateId)
+    if (result.success && result.summary) {
+      setSummary(result.summary)
+      setProjectDraft(ruleToDraft(result.summary.projectRule))
+    } else {
+      console.error('Error loading markup summary:', result.error)
+    }
+  }, [estimateId])
+
+  useEffect(() => {
+    fetchSummary()
+  }, [fetchSummary])
+
+  const handleApply = async () => {
+    setBusy(true)
+    try {
+      const result = await applyMarkupRulesToEstimate(estimateId)
+      if (!result.success) throw new Error(result.error)
+      toast.success(`Repriced ${result.updatedCount} item${result.updatedCount === 1 ? '' : 's'}`)
+      await fetchSummary()
+      onRepriced?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to apply markup')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSaveProject = async () => {
+    setBusy(true)
+    try {
+      const input = draftToInput(projectDraft)
+      const isEmpty = Object.values(input).every(v => v === null)
+      const result = isEmpty
+        ? await deleteMarkupRule(projectScope(projectId))
+        : await saveMarkupRule(projectScope(projectId), input)
+      if (!result.success) throw new Error(result.error)
+      setEditingProject(false)
+      await fetchSummary()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save project markup')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!summary || summary.totals.direct_cost === 0) {
+    return null
+  }
+
+  const { totals, projectStack } = summary
+  const rows = [
+    { label: 'Direct Cost', value: totals.direct_cost },
+    { label: `Sales Tax (${projectStack.sales_tax_percent}% on materials)`, value: totals.sales_tax },
+    { label: `Overhead (${projectStack.overhead_percent}%)`, value: totals.overhead },
+    { label: `Contingency (${projectStack.contingency_percent}%)`, value: totals.contingency },
+    { label: `Profit (${projectStack.profit_percent}%)`, value: totals.profit },
+  ]
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Markup Summary</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setEditingProject(v => !v)}>
+            {summary.projectRule ? 'Edit project markup' : 'Set project markup'}
+          </Button>
+          <Link href="/settings/markup">
+            <Button variant="ghost" size="sm">
+              <Settings className="h-4 w-4 mr-1" />
+              Markup rules
+            </Button>
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editingProject && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <p className="text-sm text-muted-foreground">
+              Overrides for this project only. Leave a layer blank to use your global and trade rules.
+            </p>
+            <MarkupRuleFields idPrefix="project" draft={projectDraft} onChange={setProjectDraft} disabled={busy} />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setEditingProject(false)} disabled={busy}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSaveProject} disabled={busy}>
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1 text-sm">
+          {rows.map(row => (
+            <div key={row.label} className="flex items-center justify-between py-0.5">
+              <span className="text-muted-foreground">{row.label}</span>
+              <span className="tabular-nums">{formatCurrency(row.value)}</span>
+            </div>
+          ))}
+          <div className="flex items-center justify-between border-t pt-2 mt-1 font-semibold">
+            <span>Client Price</span>
+            <span className="tabular-nums">{formatCurrency(totals.client_price)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Percentages shown are the project defaults; trade rules may differ per item. Allowances are passed through at cost.
+          </p>
+        </div>
+
+        {summary.outdatedItemCount > 0 && (
+          <Alert className="border-amber-200 bg-amber-50">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="text-amber-800 flex items-center justify-between gap-4">
+              <span>
+                {summary.outdatedItemCount} item{summary.outdatedItemCount === 1 ? ' is' : 's are'} priced with a different markup.
+                The estimate total is {formatCurrency(summary.currentTotal)}.
+              </span>
+              {isDraft && (
+                <Button size="sm" variant="outline" onClick={handleApply} disabled={busy}>
+                  Apply markup rules
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { cn } from "@/lib/utils"
+import { formatPricingSuggestion, type PricingSuggestion } from "@/lib/pricing/suggestions"
+
+interface PricingSuggestionHintProps {
+  suggestion: PricingSuggestion | null | undefined
+  unit?: string | null
+  className?: string
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+/**
+ * Inline "your typical: $X (n=7, ±12%)" hint under a price field.
+ * Read-only by design - suggestions never fill in a price.
+ */
+export function PricingSuggestionHint({ suggestion, unit, className }: PricingSuggestionHintProps) {
+  if (!suggestion) return null
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <p
+            className={cn(
+              "text-[10px] leading-tight text-muted-foreground cursor-help tabular-nums",
+              suggestion.confidence === 'low' && "opacity-70",
+              className
+            )}
+          >
+            {formatPricingSuggestion(suggestion, unit)}
+          </p>
+        </TooltipTrigger>
+        <TooltipContent side="bottom" className="max-w-[260px]">
+          <div className="space-y-1 text-xs">
+            <p>
+              Typical range {formatMoney(suggestion.low)} – {formatMoney(suggestion.high)}
+              {unit ? ` per ${unit}` : ''} from {suggestion.sampleCount} committed price{suggestion.sampleCount === 1 ? '' : 's'}
+              {' '}({suggestion.confidence} confidence).
+            </p>
+            {suggestion.actualsCorrection !== null && (
+              <p>
+                Adjusted ×{suggestion.actualsCorrection.toFixed(2)} for actual costs on {suggestion.actualsSampleCount} job{suggestion.actualsSampleCount === 1 ? '' : 's'}
+                {' '}(bid median {formatMoney(suggestion.medianUnitCost)}).
+              </p>
+            )}
+            <p className="text-muted-foreground">
+              Last used {new Date(suggestion.lastUsedAt).toLocaleDateString()}. Recent jobs count more.
+            </p>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
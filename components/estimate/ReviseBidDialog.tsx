@@ -0,0 +1,89 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { reviseBid } from '@/actions/estimate-lifecycle'
+import { toast } from 'sonner'
+
+interface ReviseBidDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  estimateId: string
+  /** Current revision number (the new draft becomes revision + 1) */
+  revision: number
+  onSuccess: (revision: number) => void
+}
+
+/**
+ * Confirms re-opening a finalized bid (bid_final → draft).
+ * A reason is required - it is stored in the estimate status history.
+ */
+export function ReviseBidDialog({ open, onOpenChange, estimateId, revision, onSuccess }: ReviseBidDialogProps) {
+  const [reason, setReason] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setReason('')
+    }
+  }, [open])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!reason.trim()) {
+      toast.error('Please enter a reason for revising the bid')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const result = await reviseBid(estimateId, reason)
+      if (!result.success) throw new Error(result.error)
+      toast.success(`Bid re-opened as revision ${result.estimate?.revision ?? revision + 1}`)
+      onSuccess(result.estimate?.revision ?? revision + 1)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revise bid')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Revise Bid</DialogTitle>
+          <DialogDescription>
+            The estimate returns to draft as revision {revision + 1}. Pricing captured when this bid was
+            finalized is marked superseded, and the finalized version stays available in Revision History.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="revise-reason">Reason</Label>
+            <Textarea
+              id="revise-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Client asked to swap tile for LVP before signing"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Re-opening...' : 'Revise Bid'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
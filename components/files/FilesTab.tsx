@@ -1,10 +1,9 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { supabase } from '@/lib/supabase/client'
 import { db } from '@/lib/db-client'
 import { useAuth } from '@/lib/auth-context'
-import * as tus from 'tus-js-client'
 import { Button } from '@/components/ui/button'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
@@ -16,6 +15,9 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator,
   DropdownMenuLabel,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
 } from '@/components/ui/dropdown-menu'
 import { 
   Select,
@@ -38,11 +40,18 @@ import {
   X,
   Loader2,
   ScanLine,
+  Ruler,
+  GitCompare,
 } from 'lucide-react'
 import { toast } from 'sonner'
 import type { Upload as UploadType } from '@/types/db'
 import { cn } from '@/lib/utils'
 import { BlueprintReviewDrawer } from '@/components/plans/BlueprintReviewDrawer'
+import { TakeoffViewer } from '@/components/plans/TakeoffViewer'
+import { detectFileType, uploadProjectFile, type FileTag, type FileType } from '@/lib/project-files'
+import { useOffline } from '@/lib/offline-context'
+import { isNetworkError } from '@/lib/offline/outbox'
+import { usePlanParseJob } from '@/hooks/use-plan-parse-job'
 
 interface FilesTabProps {
   projectId: string
@@ -51,9 +60,6 @@ interface FilesTabProps {
   onBlueprintParsed?: () => void
 }
 
-type FileTag = 'blueprint' | 'spec' | 'photo' | 'other'
-type FileType = 'pdf' | 'image' | 'audio' | 'video' | 'other'
-
 const TAG_OPTIONS: { value: FileTag; label: string }[] = [
   { value: 'blueprint', label: 'Blueprint' },
   { value: 'spec', label: 'Spec' },
@@ -76,32 +82,13 @@ function getFileTypeIcon(fileType: FileType | null | undefined) {
   }
 }
 
-function detectFileType(fileName: string, mimeType?: string): FileType {
-  const ext = fileName.split('.').pop()?.toLowerCase()
-  
-  if (mimeType) {
-    if (mimeType.includes('pdf')) return 'pdf'
-    if (mimeType.includes('image')) return 'image'
-    if (mimeType.includes('audio')) return 'audio'
-    if (mimeType.includes('video')) return 'video'
-  }
-  
-  if (ext) {
-    if (['pdf'].includes(ext)) return 'pdf'
-    if (['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg'].includes(ext)) return 'image'
-    if (['mp3', 'wav', 'webm', 'm4a', 'ogg'].includes(ext)) return 'audio'
-    if (['mp4', 'mov', 'avi', 'webm'].includes(ext)) return 'video'
-  }
-  
-  return 'other'
-}
-
 // Max file size: 100MB (Supabase bucket limit set in migration 032)
 const MAX_FILE_SIZE_MB = 100
 const MAX_FILE_SIZE = MAX_FILE_SIZE_MB * 1024 * 1024
 
 export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintParsed }: FilesTabProps) {
   const { user } = useAuth()
+  const { queue: queueOutbox } = useOffline()
   const [files, setFiles] = useState<UploadType[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isUploading, setIsUploading] = useState(false)
@@ -113,9 +100,18 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
   // Blueprint parsing state
   const [selectedFilesForParsing, setSelectedFilesForParsing] = useState<Set<string>>(new Set())
   const [isParsing, setIsParsing] = useState(false)
-  const [parseResult, setParseResult] = useState<any>(null)
+  const [parseJobId, setParseJobId] = useState<string | null>(null)
   const [showReviewDrawer, setShowReviewDrawer] = useState(false)
   const [activeParseEstimateId, setActiveParseEstimateId] = useState<string | undefined>(undefined)
+  const parseJob = usePlanParseJob(parseJobId)
+  const notifiedParseResultRef = useRef<unknown>(null)
+  const [parsedFileIds, setParsedFileIds] = useState<string[]>([])
+
+  // On-plan takeoff
+  const [takeoffFileId, setTakeoffFileId] = useState<string | null>(null)
+
+  // Applied plan parses a new upload can be parsed as a revision of
+  const [appliedParses, setAppliedParses] = useState<Array<{ id: string; applied_at: string | null; upload_id: string | null }>>([])
   
   // Keep activeParseEstimateId in sync with prop
   const effectiveEstimateId = activeParseEstimateId || estimateId
@@ -145,6 +141,34 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
     loadFiles()
   }, [loadFiles])
 
+  const loadAppliedParses = useCallback(async () => {
+    if (!projectId) return
+
+    const { data, error } = await supabase
+      .from('plan_parses')
+      .select('id, applied_at, upload_id')
+      .eq('project_id', projectId)
+      .eq('status', 'applied')
+      .order('applied_at', { ascending: false })
+
+    if (error) {
+      console.warn('Error loading applied plan parses:', error)
+      return
+    }
+    setAppliedParses(data || [])
+  }, [projectId])
+
+  useEffect(() => {
+    loadAppliedParses()
+  }, [loadAppliedParses])
+
+  const appliedParseLabel = (parse: { applied_at: string | null; upload_id: string | null }) => {
+    const name = files.find(f => f.id === parse.upload_id)?.original_filename || 'Plans'
+    return parse.applied_at
+      ? `${name} (${new Date(parse.applied_at).toLocaleDateString()})`
+      : name
+  }
+
   const handleFileSelect = (file: File) => {
     // Check file size
     if (file.size > MAX_FILE_SIZE) {
@@ -182,112 +206,36 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
       setIsUploading(true)
       setUploadProgress(0)
 
-      // Upload to Supabase Storage
-      const timestamp = Date.now()
-      const sanitizedFileName = uploadFile.name.replace(/[^a-zA-Z0-9.-]/g, '_')
-      const filePath = `${user.id}/files/${projectId}/${timestamp}-${sanitizedFileName}`
-
-      // For large files (>6MB), use TUS resumable upload protocol
-      const LARGE_FILE_THRESHOLD = 6 * 1024 * 1024
-      
-      if (uploadFile.size > LARGE_FILE_THRESHOLD) {
-        // Large file: use TUS resumable upload
-        console.log(`[Upload] Large file (${(uploadFile.size / 1024 / 1024).toFixed(1)}MB), using TUS resumable upload...`)
-        
-        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-        const { data: { session } } = await supabase.auth.getSession()
-        const accessToken = session?.access_token
-        
-        if (!accessToken) {
-          throw new Error('Authentication required for upload')
-        }
-
-        // TUS resumable upload
-        await new Promise<void>((resolve, reject) => {
-          const upload = new tus.Upload(uploadFile, {
-            endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
-            retryDelays: [0, 1000, 3000, 5000],
-            headers: {
-              authorization: `Bearer ${accessToken}`,
-              'x-upsert': 'false',
-            },
-            uploadDataDuringCreation: true,
-            removeFingerprintOnSuccess: true,
-            metadata: {
-              bucketName: 'uploads',
-              objectName: filePath,
-              contentType: uploadFile.type,
-              cacheControl: '3600',
-            },
-            chunkSize: 6 * 1024 * 1024, // 6MB chunks
-            onError: (error) => {
-              console.error('[TUS Upload] Error:', error)
-              reject(new Error(`Upload failed: ${error.message}`))
-            },
-            onProgress: (bytesUploaded, bytesTotal) => {
-              const percentage = Math.round((bytesUploaded / bytesTotal) * 100)
-              setUploadProgress(percentage)
-            },
-            onSuccess: () => {
-              console.log('[TUS Upload] Success!')
-              setUploadProgress(100)
-              resolve()
-            },
-          })
-
-          // Check for previous uploads to resume
-          upload.findPreviousUploads().then((previousUploads) => {
-            if (previousUploads.length > 0) {
-              console.log('[TUS Upload] Resuming previous upload...')
-              upload.resumeFromPreviousUpload(previousUploads[0])
-            }
-            upload.start()
-          })
+      // Offline: keep the file on this device and upload it when reconnected
+      const queueOffline = async () => {
+        await queueOutbox({
+          projectId,
+          label: uploadFile.name,
+          payload: { kind: 'file_upload', file: uploadFile, fileName: uploadFile.name, tag: selectedTag, userId: user.id },
         })
-      } else {
-        // Small file: use standard Supabase upload
-        const { error: uploadError } = await supabase.storage
-          .from('uploads')
-          .upload(filePath, uploadFile, {
-            contentType: uploadFile.type,
-            upsert: false,
-          })
-
-        if (uploadError) {
-          throw new Error(`Upload failed: ${uploadError.message}`)
-        }
-        
-        setUploadProgress(100)
+        toast.info('You are offline', { description: `${uploadFile.name} will upload when you reconnect.` })
+        setUploadFile(null)
+        setSelectedTag('other')
       }
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('uploads')
-        .getPublicUrl(filePath)
+      if (!navigator.onLine) {
+        await queueOffline()
+        return
+      }
 
-      // Determine the file type for parsing
-      const detectedFileType = detectFileType(uploadFile.name, uploadFile.type)
-      
-      // Create upload record via API (bypasses RLS cache issues)
-      const createResponse = await fetch('/api/uploads/create', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      try {
+        await uploadProjectFile({
+          file: uploadFile,
+          fileName: uploadFile.name,
           projectId,
-          fileUrl: publicUrl,
-          kind: selectedTag === 'photo' ? 'photo' : selectedTag === 'blueprint' ? 'blueprint' : 'other',
-          tag: selectedTag, // For blueprint parsing
-          fileType: detectedFileType, // pdf, image, etc.
-          originalFilename: uploadFile.name,
+          userId: user.id,
+          tag: selectedTag,
+          onProgress: setUploadProgress,
         })
-      })
-      
-      const createResult = await createResponse.json()
-      
-      if (!createResponse.ok) {
-        // Clean up uploaded file
-        await supabase.storage.from('uploads').remove([filePath])
-        throw new Error(`Failed to save file record: ${createResult.error}`)
+      } catch (error) {
+        if (!isNetworkError(error)) throw error
+        await queueOffline()
+        return
       }
 
       toast.success('File uploaded successfully')
@@ -305,6 +253,10 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
   }
 
   const handleDelete = async (fileId: string, fileUrl: string) => {
+    if (files.find(f => f.id === fileId)?.is_immutable) {
+      toast.error('Signed contracts are archived and cannot be deleted')
+      return
+    }
     if (!confirm('Are you sure you want to delete this file?')) return
 
     try {
@@ -416,8 +368,9 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
     return match ? match[1] : fileUrl
   }
 
-  // Parse selected blueprints (or a specific file if passed directly)
-  const handleParseBlueprints = async (singleFile?: UploadType) => {
+  // Parse selected blueprints (or a specific file if passed directly),
+  // optionally as a revision of an applied parse
+  const handleParseBlueprints = async (singleFile?: UploadType, basePlanParseId?: string) => {
     // If a single file is passed (from dropdown), use it directly
     // Otherwise use the checkbox selection
     const filesToParse = singleFile
@@ -482,40 +435,21 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
           uploadId: uploadId || undefined,
           uploadIds: uploadIds.length > 0 ? uploadIds : undefined,
           resolveFromProject: needsServerResolve, // Tell server to look up blueprint files
+          basePlanParseId,
         })
       })
 
       const result = await response.json()
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to parse plans')
+        throw new Error(result.error || result.warnings?.[0] || 'Failed to parse plans')
       }
 
-      // Always show results in review drawer, even on partial failure
-      // This gives users the fallback room + actionable next steps
-      setParseResult(result)
+      // The parse runs as a background job; the drawer follows its progress
+      // and shows the results when it finishes
+      setParseJobId(result.planParseId)
+      setParsedFileIds(filesToParse.map(f => f.id))
       setShowReviewDrawer(true)
-      
-      if (!result.success) {
-        // Partial failure - still show drawer with fallback room
-        toast.warning(
-          "We couldn't fully read this plan",
-          {
-            description: 'You can still add rooms manually or try uploading clearer pages.',
-            duration: 6000,
-          }
-        )
-      } else if (result.rooms?.length === 0) {
-        toast.warning('No rooms detected', {
-          description: 'Try uploading individual floor plan pages or adding notes.',
-          duration: 5000,
-        })
-      } else {
-        toast.success(`Detected ${result.rooms?.length || 0} rooms`, {
-          description: 'Review and edit before applying to your estimate.',
-          duration: 4000,
-        })
-      }
     } catch (error) {
       console.error('Parse error:', error)
       const errorMessage = error instanceof Error ? error.message : 'Failed to parse plans'
@@ -533,6 +467,36 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
     }
   }
 
+  // Announce each finished parse once. Always show results in the review
+  // drawer, even on partial failure: this gives users the fallback room +
+  // actionable next steps
+  useEffect(() => {
+    const result = parseJob.result
+    if (!result || notifiedParseResultRef.current === result) return
+    notifiedParseResultRef.current = result
+    setShowReviewDrawer(true)
+
+    if (!result.success) {
+      toast.warning(
+        "We couldn't fully read this plan",
+        {
+          description: 'You can still add rooms manually or try uploading clearer pages.',
+          duration: 6000,
+        }
+      )
+    } else if (result.rooms?.length === 0) {
+      toast.warning('No rooms detected', {
+        description: 'Try uploading individual floor plan pages or adding notes.',
+        duration: 5000,
+      })
+    } else {
+      toast.success(`Detected ${result.rooms?.length || 0} rooms`, {
+        description: 'Review and edit before applying to your estimate.',
+        duration: 4000,
+      })
+    }
+  }, [parseJob.result])
+
   // Helper to get user-friendly error descriptions
   const getParseErrorHelpText = (errorMessage: string): string => {
     if (errorMessage.includes('OpenAI') || errorMessage.includes('API key')) {
@@ -612,6 +576,8 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
         return 'secondary'
       case 'photo':
         return 'outline'
+      case 'contract':
+        return 'secondary'
       default:
         return 'outline'
     }
@@ -739,10 +705,10 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
           </div>
           <Button
             onClick={() => handleParseBlueprints()}
-            disabled={isParsing || selectedParseableCount === 0}
+            disabled={isParsing || parseJob.isRunning || selectedParseableCount === 0}
             size="sm"
           >
-            {isParsing ? (
+            {isParsing || parseJob.isRunning ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Parsing...
@@ -846,43 +812,74 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
                               Use in Copilot
                             </DropdownMenuItem>
                             {isParseable && (
-                              <DropdownMenuItem
-                                onClick={() => handleParseBlueprints(file)}
-                              >
-                                <ScanLine className="h-4 w-4 mr-2" />
-                                Parse for Rooms
-                              </DropdownMenuItem>
+                              <>
+                                <DropdownMenuItem
+                                  onClick={() => handleParseBlueprints(file)}
+                                >
+                                  <ScanLine className="h-4 w-4 mr-2" />
+                                  Parse for Rooms
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => setTakeoffFileId(file.id)}
+                                >
+                                  <Ruler className="h-4 w-4 mr-2" />
+                                  Measure
+                                </DropdownMenuItem>
+                                {appliedParses.length > 0 && (
+                                  <DropdownMenuSub>
+                                    <DropdownMenuSubTrigger>
+                                      <GitCompare className="h-4 w-4 mr-2" />
+                                      Parse as Revision of…
+                                    </DropdownMenuSubTrigger>
+                                    <DropdownMenuSubContent>
+                                      {appliedParses.map(parse => (
+                                        <DropdownMenuItem
+                                          key={parse.id}
+                                          onClick={() => handleParseBlueprints(file, parse.id)}
+                                        >
+                                          {appliedParseLabel(parse)}
+                                        </DropdownMenuItem>
+                                      ))}
+                                    </DropdownMenuSubContent>
+                                  </DropdownMenuSub>
+                                )}
+                              </>
                             )}
-                            <DropdownMenuSeparator />
-                            <DropdownMenuLabel className="text-xs">Change Tag</DropdownMenuLabel>
-                            {(file.tag || file.kind) !== 'blueprint' && (
-                              <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'blueprint')}>
-                                📐 Blueprint
-                              </DropdownMenuItem>
+                            {/* Archived signed contracts can't be retagged or deleted */}
+                            {!file.is_immutable && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuLabel className="text-xs">Change Tag</DropdownMenuLabel>
+                                {(file.tag || file.kind) !== 'blueprint' && (
+                                  <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'blueprint')}>
+                                    📐 Blueprint
+                                  </DropdownMenuItem>
+                                )}
+                                {(file.tag || file.kind) !== 'spec' && (
+                                  <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'spec')}>
+                                    📄 Spec
+                                  </DropdownMenuItem>
+                                )}
+                                {(file.tag || file.kind) !== 'photo' && (
+                                  <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'photo')}>
+                                    📷 Photo
+                                  </DropdownMenuItem>
+                                )}
+                                {(file.tag || file.kind) !== 'other' && (file.tag || file.kind) && (
+                                  <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'other')}>
+                                    📁 Other
+                                  </DropdownMenuItem>
+                                )}
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  onClick={() => handleDelete(file.id, file.file_url)}
+                                  className="text-destructive"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </DropdownMenuItem>
+                              </>
                             )}
-                            {(file.tag || file.kind) !== 'spec' && (
-                              <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'spec')}>
-                                📄 Spec
-                              </DropdownMenuItem>
-                            )}
-                            {(file.tag || file.kind) !== 'photo' && (
-                              <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'photo')}>
-                                📷 Photo
-                              </DropdownMenuItem>
-                            )}
-                            {(file.tag || file.kind) !== 'other' && (file.tag || file.kind) && (
-                              <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'other')}>
-                                📁 Other
-                              </DropdownMenuItem>
-                            )}
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem
-                              onClick={() => handleDelete(file.id, file.file_url)}
-                              className="text-destructive"
-                            >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Delete
-                            </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -956,43 +953,74 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
                             Use in Copilot
                           </DropdownMenuItem>
                           {isParseable && (
-                            <DropdownMenuItem
-                              onClick={() => handleParseBlueprints(file)}
-                            >
-                              <ScanLine className="h-4 w-4 mr-2" />
-                              Parse for Rooms
-                            </DropdownMenuItem>
-                          )}
-                          <DropdownMenuSeparator />
-                          <DropdownMenuLabel className="text-xs">Change Tag</DropdownMenuLabel>
-                          {(file.tag || file.kind) !== 'blueprint' && (
-                            <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'blueprint')}>
-                              📐 Blueprint
-                            </DropdownMenuItem>
-                          )}
-                          {(file.tag || file.kind) !== 'spec' && (
-                            <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'spec')}>
-                              📄 Spec
-                            </DropdownMenuItem>
-                          )}
-                          {(file.tag || file.kind) !== 'photo' && (
-                            <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'photo')}>
-                              📷 Photo
-                            </DropdownMenuItem>
+                            <>
+                              <DropdownMenuItem
+                                onClick={() => handleParseBlueprints(file)}
+                              >
+                                <ScanLine className="h-4 w-4 mr-2" />
+                                Parse for Rooms
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setTakeoffFileId(file.id)}
+                              >
+                                <Ruler className="h-4 w-4 mr-2" />
+                                Measure
+                              </DropdownMenuItem>
+                              {appliedParses.length > 0 && (
+                                <DropdownMenuSub>
+                                  <DropdownMenuSubTrigger>
+                                    <GitCompare className="h-4 w-4 mr-2" />
+                                    Parse as Revision of…
+                                  </DropdownMenuSubTrigger>
+                                  <DropdownMenuSubContent>
+                                    {appliedParses.map(parse => (
+                                      <DropdownMenuItem
+                                        key={parse.id}
+                                        onClick={() => handleParseBlueprints(file, parse.id)}
+                                      >
+                                        {appliedParseLabel(parse)}
+                                      </DropdownMenuItem>
+                                    ))}
+                                  </DropdownMenuSubContent>
+                                </DropdownMenuSub>
+                              )}
+                            </>
                           )}
-                          {(file.tag || file.kind) !== 'other' && (file.tag || file.kind) && (
-                            <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'other')}>
-                              📁 Other
-                            </DropdownMenuItem>
+                          {/* Archived signed contracts can't be retagged or deleted */}
+                          {!file.is_immutable && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuLabel className="text-xs">Change Tag</DropdownMenuLabel>
+                              {(file.tag || file.kind) !== 'blueprint' && (
+                                <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'blueprint')}>
+                                  📐 Blueprint
+                                </DropdownMenuItem>
+                              )}
+                              {(file.tag || file.kind) !== 'spec' && (
+                                <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'spec')}>
+                                  📄 Spec
+                                </DropdownMenuItem>
+                              )}
+                              {(file.tag || file.kind) !== 'photo' && (
+                                <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'photo')}>
+                                  📷 Photo
+                                </DropdownMenuItem>
+                              )}
+                              {(file.tag || file.kind) !== 'other' && (file.tag || file.kind) && (
+                                <DropdownMenuItem onClick={() => handleUpdateTag(file.id, 'other')}>
+                                  📁 Other
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onClick={() => handleDelete(file.id, file.file_url)}
+                                className="text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
                           )}
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem
-                            onClick={() => handleDelete(file.id, file.file_url)}
-                            className="text-destructive"
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </div>
@@ -1009,19 +1037,35 @@ export function FilesTab({ projectId, estimateId, onUseInCopilot, onBlueprintPar
         <BlueprintReviewDrawer
           open={showReviewDrawer}
           onOpenChange={setShowReviewDrawer}
-          parseResult={parseResult}
+          parseResult={parseJob.result}
+          job={parseJob.job}
+          onCancelJob={parseJob.cancel}
+          onRetrySheets={parseJob.retrySheets}
           projectId={projectId}
           estimateId={effectiveEstimateId}
           onApplyComplete={() => {
             setSelectedFilesForParsing(new Set())
-            setParseResult(null)
+            setParseJobId(null)
             setActiveParseEstimateId(undefined)
+            loadAppliedParses()
             onBlueprintParsed?.()
           }}
-          onReparse={() => handleParseBlueprints()}
-          isReparsing={isParsing}
+          onReparse={() => handleParseBlueprints(undefined, parseJob.job?.basePlanParseId ?? undefined)}
+          isReparsing={isParsing || parseJob.isRunning}
+          planFiles={files.filter(f => parsedFileIds.includes(f.id))}
         />
       )}
+
+      {/* On-plan takeoff */}
+      <TakeoffViewer
+        open={takeoffFileId !== null}
+        onOpenChange={open => { if (!open) setTakeoffFileId(null) }}
+        projectId={projectId}
+        estimateId={effectiveEstimateId}
+        files={parseableFiles}
+        initialFileId={takeoffFileId ?? undefined}
+        onChanged={onBlueprintParsed}
+      />
     </div>
   )
 }
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
@@ -9,12 +9,13 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { createInvoice } from '@/actions/invoices'
+import { allocateMilestoneAmount } from '@/lib/contract-milestones'
 import { toast } from 'sonner'
 import { format } from 'date-fns'
 import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { cn } from "@/lib/utils"
-import { CalendarIcon, DollarSign, Percent } from "lucide-react"
+import { CalendarIcon, DollarSign, Flag, Percent } from "lucide-react"
 
 interface ProjectTask {
   id: string
@@ -26,28 +27,50 @@ interface ProjectTask {
   category?: string | null
 }
 
+/** Contract milestone to bill - prefills tasks and amount */
+export interface InvoiceMilestone {
+  id: string
+  name: string
+  amount: number
+  taskIds: string[]
+  /** Down payments are billed in full, without retainage */
+  isDownPayment: boolean
+}
+
 interface CreateInvoiceDrawerProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   projectId: string
   tasks: ProjectTask[]
+  /** Contract retainage withheld from the invoice (preview only - applied server-side) */
+  retainagePercent?: number
+  milestone?: InvoiceMilestone | null
   onSuccess: () => void
 }
 
-export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, onSuccess }: CreateInvoiceDrawerProps) {
+export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, retainagePercent = 0, milestone = null, onSuccess }: CreateInvoiceDrawerProps) {
   const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set())
-  const [billingMode, setBillingMode] = useState<'full' | 'percentage'>('full')
+  const [billingMode, setBillingMode] = useState<'full' | 'percentage' | 'milestone'>('full')
   const [percentage, setPercentage] = useState(50)
   const [issuedDate, setIssuedDate] = useState<Date>(new Date())
   const [dueDate, setDueDate] = useState<Date>()
   const [loading, setLoading] = useState(false)
 
-  // Filter to only show completed tasks that have remaining balance
+  // Filter to only show completed tasks that have remaining balance.
+  // A milestone bills its own tasks, which may not be completed (e.g. a down payment).
   const availableTasks = tasks.filter(t => {
     const remaining = (t.price || 0) - (t.billed_amount || 0)
+    if (milestone) return milestone.taskIds.includes(t.id) && remaining > 0
     return t.status === 'completed' && remaining > 0
   })
 
+  // Milestone billing: spread the milestone amount over the selected tasks
+  const milestoneAllocation = useMemo(() => {
+    if (!milestone || billingMode !== 'milestone') return new Map<string, number>()
+    const selected = tasks.filter(t => selectedTasks.has(t.id))
+    return new Map(allocateMilestoneAmount(milestone.amount, selected).map(line => [line.taskId, line.amount]))
+  }, [milestone, billingMode, tasks, selectedTasks])
+
   // Group tasks by category/room for easier selection
   const groupedTasks = availableTasks.reduce((acc, task) => {
     const category = task.category || 'Other'
@@ -76,7 +99,9 @@ export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, onSu
   const calculateTotal = () => {
     if (selectedTasks.size === 0) return 0
 
-    if (billingMode === 'full') {
+    if (billingMode === 'milestone') {
+      return Array.from(milestoneAllocation.values()).reduce((sum, amount) => sum + amount, 0)
+    } else if (billingMode === 'full') {
       // Option A: Bill 100% of selected completed tasks
       return Array.from(selectedTasks).reduce((sum, taskId) => {
         const task = availableTasks.find(t => t.id === taskId)
@@ -97,6 +122,7 @@ export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, onSu
   // Calculate what will be billed for a specific task
   const getTaskBillingAmount = (task: ProjectTask): number => {
     if (!selectedTasks.has(task.id)) return 0
+    if (billingMode === 'milestone') return milestoneAllocation.get(task.id) ?? 0
     const remaining = getRemainingBalance(task)
     return billingMode === 'full' ? remaining : remaining * (percentage / 100)
   }
@@ -123,8 +149,10 @@ export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, onSu
           if (!task) return null
           
           const remaining = getRemainingBalance(task)
-          const amount = billingMode === 'full' 
-            ? remaining 
+          const amount = billingMode === 'milestone'
+            ? milestoneAllocation.get(task.id) ?? 0
+            : billingMode === 'full'
+            ? remaining
             : remaining * (percentage / 100)
           
           // Round to 2 decimal places
@@ -136,7 +164,7 @@ export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, onSu
             description: task.description
           }
         })
-        .filter((item): item is { taskId: string; amount: number; description: string } => item !== null)
+        .filter((item): item is { taskId: string; amount: number; description: string } => item !== null && item.amount > 0)
 
       if (items.length === 0) {
         throw new Error('No valid items to invoice')
@@ -150,6 +178,9 @@ export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, onSu
       if (dueDate) {
         payload.dueDate = format(dueDate, 'yyyy-MM-dd')
       }
+      if (milestone) {
+        payload.milestoneId = milestone.id
+      }
 
       const result = await createInvoice(projectId, payload)
 
@@ -177,13 +208,25 @@ export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, onSu
     }
   }, [open])
 
-  const invoiceTotal = calculateTotal()
+  // Prefill from the milestone being invoiced
+  useEffect(() => {
+    if (open && milestone) {
+      setSelectedTasks(new Set(availableTasks.map(t => t.id)))
+      setBillingMode('milestone')
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, milestone?.id])
+
+  const invoiceSubtotal = calculateTotal()
+  const withheldPercent = milestone?.isDownPayment ? 0 : retainagePercent
+  const retainageWithheld = Math.round(invoiceSubtotal * withheldPercent) / 100
+  const invoiceTotal = invoiceSubtotal - retainageWithheld
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Create Invoice</DialogTitle>
+          <DialogTitle>{milestone ? `Invoice Milestone: ${milestone.name}` : 'Create Invoice'}</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Selection Mode: Select scopes from project_tasks */}
@@ -263,8 +306,23 @@ export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, onSu
             <CardContent className="space-y-4">
               <RadioGroup 
                 value={billingMode} 
-                onValueChange={(value: 'full' | 'percentage') => setBillingMode(value)}
+                onValueChange={(value: 'full' | 'percentage' | 'milestone') => setBillingMode(value)}
               >
+                {milestone && (
+                  <div className="flex items-start space-x-3 p-4 rounded-lg border">
+                    <RadioGroupItem value="milestone" id="milestone" className="mt-1" />
+                    <div className="flex-1">
+                      <Label htmlFor="milestone" className="font-medium cursor-pointer flex items-center gap-2">
+                        <Flag className="h-4 w-4" />
+                        Milestone: {milestone.name}
+                      </Label>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Bill the scheduled ${new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(milestone.amount)} across the selected tasks in proportion to their remaining balance.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex items-start space-x-3 p-4 rounded-lg border">
                   <RadioGroupItem value="full" id="full" className="mt-1" />
                   <div className="flex-1">
@@ -389,7 +447,13 @@ export function CreateInvoiceDrawer({ open, onOpenChange, projectId, tasks, onSu
                   <p className="text-xs text-muted-foreground mt-1">
                     {selectedTasks.size} task{selectedTasks.size !== 1 ? 's' : ''} selected
                     {billingMode === 'percentage' && ` • ${percentage}% billing`}
+                    {billingMode === 'milestone' && milestone && ` • ${milestone.name}`}
                   </p>
+                  {retainageWithheld > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      ${new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(invoiceSubtotal)} less {withheldPercent}% retainage (${new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(retainageWithheld)})
+                    </p>
+                  )}
                 </div>
                 <div className="text-right">
                   <p className="text-2xl font-bold tabular-nums">
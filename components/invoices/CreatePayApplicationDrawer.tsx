@@ -0,0 +1,330 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { createPayApplication } from '@/actions/invoices'
+import { computePayApplicationLine, previousPercentComplete, summarizePayApplication } from '@/lib/pay-application'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import { CalendarIcon } from "lucide-react"
+
+interface ProjectTask {
+  id: string
+  description: string
+  status: string
+  price: number
+  billed_amount: number
+  room_name?: string | null
+  category?: string | null
+}
+
+interface CreatePayApplicationDrawerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  projectId: string
+  tasks: ProjectTask[]
+  /** Contract retainage percentage, used as the default for this application */
+  defaultRetainagePercent?: number
+  onSuccess: () => void
+}
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value)
+
+function DateField({ id, label, value, onChange, placeholder }: {
+  id: string
+  label: string
+  value: Date | undefined
+  onChange: (date: Date | undefined) => void
+  placeholder?: string
+}) {
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <Popover modal>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            id={id}
+            variant="outline"
+            className={cn("w-full justify-start text-left font-normal mt-2", !value && "text-muted-foreground")}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "PPP") : (placeholder || "Pick a date")}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar mode="single" selected={value} onSelect={onChange} initialFocus />
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
+
+/**
+ * Progress billing by percent complete (AIA G702/G703 style).
+ *
+ * Enter each task's percent complete to date; the continuation sheet and
+ * payment due preview use the same math createPayApplication runs on save.
+ */
+export function CreatePayApplicationDrawer({ open, onOpenChange, projectId, tasks, defaultRetainagePercent = 0, onSuccess }: CreatePayApplicationDrawerProps) {
+  const [percents, setPercents] = useState<Record<string, number>>({})
+  const [retainagePercent, setRetainagePercent] = useState(defaultRetainagePercent)
+  const [periodTo, setPeriodTo] = useState<Date | undefined>(new Date())
+  const [issuedDate, setIssuedDate] = useState<Date | undefined>(new Date())
+  const [dueDate, setDueDate] = useState<Date>()
+  const [loading, setLoading] = useState(false)
+
+  // Every priced task is a line on the continuation sheet, credits included
+  const billableTasks = useMemo(() => tasks.filter(t => (t.price || 0) !== 0), [tasks])
+
+  const lines = useMemo(() =>
+    billableTasks.map(task =>
+      computePayApplicationLine(
+        task,
+        percents[task.id] ?? previousPercentComplete(task),
+        retainagePercent
+      )
+    ),
+    [billableTasks, percents, retainagePercent]
+  )
+  const summary = summarizePayApplication(lines)
+
+  const setPercent = (task: ProjectTask, value: number) => {
+    setPercents(prev => ({ ...prev, [task.id]: Math.min(100, Math.max(0, value)) }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!periodTo || !issuedDate) {
+      toast.error('Please choose the period end and issued dates')
+      return
+    }
+    if (retainagePercent < 0 || retainagePercent > 100) {
+      toast.error('Retainage must be between 0% and 100%')
+      return
+    }
+    const lowered = billableTasks.find(task =>
+      percents[task.id] !== undefined && percents[task.id] < previousPercentComplete(task)
+    )
+    if (lowered) {
+      toast.error(`"${lowered.description}" is already billed to ${previousPercentComplete(lowered)}%`)
+      return
+    }
+    if (lines.every(line => line.thisPeriodAmount === 0)) {
+      toast.error('Raise percent complete on at least one task')
+      return
+    }
+    if (summary.thisPeriodAmount < 0) {
+      toast.error('This period nets to a credit - bill credit lines together with completed work')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const result = await createPayApplication(projectId, {
+        issuedDate: format(issuedDate, 'yyyy-MM-dd'),
+        dueDate: dueDate ? format(dueDate, 'yyyy-MM-dd') : undefined,
+        periodTo: format(periodTo, 'yyyy-MM-dd'),
+        retainagePercent,
+        lines: Object.entries(percents).map(([taskId, percentComplete]) => ({ taskId, percentComplete }))
+      })
+
+      if (!result.success) throw new Error(result.error)
+
+      toast.success(`Pay application #${result.applicationNumber} created (${result.invoiceNumber})`)
+      onSuccess()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error creating pay application:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create pay application')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Reset form when drawer closes
+  useEffect(() => {
+    if (!open) {
+      setPercents({})
+      setRetainagePercent(defaultRetainagePercent)
+      setPeriodTo(new Date())
+      setIssuedDate(new Date())
+      setDueDate(undefined)
+    }
+  }, [open, defaultRetainagePercent])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Pay Application</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Continuation sheet */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Percent Complete</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {billableTasks.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>No priced tasks to bill.</p>
+                  <p className="text-sm mt-2">Start the job to create tasks from the estimate.</p>
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                  <div className="hidden md:grid grid-cols-[1fr_110px_90px_100px_110px] gap-3 px-3 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                    <span>Task</span>
+                    <span className="text-right">Scheduled</span>
+                    <span className="text-right">Previous</span>
+                    <span className="text-right">% To Date</span>
+                    <span className="text-right">This Period</span>
+                  </div>
+                  {billableTasks.map((task, idx) => {
+                    const line = lines[idx]
+                    const previousPercent = previousPercentComplete(task)
+                    const fullyBilled = previousPercent >= 100
+
+                    return (
+                      <div
+                        key={task.id}
+                        className={cn(
+                          "grid grid-cols-2 md:grid-cols-[1fr_110px_90px_100px_110px] gap-3 items-center p-3 rounded-lg border",
+                          line.thisPeriodAmount !== 0 ? "bg-primary/5 border-primary" : "bg-muted/30 border-border"
+                        )}
+                      >
+                        <div className="col-span-2 md:col-span-1 min-w-0">
+                          <p className="font-medium text-sm">{task.description}</p>
+                          {(task.room_name || task.category) && (
+                            <p className="text-xs text-muted-foreground">
+                              {[task.category, task.room_name].filter(Boolean).join(' - ')}
+                            </p>
+                          )}
+                        </div>
+                        <span className="text-sm tabular-nums md:text-right">
+                          <span className="md:hidden text-muted-foreground">Scheduled: </span>
+                          ${formatMoney(line.scheduledValue)}
+                        </span>
+                        <span className="text-sm tabular-nums text-muted-foreground md:text-right">
+                          <span className="md:hidden">Previous: </span>
+                          {previousPercent}%
+                        </span>
+                        <div className="relative">
+                          <Input
+                            type="number"
+                            value={percents[task.id] ?? previousPercent}
+                            onChange={(e) => setPercent(task, Number(e.target.value))}
+                            min={previousPercent}
+                            max={100}
+                            step={1}
+                            disabled={fullyBilled}
+                            className="pr-7 tabular-nums text-right"
+                            aria-label={`Percent complete for ${task.description}`}
+                          />
+                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">%</span>
+                        </div>
+                        <span className={cn(
+                          "text-sm tabular-nums md:text-right",
+                          line.thisPeriodAmount !== 0 ? "text-primary font-semibold" : "text-muted-foreground"
+                        )}>
+                          ${formatMoney(line.thisPeriodAmount)}
+                        </span>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Period, dates and retainage */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Application Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <DateField id="period-to" label="Period To" value={periodTo} onChange={setPeriodTo} />
+                <div>
+                  <Label htmlFor="retainage-percent">Retainage</Label>
+                  <div className="relative mt-2">
+                    <Input
+                      id="retainage-percent"
+                      type="number"
+                      value={retainagePercent}
+                      onChange={(e) => {
+                        const value = Number(e.target.value)
+                        if (value >= 0 && value <= 100) {
+                          setRetainagePercent(value)
+                        }
+                      }}
+                      min={0}
+                      max={100}
+                      step={0.5}
+                      className="pr-8 tabular-nums"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+                  </div>
+                </div>
+                <DateField id="pay-app-issued-date" label="Issued Date" value={issuedDate} onChange={setIssuedDate} />
+                <DateField id="pay-app-due-date" label="Due Date" value={dueDate} onChange={setDueDate} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* G702 summary */}
+          <Card className="bg-muted/50">
+            <CardContent className="pt-6 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Contract sum</span>
+                <span className="tabular-nums">${formatMoney(summary.contractSum)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Completed to date</span>
+                <span className="tabular-nums">${formatMoney(summary.completedToDate)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Retainage held to date</span>
+                <span className="tabular-nums">${formatMoney(summary.retainageToDate)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Less previous certificates</span>
+                <span className="tabular-nums">${formatMoney(summary.previousCertificates)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Balance to finish (incl. retainage)</span>
+                <span className="tabular-nums">${formatMoney(summary.balanceToFinishWithRetainage)}</span>
+              </div>
+              <div className="flex justify-between items-center border-t pt-3 mt-2">
+                <div>
+                  <p className="text-muted-foreground">Current Payment Due</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    ${formatMoney(summary.thisPeriodAmount)} this period
+                    {summary.thisPeriodRetainage > 0 && ` less $${formatMoney(summary.thisPeriodRetainage)} retainage`}
+                  </p>
+                </div>
+                <p className="text-2xl font-bold tabular-nums">${formatMoney(summary.currentPaymentDue)}</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={loading || billableTasks.length === 0}>
+              {loading ? 'Creating...' : 'Create Pay Application'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
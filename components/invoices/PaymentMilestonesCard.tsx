@@ -0,0 +1,119 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import type { ProjectMilestone } from '@/actions/milestones'
+import { formatMilestoneTrigger, type MilestoneStatus } from '@/lib/contract-milestones'
+import { cn } from "@/lib/utils"
+import { Flag, FileText } from "lucide-react"
+
+interface PaymentMilestonesCardProps {
+  milestones: ProjectMilestone[]
+  onInvoice: (milestone: ProjectMilestone) => void
+}
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value)
+
+const STATUS_BADGES: Record<MilestoneStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-muted text-muted-foreground border-border' },
+  ready: { label: 'Ready to Invoice', className: 'bg-amber-100 text-amber-800 border-amber-300' },
+  invoiced: { label: 'Invoiced', className: 'bg-primary/10 text-primary border-primary/20' },
+  paid: { label: 'Paid', className: 'bg-primary/20 text-primary border-primary/30' },
+}
+
+/**
+ * Contract payment schedule with each milestone's trigger progress and
+ * invoiced / paid state. Ready milestones can be invoiced in one click.
+ */
+export function PaymentMilestonesCard({ milestones, onInvoice }: PaymentMilestonesCardProps) {
+  if (milestones.length === 0) return null
+
+  const scheduled = milestones.reduce((sum, m) => sum + m.amount, 0)
+  const invoiced = milestones
+    .filter(m => m.status === 'invoiced' || m.status === 'paid')
+    .reduce((sum, m) => sum + m.amount, 0)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Flag className="h-5 w-5 text-muted-foreground" />
+            Payment Milestones
+          </CardTitle>
+          <span className="text-sm text-muted-foreground tabular-nums">
+            ${formatMoney(invoiced)} of ${formatMoney(scheduled)} invoiced
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {milestones.map(milestone => {
+          const trigger = formatMilestoneTrigger({
+            cost_code_start: milestone.costCodeStart,
+            cost_code_end: milestone.costCodeEnd,
+          })
+          const badge = STATUS_BADGES[milestone.status]
+
+          return (
+            <div
+              key={milestone.id}
+              className={cn(
+                "flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border",
+                milestone.status === 'ready' ? "border-amber-300 bg-amber-50/50" : "border-border"
+              )}
+            >
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-sm">{milestone.name}</span>
+                  <Badge className={badge.className}>{badge.label}</Badge>
+                </div>
+                {trigger ? (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{trigger}</span>
+                    {milestone.status === 'pending' && milestone.progress.total > 0 && (
+                      <>
+                        <Progress
+                          value={(milestone.progress.completed / milestone.progress.total) * 100}
+                          className="h-1.5 w-24"
+                        />
+                        <span className="tabular-nums">
+                          {milestone.progress.completed}/{milestone.progress.total} tasks
+                        </span>
+                      </>
+                    )}
+                    {milestone.progress.total === 0 && <span>· no tasks in range</span>}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {milestone.isDownPayment ? 'Due at contract signing' : 'Invoice when reached'}
+                  </p>
+                )}
+                {milestone.invoiceNumber && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <FileText className="h-3 w-3" />
+                    {milestone.invoiceNumber}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center justify-between sm:justify-end gap-3">
+                <span className="font-semibold tabular-nums">${formatMoney(milestone.amount)}</span>
+                {milestone.status === 'ready' && (
+                  <Button
+                    size="sm"
+                    onClick={() => onInvoice(milestone)}
+                    className="min-h-[44px] sm:min-h-0"
+                  >
+                    Invoice
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,258 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { recordPayment, deletePayment, getInvoicePayments, type Payment } from '@/actions/payments'
+import { invoiceBalance, PAYMENT_METHODS, type PaymentMethod } from '@/lib/invoice-status'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { cn } from "@/lib/utils"
+import { CalendarIcon, Loader2, Trash2 } from "lucide-react"
+
+interface RecordPaymentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  invoice: {
+    id: string
+    invoice_number: string
+    total_amount: number
+    amount_paid: number
+  } | null
+  onSuccess: () => void
+}
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value)
+
+const methodLabel = (method: string) =>
+  PAYMENT_METHODS.find(m => m.value === method)?.label || method
+
+/**
+ * Record a payment against an invoice and review the payments already
+ * received. Defaults the amount to the remaining balance.
+ */
+export function RecordPaymentDialog({ open, onOpenChange, invoice, onSuccess }: RecordPaymentDialogProps) {
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [paymentDate, setPaymentDate] = useState<Date | undefined>(new Date())
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<PaymentMethod>('check')
+  const [reference, setReference] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const balance = invoice ? invoiceBalance(invoice) : 0
+
+  const fetchPayments = useCallback(async () => {
+    if (!invoice) return
+    const result = await getInvoicePayments(invoice.id)
+    if (result.success && result.data) {
+      setPayments(result.data)
+    }
+  }, [invoice])
+
+  useEffect(() => {
+    if (open && invoice) {
+      setPaymentDate(new Date())
+      setAmount(balance > 0 ? balance.toFixed(2) : '')
+      setMethod('check')
+      setReference('')
+      fetchPayments()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, invoice?.id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!invoice) return
+
+    const value = Number(amount)
+    if (!paymentDate) {
+      toast.error('Please choose the payment date')
+      return
+    }
+    if (!value || value <= 0) {
+      toast.error('Enter a payment amount')
+      return
+    }
+    if (value > balance + 0.005) {
+      toast.error(`Payment exceeds the balance of $${formatMoney(balance)}`)
+      return
+    }
+
+    setLoading(true)
+    try {
+      const result = await recordPayment(invoice.id, {
+        paymentDate: format(paymentDate, 'yyyy-MM-dd'),
+        amount: value,
+        method,
+        reference,
+      })
+
+      if (!result.success) throw new Error(result.error)
+
+      toast.success(result.status === 'paid'
+        ? `${invoice.invoice_number} is paid in full`
+        : `Payment of $${formatMoney(value)} recorded`)
+      onSuccess()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error recording payment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to record payment')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async (payment: Payment) => {
+    if (!confirm(`Remove the $${formatMoney(payment.amount)} payment from ${new Date(payment.payment_date).toLocaleDateString()}?`)) return
+
+    setDeletingId(payment.id)
+    try {
+      const result = await deletePayment(payment.id)
+      if (!result.success) throw new Error(result.error)
+
+      toast.success('Payment removed')
+      await fetchPayments()
+      onSuccess()
+    } catch (error) {
+      console.error('Error deleting payment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to remove payment')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            {invoice && `${invoice.invoice_number} · $${formatMoney(invoice.total_amount)} total · $${formatMoney(balance)} outstanding`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {payments.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Payments received</p>
+            <div className="rounded-lg border divide-y">
+              {payments.map(payment => (
+                <div key={payment.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="tabular-nums font-medium">${formatMoney(payment.amount)}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {new Date(`${payment.payment_date}T00:00:00`).toLocaleDateString()} · {methodLabel(payment.method)}
+                      {payment.reference && ` · ${payment.reference}`}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(payment)}
+                    disabled={deletingId === payment.id}
+                    title="Remove payment"
+                  >
+                    {deletingId === payment.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {balance > 0 ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="payment-amount">Amount</Label>
+                <div className="relative mt-2">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                  <Input
+                    id="payment-amount"
+                    type="number"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    min={0.01}
+                    max={balance}
+                    step={0.01}
+                    className="pl-7 tabular-nums"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="payment-date">Date Received</Label>
+                <Popover modal>
+                  <PopoverTrigger asChild>
+                    <Button
+                      type="button"
+                      id="payment-date"
+                      variant="outline"
+                      className={cn("w-full justify-start text-left font-normal mt-2", !paymentDate && "text-muted-foreground")}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {paymentDate ? format(paymentDate, "PPP") : "Pick a date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar mode="single" selected={paymentDate} onSelect={setPaymentDate} initialFocus />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div>
+                <Label htmlFor="payment-method">Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                  <SelectTrigger id="payment-method" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(m => (
+                      <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="payment-reference">Reference</Label>
+                <Input
+                  id="payment-reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Check # or transaction ID"
+                  className="mt-2"
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {loading ? 'Recording...' : 'Record Payment'}
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <DialogFooter>
+            <p className="text-sm text-muted-foreground mr-auto self-center">This invoice is paid in full.</p>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,180 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, CloudOff, Loader2, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useOffline } from '@/lib/offline-context'
+import type { OutboxEntry, OutboxEntryKind } from '@/lib/offline/outbox'
+import { cn } from '@/lib/utils'
+
+const KIND_LABELS: Record<OutboxEntryKind, string> = {
+  line_item_update: 'Line item',
+  room_dimensions: 'Room dimensions',
+  file_upload: 'File',
+  voice_recording: 'Recording',
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  length_ft: 'Length',
+  width_ft: 'Width',
+  ceiling_height_ft: 'Ceiling height',
+  labor_cost: 'Labor',
+  material_cost: 'Material',
+  overhead_cost: 'Overhead',
+  direct_cost: 'Direct cost',
+  client_price: 'Client price',
+  margin_percent: 'Margin %',
+  room_name: 'Room',
+  cost_code: 'Cost code',
+  labor_hours_per_unit: 'Hours / unit',
+}
+
+function formatField(field: string): string {
+  return FIELD_LABELS[field] ?? field.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase())
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function EntryRow({ entry }: { entry: OutboxEntry }) {
+  const { resolveConflict, retry, isSyncing } = useOffline()
+
+  return (
+    <div className="rounded-md border p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="truncate font-medium">{entry.label}</div>
+          <div className="text-xs text-muted-foreground">
+            {KIND_LABELS[entry.payload.kind]} · queued {new Date(entry.createdAt).toLocaleString()}
+          </div>
+        </div>
+        <Badge
+          variant="outline"
+          className={cn(
+            entry.status === 'conflict' && 'border-amber-500 text-amber-700',
+            entry.status === 'failed' && 'border-red-500 text-red-700'
+          )}
+        >
+          {entry.status === 'pending' ? 'Waiting' : entry.status === 'conflict' ? 'Conflict' : 'Failed'}
+        </Badge>
+      </div>
+
+      {entry.error && <p className="mt-2 text-xs text-muted-foreground">{entry.error}</p>}
+
+      {entry.conflicts.length > 0 && (
+        <table className="mt-2 w-full text-xs">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="font-normal">Field</th>
+              <th className="font-normal">Server now</th>
+              <th className="font-normal">Yours</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entry.conflicts.map(conflict => (
+              <tr key={conflict.field}>
+                <td>{formatField(conflict.field)}</td>
+                <td>{formatValue(conflict.server)}</td>
+                <td className="font-medium">{formatValue(conflict.mine)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {entry.status === 'conflict' && (
+        <div className="mt-3 flex gap-2">
+          <Button size="sm" variant="outline" disabled={isSyncing} onClick={() => resolveConflict(entry.id, 'server')}>
+            Keep server version
+          </Button>
+          <Button size="sm" disabled={isSyncing} onClick={() => resolveConflict(entry.id, 'mine')}>
+            Keep mine
+          </Button>
+        </div>
+      )}
+
+      {entry.status === 'failed' && (
+        <div className="mt-3 flex gap-2">
+          <Button size="sm" variant="outline" disabled={isSyncing} onClick={() => resolveConflict(entry.id, 'server')}>
+            Discard
+          </Button>
+          <Button size="sm" disabled={isSyncing} onClick={() => retry(entry.id)}>
+            Retry
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Floating indicator for offline mode and the sync queue. Hidden while
+ * online with nothing queued.
+ */
+export function OutboxStatus() {
+  const { isOnline, isSyncing, entries, pendingCount, conflictCount, sync } = useOffline()
+  const [open, setOpen] = useState(false)
+
+  if (isOnline && entries.length === 0) return null
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={cn(
+          'fixed bottom-4 left-4 z-50 flex items-center gap-2 rounded-full border bg-background px-3 py-2 text-sm shadow-md',
+          conflictCount > 0 && 'border-amber-500'
+        )}
+      >
+        {isSyncing ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : conflictCount > 0 ? (
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+        ) : !isOnline ? (
+          <CloudOff className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <RefreshCw className="h-4 w-4" />
+        )}
+        <span>
+          {!isOnline ? 'Offline' : isSyncing ? 'Syncing' : 'Sync queue'}
+          {pendingCount > 0 && ` · ${pendingCount} queued`}
+          {conflictCount > 0 && ` · ${conflictCount} need attention`}
+        </span>
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[80vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Offline changes</DialogTitle>
+            <DialogDescription>
+              {isOnline
+                ? 'Changes made offline are sent in the order they were made.'
+                : 'You are offline. Changes are saved on this device and sent when you reconnect.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing waiting to sync.</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map(entry => <EntryRow key={entry.id} entry={entry} />)}
+            </div>
+          )}
+
+          {isOnline && pendingCount > 0 && (
+            <Button variant="outline" onClick={() => sync()} disabled={isSyncing}>
+              {isSyncing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sync now
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
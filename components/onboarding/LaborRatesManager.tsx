@@ -0,0 +1,208 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Check, Pencil, Plus, Trash2, X } from 'lucide-react'
+import { listLaborRates, saveLaborRate, deleteLaborRate, type LaborRateInput } from '@/actions/labor-rates'
+import type { LaborRate } from '@/types/db'
+import { toast } from 'sonner'
+
+interface RateDraft {
+  trade: string
+  crew_name: string
+  cost_code: string
+  burdened_hourly_rate: string
+  crew_size: string
+  productivity_factor: string
+}
+
+const EMPTY_DRAFT: RateDraft = {
+  trade: '',
+  crew_name: '',
+  cost_code: '',
+  burdened_hourly_rate: '',
+  crew_size: '1',
+  productivity_factor: '1',
+}
+
+function toDraft(rate: LaborRate): RateDraft {
+  return {
+    trade: rate.trade,
+    crew_name: rate.crew_name || '',
+    cost_code: rate.cost_code || '',
+    burdened_hourly_rate: String(rate.burdened_hourly_rate),
+    crew_size: String(rate.crew_size),
+    productivity_factor: String(rate.productivity_factor),
+  }
+}
+
+function toInput(draft: RateDraft): LaborRateInput {
+  return {
+    trade: draft.trade,
+    crew_name: draft.crew_name || null,
+    cost_code: draft.cost_code || null,
+    burdened_hourly_rate: parseFloat(draft.burdened_hourly_rate) || 0,
+    crew_size: parseInt(draft.crew_size, 10) || 1,
+    productivity_factor: parseFloat(draft.productivity_factor) || 1,
+  }
+}
+
+/**
+ * Crew rates per trade. Line items pick one of these to turn labor hours
+ * into labor cost (hours × productivity × burdened hourly rate).
+ */
+export function LaborRatesManager() {
+  const [rates, setRates] = useState<LaborRate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [draft, setDraft] = useState<RateDraft>(EMPTY_DRAFT)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    listLaborRates()
+      .then(result => {
+        if (result.success && result.rates) setRates(result.rates)
+        else if (result.error) toast.error(result.error)
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const startEdit = (rate: LaborRate | null) => {
+    setEditingId(rate ? rate.id : 'new')
+    setDraft(rate ? toDraft(rate) : EMPTY_DRAFT)
+  }
+
+  const handleSave = async () => {
+    if (!draft.trade.trim()) {
+      toast.error('Trade is required')
+      return
+    }
+    setBusy(true)
+    try {
+      const result = await saveLaborRate(editingId === 'new' ? null : editingId, toInput(draft))
+      if (!result.success || !result.rate) throw new Error(result.error)
+      const saved = result.rate
+      setRates(prev => editingId === 'new' ? [...prev, saved] : prev.map(r => r.id === saved.id ? saved : r))
+      setEditingId(null)
+      toast.success('Labor rate saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save labor rate')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async (rate: LaborRate) => {
+    if (!confirm(`Delete the ${rate.trade} rate? Line items using it keep their current labor cost.`)) return
+    setBusy(true)
+    try {
+      const result = await deleteLaborRate(rate.id)
+      if (!result.success) throw new Error(result.error)
+      setRates(prev => prev.filter(r => r.id !== rate.id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete labor rate')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const setField = (field: keyof RateDraft) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(prev => ({ ...prev, [field]: e.target.value }))
+  }
+
+  const renderEditRow = (key: string) => (
+    <TableRow key={key}>
+      <TableCell>
+        <Input value={draft.trade} onChange={setField('trade')} placeholder="Tile" className="h-8" />
+      </TableCell>
+      <TableCell>
+        <Input value={draft.crew_name} onChange={setField('crew_name')} placeholder="Optional" className="h-8" />
+      </TableCell>
+      <TableCell>
+        <Input value={draft.cost_code} onChange={setField('cost_code')} placeholder="e.g. 930" className="h-8 w-20" />
+      </TableCell>
+      <TableCell>
+        <Input type="number" min="0" step="0.01" value={draft.burdened_hourly_rate} onChange={setField('burdened_hourly_rate')} className="h-8 w-24 text-right" />
+      </TableCell>
+      <TableCell>
+        <Input type="number" min="1" step="1" value={draft.crew_size} onChange={setField('crew_size')} className="h-8 w-16 text-right" />
+      </TableCell>
+      <TableCell>
+        <Input type="number" min="0.1" step="0.05" value={draft.productivity_factor} onChange={setField('productivity_factor')} className="h-8 w-20 text-right" />
+      </TableCell>
+      <TableCell className="text-right whitespace-nowrap">
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={handleSave} disabled={busy}>
+          <Check className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingId(null)} disabled={busy}>
+          <X className="h-4 w-4" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Crew Rates</Label>
+          <p className="text-sm text-muted-foreground">
+            Burdened cost per worker-hour. Productivity above 1 means the crew takes longer than book hours.
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => startEdit(null)} disabled={editingId !== null}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Rate
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading rates...</p>
+      ) : rates.length === 0 && editingId !== 'new' ? (
+        <p className="text-sm text-muted-foreground p-4 border rounded-lg">
+          No crew rates yet. Add one to cost line items from labor hours.
+        </p>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Trade</TableHead>
+                <TableHead>Crew</TableHead>
+                <TableHead>Cost Code</TableHead>
+                <TableHead className="text-right">$/hr</TableHead>
+                <TableHead className="text-right">Crew Size</TableHead>
+                <TableHead className="text-right">Productivity</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map(rate => editingId === rate.id ? renderEditRow(rate.id) : (
+                <TableRow key={rate.id}>
+                  <TableCell className="font-medium">{rate.trade}</TableCell>
+                  <TableCell>{rate.crew_name || '—'}</TableCell>
+                  <TableCell>{rate.cost_code || '—'}</TableCell>
+                  <TableCell className="text-right tabular-nums">${Number(rate.burdened_hourly_rate).toFixed(2)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{rate.crew_size}</TableCell>
+                  <TableCell className="text-right tabular-nums">{Number(rate.productivity_factor)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEdit(rate)} disabled={busy || editingId !== null}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(rate)} disabled={busy || editingId !== null}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {editingId === 'new' && renderEditRow('new')}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
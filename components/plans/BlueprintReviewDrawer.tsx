@@ -17,11 +17,15 @@
  * - Merge duplicates (select two rooms -> merge)
  * - Warnings/missing info/assumptions visible
  * - Line items grouped by room (read-only)
+ * - Door/window/room finish schedule rows → counted line items and selections
  * - Re-run parse option
+ * - Live progress of the queued parse job, cancel, retry failed sheets
+ * - Measure on the parsed plans (takeoff viewer)
+ * - Plan revisions: review and apply only the differences from the earlier parse
  * - Apply to estimate (APPEND mode)
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -53,9 +57,28 @@ import {
   X,
   AlertCircle,
   CheckCircle2,
+  Table2,
+  Ruler,
+  GitCompare,
 } from 'lucide-react'
 import { toast } from 'sonner'
-import { applyParsedResults, type ParsedRoomInput, type LineItemScaffoldInput } from '@/actions/plans'
+import {
+  applyParsedResults,
+  applyPlanRevision,
+  getPlanRevisionDiff,
+  type PlanRevisionReview,
+  type ParsedRoomInput,
+  type LineItemScaffoldInput,
+  type ScheduleLineItemInput,
+} from '@/actions/plans'
+import { buildScheduleLineItems } from '@/lib/plans/schedule-items'
+import { defaultRevisionSelection, isRevisionChangeApplicable } from '@/lib/plans/revision-diff'
+import { PlanParseProgressPanel } from './PlanParseProgressPanel'
+import { ScheduleReviewPanel } from './ScheduleReviewPanel'
+import { PlanRevisionReviewPanel } from './PlanRevisionReviewPanel'
+import { TakeoffViewer, type TakeoffFile } from './TakeoffViewer'
+import type { PlanParseJob } from '@/hooks/use-plan-parse-job'
+import type { PlanSchedules } from '@/types/db'
 
 // =============================================================================
 // Types
@@ -65,36 +88,40 @@ interface ParsedRoom {
   id?: string
   name: string
   level: string | null  // "Level 1", "Level 2", "Basement", etc. NULL = unknown
-  type: string | null
-  area_sqft: number | null
+  type?: string | null
+  area_sqft?: number | null
   length_ft?: number | null
   width_ft?: number | null
   ceiling_height_ft?: number | null
-  dimensions: string | null
-  notes: string | null
-  confidence: number
+  dimensions?: string | null
+  notes?: string | null
+  confidence?: number
   sheet_label?: string | null
+  perimeter_ft?: number | null
+  polygon?: Array<[number, number]> | null
+  area_source?: 'dimensions' | 'geometry' | null
 }
 
 interface LineItemScaffold {
   id?: string
   description: string
   category: string
-  cost_code: string | null
+  cost_code?: string | null
   room_name: string
-  quantity: number | null
-  unit: string | null
-  notes: string | null
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
 }
 
 interface ParseResult {
   success: boolean
-  planParseId?: string
+  planParseId?: string | null
   rooms: ParsedRoom[]
   lineItemScaffold: LineItemScaffold[]
   assumptions: string[]
   warnings: string[]
   missingInfo?: string[] // Added missing info
+  schedules?: PlanSchedules
   pageClassifications: Array<{
     pageNumber: number
     type: string
@@ -115,6 +142,10 @@ interface BlueprintReviewDrawerProps {
   onApplyComplete: () => void
   onReparse?: () => void // Callback to trigger re-parse
   isReparsing?: boolean // Loading state for re-parse
+  job?: PlanParseJob | null // Queued parse job behind parseResult
+  onCancelJob?: () => Promise<void>
+  onRetrySheets?: (sheetIds?: string[]) => Promise<void>
+  planFiles?: TakeoffFile[] // Parsed plan files, for measuring on them
 }
 
 // Room state type
@@ -292,12 +323,18 @@ function RoomCard({
               {room.area_sqft} sq ft
             </Badge>
           )}
+          {room.area_source === 'geometry' && (
+            <Badge variant="secondary" className="text-xs" title="Measured from the plan's line work">
+              <Ruler className="mr-1 h-3 w-3" />
+              Measured{room.perimeter_ft ? ` · ${room.perimeter_ft} ft perimeter` : ''}
+            </Badge>
+          )}
           {room.dimensions && (
             <Badge variant="outline" className="text-xs">
               {room.dimensions}
             </Badge>
           )}
-          {room.confidence < 70 && (
+          {room.confidence !== undefined && room.confidence < 70 && (
             <Badge variant="destructive" className="text-xs">
               Low confidence ({room.confidence}%)
             </Badge>
@@ -326,8 +363,13 @@ export function BlueprintReviewDrawer({
   onApplyComplete,
   onReparse,
   isReparsing = false,
+  job = null,
+  onCancelJob,
+  onRetrySheets,
+  planFiles = [],
 }: BlueprintReviewDrawerProps) {
   const [isApplying, setIsApplying] = useState(false)
+  const [showTakeoff, setShowTakeoff] = useState(false)
   const [activeTab, setActiveTab] = useState('rooms')
   const [isMergeMode, setIsMergeMode] = useState(false)
   const [applyError, setApplyError] = useState<string | null>(null)
@@ -338,6 +380,15 @@ export function BlueprintReviewDrawer({
   // Line item state
   const [lineItems, setLineItems] = useState<LineItemState[]>([])
 
+  // Schedule rows the user excluded (by row id)
+  const [excludedScheduleRows, setExcludedScheduleRows] = useState<Set<string>>(new Set())
+
+  // Plan revision: differences from the earlier parse, and the selected ones
+  const [revision, setRevision] = useState<PlanRevisionReview | null>(null)
+  const [revisionError, setRevisionError] = useState<string | null>(null)
+  const [isLoadingRevision, setIsLoadingRevision] = useState(false)
+  const [selectedChanges, setSelectedChanges] = useState<Set<string>>(new Set())
+
   // Initialize state from parseResult
   const initializeState = useCallback(() => {
     if (parseResult) {
@@ -358,6 +409,7 @@ export function BlueprintReviewDrawer({
         }))
       )
     }
+    setExcludedScheduleRows(new Set())
     setIsMergeMode(false)
     setApplyError(null)
   }, [parseResult])
@@ -411,6 +463,38 @@ export function BlueprintReviewDrawer({
     ))
   }
 
+  // Toggle schedule row inclusion
+  const toggleScheduleRow = (rowId: string) => {
+    setExcludedScheduleRows(prev => {
+      const next = new Set(prev)
+      if (next.has(rowId)) {
+        next.delete(rowId)
+      } else {
+        next.add(rowId)
+      }
+      return next
+    })
+  }
+
+  // Counted line items from the included schedule rows; finish items follow
+  // their room's inclusion
+  const schedules = parseResult?.schedules
+  const scheduleItems = useMemo(() => {
+    if (!schedules) return []
+    const isIncluded = (row: { id: string }) => !excludedScheduleRows.has(row.id)
+    return buildScheduleLineItems(
+      {
+        doors: schedules.doors.filter(isIncluded),
+        windows: schedules.windows.filter(isIncluded),
+        finishes: schedules.finishes.filter(isIncluded),
+      },
+      rooms
+    ).filter(item => rooms.find(r => r.name === item.room_name)?.included !== false)
+  }, [schedules, excludedScheduleRows, rooms])
+  const scheduleRowCount = schedules
+    ? schedules.doors.length + schedules.windows.length + schedules.finishes.length
+    : 0
+
   // Select/deselect all rooms
   const selectAllRooms = (selected: boolean) => {
     setRooms(prev => prev.map(r => ({ ...r, included: selected })))
@@ -451,6 +535,10 @@ export function BlueprintReviewDrawer({
           return {
             ...r,
             area_sqft: combinedArea > 0 ? combinedArea : r.area_sqft,
+            // The measured outline was the target room's alone
+            perimeter_ft: null,
+            polygon: null,
+            area_source: null,
             notes: combinedNotes || r.notes,
             selected: false,
           }
@@ -477,6 +565,89 @@ export function BlueprintReviewDrawer({
     setIsMergeMode(false)
   }
 
+  // Load the revision diff once a revision job has parsed
+  const isRevision = !!job?.basePlanParseId
+  const revisionPlanParseId = isRevision && job?.status === 'parsed' ? parseResult?.planParseId ?? null : null
+  useEffect(() => {
+    setRevision(null)
+    setRevisionError(null)
+    if (!open || !revisionPlanParseId) return
+
+    let cancelled = false
+    setIsLoadingRevision(true)
+    getPlanRevisionDiff(revisionPlanParseId, estimateId)
+      .then(result => {
+        if (cancelled) return
+        if (result.success && result.review) {
+          setRevision(result.review)
+          setSelectedChanges(defaultRevisionSelection(result.review.diff))
+        } else {
+          setRevisionError(result.error || 'Failed to compare revision')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingRevision(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, revisionPlanParseId, estimateId])
+
+  const toggleChange = (changeId: string) => {
+    setSelectedChanges(prev => {
+      const next = new Set(prev)
+      if (next.has(changeId)) next.delete(changeId)
+      else next.add(changeId)
+      return next
+    })
+  }
+
+  // Apply the selected revision changes
+  const handleApplyRevision = async () => {
+    if (!revision) return
+
+    setIsApplying(true)
+    setApplyError(null)
+
+    try {
+      const result = await applyPlanRevision({
+        projectId,
+        estimateId,
+        planParseId: revision.planParseId,
+        changeIds: Array.from(selectedChanges),
+      })
+
+      if (result.success) {
+        const roomChanges = result.addedRooms + result.updatedRooms + result.removedRooms
+        const itemChanges = result.addedLineItems + result.updatedLineItems + result.removedLineItems
+        toast.success(
+          `Applied revision: ${roomChanges} room change${roomChanges !== 1 ? 's' : ''} and ` +
+          `${itemChanges} line item change${itemChanges !== 1 ? 's' : ''}`,
+          {
+            description: result.keptEdits > 0
+              ? `${result.keptEdits} field${result.keptEdits !== 1 ? 's' : ''} edited in the estimate kept.`
+              : undefined,
+            duration: 5000,
+          }
+        )
+        onApplyComplete()
+        onOpenChange(false)
+      } else {
+        setApplyError(result.error || 'Failed to apply revision')
+        toast.error(result.error || 'Failed to apply revision')
+        // Some changes failed; the rest are in the estimate
+        if (result.errors) onApplyComplete()
+      }
+    } catch (error) {
+      console.error('Error applying revision:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Failed to apply revision'
+      setApplyError(errorMessage)
+      toast.error(errorMessage)
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
   // Apply results
   const handleApply = async () => {
     const includedRooms = rooms.filter(r => r.included)
@@ -493,13 +664,16 @@ export function BlueprintReviewDrawer({
       const roomInputs: ParsedRoomInput[] = rooms.map(r => ({
         name: r.name,
         level: r.level || null,  // NULL = unknown; never fallback to "Level 1"
-        type: r.type,
-        area_sqft: r.area_sqft,
+        type: r.type ?? null,
+        area_sqft: r.area_sqft ?? null,
         length_ft: r.length_ft ?? null,
         width_ft: r.width_ft ?? null,
         ceiling_height_ft: r.ceiling_height_ft ?? null,
-        dimensions: r.dimensions,
-        notes: r.notes,
+        dimensions: r.dimensions ?? null,
+        notes: r.notes ?? null,
+        perimeter_ft: r.perimeter_ft ?? null,
+        polygon: r.polygon ?? null,
+        area_source: r.area_source ?? null,
         included: r.included
       }))
 
@@ -507,25 +681,39 @@ export function BlueprintReviewDrawer({
       const lineItemInputs: LineItemScaffoldInput[] = lineItems.map(li => ({
         description: li.description,
         category: li.category,
-        cost_code: li.cost_code,
+        cost_code: li.cost_code ?? null,
         room_name: li.room_name,
-        quantity: li.quantity,
-        unit: li.unit,
-        notes: li.notes,
+        quantity: li.quantity ?? null,
+        unit: li.unit ?? null,
+        notes: li.notes ?? null,
         included: li.included && rooms.find(r => r.name === li.room_name)?.included === true
       }))
 
+      const scheduleItemInputs: ScheduleLineItemInput[] = scheduleItems.map(item => ({
+        description: item.description,
+        category: item.category,
+        cost_code: item.cost_code,
+        room_name: item.room_name,
+        quantity: item.quantity,
+        unit: item.unit,
+        notes: item.notes,
+        selection_title: item.selection_title,
+        included: true,
+      }))
+
       const result = await applyParsedResults({
         projectId,
         estimateId,
-        planParseId: parseResult?.planParseId,
+        planParseId: parseResult?.planParseId ?? undefined,
         rooms: roomInputs,
-        lineItems: lineItemInputs
+        lineItems: lineItemInputs,
+        scheduleItems: scheduleItemInputs,
       })
 
       if (result.success) {
         toast.success(
           `Added ${result.createdRooms} rooms and ${result.createdLineItems} line items` +
+          (result.createdSelections ? `, ${result.createdSelections} selections` : '') +
           (result.excludedRooms > 0 ? ` (${result.excludedRooms} excluded from scope)` : ''),
           {
             description: 'Enter costs manually in the estimate table.',
@@ -554,10 +742,17 @@ export function BlueprintReviewDrawer({
     const room = rooms.find(r => r.name === li.room_name)
     return li.included && room?.included
   }).length
+  const applyItemsCount = includedLineItemsCount + scheduleItems.length
   const warnings = parseResult?.warnings || []
   const assumptions = parseResult?.assumptions || []
   const missingInfo = (parseResult as ParseResult & { missingInfo?: string[] })?.missingInfo || []
   const hasIssues = warnings.length > 0 || missingInfo.length > 0
+  const isJobRunning = job?.status === 'queued' || job?.status === 'processing'
+  const showJobProgress = !!job && (isJobRunning || job.status === 'cancelled')
+  const revisionChangeCount = revision
+    ? [...revision.diff.rooms, ...revision.diff.lineItems]
+        .filter(c => selectedChanges.has(c.id) && isRevisionChangeApplicable(c)).length
+    : 0
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -565,18 +760,23 @@ export function BlueprintReviewDrawer({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileText className="h-5 w-5 text-primary" />
-            Review Detected Items
-            {parseResult?.success === false && (
+            {showJobProgress ? 'Parsing Plans' : isRevision ? 'Review Plan Revision' : 'Review Detected Items'}
+            {!showJobProgress && parseResult?.success === false && (
               <Badge variant="destructive" className="ml-2">Partial Results</Badge>
             )}
           </DialogTitle>
           <DialogDescription>
-            Review and edit the rooms and line items detected from your plans.
-            Uncheck items to exclude them from your estimate.
+            {isRevision
+              ? 'Changes from the plans applied earlier. Uncheck changes to skip them; edits made in the estimate are kept.'
+              : 'Review and edit the rooms and line items detected from your plans. Uncheck items to exclude them from your estimate.'}
           </DialogDescription>
         </DialogHeader>
 
-        {!parseResult ? (
+        {showJobProgress ? (
+          <div className="py-2">
+            <PlanParseProgressPanel job={job} onCancel={onCancelJob} />
+          </div>
+        ) : !parseResult ? (
           <div className="flex flex-col items-center justify-center h-48 gap-4">
             <AlertCircle className="h-12 w-12 text-muted-foreground/50" />
             <p className="text-muted-foreground">No results to display</p>
@@ -613,6 +813,11 @@ export function BlueprintReviewDrawer({
               </div>
             )}
             
+            {/* Failed sheets can be retried without re-parsing the whole set */}
+            {job && job.progress.sheets_failed > 0 && (
+              <PlanParseProgressPanel job={job} onRetrySheets={onRetrySheets} />
+            )}
+
             {assumptions.length > 0 && (
               <Alert className="py-2">
                 <Lightbulb className="h-4 w-4" />
@@ -648,176 +853,233 @@ export function BlueprintReviewDrawer({
               )}
             </div>
 
-            {/* Tabs */}
-            <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col overflow-hidden">
-              <TabsList className="grid grid-cols-2">
-                <TabsTrigger value="rooms" className="flex items-center gap-1">
-                  <Home className="h-4 w-4" />
-                  Rooms ({includedRoomsCount}/{rooms.length})
-                </TabsTrigger>
-                <TabsTrigger value="items" className="flex items-center gap-1">
-                  <FileText className="h-4 w-4" />
-                  Line Items ({includedLineItemsCount}/{lineItems.length})
-                </TabsTrigger>
-              </TabsList>
-
-              {/* Rooms Tab */}
-              <TabsContent value="rooms" className="flex-1 overflow-hidden flex flex-col">
-                <div className="flex justify-between items-center mb-2">
-                  <Label className="text-xs text-muted-foreground">
-                    {isMergeMode 
-                      ? `Select rooms to merge (${selectedRooms.length} selected)`
-                      : 'Select rooms to include in estimate'
-                    }
-                  </Label>
-                  <div className="flex gap-2">
-                    {isMergeMode ? (
-                      <>
-                        <Button
-                          variant="default"
-                          size="sm"
-                          onClick={mergeSelectedRooms}
-                          disabled={selectedRooms.length < 2}
-                        >
-                          <Merge className="mr-1 h-3 w-3" />
-                          Merge ({selectedRooms.length})
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={cancelMergeMode}
-                        >
-                          <X className="mr-1 h-3 w-3" />
-                          Cancel
-                        </Button>
-                      </>
-                    ) : (
-                      <>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => setIsMergeMode(true)}
-                          disabled={rooms.length < 2}
-                        >
-                          <Merge className="mr-1 h-3 w-3" />
-                          Merge Duplicates
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => selectAllRooms(true)}
-                        >
-                          Select All
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => selectAllRooms(false)}
-                        >
-                          Deselect All
-                        </Button>
-                      </>
-                    )}
-                  </div>
-                </div>
-                <div className="flex-1 overflow-y-auto">
-                  <div className="space-y-2 pr-2">
-                    {rooms.length === 0 ? (
-                      <div className="text-center py-8 text-muted-foreground">
-                        <Home className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                        <p>No rooms detected</p>
-                        <p className="text-xs mt-1">Try uploading a clearer floor plan</p>
-                      </div>
-                    ) : (
-                      rooms.map((room, index) => (
-                        <RoomCard
-                          key={room.originalIndex}
-                          room={room}
-                          index={index}
-                          onToggle={() => toggleRoom(index)}
-                          onRename={(name) => updateRoomName(index, name)}
-                          onToggleEdit={() => toggleRoomEditing(index)}
-                          onToggleSelect={() => toggleRoomSelect(index)}
-                          isMergeMode={isMergeMode}
-                        />
-                      ))
-                    )}
+            {isRevision ? (
+              <div className="flex-1 overflow-y-auto">
+                {isLoadingRevision ? (
+                  <div className="flex items-center justify-center h-32 gap-2 text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Comparing with the earlier plans...
                   </div>
-                </div>
-              </TabsContent>
-
-              {/* Line Items Tab */}
-              <TabsContent value="items" className="flex-1 overflow-hidden flex flex-col">
-                <div className="flex justify-between items-center mb-2">
-                  <Label className="text-xs text-muted-foreground">
-                    Suggested line items (no pricing) - grouped by room
-                  </Label>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => selectAllLineItems(true)}
-                    >
-                      Select All
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => selectAllLineItems(false)}
-                    >
-                      Deselect All
-                    </Button>
+                ) : revisionError ? (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{revisionError}</AlertDescription>
+                  </Alert>
+                ) : revision && (
+                  <PlanRevisionReviewPanel
+                    diff={revision.diff}
+                    selectedIds={selectedChanges}
+                    onToggle={toggleChange}
+                  />
+                )}
+              </div>
+            ) : (
+              <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col overflow-hidden">
+                <TabsList className={`grid ${scheduleRowCount > 0 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                  <TabsTrigger value="rooms" className="flex items-center gap-1">
+                    <Home className="h-4 w-4" />
+                    Rooms ({includedRoomsCount}/{rooms.length})
+                  </TabsTrigger>
+                  <TabsTrigger value="items" className="flex items-center gap-1">
+                    <FileText className="h-4 w-4" />
+                    Line Items ({includedLineItemsCount}/{lineItems.length})
+                  </TabsTrigger>
+                  {scheduleRowCount > 0 && (
+                    <TabsTrigger value="schedules" className="flex items-center gap-1">
+                      <Table2 className="h-4 w-4" />
+                      Schedules ({scheduleRowCount - excludedScheduleRows.size}/{scheduleRowCount})
+                    </TabsTrigger>
+                  )}
+                </TabsList>
+
+                {/* Rooms Tab */}
+                <TabsContent value="rooms" className="flex-1 overflow-hidden flex flex-col">
+                  <div className="flex justify-between items-center mb-2">
+                    <Label className="text-xs text-muted-foreground">
+                      {isMergeMode 
+                        ? `Select rooms to merge (${selectedRooms.length} selected)`
+                        : 'Select rooms to include in estimate'
+                      }
+                    </Label>
+                    <div className="flex gap-2">
+                      {isMergeMode ? (
+                        <>
+                          <Button
+                            variant="default"
+                            size="sm"
+                            onClick={mergeSelectedRooms}
+                            disabled={selectedRooms.length < 2}
+                          >
+                            <Merge className="mr-1 h-3 w-3" />
+                            Merge ({selectedRooms.length})
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={cancelMergeMode}
+                          >
+                            <X className="mr-1 h-3 w-3" />
+                            Cancel
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setIsMergeMode(true)}
+                            disabled={rooms.length < 2}
+                          >
+                            <Merge className="mr-1 h-3 w-3" />
+                            Merge Duplicates
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => selectAllRooms(true)}
+                          >
+                            Select All
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => selectAllRooms(false)}
+                          >
+                            Deselect All
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
-                </div>
-                <div className="flex-1 overflow-y-auto">
-                  <div className="space-y-2 pr-2">
-                    {lineItems.length === 0 ? (
-                      <div className="text-center py-8 text-muted-foreground">
-                        <FileText className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                        <p>No line items suggested</p>
-                        <p className="text-xs mt-1">Add line items manually after creating rooms</p>
-                      </div>
-                    ) : (
-                      // Group line items by room
-                      Object.entries(
-                        lineItems.reduce((acc, li) => {
-                          const roomName = li.room_name || 'General'
-                          if (!acc[roomName]) acc[roomName] = []
-                          acc[roomName].push(li)
-                          return acc
-                        }, {} as Record<string, LineItemState[]>)
-                      ).map(([roomName, items]) => {
-                        const room = rooms.find(r => r.name === roomName)
-                        return (
-                          <RoomLineItemsGroup
-                            key={roomName}
-                            roomName={roomName}
-                            items={items}
-                            onToggleItem={toggleLineItem}
-                            isRoomIncluded={room?.included ?? true}
+                  <div className="flex-1 overflow-y-auto">
+                    <div className="space-y-2 pr-2">
+                      {rooms.length === 0 ? (
+                        <div className="text-center py-8 text-muted-foreground">
+                          <Home className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                          <p>No rooms detected</p>
+                          <p className="text-xs mt-1">Try uploading a clearer floor plan</p>
+                        </div>
+                      ) : (
+                        rooms.map((room, index) => (
+                          <RoomCard
+                            key={room.originalIndex}
+                            room={room}
+                            index={index}
+                            onToggle={() => toggleRoom(index)}
+                            onRename={(name) => updateRoomName(index, name)}
+                            onToggleEdit={() => toggleRoomEditing(index)}
+                            onToggleSelect={() => toggleRoomSelect(index)}
+                            isMergeMode={isMergeMode}
                           />
-                        )
-                      })
-                    )}
+                        ))
+                      )}
+                    </div>
                   </div>
-                </div>
-              </TabsContent>
-            </Tabs>
+                </TabsContent>
+
+                {/* Line Items Tab */}
+                <TabsContent value="items" className="flex-1 overflow-hidden flex flex-col">
+                  <div className="flex justify-between items-center mb-2">
+                    <Label className="text-xs text-muted-foreground">
+                      Suggested line items (no pricing) - grouped by room
+                    </Label>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => selectAllLineItems(true)}
+                      >
+                        Select All
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => selectAllLineItems(false)}
+                      >
+                        Deselect All
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex-1 overflow-y-auto">
+                    <div className="space-y-2 pr-2">
+                      {lineItems.length === 0 ? (
+                        <div className="text-center py-8 text-muted-foreground">
+                          <FileText className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                          <p>No line items suggested</p>
+                          <p className="text-xs mt-1">Add line items manually after creating rooms</p>
+                        </div>
+                      ) : (
+                        // Group line items by room
+                        Object.entries(
+                          lineItems.reduce((acc, li) => {
+                            const roomName = li.room_name || 'General'
+                            if (!acc[roomName]) acc[roomName] = []
+                            acc[roomName].push(li)
+                            return acc
+                          }, {} as Record<string, LineItemState[]>)
+                        ).map(([roomName, items]) => {
+                          const room = rooms.find(r => r.name === roomName)
+                          return (
+                            <RoomLineItemsGroup
+                              key={roomName}
+                              roomName={roomName}
+                              items={items}
+                              onToggleItem={toggleLineItem}
+                              isRoomIncluded={room?.included ?? true}
+                            />
+                          )
+                        })
+                      )}
+                    </div>
+                  </div>
+                </TabsContent>
+
+                {/* Schedules Tab */}
+                {schedules && scheduleRowCount > 0 && (
+                  <TabsContent value="schedules" className="flex-1 overflow-hidden flex flex-col">
+                    <Label className="text-xs text-muted-foreground mb-2">
+                      Schedule rows read from the plans - counted into line items (no pricing)
+                    </Label>
+                    <div className="flex-1 overflow-y-auto">
+                      <ScheduleReviewPanel
+                        schedules={schedules}
+                        excludedRowIds={excludedScheduleRows}
+                        onToggleRow={toggleScheduleRow}
+                        items={scheduleItems}
+                      />
+                    </div>
+                  </TabsContent>
+                )}
+              </Tabs>
+            )}
 
             {/* Phase 1 Notice */}
-            <Alert className="bg-primary/5 border-primary/20">
-              <CheckCircle2 className="h-4 w-4 text-primary" />
-              <AlertDescription className="text-xs">
-                <strong>Phase 1:</strong> Line items are created without pricing. 
-                Enter costs manually in the estimate table after applying.
-                <br />
-                <strong>APPEND mode:</strong> New rooms will be added alongside existing rooms.
-              </AlertDescription>
-            </Alert>
+            {!isRevision && (
+              <Alert className="bg-primary/5 border-primary/20">
+                <CheckCircle2 className="h-4 w-4 text-primary" />
+                <AlertDescription className="text-xs">
+                  <strong>Phase 1:</strong> Line items are created without pricing. 
+                  Enter costs manually in the estimate table after applying.
+                  <br />
+                  <strong>APPEND mode:</strong> New rooms will be added alongside existing rooms.
+                </AlertDescription>
+              </Alert>
+            )}
           </div>
         )}
 
         <DialogFooter className="mt-4 gap-2">
+          {planFiles.length > 0 && !showJobProgress && (
+            <Button
+              variant="outline"
+              className="sm:mr-auto"
+              onClick={() => setShowTakeoff(true)}
+              disabled={isApplying}
+            >
+              <Ruler className="mr-2 h-4 w-4" />
+              Measure on plans
+            </Button>
+          )}
           <Button
             variant="outline"
             onClick={() => onOpenChange(false)}
@@ -825,25 +1087,52 @@ export function BlueprintReviewDrawer({
           >
             Cancel
           </Button>
-          <Button
-            onClick={handleApply}
-            disabled={isApplying || includedRoomsCount === 0 || isMergeMode}
-          >
-            {isApplying ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Applying...
-              </>
-            ) : (
-              <>
-                <Check className="mr-2 h-4 w-4" />
-                Apply {includedRoomsCount} Room{includedRoomsCount !== 1 ? 's' : ''}
-                {includedLineItemsCount > 0 && ` & ${includedLineItemsCount} Item${includedLineItemsCount !== 1 ? 's' : ''}`}
-              </>
-            )}
-          </Button>
+          {isRevision ? (
+            <Button
+              onClick={handleApplyRevision}
+              disabled={isApplying || !revision || revisionChangeCount === 0 || showJobProgress}
+            >
+              {isApplying ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Applying...
+                </>
+              ) : (
+                <>
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  Apply {revisionChangeCount} Change{revisionChangeCount !== 1 ? 's' : ''}
+                </>
+              )}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleApply}
+              disabled={isApplying || includedRoomsCount === 0 || isMergeMode || showJobProgress}
+            >
+              {isApplying ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Applying...
+                </>
+              ) : (
+                <>
+                  <Check className="mr-2 h-4 w-4" />
+                  Apply {includedRoomsCount} Room{includedRoomsCount !== 1 ? 's' : ''}
+                  {applyItemsCount > 0 && ` & ${applyItemsCount} Item${applyItemsCount !== 1 ? 's' : ''}`}
+                </>
+              )}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
+
+      <TakeoffViewer
+        open={showTakeoff}
+        onOpenChange={setShowTakeoff}
+        projectId={projectId}
+        estimateId={estimateId}
+        files={planFiles}
+      />
     </Dialog>
   )
 }
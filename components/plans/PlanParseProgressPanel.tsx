@@ -0,0 +1,177 @@
+'use client'
+
+/**
+ * PlanParseProgressPanel
+ *
+ * Live progress of a queued blueprint parse job (stage counters and the
+ * per-sheet work list), with cancel while it runs and retry for failed
+ * sheets once it has finished.
+ */
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Loader2, CheckCircle2, XCircle, RotateCcw, MinusCircle, Circle, Ban } from 'lucide-react'
+import { toast } from 'sonner'
+import type { PlanParseJob } from '@/hooks/use-plan-parse-job'
+import type { PlanParseSheet, PlanParseStage } from '@/lib/plans/schemas'
+
+const STAGE_LABELS: Record<PlanParseStage, string> = {
+  queued: 'Waiting to start',
+  classifying: 'Classifying pages',
+  extracting: 'Extracting rooms and schedules',
+  finalizing: 'Building line items',
+  done: 'Done',
+}
+
+interface PlanParseProgressPanelProps {
+  job: PlanParseJob
+  onCancel?: () => Promise<void>
+  onRetrySheets?: (sheetIds?: string[]) => Promise<void>
+}
+
+function SheetStatusIcon({ sheet, active }: { sheet: PlanParseSheet; active: boolean }) {
+  if (sheet.status === 'done') return <CheckCircle2 className="h-4 w-4 text-green-600" />
+  if (sheet.status === 'failed') return <XCircle className="h-4 w-4 text-destructive" />
+  if (sheet.status === 'skipped') return <MinusCircle className="h-4 w-4 text-muted-foreground" />
+  if (active) return <Loader2 className="h-4 w-4 animate-spin text-primary" />
+  return <Circle className="h-4 w-4 text-muted-foreground" />
+}
+
+function scheduleRows(sheet: PlanParseSheet): number {
+  const { doors = [], windows = [], finishes = [] } = sheet.schedules || {}
+  return doors.length + windows.length + finishes.length
+}
+
+/** Rough overall completion: classification is the first 30% */
+function percentComplete(job: PlanParseJob): number {
+  const { progress } = job
+  if (progress.stage === 'done') return 100
+  const classified = progress.files_total > 0 ? progress.files_prepared / progress.files_total : 0
+  const extracted = progress.sheets_total > 0 ? (progress.sheets_extracted + progress.sheets_failed) / progress.sheets_total : 0
+  const finalizing = progress.stage === 'finalizing' ? 5 : 0
+  return Math.min(99, Math.round(classified * 30 + extracted * 65 + finalizing))
+}
+
+export function PlanParseProgressPanel({ job, onCancel, onRetrySheets }: PlanParseProgressPanelProps) {
+  const [isCancelling, setIsCancelling] = useState(false)
+  const [retryingIds, setRetryingIds] = useState<string[] | 'all' | null>(null)
+
+  const { progress, sheets } = job
+  const isRunning = job.status === 'queued' || job.status === 'processing'
+  const failedSheets = sheets.filter(s => s.status === 'failed')
+  const activeSheetId = isRunning && progress.stage === 'extracting'
+    ? sheets.find(s => s.status === 'pending')?.id
+    : undefined
+
+  const handleCancel = async () => {
+    if (!onCancel) return
+    setIsCancelling(true)
+    try {
+      await onCancel()
+      toast.info('Stopping parse...')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel parse')
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  const handleRetry = async (sheetIds?: string[]) => {
+    if (!onRetrySheets) return
+    setRetryingIds(sheetIds ?? 'all')
+    try {
+      await onRetrySheets(sheetIds)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry sheets')
+    } finally {
+      setRetryingIds(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {isRunning && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2 font-medium">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {job.status === 'queued' && progress.stage !== 'queued' ? 'Resuming…' : STAGE_LABELS[progress.stage]}
+            </span>
+            {onCancel && (
+              <Button variant="ghost" size="sm" onClick={handleCancel} disabled={isCancelling}>
+                <Ban className="mr-1 h-3 w-3" />
+                Cancel
+              </Button>
+            )}
+          </div>
+          <Progress value={percentComplete(job)} />
+        </div>
+      )}
+
+      {job.status === 'cancelled' && (
+        <p className="text-sm text-muted-foreground">Parse cancelled. Re-parse to start over.</p>
+      )}
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="outline">{progress.pages_classified}/{progress.pages_total} pages classified</Badge>
+        <Badge variant="outline">
+          {progress.sheets_extracted}/{progress.sheets_total} sheets extracted
+        </Badge>
+        {progress.sheets_failed > 0 && (
+          <Badge variant="destructive">{progress.sheets_failed} failed</Badge>
+        )}
+        <Badge variant="secondary">{progress.rooms_found} rooms found</Badge>
+        {progress.schedule_rows_found > 0 && (
+          <Badge variant="secondary">{progress.schedule_rows_found} schedule rows</Badge>
+        )}
+      </div>
+
+      {sheets.length > 0 && (
+        <div className="max-h-56 overflow-y-auto rounded border divide-y">
+          {sheets.map(sheet => (
+            <div key={sheet.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+              <SheetStatusIcon sheet={sheet} active={sheet.id === activeSheetId} />
+              <div className="flex-1 min-w-0">
+                <p className="truncate">{sheet.title}</p>
+                {sheet.status === 'failed' && sheet.error && (
+                  <p className="text-xs text-destructive truncate">{sheet.error}</p>
+                )}
+              </div>
+              {sheet.level && (
+                <Badge variant="outline" className="text-xs">{sheet.level}</Badge>
+              )}
+              {sheet.status === 'done' && (
+                <span className="text-xs text-muted-foreground">
+                  {sheet.kind === 'schedule' ? `${scheduleRows(sheet)} rows` : `${sheet.rooms.length} rooms`}
+                </span>
+              )}
+              {sheet.status === 'failed' && !isRunning && onRetrySheets && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7"
+                  onClick={() => handleRetry([sheet.id])}
+                  disabled={retryingIds !== null}
+                >
+                  {Array.isArray(retryingIds) && retryingIds.includes(sheet.id)
+                    ? <Loader2 className="h-3 w-3 animate-spin" />
+                    : <RotateCcw className="h-3 w-3" />}
+                  <span className="ml-1">Retry</span>
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isRunning && failedSheets.length > 1 && onRetrySheets && (
+        <Button variant="outline" size="sm" onClick={() => handleRetry()} disabled={retryingIds !== null}>
+          {retryingIds === 'all' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+          Retry {failedSheets.length} failed sheets
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+'use client'
+
+/**
+ * PlanRevisionReviewPanel
+ *
+ * Review of the differences between a revised plan set and what the earlier
+ * parse applied: rooms added, removed, renamed or resized and scaffold line
+ * items added, removed or changed. Changes can be deselected; fields edited
+ * in the estimate are shown as kept.
+ */
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ChevronDown, ChevronRight, Home, FileText, Lock } from 'lucide-react'
+import {
+  isRevisionChangeApplicable,
+  type LineItemRevisionChange,
+  type PlanRevisionDiff,
+  type RevisionFieldChange,
+  type RoomRevisionChange,
+} from '@/lib/plans/revision-diff'
+
+interface PlanRevisionReviewPanelProps {
+  diff: PlanRevisionDiff
+  selectedIds: Set<string>
+  onToggle: (changeId: string) => void
+}
+
+const KIND_LABELS: Record<RoomRevisionChange['kind'] | LineItemRevisionChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  renamed: 'Renamed',
+  dimensions_changed: 'Resized',
+  changed: 'Changed',
+}
+
+const KIND_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  added: 'default',
+  removed: 'destructive',
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  level: 'Level',
+  length_ft: 'Length',
+  width_ft: 'Width',
+  ceiling_height_ft: 'Ceiling',
+  area_sqft: 'Area',
+  description: 'Description',
+  quantity: 'Qty',
+  unit: 'Unit',
+}
+
+function formatValue(field: string, value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (field === 'area_sqft') return `${Math.round(Number(value))} sf`
+  if (field.endsWith('_ft')) return `${Number(value)}′`
+  return String(value)
+}
+
+function FieldChanges({ fields }: { fields: RevisionFieldChange[] }) {
+  if (fields.length === 0) return null
+  return (
+    <div className="pl-8 space-y-0.5">
+      {fields.map(f => (
+        <div key={f.field} className={`flex items-center gap-1 text-xs ${f.kept ? 'text-muted-foreground' : ''}`}>
+          <span className="w-20 text-muted-foreground">{FIELD_LABELS[f.field] || f.field}</span>
+          <span className={f.kept ? '' : 'line-through text-muted-foreground'}>{formatValue(f.field, f.from)}</span>
+          <span>→</span>
+          <span className={f.kept ? 'line-through' : 'font-medium'}>{formatValue(f.field, f.to)}</span>
+          {f.kept && (
+            <span className="flex items-center gap-1 ml-2">
+              <Lock className="h-3 w-3" />
+              {f.kept}: {formatValue(f.field, f.current)}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function ChangeRow({
+  change,
+  label,
+  detail,
+  selected,
+  onToggle,
+}: {
+  change: RoomRevisionChange | LineItemRevisionChange
+  label: string
+  detail?: string | null
+  selected: boolean
+  onToggle: () => void
+}) {
+  const applicable = isRevisionChangeApplicable(change)
+  const checked = applicable && selected
+
+  return (
+    <div className={`py-1.5 px-2 rounded text-sm space-y-1 ${checked ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-2">
+        <Checkbox checked={checked} onCheckedChange={onToggle} disabled={!applicable} />
+        <Badge variant={KIND_VARIANTS[change.kind] || 'secondary'} className="text-xs w-20 justify-center">
+          {KIND_LABELS[change.kind]}
+        </Badge>
+        <span className="flex-1 truncate">{label}</span>
+        {detail && <span className="text-xs text-muted-foreground">{detail}</span>}
+      </div>
+      {change.note && (
+        <p className={`pl-8 text-xs ${change.edited ? 'text-orange-600' : 'text-muted-foreground'}`}>{change.note}</p>
+      )}
+      <FieldChanges fields={change.fields} />
+    </div>
+  )
+}
+
+function ChangeSection({
+  title,
+  icon,
+  count,
+  selectedCount,
+  unchanged,
+  children,
+}: {
+  title: string
+  icon: React.ReactNode
+  count: number
+  selectedCount: number
+  unchanged: number
+  children: React.ReactNode
+}) {
+  const [isOpen, setIsOpen] = useState(true)
+
+  return (
+    <div className="border rounded-lg">
+      <button
+        type="button"
+        className="flex items-center justify-between w-full px-3 py-2 text-sm font-medium hover:bg-muted/50 rounded-t-lg"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <span className="flex items-center gap-2">
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          {icon}
+          {title}
+          <span className="text-xs font-normal text-muted-foreground">({unchanged} unchanged)</span>
+        </span>
+        <Badge variant="secondary" className="text-xs">
+          {selectedCount}/{count}
+        </Badge>
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-1">
+          {count === 0 ? (
+            <p className="text-xs text-muted-foreground px-2 py-1">No differences</p>
+          ) : children}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function roomLabel(change: RoomRevisionChange): string {
+  const room = change.revision ?? change.base
+  if (!room) return ''
+  if (change.kind === 'renamed' && change.base && change.revision) {
+    return `${change.base.name} → ${change.revision.name}`
+  }
+  return room.name
+}
+
+function roomDetail(change: RoomRevisionChange): string | null {
+  const room = change.revision ?? change.base
+  if (!room) return null
+  return [
+    room.level,
+    room.length_ft && room.width_ft ? `${room.length_ft}′ × ${room.width_ft}′` : null,
+    room.area_sqft ? `${Math.round(room.area_sqft)} sf` : null,
+  ].filter(Boolean).join(' · ') || null
+}
+
+export function PlanRevisionReviewPanel({ diff, selectedIds, onToggle }: PlanRevisionReviewPanelProps) {
+  const countSelected = (changes: Array<RoomRevisionChange | LineItemRevisionChange>) =>
+    changes.filter(c => selectedIds.has(c.id) && isRevisionChangeApplicable(c)).length
+
+  return (
+    <div className="space-y-2 pr-2">
+      <ChangeSection
+        title="Rooms"
+        icon={<Home className="h-4 w-4" />}
+        count={diff.rooms.length}
+        selectedCount={countSelected(diff.rooms)}
+        unchanged={diff.unchangedRooms}
+      >
+        {diff.rooms.map(change => (
+          <ChangeRow
+            key={change.id}
+            change={change}
+            label={roomLabel(change)}
+            detail={roomDetail(change)}
+            selected={selectedIds.has(change.id)}
+            onToggle={() => onToggle(change.id)}
+          />
+        ))}
+      </ChangeSection>
+
+      <ChangeSection
+        title="Line items"
+        icon={<FileText className="h-4 w-4" />}
+        count={diff.lineItems.length}
+        selectedCount={countSelected(diff.lineItems)}
+        unchanged={diff.unchangedLineItems}
+      >
+        {diff.lineItems.map(change => {
+          const item = change.revision ?? change.base
+          return (
+            <ChangeRow
+              key={change.id}
+              change={change}
+              label={`${item?.description ?? ''} · ${change.roomName}`}
+              detail={item ? `${item.quantity ?? '—'} ${item.unit}` : null}
+              selected={selectedIds.has(change.id)}
+              onToggle={() => onToggle(change.id)}
+            />
+          )
+        })}
+      </ChangeSection>
+    </div>
+  )
+}
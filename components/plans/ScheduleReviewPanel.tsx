@@ -0,0 +1,139 @@
+'use client'
+
+/**
+ * ScheduleReviewPanel
+ *
+ * Review of door, window and room finish schedule rows read from the plans.
+ * Rows can be excluded; the counted line items (and selections) the included
+ * rows produce are previewed underneath.
+ */
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ChevronDown, ChevronRight, DoorOpen, AppWindow, Paintbrush, ListChecks } from 'lucide-react'
+import type { PlanSchedules } from '@/types/db'
+import { SCHEDULE_ROOM_NAME, type ScheduleLineItem } from '@/lib/plans/schedule-items'
+
+interface ScheduleReviewPanelProps {
+  schedules: PlanSchedules
+  excludedRowIds: Set<string>
+  onToggleRow: (rowId: string) => void
+  items: ScheduleLineItem[]
+}
+
+interface ScheduleRowView {
+  id: string
+  primary: string
+  details: Array<string | null | undefined>
+  page: number
+}
+
+function ScheduleSection({
+  title,
+  icon,
+  rows,
+  excludedRowIds,
+  onToggleRow,
+}: {
+  title: string
+  icon: React.ReactNode
+  rows: ScheduleRowView[]
+  excludedRowIds: Set<string>
+  onToggleRow: (rowId: string) => void
+}) {
+  const [isOpen, setIsOpen] = useState(true)
+  if (rows.length === 0) return null
+  const includedCount = rows.filter(r => !excludedRowIds.has(r.id)).length
+
+  return (
+    <div className="border rounded-lg">
+      <button
+        type="button"
+        className="flex items-center justify-between w-full px-3 py-2 text-sm font-medium hover:bg-muted/50 rounded-t-lg"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <span className="flex items-center gap-2">
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          {icon}
+          {title}
+        </span>
+        <Badge variant="secondary" className="text-xs">
+          {includedCount}/{rows.length}
+        </Badge>
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-1">
+          {rows.map(row => {
+            const included = !excludedRowIds.has(row.id)
+            return (
+              <div key={row.id} className={`flex items-center gap-2 py-1.5 px-2 rounded text-sm ${included ? '' : 'opacity-50'}`}>
+                <Checkbox checked={included} onCheckedChange={() => onToggleRow(row.id)} />
+                <span className="font-medium w-28 truncate">{row.primary}</span>
+                <span className="flex-1 truncate text-muted-foreground">
+                  {row.details.filter(Boolean).join(' · ')}
+                </span>
+                <span className="text-xs text-muted-foreground">p.{row.page}</span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ScheduleReviewPanel({ schedules, excludedRowIds, onToggleRow, items }: ScheduleReviewPanelProps) {
+  const doorRows: ScheduleRowView[] = schedules.doors.map(d => ({
+    id: d.id,
+    primary: `Door ${d.mark}`,
+    details: [d.quantity > 1 ? `×${d.quantity}` : null, d.size, d.type, d.material, d.hardware && `HW: ${d.hardware}`, d.location],
+    page: d.page,
+  }))
+  const windowRows: ScheduleRowView[] = schedules.windows.map(w => ({
+    id: w.id,
+    primary: `Window ${w.mark}`,
+    details: [w.quantity > 1 ? `×${w.quantity}` : null, w.size, w.type, w.location],
+    page: w.page,
+  }))
+  const finishRows: ScheduleRowView[] = schedules.finishes.map(f => ({
+    id: f.id,
+    primary: f.room,
+    details: [f.floor && `Floor: ${f.floor}`, f.base && `Base: ${f.base}`, f.wall && `Wall: ${f.wall}`, f.ceiling && `Ceiling: ${f.ceiling}`],
+    page: f.page,
+  }))
+
+  return (
+    <div className="space-y-2 pr-2">
+      <ScheduleSection title="Door schedule" icon={<DoorOpen className="h-4 w-4" />} rows={doorRows} excludedRowIds={excludedRowIds} onToggleRow={onToggleRow} />
+      <ScheduleSection title="Window schedule" icon={<AppWindow className="h-4 w-4" />} rows={windowRows} excludedRowIds={excludedRowIds} onToggleRow={onToggleRow} />
+      <ScheduleSection title="Room finish schedule" icon={<Paintbrush className="h-4 w-4" />} rows={finishRows} excludedRowIds={excludedRowIds} onToggleRow={onToggleRow} />
+
+      <div className="border rounded-lg px-3 py-2 space-y-1">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <ListChecks className="h-4 w-4" />
+          Line items from schedules ({items.length})
+        </p>
+        {items.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No line items from the included rows</p>
+        ) : (
+          items.map((item, i) => (
+            <div key={i} className="flex items-center gap-2 py-1 px-2 text-sm">
+              <span className="flex-1 truncate">
+                {item.description}
+                {item.room_name !== SCHEDULE_ROOM_NAME && <span className="text-muted-foreground"> · {item.room_name}</span>}
+              </span>
+              {item.selection_title && (
+                <Badge variant="secondary" className="text-xs">Selection</Badge>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {item.quantity ?? '—'} {item.unit}
+              </span>
+              <Badge variant="outline" className="text-xs">{item.cost_code}</Badge>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,847 @@
+'use client'
+
+/**
+ * TakeoffViewer
+ *
+ * On-plan measurement over a rendered plan page. The estimator calibrates the
+ * page (two points + known length), then draws linear, area and count
+ * measurements and saves each one bound to a room and, optionally, a line
+ * item whose quantity it drives (calc_source = 'takeoff').
+ *
+ * Points are kept in the page image's natural pixels so the markup survives
+ * zooming and is persisted per page.
+ */
+
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Loader2,
+  Ruler,
+  Spline,
+  Square,
+  Hash,
+  MousePointer2,
+  ZoomIn,
+  ZoomOut,
+  ChevronLeft,
+  ChevronRight,
+  Undo2,
+  Check,
+  X,
+  Trash2,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  openTakeoffPage,
+  calibrateTakeoffPage,
+  saveTakeoffMeasurement,
+  deleteTakeoffMeasurement,
+  type TakeoffPageView,
+} from '@/actions/takeoff'
+import {
+  TAKEOFF_MIN_POINTS,
+  formatTakeoffQuantity,
+  measurementQuantity,
+  parseLengthFeet,
+  takeoffKindForUnit,
+  type TakeoffKind,
+  type TakeoffPoint,
+} from '@/lib/takeoff'
+import { cn } from '@/lib/utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TakeoffFile {
+  id: string
+  original_filename: string | null
+  file_url: string
+}
+
+interface TakeoffViewerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  projectId: string
+  estimateId?: string
+  files: TakeoffFile[]
+  initialFileId?: string
+  onChanged?: () => void // A line item quantity changed
+}
+
+type Tool = 'select' | 'calibrate' | TakeoffKind
+
+interface RoomOption {
+  id: string
+  name: string
+  level: string | null
+}
+
+interface LineItemOption {
+  id: string
+  description: string
+  room_name: string | null
+  unit: string | null
+  calc_source: string | null
+}
+
+/** Measurement being saved: a new drawing, or an existing one (id set) */
+interface MeasurementForm {
+  id?: string
+  kind: TakeoffKind
+  points: TakeoffPoint[]
+  label: string
+  roomId: string
+  target: string // NONE, NEW or a line item id
+  newDescription: string
+}
+
+const NONE = '__none__'
+const NEW = '__new__'
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.5, 2, 3]
+
+const KIND_COLORS: Record<TakeoffKind, string> = {
+  linear: '#2563eb',
+  area: '#16a34a',
+  count: '#ea580c',
+}
+
+const TOOLS: Array<{ value: Tool; label: string; icon: React.ReactNode }> = [
+  { value: 'select', label: 'Select', icon: <MousePointer2 className="h-4 w-4" /> },
+  { value: 'calibrate', label: 'Calibrate', icon: <Ruler className="h-4 w-4" /> },
+  { value: 'linear', label: 'Linear', icon: <Spline className="h-4 w-4" /> },
+  { value: 'area', label: 'Area', icon: <Square className="h-4 w-4" /> },
+  { value: 'count', label: 'Count', icon: <Hash className="h-4 w-4" /> },
+]
+
+const TOOL_HINTS: Record<Tool, string> = {
+  select: 'Pick a measurement in the list to edit or delete it.',
+  calibrate: 'Click both ends of a dimension you know, then enter its length.',
+  linear: 'Click along the run; double-click or Finish to end it.',
+  area: 'Click the corners; double-click or Finish to close the shape.',
+  count: 'Click each item; Finish when done.',
+}
+
+// =============================================================================
+// Helper Component: Markup overlay
+// =============================================================================
+
+function MarkupShape({
+  kind,
+  points,
+  color,
+  unit,
+  highlighted,
+  closed,
+}: {
+  kind: TakeoffKind | 'calibrate'
+  points: TakeoffPoint[]
+  color: string
+  unit: number // one screen pixel in image pixels
+  highlighted?: boolean
+  closed?: boolean
+}) {
+  const strokeWidth = highlighted ? 3 : 2
+  const path = points.map(p => p.join(',')).join(' ')
+
+  if (kind === 'count') {
+    return (
+      <g>
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p[0]}
+            cy={p[1]}
+            r={(highlighted ? 8 : 6) * unit}
+            fill={color}
+            fillOpacity={0.6}
+            stroke={color}
+            strokeWidth={strokeWidth}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </g>
+    )
+  }
+
+  return (
+    <g>
+      {kind === 'area' && closed ? (
+        <polygon
+          points={path}
+          fill={color}
+          fillOpacity={highlighted ? 0.3 : 0.15}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          vectorEffect="non-scaling-stroke"
+        />
+      ) : (
+        <polyline
+          points={path}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeDasharray={kind === 'calibrate' ? '6 4' : undefined}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {points.map((p, i) => (
+        <circle key={i} cx={p[0]} cy={p[1]} r={3 * unit} fill={color} />
+      ))}
+    </g>
+  )
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+export function TakeoffViewer({
+  open,
+  onOpenChange,
+  projectId,
+  estimateId,
+  files,
+  initialFileId,
+  onChanged,
+}: TakeoffViewerProps) {
+  const [fileId, setFileId] = useState<string | undefined>(initialFileId)
+  const [pageNumber, setPageNumber] = useState(1)
+  const [view, setView] = useState<TakeoffPageView | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [tool, setTool] = useState<Tool>('select')
+  const [draft, setDraft] = useState<TakeoffPoint[]>([])
+  const [calibrationLength, setCalibrationLength] = useState('')
+  const [form, setForm] = useState<MeasurementForm | null>(null)
+
+  const [zoom, setZoom] = useState(1)
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null)
+  const [displayWidth, setDisplayWidth] = useState(0)
+  const imageRef = useRef<HTMLImageElement>(null)
+
+  const [rooms, setRooms] = useState<RoomOption[]>([])
+  const [lineItems, setLineItems] = useState<LineItemOption[]>([])
+
+  const page = view?.page ?? null
+  const feetPerPixel = page?.feet_per_pixel ?? null
+
+  // Reset to the requested file each time the viewer opens
+  useEffect(() => {
+    if (open) {
+      setFileId(initialFileId ?? files[0]?.id)
+      setPageNumber(1)
+      setZoom(1)
+    }
+  }, [open, initialFileId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const resetDrawing = useCallback(() => {
+    setDraft([])
+    setCalibrationLength('')
+    setForm(null)
+  }, [])
+
+  const loadPage = useCallback(async () => {
+    if (!fileId) return
+    setIsLoading(true)
+    setNaturalSize(null)
+    resetDrawing()
+    try {
+      const result = await openTakeoffPage(fileId, pageNumber)
+      if (!result.success || !result.view) {
+        throw new Error(result.error || 'Failed to open page')
+      }
+      setView(result.view)
+    } catch (error) {
+      console.error('Error opening takeoff page:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to open page')
+      setView(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [fileId, pageNumber, resetDrawing])
+
+  useEffect(() => {
+    if (open) loadPage()
+  }, [open, loadPage])
+
+  const loadOptions = useCallback(async () => {
+    const [{ data: roomRows }, { data: itemRows }] = await Promise.all([
+      supabase
+        .from('rooms')
+        .select('id, name, level')
+        .eq('project_id', projectId)
+        .order('name', { ascending: true }),
+      estimateId
+        ? supabase
+            .from('estimate_line_items')
+            .select('id, description, room_name, unit, calc_source')
+            .eq('estimate_id', estimateId)
+            .neq('is_active', false)
+            .order('room_name', { ascending: true })
+            .order('created_at', { ascending: true })
+        : Promise.resolve({ data: [] as LineItemOption[] }),
+    ])
+    setRooms(roomRows || [])
+    setLineItems(itemRows || [])
+  }, [projectId, estimateId])
+
+  useEffect(() => {
+    if (open) loadOptions()
+  }, [open, loadOptions])
+
+  // Track the rendered width so markers keep a constant on-screen size
+  useEffect(() => {
+    const image = imageRef.current
+    if (!image) return
+    const observer = new ResizeObserver(() => setDisplayWidth(image.clientWidth))
+    observer.observe(image)
+    return () => observer.disconnect()
+  }, [naturalSize])
+
+  const unit = naturalSize && displayWidth > 0 ? naturalSize.width / displayWidth : 1
+
+  const roomNames = useMemo(() => new Map(rooms.map(r => [r.id, r.name])), [rooms])
+  const lineItemNames = useMemo(() => new Map(lineItems.map(li => [li.id, li.description])), [lineItems])
+
+  // ─── Drawing ───────────────────────────────────────────────────────────────
+
+  const pointFromEvent = (event: React.MouseEvent<HTMLDivElement>): TakeoffPoint | null => {
+    const image = imageRef.current
+    if (!image || !naturalSize) return null
+    const rect = image.getBoundingClientRect()
+    const x = ((event.clientX - rect.left) / rect.width) * naturalSize.width
+    const y = ((event.clientY - rect.top) / rect.height) * naturalSize.height
+    if (x < 0 || y < 0 || x > naturalSize.width || y > naturalSize.height) return null
+    return [Math.round(x * 10) / 10, Math.round(y * 10) / 10]
+  }
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    // Second click of a double-click finishes instead of adding a point
+    if (event.detail > 1 || tool === 'select' || form) return
+    const point = pointFromEvent(event)
+    if (!point) return
+
+    if (tool === 'calibrate') {
+      setDraft(prev => (prev.length >= 2 ? [point] : [...prev, point]))
+      return
+    }
+    setDraft(prev => [...prev, point])
+  }
+
+  const finishDrawing = () => {
+    if (tool === 'select' || tool === 'calibrate') return
+    if (draft.length < TAKEOFF_MIN_POINTS[tool]) {
+      toast.error(tool === 'area' ? 'An area needs at least 3 points' : 'Add more points first')
+      return
+    }
+    setForm({
+      kind: tool,
+      points: draft,
+      label: '',
+      roomId: NONE,
+      target: NONE,
+      newDescription: '',
+    })
+    setDraft([])
+  }
+
+  const selectTool = (next: Tool) => {
+    setTool(next)
+    resetDrawing()
+  }
+
+  const editMeasurement = (id: string) => {
+    const measurement = view?.measurements.find(m => m.id === id)
+    if (!measurement) return
+    setTool('select')
+    setDraft([])
+    setForm({
+      id: measurement.id,
+      kind: measurement.kind,
+      points: measurement.points,
+      label: measurement.label ?? '',
+      roomId: measurement.room_id ?? NONE,
+      target: measurement.line_item_id ?? NONE,
+      newDescription: '',
+    })
+  }
+
+  // ─── Actions ───────────────────────────────────────────────────────────────
+
+  const handleCalibrate = async () => {
+    if (!page || draft.length !== 2) return
+    const lengthFt = parseLengthFeet(calibrationLength)
+    if (!lengthFt) {
+      toast.error('Enter the known length, e.g. 12\'6" or 12.5')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const result = await calibrateTakeoffPage({
+        pageId: page.id,
+        points: [draft[0], draft[1]],
+        lengthFt,
+      })
+      if (!result.view) {
+        throw new Error(result.error || 'Failed to calibrate')
+      }
+      setView(result.view)
+      setDraft([])
+      setCalibrationLength('')
+      setTool('linear')
+      if (result.updatedLineItems) onChanged?.()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update line items')
+      }
+      toast.success('Page calibrated')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to calibrate')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!page || !form) return
+    if (form.target === NEW && (!estimateId || !form.newDescription.trim())) {
+      toast.error('Enter a description for the new line item')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const result = await saveTakeoffMeasurement({
+        id: form.id,
+        pageId: page.id,
+        kind: form.kind,
+        label: form.label.trim() || null,
+        points: form.points,
+        roomId: form.roomId === NONE ? null : form.roomId,
+        lineItemId: form.target === NONE || form.target === NEW ? null : form.target,
+        newLineItem: form.target === NEW && estimateId
+          ? { estimateId, description: form.newDescription.trim() }
+          : null,
+      })
+      if (!result.measurement) {
+        throw new Error(result.error || 'Failed to save measurement')
+      }
+
+      const saved = result.measurement
+      setView(prev => prev && {
+        ...prev,
+        measurements: form.id
+          ? prev.measurements.map(m => (m.id === saved.id ? saved : m))
+          : [...prev.measurements, saved],
+      })
+      setForm(null)
+
+      const previousLineItem = form.id
+        ? view?.measurements.find(m => m.id === form.id)?.line_item_id ?? null
+        : null
+      if (result.lineItemId || previousLineItem) {
+        await loadOptions()
+        onChanged?.()
+      }
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update the line item')
+      }
+      toast.success('Measurement saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save measurement')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    const measurement = view?.measurements.find(m => m.id === id)
+    setIsSaving(true)
+    try {
+      const result = await deleteTakeoffMeasurement(id)
+      if (!result.deleted) {
+        throw new Error(result.error || 'Failed to delete measurement')
+      }
+      setView(prev => prev && { ...prev, measurements: prev.measurements.filter(m => m.id !== id) })
+      if (form?.id === id) setForm(null)
+      if (measurement?.line_item_id) onChanged?.()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update the line item')
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete measurement')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // ─── Render ────────────────────────────────────────────────────────────────
+
+  const pageCount = page?.page_count ?? 1
+  const zoomIndex = ZOOM_STEPS.indexOf(zoom)
+  const isDrawingTool = tool === 'linear' || tool === 'area' || tool === 'count'
+  const formQuantity = form ? measurementQuantity(form.kind, form.points, feetPerPixel) : null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ruler className="h-5 w-5" />
+            Measure on Plans
+          </DialogTitle>
+          <DialogDescription>
+            Calibrate the page, then measure lengths, areas and counts. Saved measurements
+            set the quantity of the line item they are bound to.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2 border-b pb-3">
+          {files.length > 1 && (
+            <Select value={fileId} onValueChange={id => { setFileId(id); setPageNumber(1) }}>
+              <SelectTrigger className="w-48 h-8">
+                <SelectValue placeholder="Plan file" />
+              </SelectTrigger>
+              <SelectContent>
+                {files.map(f => (
+                  <SelectItem key={f.id} value={f.id}>{f.original_filename || 'Untitled'}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={pageNumber <= 1 || isLoading}
+              onClick={() => setPageNumber(p => p - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground px-1">
+              Page {pageNumber} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={pageNumber >= pageCount || isLoading}
+              onClick={() => setPageNumber(p => p + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={zoomIndex <= 0}
+              onClick={() => setZoom(ZOOM_STEPS[zoomIndex - 1])}
+            >
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground w-12 text-center">{Math.round(zoom * 100)}%</span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={zoomIndex >= ZOOM_STEPS.length - 1}
+              onClick={() => setZoom(ZOOM_STEPS[zoomIndex + 1])}
+            >
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            {TOOLS.map(t => (
+              <Button
+                key={t.value}
+                variant={tool === t.value ? 'default' : 'outline'}
+                size="sm"
+                className="h-8"
+                disabled={!page || isSaving}
+                onClick={() => selectTool(t.value)}
+              >
+                {t.icon}
+                <span className="ml-1 hidden md:inline">{t.label}</span>
+              </Button>
+            ))}
+          </div>
+
+          {page && (
+            <Badge variant={feetPerPixel ? 'secondary' : 'outline'} className="ml-auto">
+              {page.calibration
+                ? `Calibrated: ${page.calibration.length_ft.toLocaleString(undefined, { maximumFractionDigits: 2 })} ft line`
+                : 'Not calibrated'}
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex flex-1 min-h-0 gap-4">
+          {/* Plan page */}
+          <div className="flex-1 min-w-0 flex flex-col gap-2">
+            <p className="text-xs text-muted-foreground">{TOOL_HINTS[tool]}</p>
+
+            {isDrawingTool && draft.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm">
+                  {formatTakeoffQuantity(tool, measurementQuantity(tool, draft, feetPerPixel))}
+                </span>
+                <Button size="sm" variant="outline" className="h-7" onClick={() => setDraft(d => d.slice(0, -1))}>
+                  <Undo2 className="h-3 w-3 mr-1" />
+                  Undo point
+                </Button>
+                <Button size="sm" className="h-7" onClick={finishDrawing}>
+                  <Check className="h-3 w-3 mr-1" />
+                  Finish
+                </Button>
+                <Button size="sm" variant="ghost" className="h-7" onClick={() => setDraft([])}>
+                  <X className="h-3 w-3 mr-1" />
+                  Cancel
+                </Button>
+              </div>
+            )}
+
+            {tool === 'calibrate' && draft.length === 2 && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="takeoff-calibration" className="text-sm whitespace-nowrap">Known length</Label>
+                <Input
+                  id="takeoff-calibration"
+                  value={calibrationLength}
+                  onChange={e => setCalibrationLength(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') handleCalibrate() }}
+                  placeholder={'12\'6"'}
+                  className="h-8 w-32"
+                  autoFocus
+                />
+                <Button size="sm" className="h-8" onClick={handleCalibrate} disabled={isSaving}>
+                  {isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Set scale'}
+                </Button>
+              </div>
+            )}
+
+            <div className="flex-1 min-h-0 overflow-auto border rounded-lg bg-muted/30">
+              {isLoading ? (
+                <div className="flex items-center justify-center h-full text-muted-foreground">
+                  <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                  Rendering page...
+                </div>
+              ) : view ? (
+                <div
+                  className={cn('relative inline-block', tool !== 'select' && !form && 'cursor-crosshair')}
+                  style={{ width: `${zoom * 100}%` }}
+                  onClick={handleCanvasClick}
+                  onDoubleClick={finishDrawing}
+                >
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    ref={imageRef}
+                    src={view.imageUrl}
+                    alt={`Plan page ${pageNumber}`}
+                    className="block w-full h-auto select-none"
+                    draggable={false}
+                    onLoad={e => setNaturalSize({
+                      width: e.currentTarget.naturalWidth,
+                      height: e.currentTarget.naturalHeight,
+                    })}
+                  />
+                  {naturalSize && (
+                    <svg
+                      className="absolute inset-0 w-full h-full pointer-events-none"
+                      viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`}
+                    >
+                      {page?.calibration && tool === 'calibrate' && (
+                        <MarkupShape kind="calibrate" points={page.calibration.points} color="#dc2626" unit={unit} />
+                      )}
+                      {view.measurements.map(m => (
+                        <MarkupShape
+                          key={m.id}
+                          kind={m.kind}
+                          points={m.id === form?.id ? form.points : m.points}
+                          color={KIND_COLORS[m.kind]}
+                          unit={unit}
+                          highlighted={m.id === form?.id}
+                          closed
+                        />
+                      ))}
+                      {form && !form.id && (
+                        <MarkupShape kind={form.kind} points={form.points} color={KIND_COLORS[form.kind]} unit={unit} highlighted closed />
+                      )}
+                      {draft.length > 0 && (
+                        <MarkupShape
+                          kind={tool === 'calibrate' || tool === 'select' ? 'calibrate' : tool}
+                          points={draft}
+                          color={tool === 'calibrate' || tool === 'select' ? '#dc2626' : KIND_COLORS[tool]}
+                          unit={unit}
+                          closed={false}
+                        />
+                      )}
+                    </svg>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+                  No page to show
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Sidebar */}
+          <div className="w-72 shrink-0 flex flex-col gap-3 overflow-y-auto">
+            {form && (
+              <div className="border rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">
+                    {form.id ? 'Edit measurement' : 'Save measurement'}
+                  </span>
+                  <Badge variant="secondary">{formatTakeoffQuantity(form.kind, formQuantity)}</Badge>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="takeoff-label" className="text-xs">Label</Label>
+                  <Input
+                    id="takeoff-label"
+                    value={form.label}
+                    onChange={e => setForm({ ...form, label: e.target.value })}
+                    placeholder="e.g. Base trim, Tile floor"
+                    className="h-8"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <Label className="text-xs">Room</Label>
+                  <Select value={form.roomId} onValueChange={roomId => setForm({ ...form, roomId })}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No room</SelectItem>
+                      {rooms.map(r => (
+                        <SelectItem key={r.id} value={r.id}>
+                          {r.name}{r.level ? ` (${r.level})` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label className="text-xs">Line item quantity</Label>
+                  <Select value={form.target} onValueChange={target => setForm({ ...form, target })}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Don&apos;t set a quantity</SelectItem>
+                      {estimateId && <SelectItem value={NEW}>New line item…</SelectItem>}
+                      {lineItems.filter(li => li.id === form.target || takeoffKindForUnit(li.unit) === form.kind).map(li => (
+                        <SelectItem key={li.id} value={li.id}>
+                          {li.description}
+                          {li.room_name ? ` · ${li.room_name}` : ''}
+                          {li.unit ? ` (${li.unit})` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {form.target === NEW && (
+                    <Input
+                      value={form.newDescription}
+                      onChange={e => setForm({ ...form, newDescription: e.target.value })}
+                      placeholder="Line item description"
+                      className="h-8"
+                    />
+                  )}
+                  {form.target !== NONE && form.kind !== 'count' && formQuantity === null && (
+                    <p className="text-xs text-amber-600">Calibrate the page to get a quantity.</p>
+                  )}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button size="sm" className="flex-1" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Save'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <span className="text-sm font-medium">
+                Measurements on this page ({view?.measurements.length ?? 0})
+              </span>
+              {view && view.measurements.length === 0 && (
+                <p className="text-xs text-muted-foreground">Nothing measured yet.</p>
+              )}
+              {view?.measurements.map(m => (
+                <div
+                  key={m.id}
+                  className={cn(
+                    'flex items-start gap-2 rounded-md border p-2 text-sm cursor-pointer hover:bg-muted/50',
+                    form?.id === m.id && 'border-primary'
+                  )}
+                  onClick={() => editMeasurement(m.id)}
+                >
+                  <span
+                    className="mt-1 h-2.5 w-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: KIND_COLORS[m.kind] }}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate">{m.label || m.kind}</span>
+                      <span className="text-xs font-medium whitespace-nowrap">
+                        {formatTakeoffQuantity(m.kind, m.quantity)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {[m.room_id && roomNames.get(m.room_id), m.line_item_id && lineItemNames.get(m.line_item_id)]
+                        .filter(Boolean)
+                        .join(' · ') || 'Not bound'}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    disabled={isSaving}
+                    onClick={e => { e.stopPropagation(); handleDelete(m.id) }}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -30,6 +30,8 @@ interface CloseOutProjectDialogProps {
   projectId: string
   estimateId: string
   projectName: string
+  /** Retainage still held on the project - reminds the user to release it */
+  retainageHeld?: number
   onSuccess: () => void
 }
 
@@ -73,6 +75,7 @@ export function CloseOutProjectDialog({
   projectId,
   estimateId,
   projectName,
+  retainageHeld = 0,
   onSuccess
 }: CloseOutProjectDialogProps) {
   const [isLoading, setIsLoading] = useState(false)
@@ -494,6 +497,16 @@ export function CloseOutProjectDialog({
               />
             </div>
             
+            {retainageHeld > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {formatCurrencyPrecise(retainageHeld)} of retainage is still held on this project.
+                  Release it from the Invoices tab once the work is accepted.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Info Box */}
             <Alert>
               <CheckCircle className="h-4 w-4" />
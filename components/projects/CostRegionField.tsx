@@ -0,0 +1,80 @@
+'use client'
+
+/**
+ * Cost Region Field
+ *
+ * Shows which regional cost index applies to a project and lets the user
+ * override it. "Auto" resolves from the ZIP in the project address, then
+ * the region in pricing settings.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { getProjectCostRegion, setProjectCostRegion } from '@/actions/projects'
+import { COST_REGIONS, describeCostRegion, type ResolvedCostRegion } from '@/lib/pricing/regional-cost-index'
+
+const AUTO = 'auto'
+
+interface CostRegionFieldProps {
+  projectId: string
+  /** Refetch when the address changes, since auto resolution depends on it */
+  projectAddress: string | null
+}
+
+export function CostRegionField({ projectId, projectAddress }: CostRegionFieldProps) {
+  const [override, setOverride] = useState<string | null>(null)
+  const [resolved, setResolved] = useState<ResolvedCostRegion | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchRegion = useCallback(async () => {
+    const result = await getProjectCostRegion(projectId)
+    if (result.success) {
+      setOverride(result.override ?? null)
+      setResolved(result.resolved ?? null)
+    } else {
+      console.error('Error loading cost region:', result.error)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchRegion()
+  }, [fetchRegion, projectAddress])
+
+  const handleChange = async (value: string) => {
+    const regionKey = value === AUTO ? null : value
+    setSaving(true)
+    try {
+      const result = await setProjectCostRegion(projectId, regionKey)
+      if (!result.success) throw new Error(result.error)
+      setOverride(regionKey)
+      setResolved(result.resolved ?? null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update cost region')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="text-muted-foreground">Cost Region</div>
+      <Select value={override ?? AUTO} onValueChange={handleChange} disabled={saving}>
+        <SelectTrigger className="h-8 mt-1 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO}>Auto (from address)</SelectItem>
+          {COST_REGIONS.map(region => (
+            <SelectItem key={region.key} value={region.key}>
+              {region.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground mt-1">
+        {resolved ? describeCostRegion(resolved) : 'No ZIP code in the address - national costs'}
+      </p>
+    </div>
+  )
+}
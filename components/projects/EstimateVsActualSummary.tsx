@@ -6,6 +6,7 @@
  * Displays a comparison of estimated vs actual costs after job completion.
  * Shows:
  * - Summary metrics (total estimate, total actual, variance)
+ * - Estimated vs actual labor hours
  * - Per-line-item breakdown (if available)
  * - Visual indicators for over/under budget items
  */
@@ -33,6 +34,7 @@ interface EstimateLineItem {
   quantity: number | null
   unit: string | null
   direct_cost: number | null
+  labor_hours: number | null
 }
 
 interface LineItemComparison {
@@ -93,7 +95,7 @@ export function EstimateVsActualSummary({ projectId, estimateId }: EstimateVsAct
       // Fetch line items
       const { data: items } = await supabase
         .from('estimate_line_items')
-        .select('id, description, room_name, category, quantity, unit, direct_cost')
+        .select('id, description, room_name, category, quantity, unit, direct_cost, labor_hours')
         .eq('estimate_id', estimateId)
         .order('room_name', { ascending: true })
         .order('category', { ascending: true })
@@ -158,6 +160,9 @@ export function EstimateVsActualSummary({ projectId, estimateId }: EstimateVsAct
     ? Math.max(0, 100 - Math.abs(variancePercent))
     : 100
   
+  // Estimated labor hours from hours-based line items
+  const estimatedLaborHours = lineItems.reduce((sum, item) => sum + Number(item.labor_hours || 0), 0)
+
   // Build line item comparisons
   const lineItemComparisons: LineItemComparison[] = lineItems.map(item => {
     const actual = lineItemActuals.find(a => a.line_item_id === item.id) || null
@@ -279,6 +284,11 @@ export function EstimateVsActualSummary({ projectId, estimateId }: EstimateVsAct
                   <div>
                     <p className="text-muted-foreground">Labor Hours</p>
                     <p className="font-medium">{actuals.actual_labor_hours.toFixed(1)} hrs</p>
+                    {estimatedLaborHours > 0 && (
+                      <p className={`text-xs ${actuals.actual_labor_hours > estimatedLaborHours ? 'text-red-600' : 'text-green-600'}`}>
+                        est. {estimatedLaborHours.toFixed(1)} hrs ({actuals.actual_labor_hours - estimatedLaborHours > 0 ? '+' : ''}{(actuals.actual_labor_hours - estimatedLaborHours).toFixed(1)})
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
@@ -0,0 +1,97 @@
+'use client'
+
+/**
+ * Project Payments Summary
+ *
+ * Contract value next to what has been invoiced, collected and is still
+ * outstanding. Renders nothing until the project has a contract or invoices.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { getProjectPaymentSummary, type ProjectPaymentSummary } from '@/actions/payments'
+import { cn } from '@/lib/utils'
+
+interface ProjectPaymentsSummaryProps {
+  projectId: string
+}
+
+const formatCurrency = (value: number | null | undefined) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value || 0)
+
+export function ProjectPaymentsSummary({ projectId }: ProjectPaymentsSummaryProps) {
+  const [summary, setSummary] = useState<ProjectPaymentSummary | null>(null)
+
+  const fetchSummary = useCallback(async () => {
+    const result = await getProjectPaymentSummary(projectId)
+    if (result.success && result.data) {
+      setSummary(result.data)
+    } else {
+      console.error('Error loading payment summary:', result.error)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchSummary()
+  }, [fetchSummary])
+
+  if (!summary || (summary.contractValue === null && summary.invoiced === 0 && summary.drafts === 0)) {
+    return null
+  }
+
+  const collectedPercent = summary.contractValue
+    ? Math.min(100, (summary.paid / summary.contractValue) * 100)
+    : 0
+
+  const stats = [
+    { label: 'Contract Value', value: summary.contractValue === null ? '—' : formatCurrency(summary.contractValue) },
+    { label: 'Invoiced', value: formatCurrency(summary.invoiced) },
+    { label: 'Paid', value: formatCurrency(summary.paid) },
+    { label: 'Outstanding', value: formatCurrency(summary.outstanding), alert: summary.overdue > 0 },
+  ]
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Contract & Payments</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map(stat => (
+            <div key={stat.label}>
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className={cn("text-xl font-semibold tabular-nums", stat.alert && "text-destructive")}>
+                {stat.value}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {summary.contractValue ? (
+          <div className="space-y-1">
+            <Progress value={collectedPercent} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {collectedPercent.toFixed(0)}% of the contract collected
+            </p>
+          </div>
+        ) : null}
+
+        {(summary.overdue > 0 || summary.drafts > 0) && (
+          <p className="text-xs text-muted-foreground">
+            {summary.overdue > 0 && (
+              <span className="text-destructive font-medium">{formatCurrency(summary.overdue)} overdue</span>
+            )}
+            {summary.overdue > 0 && summary.drafts > 0 && ' · '}
+            {summary.drafts > 0 && `${formatCurrency(summary.drafts)} in draft invoices not yet sent`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,7 +3,7 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Loader2, Ruler, CheckCircle2, AlertCircle } from 'lucide-react'
+import { Loader2, Ruler, CheckCircle2, AlertCircle, CloudOff } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import type { Room } from '@/types/db'
 
@@ -17,7 +17,7 @@ interface RoomDimensionsEditorProps {
     length_ft: number | null
     width_ft: number | null
     ceiling_height_ft: number | null
-  }) => Promise<{ success: boolean; room?: Room; affectedLineItems?: number; error?: string }>
+  }) => Promise<{ success: boolean; room?: Room; affectedLineItems?: number; queued?: boolean; error?: string }>
   disabled?: boolean
 }
 
@@ -70,7 +70,7 @@ export function RoomDimensionsEditor({ room, onSave, disabled = false }: RoomDim
     ceiling_height_ft: dimToString(room.ceiling_height_ft),
   })
   const [isSaving, setIsSaving] = useState(false)
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saved' | 'error'>('idle')
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saved' | 'queued' | 'error'>('idle')
   const [lastAffectedCount, setLastAffectedCount] = useState<number | null>(null)
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const latestDimsRef = useRef(dims)
@@ -122,7 +122,10 @@ export function RoomDimensionsEditor({ room, onSave, disabled = false }: RoomDim
         ceiling_height_ft: ceiling,
       })
 
-      if (result.success) {
+      if (result.success && result.queued) {
+        // Saved on this device; stays visible until the next save
+        setSaveStatus('queued')
+      } else if (result.success) {
         setSaveStatus('saved')
         setLastAffectedCount(result.affectedLineItems ?? null)
         // Auto-clear "saved" indicator after 2s
@@ -183,6 +186,12 @@ export function RoomDimensionsEditor({ room, onSave, disabled = false }: RoomDim
               Saved{lastAffectedCount && lastAffectedCount > 0 ? ` · ${lastAffectedCount} item${lastAffectedCount > 1 ? 's' : ''} updated` : ''}
             </span>
           )}
+          {saveStatus === 'queued' && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <CloudOff className="h-3 w-3" />
+              Saved offline · will sync
+            </span>
+          )}
           {saveStatus === 'error' && (
             <span className="flex items-center gap-1 text-xs text-destructive">
               <AlertCircle className="h-3 w-3" />
@@ -1,49 +1,140 @@
 'use client'
 
-import { useState, useRef, useEffect, useCallback } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Mic, MicOff, Square, Play, Pause, Upload, AlertCircle, CheckCircle } from 'lucide-react'
-import { supabase } from '@/lib/supabase/client'
+import { Mic, Square, Play, Pause, Upload, AlertCircle, CheckCircle, RotateCcw, Loader2, ListChecks } from 'lucide-react'
 import { useAuth } from '@/lib/auth-context'
+import { useStreamingTranscription } from '@/hooks/use-streaming-transcription'
+import { useLiveLineItems, type LiveLineItem } from '@/hooks/use-live-line-items'
+import {
+  abandonVoiceSession,
+  completeVoiceSession,
+  findResumableVoiceSession,
+  type VoiceSessionWithSegments,
+} from '@/actions/voice-sessions'
+import { joinSegmentTranscripts } from '@/lib/voice-session'
+import { saveAudioRecording } from '@/lib/project-files'
+import { useOffline } from '@/lib/offline-context'
+import { isNetworkError } from '@/lib/offline/outbox'
+import type { RecordingTranscript } from '@/lib/diarized-transcript'
+
+export interface LiveExtractionResult {
+  estimateId: string | null
+  items: LiveLineItem[]
+}
 
 interface RecorderProps {
   projectId?: string
-  onRecordingComplete?: (audioBlob: Blob, transcript: string) => void
+  /** Estimate live line items are added to; defaults to the project's estimate */
+  estimateId?: string | null
+  /**
+   * Extract line items while recording (needs projectId). When the
+   * recording completes, `live` carries what was already added so the
+   * caller does not parse the transcript a second time.
+   */
+  liveExtraction?: boolean
+  /**
+   * Save the recording and transcribe it with speaker labels when it stops
+   * (needs projectId). Replaces live extraction: scope is parsed once the
+   * user has said which speaker is authoritative. `recording` carries the
+   * diarized transcript; it is missing when diarization failed.
+   */
+  diarize?: boolean
+  onRecordingComplete?: (
+    audioBlob: Blob,
+    transcript: string,
+    live?: LiveExtractionResult,
+    recording?: RecordingTranscript
+  ) => void
 }
 
-export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
-  const [isRecording, setIsRecording] = useState(false)
-  const [isPaused, setIsPaused] = useState(false)
+export function Recorder({ projectId, estimateId = null, liveExtraction = true, diarize = false, onRecordingComplete }: RecorderProps) {
   const [elapsedTime, setElapsedTime] = useState(0)
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null)
   const [transcript, setTranscript] = useState('')
-  const [isTranscribing, setIsTranscribing] = useState(false)
-  const [isTranscribingAPI, setIsTranscribingAPI] = useState(false)
+  const [interimTranscript, setInterimTranscript] = useState('')
   const [permissionGranted, setPermissionGranted] = useState<boolean | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [isUploading, setIsUploading] = useState(false)
+  const [isStopping, setIsStopping] = useState(false)
   const [uploadSuccess, setUploadSuccess] = useState(false)
-  
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-  const audioChunksRef = useRef<Blob[]>([])
-  const streamRef = useRef<MediaStream | null>(null)
+  // Full recording is in the offline outbox (uploads when reconnected)
+  const [savedOffline, setSavedOffline] = useState(false)
+  const [diarizeState, setDiarizeState] = useState<'idle' | 'running' | 'done'>('idle')
+  const [recordingTranscript, setRecordingTranscript] = useState<RecordingTranscript | null>(null)
+  const [resumable, setResumable] = useState<VoiceSessionWithSegments | null>(null)
+
   const recognitionRef = useRef<SpeechRecognition | null>(null)
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
-  const transcriptRef = useRef<string>('')
+  // Finalized Web Speech text not yet attached to a segment
+  const speechBufferRef = useRef<string>('')
   const completionCalledRef = useRef<boolean>(false)
   const { user } = useAuth()
+  const { queue: queueOutbox } = useOffline()
+
+  const diarizeEnabled = diarize && !!projectId
+  const live = liveExtraction && !diarizeEnabled && !!projectId
+
+  const takeClientTranscript = useCallback(() => {
+    const text = speechBufferRef.current.trim()
+    speechBufferRef.current = ''
+    return text
+  }, [])
+
+  // The live parser needs the session id, which the stream only knows after
+  // start, so segments are routed through a ref
+  const handleSegmentsRef = useRef<(segments: { seq: number; transcript: string | null }[]) => void>(() => {})
+
+  const stream = useStreamingTranscription({
+    persist: !!projectId,
+    projectId: projectId ?? null,
+    takeClientTranscript,
+    onSegmentTranscribed: (_segment, segments) => handleSegmentsRef.current(segments),
+  })
+
+  const liveItems = useLiveLineItems({
+    projectId: live ? projectId! : null,
+    sessionId: stream.sessionId,
+    estimateId,
+  })
+
+  handleSegmentsRef.current = live ? liveItems.handleSegments : () => {}
+
+  const itemsByRoom = useMemo(() => {
+    const groups = new Map<string, LiveLineItem[]>()
+    for (const item of liveItems.items) {
+      const room = item.room_name || 'General'
+      groups.set(room, [...(groups.get(room) || []), item])
+    }
+    return Array.from(groups.entries())
+  }, [liveItems.items])
+
+  const isRecording = stream.isRecording
+  const isPaused = stream.isPaused
+  const audioBlob = stream.recording
+  const audioUrl = useMemo(() => (audioBlob ? URL.createObjectURL(audioBlob) : null), [audioBlob])
 
-  // Keep transcript ref in sync with state
   useEffect(() => {
-    transcriptRef.current = transcript
-  }, [transcript])
+    return () => {
+      if (audioUrl) URL.revokeObjectURL(audioUrl)
+    }
+  }, [audioUrl])
 
   // Check microphone permission on mount
   useEffect(() => {
     checkMicrophonePermission()
   }, [])
 
+  // Offer to resume a walkthrough that was cut off
+  useEffect(() => {
+    if (!projectId || !user) return
+    findResumableVoiceSession(projectId).then(result => {
+      if (result.success && result.data && result.data.segments.length > 0) {
+        setResumable(result.data)
+      }
+    })
+  }, [projectId, user])
+
   // Prevent screen sleep during recording
   useEffect(() => {
     if (isRecording && 'wakeLock' in navigator) {
@@ -51,120 +142,180 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
     }
   }, [isRecording])
 
+  useEffect(() => {
+    if (stream.error) setError(stream.error)
+  }, [stream.error])
+
+  const queueRecording = useCallback(async () => {
+    if (!audioBlob || !user) return
+    await queueOutbox({
+      projectId: projectId ?? null,
+      label: `Walkthrough recording (${Math.max(1, Math.round(audioBlob.size / 1024))} KB)`,
+      payload: { kind: 'voice_recording', blob: audioBlob, userId: user.id, recordedAt: new Date().toISOString() },
+    })
+    setSavedOffline(true)
+  }, [audioBlob, user, projectId, queueOutbox])
+
+  // Offline, or segments that never reached the server: keep the full
+  // recording on the device so no audio is lost
+  useEffect(() => {
+    if (!audioBlob || isStopping || savedOffline || uploadSuccess) return
+    if (navigator.onLine && stream.failedCount === 0) return
+    queueRecording().catch(err => console.error('Failed to queue recording:', err))
+  }, [audioBlob, isStopping, savedOffline, uploadSuccess, stream.failedCount, queueRecording])
+
   const checkMicrophonePermission = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      const mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true })
       setPermissionGranted(true)
-      stream.getTracks().forEach(track => track.stop())
+      mediaStream.getTracks().forEach(track => track.stop())
     } catch (err) {
       setPermissionGranted(false)
       setError('Microphone permission denied. Please allow microphone access to record.')
     }
   }
 
-  const startRecording = async () => {
+  const startTimer = () => {
+    intervalRef.current = setInterval(() => {
+      setElapsedTime(prev => prev + 1)
+    }, 1000)
+  }
+
+  const stopTimer = () => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current)
+      intervalRef.current = null
+    }
+  }
+
+  const startRecording = async (resumeFrom?: VoiceSessionWithSegments) => {
     try {
       setError(null)
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 44100
-        }
-      })
-      
-      streamRef.current = stream
-      audioChunksRef.current = []
+      setUploadSuccess(false)
+      setSavedOffline(false)
+      setDiarizeState('idle')
+      setRecordingTranscript(null)
       completionCalledRef.current = false
-      
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: MediaRecorder.isTypeSupported('audio/webm') ? 'audio/webm' : 'audio/wav'
-      })
-      
-      mediaRecorderRef.current = mediaRecorder
-      
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data)
-        }
-      }
-      
-      mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { 
-          type: mediaRecorder.mimeType 
-        })
-        setAudioBlob(audioBlob)
-        stopTranscription()
-        
-        // Auto-trigger completion with client transcript if available
-        // This allows users to proceed without clicking "Save Recording"
-        // Use ref to get latest transcript value
-        const currentTranscript = transcriptRef.current
-        if (onRecordingComplete && currentTranscript && currentTranscript.trim().length > 0 && !completionCalledRef.current) {
-          // Wait a bit for speech recognition to finalize and ensure auth is ready
-          setTimeout(() => {
-            const finalTranscript = transcriptRef.current
-            if (!completionCalledRef.current && finalTranscript && finalTranscript.trim().length > 0) {
-              // Only auto-trigger if user is authenticated (prevents API key errors)
-              if (user && user.id) {
-                completionCalledRef.current = true
-                onRecordingComplete(audioBlob, finalTranscript)
-              } else {
-                // If user not ready, log but don't fail - user can click "Save Recording" later
-                console.warn('User not authenticated yet, skipping auto-completion. User can click "Save Recording" to proceed.')
-              }
-            }
-          }, 500)
-        }
+      speechBufferRef.current = ''
+
+      if (resumeFrom) {
+        await liveItems.restore(resumeFrom)
+        setTranscript(joinSegmentTranscripts(resumeFrom.segments))
+      } else {
+        liveItems.reset()
+        setTranscript('')
       }
-      
-      mediaRecorder.start(1000) // Collect data every second
-      setIsRecording(true)
+      setResumable(null)
+
+      await stream.start(resumeFrom)
+
       setElapsedTime(0)
-      
-      // Start timer
-      intervalRef.current = setInterval(() => {
-        setElapsedTime(prev => prev + 1)
-      }, 1000)
-      
-      // Start speech recognition
+      startTimer()
       startTranscription()
-      
     } catch (err) {
       setError('Failed to start recording. Please check your microphone permissions.')
       console.error('Recording error:', err)
     }
   }
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop()
-      setIsRecording(false)
-      setIsPaused(false)
-      
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-        intervalRef.current = null
+  const discardResumable = async () => {
+    if (!resumable) return
+    await abandonVoiceSession(resumable.session.id)
+    setResumable(null)
+  }
+
+  const stopRecording = async () => {
+    if (!isRecording) return
+
+    stopTimer()
+    stopTranscription()
+    setIsStopping(true)
+
+    try {
+      const sessionId = stream.sessionId
+      let finalTranscript = await stream.stop()
+
+      if (live) {
+        await liveItems.flush()
       }
-      
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop())
-        streamRef.current = null
+      if (sessionId) {
+        const completed = await completeVoiceSession(sessionId)
+        if (completed.success && completed.transcript) {
+          finalTranscript = completed.transcript
+        }
       }
+      setTranscript(finalTranscript)
+      setInterimTranscript('')
+    } finally {
+      setIsStopping(false)
     }
   }
 
-  const pauseRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      if (isPaused) {
-        mediaRecorderRef.current.resume()
-        setIsPaused(false)
-        startTranscription()
-      } else {
-        mediaRecorderRef.current.pause()
-        setIsPaused(true)
-        stopTranscription()
+  // Diarization: save the full recording, then transcribe it with speaker
+  // labels. Falls back to the plain transcript when it fails or when offline
+  // (the offline outbox keeps the audio).
+  useEffect(() => {
+    if (!diarizeEnabled || !audioBlob || isStopping || diarizeState !== 'idle' || !user) return
+    if (!navigator.onLine) {
+      setDiarizeState('done')
+      return
+    }
+
+    setDiarizeState('running')
+    ;(async () => {
+      try {
+        const uploadId = await saveAudioRecording({ blob: audioBlob, userId: user.id, projectId })
+        setUploadSuccess(true)
+
+        const response = await fetch('/api/transcribe/diarize', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ uploadId }),
+        })
+        const result = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(result.error || `Speaker transcription failed: ${response.status}`)
+        }
+        setRecordingTranscript(result.data as RecordingTranscript)
+      } catch (err) {
+        console.error('Diarization error:', err)
+        setError(`Speaker labels unavailable: ${err instanceof Error ? err.message : 'transcription failed'}`)
+      } finally {
+        setDiarizeState('done')
       }
+    })()
+  }, [diarizeEnabled, audioBlob, isStopping, diarizeState, user, projectId])
+
+  // Auto-trigger completion once the final transcript is in. This allows
+  // users to proceed without clicking "Save Recording".
+  useEffect(() => {
+    if (!audioBlob || isStopping || completionCalledRef.current) return
+    if (!onRecordingComplete || !transcript.trim()) return
+    if (diarizeEnabled && diarizeState !== 'done') return
+    // Only auto-trigger if user is authenticated (prevents API key errors)
+    if (!user || !user.id) {
+      console.warn('User not authenticated yet, skipping auto-completion. User can click "Save Recording" to proceed.')
+      return
+    }
+    completionCalledRef.current = true
+    onRecordingComplete(
+      audioBlob,
+      transcript,
+      live ? { estimateId: liveItems.estimateId, items: liveItems.items } : undefined,
+      recordingTranscript ?? undefined
+    )
+  }, [audioBlob, isStopping, transcript, user, onRecordingComplete, live, liveItems.estimateId, liveItems.items, diarizeEnabled, diarizeState, recordingTranscript])
+
+  const pauseRecording = () => {
+    if (!isRecording) return
+    if (isPaused) {
+      stream.resume()
+      startTimer()
+      startTranscription()
+    } else {
+      stream.pause()
+      stopTimer()
+      stopTranscription()
     }
   }
 
@@ -172,34 +323,32 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
       const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
       const recognition = new SpeechRecognition()
-      
+
       recognition.continuous = true
       recognition.interimResults = true
       recognition.lang = 'en-US'
-      
+
       recognition.onresult = (event) => {
-        let finalTranscript = ''
-        let interimTranscript = ''
-        
+        let interim = ''
+
         for (let i = event.resultIndex; i < event.results.length; i++) {
-          const transcript = event.results[i][0].transcript
+          const text = event.results[i][0].transcript
           if (event.results[i].isFinal) {
-            finalTranscript += transcript
+            speechBufferRef.current = `${speechBufferRef.current} ${text}`
           } else {
-            interimTranscript += transcript
+            interim += text
           }
         }
-        
-        setTranscript(prev => prev + finalTranscript + interimTranscript)
+
+        setInterimTranscript(`${speechBufferRef.current} ${interim}`.trim())
       }
-      
+
       recognition.onerror = (event) => {
         console.error('Speech recognition error:', event.error)
       }
-      
+
       recognitionRef.current = recognition
       recognition.start()
-      setIsTranscribing(true)
     }
   }
 
@@ -207,7 +356,6 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
     if (recognitionRef.current) {
       recognitionRef.current.stop()
       recognitionRef.current = null
-      setIsTranscribing(false)
     }
   }
 
@@ -217,121 +365,54 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
   }
 
-  const transcribeAudio = async (audioBlob: Blob, clientTranscript: string) => {
-    setIsTranscribingAPI(true)
-    setError(null)
-    
-    try {
-      const formData = new FormData()
-      formData.append('audio', audioBlob, 'recording.webm')
-      formData.append('transcript', clientTranscript)
-      
-      const response = await fetch('/api/transcribe', {
-        method: 'POST',
-        body: formData,
-      })
-      
-      if (!response.ok) {
-        throw new Error(`Transcription failed: ${response.status}`)
-      }
-      
-      const result = await response.json()
-      return result.transcript
-    } catch (error) {
-      console.error('Transcription API error:', error)
-      // Return client transcript as fallback
-      return clientTranscript
-    } finally {
-      setIsTranscribingAPI(false)
-    }
-  }
-
   const uploadRecording = async () => {
     if (!audioBlob || !user) {
       setError('Missing audio data or user authentication')
       return
     }
-    
+
     setIsUploading(true)
     setError(null)
-    
+
     try {
-      console.log('Starting upload process...', { user: user.id, audioSize: audioBlob.size })
-      
-      // Get enhanced transcript from API
-      console.log('Getting enhanced transcript...')
-      const enhancedTranscript = await transcribeAudio(audioBlob, transcript)
-      console.log('Enhanced transcript:', enhancedTranscript)
-      
-      // Create a unique filename with user-specific path
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-      const fileExt = audioBlob.type.includes('webm') ? 'webm' : 'wav'
-      const fileName = `${user.id}/recording-${timestamp}.${fileExt}`
-      
-      console.log('Uploading to storage:', fileName)
-      
-      // Upload to Supabase Storage with user-specific path
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('audio-uploads')
-        .upload(fileName, audioBlob, {
-          contentType: audioBlob.type,
-          upsert: false
-        })
-      
-      if (uploadError) {
-        console.error('Storage upload error:', uploadError)
-        throw new Error(`Storage error: ${uploadError.message}`)
-      }
-      
-      console.log('Storage upload successful:', uploadData)
-      
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('audio-uploads')
-        .getPublicUrl(fileName)
-      
-      console.log('Generated public URL:', urlData.publicUrl)
-      
-      // Save to database with user_id and enhanced transcript
-      const { data: insertData, error: dbError } = await supabase
-        .from('uploads')
-        .insert({
-          project_id: projectId || null,
-          file_url: urlData.publicUrl,
-          kind: 'audio',
-          user_id: user.id,
-        })
-        .select()
-      
-      if (dbError) {
-        console.error('Database insert error:', dbError)
-        throw new Error(`Database error: ${dbError.message}`)
+      if (!savedOffline && !uploadSuccess) {
+        if (!navigator.onLine) {
+          await queueRecording()
+        } else {
+          console.log('Starting upload process...', { user: user.id, audioSize: audioBlob.size })
+          try {
+            await saveAudioRecording({ blob: audioBlob, userId: user.id, projectId })
+          } catch (err) {
+            if (!isNetworkError(err)) throw err
+            await queueRecording()
+          }
+        }
       }
-      
-      console.log('Database insert successful:', insertData)
-      
-      // Update the transcript with the enhanced version
-      setTranscript(enhancedTranscript)
-      
+
       setUploadSuccess(true)
-      
+
       // Only call completion if not already called (e.g., by auto-trigger)
       if (!completionCalledRef.current) {
         completionCalledRef.current = true
-        onRecordingComplete?.(audioBlob, enhancedTranscript)
+        onRecordingComplete?.(
+          audioBlob,
+          transcript,
+          live ? { estimateId: liveItems.estimateId, items: liveItems.items } : undefined,
+          recordingTranscript ?? undefined
+        )
       }
-      
+
     } catch (err) {
       console.error('Upload error details:', {
         error: err,
         message: err instanceof Error ? err.message : 'Unknown error',
         stack: err instanceof Error ? err.stack : undefined
       })
-      
-      const errorMessage = err instanceof Error 
-        ? err.message 
+
+      const errorMessage = err instanceof Error
+        ? err.message
         : 'Failed to upload recording. Please try again.'
-      
+
       setError(errorMessage)
     } finally {
       setIsUploading(false)
@@ -339,10 +420,15 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
   }
 
   const resetRecording = () => {
-    setAudioBlob(null)
+    stream.reset()
+    liveItems.reset()
     setTranscript('')
+    setInterimTranscript('')
     setElapsedTime(0)
     setUploadSuccess(false)
+    setSavedOffline(false)
+    setDiarizeState('idle')
+    setRecordingTranscript(null)
     setError(null)
     completionCalledRef.current = false
   }
@@ -366,8 +452,33 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
     )
   }
 
+  const liveTranscript = stream.transcript || transcript
+
   return (
     <div className="space-y-6">
+      {/* Resume an interrupted walkthrough */}
+      {resumable && !isRecording && !audioBlob && (
+        <Card className="border-primary/30 bg-primary/5">
+          <CardContent className="pt-6 space-y-3">
+            <div className="text-sm">
+              <span className="font-medium">Unfinished recording</span> from{' '}
+              {new Date(resumable.session.created_at).toLocaleString()} ({resumable.segments.length} segment
+              {resumable.segments.length === 1 ? '' : 's'}
+              {resumable.session.current_room ? `, last in ${resumable.session.current_room}` : ''})
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => startRecording(resumable)} disabled={permissionGranted === null}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Resume Recording
+              </Button>
+              <Button size="sm" variant="outline" onClick={discardResumable}>
+                Discard
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recording Controls */}
       <Card>
         <CardHeader>
@@ -376,7 +487,7 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
             Voice Recording
           </CardTitle>
           <CardDescription>
-            Record your project description. Speak clearly and describe your project in detail.
+            Record your project description. Walk room by room and say which room you are in.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -386,34 +497,38 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
               {formatTime(elapsedTime)}
             </div>
             <div className="text-sm text-muted-foreground">
-              {isRecording ? (isPaused ? 'Paused' : 'Recording...') : 'Ready to record'}
+              {isRecording
+                ? (isPaused ? 'Paused' : 'Recording...')
+                : isStopping
+                  ? 'Finishing transcription...'
+                  : 'Ready to record'}
             </div>
           </div>
 
           {/* Controls */}
           <div className="flex justify-center gap-4">
             {!isRecording ? (
-              <Button 
-                onClick={startRecording} 
+              <Button
+                onClick={() => startRecording()}
                 size="lg"
                 className="bg-red-500 hover:bg-red-600"
-                disabled={permissionGranted === null}
+                disabled={permissionGranted === null || isStopping}
               >
                 <Mic className="mr-2 h-4 w-4" />
                 Start Recording
               </Button>
             ) : (
               <>
-                <Button 
-                  onClick={pauseRecording} 
+                <Button
+                  onClick={pauseRecording}
                   variant="outline"
                   size="lg"
                 >
                   {isPaused ? <Play className="mr-2 h-4 w-4" /> : <Pause className="mr-2 h-4 w-4" />}
                   {isPaused ? 'Resume' : 'Pause'}
                 </Button>
-                <Button 
-                  onClick={stopRecording} 
+                <Button
+                  onClick={stopRecording}
                   variant="destructive"
                   size="lg"
                 >
@@ -424,22 +539,79 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
             )}
           </div>
 
+          {/* Upload status */}
+          {(stream.pendingCount > 0 || stream.failedCount > 0) && (
+            <div className="flex items-center justify-center gap-3 text-xs text-muted-foreground">
+              {stream.pendingCount > 0 && (
+                <span className="flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Uploading {stream.pendingCount} segment{stream.pendingCount === 1 ? '' : 's'}
+                </span>
+              )}
+              {stream.failedCount > 0 && (
+                <span className="flex items-center gap-2 text-red-600">
+                  {stream.failedCount} segment{stream.failedCount === 1 ? '' : 's'} not sent
+                  <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={stream.retryFailed}>
+                    Retry
+                  </Button>
+                </span>
+              )}
+            </div>
+          )}
+
           {/* Live Transcript */}
-          {isTranscribing && (
+          {(isRecording || isStopping) && (
             <div className="mt-4 p-4 bg-muted rounded-lg">
               <div className="text-sm font-medium text-muted-foreground mb-2">
                 Live Transcript:
               </div>
               <div className="text-sm">
-                {transcript || 'Listening...'}
+                {liveTranscript || (!interimTranscript && 'Listening...')}
+                {interimTranscript && (
+                  <span className="text-muted-foreground"> {interimTranscript}</span>
+                )}
               </div>
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Live line items, grouped by the room they were spoken about */}
+      {live && (liveItems.items.length > 0 || liveItems.isParsing || liveItems.error) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ListChecks className="h-4 w-4" />
+              Line Items
+              {liveItems.isParsing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </CardTitle>
+            <CardDescription>
+              {liveItems.currentRoom ? `Currently in: ${liveItems.currentRoom}` : 'Added to the estimate as you talk'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {itemsByRoom.map(([room, items]) => (
+              <div key={room}>
+                <div className="text-sm font-medium">{room}</div>
+                <ul className="mt-1 space-y-0.5 text-sm text-muted-foreground">
+                  {items.map((item, index) => (
+                    <li key={`${room}-${index}`}>
+                      {item.description}
+                      {item.quantity !== 1 || item.unit !== 'EA' ? ` (${item.quantity} ${item.unit})` : ''}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            {liveItems.error && (
+              <p className="text-xs text-red-600">{liveItems.error} Items will catch up with the next segment.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recording Preview */}
-      {audioBlob && (
+      {audioBlob && !isStopping && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -452,13 +624,15 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
           </CardHeader>
           <CardContent className="space-y-4">
             {/* Audio Player */}
-            <div className="flex justify-center">
-              <audio 
-                controls 
-                src={URL.createObjectURL(audioBlob)}
-                className="w-full max-w-md"
-              />
-            </div>
+            {audioUrl && (
+              <div className="flex justify-center">
+                <audio
+                  controls
+                  src={audioUrl}
+                  className="w-full max-w-md"
+                />
+              </div>
+            )}
 
             {/* Transcript */}
             {transcript && (
@@ -474,17 +648,12 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
 
             {/* Actions */}
             <div className="flex justify-center gap-4">
-              <Button 
-                onClick={uploadRecording} 
-                disabled={isUploading || isTranscribingAPI}
+              <Button
+                onClick={uploadRecording}
+                disabled={isUploading || diarizeState === 'running'}
                 className="bg-green-500 hover:bg-green-600"
               >
-                {isTranscribingAPI ? (
-                  <>
-                    <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
-                    Transcribing...
-                  </>
-                ) : isUploading ? (
+                {isUploading ? (
                   <>
                     <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
                     Uploading...
@@ -501,7 +670,11 @@ export function Recorder({ projectId, onRecordingComplete }: RecorderProps) {
               </Button>
             </div>
 
-            {uploadSuccess && (
+            {savedOffline ? (
+              <div className="text-center text-muted-foreground text-sm">
+                Recording saved on this device. It will upload when you reconnect.
+              </div>
+            ) : uploadSuccess && (
               <div className="text-center text-green-600 text-sm">
                 ✓ Recording saved successfully!
               </div>
@@ -0,0 +1,125 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Play, Users } from 'lucide-react'
+import {
+  SPEAKER_ROLE_LABELS,
+  formatTimestamp,
+  speakerName,
+  speakersOf,
+  type RecordingTranscript,
+} from '@/lib/diarized-transcript'
+import type { SpeakerRole } from '@/types/db'
+
+interface SpeakerTranscriptReviewProps {
+  recording: RecordingTranscript
+  isBuilding?: boolean
+  onBuild: (tagging: { speakerRoles: Record<string, SpeakerRole>; authoritativeSpeakers: string[] }) => void
+  onCancel?: () => void
+}
+
+/**
+ * Review a diarized walkthrough before parsing: name each speaker, choose
+ * whose statements define scope, and replay any segment.
+ */
+export function SpeakerTranscriptReview({ recording, isBuilding = false, onBuild, onCancel }: SpeakerTranscriptReviewProps) {
+  const speakers = useMemo(() => speakersOf(recording.segments), [recording.segments])
+  const [speakerRoles, setSpeakerRoles] = useState<Record<string, SpeakerRole>>(recording.speakerRoles)
+  const [authoritative, setAuthoritative] = useState<string[]>(recording.authoritativeSpeakers)
+  const audioRef = useRef<HTMLAudioElement>(null)
+
+  const toggleAuthoritative = (speaker: string) => {
+    setAuthoritative(prev => prev.includes(speaker) ? prev.filter(s => s !== speaker) : [...prev, speaker])
+  }
+
+  const playFrom = (seconds: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = seconds
+    audio.play().catch(() => {})
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Who said what
+        </CardTitle>
+        <CardDescription>
+          Only authoritative speakers become line items. Everyone else is kept as context.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {speakers.map(speaker => (
+            <div key={speaker} className="flex items-center gap-3">
+              <span className="w-20 text-sm font-medium">Speaker {speaker}</span>
+              <Select
+                value={speakerRoles[speaker] || 'other'}
+                onValueChange={value => setSpeakerRoles(prev => ({ ...prev, [speaker]: value as SpeakerRole }))}
+              >
+                <SelectTrigger className="h-8 w-36 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SPEAKER_ROLE_LABELS) as SpeakerRole[]).map(role => (
+                    <SelectItem key={role} value={role}>{SPEAKER_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`authoritative-${speaker}`}
+                  checked={authoritative.includes(speaker)}
+                  onCheckedChange={() => toggleAuthoritative(speaker)}
+                />
+                <Label htmlFor={`authoritative-${speaker}`} className="text-sm">Authoritative</Label>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <audio ref={audioRef} src={recording.fileUrl} controls className="w-full" />
+
+        <div className="max-h-64 overflow-y-auto space-y-1 rounded border p-2">
+          {recording.segments.map(segment => (
+            <button
+              key={segment.id}
+              type="button"
+              onClick={() => playFrom(segment.start)}
+              className={`flex w-full items-start gap-2 rounded px-2 py-1 text-left text-sm hover:bg-muted ${
+                authoritative.includes(segment.speaker) ? '' : 'text-muted-foreground'
+              }`}
+            >
+              <Play className="h-3 w-3 mt-1 flex-shrink-0" />
+              <span className="w-10 flex-shrink-0 text-xs tabular-nums mt-0.5">{formatTimestamp(segment.start)}</span>
+              <span className="flex-shrink-0 font-medium">{speakerName(segment.speaker, speakerRoles)}:</span>
+              <span>{segment.text}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => onBuild({ speakerRoles, authoritativeSpeakers: authoritative })}
+            disabled={isBuilding || authoritative.length === 0}
+          >
+            {isBuilding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Build estimate
+          </Button>
+          {onCancel && (
+            <Button variant="outline" onClick={onCancel} disabled={isBuilding}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Loader2, Pause, Play, Volume2 } from 'lucide-react'
+import { getRecordingTranscript } from '@/actions/recordings'
+import { formatTimestamp, speakerName, type RecordingTranscript } from '@/lib/diarized-transcript'
+
+// Line items from one walkthrough share its recording; load it once per page
+const recordingCache = new Map<string, Promise<RecordingTranscript | null>>()
+
+function loadRecording(uploadId: string): Promise<RecordingTranscript | null> {
+  let pending = recordingCache.get(uploadId)
+  if (!pending) {
+    pending = getRecordingTranscript(uploadId).then(result => {
+      if (!result.success) recordingCache.delete(uploadId)
+      return result.data ?? null
+    })
+    recordingCache.set(uploadId, pending)
+  }
+  return pending
+}
+
+interface TranscriptSnippetButtonProps {
+  uploadId: string
+  segmentIds: string[]
+  startSec: number | null
+  endSec: number | null
+}
+
+/**
+ * Replay the part of the walkthrough recording a line item was parsed from,
+ * with the cited transcript lines
+ */
+export function TranscriptSnippetButton({ uploadId, segmentIds, startSec, endSec }: TranscriptSnippetButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [recording, setRecording] = useState<RecordingTranscript | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const audioRef = useRef<HTMLAudioElement>(null)
+
+  useEffect(() => {
+    if (!open || recording) return
+    let cancelled = false
+    setIsLoading(true)
+    loadRecording(uploadId)
+      .then(data => { if (!cancelled) setRecording(data) })
+      .finally(() => { if (!cancelled) setIsLoading(false) })
+    return () => { cancelled = true }
+  }, [open, recording, uploadId])
+
+  // Closing the popover stops playback
+  useEffect(() => {
+    if (!open) {
+      audioRef.current?.pause()
+      setIsPlaying(false)
+    }
+  }, [open])
+
+  const cited = recording?.segments.filter(segment => segmentIds.includes(segment.id)) ?? []
+  const start = startSec ?? cited[0]?.start ?? 0
+  const end = endSec ?? cited[cited.length - 1]?.end ?? null
+
+  const togglePlayback = () => {
+    const audio = audioRef.current
+    if (!audio) return
+    if (isPlaying) {
+      audio.pause()
+      return
+    }
+    audio.currentTime = start
+    audio.play().catch(() => setIsPlaying(false))
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" title="Play the walkthrough audio for this item">
+          <Volume2 className="h-3 w-3 mr-1" />
+          Source
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading recording...
+          </div>
+        ) : !recording ? (
+          <p className="text-sm text-muted-foreground">Recording not available</p>
+        ) : (
+          <>
+            <audio
+              ref={audioRef}
+              src={recording.fileUrl}
+              preload="metadata"
+              onPlay={() => setIsPlaying(true)}
+              onPause={() => setIsPlaying(false)}
+              onTimeUpdate={(e) => {
+                if (end !== null && e.currentTarget.currentTime >= end) e.currentTarget.pause()
+              }}
+            />
+            <Button size="sm" variant="outline" onClick={togglePlayback}>
+              {isPlaying ? <Pause className="h-3 w-3 mr-1" /> : <Play className="h-3 w-3 mr-1" />}
+              {formatTimestamp(start)}{end !== null ? ` – ${formatTimestamp(end)}` : ''}
+            </Button>
+            <div className="space-y-1 text-sm">
+              {cited.map(segment => (
+                <p key={segment.id}>
+                  <span className="font-medium">{speakerName(segment.speaker, recording.speakerRoles)}:</span>{' '}
+                  {segment.text}
+                </p>
+              ))}
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,213 @@
+'use client'
+
+import { useState, useRef, useCallback } from 'react'
+import { updateVoiceSessionProgress, type VoiceSessionWithSegments } from '@/actions/voice-sessions'
+import { supabase } from '@/lib/supabase/client'
+import {
+  contiguousTranscriptAfter,
+  joinSegmentTranscripts,
+  transcriptTail,
+  type TranscribedSegment,
+} from '@/lib/voice-session'
+
+/** Wait for roughly a sentence before parsing, unless flushing */
+const MIN_PARSE_CHARS = 40
+
+export interface LiveLineItem {
+  room_name: string
+  description: string
+  category: string
+  cost_code: string | null
+  quantity: number
+  unit: string
+  labor_cost: number
+  margin_percent: number
+  client_price: number
+  notes?: string
+}
+
+interface UseLiveLineItemsOptions {
+  projectId: string | null
+  sessionId: string | null
+  estimateId?: string | null
+}
+
+interface UseLiveLineItemsReturn {
+  items: LiveLineItem[]
+  estimateId: string | null
+  currentRoom: string | null
+  isParsing: boolean
+  error: string | null
+  /** Feed the latest segments; parses any new contiguous transcript */
+  handleSegments: (segments: TranscribedSegment[]) => void
+  /** Parse whatever is left, however short, and wait for it */
+  flush: () => Promise<void>
+  /** Pick up where a resumed session's live parse left off */
+  restore: (resumed: VoiceSessionWithSegments) => Promise<void>
+  reset: () => void
+}
+
+function toLiveItem(item: any): LiveLineItem {
+  return {
+    room_name: item.room_name || 'General',
+    description: item.description || '',
+    category: item.category || 'Other',
+    cost_code: item.cost_code || null,
+    quantity: item.quantity ?? 1,
+    unit: item.unit || 'EA',
+    labor_cost: item.labor_cost ?? 0,
+    margin_percent: item.margin_percent ?? 0,
+    client_price: item.client_price ?? 0,
+    notes: item.notes || undefined,
+  }
+}
+
+/**
+ * Incremental line item extraction for a live walkthrough.
+ *
+ * Each new run of transcribed segments is sent to /api/ai/parse in
+ * incremental mode with the room the previous segment ended in, so items
+ * land in the room being described even when the room was named several
+ * segments earlier. Parses run one at a time; text that arrives meanwhile
+ * is picked up by the next one. Progress is saved on the voice session.
+ */
+export function useLiveLineItems({ projectId, sessionId, estimateId: initialEstimateId = null }: UseLiveLineItemsOptions): UseLiveLineItemsReturn {
+  const [items, setItems] = useState<LiveLineItem[]>([])
+  const [estimateId, setEstimateId] = useState<string | null>(initialEstimateId)
+  const [currentRoom, setCurrentRoom] = useState<string | null>(null)
+  const [isParsing, setIsParsing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const estimateIdRef = useRef<string | null>(initialEstimateId)
+  const currentRoomRef = useRef<string | null>(null)
+  const parsedThroughRef = useRef(-1)
+  const latestSegmentsRef = useRef<TranscribedSegment[]>([])
+  const runningRef = useRef<Promise<void> | null>(null)
+  const sessionIdRef = useRef(sessionId)
+  sessionIdRef.current = sessionId
+
+  const parseNext = useCallback(async (force: boolean): Promise<boolean> => {
+    const segments = latestSegmentsRef.current
+    const { throughSeq, text } = contiguousTranscriptAfter(segments, parsedThroughRef.current)
+    if (throughSeq <= parsedThroughRef.current) return false
+    if (!force && text.length < MIN_PARSE_CHARS) return false
+
+    if (text && projectId) {
+      const previousTranscript = transcriptTail(joinSegmentTranscripts(
+        segments.filter(segment => segment.seq <= parsedThroughRef.current)
+      ))
+
+      const response = await fetch('/api/ai/parse', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId,
+          estimateId: estimateIdRef.current,
+          transcript: text,
+          incremental: true,
+          currentRoom: currentRoomRef.current,
+          previousTranscript,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Parse failed: ${response.status}`)
+      }
+
+      const result = await response.json()
+      const newItems = (result.data?.items || []).map(toLiveItem)
+      setItems(prev => [...prev, ...newItems])
+      estimateIdRef.current = result.estimateId ?? estimateIdRef.current
+      currentRoomRef.current = result.currentRoom ?? currentRoomRef.current
+      setEstimateId(estimateIdRef.current)
+      setCurrentRoom(currentRoomRef.current)
+    }
+
+    parsedThroughRef.current = throughSeq
+
+    if (sessionIdRef.current) {
+      await updateVoiceSessionProgress(sessionIdRef.current, {
+        estimateId: estimateIdRef.current,
+        currentRoom: currentRoomRef.current,
+        parsedThroughSeq: throughSeq,
+      })
+    }
+    return true
+  }, [projectId])
+
+  const run = useCallback((force: boolean): Promise<void> => {
+    if (runningRef.current) {
+      // Chain so a flush still covers text that arrives mid-parse
+      return runningRef.current.then(() => run(force))
+    }
+
+    runningRef.current = (async () => {
+      setIsParsing(true)
+      try {
+        while (await parseNext(force)) {
+          setError(null)
+        }
+      } catch (err) {
+        console.error('[Live Line Items] Parse error:', err)
+        setError(err instanceof Error ? err.message : 'Failed to extract line items')
+      } finally {
+        runningRef.current = null
+        setIsParsing(false)
+      }
+    })()
+
+    return runningRef.current
+  }, [parseNext])
+
+  const handleSegments = useCallback((segments: TranscribedSegment[]) => {
+    latestSegmentsRef.current = segments
+    if (!runningRef.current) run(false)
+  }, [run])
+
+  const flush = useCallback(async () => {
+    await run(true)
+  }, [run])
+
+  const restore = useCallback(async ({ session, segments }: VoiceSessionWithSegments) => {
+    parsedThroughRef.current = session.parsed_through_seq
+    currentRoomRef.current = session.current_room
+    estimateIdRef.current = session.estimate_id ?? estimateIdRef.current
+    latestSegmentsRef.current = segments.map(s => ({ seq: s.seq, transcript: s.transcript ?? '' }))
+    setCurrentRoom(session.current_room)
+    setEstimateId(estimateIdRef.current)
+
+    if (session.estimate_id) {
+      const { data } = await supabase
+        .from('estimate_line_items')
+        .select('room_name, description, category, cost_code, quantity, unit, labor_cost, margin_percent, client_price')
+        .eq('estimate_id', session.estimate_id)
+        .gte('created_at', session.created_at)
+        .order('created_at', { ascending: true })
+      setItems((data || []).map(toLiveItem))
+    }
+  }, [])
+
+  const reset = useCallback(() => {
+    parsedThroughRef.current = -1
+    currentRoomRef.current = null
+    latestSegmentsRef.current = []
+    estimateIdRef.current = initialEstimateId
+    setItems([])
+    setCurrentRoom(null)
+    setEstimateId(initialEstimateId)
+    setError(null)
+  }, [initialEstimateId])
+
+  return {
+    items,
+    estimateId,
+    currentRoom,
+    isParsing,
+    error,
+    handleSegments,
+    flush,
+    restore,
+    reset,
+  }
+}
@@ -0,0 +1,160 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { cancelPlanParse, retryPlanParseSheets } from '@/actions/plans'
+import {
+  planParseToResponse,
+  readPlanParseProgress,
+  readPlanParseSheets,
+  type ParseResponse,
+  type PlanParseProgress,
+  type PlanParseSheet,
+} from '@/lib/plans/schemas'
+import type { PlanParseStatus } from '@/types/db'
+
+/** Give the server's own run a head start before resuming from the client */
+const RESUME_QUEUED_AFTER_MS = 5_000
+/** Matches the worker's stale heartbeat window */
+const RESUME_STALE_AFTER_MS = 3 * 60_000
+
+const JOB_COLUMNS =
+  'id, status, progress, sheets, parse_result_json, pages_of_interest, processing_time_ms, error_message, heartbeat_at, base_plan_parse_id'
+
+export interface PlanParseJob {
+  id: string
+  status: PlanParseStatus
+  progress: PlanParseProgress
+  sheets: PlanParseSheet[]
+  errorMessage: string | null
+  heartbeatAt: string | null
+  /** Applied parse this job is a revision of */
+  basePlanParseId: string | null
+}
+
+interface UsePlanParseJobReturn {
+  job: PlanParseJob | null
+  /** Review payload once the job has finished (parsed or failed) */
+  result: ParseResponse | null
+  isRunning: boolean
+  cancel: () => Promise<void>
+  retrySheets: (sheetIds?: string[]) => Promise<void>
+}
+
+type JobRow = {
+  id: string
+  status: PlanParseStatus
+  progress: unknown
+  sheets: unknown
+  parse_result_json: unknown
+  pages_of_interest: unknown
+  processing_time_ms: number | null
+  error_message: string | null
+  heartbeat_at: string | null
+  base_plan_parse_id?: string | null
+}
+
+/**
+ * Follow a queued plan parse job: live progress over Supabase realtime, and
+ * a worker run from the client when the job sits queued (yielded, retried)
+ * or its worker stopped reporting. The cron driver advances jobs without
+ * the drawer open; these runs only pick a job up sooner.
+ */
+export function usePlanParseJob(planParseId: string | null): UsePlanParseJobReturn {
+  const [row, setRow] = useState<JobRow | null>(null)
+  const runInFlightRef = useRef(false)
+
+  useEffect(() => {
+    setRow(null)
+    if (!planParseId) return
+
+    let cancelled = false
+    supabase
+      .from('plan_parses')
+      .select(JOB_COLUMNS)
+      .eq('id', planParseId)
+      .single()
+      .then(({ data }) => {
+        if (!cancelled && data) setRow(data as JobRow)
+      })
+
+    const channel = supabase
+      .channel(`plan_parses:${planParseId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'plan_parses',
+          filter: `id=eq.${planParseId}`,
+        },
+        (payload) => setRow(payload.new as JobRow)
+      )
+      .subscribe()
+
+    return () => {
+      cancelled = true
+      supabase.removeChannel(channel)
+    }
+  }, [planParseId])
+
+  const runJob = useCallback(async (id: string) => {
+    if (runInFlightRef.current) return
+    runInFlightRef.current = true
+    try {
+      await fetch(`/api/plans/parse/${id}/run`, { method: 'POST' })
+    } catch (error) {
+      console.warn('[PlanParseJob] Resume request failed:', error)
+    } finally {
+      runInFlightRef.current = false
+    }
+  }, [])
+
+  // Resume a job no server run is advancing
+  const status = row?.status
+  const heartbeatAt = row?.heartbeat_at
+  useEffect(() => {
+    if (!planParseId || (status !== 'queued' && status !== 'processing')) return
+
+    const delay = status === 'queued'
+      ? RESUME_QUEUED_AFTER_MS
+      : Math.max(0, new Date(heartbeatAt || 0).getTime() + RESUME_STALE_AFTER_MS - Date.now())
+    const timer = setTimeout(() => runJob(planParseId), delay)
+    return () => clearTimeout(timer)
+  }, [planParseId, status, heartbeatAt, runJob])
+
+  const job = useMemo<PlanParseJob | null>(() => row && {
+    id: row.id,
+    status: row.status,
+    progress: readPlanParseProgress(row.progress),
+    sheets: readPlanParseSheets(row.sheets),
+    errorMessage: row.error_message,
+    heartbeatAt: row.heartbeat_at,
+    basePlanParseId: row.base_plan_parse_id ?? null,
+  }, [row])
+
+  const result = useMemo(() => {
+    if (!row || (row.status !== 'parsed' && row.status !== 'failed')) return null
+    return planParseToResponse(row)
+  }, [row])
+
+  const cancel = useCallback(async () => {
+    if (!planParseId) return
+    const response = await cancelPlanParse(planParseId)
+    if (!response.success) throw new Error(response.error || 'Failed to cancel parse')
+  }, [planParseId])
+
+  const retrySheets = useCallback(async (sheetIds?: string[]) => {
+    if (!planParseId) return
+    const response = await retryPlanParseSheets(planParseId, sheetIds)
+    if (!response.success) throw new Error(response.error || 'Failed to retry sheets')
+  }, [planParseId])
+
+  return {
+    job,
+    result,
+    isRunning: status === 'queued' || status === 'processing',
+    cancel,
+    retrySheets,
+  }
+}
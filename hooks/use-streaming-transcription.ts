@@ -0,0 +1,402 @@
+'use client'
+
+import { useState, useRef, useCallback, useEffect } from 'react'
+import { startVoiceSession, type VoiceSessionWithSegments } from '@/actions/voice-sessions'
+import {
+  VOICE_SEGMENT_MS,
+  audioExtension,
+  joinSegmentTranscripts,
+  transcriptTail,
+  type TranscribedSegment,
+} from '@/lib/voice-session'
+
+/** Upload attempts per segment before it is parked as failed */
+const MAX_UPLOAD_ATTEMPTS = 3
+const RETRY_DELAY_MS = 1500
+
+const SUPPORTED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/wav']
+
+interface PendingSegment {
+  seq: number
+  blob: Blob
+  durationMs: number
+  clientTranscript: string
+  attempts: number
+}
+
+interface UseStreamingTranscriptionOptions {
+  /**
+   * Store segments in a voice session so the recording can be resumed and
+   * its audio is kept. Without it segments are transcribed and discarded.
+   */
+  persist?: boolean
+  projectId?: string | null
+  segmentMs?: number
+  /** Client-side transcript since the last call, sent as a per-segment fallback */
+  takeClientTranscript?: () => string
+  /** Called for every segment as its transcript arrives (in upload order) */
+  onSegmentTranscribed?: (segment: TranscribedSegment, segments: TranscribedSegment[]) => void
+}
+
+interface UseStreamingTranscriptionReturn {
+  isRecording: boolean
+  isPaused: boolean
+  /** Recording stopped; remaining segments are still uploading */
+  isFinishing: boolean
+  sessionId: string | null
+  segments: TranscribedSegment[]
+  transcript: string
+  pendingCount: number
+  failedCount: number
+  error: string | null
+  /** Continuous local copy of the whole take, for playback and saving */
+  recording: Blob | null
+  start: (resume?: VoiceSessionWithSegments) => Promise<void>
+  stop: () => Promise<string>
+  pause: () => void
+  resume: () => void
+  retryFailed: () => void
+  reset: () => void
+}
+
+function pickMimeType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined
+  return SUPPORTED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Segmented recording with incremental transcription.
+ *
+ * The microphone stream is recorded in back-to-back segments (a fresh
+ * MediaRecorder per segment, so each one is a complete file). Finished
+ * segments go through a serial upload queue to /api/transcribe/segments
+ * with retries; a segment that keeps failing is parked and retried after
+ * the next successful upload, when the browser comes back online, or via
+ * retryFailed(). A second recorder keeps the whole take locally.
+ */
+export function useStreamingTranscription(
+  options: UseStreamingTranscriptionOptions = {}
+): UseStreamingTranscriptionReturn {
+  const { persist = false, projectId = null, segmentMs = VOICE_SEGMENT_MS } = options
+
+  const [isRecording, setIsRecording] = useState(false)
+  const [isPaused, setIsPaused] = useState(false)
+  const [isFinishing, setIsFinishing] = useState(false)
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [segments, setSegments] = useState<TranscribedSegment[]>([])
+  const [pendingCount, setPendingCount] = useState(0)
+  const [failedCount, setFailedCount] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [recording, setRecording] = useState<Blob | null>(null)
+
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const streamRef = useRef<MediaStream | null>(null)
+  const mimeTypeRef = useRef<string | undefined>(undefined)
+  const segmentRecorderRef = useRef<MediaRecorder | null>(null)
+  const segmentTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const segmentStoppedRef = useRef<Promise<void> | null>(null)
+  const fullRecorderRef = useRef<MediaRecorder | null>(null)
+  const fullChunksRef = useRef<Blob[]>([])
+  const activeRef = useRef(false)
+  const nextSeqRef = useRef(0)
+  const sessionIdRef = useRef<string | null>(null)
+  const segmentsRef = useRef<TranscribedSegment[]>([])
+  const queueRef = useRef<PendingSegment[]>([])
+  const failedRef = useRef<PendingSegment[]>([])
+  const drainingRef = useRef<Promise<void> | null>(null)
+
+  const syncCounts = useCallback(() => {
+    setPendingCount(queueRef.current.length)
+    setFailedCount(failedRef.current.length)
+  }, [])
+
+  const recordSegment = useCallback((segment: TranscribedSegment) => {
+    segmentsRef.current = [...segmentsRef.current.filter(s => s.seq !== segment.seq), segment]
+      .sort((a, b) => a.seq - b.seq)
+    setSegments(segmentsRef.current)
+    optionsRef.current.onSegmentTranscribed?.(segment, segmentsRef.current)
+  }, [])
+
+  const uploadSegment = useCallback(async (pending: PendingSegment) => {
+    const formData = new FormData()
+    const ext = audioExtension(pending.blob.type)
+    formData.append('audio', new File([pending.blob], `segment-${pending.seq}.${ext}`, { type: pending.blob.type }))
+    formData.append('seq', String(pending.seq))
+    formData.append('durationMs', String(pending.durationMs))
+    if (pending.clientTranscript) formData.append('transcript', pending.clientTranscript)
+    if (sessionIdRef.current) {
+      formData.append('sessionId', sessionIdRef.current)
+    } else {
+      const earlier = segmentsRef.current.filter(s => s.seq < pending.seq)
+      formData.append('previousText', transcriptTail(joinSegmentTranscripts(earlier)))
+    }
+
+    const response = await fetch('/api/transcribe/segments', { method: 'POST', body: formData })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || `Transcription failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+    return (data.transcript || '') as string
+  }, [])
+
+  const drainQueue = useCallback((): Promise<void> => {
+    if (drainingRef.current) return drainingRef.current
+
+    drainingRef.current = (async () => {
+      try {
+        while (queueRef.current.length > 0) {
+          const pending = queueRef.current[0]
+          try {
+            const transcript = await uploadSegment(pending)
+            queueRef.current.shift()
+            recordSegment({ seq: pending.seq, transcript })
+
+            // Connection is back; give parked segments another go
+            if (failedRef.current.length > 0) {
+              queueRef.current.push(...failedRef.current.map(f => ({ ...f, attempts: 0 })))
+              failedRef.current = []
+            }
+          } catch (err) {
+            pending.attempts++
+            console.warn('[Streaming Transcription] Segment upload failed', { seq: pending.seq, attempts: pending.attempts, err })
+            if (pending.attempts >= MAX_UPLOAD_ATTEMPTS) {
+              queueRef.current.shift()
+              failedRef.current.push(pending)
+              setError(err instanceof Error ? err.message : 'Segment upload failed')
+            } else {
+              await sleep(RETRY_DELAY_MS * pending.attempts)
+            }
+          }
+          syncCounts()
+        }
+      } finally {
+        drainingRef.current = null
+        syncCounts()
+      }
+    })()
+
+    return drainingRef.current
+  }, [uploadSegment, recordSegment, syncCounts])
+
+  const retryFailed = useCallback(() => {
+    if (failedRef.current.length === 0) return
+    queueRef.current.push(...failedRef.current.map(f => ({ ...f, attempts: 0 })))
+    failedRef.current = []
+    setError(null)
+    syncCounts()
+    drainQueue()
+  }, [drainQueue, syncCounts])
+
+  useEffect(() => {
+    window.addEventListener('online', retryFailed)
+    return () => window.removeEventListener('online', retryFailed)
+  }, [retryFailed])
+
+  /**
+   * Record one segment; when it ends, queue it and start the next while the
+   * session is still active
+   */
+  const startSegment = useCallback(() => {
+    const stream = streamRef.current
+    if (!stream) return
+
+    const mimeType = mimeTypeRef.current
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    const chunks: Blob[] = []
+    const seq = nextSeqRef.current++
+    const startedAt = Date.now()
+
+    segmentStoppedRef.current = new Promise<void>((resolve) => {
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data)
+      }
+      recorder.onstop = () => {
+        if (segmentTimerRef.current) {
+          clearTimeout(segmentTimerRef.current)
+          segmentTimerRef.current = null
+        }
+
+        const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' })
+        const clientTranscript = optionsRef.current.takeClientTranscript?.() ?? ''
+        if (blob.size > 0) {
+          queueRef.current.push({ seq, blob, durationMs: Date.now() - startedAt, clientTranscript, attempts: 0 })
+          syncCounts()
+          drainQueue()
+        } else {
+          // Keep seq contiguous so later segments are not held back
+          recordSegment({ seq, transcript: '' })
+        }
+
+        if (activeRef.current) startSegment()
+        resolve()
+      }
+    })
+
+    recorder.start()
+    segmentRecorderRef.current = recorder
+    segmentTimerRef.current = setTimeout(() => {
+      if (recorder.state !== 'inactive') recorder.stop()
+    }, segmentMs)
+  }, [segmentMs, drainQueue, recordSegment, syncCounts])
+
+  const start = useCallback(async (resumeFrom?: VoiceSessionWithSegments) => {
+    setError(null)
+    try {
+      if (typeof window === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+        throw new Error('Your browser does not support microphone access. Please use a modern browser.')
+      }
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, sampleRate: 44100 },
+      })
+      streamRef.current = stream
+      mimeTypeRef.current = pickMimeType()
+
+      if (resumeFrom) {
+        // Segments stored without a transcript have no local audio left to
+        // retry; count them as silent so the transcript can move past them
+        segmentsRef.current = resumeFrom.segments.map(s => ({ seq: s.seq, transcript: s.transcript ?? '' }))
+        nextSeqRef.current = resumeFrom.segments.reduce((max, s) => Math.max(max, s.seq + 1), 0)
+        sessionIdRef.current = resumeFrom.session.id
+      } else {
+        segmentsRef.current = []
+        nextSeqRef.current = 0
+        sessionIdRef.current = null
+        if (persist) {
+          const result = await startVoiceSession({ projectId, mimeType: mimeTypeRef.current ?? null })
+          if (!result.success || !result.session) {
+            stream.getTracks().forEach(track => track.stop())
+            throw new Error(result.error || 'Failed to start voice session')
+          }
+          sessionIdRef.current = result.session.id
+        }
+      }
+      setSessionId(sessionIdRef.current)
+      setSegments(segmentsRef.current)
+      queueRef.current = []
+      failedRef.current = []
+      syncCounts()
+
+      const mimeType = mimeTypeRef.current
+      const fullRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+      fullChunksRef.current = []
+      fullRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) fullChunksRef.current.push(event.data)
+      }
+      fullRecorder.start(1000)
+      fullRecorderRef.current = fullRecorder
+
+      activeRef.current = true
+      setRecording(null)
+      setIsPaused(false)
+      setIsRecording(true)
+      startSegment()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to start recording. Please check your microphone permissions.'
+      console.error('[Streaming Transcription] Failed to start recording:', err)
+      setError(message)
+      throw new Error(message)
+    }
+  }, [persist, projectId, startSegment, syncCounts])
+
+  const pause = useCallback(() => {
+    if (!activeRef.current) return
+    // Pausing closes the current segment; resume starts a new one
+    activeRef.current = false
+    if (segmentRecorderRef.current?.state === 'recording') segmentRecorderRef.current.stop()
+    if (fullRecorderRef.current?.state === 'recording') fullRecorderRef.current.pause()
+    setIsPaused(true)
+  }, [])
+
+  const resume = useCallback(() => {
+    if (activeRef.current || !streamRef.current) return
+    activeRef.current = true
+    if (fullRecorderRef.current?.state === 'paused') fullRecorderRef.current.resume()
+    setIsPaused(false)
+    startSegment()
+  }, [startSegment])
+
+  const stop = useCallback(async (): Promise<string> => {
+    if (!streamRef.current) return joinSegmentTranscripts(segmentsRef.current)
+
+    activeRef.current = false
+    setIsRecording(false)
+    setIsPaused(false)
+    setIsFinishing(true)
+
+    try {
+      const segmentRecorder = segmentRecorderRef.current
+      if (segmentRecorder && segmentRecorder.state !== 'inactive') segmentRecorder.stop()
+      await segmentStoppedRef.current
+
+      const fullRecorder = fullRecorderRef.current
+      if (fullRecorder && fullRecorder.state !== 'inactive') {
+        await new Promise<void>((resolve) => {
+          fullRecorder.addEventListener('stop', () => resolve(), { once: true })
+          fullRecorder.stop()
+        })
+      }
+      setRecording(new Blob(fullChunksRef.current, { type: fullRecorder?.mimeType || mimeTypeRef.current || 'audio/webm' }))
+
+      streamRef.current.getTracks().forEach(track => track.stop())
+      streamRef.current = null
+
+      await drainQueue()
+      if (failedRef.current.length > 0) {
+        setError(`${failedRef.current.length} segment(s) could not be transcribed. Check your connection and retry.`)
+      }
+      return joinSegmentTranscripts(segmentsRef.current)
+    } finally {
+      setIsFinishing(false)
+    }
+  }, [drainQueue])
+
+  const reset = useCallback(() => {
+    segmentsRef.current = []
+    queueRef.current = []
+    failedRef.current = []
+    sessionIdRef.current = null
+    nextSeqRef.current = 0
+    setSegments([])
+    setSessionId(null)
+    setRecording(null)
+    setError(null)
+    syncCounts()
+  }, [syncCounts])
+
+  // Release the microphone on unmount; queued uploads finish on their own
+  useEffect(() => {
+    return () => {
+      activeRef.current = false
+      if (segmentTimerRef.current) clearTimeout(segmentTimerRef.current)
+      if (segmentRecorderRef.current && segmentRecorderRef.current.state !== 'inactive') segmentRecorderRef.current.stop()
+      if (fullRecorderRef.current && fullRecorderRef.current.state !== 'inactive') fullRecorderRef.current.stop()
+      streamRef.current?.getTracks().forEach(track => track.stop())
+    }
+  }, [])
+
+  return {
+    isRecording,
+    isPaused,
+    isFinishing,
+    sessionId,
+    segments,
+    transcript: joinSegmentTranscripts(segments),
+    pendingCount,
+    failedCount,
+    error,
+    recording,
+    start,
+    stop,
+    pause,
+    resume,
+    retryFailed,
+    reset,
+  }
+}
@@ -145,9 +145,10 @@ export interface CommitOptions {
    * - 'bid_final': User finalized their bid (first truth moment)
    * - 'contract_signed': Contract accepted (strongest truth signal)
    * - 'proposal_created': Proposal generated (weaker signal, optional)
+   * - 'change_order_approved': Client approved a change order (same strength as contract_signed)
    * - 'completed': Job finished (no pricing events, just for completeness)
    */
-  stage: 'proposal_created' | 'bid_final' | 'contract_signed' | 'completed'
+  stage: 'proposal_created' | 'bid_final' | 'contract_signed' | 'change_order_approved' | 'completed'
   /**
    * Whether to save prices to user_cost_library.
    * Should be TRUE for bid_final and contract_signed (truth states).
@@ -166,6 +167,8 @@ export interface CommitOptions {
  * - bid_final: Finalize Bid button clicked → log events + save to library
  * - contract_signed: Contract generated/signed → log events + save to library
  * - proposal_created: Proposal generated → log events (weaker signal)
+ * - change_order_approved: Change order approved → log events + save to library
+ *   (only for added/modified items)
  * 
  * NOT called during:
  * - Typing in price fields
@@ -0,0 +1,181 @@
+/**
+ * Fixture replay provider
+ *
+ * Deterministic stand-in for a real model. Every request is hashed
+ * (SHA-256 over its normalized content) and answered from a JSON fixture
+ * file under the fixtures directory:
+ *
+ *   <dir>/chat/<hash>.json            { request, response }
+ *   <dir>/embeddings/<hash>.json      { input, embedding }
+ *   <dir>/transcriptions/<hash>.json  { filename, response }
+ *
+ * With an upstream provider (AI_PROVIDER=record) missing fixtures are
+ * fetched from upstream and written, so a pipeline run once against a real
+ * model can afterwards be replayed offline - in tests, or on-prem where no
+ * data may leave the network. Without one, a missing fixture is an error
+ * naming the hash so it is obvious which request changed.
+ */
+
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import {
+  AIProviderError,
+  type ChatMessage,
+  type ChatRequest,
+  type ChatResponse,
+  type LLMProvider,
+  type TranscriptionRequest,
+  type TranscriptionResponse,
+} from './types'
+
+type FixtureKind = 'chat' | 'embeddings' | 'transcriptions'
+
+/**
+ * JSON.stringify with sorted object keys so equivalent requests hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Fixture-friendly copy of the messages: inline images are replaced by
+ * their hash so fixture files stay readable
+ */
+function summarizeMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(message => {
+    if (typeof message.content === 'string') return message
+    return {
+      ...message,
+      content: message.content.map(part =>
+        part.type === 'image_url' && part.image_url.url.startsWith('data:')
+          ? { ...part, image_url: { ...part.image_url, url: `data:sha256,${sha256(part.image_url.url)}` } }
+          : part
+      ),
+    }
+  })
+}
+
+export class FixtureProvider implements LLMProvider {
+  readonly name: string
+
+  constructor(private dir: string, private upstream?: LLMProvider) {
+    this.name = upstream ? `record(${upstream.name})` : 'fixture'
+  }
+
+  /** Hash identifying a chat request's fixture */
+  static chatKey(request: ChatRequest): string {
+    return sha256(stableStringify({
+      model: request.model ?? 'fast',
+      messages: request.messages,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      responseFormat: request.responseFormat,
+    }))
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const key = FixtureProvider.chatKey(request)
+    const fixture = await this.read<{ response: ChatResponse }>('chat', key)
+    if (fixture) return fixture.response
+
+    const upstream = this.requireUpstream('chat', key)
+    const response = await upstream.chat(request)
+    await this.write('chat', key, {
+      request: {
+        model: request.model ?? 'fast',
+        messages: summarizeMessages(request.messages),
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        responseFormat: request.responseFormat,
+      },
+      response,
+    })
+    return response
+  }
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    const keys = inputs.map(input => sha256(input))
+    const cached = await Promise.all(keys.map(key => this.read<{ embedding: number[] }>('embeddings', key)))
+
+    const missing = inputs.filter((_, idx) => !cached[idx])
+    if (missing.length === 0) {
+      return cached.map(fixture => fixture!.embedding)
+    }
+
+    const upstream = this.requireUpstream('embeddings', keys[cached.findIndex(fixture => !fixture)])
+    const fetched = await upstream.embed(missing)
+    let next = 0
+
+    return Promise.all(inputs.map(async (input, idx) => {
+      if (cached[idx]) return cached[idx]!.embedding
+      const embedding = fetched[next++]
+      await this.write('embeddings', keys[idx], { input, embedding })
+      return embedding
+    }))
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+    const audio = Buffer.from(await request.audio.arrayBuffer())
+    const key = sha256(Buffer.concat([
+      audio,
+      // undefined keys are dropped, so plain transcription fixtures keep their keys
+      Buffer.from(stableStringify({ language: request.language, prompt: request.prompt, diarize: request.diarize || undefined })),
+    ]))
+
+    const fixture = await this.read<{ response: TranscriptionResponse }>('transcriptions', key)
+    if (fixture) return fixture.response
+
+    const upstream = this.requireUpstream('transcriptions', key)
+    const response = await upstream.transcribe(request)
+    await this.write('transcriptions', key, { filename: request.filename, response })
+    return response
+  }
+
+  private fixturePath(kind: FixtureKind, key: string): string {
+    return path.join(this.dir, kind, `${key}.json`)
+  }
+
+  private async read<T>(kind: FixtureKind, key: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(this.fixturePath(kind, key), 'utf8')) as T
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw new AIProviderError(
+        `Unreadable AI fixture ${this.fixturePath(kind, key)}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      )
+    }
+  }
+
+  private async write(kind: FixtureKind, key: string, data: unknown): Promise<void> {
+    const file = this.fixturePath(kind, key)
+    await mkdir(path.dirname(file), { recursive: true })
+    await writeFile(file, `${JSON.stringify(data, null, 2)}\n`, 'utf8')
+    console.log(`[AI] Recorded ${kind} fixture ${key}`)
+  }
+
+  private requireUpstream(kind: FixtureKind, key: string): LLMProvider {
+    if (!this.upstream) {
+      throw new AIProviderError(
+        `No AI fixture for ${kind} request ${key} in ${this.dir}. Record it with AI_PROVIDER=record.`,
+        this.name,
+        404
+      )
+    }
+    return this.upstream
+  }
+}
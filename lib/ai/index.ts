@@ -0,0 +1,131 @@
+/**
+ * LLM Provider Layer
+ *
+ * Single entry point for every AI call (chat, vision, embeddings,
+ * transcription). Server-only. The backend is chosen by environment:
+ *
+ *   AI_PROVIDER        openai (default) | fixture | record
+ *   AI_BASE_URL        OpenAI-compatible endpoint (default https://api.openai.com/v1)
+ *   AI_API_KEY         API key (falls back to OPENAI_API_KEY)
+ *   AI_MODEL_FAST      model for the "fast" tier (default gpt-4o-mini)
+ *   AI_MODEL_SMART     model for the "smart"/vision tier (default gpt-4o)
+ *   AI_EMBEDDING_MODEL default text-embedding-3-small (must return 1536 dimensions)
+ *   AI_TRANSCRIPTION_MODEL default whisper-1
+ *   AI_DIARIZATION_MODEL   speaker-labelled transcription (default gpt-4o-transcribe-diarize)
+ *   AI_TIMEOUT_MS      per-request timeout (default 60000)
+ *   AI_FIXTURES_DIR    fixture directory for fixture/record (default tests/fixtures/ai)
+ *
+ * "fixture" replays recorded responses and never touches the network;
+ * "record" replays when it can and records from the OpenAI-compatible
+ * backend when it can't.
+ */
+
+import path from 'path'
+import type { z } from 'zod'
+import { FixtureProvider } from './fixture'
+import { parseModelJson } from './json'
+import { OpenAIProvider } from './openai'
+import type { ChatRequest, LLMProvider, ResponseFormat } from './types'
+
+export * from './types'
+export { parseModelJson } from './json'
+
+type ProviderMode = 'openai' | 'fixture' | 'record'
+
+let cachedProvider: { signature: string; provider: LLMProvider } | null = null
+
+function providerMode(): ProviderMode {
+  const mode = (process.env.AI_PROVIDER || 'openai').toLowerCase()
+  if (mode === 'fixture' || mode === 'record' || mode === 'openai') return mode
+  throw new Error(`Unknown AI_PROVIDER "${process.env.AI_PROVIDER}" (expected openai, fixture or record)`)
+}
+
+function apiKey(): string | undefined {
+  return process.env.AI_API_KEY || process.env.OPENAI_API_KEY || undefined
+}
+
+function createOpenAIProvider(): OpenAIProvider {
+  return new OpenAIProvider({
+    apiKey: apiKey(),
+    baseUrl: (process.env.AI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    models: {
+      fast: process.env.AI_MODEL_FAST || 'gpt-4o-mini',
+      smart: process.env.AI_MODEL_SMART || 'gpt-4o',
+    },
+    embeddingModel: process.env.AI_EMBEDDING_MODEL || 'text-embedding-3-small',
+    transcriptionModel: process.env.AI_TRANSCRIPTION_MODEL || 'whisper-1',
+    diarizationModel: process.env.AI_DIARIZATION_MODEL || 'gpt-4o-transcribe-diarize',
+    timeoutMs: Number(process.env.AI_TIMEOUT_MS) || undefined,
+  })
+}
+
+/**
+ * Whether AI calls can be made with the current configuration. Routes check
+ * this up front and answer 503 instead of failing mid-pipeline.
+ */
+export function isLLMConfigured(): boolean {
+  const mode = providerMode()
+  if (mode === 'fixture') return true
+  // Self-hosted endpoints often need no key
+  return Boolean(apiKey() || process.env.AI_BASE_URL)
+}
+
+/**
+ * The configured provider (cached until the configuration changes)
+ */
+export function getLLMProvider(): LLMProvider {
+  const mode = providerMode()
+  const fixturesDir = path.resolve(process.env.AI_FIXTURES_DIR || path.join(process.cwd(), 'tests', 'fixtures', 'ai'))
+  const signature = [mode, fixturesDir, process.env.AI_BASE_URL, apiKey()].join('|')
+
+  if (cachedProvider?.signature === signature) {
+    return cachedProvider.provider
+  }
+
+  const provider = mode === 'fixture'
+    ? new FixtureProvider(fixturesDir)
+    : mode === 'record'
+      ? new FixtureProvider(fixturesDir, createOpenAIProvider())
+      : createOpenAIProvider()
+
+  cachedProvider = { signature, provider }
+  return provider
+}
+
+/**
+ * Chat completion that returns parsed JSON, validated by `schema` when given.
+ * Defaults to json_object response format.
+ */
+export async function chatJson<T = any>(
+  provider: LLMProvider,
+  request: Omit<ChatRequest, 'responseFormat'> & {
+    responseFormat?: Exclude<ResponseFormat, { type: 'text' }>
+    schema?: z.ZodType<T>
+  }
+): Promise<T> {
+  const { schema, ...chatRequest } = request
+  const response = await provider.chat({
+    ...chatRequest,
+    responseFormat: chatRequest.responseFormat ?? { type: 'json_object' },
+  })
+
+  const parsed = parseModelJson(response.content)
+  return schema ? schema.parse(parsed) : (parsed as T)
+}
+
+/**
+ * Wrap a provider to report the concrete model behind every chat response,
+ * e.g. to record which model produced a stored result
+ */
+export function observeChatModels(provider: LLMProvider, onModel: (model: string) => void): LLMProvider {
+  return {
+    name: provider.name,
+    async chat(request) {
+      const response = await provider.chat(request)
+      onModel(response.model)
+      return response
+    },
+    embed: inputs => provider.embed(inputs),
+    transcribe: request => provider.transcribe(request),
+  }
+}
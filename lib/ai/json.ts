@@ -0,0 +1,45 @@
+/**
+ * JSON extraction for model output
+ *
+ * Models asked for JSON occasionally wrap it in markdown fences or add a
+ * sentence around it. parseModelJson tries the raw content first, then a
+ * fenced block, then the outermost {...} or [...] span.
+ */
+
+export function parseModelJson<T = unknown>(content: string): T {
+  const trimmed = content.trim()
+
+  try {
+    return JSON.parse(trimmed) as T
+  } catch {
+    // fall through to extraction
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  if (fenced) {
+    try {
+      return JSON.parse(fenced[1].trim()) as T
+    } catch {
+      // fall through
+    }
+  }
+
+  const objectStart = trimmed.indexOf('{')
+  const arrayStart = trimmed.indexOf('[')
+  const start = objectStart === -1
+    ? arrayStart
+    : arrayStart === -1 ? objectStart : Math.min(objectStart, arrayStart)
+
+  if (start !== -1) {
+    const end = trimmed.lastIndexOf(trimmed[start] === '{' ? '}' : ']')
+    if (end > start) {
+      try {
+        return JSON.parse(trimmed.slice(start, end + 1)) as T
+      } catch {
+        // fall through
+      }
+    }
+  }
+
+  throw new SyntaxError(`Invalid JSON response from AI. Raw content: ${trimmed.substring(0, 200)}...`)
+}
@@ -0,0 +1,189 @@
+/**
+ * OpenAI-compatible provider
+ *
+ * Talks to the OpenAI REST API, or to any server exposing the same
+ * /chat/completions, /embeddings and /audio/transcriptions endpoints
+ * (vLLM, Ollama, LocalAI, Azure-style gateways) via AI_BASE_URL.
+ *
+ * Transient failures (429 and 5xx gateway errors, network errors) are
+ * retried with exponential backoff: 1s, 2s. Every request is aborted after
+ * timeoutMs (default 60s); a timed-out request is not retried, so a hung
+ * endpoint can't hold a plan parse run past its budget.
+ */
+
+import {
+  AIProviderError,
+  type ChatModel,
+  type ChatRequest,
+  type ChatResponse,
+  type LLMProvider,
+  type TranscriptionRequest,
+  type TranscriptionResponse,
+} from './types'
+
+export interface OpenAIProviderConfig {
+  apiKey?: string
+  baseUrl: string
+  models: Record<ChatModel, string>
+  embeddingModel: string
+  transcriptionModel: string
+  /** Model used when a transcription asks for speaker labels */
+  diarizationModel: string
+  maxRetries?: number
+  /** Per-request timeout, including reading the response body */
+  timeoutMs?: number
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504])
+
+const DEFAULT_TIMEOUT_MS = 60_000
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai'
+
+  constructor(private config: OpenAIProviderConfig) {}
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const model = this.config.models[request.model ?? 'fast']
+    const body: Record<string, unknown> = {
+      model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.2,
+    }
+    if (request.maxTokens) body.max_tokens = request.maxTokens
+
+    const format = request.responseFormat
+    if (format?.type === 'json_object') {
+      body.response_format = { type: 'json_object' }
+    } else if (format?.type === 'json_schema') {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: format.name, schema: format.schema, strict: format.strict ?? false },
+      }
+    }
+
+    const result = await this.request('/chat/completions', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+    const content = result.choices?.[0]?.message?.content
+    if (!content) {
+      throw new AIProviderError('No content returned from the model', this.name)
+    }
+
+    return {
+      content,
+      model: result.model || model,
+      usage: result.usage
+        ? { promptTokens: result.usage.prompt_tokens, completionTokens: result.usage.completion_tokens }
+        : undefined,
+    }
+  }
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    if (inputs.length === 0) return []
+
+    const result = await this.request('/embeddings', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.config.embeddingModel, input: inputs }),
+    })
+
+    const data = (result.data || []) as Array<{ index: number; embedding: number[] }>
+    return data
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding)
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+    // FormData bodies are single-use, so rebuild per attempt
+    const result = await this.request('/audio/transcriptions', () => {
+      const formData = new FormData()
+      formData.append('file', request.audio, request.filename)
+      if (request.diarize) {
+        formData.append('model', this.config.diarizationModel)
+        formData.append('response_format', 'diarized_json')
+        formData.append('chunking_strategy', 'auto')
+      } else {
+        formData.append('model', this.config.transcriptionModel)
+        formData.append('response_format', 'json')
+        // Diarization models take no prompt
+        if (request.prompt) formData.append('prompt', request.prompt)
+      }
+      if (request.language) formData.append('language', request.language)
+      return { body: formData }
+    })
+
+    if (!request.diarize) return { text: result.text || '' }
+
+    const segments = ((result.segments || []) as Array<{ start?: number; end?: number; text?: string; speaker?: string }>)
+      .map(segment => ({
+        start: Number(segment.start) || 0,
+        end: Number(segment.end) || 0,
+        text: (segment.text || '').trim(),
+        speaker: segment.speaker ?? null,
+      }))
+      .filter(segment => segment.text)
+
+    return { text: result.text || segments.map(segment => segment.text).join(' '), segments }
+  }
+
+  private async request(
+    path: string,
+    init: { headers?: Record<string, string>; body: BodyInit } | (() => { headers?: Record<string, string>; body: BodyInit })
+  ): Promise<any> {
+    const maxRetries = this.config.maxRetries ?? 3
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    let lastError: AIProviderError | null = null
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      if (attempt > 0) {
+        const delayMs = Math.pow(2, attempt - 1) * 1000
+        console.warn(`[AI] Retrying ${path} (attempt ${attempt + 1}/${maxRetries}) after ${delayMs}ms: ${lastError?.message}`)
+        await new Promise(resolve => setTimeout(resolve, delayMs))
+      }
+
+      const { headers, body } = typeof init === 'function' ? init() : init
+      let response: Response
+      try {
+        response = await fetch(`${this.config.baseUrl}${path}`, {
+          method: 'POST',
+          headers: {
+            ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+            ...headers,
+          },
+          body,
+          signal: AbortSignal.timeout(timeoutMs),
+        })
+        if (response.ok) {
+          return await response.json()
+        }
+      } catch (networkError) {
+        if (networkError instanceof Error && networkError.name === 'TimeoutError') {
+          lastError = new AIProviderError(`AI request to ${path} timed out after ${timeoutMs}ms`, this.name, undefined, false)
+          break
+        }
+        lastError = new AIProviderError(
+          `AI request failed: ${networkError instanceof Error ? networkError.message : String(networkError)}`,
+          this.name,
+          undefined,
+          true
+        )
+        continue
+      }
+
+      const errorData = await response.json().catch(() => ({}))
+      const retryable = RETRYABLE_STATUSES.has(response.status)
+      lastError = new AIProviderError(
+        `AI API error: ${response.status} ${errorData.error?.message || response.statusText}`,
+        this.name,
+        response.status,
+        retryable
+      )
+      if (!retryable) break
+    }
+
+    throw lastError ?? new AIProviderError('AI request failed', this.name)
+  }
+}
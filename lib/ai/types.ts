@@ -0,0 +1,93 @@
+/**
+ * LLM Provider Types
+ *
+ * The contract every AI backend implements. Routes and libraries depend only
+ * on these types, never on a vendor SDK or endpoint, so the backend can be
+ * swapped (OpenAI, an OpenAI-compatible on-prem server, fixture replay)
+ * with configuration alone.
+ */
+
+/**
+ * Logical model tiers. Each backend maps them to a concrete model:
+ * - fast: cheap, low-latency text model (classification, parsing)
+ * - smart: strongest model, required for vision
+ */
+export type ChatModel = 'fast' | 'smart'
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } }
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string | ChatContentPart[]
+}
+
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name: string; schema: Record<string, unknown>; strict?: boolean }
+
+export interface ChatRequest {
+  model?: ChatModel
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  responseFormat?: ResponseFormat
+}
+
+export interface ChatResponse {
+  content: string
+  /** Concrete model that produced the response */
+  model: string
+  usage?: { promptTokens: number; completionTokens: number }
+}
+
+export interface TranscriptionRequest {
+  audio: Blob
+  filename: string
+  language?: string
+  /** Vocabulary hint (e.g. trade terms) */
+  prompt?: string
+  /** Label speakers and return timestamped segments */
+  diarize?: boolean
+}
+
+export interface TranscriptionSegment {
+  /** Seconds into the audio */
+  start: number
+  end: number
+  text: string
+  /** Backend-assigned label ("A", "B", ...); null without diarization */
+  speaker: string | null
+}
+
+export interface TranscriptionResponse {
+  text: string
+  /** Present when diarization was requested */
+  segments?: TranscriptionSegment[]
+}
+
+export interface LLMProvider {
+  readonly name: string
+  chat(request: ChatRequest): Promise<ChatResponse>
+  /** One 1536-dimension vector per input, in order */
+  embed(inputs: string[]): Promise<number[][]>
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse>
+}
+
+/**
+ * Error raised by a provider. `retryable` marks transient failures
+ * (rate limits, gateway errors) that the provider already retried.
+ */
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number,
+    public retryable: boolean = false
+  ) {
+    super(message)
+    this.name = 'AIProviderError'
+  }
+}
@@ -22,7 +22,7 @@
 
 export type RoomAreaField = 'floor_area_sqft' | 'wall_area_sqft' | 'ceiling_area_sqft'
 
-export type CalcSource = 'manual' | 'room_dimensions'
+export type CalcSource = 'manual' | 'room_dimensions' | 'takeoff'
 
 /** Minimal line item shape needed for area resolution */
 export interface AreaResolvableItem {
@@ -0,0 +1,441 @@
+/**
+ * Assembly Utilities
+ *
+ * Pure helpers for assemblies (kits): quantity expressions and the room
+ * measures they are evaluated against. Safe to import from both client and
+ * server code.
+ *
+ * A quantity expression is a small arithmetic formula over room measures:
+ *
+ *   floor * 1.1             floor area plus 10% waste
+ *   roundup(wall / 32)      4x8 drywall sheets
+ *   perimeter - 3           baseboard less a door opening
+ *   count * 2               two per fixture
+ *
+ * Supported: numbers, + - * /, parentheses, unary minus and the functions
+ * round, roundup, rounddown, min, max. Expressions are parsed here, never
+ * passed to eval.
+ */
+
+import { applyMarkupStack, type MarkupStack } from '@/lib/pricing/markup'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RoomMeasures {
+  floor: number | null
+  wall: number | null
+  ceiling: number | null
+  perimeter: number | null
+  length: number | null
+  width: number | null
+  height: number | null
+  count: number
+}
+
+export type RoomMeasureName = keyof RoomMeasures
+
+/** Minimal room shape needed to compute measures */
+export interface MeasurableRoom {
+  length_ft: number | null
+  width_ft: number | null
+  ceiling_height_ft: number | null
+  floor_area_sqft: number | null
+  wall_area_sqft: number | null
+  ceiling_area_sqft: number | null
+  /** Measured outline (vector plan takeoff); used while area_source is 'geometry' */
+  perimeter_ft?: number | null
+  area_source?: string | null
+}
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: RoomMeasureName }
+  | { kind: 'negate'; operand: Node }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/'; left: Node; right: Node }
+  | { kind: 'call'; fn: FunctionName; args: Node[] }
+
+export class AssemblyExpressionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AssemblyExpressionError'
+  }
+}
+
+// =============================================================================
+// Vocabulary
+// =============================================================================
+
+/** Measures available to expressions, with labels for the editor */
+export const ASSEMBLY_VARIABLES: Array<{ name: RoomMeasureName; label: string }> = [
+  { name: 'floor', label: 'Floor area (SF)' },
+  { name: 'wall', label: 'Wall area (SF)' },
+  { name: 'ceiling', label: 'Ceiling area (SF)' },
+  { name: 'perimeter', label: 'Perimeter (LF)' },
+  { name: 'length', label: 'Length (ft)' },
+  { name: 'width', label: 'Width (ft)' },
+  { name: 'height', label: 'Ceiling height (ft)' },
+  { name: 'count', label: 'Count entered when inserting' },
+]
+
+/** Column names accepted as aliases, matching the rooms table */
+const VARIABLE_ALIASES: Record<string, RoomMeasureName> = {
+  floor_area_sqft: 'floor',
+  wall_area_sqft: 'wall',
+  ceiling_area_sqft: 'ceiling',
+  length_ft: 'length',
+  width_ft: 'width',
+  ceiling_height_ft: 'height',
+}
+
+const FUNCTIONS = {
+  round: { arity: [1, 1], apply: (args: number[]) => Math.round(args[0]) },
+  roundup: { arity: [1, 1], apply: (args: number[]) => Math.ceil(args[0] - 1e-9) },
+  rounddown: { arity: [1, 1], apply: (args: number[]) => Math.floor(args[0] + 1e-9) },
+  min: { arity: [2, 10], apply: (args: number[]) => Math.min(...args) },
+  max: { arity: [2, 10], apply: (args: number[]) => Math.max(...args) },
+} as const
+
+type FunctionName = keyof typeof FUNCTIONS
+
+const MAX_EXPRESSION_LENGTH = 200
+
+function resolveVariable(identifier: string): RoomMeasureName | null {
+  if (ASSEMBLY_VARIABLES.some(v => v.name === identifier)) return identifier as RoomMeasureName
+  return VARIABLE_ALIASES[identifier] ?? null
+}
+
+// =============================================================================
+// Parser (recursive descent)
+// =============================================================================
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'identifier'; value: string; pos: number }
+  | { type: 'symbol'; value: string; pos: number }
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const ch = source[i]
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(i))
+      if (!match) throw new AssemblyExpressionError(`Invalid number at position ${i + 1}`)
+      tokens.push({ type: 'number', value: parseFloat(match[0]), pos: i })
+      i += match[0].length
+      continue
+    }
+    if (/[a-z_]/i.test(ch)) {
+      const match = /^[a-z_][a-z0-9_]*/i.exec(source.slice(i))!
+      tokens.push({ type: 'identifier', value: match[0].toLowerCase(), pos: i })
+      i += match[0].length
+      continue
+    }
+    if ('+-*/(),'.includes(ch)) {
+      tokens.push({ type: 'symbol', value: ch, pos: i })
+      i++
+      continue
+    }
+    throw new AssemblyExpressionError(`Unexpected "${ch}" at position ${i + 1}`)
+  }
+
+  return tokens
+}
+
+class Parser {
+  private index = 0
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    if (this.tokens.length === 0) throw new AssemblyExpressionError('Expression is empty')
+    const node = this.parseSum()
+    const extra = this.peek()
+    if (extra) throw new AssemblyExpressionError(`Unexpected "${extra.value}" at position ${extra.pos + 1}`)
+    return node
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek()
+    return token?.type === 'symbol' && token.value === value
+  }
+
+  private expectSymbol(value: string) {
+    if (!this.isSymbol(value)) {
+      const token = this.peek()
+      throw new AssemblyExpressionError(
+        token ? `Expected "${value}" at position ${token.pos + 1}` : `Expected "${value}" at end of expression`
+      )
+    }
+    this.index++
+  }
+
+  private parseSum(): Node {
+    let left = this.parseProduct()
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const op = this.tokens[this.index++].value as '+' | '-'
+      left = { kind: 'binary', op, left, right: this.parseProduct() }
+    }
+    return left
+  }
+
+  private parseProduct(): Node {
+    let left = this.parseUnary()
+    while (this.isSymbol('*') || this.isSymbol('/')) {
+      const op = this.tokens[this.index++].value as '*' | '/'
+      left = { kind: 'binary', op, left, right: this.parseUnary() }
+    }
+    return left
+  }
+
+  private parseUnary(): Node {
+    if (this.isSymbol('-')) {
+      this.index++
+      return { kind: 'negate', operand: this.parseUnary() }
+    }
+    if (this.isSymbol('+')) {
+      this.index++
+      return this.parseUnary()
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): Node {
+    const token = this.peek()
+    if (!token) throw new AssemblyExpressionError('Unexpected end of expression')
+
+    if (token.type === 'number') {
+      this.index++
+      return { kind: 'number', value: token.value }
+    }
+
+    if (token.type === 'identifier') {
+      this.index++
+      if (this.isSymbol('(')) {
+        if (!(token.value in FUNCTIONS)) {
+          throw new AssemblyExpressionError(`Unknown function "${token.value}"`)
+        }
+        const fn = token.value as FunctionName
+        this.index++
+        const args: Node[] = [this.parseSum()]
+        while (this.isSymbol(',')) {
+          this.index++
+          args.push(this.parseSum())
+        }
+        this.expectSymbol(')')
+
+        const [minArgs, maxArgs] = FUNCTIONS[fn].arity
+        if (args.length < minArgs || args.length > maxArgs) {
+          throw new AssemblyExpressionError(
+            minArgs === maxArgs
+              ? `${fn}() takes ${minArgs} argument${minArgs === 1 ? '' : 's'}`
+              : `${fn}() takes ${minArgs} to ${maxArgs} arguments`
+          )
+        }
+        return { kind: 'call', fn, args }
+      }
+
+      const name = resolveVariable(token.value)
+      if (!name) {
+        throw new AssemblyExpressionError(
+          `Unknown measure "${token.value}". Use ${ASSEMBLY_VARIABLES.map(v => v.name).join(', ')}.`
+        )
+      }
+      return { kind: 'variable', name }
+    }
+
+    if (token.value === '(') {
+      this.index++
+      const inner = this.parseSum()
+      this.expectSymbol(')')
+      return inner
+    }
+
+    throw new AssemblyExpressionError(`Unexpected "${token.value}" at position ${token.pos + 1}`)
+  }
+}
+
+function parseExpression(expression: string): Node {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new AssemblyExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`)
+  }
+  return new Parser(tokenize(expression)).parse()
+}
+
+/** Evaluates a node; null when a referenced measure is unknown */
+function evaluateNode(node: Node, measures: RoomMeasures): number | null {
+  switch (node.kind) {
+    case 'number':
+      return node.value
+    case 'variable':
+      return measures[node.name]
+    case 'negate': {
+      const value = evaluateNode(node.operand, measures)
+      return value === null ? null : -value
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, measures)
+      const right = evaluateNode(node.right, measures)
+      if (left === null || right === null) return null
+      if (node.op === '+') return left + right
+      if (node.op === '-') return left - right
+      if (node.op === '*') return left * right
+      return right === 0 ? null : left / right
+    }
+    case 'call': {
+      const args = node.args.map(arg => evaluateNode(arg, measures))
+      if (args.some(arg => arg === null)) return null
+      return FUNCTIONS[node.fn].apply(args as number[])
+    }
+  }
+}
+
+function collectVariables(node: Node, into: Set<RoomMeasureName>): Set<RoomMeasureName> {
+  switch (node.kind) {
+    case 'variable':
+      into.add(node.name)
+      break
+    case 'negate':
+      collectVariables(node.operand, into)
+      break
+    case 'binary':
+      collectVariables(node.left, into)
+      collectVariables(node.right, into)
+      break
+    case 'call':
+      node.args.forEach(arg => collectVariables(arg, into))
+      break
+  }
+  return into
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Validate a quantity expression.
+ * @returns an error message, or null when the expression is valid
+ */
+export function validateQuantityExpression(expression: string): string | null {
+  try {
+    parseExpression(expression.trim())
+    return null
+  } catch (error) {
+    return error instanceof AssemblyExpressionError ? error.message : 'Invalid expression'
+  }
+}
+
+/**
+ * Measures referenced by an expression (empty for invalid expressions)
+ */
+export function expressionMeasures(expression: string): RoomMeasureName[] {
+  try {
+    return [...collectVariables(parseExpression(expression.trim()), new Set())]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Whether an expression depends on the room's dimensions (anything but count)
+ */
+export function dependsOnRoomDimensions(expression: string): boolean {
+  return expressionMeasures(expression).some(name => name !== 'count')
+}
+
+/**
+ * Evaluate a quantity expression against room measures.
+ *
+ * @returns the quantity rounded to 2 decimals (never negative), or null when
+ *   the expression is invalid or uses a measure the room doesn't have yet
+ *   (e.g. no dimensions entered) - callers treat null like a missing area.
+ */
+export function evaluateQuantityExpression(expression: string, measures: RoomMeasures): number | null {
+  let node: Node
+  try {
+    node = parseExpression(expression.trim())
+  } catch {
+    return null
+  }
+
+  const value = evaluateNode(node, measures)
+  if (value === null || !Number.isFinite(value)) return null
+  return Math.max(0, Math.round(value * 100) / 100)
+}
+
+/**
+ * Measures of a room. Derived areas come from the rooms trigger; perimeter
+ * is 2 × (length + width).
+ */
+export function roomMeasures(room: MeasurableRoom | null, count: number | null = 1): RoomMeasures {
+  const num = (value: number | null | undefined) =>
+    value === null || value === undefined ? null : Number(value)
+
+  const length = num(room?.length_ft)
+  const width = num(room?.width_ft)
+  const measuredPerimeter = room?.area_source === 'geometry' ? num(room.perimeter_ft) : null
+
+  return {
+    floor: num(room?.floor_area_sqft),
+    wall: num(room?.wall_area_sqft),
+    ceiling: num(room?.ceiling_area_sqft),
+    perimeter: measuredPerimeter ?? (length !== null && width !== null ? Math.round(2 * (length + width) * 100) / 100 : null),
+    length,
+    width,
+    height: num(room?.ceiling_height_ft),
+    count: count === null || count === undefined || !Number.isFinite(Number(count)) ? 1 : Number(count),
+  }
+}
+
+/**
+ * An assembly item's markup stack: its own margin_percent, when set,
+ * replaces the profit layer; overhead, contingency and sales tax still come
+ * from the user's rules.
+ */
+export function assemblyItemStack(stack: MarkupStack, marginPercent: number | null | undefined): MarkupStack {
+  if (marginPercent === null || marginPercent === undefined) return stack
+  return { ...stack, profit_percent: Number(marginPercent) }
+}
+
+/**
+ * Cost fields for an assembly line item at a given quantity:
+ * direct_cost = quantity × unit_cost, marked up with the item's stack. The
+ * item's material_cost carries sales tax and an allowance passes through at
+ * cost, as in the editor. margin_percent is the effective markup stored on
+ * the line item. Unpriced items (no unit cost) stay null.
+ */
+export function priceAssemblyQuantity(
+  quantity: number | null,
+  unitCost: number | null,
+  stack: MarkupStack,
+  item: { material_cost?: number | null; is_allowance?: boolean | null } = {}
+): { direct_cost: number | null; client_price: number | null; margin_percent?: number } {
+  if (quantity === null || unitCost === null || unitCost === undefined) {
+    return { direct_cost: null, client_price: null }
+  }
+  const priced = applyMarkupStack(
+    {
+      direct_cost: Math.round(quantity * Number(unitCost) * 100) / 100,
+      material_cost: item.material_cost,
+      is_allowance: item.is_allowance,
+    },
+    stack
+  )
+  return {
+    direct_cost: priced.direct_cost,
+    client_price: priced.client_price,
+    margin_percent: priced.markup_percent,
+  }
+}
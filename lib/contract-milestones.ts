@@ -0,0 +1,117 @@
+/**
+ * Contract Milestone Utilities
+ *
+ * Pure helpers for payment schedule milestones: which tasks trigger a
+ * milestone, whether it is ready to invoice, and how its amount is spread
+ * across task balances when it is billed. Shared by the server actions and
+ * the invoice drawer preview.
+ */
+
+export type MilestoneStatus = 'pending' | 'ready' | 'invoiced' | 'paid'
+
+export interface MilestoneTask {
+  id: string
+  status: string
+  price: number
+  billed_amount: number
+  cost_code?: string | null
+}
+
+export interface MilestoneTrigger {
+  cost_code_start: number | null
+  cost_code_end: number | null
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Numeric cost code from a line item code such as "402" or "402.1"
+ */
+export function parseCostCode(code: string | null | undefined): number | null {
+  if (!code) return null
+  const match = String(code).trim().match(/^(\d+)/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * Human readable trigger ("Cost codes 400-499"), null for untriggered milestones
+ */
+export function formatMilestoneTrigger(milestone: MilestoneTrigger): string | null {
+  if (milestone.cost_code_start === null || milestone.cost_code_end === null) return null
+  return milestone.cost_code_start === milestone.cost_code_end
+    ? `Cost code ${milestone.cost_code_start}`
+    : `Cost codes ${milestone.cost_code_start}-${milestone.cost_code_end}`
+}
+
+/**
+ * Tasks whose completion triggers the milestone (every task when it has no range)
+ */
+export function getMilestoneTasks<T extends MilestoneTask>(milestone: MilestoneTrigger, tasks: T[]): T[] {
+  const { cost_code_start: start, cost_code_end: end } = milestone
+  if (start === null || end === null) return tasks
+
+  return tasks.filter(task => {
+    const code = parseCostCode(task.cost_code)
+    return code !== null && code >= start && code <= end
+  })
+}
+
+/**
+ * Completed / total trigger tasks for a milestone with a cost code range
+ */
+export function getMilestoneProgress(milestone: MilestoneTrigger, tasks: MilestoneTask[]) {
+  const triggerTasks = getMilestoneTasks(milestone, tasks)
+  return {
+    completed: triggerTasks.filter(task => task.status === 'completed').length,
+    total: triggerTasks.length,
+  }
+}
+
+/**
+ * Milestone status. Invoiced/paid come from the linked invoice; otherwise a
+ * ranged milestone is ready once all of its (at least one) tasks are
+ * completed and an unranged milestone is always ready.
+ */
+export function deriveMilestoneStatus(
+  milestone: MilestoneTrigger & { invoice_id: string | null },
+  tasks: MilestoneTask[],
+  invoiceStatus?: string | null
+): MilestoneStatus {
+  if (milestone.invoice_id) {
+    return invoiceStatus === 'paid' ? 'paid' : 'invoiced'
+  }
+  if (milestone.cost_code_start === null || milestone.cost_code_end === null) {
+    return 'ready'
+  }
+  const { completed, total } = getMilestoneProgress(milestone, tasks)
+  return total > 0 && completed === total ? 'ready' : 'pending'
+}
+
+/**
+ * Spread a milestone amount across tasks in proportion to their unbilled
+ * balance. Never bills a task past its price; the last line absorbs rounding
+ * so the lines add up to exactly min(amount, total unbilled balance).
+ */
+export function allocateMilestoneAmount(
+  amount: number,
+  tasks: MilestoneTask[]
+): Array<{ taskId: string; amount: number }> {
+  const open = tasks
+    .map(task => ({ taskId: task.id, remaining: round2((Number(task.price) || 0) - (Number(task.billed_amount) || 0)) }))
+    .filter(task => task.remaining > 0)
+
+  const totalRemaining = round2(open.reduce((sum, task) => sum + task.remaining, 0))
+  const target = round2(Math.min(Math.max(0, Number(amount) || 0), totalRemaining))
+  if (target <= 0) return []
+
+  let allocated = 0
+  return open.map((task, idx) => {
+    const share = idx === open.length - 1
+      ? round2(target - allocated)
+      : round2(Math.min(task.remaining, (task.remaining / totalRemaining) * target))
+    allocated = round2(allocated + share)
+    return { taskId: task.taskId, amount: Math.min(share, task.remaining) }
+  }).filter(line => line.amount > 0)
+}
@@ -0,0 +1,251 @@
+/**
+ * Contract PDF - shared renderer for the contract document
+ *
+ * Used by the authenticated PDF route, the client signing portal and the
+ * countersign archival step so every copy of a contract is rendered the same
+ * way. Once anyone has signed, a signature audit certificate page is
+ * appended listing the signers and the contract_events trail.
+ *
+ * Callers are responsible for authorization; the Supabase client passed in
+ * (user or service role) is used for every read.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { loadTemplate } from '@/lib/loadTemplate'
+import { renderTemplate } from '@/lib/renderTemplate'
+import { launchBrowser } from '@/lib/pdf-browser'
+import { isIncludedBySelection } from '@/lib/estimate-alternates'
+import { getEffectiveLineItems } from '@/lib/estimate-diff'
+import { loadSnapshotPayload } from '@/lib/estimate-snapshots'
+
+const EVENT_LABELS: Record<string, string> = {
+  sent: 'Sent to client for signature',
+  viewed: 'Viewed by client',
+  client_signed: 'Signed by client',
+  countersigned: 'Countersigned by contractor',
+  archived: 'Signed copy archived',
+}
+
+function formatLongDate(value: string | null | undefined): string | null {
+  if (!value) return null
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+function formatTimestamp(value: string | null | undefined): string | null {
+  if (!value) return null
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+    timeZoneName: 'short'
+  })
+}
+
+/**
+ * Render a contract to PDF
+ *
+ * @returns The PDF bytes plus the contract and project rows it was built from
+ */
+export async function renderContractPdf(
+  supabase: SupabaseClient<any, any, any>,
+  contractId: string
+): Promise<{ pdf: Buffer; contract: any; project: any }> {
+  const { data: contract, error: contractError } = await supabase
+    .from('contracts')
+    .select('*')
+    .eq('id', contractId)
+    .maybeSingle()
+
+  if (contractError || !contract) {
+    throw new Error('Contract not found')
+  }
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', contract.project_id)
+    .maybeSingle()
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  // Contractor profile: contract creator, falling back to the project owner
+  const { data: contractorProfile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', contract.created_by || project.user_id)
+    .maybeSingle()
+
+  // Scope of work from the linked proposal: the snapshot it was sent from,
+  // so every copy of a sent contract lists the same items, falling back to
+  // the live estimate for proposals without one
+  let scopeItems: Array<{ description: string }> = []
+  let scopeText = ''
+
+  if (contract.proposal_id) {
+    const { data: proposal } = await supabase
+      .from('proposals')
+      .select('estimate_id, body_json, snapshot_id')
+      .eq('id', contract.proposal_id)
+      .maybeSingle()
+
+    const snapshot = proposal?.snapshot_id ? await loadSnapshotPayload(supabase, proposal.snapshot_id) : null
+
+    if (snapshot) {
+      scopeItems = getEffectiveLineItems(snapshot.line_items, snapshot.rooms, contract.selected_alternate_ids)
+        .filter(item => {
+          const desc = item.description || ''
+          const isAllowance = item.is_allowance === true || desc.toUpperCase().trim().startsWith('ALLOWANCE:')
+          return desc.trim().length > 0 && !isAllowance
+        })
+        .map(item => ({ description: (item.description || '').trim() }))
+    } else if (proposal && proposal.estimate_id) {
+      // Join with rooms to filter out excluded rooms (is_in_scope = false)
+      const { data: lineItemsData } = await supabase
+        .from('estimate_line_items')
+        .select(`
+          description,
+          is_allowance,
+          is_active,
+          alternate_ids,
+          room_id,
+          rooms!estimate_line_items_room_id_fkey (
+            id,
+            is_in_scope
+          )
+        `)
+        .eq('estimate_id', proposal.estimate_id)
+        .order('created_at', { ascending: true })
+
+      if (lineItemsData && lineItemsData.length > 0) {
+        // Filter out allowances, empty descriptions, excluded rooms and
+        // alternates the client didn't select
+        scopeItems = lineItemsData
+          .filter((item: any) => {
+            const desc = item.description || ''
+            const isAllowance = item.is_allowance === true ||
+                               (desc.toUpperCase().trim().startsWith('ALLOWANCE:'))
+            const room = item.rooms as { id: string; is_in_scope: boolean } | null
+            if (room && room.is_in_scope === false) return false
+            if (item.is_active === false) return false
+            if (!isIncludedBySelection(item.alternate_ids, contract.selected_alternate_ids)) return false
+            return desc.trim().length > 0 && !isAllowance
+          })
+          .map((item: any) => ({
+            description: item.description.trim()
+          }))
+      }
+    }
+
+    const bodyJson = proposal?.body_json as any
+    if (bodyJson?.basis_of_estimate) {
+      scopeText = bodyJson.basis_of_estimate
+    }
+  }
+
+  // If no scope items from proposal, use a default message
+  if (scopeItems.length === 0 && !scopeText) {
+    scopeText = 'Work to be performed as described in the approved proposal and specifications.'
+  }
+
+  // Signature audit certificate (only once someone has signed)
+  const hasSignatures = Boolean(contract.client_signed_at || contract.contractor_signed_at)
+  let auditEvents: Array<{ label: string; timestamp: string | null; detail: string }> = []
+
+  if (hasSignatures) {
+    const { data: events } = await supabase
+      .from('contract_events')
+      .select('event_type, metadata, created_at')
+      .eq('contract_id', contractId)
+      .order('created_at', { ascending: true })
+
+    auditEvents = (events || [])
+      .filter((event: any) => event.event_type !== 'archived')
+      .map((event: any) => {
+        const metadata = (event.metadata || {}) as Record<string, any>
+        const detail = [
+          metadata.signer_name ? `Name: ${metadata.signer_name}` : null,
+          metadata.ip ? `IP: ${metadata.ip}` : null,
+          metadata.user_agent ? `Device: ${metadata.user_agent}` : null,
+          metadata.sha256 && event.event_type === 'client_signed' ? `Document SHA-256: ${metadata.sha256}` : null,
+        ].filter(Boolean).join(' · ')
+        return {
+          label: EVENT_LABELS[event.event_type] || event.event_type,
+          timestamp: formatTimestamp(event.created_at),
+          detail,
+        }
+      })
+  }
+
+  // Extract profile information
+  const profileAny = contractorProfile as any
+  const companyName = profileAny?.company_name || 'Contractor'
+  const clientName = project.client_name || project.owner_name || 'Client'
+
+  const templateString = loadTemplate('contract.html')
+  const html = renderTemplate(templateString, {
+    company_name: companyName,
+    company_phone: profileAny?.phone || '',
+    contractor_license: profileAny?.license_number || profileAny?.license || '',
+    contractor_address: profileAny?.address || profileAny?.company_address || '',
+    client_name: clientName,
+    project_address: project.project_address || 'Property Address',
+    total_price: contract.total_price || 0,
+    down_payment: contract.down_payment || 0,
+    retainage_percent: Number(contract.retainage_percent) || 0,
+    payment_schedule: Array.isArray(contract.payment_schedule) ? contract.payment_schedule : [],
+    legal_text: contract.legal_text && typeof contract.legal_text === 'object' ? contract.legal_text : {},
+    scope_items: scopeItems,
+    scope_text: scopeText,
+    start_date: formatLongDate(contract.start_date),
+    completion_date: formatLongDate(contract.completion_date),
+
+    // Electronic signatures
+    client_signer_name: contract.client_signer_name || null,
+    client_signed_date: formatLongDate(contract.client_signed_at),
+    contractor_signer_name: contract.contractor_signer_name || null,
+    contractor_signed_date: formatLongDate(contract.contractor_signed_at),
+    has_signatures: hasSignatures,
+    audit: hasSignatures ? {
+      contract_id: contract.id,
+      project_name: project.title || 'Project',
+      status: contract.status === 'signed' ? 'Completed - signed by both parties' : 'Awaiting countersignature',
+      client: {
+        name: contract.client_signer_name,
+        signed_at: formatTimestamp(contract.client_signed_at),
+        ip: contract.client_signer_ip,
+        user_agent: contract.client_signer_user_agent,
+      },
+      contractor: contract.contractor_signed_at ? {
+        name: contract.contractor_signer_name,
+        signed_at: formatTimestamp(contract.contractor_signed_at),
+        ip: contract.contractor_signer_ip,
+      } : null,
+      events: auditEvents,
+      generated_at: formatTimestamp(new Date().toISOString()),
+    } : null,
+  })
+
+  // Generate PDF using Playwright-core + @sparticuz/chromium
+  const browser = await launchBrowser()
+  try {
+    const page = await browser.newPage()
+    await page.setContent(html, { waitUntil: 'networkidle' })
+    const pdf = await page.pdf({
+      format: 'Letter',
+      printBackground: true,
+      margin: { top: '50px', right: '60px', bottom: '50px', left: '60px' }
+    })
+    return { pdf, contract, project }
+  } finally {
+    await browser.close()
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Contract Signing - server helpers for the public client signing link
+ *
+ * Like the proposal portal, there is no login: possession of
+ * contracts.signing_token is the credential. Every helper looks the contract
+ * up by token first and then reads/writes with the service role client, so
+ * only server code may import this module.
+ *
+ * The client signs first (status sent -> client_signed); the contractor then
+ * countersigns from the Contracts tab (see countersignContract).
+ */
+
+import { createHash } from 'crypto'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { renderContractPdf } from '@/lib/contract-pdf'
+import { isWellFormedToken } from '@/lib/proposal-portal'
+
+/**
+ * Contract as shown to the client on the signing page
+ */
+export interface SigningContract {
+  id: string
+  status: 'draft' | 'sent' | 'client_signed' | 'signed'
+  total_price: number
+  down_payment: number
+  payment_schedule: Array<{ milestone?: string; description?: string; amount?: number; percentage?: number }>
+  start_date: string | null
+  completion_date: string | null
+  sent_at: string | null
+  client_signer_name: string | null
+  client_signed_at: string | null
+  contractor_signer_name: string | null
+  contractor_signed_at: string | null
+  project: {
+    name: string
+    address: string | null
+    client_name: string | null
+  }
+  contractor: {
+    name: string | null
+    company: string | null
+    phone: string | null
+  }
+}
+
+export interface ClientSignature {
+  signerName: string
+  ip: string | null
+  userAgent: string | null
+}
+
+export type ClientSignResult =
+  | { ok: true; signedAt: string }
+  | { ok: false; error: string }
+
+async function findContractByToken(token: string) {
+  if (!isWellFormedToken(token)) return null
+
+  const supabase = createServiceRoleClient()
+  const { data: contract } = await supabase
+    .from('contracts')
+    .select('*')
+    .eq('signing_token', token)
+    .maybeSingle()
+
+  return contract ? { contract, supabase } : null
+}
+
+/**
+ * Resolve a signing token to its contract id (for rendering the PDF)
+ */
+export async function getSigningContractId(token: string): Promise<string | null> {
+  const found = await findContractByToken(token)
+  return found ? found.contract.id : null
+}
+
+/**
+ * Load a contract for the signing page. Returns null for unknown tokens.
+ */
+export async function getSigningContract(token: string): Promise<SigningContract | null> {
+  const found = await findContractByToken(token)
+  if (!found) return null
+  const { contract, supabase } = found
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('title, project_address, client_name, owner_name, user_id')
+    .eq('id', contract.project_id)
+    .maybeSingle()
+
+  let contractor: { full_name: string | null; company_name: string | null; phone: string | null } | null = null
+  const contractorId = contract.created_by || project?.user_id
+  if (contractorId) {
+    const { data } = await supabase
+      .from('profiles')
+      .select('full_name, company_name, phone')
+      .eq('id', contractorId)
+      .maybeSingle()
+    contractor = data
+  }
+
+  return {
+    id: contract.id,
+    status: contract.status,
+    total_price: Number(contract.total_price) || 0,
+    down_payment: Number(contract.down_payment) || 0,
+    payment_schedule: Array.isArray(contract.payment_schedule) ? contract.payment_schedule : [],
+    start_date: contract.start_date,
+    completion_date: contract.completion_date,
+    sent_at: contract.sent_at,
+    client_signer_name: contract.client_signer_name,
+    client_signed_at: contract.client_signed_at,
+    contractor_signer_name: contract.contractor_signer_name,
+    contractor_signed_at: contract.contractor_signed_at,
+    project: {
+      name: project?.title || 'Project',
+      address: project?.project_address || null,
+      client_name: project?.client_name || project?.owner_name || null,
+    },
+    contractor: {
+      name: contractor?.full_name || null,
+      company: contractor?.company_name || null,
+      phone: contractor?.phone || null,
+    },
+  }
+}
+
+/**
+ * Record that the client opened the signing link
+ */
+export async function recordContractView(
+  token: string,
+  meta: { ip: string | null; userAgent: string | null }
+): Promise<void> {
+  const found = await findContractByToken(token)
+  if (!found) return
+  const { contract, supabase } = found
+
+  await supabase
+    .from('contract_events')
+    .insert({
+      contract_id: contract.id,
+      event_type: 'viewed',
+      metadata: {
+        ip: meta.ip,
+        user_agent: meta.userAgent,
+      },
+    })
+}
+
+/**
+ * Sign a contract as the client.
+ *
+ * Renders the contract as the client is reading it and archives that copy
+ * (immutable uploads row, SHA-256 pinned on the contract and in the
+ * client_signed event), then records the typed-name signature with IP /
+ * user agent / timestamp and moves the contract to client_signed so the
+ * contractor can countersign.
+ */
+export async function clientSignContract(
+  token: string,
+  signature: ClientSignature
+): Promise<ClientSignResult> {
+  try {
+    const found = await findContractByToken(token)
+    if (!found) {
+      return { ok: false, error: 'Contract not found' }
+    }
+    const { contract, supabase } = found
+
+    if (contract.status === 'client_signed' || contract.status === 'signed') {
+      return { ok: false, error: 'This contract was already signed' }
+    }
+    if (contract.status !== 'sent') {
+      return { ok: false, error: 'This contract is not open for signature' }
+    }
+
+    const signerName = signature.signerName.trim()
+    if (!signerName) {
+      return { ok: false, error: 'Please type your full name to sign' }
+    }
+
+    // The document being signed: rendered before the signature is recorded
+    const { pdf, project } = await renderContractPdf(supabase, contract.id)
+    const sha256 = createHash('sha256').update(pdf).digest('hex')
+    const filePath = `${project.user_id}/contracts/${contract.project_id}/${contract.id}-client-signed-${Date.now()}.pdf`
+
+    const { error: storageError } = await supabase.storage
+      .from('uploads')
+      .upload(filePath, pdf, {
+        contentType: 'application/pdf',
+        upsert: false,
+      })
+
+    if (storageError) {
+      throw new Error(`Failed to archive the signed contract: ${storageError.message}`)
+    }
+
+    const now = new Date().toISOString()
+
+    // Guard on status so a double-submit can't overwrite the first signature
+    const { data: updated, error: updateError } = await supabase
+      .from('contracts')
+      .update({
+        status: 'client_signed',
+        client_signer_name: signerName,
+        client_signed_at: now,
+        client_signer_ip: signature.ip,
+        client_signer_user_agent: signature.userAgent,
+        client_signed_pdf_sha256: sha256,
+      })
+      .eq('id', contract.id)
+      .eq('status', 'sent')
+      .select('id')
+
+    if (updateError || !updated || updated.length === 0) {
+      await supabase.storage.from('uploads').remove([filePath])
+      if (updateError) {
+        throw new Error(`Failed to record signature: ${updateError.message}`)
+      }
+      return { ok: false, error: 'This contract was already signed' }
+    }
+
+    // The hash is pinned; a failure recording the upload row leaves the
+    // signature standing and is only logged
+    const { data: { publicUrl } } = supabase.storage
+      .from('uploads')
+      .getPublicUrl(filePath)
+
+    const { data: upload, error: recordError } = await supabase
+      .from('uploads')
+      .insert({
+        project_id: contract.project_id,
+        file_url: publicUrl,
+        kind: 'contract',
+        tag: 'contract',
+        file_type: 'pdf',
+        original_filename: `Contract-${project.title || 'Contract'}-client-signed.pdf`,
+        contract_id: contract.id,
+        is_immutable: true,
+      })
+      .select('id')
+      .single()
+
+    if (recordError || !upload) {
+      console.error('Client signature recorded, but archiving the signed copy failed:', recordError?.message)
+    } else {
+      await supabase
+        .from('contracts')
+        .update({ client_signed_upload_id: upload.id })
+        .eq('id', contract.id)
+    }
+
+    await supabase
+      .from('contract_events')
+      .insert({
+        contract_id: contract.id,
+        event_type: 'client_signed',
+        metadata: {
+          signer_name: signerName,
+          signed_at: now,
+          ip: signature.ip,
+          user_agent: signature.userAgent,
+          sha256,
+          upload_id: upload?.id ?? null,
+        },
+      })
+
+    return { ok: true, signedAt: now }
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Failed to record signature',
+    }
+  }
+}
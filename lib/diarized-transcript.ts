@@ -0,0 +1,161 @@
+/**
+ * Diarized walkthrough transcript helpers shared by the diarize route, the
+ * recording actions, the parse route and the speaker review UI.
+ *
+ * A recording's transcript is a list of speaker turns with timestamps
+ * (uploads.transcript_segments). The user tags each speaker with a role and
+ * marks which speakers are authoritative for scope; the parser only creates
+ * line items from authoritative statements and cites the segment ids it used.
+ */
+
+import type { TranscriptionSegment } from '@/lib/ai/types'
+import type { SpeakerRole, TranscriptSegment, TranscriptStatus } from '@/types/db'
+
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  contractor: 'Contractor',
+  homeowner: 'Homeowner',
+  other: 'Other',
+}
+
+/** Columns of an audio upload that make up its transcript */
+export const RECORDING_TRANSCRIPT_COLUMNS =
+  'id, kind, file_url, transcript_status, transcript_segments, speaker_roles, authoritative_speakers'
+
+/** A recording's diarized transcript with the user's speaker tagging */
+export interface RecordingTranscript {
+  uploadId: string
+  fileUrl: string
+  status: TranscriptStatus | null
+  segments: TranscriptSegment[]
+  speakerRoles: Record<string, SpeakerRole>
+  authoritativeSpeakers: string[]
+}
+
+/** Audio around a cited segment so a replayed snippet doesn't start mid-word */
+const SNIPPET_PADDING_SEC = 0.5
+
+/**
+ * Stored segments from provider output: stable ids, and a single label for
+ * backends that don't name speakers
+ */
+export function toTranscriptSegments(raw: TranscriptionSegment[]): TranscriptSegment[] {
+  return raw.map((segment, index) => ({
+    id: `s${index}`,
+    start: Math.max(0, segment.start),
+    end: Math.max(segment.start, segment.end),
+    speaker: segment.speaker || 'A',
+    text: segment.text,
+  }))
+}
+
+/** Validate a transcript_segments JSON value; bad entries are dropped */
+export function readTranscriptSegments(value: unknown): TranscriptSegment[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((segment): segment is Record<string, unknown> => !!segment && typeof segment === 'object')
+    .map(segment => ({
+      id: String(segment.id ?? ''),
+      start: Number(segment.start) || 0,
+      end: Number(segment.end) || 0,
+      speaker: String(segment.speaker ?? 'A'),
+      text: String(segment.text ?? ''),
+    }))
+    .filter(segment => segment.id && segment.text)
+}
+
+export function toRecordingTranscript(upload: {
+  id: string
+  file_url: string
+  transcript_status?: TranscriptStatus | null
+  transcript_segments?: unknown
+  speaker_roles?: unknown
+  authoritative_speakers?: string[] | null
+}): RecordingTranscript {
+  return {
+    uploadId: upload.id,
+    fileUrl: upload.file_url,
+    status: upload.transcript_status ?? null,
+    segments: readTranscriptSegments(upload.transcript_segments),
+    speakerRoles: (upload.speaker_roles || {}) as Record<string, SpeakerRole>,
+    authoritativeSpeakers: upload.authoritative_speakers || [],
+  }
+}
+
+/** Speaker labels in order of first appearance */
+export function speakersOf(segments: TranscriptSegment[]): string[] {
+  return Array.from(new Set(segments.map(segment => segment.speaker)))
+}
+
+/**
+ * First guess at who is who: the person who talks most leads the
+ * walkthrough (the contractor) and is authoritative; the next is the
+ * homeowner. The user corrects this before parsing.
+ */
+export function defaultSpeakerRoles(segments: TranscriptSegment[]): {
+  speakerRoles: Record<string, SpeakerRole>
+  authoritativeSpeakers: string[]
+} {
+  const talk = new Map<string, number>()
+  for (const segment of segments) {
+    talk.set(segment.speaker, (talk.get(segment.speaker) || 0) + segment.text.length)
+  }
+  const ranked = Array.from(talk.entries()).sort((a, b) => b[1] - a[1]).map(([speaker]) => speaker)
+
+  const speakerRoles: Record<string, SpeakerRole> = {}
+  ranked.forEach((speaker, index) => {
+    speakerRoles[speaker] = index === 0 ? 'contractor' : index === 1 ? 'homeowner' : 'other'
+  })
+  return { speakerRoles, authoritativeSpeakers: ranked.slice(0, 1) }
+}
+
+export function speakerName(speaker: string, roles: Record<string, SpeakerRole | undefined>): string {
+  const role = roles[speaker]
+  return role ? `${SPEAKER_ROLE_LABELS[role]} (${speaker})` : `Speaker ${speaker}`
+}
+
+/** m:ss */
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds))
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+/**
+ * Transcript for the parser: one line per segment with its id, time,
+ * speaker and whether the speaker is authoritative
+ */
+export function formatTranscriptForParse(
+  segments: TranscriptSegment[],
+  roles: Record<string, SpeakerRole | undefined>,
+  authoritativeSpeakers: string[]
+): string {
+  return segments
+    .map(segment => {
+      const authority = authoritativeSpeakers.includes(segment.speaker) ? 'AUTHORITATIVE' : 'context only'
+      return `[${segment.id} ${formatTimestamp(segment.start)}] ${speakerName(segment.speaker, roles)}, ${authority}: ${segment.text}`
+    })
+    .join('\n')
+}
+
+/**
+ * Audio range covering the cited segments, or null when none of the ids
+ * are known
+ */
+export function snippetRange(
+  segments: TranscriptSegment[],
+  segmentIds: string[]
+): { start: number; end: number } | null {
+  const cited = segments.filter(segment => segmentIds.includes(segment.id))
+  if (cited.length === 0) return null
+  return {
+    start: Math.max(0, Math.min(...cited.map(segment => segment.start)) - SNIPPET_PADDING_SEC),
+    end: Math.max(...cited.map(segment => segment.end)) + SNIPPET_PADDING_SEC,
+  }
+}
+
+/** Path inside a bucket from a Supabase public object URL */
+export function storagePathFromPublicUrl(fileUrl: string, bucket: string): string | null {
+  const marker = `/${bucket}/`
+  const index = fileUrl.indexOf(marker)
+  if (index === -1) return null
+  return decodeURIComponent(fileUrl.slice(index + marker.length).split('?')[0])
+}
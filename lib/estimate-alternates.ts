@@ -0,0 +1,79 @@
+/**
+ * Estimate Alternates Utilities
+ *
+ * Pure helpers for good / better / best alternates. Safe to import from both
+ * client and server code.
+ *
+ * A line item with no alternate_ids is BASE scope and always included.
+ * A line item in one or more alternates is included only when at least one
+ * of its alternates is selected.
+ */
+
+/**
+ * Whether a line item counts toward a total given the selected alternates
+ */
+export function isIncludedBySelection(
+  alternateIds: string[] | null | undefined,
+  selectedAlternateIds: string[] | null | undefined
+): boolean {
+  if (!alternateIds || alternateIds.length === 0) return true
+  if (!selectedAlternateIds || selectedAlternateIds.length === 0) return false
+  return alternateIds.some(id => selectedAlternateIds.includes(id))
+}
+
+/**
+ * Whether a line item is base scope (not in any alternate)
+ */
+export function isBaseItem(alternateIds: string[] | null | undefined): boolean {
+  return !alternateIds || alternateIds.length === 0
+}
+
+/**
+ * Totals for the base scope and each alternate.
+ *
+ * An alternate's total is the sum of its own items. An item shared by two
+ * alternates appears in both alternate totals but is only charged once when
+ * both are selected - use computeSelectionTotal for the price of a selection.
+ *
+ * @param items - Items already filtered for scope (active, in-scope rooms)
+ */
+export function computeAlternateTotals(
+  items: Array<{ client_price: number | null; alternate_ids?: string[] | null }>
+): { base: number; byAlternate: Map<string, number> } {
+  let base = 0
+  const byAlternate = new Map<string, number>()
+
+  for (const item of items) {
+    const price = Number(item.client_price ?? 0) || 0
+    if (isBaseItem(item.alternate_ids)) {
+      base += price
+      continue
+    }
+    for (const alternateId of item.alternate_ids!) {
+      byAlternate.set(alternateId, (byAlternate.get(alternateId) ?? 0) + price)
+    }
+  }
+
+  return { base: round2(base), byAlternate: new Map(Array.from(byAlternate, ([id, total]) => [id, round2(total)])) }
+}
+
+/**
+ * Base + selected alternates, counting each line item once
+ *
+ * @param items - Items already filtered for scope (active, in-scope rooms)
+ */
+export function computeSelectionTotal(
+  items: Array<{ client_price: number | null; alternate_ids?: string[] | null }>,
+  selectedAlternateIds: string[] | null | undefined
+): number {
+  let total = 0
+  for (const item of items) {
+    if (!isIncludedBySelection(item.alternate_ids, selectedAlternateIds)) continue
+    total += Number(item.client_price ?? 0) || 0
+  }
+  return round2(total)
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
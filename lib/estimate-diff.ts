@@ -0,0 +1,361 @@
+/**
+ * Estimate Diff Utilities
+ *
+ * Pure functions for comparing two estimate snapshots (or a snapshot against
+ * the live estimate). Safe to import from both client and server code.
+ *
+ * Only "effective" line items are compared: active items in in-scope rooms.
+ * An item whose room is taken out of scope therefore shows up as removed,
+ * which matches how the estimate total is calculated. Alternate items count
+ * only when their alternate was selected at the time of the snapshot.
+ */
+
+import { isIncludedBySelection } from '@/lib/estimate-alternates'
+import type {
+  EstimateSnapshotLineItem,
+  EstimateSnapshotRoom,
+  EstimateSnapshotTotals,
+} from '@/types/db'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The comparable part of a snapshot
+ */
+export interface EstimateSnapshotPayload {
+  line_items: EstimateSnapshotLineItem[]
+  rooms: EstimateSnapshotRoom[]
+  totals: EstimateSnapshotTotals
+}
+
+export type LineItemChangeType = 'added' | 'removed' | 'changed'
+
+/**
+ * Fields that are compared on line items present in both snapshots
+ */
+export type LineItemDiffField =
+  | 'description'
+  | 'room_name'
+  | 'unit'
+  | 'quantity'
+  | 'direct_cost'
+  | 'client_price'
+  | 'is_allowance'
+
+export interface LineItemDiff {
+  line_item_id: string
+  change_type: LineItemChangeType
+  description: string
+  room_id: string | null
+  room_name: string
+  unit: string | null
+  before: EstimateSnapshotLineItem | null
+  after: EstimateSnapshotLineItem | null
+  changed_fields: LineItemDiffField[]
+  quantity_delta: number
+  direct_cost_delta: number
+  client_price_delta: number
+}
+
+export interface RoomDiff {
+  room_id: string | null
+  room_name: string
+  added_count: number
+  removed_count: number
+  changed_count: number
+  direct_cost_before: number
+  direct_cost_after: number
+  direct_cost_delta: number
+  total_before: number
+  total_after: number
+  total_delta: number
+}
+
+export interface EstimateDiff {
+  line_items: LineItemDiff[]
+  rooms: RoomDiff[]
+  totals: {
+    total_before: number
+    total_after: number
+    total_delta: number
+    direct_cost_before: number
+    direct_cost_after: number
+    direct_cost_delta: number
+    added_count: number
+    removed_count: number
+    changed_count: number
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const UNASSIGNED_ROOM = 'Unassigned'
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function num(value: number | null | undefined): number {
+  return Number(value ?? 0) || 0
+}
+
+function roomKey(roomId: string | null): string {
+  return roomId ?? '__unassigned__'
+}
+
+/**
+ * Active line items whose room (if any) is in scope, limited to base scope
+ * plus the selected alternates
+ */
+export function getEffectiveLineItems(
+  lineItems: EstimateSnapshotLineItem[],
+  rooms: EstimateSnapshotRoom[],
+  selectedAlternateIds?: string[] | null
+): EstimateSnapshotLineItem[] {
+  const scopeMap = new Map<string, boolean>()
+  for (const room of rooms) {
+    scopeMap.set(room.id, room.is_in_scope ?? true)
+  }
+
+  return lineItems.filter(item => {
+    if (item.is_active === false) return false
+    if (item.room_id && scopeMap.get(item.room_id) === false) return false
+    return isIncludedBySelection(item.alternate_ids, selectedAlternateIds)
+  })
+}
+
+/**
+ * Compute snapshot totals from frozen line items and rooms.
+ * Mirrors refreshEstimateTotal (lib/estimate-total): sums client_price over effective items.
+ */
+export function computeSnapshotTotals(
+  lineItems: EstimateSnapshotLineItem[],
+  rooms: EstimateSnapshotRoom[],
+  selectedAlternateIds?: string[] | null
+): EstimateSnapshotTotals {
+  const effective = getEffectiveLineItems(lineItems, rooms, selectedAlternateIds)
+  const roomNames = new Map(rooms.map(r => [r.id, r.name]))
+  const byRoom = new Map<string, { room_id: string | null; room_name: string; total: number }>()
+
+  let total = 0
+  let directCostTotal = 0
+
+  for (const item of effective) {
+    total += num(item.client_price)
+    directCostTotal += num(item.direct_cost)
+
+    const key = roomKey(item.room_id)
+    const entry = byRoom.get(key) ?? {
+      room_id: item.room_id,
+      room_name: (item.room_id && roomNames.get(item.room_id)) || item.room_name || UNASSIGNED_ROOM,
+      total: 0,
+    }
+    entry.total += num(item.client_price)
+    byRoom.set(key, entry)
+  }
+
+  return {
+    total: round2(total),
+    direct_cost_total: round2(directCostTotal),
+    selected_alternate_ids: selectedAlternateIds ?? [],
+    line_item_count: effective.length,
+    by_room: Array.from(byRoom.values())
+      .map(r => ({ ...r, total: round2(r.total) }))
+      .sort((a, b) => a.room_name.localeCompare(b.room_name)),
+  }
+}
+
+function changedFields(
+  before: EstimateSnapshotLineItem,
+  after: EstimateSnapshotLineItem
+): LineItemDiffField[] {
+  const fields: LineItemDiffField[] = []
+  if ((before.description ?? '') !== (after.description ?? '')) fields.push('description')
+  if ((before.room_id ?? null) !== (after.room_id ?? null)) fields.push('room_name')
+  if ((before.unit ?? '') !== (after.unit ?? '')) fields.push('unit')
+  if (num(before.quantity) !== num(after.quantity)) fields.push('quantity')
+  if (round2(num(before.direct_cost)) !== round2(num(after.direct_cost))) fields.push('direct_cost')
+  if (round2(num(before.client_price)) !== round2(num(after.client_price))) fields.push('client_price')
+  if (Boolean(before.is_allowance) !== Boolean(after.is_allowance)) fields.push('is_allowance')
+  return fields
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Compare two estimate snapshots.
+ *
+ * Line items are matched by id (ids are stable across edits), so an item that
+ * was edited shows as 'changed' rather than a remove + add.
+ *
+ * @param from - The older snapshot (e.g. the bid_final snapshot)
+ * @param to - The newer snapshot or the current estimate
+ */
+export function diffEstimateSnapshots(
+  from: EstimateSnapshotPayload,
+  to: EstimateSnapshotPayload
+): EstimateDiff {
+  const beforeSelection = from.totals?.selected_alternate_ids
+  const afterSelection = to.totals?.selected_alternate_ids
+  const beforeItems = getEffectiveLineItems(from.line_items, from.rooms, beforeSelection)
+  const afterItems = getEffectiveLineItems(to.line_items, to.rooms, afterSelection)
+  const beforeById = new Map(beforeItems.map(i => [i.id, i]))
+  const afterById = new Map(afterItems.map(i => [i.id, i]))
+
+  const roomNames = new Map<string, string>()
+  for (const room of [...from.rooms, ...to.rooms]) {
+    roomNames.set(room.id, room.name)
+  }
+  const nameFor = (item: EstimateSnapshotLineItem) =>
+    (item.room_id && roomNames.get(item.room_id)) || item.room_name || UNASSIGNED_ROOM
+
+  const lineItemDiffs: LineItemDiff[] = []
+
+  for (const before of beforeItems) {
+    const after = afterById.get(before.id)
+    if (!after) {
+      lineItemDiffs.push({
+        line_item_id: before.id,
+        change_type: 'removed',
+        description: before.description || '',
+        room_id: before.room_id,
+        room_name: nameFor(before),
+        unit: before.unit,
+        before,
+        after: null,
+        changed_fields: [],
+        quantity_delta: -num(before.quantity),
+        direct_cost_delta: round2(-num(before.direct_cost)),
+        client_price_delta: round2(-num(before.client_price)),
+      })
+      continue
+    }
+
+    const fields = changedFields(before, after)
+    if (fields.length === 0) continue
+
+    lineItemDiffs.push({
+      line_item_id: after.id,
+      change_type: 'changed',
+      description: after.description || '',
+      room_id: after.room_id,
+      room_name: nameFor(after),
+      unit: after.unit,
+      before,
+      after,
+      changed_fields: fields,
+      quantity_delta: num(after.quantity) - num(before.quantity),
+      direct_cost_delta: round2(num(after.direct_cost) - num(before.direct_cost)),
+      client_price_delta: round2(num(after.client_price) - num(before.client_price)),
+    })
+  }
+
+  for (const after of afterItems) {
+    if (beforeById.has(after.id)) continue
+    lineItemDiffs.push({
+      line_item_id: after.id,
+      change_type: 'added',
+      description: after.description || '',
+      room_id: after.room_id,
+      room_name: nameFor(after),
+      unit: after.unit,
+      before: null,
+      after,
+      changed_fields: [],
+      quantity_delta: num(after.quantity),
+      direct_cost_delta: round2(num(after.direct_cost)),
+      client_price_delta: round2(num(after.client_price)),
+    })
+  }
+
+  // Per-room rollup: before/after are computed from the full item sets so
+  // unchanged items still count toward the room totals
+  const roomMap = new Map<string, RoomDiff>()
+  const getRoom = (roomId: string | null, name: string): RoomDiff => {
+    const key = roomKey(roomId)
+    let entry = roomMap.get(key)
+    if (!entry) {
+      entry = {
+        room_id: roomId,
+        room_name: name,
+        added_count: 0,
+        removed_count: 0,
+        changed_count: 0,
+        direct_cost_before: 0,
+        direct_cost_after: 0,
+        direct_cost_delta: 0,
+        total_before: 0,
+        total_after: 0,
+        total_delta: 0,
+      }
+      roomMap.set(key, entry)
+    }
+    return entry
+  }
+
+  for (const item of beforeItems) {
+    const room = getRoom(item.room_id, nameFor(item))
+    room.direct_cost_before += num(item.direct_cost)
+    room.total_before += num(item.client_price)
+  }
+  for (const item of afterItems) {
+    const room = getRoom(item.room_id, nameFor(item))
+    room.direct_cost_after += num(item.direct_cost)
+    room.total_after += num(item.client_price)
+  }
+  for (const diff of lineItemDiffs) {
+    // A changed item that moved rooms is counted against its new room
+    const room = getRoom(diff.room_id, diff.room_name)
+    if (diff.change_type === 'added') room.added_count++
+    else if (diff.change_type === 'removed') room.removed_count++
+    else room.changed_count++
+  }
+
+  const roomDiffs = Array.from(roomMap.values())
+    .map(r => ({
+      ...r,
+      direct_cost_before: round2(r.direct_cost_before),
+      direct_cost_after: round2(r.direct_cost_after),
+      direct_cost_delta: round2(r.direct_cost_after - r.direct_cost_before),
+      total_before: round2(r.total_before),
+      total_after: round2(r.total_after),
+      total_delta: round2(r.total_after - r.total_before),
+    }))
+    .filter(r =>
+      r.added_count > 0 || r.removed_count > 0 || r.changed_count > 0 ||
+      r.total_delta !== 0 || r.direct_cost_delta !== 0
+    )
+    .sort((a, b) => a.room_name.localeCompare(b.room_name))
+
+  const beforeTotals = computeSnapshotTotals(from.line_items, from.rooms, beforeSelection)
+  const afterTotals = computeSnapshotTotals(to.line_items, to.rooms, afterSelection)
+
+  const order: Record<LineItemChangeType, number> = { removed: 0, changed: 1, added: 2 }
+  lineItemDiffs.sort((a, b) =>
+    a.room_name.localeCompare(b.room_name) ||
+    order[a.change_type] - order[b.change_type] ||
+    a.description.localeCompare(b.description)
+  )
+
+  return {
+    line_items: lineItemDiffs,
+    rooms: roomDiffs,
+    totals: {
+      total_before: beforeTotals.total,
+      total_after: afterTotals.total,
+      total_delta: round2(afterTotals.total - beforeTotals.total),
+      direct_cost_before: beforeTotals.direct_cost_total,
+      direct_cost_after: afterTotals.direct_cost_total,
+      direct_cost_delta: round2(afterTotals.direct_cost_total - beforeTotals.direct_cost_total),
+      added_count: lineItemDiffs.filter(d => d.change_type === 'added').length,
+      removed_count: lineItemDiffs.filter(d => d.change_type === 'removed').length,
+      changed_count: lineItemDiffs.filter(d => d.change_type === 'changed').length,
+    },
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Estimate Snapshots - Server helpers to freeze and load estimate state
+ *
+ * A snapshot is an immutable copy of an estimate's line items, rooms and
+ * totals. Snapshots are captured automatically at lifecycle transitions and
+ * when a proposal is created, and on demand from the Estimate tab.
+ *
+ * Callers are responsible for verifying estimate ownership; these helpers
+ * run against the caller's Supabase client so RLS still applies.
+ */
+
+import { createServerClient } from '@/lib/supabase/server'
+import { computeSnapshotTotals, type EstimateSnapshotPayload } from '@/lib/estimate-diff'
+import type {
+  EstimateSnapshotLineItem,
+  EstimateSnapshotRoom,
+  EstimateSnapshotTrigger,
+} from '@/types/db'
+
+type ServerSupabase = Awaited<ReturnType<typeof createServerClient>>
+
+/**
+ * Result type for captureEstimateSnapshot
+ */
+export type CaptureEstimateSnapshotResult =
+  | { ok: true; snapshotId: string; version: number }
+  | { ok: false; error: string }
+
+/**
+ * Load the live estimate in snapshot shape (line items, rooms, totals)
+ */
+export async function loadEstimatePayload(
+  supabase: ServerSupabase,
+  estimateId: string,
+  projectId: string
+): Promise<EstimateSnapshotPayload> {
+  const [
+    { data: lineItems, error: lineItemsError },
+    { data: rooms, error: roomsError },
+    { data: estimate },
+  ] = await Promise.all([
+    supabase
+      .from('estimate_line_items')
+      .select('id, description, cost_code, room_id, room_name, unit, quantity, labor_cost, material_cost, direct_cost, margin_percent, client_price, is_allowance, is_active, alternate_ids')
+      .eq('estimate_id', estimateId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('rooms')
+      .select('id, name, level, is_in_scope, floor_area_sqft, wall_area_sqft, ceiling_area_sqft')
+      .eq('project_id', projectId)
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('estimates')
+      .select('selected_alternate_ids')
+      .eq('id', estimateId)
+      .maybeSingle(),
+  ])
+
+  if (lineItemsError) {
+    throw new Error(`Failed to load line items: ${lineItemsError.message}`)
+  }
+  if (roomsError) {
+    throw new Error(`Failed to load rooms: ${roomsError.message}`)
+  }
+
+  const frozenItems: EstimateSnapshotLineItem[] = (lineItems || []).map(item => ({
+    id: item.id,
+    description: item.description,
+    cost_code: item.cost_code,
+    room_id: item.room_id,
+    room_name: item.room_name,
+    unit: item.unit,
+    quantity: item.quantity,
+    labor_cost: item.labor_cost,
+    material_cost: item.material_cost,
+    direct_cost: item.direct_cost,
+    margin_percent: item.margin_percent,
+    client_price: item.client_price,
+    is_allowance: item.is_allowance,
+    is_active: item.is_active,
+    alternate_ids: item.alternate_ids ?? [],
+  }))
+
+  const frozenRooms: EstimateSnapshotRoom[] = (rooms || []).map(room => ({
+    id: room.id,
+    name: room.name,
+    level: room.level,
+    is_in_scope: room.is_in_scope ?? true,
+    floor_area_sqft: room.floor_area_sqft,
+    wall_area_sqft: room.wall_area_sqft,
+    ceiling_area_sqft: room.ceiling_area_sqft,
+  }))
+
+  return {
+    line_items: frozenItems,
+    rooms: frozenRooms,
+    totals: computeSnapshotTotals(frozenItems, frozenRooms, estimate?.selected_alternate_ids ?? []),
+  }
+}
+
+/**
+ * Capture an immutable snapshot of the estimate's current state
+ *
+ * @param supabase - Server client for the authenticated user
+ * @param params.trigger - What caused the snapshot (lifecycle stage, proposal, manual)
+ * @param params.label - Optional user-facing label
+ * @param params.estimateStatus - Estimate status at capture time
+ * @param params.userId - User taking the snapshot (stored as created_by when a profile exists)
+ */
+export async function captureEstimateSnapshot(
+  supabase: ServerSupabase,
+  params: {
+    estimateId: string
+    projectId: string
+    trigger: EstimateSnapshotTrigger
+    estimateStatus: string
+    label?: string | null
+    userId?: string | null
+  }
+): Promise<CaptureEstimateSnapshotResult> {
+  try {
+    const payload = await loadEstimatePayload(supabase, params.estimateId, params.projectId)
+
+    // Next version number for this estimate
+    const { data: latest } = await supabase
+      .from('estimate_snapshots')
+      .select('version')
+      .eq('estimate_id', params.estimateId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const version = (latest?.version || 0) + 1
+
+    // created_by references profiles - only set it if the profile exists
+    let createdBy: string | null = null
+    if (params.userId) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('id', params.userId)
+        .maybeSingle()
+      createdBy = profile?.id ?? null
+    }
+
+    const { data: snapshot, error: insertError } = await supabase
+      .from('estimate_snapshots')
+      .insert({
+        estimate_id: params.estimateId,
+        project_id: params.projectId,
+        trigger: params.trigger,
+        label: params.label?.trim() || null,
+        estimate_status: params.estimateStatus,
+        version,
+        line_items: payload.line_items as any,
+        rooms: payload.rooms as any,
+        totals: payload.totals as any,
+        created_by: createdBy,
+      })
+      .select('id')
+      .single()
+
+    if (insertError || !snapshot) {
+      return { ok: false, error: insertError?.message || 'Failed to create snapshot' }
+    }
+
+    return { ok: true, snapshotId: snapshot.id, version }
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Failed to create snapshot',
+    }
+  }
+}
+
+/**
+ * Line items and rooms frozen in a snapshot, or null when it can't be read
+ */
+export async function loadSnapshotPayload(
+  supabase: ServerSupabase,
+  snapshotId: string
+): Promise<Pick<EstimateSnapshotPayload, 'line_items' | 'rooms'> | null> {
+  const { data: snapshot } = await supabase
+    .from('estimate_snapshots')
+    .select('line_items, rooms')
+    .eq('id', snapshotId)
+    .maybeSingle()
+
+  if (!snapshot) return null
+  return {
+    line_items: (snapshot.line_items || []) as EstimateSnapshotLineItem[],
+    rooms: (snapshot.rooms || []) as EstimateSnapshotRoom[],
+  }
+}
+
+/**
+ * Price of a proposal for a selection of its offered alternates, as it was
+ * sent: from the snapshot the proposal was created from, or (proposals
+ * without one) body_json.base_price plus the selected alternates' amounts.
+ * Never from the live estimate, which may have changed since the client
+ * was shown the proposal.
+ */
+export async function priceProposalSelection(
+  supabase: ServerSupabase,
+  proposal: { snapshot_id?: string | null; body_json: unknown; total_price?: number | string | null },
+  selectedAlternateIds: string[]
+): Promise<number> {
+  const snapshot = proposal.snapshot_id ? await loadSnapshotPayload(supabase, proposal.snapshot_id) : null
+  if (snapshot) {
+    return computeSnapshotTotals(snapshot.line_items, snapshot.rooms, selectedAlternateIds).total
+  }
+
+  const body = (proposal.body_json || {}) as {
+    base_price?: number
+    alternates?: Array<{ id: string; amount: number }>
+  }
+  let total = body.base_price ?? (Number(proposal.total_price) || 0)
+  for (const alternate of body.alternates || []) {
+    if (selectedAlternateIds.includes(alternate.id)) total += Number(alternate.amount) || 0
+  }
+  return Math.round(total * 100) / 100
+}
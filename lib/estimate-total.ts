@@ -0,0 +1,78 @@
+/**
+ * Estimate Total - Server helper to keep estimates.total in step with its
+ * line items
+ *
+ * estimates.total is the sum of client_price over active line items, leaving
+ * out rooms taken out of scope and alternates that weren't selected. Every
+ * action that changes a line item's price, scope or selection refreshes it
+ * here so the rule lives in one place.
+ *
+ * Callers are responsible for verifying estimate ownership; the helper runs
+ * against the caller's Supabase client so RLS still applies.
+ */
+
+import { createServerClient } from '@/lib/supabase/server'
+import { isIncludedBySelection } from '@/lib/estimate-alternates'
+
+type ServerSupabase = Awaited<ReturnType<typeof createServerClient>>
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/**
+ * Recompute estimates.total from the sum of client_price for all active
+ * in-scope line items. Returns the new total.
+ */
+export async function refreshEstimateTotal(
+  supabase: ServerSupabase,
+  estimateId: string,
+  projectId: string,
+): Promise<number> {
+  // Fetch all active line items, rooms for scope filtering, and the
+  // alternates accepted into the job
+  const [{ data: lineItems }, { data: rooms }, { data: estimate }] = await Promise.all([
+    supabase
+      .from('estimate_line_items')
+      .select('client_price, room_id, is_active, alternate_ids')
+      .eq('estimate_id', estimateId)
+      .neq('is_active', false),
+    supabase
+      .from('rooms')
+      .select('id, is_in_scope')
+      .eq('project_id', projectId),
+    supabase
+      .from('estimates')
+      .select('selected_alternate_ids')
+      .eq('id', estimateId)
+      .single(),
+  ])
+
+  const scopeMap = new Map<string, boolean>()
+  if (rooms) {
+    for (const r of rooms) {
+      scopeMap.set(r.id, r.is_in_scope ?? true)
+    }
+  }
+
+  let total = 0
+  if (lineItems) {
+    for (const li of lineItems) {
+      // Skip items from out-of-scope rooms
+      if (li.room_id && scopeMap.get(li.room_id) === false) continue
+      // Skip items in alternates that weren't selected
+      if (!isIncludedBySelection(li.alternate_ids, estimate?.selected_alternate_ids)) continue
+      total += Number(li.client_price ?? 0)
+    }
+  }
+
+  total = round2(total)
+
+  // Write to estimates table
+  await supabase
+    .from('estimates')
+    .update({ total })
+    .eq('id', estimateId)
+
+  return total
+}
@@ -0,0 +1,59 @@
+/**
+ * Field-level conflict detection for edits made against an older copy of a
+ * row (offline edits replayed later).
+ *
+ * The client sends the values it last saw for the fields it changed
+ * (`expected`). A field conflicts when the server's current value no longer
+ * matches what the client saw and also differs from the client's new value
+ * (both sides changed it, differently). Fields the client did not touch are
+ * never sent, so server-side changes to them are kept.
+ */
+
+export interface FieldConflict {
+  field: string
+  /** Value the client saw before editing */
+  expected: unknown
+  /** Value on the server now */
+  server: unknown
+  /** Value the client wants to write */
+  mine: unknown
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+/**
+ * Loose equality that tolerates the normalisation clients apply on load
+ * (null vs 0 for costs, numeric strings from NUMERIC columns)
+ */
+export function sameFieldValue(a: unknown, b: unknown): boolean {
+  if (isBlank(a) && isBlank(b)) return true
+  const aNumeric = typeof a === 'number' || (typeof a === 'string' && a.trim() !== '' && !isNaN(Number(a)))
+  const bNumeric = typeof b === 'number' || (typeof b === 'string' && b.trim() !== '' && !isNaN(Number(b)))
+  if ((aNumeric || isBlank(a)) && (bNumeric || isBlank(b)) && (aNumeric || bNumeric)) {
+    return Math.abs(Number(a ?? 0) - Number(b ?? 0)) < 0.005
+  }
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+  }
+  return String(a ?? '') === String(b ?? '')
+}
+
+export function findFieldConflicts(
+  current: Record<string, unknown>,
+  expected: Record<string, unknown>,
+  mine: Record<string, unknown>
+): FieldConflict[] {
+  return Object.keys(expected)
+    .filter(field => !sameFieldValue(current[field], expected[field]) && !sameFieldValue(current[field], mine[field]))
+    .map(field => ({ field, expected: expected[field], server: current[field], mine: mine[field] }))
+}
+
+/**
+ * Keys of `next` whose values differ from `base` — the fields actually
+ * edited when `next` is a full copy of the row
+ */
+export function changedFields<T extends Record<string, unknown>>(base: Partial<T>, next: T): Array<keyof T> {
+  return (Object.keys(next) as Array<keyof T>).filter(key => !sameFieldValue(base[key], next[key]))
+}
@@ -0,0 +1,106 @@
+/**
+ * Invoice Status and Aging Utilities
+ *
+ * Pure helpers for payment status and A/R aging. Mirrors the SQL
+ * derive_invoice_status() function so "overdue" stays correct as days pass
+ * without anything rewriting the stored status.
+ */
+
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue'
+
+export type PaymentMethod = 'check' | 'ach' | 'wire' | 'card' | 'cash' | 'other'
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'check', label: 'Check' },
+  { value: 'ach', label: 'ACH' },
+  { value: 'wire', label: 'Wire' },
+  { value: 'card', label: 'Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'other', label: 'Other' },
+]
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus'
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days_1_30', label: '1-30' },
+  { key: 'days_31_60', label: '31-60' },
+  { key: 'days_61_90', label: '61-90' },
+  { key: 'days_90_plus', label: '90+' },
+]
+
+export interface InvoicePaymentState {
+  status: string
+  total_amount: number
+  amount_paid?: number | null
+  due_date: string | null
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Today as YYYY-MM-DD in local time, matching how due dates are stored
+ */
+export function todayIsoDate(): string {
+  const now = new Date()
+  const month = String(now.getMonth() + 1).padStart(2, '0')
+  const day = String(now.getDate()).padStart(2, '0')
+  return `${now.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Amount still owed on an invoice (never negative)
+ */
+export function invoiceBalance(invoice: Pick<InvoicePaymentState, 'total_amount' | 'amount_paid'>): number {
+  return round2(Math.max(0, (Number(invoice.total_amount) || 0) - (Number(invoice.amount_paid) || 0)))
+}
+
+/**
+ * Current status of an invoice from its stored status, payments and due date
+ */
+export function deriveInvoiceStatus(invoice: InvoicePaymentState, today: string = todayIsoDate()): InvoiceStatus {
+  const total = Number(invoice.total_amount) || 0
+  const paid = Number(invoice.amount_paid) || 0
+
+  if (paid > 0 && paid >= total) return 'paid'
+  if (invoice.status === 'draft' && paid <= 0) return 'draft'
+  if (invoice.due_date && invoice.due_date.slice(0, 10) < today) return 'overdue'
+  if (paid > 0) return 'partially_paid'
+  return 'sent'
+}
+
+/**
+ * Display label for an invoice status ("partially_paid" -> "Partially Paid")
+ */
+export function formatInvoiceStatus(status: string): string {
+  return status
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Whole days between the due date (or issue date when there is none) and today.
+ * Zero or negative means the invoice is not yet due.
+ */
+export function daysPastDue(
+  invoice: { due_date: string | null; issued_date: string },
+  today: string = todayIsoDate()
+): number {
+  const reference = (invoice.due_date || invoice.issued_date).slice(0, 10)
+  const ms = Date.parse(`${today}T00:00:00Z`) - Date.parse(`${reference}T00:00:00Z`)
+  return Math.floor(ms / 86_400_000)
+}
+
+/**
+ * Aging bucket for an open invoice
+ */
+export function agingBucket(daysPast: number): AgingBucket {
+  if (daysPast <= 0) return 'current'
+  if (daysPast <= 30) return 'days_1_30'
+  if (daysPast <= 60) return 'days_31_60'
+  if (daysPast <= 90) return 'days_61_90'
+  return 'days_90_plus'
+}
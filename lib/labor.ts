@@ -0,0 +1,163 @@
+/**
+ * Labor Hours Utilities
+ *
+ * Pure helpers for hours-based labor costing. Safe to import from both
+ * client and server code.
+ *
+ *   labor_hours = quantity × labor_hours_per_unit × productivity_factor
+ *   labor_cost  = labor_hours × burdened_hourly_rate
+ *
+ * direct_cost stays labor + material + overhead (actions/estimate-line-items).
+ * Hours are worker-hours; crew size only converts them into crew-days.
+ */
+
+import type { LaborRate } from '@/types/db'
+import { applyMarkupStack, type MarkupStack } from '@/lib/pricing/markup'
+
+/** Working hours in one crew-day */
+export const HOURS_PER_CREW_DAY = 8
+
+export type LaborRateTerms = Pick<LaborRate, 'burdened_hourly_rate' | 'crew_size' | 'productivity_factor'>
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/**
+ * Whether a line item is costed from hours
+ */
+export function isHoursBased(item: { labor_hours_per_unit?: number | null }): boolean {
+  return item.labor_hours_per_unit !== null && item.labor_hours_per_unit !== undefined
+}
+
+/**
+ * Total labor hours for a quantity, or null when either side is unknown
+ */
+export function computeLaborHours(
+  quantity: number | null | undefined,
+  hoursPerUnit: number | null | undefined,
+  rate?: LaborRateTerms | null
+): number | null {
+  if (quantity === null || quantity === undefined || hoursPerUnit === null || hoursPerUnit === undefined) {
+    return null
+  }
+  const productivity = rate ? Number(rate.productivity_factor) || 1 : 1
+  return round2(Number(quantity) * Number(hoursPerUnit) * productivity)
+}
+
+/**
+ * Labor cost for a number of hours, or null without a rate
+ */
+export function computeLaborCost(laborHours: number | null, rate?: LaborRateTerms | null): number | null {
+  if (laborHours === null || !rate) return null
+  return round2(laborHours * Number(rate.burdened_hourly_rate))
+}
+
+/**
+ * Calendar crew-days for a number of hours
+ */
+export function computeCrewDays(laborHours: number | null, rate?: LaborRateTerms | null): number | null {
+  if (laborHours === null) return null
+  const crewSize = rate ? Math.max(1, Number(rate.crew_size) || 1) : 1
+  return Math.round((laborHours / (crewSize * HOURS_PER_CREW_DAY)) * 10) / 10
+}
+
+/**
+ * Labor fields for an hours-based item. labor_cost is only returned when a
+ * rate is known; without one the caller keeps its stored labor_cost.
+ */
+export function deriveLaborFromHours(
+  item: { quantity: number | null | undefined; labor_hours_per_unit?: number | null },
+  rate?: LaborRateTerms | null
+): { labor_hours: number | null; labor_cost?: number | null } {
+  const laborHours = computeLaborHours(item.quantity, item.labor_hours_per_unit, rate)
+  return rate
+    ? { labor_hours: laborHours, labor_cost: computeLaborCost(laborHours, rate) }
+    : { labor_hours: laborHours }
+}
+
+/**
+ * Short label for a rate, e.g. "Tile - 2-person crew ($68.00/hr)"
+ */
+export function formatLaborRate(rate: Pick<LaborRate, 'trade' | 'crew_name' | 'crew_size' | 'burdened_hourly_rate'>): string {
+  const crew = rate.crew_name || (rate.crew_size > 1 ? `${rate.crew_size}-person crew` : null)
+  return `${rate.trade}${crew ? ` - ${crew}` : ''} ($${Number(rate.burdened_hourly_rate).toFixed(2)}/hr)`
+}
+
+export interface LaborHoursSummary {
+  total: number
+  byRoom: Map<string, number>
+  byTrade: Map<string, number>
+}
+
+/**
+ * Labor hours grouped per room and per trade. The trade is the item's labor
+ * rate trade, falling back to its category.
+ *
+ * @param items - Items already filtered for scope (active, in-scope rooms)
+ */
+export function summarizeLaborHours(
+  items: Array<{
+    labor_hours?: number | null
+    labor_rate_id?: string | null
+    room_name?: string | null
+    category?: string | null
+  }>,
+  ratesById: Map<string, Pick<LaborRate, 'trade'>>
+): LaborHoursSummary {
+  const summary: LaborHoursSummary = { total: 0, byRoom: new Map(), byTrade: new Map() }
+
+  for (const item of items) {
+    const hours = Number(item.labor_hours ?? 0)
+    if (!hours) continue
+
+    const room = item.room_name || 'Unassigned'
+    const trade = (item.labor_rate_id && ratesById.get(item.labor_rate_id)?.trade) || item.category || 'Other'
+
+    summary.total += hours
+    summary.byRoom.set(room, (summary.byRoom.get(room) ?? 0) + hours)
+    summary.byTrade.set(trade, (summary.byTrade.get(trade) ?? 0) + hours)
+  }
+
+  summary.total = round2(summary.total)
+  return summary
+}
+
+/**
+ * All derived cost fields of an hours-based item at a new quantity - used
+ * when quantity changes outside the editor (room dimension changes and
+ * takeoff), marked up with the item's stack. Without a rate only
+ * labor_hours is returned.
+ */
+export function costHoursBasedItem(
+  item: {
+    labor_hours_per_unit: number | null
+    material_cost: number | null
+    overhead_cost: number | null
+    is_allowance?: boolean | null
+  },
+  quantity: number | null,
+  rate: LaborRateTerms | null | undefined,
+  stack: MarkupStack
+): {
+  labor_hours: number | null
+  labor_cost?: number | null
+  direct_cost?: number | null
+  client_price?: number | null
+  margin_percent?: number
+} {
+  const labor = deriveLaborFromHours({ quantity, labor_hours_per_unit: item.labor_hours_per_unit }, rate)
+  if (labor.labor_cost === undefined) return labor
+
+  const directCost = round2(Number(labor.labor_cost ?? 0) + Number(item.material_cost ?? 0) + Number(item.overhead_cost ?? 0))
+  const priced = applyMarkupStack(
+    { direct_cost: directCost, material_cost: item.material_cost, is_allowance: item.is_allowance },
+    stack
+  )
+  return {
+    ...labor,
+    direct_cost: priced.direct_cost,
+    client_price: priced.client_price,
+    margin_percent: priced.markup_percent,
+  }
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react"
+import { toast } from "sonner"
+import {
+  OUTBOX_CHANGE_EVENT,
+  OUTBOX_SYNC_TAG,
+  enqueueOutbox,
+  isOutboxSupported,
+  listOutbox,
+  removeOutboxEntry,
+  updateOutboxEntry,
+  type EnqueueInput,
+  type OutboxEntry,
+} from "@/lib/offline/outbox"
+import { replayOutbox } from "@/lib/offline/replay"
+
+interface OfflineContextType {
+  isOnline: boolean
+  isSyncing: boolean
+  entries: OutboxEntry[]
+  pendingCount: number
+  conflictCount: number
+  /** Queue work for replay once back online */
+  queue: (input: EnqueueInput) => Promise<void>
+  /** Replay the outbox now */
+  sync: () => Promise<void>
+  /** Keep my copy (overwrite the server) or take the server's and drop mine */
+  resolveConflict: (id: number, keep: 'mine' | 'server') => Promise<void>
+  /** Put a failed entry back in the queue */
+  retry: (id: number) => Promise<void>
+}
+
+const OfflineContext = createContext<OfflineContextType>({
+  isOnline: true,
+  isSyncing: false,
+  entries: [],
+  pendingCount: 0,
+  conflictCount: 0,
+  queue: async () => {},
+  sync: async () => {},
+  resolveConflict: async () => {},
+  retry: async () => {},
+})
+
+export function OfflineProvider({ children }: { children: ReactNode }) {
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const syncingRef = useRef(false)
+
+  const refresh = useCallback(async () => {
+    if (!isOutboxSupported()) return
+    try {
+      setEntries(await listOutbox())
+    } catch (err) {
+      console.error('[Offline] Failed to read outbox:', err)
+    }
+  }, [])
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !isOutboxSupported() || !navigator.onLine) return
+    syncingRef.current = true
+    setIsSyncing(true)
+    try {
+      const summary = await replayOutbox()
+      if (summary.synced > 0) {
+        toast.success(`Synced ${summary.synced} offline change${summary.synced === 1 ? '' : 's'}`)
+      }
+      if (summary.conflicts > 0) {
+        toast.warning(`${summary.conflicts} offline change${summary.conflicts === 1 ? '' : 's'} conflict with newer server data`, {
+          description: 'Open the sync queue to choose which version to keep.',
+        })
+      }
+    } catch (err) {
+      console.error('[Offline] Replay failed:', err)
+    } finally {
+      syncingRef.current = false
+      setIsSyncing(false)
+    }
+  }, [])
+
+  // Register the service worker and pick up anything left from last time
+  useEffect(() => {
+    setIsOnline(navigator.onLine)
+    refresh().then(() => sync())
+
+    if (!('serviceWorker' in navigator)) return
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.warn('[Offline] Service worker registration failed:', err)
+    })
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'sync' && event.data.tag === OUTBOX_SYNC_TAG) sync()
+    }
+    navigator.serviceWorker.addEventListener('message', handleMessage)
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage)
+  }, [refresh, sync])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      sync()
+    }
+    const handleOffline = () => setIsOnline(false)
+    const handleChange = () => { refresh() }
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    window.addEventListener(OUTBOX_CHANGE_EVENT, handleChange)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      window.removeEventListener(OUTBOX_CHANGE_EVENT, handleChange)
+    }
+  }, [refresh, sync])
+
+  const queue = useCallback(async (input: EnqueueInput) => {
+    await enqueueOutbox(input)
+  }, [])
+
+  const resolveConflict = useCallback(async (id: number, keep: 'mine' | 'server') => {
+    if (keep === 'server') {
+      await removeOutboxEntry(id)
+    } else {
+      await updateOutboxEntry(id, { status: 'pending', conflicts: [], error: null, force: true })
+    }
+    await sync()
+  }, [sync])
+
+  const retry = useCallback(async (id: number) => {
+    await updateOutboxEntry(id, { status: 'pending', error: null })
+    await sync()
+  }, [sync])
+
+  const pendingCount = entries.filter(entry => entry.status === 'pending').length
+  const conflictCount = entries.length - pendingCount
+
+  return (
+    <OfflineContext.Provider value={{ isOnline, isSyncing, entries, pendingCount, conflictCount, queue, sync, resolveConflict, retry }}>
+      {children}
+    </OfflineContext.Provider>
+  )
+}
+
+export function useOffline() {
+  return useContext(OfflineContext)
+}
@@ -0,0 +1,228 @@
+import type { FieldConflict } from '@/lib/field-conflicts'
+import type { UpdateLineItemPatch } from '@/actions/estimate-line-items'
+import type { FileTag } from '@/lib/project-files'
+
+/**
+ * IndexedDB outbox for work captured while offline.
+ *
+ * Entries are replayed oldest first (see replay.ts). Edits keep the copy of
+ * the row they were made against (`base`) so the server can tell when the
+ * row changed in the meantime. Several edits to the same row while offline
+ * collapse into one entry that keeps the original base.
+ */
+
+const DB_NAME = 'estimatix-offline'
+const DB_VERSION = 1
+const STORE = 'outbox'
+
+/** Background Sync tag the service worker wakes pages with */
+export const OUTBOX_SYNC_TAG = 'estimatix-outbox'
+/** Window event fired whenever the outbox changes */
+export const OUTBOX_CHANGE_EVENT = 'estimatix:outbox-change'
+
+export type OutboxEntryStatus = 'pending' | 'conflict' | 'failed'
+
+export type RoomDimensions = {
+  length_ft: number | null
+  width_ft: number | null
+  ceiling_height_ft: number | null
+}
+
+export type OutboxPayload =
+  | {
+      kind: 'line_item_update'
+      lineItemId: string
+      patch: UpdateLineItemPatch
+      base: Partial<UpdateLineItemPatch>
+    }
+  | {
+      kind: 'room_dimensions'
+      roomId: string
+      dimensions: RoomDimensions
+      base: RoomDimensions
+    }
+  | {
+      kind: 'file_upload'
+      file: Blob
+      fileName: string
+      tag: FileTag
+      userId: string
+    }
+  | {
+      kind: 'voice_recording'
+      blob: Blob
+      userId: string
+      recordedAt: string
+    }
+
+export type OutboxEntryKind = OutboxPayload['kind']
+
+export interface OutboxEntry {
+  id: number
+  projectId: string | null
+  /** Row the entry writes to; conflicting entries block later ones for the same key */
+  entityKey: string
+  /** Short description for the queue UI, e.g. "Kitchen – Tile backsplash" */
+  label: string
+  payload: OutboxPayload
+  status: OutboxEntryStatus
+  conflicts: FieldConflict[]
+  error: string | null
+  /** Skip the conflict check on the next replay (user chose to keep their copy) */
+  force: boolean
+  attempts: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface EnqueueInput {
+  projectId: string | null
+  label: string
+  payload: OutboxPayload
+}
+
+export function entityKeyFor(payload: OutboxPayload): string {
+  switch (payload.kind) {
+    case 'line_item_update':
+      return `line_item:${payload.lineItemId}`
+    case 'room_dimensions':
+      return `room:${payload.roomId}`
+    case 'file_upload':
+      return `file:${payload.fileName}:${payload.file.size}`
+    case 'voice_recording':
+      return `recording:${payload.recordedAt}`
+  }
+}
+
+/**
+ * True when an error means the request never reached the server (offline,
+ * DNS, dropped connection) rather than the server rejecting it
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  if (err instanceof TypeError) return true
+  const message = err instanceof Error ? err.message : typeof err === 'string' ? err : ''
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message)
+}
+
+export function isOutboxSupported(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, mode)
+  const result = await promisify(fn(tx.objectStore(STORE)))
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+  return result
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(OUTBOX_CHANGE_EVENT))
+}
+
+/**
+ * Ask the service worker to wake us when connectivity returns. Browsers
+ * without Background Sync fall back to the page's `online` listener.
+ */
+async function requestBackgroundSync() {
+  if (!('serviceWorker' in navigator)) return
+  try {
+    const registration = await navigator.serviceWorker.ready
+    const sync = (registration as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> }
+    }).sync
+    await sync?.register(OUTBOX_SYNC_TAG)
+  } catch (err) {
+    console.warn('[Outbox] Background sync registration failed:', err)
+  }
+}
+
+/** All entries, oldest first */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  if (!isOutboxSupported()) return []
+  const entries = await withStore<OutboxEntry[]>('readonly', store => store.getAll())
+  return entries.sort((a, b) => a.id - b.id)
+}
+
+export async function enqueueOutbox({ projectId, label, payload }: EnqueueInput): Promise<void> {
+  const entityKey = entityKeyFor(payload)
+  const now = new Date().toISOString()
+
+  // Fold repeated edits of the same row into the pending entry
+  if (payload.kind === 'line_item_update' || payload.kind === 'room_dimensions') {
+    const existing = (await listOutbox()).find(entry => entry.entityKey === entityKey && entry.status === 'pending')
+    if (existing && existing.payload.kind === payload.kind) {
+      const merged: OutboxPayload = { ...payload, base: existing.payload.base } as OutboxPayload
+      await withStore('readwrite', store => store.put({ ...existing, label, payload: merged, updatedAt: now }))
+      notifyChange()
+      void requestBackgroundSync()
+      return
+    }
+  }
+
+  const entry: Omit<OutboxEntry, 'id'> = {
+    projectId,
+    entityKey,
+    label,
+    payload,
+    status: 'pending',
+    conflicts: [],
+    error: null,
+    force: false,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await withStore('readwrite', store => store.add(entry))
+  notifyChange()
+  void requestBackgroundSync()
+}
+
+export async function updateOutboxEntry(
+  id: number,
+  changes: Partial<Pick<OutboxEntry, 'status' | 'conflicts' | 'error' | 'force' | 'attempts'>>
+): Promise<void> {
+  const existing = await withStore<OutboxEntry | undefined>('readonly', store => store.get(id))
+  if (!existing) return
+  await withStore('readwrite', store => store.put({ ...existing, ...changes, updatedAt: new Date().toISOString() }))
+  notifyChange()
+}
+
+export async function removeOutboxEntry(id: number): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+  notifyChange()
+}
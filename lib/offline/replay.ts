@@ -0,0 +1,148 @@
+import { updateLineItem, type UpdateLineItemPatch } from '@/actions/estimate-line-items'
+import { updateRoomDimensions } from '@/actions/rooms'
+import { changedFields, type FieldConflict } from '@/lib/field-conflicts'
+import { saveAudioRecording, uploadProjectFile } from '@/lib/project-files'
+import {
+  isNetworkError,
+  listOutbox,
+  removeOutboxEntry,
+  updateOutboxEntry,
+  type OutboxEntry,
+} from './outbox'
+
+type ReplayOutcome =
+  | { status: 'done' }
+  | { status: 'conflict'; error: string; conflicts: FieldConflict[] }
+  | { status: 'failed'; error: string }
+
+export interface ReplaySummary {
+  synced: number
+  conflicts: number
+  failed: number
+  /** Stopped early because the network went away again */
+  interrupted: boolean
+}
+
+function isMissingRow(error: string | undefined): boolean {
+  return !!error && /not found/i.test(error)
+}
+
+function pick<T extends Record<string, unknown>>(source: Partial<T>, keys: Array<keyof T>): Partial<T> {
+  return Object.fromEntries(keys.map(key => [key, source[key]])) as Partial<T>
+}
+
+async function replayEntry(entry: OutboxEntry): Promise<ReplayOutcome> {
+  const { payload } = entry
+
+  switch (payload.kind) {
+    case 'line_item_update': {
+      // Send only what was edited so server-side changes to other fields survive
+      const fields = changedFields<UpdateLineItemPatch>(payload.base, payload.patch)
+      if (fields.length === 0) return { status: 'done' }
+
+      const result = await updateLineItem(
+        payload.lineItemId,
+        pick(payload.patch, fields),
+        entry.force ? {} : { expected: pick(payload.base, fields) }
+      )
+      if (result.success) return { status: 'done' }
+      if (result.conflicts?.length || isMissingRow(result.error)) {
+        return { status: 'conflict', error: result.error || 'Line item changed on the server', conflicts: result.conflicts || [] }
+      }
+      return { status: 'failed', error: result.error || 'Failed to save line item' }
+    }
+
+    case 'room_dimensions': {
+      const result = await updateRoomDimensions({
+        roomId: payload.roomId,
+        ...payload.dimensions,
+        expected: entry.force ? undefined : payload.base,
+      })
+      if (result.success) return { status: 'done' }
+      if (result.conflicts?.length || isMissingRow(result.error)) {
+        return { status: 'conflict', error: result.error || 'Room changed on the server', conflicts: result.conflicts || [] }
+      }
+      return { status: 'failed', error: result.error || 'Failed to save room dimensions' }
+    }
+
+    case 'file_upload': {
+      if (!entry.projectId) return { status: 'failed', error: 'File upload has no project' }
+      await uploadProjectFile({
+        file: payload.file,
+        fileName: payload.fileName,
+        projectId: entry.projectId,
+        userId: payload.userId,
+        tag: payload.tag,
+      })
+      return { status: 'done' }
+    }
+
+    case 'voice_recording': {
+      await saveAudioRecording({
+        blob: payload.blob,
+        userId: payload.userId,
+        projectId: entry.projectId,
+        recordedAt: new Date(payload.recordedAt),
+      })
+      return { status: 'done' }
+    }
+  }
+}
+
+/**
+ * Replay pending outbox entries oldest first.
+ *
+ * Stops at the first network failure so order is kept for the next run.
+ * An entry that conflicts or fails stays in the outbox for the user to
+ * resolve, and later entries for the same row wait behind it.
+ */
+export async function replayOutbox(): Promise<ReplaySummary> {
+  const summary: ReplaySummary = { synced: 0, conflicts: 0, failed: 0, interrupted: false }
+  const blocked = new Set<string>()
+
+  for (const entry of await listOutbox()) {
+    if (entry.status !== 'pending' || blocked.has(entry.entityKey)) {
+      blocked.add(entry.entityKey)
+      continue
+    }
+
+    let outcome: ReplayOutcome
+    try {
+      outcome = await replayEntry(entry)
+    } catch (err) {
+      if (isNetworkError(err)) {
+        summary.interrupted = true
+        break
+      }
+      outcome = { status: 'failed', error: err instanceof Error ? err.message : 'Sync failed' }
+    }
+
+    if (outcome.status === 'done') {
+      await removeOutboxEntry(entry.id)
+      summary.synced++
+      continue
+    }
+
+    blocked.add(entry.entityKey)
+    if (outcome.status === 'conflict') {
+      summary.conflicts++
+      await updateOutboxEntry(entry.id, {
+        status: 'conflict',
+        conflicts: outcome.conflicts,
+        error: outcome.error,
+        force: false,
+        attempts: entry.attempts + 1,
+      })
+    } else {
+      summary.failed++
+      await updateOutboxEntry(entry.id, {
+        status: 'failed',
+        error: outcome.error,
+        force: false,
+        attempts: entry.attempts + 1,
+      })
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,211 @@
+/**
+ * Pay Application Utilities
+ *
+ * Pure math for AIA G702/G703-style progress billing. Safe to import from
+ * both client and server code - the drawer uses it for the live preview and
+ * createPayApplication recomputes everything server-side with the same code.
+ *
+ * Percent complete is always "to date" (cumulative). Work completed this
+ * period is the difference between that and what has already been billed.
+ */
+
+export interface PayApplicationTask {
+  id: string
+  description: string
+  price: number
+  billed_amount: number
+  /** Retainage already held on this task by earlier invoices */
+  previous_retainage?: number
+}
+
+/** Percent complete requested for one task on a new pay application */
+export interface PayApplicationLineInput {
+  taskId: string
+  /** Cumulative percent complete to date (0-100) */
+  percentComplete: number
+}
+
+/**
+ * One continuation sheet (G703) row
+ */
+export interface PayApplicationLine {
+  taskId: string
+  description: string
+  /** C - scheduled value */
+  scheduledValue: number
+  /** D - work completed in previous periods */
+  previousAmount: number
+  /** E - work completed this period */
+  thisPeriodAmount: number
+  /** G - total completed to date (D + E) */
+  completedToDate: number
+  /** G / C */
+  percentComplete: number
+  /** H - balance to finish (C - G) */
+  balanceToFinish: number
+  previousRetainage: number
+  /** Retainage withheld on this period's work */
+  retainageAmount: number
+  /** I - retainage held to date */
+  retainageToDate: number
+}
+
+/**
+ * Application summary (G702)
+ */
+export interface PayApplicationSummary {
+  /** 1 - contract sum (sum of scheduled values) */
+  contractSum: number
+  /** 4 - total completed to date */
+  completedToDate: number
+  /** 5 - retainage held to date */
+  retainageToDate: number
+  /** 6 - total earned less retainage */
+  earnedLessRetainage: number
+  /** 7 - less previous certificates for payment */
+  previousCertificates: number
+  /** 8 - current payment due */
+  currentPaymentDue: number
+  /** 9 - balance to finish, including retainage */
+  balanceToFinishWithRetainage: number
+  thisPeriodAmount: number
+  thisPeriodRetainage: number
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Percent of a task already billed (0-100). Credit tasks (negative price)
+ * are billed with negative amounts, so the ratio works the same way.
+ */
+export function previousPercentComplete(task: Pick<PayApplicationTask, 'price' | 'billed_amount'>): number {
+  const price = Number(task.price) || 0
+  if (price === 0) return 0
+  return round2(Math.min(100, Math.max(0, ((Number(task.billed_amount) || 0) / price) * 100)))
+}
+
+/**
+ * Build a continuation sheet row from a task and its percent complete to date.
+ *
+ * Percent complete is clamped to [previous %, 100] so a line can never be
+ * un-billed or billed past its scheduled value. Credit lines (negative
+ * scheduled value) progress towards their value the same way.
+ */
+export function computePayApplicationLine(
+  task: PayApplicationTask,
+  percentCompleteToDate: number,
+  retainagePercent: number
+): PayApplicationLine {
+  const scheduledValue = round2(Number(task.price) || 0)
+  // Work towards the scheduled value: upwards for a charge, downwards for a credit
+  const sign = scheduledValue < 0 ? -1 : 1
+  const previousAmount = round2(sign * Math.min(sign * (Number(task.billed_amount) || 0), sign * scheduledValue))
+  const previousRetainage = round2(Number(task.previous_retainage) || 0)
+
+  const percent = Math.min(100, Math.max(Number(percentCompleteToDate) || 0, previousPercentComplete(task)))
+  // 100% bills exactly the remaining balance so rounding never leaves pennies
+  const completedToDate = percent >= 100
+    ? scheduledValue
+    : sign * Math.max(sign * previousAmount, sign * round2(scheduledValue * percent / 100))
+  const thisPeriodAmount = round2(completedToDate - previousAmount)
+  const retainageAmount = round2(thisPeriodAmount * (Math.max(0, Number(retainagePercent) || 0) / 100))
+
+  return {
+    taskId: task.id,
+    description: task.description,
+    scheduledValue,
+    previousAmount,
+    thisPeriodAmount,
+    completedToDate,
+    percentComplete: scheduledValue !== 0 ? round2((completedToDate / scheduledValue) * 100) : 0,
+    balanceToFinish: round2(scheduledValue - completedToDate),
+    previousRetainage,
+    retainageAmount,
+    retainageToDate: round2(previousRetainage + retainageAmount),
+  }
+}
+
+/**
+ * Roll continuation sheet rows up into the application summary
+ */
+export function summarizePayApplication(lines: PayApplicationLine[]): PayApplicationSummary {
+  const sum = (pick: (line: PayApplicationLine) => number) =>
+    round2(lines.reduce((total, line) => total + pick(line), 0))
+
+  const contractSum = sum(line => line.scheduledValue)
+  const completedToDate = sum(line => line.completedToDate)
+  const retainageToDate = sum(line => line.retainageToDate)
+  const thisPeriodAmount = sum(line => line.thisPeriodAmount)
+  const thisPeriodRetainage = sum(line => line.retainageAmount)
+  const earnedLessRetainage = round2(completedToDate - retainageToDate)
+  const previousCertificates = round2(
+    sum(line => line.previousAmount) - sum(line => line.previousRetainage)
+  )
+
+  return {
+    contractSum,
+    completedToDate,
+    retainageToDate,
+    earnedLessRetainage,
+    previousCertificates,
+    currentPaymentDue: round2(earnedLessRetainage - previousCertificates),
+    balanceToFinishWithRetainage: round2(contractSum - earnedLessRetainage),
+    thisPeriodAmount,
+    thisPeriodRetainage,
+  }
+}
+
+/**
+ * Continuation sheet and summary for a new pay application.
+ *
+ * Every task with a non-zero price gets a row, credits included; tasks the
+ * request doesn't mention stay at what was already billed. Throws when the
+ * request is invalid: an unknown task, a percent outside 0-100 or below what
+ * was billed, no line moving, or a period that nets to a credit.
+ */
+export function planPayApplication(
+  tasks: PayApplicationTask[],
+  requested: PayApplicationLineInput[],
+  retainagePercent: number
+): { lines: PayApplicationLine[]; summary: PayApplicationSummary } {
+  if (retainagePercent < 0 || retainagePercent > 100) {
+    throw new Error('Retainage must be between 0% and 100%')
+  }
+
+  const billable = tasks.filter(task => (Number(task.price) || 0) !== 0)
+  if (billable.length === 0) {
+    throw new Error('This project has no priced tasks to bill')
+  }
+
+  const percentByTask = new Map<string, number>()
+  for (const line of requested) {
+    if (!billable.some(task => task.id === line.taskId)) {
+      throw new Error('Pay application includes a task that is not on this project')
+    }
+    if (line.percentComplete < 0 || line.percentComplete > 100) {
+      throw new Error('Percent complete must be between 0 and 100')
+    }
+    percentByTask.set(line.taskId, line.percentComplete)
+  }
+
+  const lines = billable.map(task => {
+    const previousPercent = previousPercentComplete(task)
+    const percent = percentByTask.get(task.id)
+    if (percent !== undefined && percent + 0.005 < previousPercent) {
+      throw new Error(`"${task.description}" is already billed to ${previousPercent.toFixed(1)}%; percent complete can't go down`)
+    }
+    return computePayApplicationLine(task, percent ?? previousPercent, retainagePercent)
+  })
+
+  const summary = summarizePayApplication(lines)
+  if (lines.every(line => line.thisPeriodAmount === 0)) {
+    throw new Error('No work completed this period - raise percent complete on at least one task')
+  }
+  if (summary.thisPeriodAmount < 0) {
+    throw new Error('This period nets to a credit - bill credit lines together with completed work')
+  }
+
+  return { lines, summary }
+}
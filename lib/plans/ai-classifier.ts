@@ -11,8 +11,14 @@
  * - Uses deterministic naming: "Bathroom 1 – Level 2"
  * - Parses dimensions into length_ft / width_ft
  * - NO PRICING - all pricing fields are null
+ *
+ * SCHEDULES: door, window and room finish schedule tables
+ * - Pages classified as schedules, or whose text names one, are read into
+ *   structured rows alongside the room extraction
  */
 
+import { chatJson, type ChatContentPart, type LLMProvider } from '@/lib/ai'
+
 import {
   type PageClassification,
   type PageType,
@@ -20,7 +26,14 @@ import {
   type LineItemScaffold,
   type Pass1Output,
   type Pass2Output,
+  type ScheduleExtraction,
+  type DoorScheduleEntry,
+  type WindowScheduleEntry,
+  type RoomFinishEntry,
   PageClassificationSchema,
+  DoorScheduleEntrySchema,
+  WindowScheduleEntrySchema,
+  RoomFinishEntrySchema,
   ExtractedRoomSchema,
   LineItemScaffoldSchema,
   ROOM_RELEVANT_PAGE_TYPES,
@@ -35,31 +48,40 @@ import {
   type SheetRoomResult,
 } from './room-processor'
 
+import { pageContainsSchedule } from './pdf-utils'
+
 // =============================================================================
 // Types
 // =============================================================================
 
 interface ClassifyPagesInput {
   pages: Array<{ pageNumber: number; text: string }>
-  apiKey: string
+  provider: LLMProvider
 }
 
 interface ExtractRoomsInput {
   pageTexts: string[]
   pageNumbers: number[]
-  apiKey: string
+  provider: LLMProvider
 }
 
 /** New: per-sheet extraction input */
 interface ExtractRoomsPerSheetInput {
   sheet: SheetInfo
   pageText: string
-  apiKey: string
+  provider: LLMProvider
+}
+
+interface ExtractSchedulesInput {
+  pageNumber: number
+  sheetTitle: string
+  pageText: string
+  provider: LLMProvider
 }
 
 interface GenerateLineItemsInput {
   rooms: ExtractedRoom[]
-  apiKey: string
+  provider: LLMProvider
 }
 
 /** Enriched classification with level detection */
@@ -79,7 +101,7 @@ export interface EnrichedPageClassification extends PageClassification {
 export async function classifyPagesWithAI(
   input: ClassifyPagesInput
 ): Promise<Pass1Output> {
-  const { pages, apiKey } = input
+  const { pages, provider } = input
   
   if (pages.length === 0) {
     return { pages: [], totalPages: 0 }
@@ -125,40 +147,15 @@ PRIORITY: Accurately identify floor_plan and room_schedule pages - they contain
   ).join('\n\n')
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Classify these ${pages.length} pages:\n\n${userContent}` }
-        ],
-        temperature: 0.2,
-        max_tokens: 4000,
-        response_format: { type: 'json_object' },
-      }),
+    const parsed = await chatJson(provider, {
+      model: 'fast',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Classify these ${pages.length} pages:\n\n${userContent}` }
+      ],
+      temperature: 0.2,
+      maxTokens: 4000,
     })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error('[Pass1] Classification API error:', errorData)
-      // Return fallback classifications
-      return createFallbackClassifications(pages)
-    }
-
-    const result = await response.json()
-    const content = result.choices?.[0]?.message?.content
-    
-    if (!content) {
-      console.warn('[Pass1] No content in response, using fallback')
-      return createFallbackClassifications(pages)
-    }
-
-    const parsed = JSON.parse(content)
     const rawClassifications = Array.isArray(parsed) 
       ? parsed 
       : (parsed.pages || parsed.classifications || [])
@@ -372,6 +369,37 @@ export function groupPagesByLevel(
     }))
 }
 
+/** Schedule tables worth extracting; "fixture schedule" etc. are not */
+const SCHEDULE_TABLE_PATTERN = /\b(door|window|opening|room finish|finish)\s+schedule\b/i
+
+/**
+ * Pick pages carrying door/window/room finish schedules. Classified schedule
+ * pages always qualify; any other page (including unsampled pages and floor
+ * plans with a door schedule in the margin) qualifies when its text names one
+ * of the schedule tables.
+ */
+export function selectSchedulePages(
+  enriched: EnrichedPageClassification[],
+  pages: Array<{ pageNumber: number; text: string }>,
+  maxPages: number = 8
+): Array<{ pageNumber: number; sheetTitle: string }> {
+  const classifiedByPage = new Map(enriched.map(c => [c.pageNumber, c]))
+
+  return pages
+    .filter(p => {
+      const classified = classifiedByPage.get(p.pageNumber)
+      if (classified && (classified.type === 'room_schedule' || classified.type === 'finish_schedule')) {
+        return p.text.trim().length > 0
+      }
+      return pageContainsSchedule(p.text) && SCHEDULE_TABLE_PATTERN.test(p.text)
+    })
+    .slice(0, maxPages)
+    .map(p => ({
+      pageNumber: p.pageNumber,
+      sheetTitle: classifiedByPage.get(p.pageNumber)?.sheetTitle || extractSheetTitle(p.text),
+    }))
+}
+
 // =============================================================================
 // PASS 2: Deep Room Extraction (per-sheet, level-aware)
 // =============================================================================
@@ -389,7 +417,7 @@ export function groupPagesByLevel(
 export async function extractRoomsFromSheetWithAI(
   input: ExtractRoomsPerSheetInput
 ): Promise<SheetRoomResult> {
-  const { sheet, pageText, apiKey } = input
+  const { sheet, pageText, provider } = input
 
   if (!pageText || pageText.trim().length < 20) {
     return {
@@ -438,39 +466,16 @@ CRITICAL RULES:
 - The "room_count_by_type" field is for verification — it MUST match the actual rooms array length per type.`
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Extract all rooms from this ${sheet.detectedLevel} floor plan sheet:\n\n${truncatedText}` }
-        ],
-        temperature: 0.1, // Very low temp for determinism
-        max_tokens: 4000,
-        response_format: { type: 'json_object' },
-      }),
+    const parsed = await chatJson(provider, {
+      model: 'smart',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Extract all rooms from this ${sheet.detectedLevel} floor plan sheet:\n\n${truncatedText}` }
+      ],
+      temperature: 0.1, // Very low temp for determinism
+      maxTokens: 4000,
     })
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error(`[Pass2-Sheet] Room extraction API error for page ${sheet.pageNumber}:`, errorData)
-      return { sheet, rooms: [] }
-    }
-
-    const result = await response.json()
-    const content = result.choices?.[0]?.message?.content
-
-    if (!content) {
-      return { sheet, rooms: [] }
-    }
-
-    const parsed = JSON.parse(content)
-
     // Validate rooms with Zod
     const rawRooms: ExtractedRoom[] = (parsed.rooms || [])
       .map((r: Record<string, unknown>) => {
@@ -515,7 +520,7 @@ CRITICAL RULES:
     }
   } catch (error) {
     console.error(`[Pass2-Sheet] Room extraction error for page ${sheet.pageNumber}:`, error)
-    return { sheet, rooms: [] }
+    return { sheet, rooms: [], error: error instanceof Error ? error.message : 'Room extraction failed' }
   }
 }
 
@@ -531,7 +536,7 @@ CRITICAL RULES:
 export async function extractRoomsPerSheet(input: {
   sheets: SheetInfo[]
   pages: Array<{ pageNumber: number; text: string }>
-  apiKey: string
+  provider: LLMProvider
 }): Promise<{
   rooms: ExtractedRoom[]
   sheetResults: SheetRoomResult[]
@@ -539,7 +544,7 @@ export async function extractRoomsPerSheet(input: {
   warnings: string[]
   missingInfo: string[]
 }> {
-  const { sheets, pages, apiKey } = input
+  const { sheets, pages, provider } = input
   const pageTextMap = new Map(pages.map(p => [p.pageNumber, p.text]))
 
   const allSheetResults: SheetRoomResult[] = []
@@ -561,7 +566,7 @@ export async function extractRoomsPerSheet(input: {
     const result = await extractRoomsFromSheetWithAI({
       sheet,
       pageText,
-      apiKey,
+      provider,
     })
 
     allSheetResults.push(result)
@@ -600,7 +605,7 @@ export async function extractRoomsPerSheet(input: {
 export async function extractRoomsFromPagesWithAI(
   input: ExtractRoomsInput
 ): Promise<Pass2Output> {
-  const { pageTexts, pageNumbers, apiKey } = input
+  const { pageTexts, pageNumbers, provider } = input
   
   if (pageTexts.length === 0) {
     return {
@@ -653,48 +658,15 @@ CRITICAL RULES:
 - DO NOT include any pricing information`
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Extract all rooms from these ${pageNumbers.length} pages:\n\n${truncatedText}` }
-        ],
-        temperature: 0.1,
-        max_tokens: 4000,
-        response_format: { type: 'json_object' },
-      }),
+    const parsed = await chatJson(provider, {
+      model: 'smart',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Extract all rooms from these ${pageNumbers.length} pages:\n\n${truncatedText}` }
+      ],
+      temperature: 0.1,
+      maxTokens: 4000,
     })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error('[Pass2] Room extraction API error:', errorData)
-      return {
-        rooms: [],
-        assumptions: [],
-        missingInfo: [],
-        warnings: ['AI room extraction failed. Please add rooms manually.'],
-      }
-    }
-
-    const result = await response.json()
-    const content = result.choices?.[0]?.message?.content
-    
-    if (!content) {
-      return {
-        rooms: [],
-        assumptions: [],
-        missingInfo: [],
-        warnings: ['No response from AI room extraction.'],
-      }
-    }
-
-    const parsed = JSON.parse(content)
     
     // Validate rooms with Zod
     const validatedRooms: ExtractedRoom[] = (parsed.rooms || [])
@@ -771,6 +743,133 @@ function normalizeRoomType(type: string | undefined): string | null {
   return typeMap[normalized] || 'other'
 }
 
+// =============================================================================
+// Schedule Extraction (door / window / room finish tables)
+// =============================================================================
+
+const nullableText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : null
+
+const positiveInt = (value: unknown): number => {
+  const n = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10)
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : 1
+}
+
+/**
+ * Read the door, window and room finish schedule tables on ONE page into
+ * structured rows. Tables the page doesn't have come back empty.
+ * NO PRICING - any pricing columns are ignored.
+ */
+export async function extractSchedulesFromPageWithAI(
+  input: ExtractSchedulesInput
+): Promise<ScheduleExtraction & { warnings: string[]; error?: string }> {
+  const { pageNumber, sheetTitle, pageText, provider } = input
+  const empty = { doors: [], windows: [], finishes: [], warnings: [] }
+
+  if (!pageText || pageText.trim().length < 20) {
+    return empty
+  }
+
+  const truncatedText = pageText.length > 20000
+    ? pageText.slice(0, 20000) + '\n[... truncated ...]'
+    : pageText
+
+  const systemPrompt = `You are an expert construction estimator reading schedule tables on a plan sheet.
+
+THIS SHEET IS: "${sheetTitle}"
+
+The text below was extracted from the sheet, so table cells appear as runs of text in row order.
+Extract every row of these tables if present:
+
+1. DOOR SCHEDULE → "doors": mark (door number/tag), size (width x height as shown), type, material, hardware (hardware set or description), location (room or opening served), quantity (default 1), notes
+2. WINDOW SCHEDULE → "windows": mark, size, type (casement, double hung, slider, fixed, awning, ...), location, quantity (default 1), notes
+3. ROOM FINISH SCHEDULE → "finishes": room, floor, base, wall, ceiling (the finish material for each surface), notes
+
+Return JSON:
+{
+  "doors": [
+    { "mark": "101", "size": "3'-0\\" x 6'-8\\"", "type": "Exterior entry", "material": "Fiberglass", "hardware": "HW-1 entry set", "location": "Foyer", "quantity": 1, "notes": null }
+  ],
+  "windows": [
+    { "mark": "A", "size": "3'-0\\" x 5'-0\\"", "type": "Casement", "location": "Living Room", "quantity": 2, "notes": null }
+  ],
+  "finishes": [
+    { "room": "Primary Bath", "floor": "Porcelain tile", "base": "Tile base", "wall": "Paint / tile wainscot", "ceiling": "Paint", "notes": null }
+  ],
+  "warnings": []
+}
+
+RULES:
+- One entry per schedule row. If a row lists a quantity, use it; otherwise quantity is 1.
+- Expand finish codes when the sheet has a legend (e.g. "T-1" → "T-1 Porcelain tile"); otherwise keep the code.
+- Copy marks and sizes exactly as shown. Use null for blank cells.
+- Do NOT invent rows for tables that are not on this sheet.
+- DO NOT include any pricing information.`
+
+  try {
+    const parsed = await chatJson(provider, {
+      model: 'smart',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Extract the schedule tables from page ${pageNumber}:\n\n${truncatedText}` }
+      ],
+      temperature: 0.1,
+      maxTokens: 6000,
+    })
+
+    const rows = (value: unknown): Record<string, unknown>[] =>
+      Array.isArray(value) ? value.filter(r => r && typeof r === 'object') : []
+
+    const doors = rows(parsed.doors)
+      .map(r => DoorScheduleEntrySchema.safeParse({
+        mark: nullableText(r.mark) || '?',
+        size: nullableText(r.size),
+        type: nullableText(r.type),
+        material: nullableText(r.material),
+        hardware: nullableText(r.hardware),
+        location: nullableText(r.location),
+        quantity: positiveInt(r.quantity),
+        notes: nullableText(r.notes),
+      }))
+      .filter(v => v.success)
+      .map(v => v.data as DoorScheduleEntry)
+
+    const windows = rows(parsed.windows)
+      .map(r => WindowScheduleEntrySchema.safeParse({
+        mark: nullableText(r.mark) || '?',
+        size: nullableText(r.size),
+        type: nullableText(r.type),
+        location: nullableText(r.location),
+        quantity: positiveInt(r.quantity),
+        notes: nullableText(r.notes),
+      }))
+      .filter(v => v.success)
+      .map(v => v.data as WindowScheduleEntry)
+
+    const finishes = rows(parsed.finishes)
+      .map(r => RoomFinishEntrySchema.safeParse({
+        room: nullableText(r.room) || '',
+        floor: nullableText(r.floor),
+        base: nullableText(r.base),
+        wall: nullableText(r.wall),
+        ceiling: nullableText(r.ceiling),
+        notes: nullableText(r.notes),
+      }))
+      .filter(v => v.success)
+      .map(v => v.data as RoomFinishEntry)
+
+    return {
+      doors,
+      windows,
+      finishes,
+      warnings: Array.isArray(parsed.warnings) ? parsed.warnings.filter((w: unknown) => typeof w === 'string') : [],
+    }
+  } catch (error) {
+    console.error(`[Schedules] Extraction error for page ${pageNumber}:`, error)
+    return { ...empty, error: error instanceof Error ? error.message : 'Schedule extraction failed' }
+  }
+}
+
 // =============================================================================
 // Line Item Scaffold Generation
 // =============================================================================
@@ -782,7 +881,7 @@ function normalizeRoomType(type: string | undefined): string | null {
 export async function generateLineItemScaffoldWithAI(
   input: GenerateLineItemsInput
 ): Promise<LineItemScaffold[]> {
-  const { rooms, apiKey } = input
+  const { rooms, provider } = input
   
   if (rooms.length === 0) return []
 
@@ -831,35 +930,15 @@ RULES:
 - DO NOT include unit costs, material costs, labor costs, or any pricing information`
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Generate line item scaffolds for these rooms:\n${roomList}` }
-        ],
-        temperature: 0.4,
-        max_tokens: 4000,
-        response_format: { type: 'json_object' },
-      }),
+    const parsed = await chatJson(provider, {
+      model: 'fast',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Generate line item scaffolds for these rooms:\n${roomList}` }
+      ],
+      temperature: 0.4,
+      maxTokens: 4000,
     })
-
-    if (!response.ok) {
-      console.warn('[Scaffold] API failed, returning empty scaffold')
-      return []
-    }
-
-    const result = await response.json()
-    const content = result.choices?.[0]?.message?.content
-    
-    if (!content) return []
-
-    const parsed = JSON.parse(content)
     const items = Array.isArray(parsed) ? parsed : (parsed.items || parsed.lineItems || [])
     
     // Validate with Zod and strip any pricing
@@ -894,7 +973,7 @@ RULES:
  */
 export async function analyzeImageForRoomsWithAI(
   imageUrl: string,
-  apiKey: string
+  provider: LLMProvider
 ): Promise<Pass2Output> {
   // Check if this is a PDF URL - GPT-4 Vision works best with images
   const isPdf = imageUrl.toLowerCase().endsWith('.pdf')
@@ -930,52 +1009,21 @@ CRITICAL RULES:
 - DO NOT include any pricing information`
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: 'Analyze this floor plan and extract all rooms:' },
-              { type: 'image_url', image_url: { url: imageUrl } }
-            ]
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 4000,
-        response_format: { type: 'json_object' },
-      }),
+    const parsed = await chatJson(provider, {
+      model: 'smart',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Analyze this floor plan and extract all rooms:' },
+            { type: 'image_url', image_url: { url: imageUrl } }
+          ]
+        }
+      ],
+      temperature: 0.3,
+      maxTokens: 4000,
     })
-
-    if (!response.ok) {
-      return {
-        rooms: [],
-        assumptions: [],
-        missingInfo: [],
-        warnings: ['Image analysis failed. Please add rooms manually.'],
-      }
-    }
-
-    const result = await response.json()
-    const content = result.choices?.[0]?.message?.content
-    
-    if (!content) {
-      return {
-        rooms: [],
-        assumptions: [],
-        missingInfo: [],
-        warnings: ['No response from image analysis.'],
-      }
-    }
-
-    const parsed = JSON.parse(content)
     
     // Validate rooms with level
     const validatedRooms: ExtractedRoom[] = (parsed.rooms || [])
@@ -1032,7 +1080,7 @@ CRITICAL RULES:
  */
 export async function analyzeBase64ImagesForRooms(
   images: Array<{ pageNumber: number; base64: string }>,
-  apiKey: string
+  provider: LLMProvider
 ): Promise<Pass2Output> {
   if (images.length === 0) {
     return {
@@ -1079,7 +1127,7 @@ CRITICAL RULES:
 
   try {
     // Build content array with all images
-    const content: Array<{ type: string; text?: string; image_url?: { url: string; detail?: string } }> = [
+    const content: ChatContentPart[] = [
       { type: 'text', text: `Analyze these ${images.length} floor plan page(s) and extract all rooms:` }
     ]
     
@@ -1094,48 +1142,15 @@ CRITICAL RULES:
       })
     }
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content }
-        ],
-        temperature: 0.3,
-        max_tokens: 4000,
-        response_format: { type: 'json_object' },
-      }),
+    const parsed = await chatJson(provider, {
+      model: 'smart',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content }
+      ],
+      temperature: 0.3,
+      maxTokens: 4000,
     })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('[Vision] API error:', errorText)
-      return {
-        rooms: [],
-        assumptions: [],
-        missingInfo: [],
-        warnings: ['Vision analysis failed. The images may be too large or unclear.'],
-      }
-    }
-
-    const result = await response.json()
-    const responseContent = result.choices?.[0]?.message?.content
-    
-    if (!responseContent) {
-      return {
-        rooms: [],
-        assumptions: [],
-        missingInfo: [],
-        warnings: ['No response from vision analysis.'],
-      }
-    }
-
-    const parsed = JSON.parse(responseContent)
     
     // Validate rooms with level
     const validatedRooms: ExtractedRoom[] = (parsed.rooms || [])
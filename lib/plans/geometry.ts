@@ -0,0 +1,680 @@
+/**
+ * Vector Plan Geometry Takeoff
+ *
+ * Measures rooms from the line work of vector floor plans instead of the
+ * dimension strings the AI reads (which parseDimensions() treats as
+ * rectangles), so L-shaped and irregular rooms get their real floor area and
+ * perimeter:
+ *
+ * 1. Scale: from the scale notation near the plan title (1/4" = 1'-0",
+ *    1:50) or, failing that, a scale bar's numbered ticks
+ * 2. Walls: the page's straight segments rasterized onto a grid in feet;
+ *    gaps up to a door width are closed by treating everything within half a
+ *    door width of a line as blocked
+ * 3. Rooms: flood fill from each room label's position, grown back to the
+ *    wall faces, traced into a polygon and simplified
+ *
+ * A room only gets a measured polygon when the fill stays inside the plan,
+ * holds no other room's label and agrees (roughly) with the dimensions read
+ * from the plan. Everything else keeps its dimension-based area.
+ */
+
+import type { PageGeometry, PageTextItem } from './pdf-utils'
+import type { ExtractedRoom } from './schemas'
+import { roomLabelKey } from './room-processor'
+
+// =============================================================================
+// Constants & Types
+// =============================================================================
+
+/** Grid resolution: 2" cells */
+const CELL_FT = 1 / 6
+
+/** Largest grid we build; coarser cells for big site-scale sheets */
+const MAX_GRID_CELLS = 4_000_000
+
+/** Openings up to this wide are closed when filling a room */
+const DOOR_GAP_FT = 3
+
+const MIN_ROOM_SQFT = 10
+const MAX_ROOM_SQFT = 3000
+
+/** Fewer straight segments than this is not a drawn floor plan */
+const MIN_SEGMENTS = 50
+
+/** Geometry area must be within this factor of the dimension-based area */
+const DIMENSION_AGREEMENT = 2
+
+export type Point = [number, number]
+
+export interface DrawingScale {
+  /** Real-world feet per PDF point (1/72") */
+  feetPerPoint: number
+  /** As printed, e.g. 1/4" = 1'-0" */
+  label: string
+  source: 'notation' | 'scale_bar'
+}
+
+export interface RoomGeometry {
+  area_sqft: number
+  perimeter_ft: number
+  /** Room outline in feet, origin at the page's bottom-left */
+  polygon: Point[]
+}
+
+export interface GeometryTakeoffResult {
+  rooms: ExtractedRoom[]
+  scale: DrawingScale | null
+  measured: number
+  assumptions: string[]
+  warnings: string[]
+}
+
+interface LabelCandidate {
+  key: string
+  text: string
+  x: number
+  y: number
+}
+
+// =============================================================================
+// Scale Detection
+// =============================================================================
+
+const NOT_TO_SCALE_PATTERN = /\b(n\.?\s?t\.?\s?s\.?|not\s+to\s+scale)\b/i
+
+/** 1/4" = 1'-0", 3/16"=1'-0", 1 1/2" = 1'-0", 1" = 20' */
+const ARCHITECTURAL_SCALE_PATTERN =
+  /(\d+(?:\s+\d+\/\d+|\/\d+|\.\d+)?)\s*(?:"|”|″|''|in\.?)\s*=\s*(\d+(?:\.\d+)?)\s*(?:'|’|′|ft\.?)\s*(?:-?\s*(\d+(?:\.\d+)?)\s*(?:"|”|″)?)?/i
+
+/** SCALE 1:50, 1:100 */
+const RATIO_SCALE_PATTERN = /\bscale\s*:?\s*1\s*:\s*(\d{1,4})\b/i
+
+function parseInches(value: string): number {
+  const parts = value.trim().split(/\s+/)
+  return parts.reduce((sum, part) => {
+    if (part.includes('/')) {
+      const [num, den] = part.split('/').map(Number)
+      return sum + (den ? num / den : 0)
+    }
+    return sum + Number(part)
+  }, 0)
+}
+
+/**
+ * Parse a scale notation into feet per point. Returns null for text that
+ * isn't a scale or says not to scale.
+ */
+export function parseScaleNotation(text: string): DrawingScale | null {
+  if (NOT_TO_SCALE_PATTERN.test(text)) return null
+
+  const arch = text.match(ARCHITECTURAL_SCALE_PATTERN)
+  if (arch) {
+    const paperInches = parseInches(arch[1])
+    const realFeet = Number(arch[2]) + (arch[3] ? Number(arch[3]) / 12 : 0)
+    if (paperInches > 0 && realFeet > 0) {
+      return {
+        feetPerPoint: realFeet / paperInches / 72,
+        label: arch[0].replace(/\s+/g, ' ').trim(),
+        source: 'notation',
+      }
+    }
+  }
+
+  const ratio = text.match(RATIO_SCALE_PATTERN)
+  if (ratio) {
+    const factor = Number(ratio[1])
+    if (factor > 0) {
+      return { feetPerPoint: factor / 72 / 12, label: `1:${factor}`, source: 'notation' }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Scale bar: numbered ticks ("0 4 8 16") on one baseline whose spacing is
+ * proportional to their values.
+ */
+function detectScaleBar(textItems: PageTextItem[]): DrawingScale | null {
+  const ticks = textItems
+    .map(item => ({ item, match: item.str.match(/^(\d+(?:\.\d+)?)\s*(?:'|’|ft|feet)?$/i) }))
+    .filter((t): t is { item: PageTextItem; match: RegExpMatchArray } => !!t.match)
+    .map(t => ({ x: t.item.x + t.item.width / 2, y: t.item.y, value: Number(t.match[1]) }))
+
+  for (const zero of ticks.filter(t => t.value === 0)) {
+    const row = ticks
+      .filter(t => t.value > 0 && t.x > zero.x && Math.abs(t.y - zero.y) < 2 && t.x - zero.x < 720)
+      .sort((a, b) => a.x - b.x)
+    if (row.length < 2) continue
+
+    const ratios = row.map(t => t.value / (t.x - zero.x))
+    const increasing = row.every((t, i) => i === 0 || t.value > row[i - 1].value)
+    const mean = ratios.reduce((sum, r) => sum + r, 0) / ratios.length
+    const consistent = ratios.every(r => Math.abs(r - mean) / mean < 0.05)
+    if (increasing && consistent) {
+      return {
+        feetPerPoint: mean,
+        label: `scale bar 0–${row[row.length - 1].value}'`,
+        source: 'scale_bar',
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Drawing scale of a plan page. With several notations on a sheet (plan plus
+ * details), the one nearest a "PLAN" title wins.
+ */
+export function detectDrawingScale(geometry: PageGeometry, pageText: string): DrawingScale | null {
+  const plausible = (scale: DrawingScale | null) => {
+    if (!scale) return null
+    const pageWidthFt = geometry.width * scale.feetPerPoint
+    return pageWidthFt >= 10 && pageWidthFt <= 3000 ? scale : null
+  }
+
+  const notations = geometry.textItems
+    .map(item => ({ item, scale: plausible(parseScaleNotation(item.str)) }))
+    .filter((n): n is { item: PageTextItem; scale: DrawingScale } => !!n.scale)
+
+  if (notations.length > 0) {
+    const titles = geometry.textItems.filter(item => /\bplan\b/i.test(item.str))
+    const distanceToTitle = (item: PageTextItem) =>
+      titles.length === 0 ? 0 : Math.min(...titles.map(t => Math.hypot(t.x - item.x, t.y - item.y)))
+    return notations.sort((a, b) => distanceToTitle(a.item) - distanceToTitle(b.item))[0].scale
+  }
+
+  // Notation split across text runs: fall back to the page text
+  if (!NOT_TO_SCALE_PATTERN.test(pageText)) {
+    const fromText = plausible(parseScaleNotation(pageText))
+    if (fromText) return fromText
+  }
+
+  return plausible(detectScaleBar(geometry.textItems))
+}
+
+// =============================================================================
+// Room Labels
+// =============================================================================
+
+/**
+ * Text lines on the page (runs on one baseline joined), plus two-line
+ * labels ("MASTER" over "BEDROOM"), each with its center point.
+ */
+function findLabelCandidates(textItems: PageTextItem[], roomKeys: Set<string>): LabelCandidate[] {
+  const sorted = [...textItems].sort((a, b) => b.y - a.y || a.x - b.x)
+  const lines: Array<{ text: string; x0: number; x1: number; y: number; height: number }> = []
+
+  for (const item of sorted) {
+    const line = lines.find(l =>
+      Math.abs(l.y - item.y) < l.height * 0.5 && item.x - l.x1 < l.height * 1.5 && item.x >= l.x0
+    )
+    if (line) {
+      line.text = `${line.text} ${item.str}`
+      line.x1 = Math.max(line.x1, item.x + item.width)
+    } else {
+      lines.push({ text: item.str, x0: item.x, x1: item.x + item.width, y: item.y, height: item.height || 8 })
+    }
+  }
+
+  const candidates: LabelCandidate[] = []
+  const consider = (text: string, x: number, y: number) => {
+    const label = roomLabelKey(text)
+    // Plans often drop the "room" of "Living Room"
+    const key = roomKeys.has(label) ? label : `${label} room`
+    if (roomKeys.has(key)) candidates.push({ key, text, x, y })
+  }
+
+  for (const line of lines) {
+    consider(line.text, (line.x0 + line.x1) / 2, line.y + line.height / 2)
+  }
+  for (const upper of lines) {
+    const upperCenter = (upper.x0 + upper.x1) / 2
+    const lower = lines.find(l =>
+      l !== upper &&
+      l.y < upper.y &&
+      upper.y - l.y < upper.height * 1.6 &&
+      Math.abs((l.x0 + l.x1) / 2 - upperCenter) < Math.max(upper.x1 - upper.x0, l.x1 - l.x0) / 2
+    )
+    if (lower) {
+      consider(`${upper.text} ${lower.text}`, upperCenter, (upper.y + lower.y + lower.height) / 2)
+    }
+  }
+
+  // Reading order: top to bottom, left to right
+  return candidates.sort((a, b) => b.y - a.y || a.x - b.x)
+}
+
+// =============================================================================
+// Raster Room Fill
+// =============================================================================
+
+class WallGrid {
+  readonly cols: number
+  readonly rows: number
+  readonly cellFt: number
+  readonly feetPerPoint: number
+  /** Chamfer distance (×3 per cell) to the nearest drawn line */
+  private readonly distance: Uint16Array
+  private readonly stamp: Uint32Array
+  private readonly queue: Int32Array
+  private currentStamp = 0
+
+  constructor(geometry: PageGeometry, feetPerPoint: number) {
+    const widthFt = geometry.width * feetPerPoint
+    const heightFt = geometry.height * feetPerPoint
+    this.cellFt = Math.max(CELL_FT, Math.sqrt((widthFt * heightFt) / MAX_GRID_CELLS))
+    this.feetPerPoint = feetPerPoint
+    this.cols = Math.ceil(widthFt / this.cellFt) + 1
+    this.rows = Math.ceil(heightFt / this.cellFt) + 1
+
+    const size = this.cols * this.rows
+    const walls = new Uint8Array(size)
+    for (const [x1, y1, x2, y2] of geometry.segments) {
+      const [c1, r1] = this.toCell(x1, y1)
+      const [c2, r2] = this.toCell(x2, y2)
+      const steps = Math.max(1, Math.ceil(Math.hypot(c2 - c1, r2 - r1) * 2))
+      const mark = (c: number, r: number) => {
+        if (c >= 0 && r >= 0 && c < this.cols && r < this.rows) walls[r * this.cols + c] = 1
+      }
+      let prevC = c1
+      let prevR = r1
+      for (let s = 0; s <= steps; s++) {
+        const c = Math.round(c1 + ((c2 - c1) * s) / steps)
+        const r = Math.round(r1 + ((r2 - r1) * s) / steps)
+        // Keep angled lines 4-connected so fills can't slip through diagonally
+        if (c !== prevC && r !== prevR) mark(c, prevR)
+        mark(c, r)
+        prevC = c
+        prevR = r
+      }
+    }
+
+    // Two-pass chamfer (3-4) distance transform
+    const INF = 65535
+    const distance = new Uint16Array(size)
+    for (let i = 0; i < size; i++) distance[i] = walls[i] ? 0 : INF
+    const relax = (i: number, j: number, cost: number) => {
+      const candidate = distance[j] + cost
+      if (candidate < distance[i]) distance[i] = candidate
+    }
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        const i = r * this.cols + c
+        if (c > 0) relax(i, i - 1, 3)
+        if (r > 0) {
+          relax(i, i - this.cols, 3)
+          if (c > 0) relax(i, i - this.cols - 1, 4)
+          if (c < this.cols - 1) relax(i, i - this.cols + 1, 4)
+        }
+      }
+    }
+    for (let r = this.rows - 1; r >= 0; r--) {
+      for (let c = this.cols - 1; c >= 0; c--) {
+        const i = r * this.cols + c
+        if (c < this.cols - 1) relax(i, i + 1, 3)
+        if (r < this.rows - 1) {
+          relax(i, i + this.cols, 3)
+          if (c < this.cols - 1) relax(i, i + this.cols + 1, 4)
+          if (c > 0) relax(i, i + this.cols - 1, 4)
+        }
+      }
+    }
+
+    this.distance = distance
+    this.stamp = new Uint32Array(size)
+    this.queue = new Int32Array(size)
+  }
+
+  toCell(x: number, y: number): [number, number] {
+    // Rows run top-down
+    const heightCells = this.rows - 1
+    return [
+      Math.round((x * this.feetPerPoint) / this.cellFt),
+      heightCells - Math.round((y * this.feetPerPoint) / this.cellFt),
+    ]
+  }
+
+  /**
+   * Fill the room around a label. `closeGapCells` is the clearance (in cells)
+   * kept from every line, which closes openings up to twice that wide.
+   * Returns the room's cells, or null when the fill leaks out of the plan.
+   */
+  fill(seedX: number, seedY: number, closeGapCells: number): { cells: number[]; box: [number, number, number, number] } | null {
+    const [seedC, seedR] = this.toCell(seedX, seedY)
+    if (seedC < 0 || seedR < 0 || seedC >= this.cols || seedR >= this.rows) return null
+    const threshold = closeGapCells * 3
+    const seed = seedR * this.cols + seedC
+    if (this.distance[seed] <= threshold) return null
+
+    const stamp = ++this.currentStamp
+    const maxCells = Math.ceil(MAX_ROOM_SQFT / (this.cellFt * this.cellFt))
+    const { cols, rows, distance, queue } = this
+    let head = 0
+    let tail = 0
+    queue[tail++] = seed
+    this.stamp[seed] = stamp
+
+    // 1. Fill the clearance zone (openings closed)
+    while (head < tail) {
+      const i = queue[head++]
+      const c = i % cols
+      const r = (i - c) / cols
+      if (c === 0 || r === 0 || c === cols - 1 || r === rows - 1) return null // Reached the page edge
+      if (tail > maxCells) return null
+      for (const j of [i - 1, i + 1, i - cols, i + cols]) {
+        if (this.stamp[j] !== stamp && distance[j] > threshold) {
+          this.stamp[j] = stamp
+          queue[tail++] = j
+        }
+      }
+    }
+
+    // 2. Grow back out to the wall faces, at most the clearance deep, only
+    //    ever moving closer to a line: that reaches square corners but stops
+    //    at a closed opening instead of spilling into the next room
+    let layerStart = 0
+    for (let layer = 0; layer < closeGapCells + 1; layer++) {
+      const layerEnd = tail
+      for (let q = layerStart; q < layerEnd; q++) {
+        const i = queue[q]
+        const c = i % cols
+        const r = (i - c) / cols
+        for (let dr = -1; dr <= 1; dr++) {
+          for (let dc = -1; dc <= 1; dc++) {
+            if (c + dc < 0 || c + dc >= cols || r + dr < 0 || r + dr >= rows) continue
+            const j = i + dr * cols + dc
+            if (this.stamp[j] !== stamp && distance[j] > 0 && distance[j] < distance[i]) {
+              this.stamp[j] = stamp
+              queue[tail++] = j
+            }
+          }
+        }
+      }
+      layerStart = layerEnd
+    }
+
+    const cells = Array.from(queue.subarray(0, tail))
+    let minC = cols, minR = rows, maxC = 0, maxR = 0
+    for (const i of cells) {
+      const c = i % cols
+      const r = (i - c) / cols
+      if (c < minC) minC = c
+      if (c > maxC) maxC = c
+      if (r < minR) minR = r
+      if (r > maxR) maxR = r
+    }
+    return { cells, box: [minC, minR, maxC, maxR] }
+  }
+
+  /** Whether a page point lies in the most recent fill */
+  inLastFill(x: number, y: number): boolean {
+    const [c, r] = this.toCell(x, y)
+    if (c < 0 || r < 0 || c >= this.cols || r >= this.rows) return false
+    return this.stamp[r * this.cols + c] === this.currentStamp
+  }
+
+  /** Outline of a filled region as a polygon in feet (page bottom-left origin) */
+  outline(region: { cells: number[]; box: [number, number, number, number] }): Point[] {
+    const [minC, minR, maxC, maxR] = region.box
+    const w = maxC - minC + 1
+    const h = maxR - minR + 1
+    const mask = new Uint8Array(w * h)
+    for (const i of region.cells) {
+      const c = i % this.cols
+      const r = (i - c) / this.cols
+      mask[(r - minR) * w + (c - minC)] = 1
+    }
+    const inside = (c: number, r: number) => c >= 0 && r >= 0 && c < w && r < h && mask[r * w + c] === 1
+
+    // Directed boundary edges between cell corners, region on one side
+    const next = new Map<number, number[]>()
+    const key = (c: number, r: number) => r * (w + 1) + c
+    const addEdge = (c1: number, r1: number, c2: number, r2: number) => {
+      const from = key(c1, r1)
+      const list = next.get(from)
+      if (list) list.push(key(c2, r2))
+      else next.set(from, [key(c2, r2)])
+    }
+    for (let r = 0; r < h; r++) {
+      for (let c = 0; c < w; c++) {
+        if (!inside(c, r)) continue
+        if (!inside(c, r - 1)) addEdge(c + 1, r, c, r)
+        if (!inside(c, r + 1)) addEdge(c, r + 1, c + 1, r + 1)
+        if (!inside(c - 1, r)) addEdge(c, r, c, r + 1)
+        if (!inside(c + 1, r)) addEdge(c + 1, r + 1, c + 1, r)
+      }
+    }
+
+    // Link edges into loops; the outer boundary has the largest area
+    let best: Point[] = []
+    let bestArea = 0
+    for (const start of Array.from(next.keys())) {
+      while ((next.get(start)?.length ?? 0) > 0) {
+        const loop: Point[] = []
+        let at = start
+        do {
+          loop.push([at % (w + 1), Math.floor(at / (w + 1))])
+          const outgoing = next.get(at)!
+          at = outgoing.pop()!
+        } while (at !== start && (next.get(at)?.length ?? 0) > 0)
+        const area = Math.abs(polygonArea(loop))
+        if (area > bestArea) {
+          bestArea = area
+          best = loop
+        }
+      }
+    }
+
+    const heightCells = this.rows - 1
+    const simplified = simplifyPolygon(removeCollinear(best), 1)
+    return simplified.map(([c, r]) => [
+      round2((c + minC - 0.5) * this.cellFt),
+      round2((heightCells - (r + minR) + 0.5) * this.cellFt),
+    ])
+  }
+}
+
+// =============================================================================
+// Polygon Helpers
+// =============================================================================
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/** Signed shoelace area */
+export function polygonArea(points: Point[]): number {
+  let sum = 0
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i]
+    const [x2, y2] = points[(i + 1) % points.length]
+    sum += x1 * y2 - x2 * y1
+  }
+  return sum / 2
+}
+
+export function polygonPerimeter(points: Point[]): number {
+  let sum = 0
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i]
+    const [x2, y2] = points[(i + 1) % points.length]
+    sum += Math.hypot(x2 - x1, y2 - y1)
+  }
+  return sum
+}
+
+function removeCollinear(points: Point[]): Point[] {
+  return points.filter((p, i) => {
+    const prev = points[(i - 1 + points.length) % points.length]
+    const next = points[(i + 1) % points.length]
+    return (p[0] - prev[0]) * (next[1] - p[1]) - (p[1] - prev[1]) * (next[0] - p[0]) !== 0
+  })
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b[0] - a[0]
+  const dy = b[1] - a[1]
+  const lengthSq = dx * dx + dy * dy
+  if (lengthSq === 0) return Math.hypot(p[0] - a[0], p[1] - a[1])
+  const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq))
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy))
+}
+
+/** Douglas–Peucker on an open chain */
+function simplifyChain(points: Point[], epsilon: number): Point[] {
+  if (points.length <= 2) return points
+  let maxDistance = 0
+  let index = 0
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1])
+    if (d > maxDistance) {
+      maxDistance = d
+      index = i
+    }
+  }
+  if (maxDistance <= epsilon) return [points[0], points[points.length - 1]]
+  const left = simplifyChain(points.slice(0, index + 1), epsilon)
+  const right = simplifyChain(points.slice(index), epsilon)
+  return [...left.slice(0, -1), ...right]
+}
+
+/** Smooth the grid staircase of angled walls; corners stay put */
+function simplifyPolygon(points: Point[], epsilon: number): Point[] {
+  if (points.length <= 4) return points
+  // Split at the vertex farthest from the first so both halves are chains
+  let far = 0
+  let farDistance = 0
+  points.forEach((p, i) => {
+    const d = Math.hypot(p[0] - points[0][0], p[1] - points[0][1])
+    if (d > farDistance) {
+      farDistance = d
+      far = i
+    }
+  })
+  const first = simplifyChain(points.slice(0, far + 1), epsilon)
+  const second = simplifyChain([...points.slice(far), points[0]], epsilon)
+  return [...first.slice(0, -1), ...second.slice(0, -1)]
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Measure extracted rooms from a vector plan page. Rooms whose label can't
+ * be found or whose fill isn't a clean enclosed room keep their
+ * dimension-based area; matched rooms get area_sqft, perimeter_ft, polygon
+ * and area_source 'geometry'.
+ */
+export function measureRoomsFromGeometry(
+  geometry: PageGeometry,
+  rooms: ExtractedRoom[],
+  pageText: string
+): GeometryTakeoffResult {
+  const result: GeometryTakeoffResult = { rooms, scale: null, measured: 0, assumptions: [], warnings: [] }
+  const page = `Page ${geometry.pageNumber}`
+
+  if (rooms.length === 0 || geometry.segments.length < MIN_SEGMENTS) return result
+
+  const scale = detectDrawingScale(geometry, pageText)
+  if (!scale) {
+    result.warnings.push(`${page}: no drawing scale found; room areas come from plan dimensions`)
+    return result
+  }
+  result.scale = scale
+
+  const grid = new WallGrid(geometry, scale.feetPerPoint)
+  const closeGapCells = Math.round(DOOR_GAP_FT / 2 / grid.cellFt)
+  const roomKeys = new Set(rooms.map(r => roomLabelKey(r.name)))
+  const candidates = findLabelCandidates(geometry.textItems, roomKeys)
+
+  /** Fill the room at a label, with smaller clearances for narrow rooms */
+  const measureAt = (candidate: LabelCandidate): RoomGeometry | null => {
+    for (const clearance of [closeGapCells, Math.round(closeGapCells * 0.6), Math.round(closeGapCells * 0.3)]) {
+      if (clearance < 1) continue
+      const region = grid.fill(candidate.x, candidate.y, clearance)
+      if (!region) continue
+
+      // Open to another room (cased opening, open plan): not measurable alone
+      const holdsOtherLabel = candidates.some(other =>
+        other !== candidate && other.key !== candidate.key && grid.inLastFill(other.x, other.y)
+      )
+      if (holdsOtherLabel) return null
+
+      const polygon = grid.outline(region)
+      const outlinePerimeter = polygonPerimeter(polygon)
+      // The outline runs half a cell inside the wall lines: add it back (a
+      // rectilinear outline offset by half a cell is 4 cells longer)
+      const area = Math.abs(polygonArea(polygon)) + (outlinePerimeter * grid.cellFt) / 2
+      const perimeter = outlinePerimeter + 4 * grid.cellFt
+      if (polygon.length < 3 || area < MIN_ROOM_SQFT || area > MAX_ROOM_SQFT) continue
+      return { area_sqft: round2(area), perimeter_ft: round2(perimeter), polygon }
+    }
+    return null
+  }
+
+  const dimensionArea = (room: ExtractedRoom) =>
+    room.length_ft && room.width_ft ? room.length_ft * room.width_ft : room.area_sqft ?? null
+
+  // Same-name rooms (Bedroom 1, Bedroom 2) share a key: pair each room with
+  // the measured label closest to its dimensions, else in reading order
+  const used = new Set<LabelCandidate>()
+  const measuredByRoom = new Map<number, RoomGeometry>()
+  const measurements = new Map<LabelCandidate, RoomGeometry | null>()
+  const measurementFor = (candidate: LabelCandidate) => {
+    if (!measurements.has(candidate)) measurements.set(candidate, measureAt(candidate))
+    return measurements.get(candidate) ?? null
+  }
+
+  rooms.forEach((room, index) => {
+    const key = roomLabelKey(room.name)
+    const expected = dimensionArea(room)
+    const options = candidates
+      .filter(c => c.key === key && !used.has(c))
+      .map(c => ({ candidate: c, measured: measurementFor(c) }))
+      .filter((o): o is { candidate: LabelCandidate; measured: RoomGeometry } => !!o.measured)
+    if (options.length === 0) return
+
+    const pick = expected
+      ? options.sort((a, b) =>
+          Math.abs(Math.log(a.measured.area_sqft / expected)) - Math.abs(Math.log(b.measured.area_sqft / expected))
+        )[0]
+      : options[0]
+
+    if (expected) {
+      const ratio = pick.measured.area_sqft / expected
+      if (ratio > DIMENSION_AGREEMENT || ratio < 1 / DIMENSION_AGREEMENT) {
+        result.warnings.push(
+          `${page}: measured ${pick.measured.area_sqft} sq ft for ${room.name} disagrees with its dimensions (${round2(expected)} sq ft); kept the dimensions`
+        )
+        return
+      }
+    }
+
+    used.add(pick.candidate)
+    measuredByRoom.set(index, pick.measured)
+  })
+
+  result.measured = measuredByRoom.size
+  result.rooms = rooms.map((room, index) => {
+    const measured = measuredByRoom.get(index)
+    if (!measured) return room
+    return {
+      ...room,
+      area_sqft: measured.area_sqft,
+      perimeter_ft: measured.perimeter_ft,
+      polygon: measured.polygon,
+      area_source: 'geometry' as const,
+    }
+  })
+
+  result.assumptions.push(
+    `${page}: measured ${result.measured} of ${rooms.length} rooms from plan geometry at ${scale.label}`
+  )
+  if (geometry.truncated) {
+    result.warnings.push(`${page}: plan line work was truncated; some rooms may not be measurable`)
+  }
+  return result
+}
@@ -17,3 +17,12 @@ export * from './ai-classifier'
 
 // Deterministic room post-processing
 export * from './room-processor'
+
+// Schedule rows → counted line items and selections
+export * from './schedule-items'
+
+// Vector plan geometry → measured room areas
+export * from './geometry'
+
+// Plan revisions → room and scaffold item differences
+export * from './revision-diff'
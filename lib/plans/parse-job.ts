@@ -0,0 +1,879 @@
+/**
+ * Plan Parse Worker
+ *
+ * plan_parses rows are durable jobs. A worker run claims a queued job and
+ * advances it stage by stage, saving after every file and every work item so
+ * progress streams to the review drawer (Supabase realtime on plan_parses)
+ * and nothing finished is redone when a run stops early:
+ *
+ * 1. classifying: download each file, classify its pages and turn relevant
+ *    pages into extraction work items (plan_parses.sheets)
+ * 2. extracting:  extract rooms (or schedule rows) from each pending work item
+ * 3. finalizing:  dedupe rooms and schedule rows, generate the line item
+ *    scaffold and store the review payload
+ *
+ * A run stops after RUN_BUDGET_MS and puts the job back to 'queued' for the
+ * next run. The cron driver (app/api/cron/plan-parse) picks queued and stale
+ * jobs up every minute; runs started from the upload request or the review
+ * drawer only get there sooner. Cancellation is checked between work items
+ * and again before the result is stored. Each run writes only while it
+ * still owns the job (claim_id, fresh heartbeat), so a stalled run whose job
+ * was requeued can't overwrite its successor. Runs use the service role:
+ * callers check project ownership before queueing or running a job.
+ */
+
+import { randomUUID } from 'crypto'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { getLLMProvider, observeChatModels, type LLMProvider } from '@/lib/ai'
+import type {
+  PageClassification as DbPageClassification,
+  PageClassificationType,
+  PagesOfInterest,
+  ParsedLineItem,
+  ParsedRoom,
+  PlanParseResult,
+  PlanSchedules,
+} from '@/types/db'
+import {
+  createFallbackResponse,
+  readPlanParseProgress,
+  readPlanParseSheets,
+  type ExtractedRoom,
+  type LineItemScaffold,
+  type Pass2Output,
+  type PlanParseProgress,
+  type PlanParseSheet,
+} from './schemas'
+import {
+  extractPdfPagesWithText,
+  samplePagesForClassification,
+  preparePagesForClassification,
+  renderPdfPagesToImages,
+  selectPagesForVisionAnalysis,
+  detectPdfType,
+  getPdfPageCount,
+  loadPdfDocument,
+  extractPageGeometry,
+  type PdfExtractionResult,
+} from './pdf-utils'
+import {
+  classifyPagesWithAI,
+  enrichClassificationsWithLevel,
+  groupPagesByLevel,
+  selectSchedulePages,
+  extractRoomsFromSheetWithAI,
+  extractSchedulesFromPageWithAI,
+  extractRoomsFromPagesWithAI,
+  generateLineItemScaffoldWithAI,
+  analyzeImageForRoomsWithAI,
+  analyzeBase64ImagesForRooms,
+} from './ai-classifier'
+import { deduplicateAcrossSheets, type SheetInfo } from './room-processor'
+import { measureRoomsFromGeometry } from './geometry'
+
+// =============================================================================
+// Constants & Types
+// =============================================================================
+
+/** Leave headroom under the parse routes' maxDuration (120s) */
+const RUN_BUDGET_MS = 90_000
+
+/** A processing job whose worker hasn't reported for this long is requeued */
+const STALE_HEARTBEAT_MS = 3 * 60_000
+
+const STORAGE_BUCKET = 'uploads'
+
+export type PlanParseRunOutcome = 'finished' | 'yielded' | 'cancelled' | 'not_claimed' | 'claim_lost'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+/** The run's job was requeued or claimed by another run; stop without writing */
+class ClaimLostError extends Error {
+  constructor(planParseId: string) {
+    super(`Plan parse ${planParseId} is no longer claimed by this run`)
+    this.name = 'ClaimLostError'
+  }
+}
+
+interface LoadedPdf {
+  buffer: Buffer
+  extraction: PdfExtractionResult
+  /** pdfjs document for geometry takeoff, opened on first use */
+  document: () => Promise<any | null>
+}
+
+/** Mutable job state for one run; written back with save() */
+interface JobState {
+  id: string
+  fileUrls: string[]
+  progress: PlanParseProgress
+  sheets: PlanParseSheet[]
+  pagesOfInterest: PagesOfInterest
+  processingTimeMs: number
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function fileNameOf(storagePath: string): string {
+  return storagePath.split('/').pop() || storagePath
+}
+
+function fileExtension(storagePath: string): string {
+  return storagePath.split('.').pop()?.toLowerCase() || ''
+}
+
+function newSheet(
+  fields: Pick<PlanParseSheet, 'id' | 'file' | 'kind' | 'pages' | 'title'> & Partial<PlanParseSheet>
+): PlanParseSheet {
+  return {
+    level: null,
+    classification: null,
+    confidence: null,
+    status: 'pending',
+    rooms: [],
+    assumptions: [],
+    warnings: [],
+    missing_info: [],
+    error: null,
+    ...fields,
+  }
+}
+
+function recountProgress(state: JobState) {
+  const { progress, sheets } = state
+  progress.sheets_total = sheets.length
+  progress.sheets_extracted = sheets.filter(s => s.status === 'done' || s.status === 'skipped').length
+  progress.sheets_failed = sheets.filter(s => s.status === 'failed').length
+  progress.rooms_found = sheets.reduce((sum, s) => sum + (s.status === 'done' ? s.rooms.length : 0), 0)
+  progress.schedule_rows_found = sheets.reduce((sum, s) => sum + (s.status === 'done' ? scheduleRowCount(s) : 0), 0)
+}
+
+function scheduleRowCount(sheet: PlanParseSheet): number {
+  const { doors = [], windows = [], finishes = [] } = sheet.schedules || {}
+  return doors.length + windows.length + finishes.length
+}
+
+function applyPass2Output(sheet: PlanParseSheet, output: Pass2Output) {
+  sheet.rooms = output.rooms
+  sheet.assumptions = output.assumptions
+  sheet.warnings = output.warnings
+  sheet.missing_info = output.missingInfo
+}
+
+/**
+ * Put a processing job whose worker stopped reporting back in the queue
+ */
+async function requeueIfStale(supabase: ServiceClient, planParseId: string) {
+  const cutoff = new Date(Date.now() - STALE_HEARTBEAT_MS).toISOString()
+  await supabase
+    .from('plan_parses')
+    .update({ status: 'queued' })
+    .eq('id', planParseId)
+    .eq('status', 'processing')
+    .or(`heartbeat_at.is.null,heartbeat_at.lt.${cutoff}`)
+}
+
+// =============================================================================
+// Stage 1: Classification → work items
+// =============================================================================
+
+async function prepareFile(
+  state: JobState,
+  fileIndex: number,
+  loadPdf: (path: string) => Promise<LoadedPdf | null>,
+  provider: LLMProvider
+) {
+  const storagePath = state.fileUrls[fileIndex]
+  const extension = fileExtension(storagePath)
+  const fileName = fileNameOf(storagePath)
+  const { progress, sheets, pagesOfInterest } = state
+
+  if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(extension)) {
+    sheets.push(newSheet({ id: `${fileIndex}:image`, file: storagePath, kind: 'image', pages: [1], title: fileName }))
+    progress.pages_total += 1
+    progress.pages_classified += 1
+    pagesOfInterest.totalPages += 1
+    return
+  }
+
+  if (extension !== 'pdf') {
+    progress.warnings.push(`Unsupported file type: ${extension}`)
+    return
+  }
+
+  const loaded = await loadPdf(storagePath)
+  if (!loaded) {
+    progress.warnings.push(`Failed to download file: ${fileName}`)
+    return
+  }
+
+  const { buffer, extraction } = loaded
+  if (extraction.error) {
+    progress.warnings.push(extraction.error)
+  }
+
+  let totalPages = extraction.totalPages
+  const pdfType = detectPdfType(extraction, buffer.length)
+  console.log(`[Plans Parse] ${fileName}: ${pdfType.type} PDF (text ratio ${(pdfType.textRatio * 100).toFixed(0)}%, ${pdfType.totalPages} pages)`)
+
+  // Scanned PDFs go to vision first; text sheets only run if vision finds nothing
+  const isScanned = pdfType.type === 'scanned'
+  if (isScanned) {
+    progress.warnings.push(`PDF detected as ${pdfType.type} (${pdfType.pagesWithText}/${pdfType.totalPages} pages with text). Using vision analysis.`)
+
+    // When text extraction totally failed (0 pages), probe the PDF for its
+    // real page count so we can still select pages for vision
+    let effectiveTotalPages = totalPages
+    if (effectiveTotalPages === 0) {
+      const probed = await getPdfPageCount(buffer)
+      effectiveTotalPages = probed > 0 ? probed : 3
+      totalPages = Math.max(totalPages, probed)
+    }
+
+    const pagesToRender = selectPagesForVisionAnalysis(effectiveTotalPages, 3)
+    sheets.push(newSheet({
+      id: `${fileIndex}:vision`,
+      file: storagePath,
+      kind: 'vision',
+      pages: pagesToRender,
+      title: `${fileName} – scanned pages ${pagesToRender.join(', ')}`,
+    }))
+  }
+
+  progress.pages_total += totalPages
+  pagesOfInterest.totalPages += totalPages
+
+  // Classify a sample of pages (large documents)
+  const sampledPages = samplePagesForClassification(extraction.pages, 20)
+  const classificationResult = await classifyPagesWithAI({
+    pages: preparePagesForClassification(sampledPages),
+    provider,
+  })
+  progress.pages_classified += sampledPages.length
+
+  pagesOfInterest.classifications.push(...classificationResult.pages.map((c): DbPageClassification => ({
+    pageNumber: c.pageNumber,
+    classification: c.type as PageClassificationType,
+    hasRoomLabels: c.hasRoomLabels,
+    confidence: c.confidence,
+  })))
+
+  const enriched = enrichClassificationsWithLevel(
+    classificationResult.pages,
+    extraction.pages.map(p => ({ pageNumber: p.pageNumber, text: p.text }))
+  )
+  const sheetInfos = groupPagesByLevel(enriched)
+  pagesOfInterest.relevantPages.push(...sheetInfos.map(s => s.pageNumber))
+
+  for (const info of sheetInfos) {
+    console.log(`[Plans Parse]   Sheet p${info.pageNumber}: "${info.sheetTitle}" → ${info.detectedLevel} (${info.classification}, confidence: ${info.confidence})`)
+    sheets.push(newSheet({
+      id: `${fileIndex}:p${info.pageNumber}`,
+      file: storagePath,
+      kind: 'sheet',
+      pages: [info.pageNumber],
+      title: info.sheetTitle,
+      level: info.detectedLevel,
+      classification: info.classification,
+      confidence: info.confidence,
+      only_if_no_rooms: isScanned,
+    }))
+  }
+
+  // Schedule tables get their own work items, even on floor plan pages
+  const schedulePages = selectSchedulePages(enriched, extraction.pages)
+  for (const page of schedulePages) {
+    sheets.push(newSheet({
+      id: `${fileIndex}:s${page.pageNumber}`,
+      file: storagePath,
+      kind: 'schedule',
+      pages: [page.pageNumber],
+      title: `${page.sheetTitle} – schedules`,
+    }))
+  }
+
+  if (sheetInfos.length === 0) {
+    // No floor plans detected: parse the first pages as a fallback
+    const fallbackPages = extraction.pages.slice(0, 5).filter(p => p.text.length > 0).map(p => p.pageNumber)
+    if (fallbackPages.length > 0) {
+      sheets.push(newSheet({
+        id: `${fileIndex}:fallback`,
+        file: storagePath,
+        kind: 'fallback',
+        pages: fallbackPages,
+        title: `${fileName} – first pages (no floor plans detected)`,
+        only_if_no_rooms: isScanned,
+      }))
+    }
+  }
+
+  // Mixed PDFs: vision on image-only pages when the text sheets find nothing
+  if (pdfType.type === 'mixed' && pdfType.pagesWithoutText > 0) {
+    const imageOnlyPages = extraction.pages
+      .filter(p => !p.hasText)
+      .map(p => p.pageNumber)
+      .slice(0, 6) // Cap at 6 pages for cost control
+    if (imageOnlyPages.length > 0) {
+      sheets.push(newSheet({
+        id: `${fileIndex}:vision`,
+        file: storagePath,
+        kind: 'vision',
+        pages: imageOnlyPages,
+        title: `${fileName} – image-only pages ${imageOnlyPages.join(', ')}`,
+        only_if_no_rooms: true,
+      }))
+    }
+  }
+}
+
+// =============================================================================
+// Stage 2: Extraction per work item
+// =============================================================================
+
+/**
+ * Replace dimension-based areas with measured ones where the page's line work
+ * encloses the room. Best effort: any failure leaves the AI-read dimensions.
+ */
+async function measureSheetGeometry(sheet: PlanParseSheet, loaded: LoadedPdf, pageText: string) {
+  const pageNumber = sheet.pages[0]
+  try {
+    const doc = await loaded.document()
+    const geometry = doc ? await extractPageGeometry(doc, pageNumber) : null
+    if (!geometry) return
+
+    const takeoff = measureRoomsFromGeometry(geometry, sheet.rooms, pageText)
+    sheet.rooms = takeoff.rooms
+    sheet.assumptions.push(...takeoff.assumptions)
+    sheet.warnings.push(...takeoff.warnings)
+  } catch (error) {
+    console.warn(`[Plans Parse] Geometry takeoff failed for page ${pageNumber}:`, error)
+    sheet.warnings.push(`Page ${pageNumber} (${sheet.title}): could not measure rooms from plan geometry; using plan dimensions`)
+  }
+}
+
+async function extractSheet(
+  supabase: ServiceClient,
+  sheet: PlanParseSheet,
+  loadPdf: (path: string) => Promise<LoadedPdf | null>,
+  provider: LLMProvider
+) {
+  sheet.rooms = []
+  sheet.assumptions = []
+  sheet.warnings = []
+  sheet.missing_info = []
+  sheet.schedules = undefined
+  sheet.error = null
+
+  const publicUrlOf = (path: string) =>
+    supabase.storage.from(STORAGE_BUCKET).getPublicUrl(path).data.publicUrl
+
+  try {
+    if (sheet.kind === 'image') {
+      applyPass2Output(sheet, await analyzeImageForRoomsWithAI(publicUrlOf(sheet.file), provider))
+      sheet.status = 'done'
+      return
+    }
+
+    const loaded = await loadPdf(sheet.file)
+    if (!loaded) {
+      throw new Error(`Failed to download file: ${fileNameOf(sheet.file)}`)
+    }
+    const pageText = (pageNumber: number) =>
+      loaded.extraction.pages.find(p => p.pageNumber === pageNumber)?.text || ''
+
+    if (sheet.kind === 'sheet') {
+      const pageNumber = sheet.pages[0]
+      const text = pageText(pageNumber)
+      if (text.trim().length < 20) {
+        sheet.warnings = [`Page ${pageNumber} (${sheet.title}): insufficient text for extraction`]
+        sheet.status = 'done'
+        return
+      }
+
+      const info: SheetInfo = {
+        pageNumber,
+        sheetTitle: sheet.title,
+        detectedLevel: sheet.level || 'Level 1',
+        classification: sheet.classification || 'floor_plan',
+        confidence: sheet.confidence ?? 0,
+      }
+      const result = await extractRoomsFromSheetWithAI({ sheet: info, pageText: text, provider })
+      if (result.error) {
+        throw new Error(result.error)
+      }
+
+      sheet.rooms = result.rooms
+      if (result.rooms.length > 0) {
+        sheet.assumptions = [`Page ${pageNumber} (${sheet.title}): found ${result.rooms.length} rooms on ${info.detectedLevel}`]
+        await measureSheetGeometry(sheet, loaded, text)
+      } else {
+        sheet.warnings = [`Page ${pageNumber} (${sheet.title}): no rooms detected`]
+      }
+      sheet.status = 'done'
+      return
+    }
+
+    if (sheet.kind === 'schedule') {
+      const pageNumber = sheet.pages[0]
+      const result = await extractSchedulesFromPageWithAI({
+        pageNumber,
+        sheetTitle: sheet.title,
+        pageText: pageText(pageNumber),
+        provider,
+      })
+      if (result.error) {
+        throw new Error(result.error)
+      }
+
+      sheet.schedules = { doors: result.doors, windows: result.windows, finishes: result.finishes }
+      sheet.warnings = result.warnings
+      const rowCount = scheduleRowCount(sheet)
+      if (rowCount > 0) {
+        sheet.assumptions = [
+          `Page ${pageNumber}: read ${result.doors.length} door, ${result.windows.length} window and ${result.finishes.length} room finish schedule rows`,
+        ]
+      } else {
+        sheet.warnings.push(`Page ${pageNumber} (${sheet.title}): no schedule rows detected`)
+      }
+      sheet.status = 'done'
+      return
+    }
+
+    if (sheet.kind === 'fallback') {
+      applyPass2Output(sheet, await extractRoomsFromPagesWithAI({
+        pageTexts: sheet.pages.map(pageText),
+        pageNumbers: sheet.pages,
+        provider,
+      }))
+      sheet.warnings.unshift('No floor plan pages detected. Parsed first pages as fallback.')
+      sheet.status = 'done'
+      return
+    }
+
+    // Vision on rendered pages, falling back to the file URL
+    const rendered = await renderPdfPagesToImages(loaded.buffer, sheet.pages, 1.5)
+    if (rendered.length > 0) {
+      applyPass2Output(sheet, await analyzeBase64ImagesForRooms(rendered, provider))
+      sheet.assumptions.push(`Analyzed ${rendered.length} rendered page(s) using vision AI`)
+    } else {
+      applyPass2Output(sheet, await analyzeImageForRoomsWithAI(publicUrlOf(sheet.file), provider))
+      sheet.assumptions.push('Analyzed document via public URL using vision AI')
+    }
+    if (sheet.rooms.length === 0) {
+      sheet.warnings.push('Vision analysis did not detect rooms from rendered pages.')
+    }
+    sheet.status = 'done'
+  } catch (error) {
+    console.error(`[Plans Parse] Extraction failed for ${sheet.id}:`, error)
+    sheet.status = 'failed'
+    sheet.error = error instanceof Error ? error.message : 'Extraction failed'
+  }
+}
+
+// =============================================================================
+// Stage 3: Finalize
+// =============================================================================
+
+/**
+ * Merge schedule rows across pages. The same door/window mark or finish room
+ * on two pages (a schedule repeated on several sheets) is kept once.
+ */
+function mergeSchedules(sheets: PlanParseSheet[]): PlanSchedules | undefined {
+  const schedules: PlanSchedules = { doors: [], windows: [], finishes: [] }
+  const seen = new Set<string>()
+  const firstSeen = (key: string) => {
+    const normalized = key.toLowerCase().replace(/\s+/g, ' ').trim()
+    if (seen.has(normalized)) return false
+    seen.add(normalized)
+    return true
+  }
+
+  for (const sheet of sheets) {
+    if (sheet.kind !== 'schedule' || !sheet.schedules) continue
+    const page = sheet.pages[0]
+    for (const door of sheet.schedules.doors) {
+      if (!firstSeen(`door::${door.mark}::${door.size ?? ''}`)) continue
+      schedules.doors.push({
+        id: randomUUID(),
+        mark: door.mark,
+        size: door.size ?? null,
+        type: door.type ?? null,
+        material: door.material ?? null,
+        hardware: door.hardware ?? null,
+        location: door.location ?? null,
+        quantity: door.quantity,
+        notes: door.notes ?? null,
+        page,
+      })
+    }
+    for (const windowRow of sheet.schedules.windows) {
+      if (!firstSeen(`window::${windowRow.mark}::${windowRow.size ?? ''}`)) continue
+      schedules.windows.push({
+        id: randomUUID(),
+        mark: windowRow.mark,
+        size: windowRow.size ?? null,
+        type: windowRow.type ?? null,
+        location: windowRow.location ?? null,
+        quantity: windowRow.quantity,
+        notes: windowRow.notes ?? null,
+        page,
+      })
+    }
+    for (const finish of sheet.schedules.finishes) {
+      if (!firstSeen(`finish::${finish.room}`)) continue
+      schedules.finishes.push({
+        id: randomUUID(),
+        room: finish.room,
+        floor: finish.floor ?? null,
+        base: finish.base ?? null,
+        wall: finish.wall ?? null,
+        ceiling: finish.ceiling ?? null,
+        notes: finish.notes ?? null,
+        page,
+      })
+    }
+  }
+
+  const total = schedules.doors.length + schedules.windows.length + schedules.finishes.length
+  return total > 0 ? schedules : undefined
+}
+
+async function buildParseResult(state: JobState, provider: LLMProvider): Promise<PlanParseResult> {
+  const done = state.sheets.filter(s => s.status === 'done')
+  const failed = state.sheets.filter(s => s.status === 'failed')
+
+  // Text sheets dedupe across overlapping pages; then dedupe everything by
+  // level + name (case-insensitive)
+  const sheetRooms = deduplicateAcrossSheets(
+    done
+      .filter(s => s.kind === 'sheet')
+      .map(s => ({
+        sheet: {
+          pageNumber: s.pages[0],
+          sheetTitle: s.title,
+          detectedLevel: s.level || 'Level 1',
+          classification: s.classification || 'floor_plan',
+          confidence: s.confidence ?? 0,
+        },
+        rooms: s.rooms,
+      }))
+  )
+  const otherRooms = done.filter(s => s.kind !== 'sheet').flatMap(s => s.rooms)
+
+  const seenKeys = new Set<string>()
+  const uniqueRooms: ExtractedRoom[] = [...sheetRooms, ...otherRooms].filter(room => {
+    const key = `${(room.level || 'Level 1').toLowerCase()}::${room.name.toLowerCase().trim()}`
+    if (seenKeys.has(key)) return false
+    seenKeys.add(key)
+    return true
+  })
+  console.log(`[Plans Parse] ${state.id}: ${uniqueRooms.length} unique rooms from ${done.length} sheet(s)`)
+
+  const assumptions = done.flatMap(s => s.assumptions)
+  const warnings = [
+    ...state.progress.warnings,
+    ...done.flatMap(s => s.warnings),
+    ...failed.map(s => `${s.title}: extraction failed (${s.error}). Retry the sheet to try again.`),
+  ]
+  const missingInfo = done.flatMap(s => s.missing_info)
+  const schedules = mergeSchedules(done)
+
+  if (uniqueRooms.length === 0) {
+    const fallback = createFallbackResponse(
+      'No rooms were detected from the uploaded documents. This may be due to image-only PDFs, unclear layouts, or documents without room information.',
+      state.pagesOfInterest.totalPages,
+      state.id
+    )
+    return {
+      rooms: fallback.rooms as ParsedRoom[],
+      lineItemScaffold: fallback.lineItemScaffold as ParsedLineItem[],
+      assumptions: [...assumptions, 'Created fallback "General / Scope Notes" room for manual entry'],
+      warnings: [...warnings, ...fallback.warnings],
+      missingInfo,
+      schedules,
+      fallback: true,
+      metadata: { totalPages: state.pagesOfInterest.totalPages, relevantPages: state.pagesOfInterest.relevantPages },
+    }
+  }
+
+  let lineItems: LineItemScaffold[] = []
+  try {
+    lineItems = await generateLineItemScaffoldWithAI({ rooms: uniqueRooms, provider })
+  } catch (error) {
+    console.warn('[Plans Parse] Line item generation failed:', error)
+    warnings.push('Line item scaffold generation failed. Add line items manually.')
+  }
+
+  return {
+    rooms: uniqueRooms.map(r => ({
+      id: randomUUID(),
+      name: r.name,
+      level: r.level ?? 'Level 1', // Default until parser detects levels
+      type: r.type,
+      area_sqft: r.area_sqft,
+      length_ft: r.length_ft ?? null,
+      width_ft: r.width_ft ?? null,
+      ceiling_height_ft: r.ceiling_height_ft ?? null,
+      dimensions: r.dimensions,
+      notes: r.notes,
+      confidence: r.confidence,
+      perimeter_ft: r.perimeter_ft ?? null,
+      polygon: r.polygon ?? null,
+      area_source: r.area_source ?? null,
+      is_included: true,
+    })),
+    lineItemScaffold: lineItems.map(li => ({
+      id: randomUUID(),
+      description: li.description,
+      category: li.category,
+      cost_code: li.cost_code || null,
+      room_name: li.room_name,
+      quantity: li.quantity,
+      unit: li.unit,
+      notes: li.notes,
+      // Phase 1: NO PRICING
+      direct_cost: null,
+      client_price: null,
+    })),
+    assumptions,
+    warnings,
+    missingInfo,
+    schedules,
+    metadata: {
+      model: state.progress.models.join(', ') || undefined,
+      totalPages: state.pagesOfInterest.totalPages,
+      relevantPages: state.pagesOfInterest.relevantPages,
+    },
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Jobs a driver should run next, oldest first: queued jobs and processing
+ * jobs whose worker stopped reporting. runPlanParseJob still claims each
+ * one, so concurrent drivers never run a job twice.
+ */
+export async function findRunnablePlanParseJobs(limit: number): Promise<string[]> {
+  const supabase = createServiceRoleClient()
+  const cutoff = new Date(Date.now() - STALE_HEARTBEAT_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('plan_parses')
+    .select('id')
+    .or(`status.eq.queued,and(status.eq.processing,or(heartbeat_at.is.null,heartbeat_at.lt.${cutoff}))`)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to list plan parse jobs: ${error.message}`)
+  }
+  return (data || []).map(row => row.id as string)
+}
+
+/**
+ * Claim a queued plan parse job and advance it until it finishes, is
+ * cancelled or runs out of time. Returns 'not_claimed' when the job isn't
+ * queued (already running elsewhere, finished or cancelled), and
+ * 'claim_lost' when the run stalled long enough for the job to be requeued
+ * or taken over.
+ */
+export async function runPlanParseJob(planParseId: string): Promise<PlanParseRunOutcome> {
+  const supabase = createServiceRoleClient()
+  const runStart = Date.now()
+  const claimId = randomUUID()
+
+  await requeueIfStale(supabase, planParseId)
+
+  // Conditional update: only one run can move the job out of 'queued'
+  const { data: job } = await supabase
+    .from('plan_parses')
+    .update({ status: 'processing', claim_id: claimId, heartbeat_at: new Date().toISOString() })
+    .eq('id', planParseId)
+    .eq('status', 'queued')
+    .select('*')
+    .maybeSingle()
+
+  if (!job) return 'not_claimed'
+
+  const state: JobState = {
+    id: job.id,
+    fileUrls: Array.isArray(job.file_urls) ? job.file_urls : [],
+    progress: readPlanParseProgress(job.progress),
+    sheets: readPlanParseSheets(job.sheets),
+    pagesOfInterest: (job.pages_of_interest as PagesOfInterest | null) || { classifications: [], relevantPages: [], totalPages: 0 },
+    processingTimeMs: job.processing_time_ms || 0,
+  }
+  state.progress.files_total = state.fileUrls.length
+
+  const cancelRequested = async (): Promise<boolean> => {
+    const { data: current } = await supabase
+      .from('plan_parses')
+      .select('cancel_requested_at')
+      .eq('id', planParseId)
+      .single()
+    return !!current?.cancel_requested_at
+  }
+
+  // Writes only while this run still owns the job: same claim, heartbeat not
+  // yet stale. Throws ClaimLostError otherwise. With unlessCancelled the
+  // write is skipped (false) once a cancel has been requested.
+  const save = async (patch: Record<string, unknown> = {}, options: { unlessCancelled?: boolean } = {}): Promise<boolean> => {
+    recountProgress(state)
+    let query = supabase
+      .from('plan_parses')
+      .update({
+        progress: state.progress,
+        sheets: state.sheets,
+        pages_of_interest: state.pagesOfInterest,
+        source_file_pages: state.pagesOfInterest.totalPages,
+        processing_time_ms: state.processingTimeMs + (Date.now() - runStart),
+        heartbeat_at: new Date().toISOString(),
+        ...patch,
+      })
+      .eq('id', planParseId)
+      .eq('status', 'processing')
+      .eq('claim_id', claimId)
+      .gte('heartbeat_at', new Date(Date.now() - STALE_HEARTBEAT_MS).toISOString())
+    if (options.unlessCancelled) {
+      query = query.is('cancel_requested_at', null)
+    }
+
+    const { data: saved, error } = await query.select('id')
+    if (error) {
+      console.error('[Plans Parse] Failed to save job state:', error.message)
+      return true
+    }
+    if (saved && saved.length > 0) return true
+    if (options.unlessCancelled && await cancelRequested()) return false
+    throw new ClaimLostError(planParseId)
+  }
+
+  // Between work items: stop for a cancel request or an exhausted budget
+  const checkpoint = async (): Promise<'cancelled' | 'yielded' | null> => {
+    if (await cancelRequested()) {
+      await save({ status: 'cancelled', parsed_at: new Date().toISOString() })
+      return 'cancelled'
+    }
+    if (Date.now() - runStart > RUN_BUDGET_MS) {
+      await save({ status: 'queued' })
+      return 'yielded'
+    }
+    return null
+  }
+
+  const pdfCache = new Map<string, Promise<LoadedPdf | null>>()
+  const loadPdf = (storagePath: string) => {
+    let pending = pdfCache.get(storagePath)
+    if (!pending) {
+      pending = (async () => {
+        const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(storagePath)
+        if (error || !data) {
+          console.error('[Plans Parse] Download failed:', error?.message || 'No data returned')
+          return null
+        }
+        const buffer = Buffer.from(await data.arrayBuffer())
+        let document: Promise<any | null> | null = null
+        return {
+          buffer,
+          extraction: await extractPdfPagesWithText(buffer),
+          document: () => {
+            if (!document) document = loadPdfDocument(buffer)
+            return document
+          },
+        }
+      })()
+      pdfCache.set(storagePath, pending)
+    }
+    return pending
+  }
+
+  try {
+    await save({ attempts: (job.attempts || 0) + 1, started_at: job.started_at || new Date().toISOString() })
+
+    const provider = observeChatModels(getLLMProvider(), model => {
+      if (!state.progress.models.includes(model)) state.progress.models.push(model)
+    })
+
+    // ─── Stage 1: classify files into work items ───
+    while (state.progress.files_prepared < state.fileUrls.length) {
+      const stop = await checkpoint()
+      if (stop) return stop
+
+      state.progress.stage = 'classifying'
+      try {
+        await prepareFile(state, state.progress.files_prepared, loadPdf, provider)
+      } catch (error) {
+        console.error('[Plans Parse] Classification error:', error)
+        const fileName = fileNameOf(state.fileUrls[state.progress.files_prepared])
+        state.progress.warnings.push(`PDF processing error (${fileName}): ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+      state.progress.files_prepared += 1
+      await save()
+    }
+
+    // ─── Stage 2: extract rooms / schedule rows per work item ───
+    state.progress.stage = 'extracting'
+    for (const sheet of state.sheets) {
+      if (sheet.status !== 'pending') continue
+
+      const stop = await checkpoint()
+      if (stop) return stop
+
+      const fileHasRooms = state.sheets.some(s => s.file === sheet.file && s.status === 'done' && s.rooms.length > 0)
+      if (sheet.only_if_no_rooms && fileHasRooms) {
+        sheet.status = 'skipped'
+      } else {
+        await extractSheet(supabase, sheet, loadPdf, provider)
+      }
+      await save()
+    }
+
+    // ─── Stage 3: finalize ───
+    state.progress.stage = 'finalizing'
+    await save()
+
+    const result = await buildParseResult(state, provider)
+    const attempted = state.sheets.filter(s => s.status !== 'skipped')
+    const allFailed = attempted.length > 0 && attempted.every(s => s.status === 'failed')
+
+    // Generating the scaffold takes a while: a cancel requested meanwhile
+    // wins over storing the result
+    state.progress.stage = 'done'
+    const stored = await save({
+      status: allFailed ? 'failed' : 'parsed',
+      parse_result_json: result,
+      error_message: allFailed ? 'Every sheet failed to extract' : null,
+      error_code: allFailed ? 'EXTRACTION_FAILED' : null,
+      parsed_at: new Date().toISOString(),
+    }, { unlessCancelled: true })
+    if (!stored) {
+      state.progress.stage = 'finalizing'
+      await save({ status: 'cancelled', parsed_at: new Date().toISOString() })
+      return 'cancelled'
+    }
+    return 'finished'
+  } catch (error) {
+    if (error instanceof ClaimLostError) {
+      console.warn(`[Plans Parse] ${planParseId}: claim lost, stopping without saving`)
+      return 'claim_lost'
+    }
+    console.error('[Plans Parse] Job failed:', error)
+    try {
+      await save({
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Failed to parse plans',
+        error_code: 'PARSE_ERROR',
+        parsed_at: new Date().toISOString(),
+      })
+    } catch (saveError) {
+      if (saveError instanceof ClaimLostError) return 'claim_lost'
+      throw saveError
+    }
+    return 'finished'
+  }
+}
@@ -10,6 +10,7 @@
  * - PDF type detection (vector / scanned / mixed)
  * - PDF page rendering to images for vision AI
  * - Text-based page sampling for large documents
+ * - Vector geometry (line work + positioned text) for area takeoff
  */
 
 // =============================================================================
@@ -38,6 +39,30 @@ export interface RenderedPage {
 
 export type PdfDocType = 'vector' | 'scanned' | 'mixed'
 
+/** Text run with its position in page space (points, origin bottom-left) */
+export interface PageTextItem {
+  str: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Straight line work and positioned text of one page, in points with the
+ * origin at the bottom-left of the page's view box. Curves (door swings,
+ * fixtures) are left out.
+ */
+export interface PageGeometry {
+  pageNumber: number
+  width: number
+  height: number
+  segments: Array<[number, number, number, number]> // x1, y1, x2, y2
+  textItems: PageTextItem[]
+  /** Segment cap reached; the rest of the page's line work was dropped */
+  truncated: boolean
+}
+
 export interface PdfTypeDetection {
   type: PdfDocType
   textRatio: number
@@ -533,3 +558,159 @@ export function selectPagesForVisionAnalysis(
 
   return targetPages
 }
+
+// =============================================================================
+// Vector Geometry Extraction (for area takeoff)
+// =============================================================================
+
+type Matrix = [number, number, number, number, number, number]
+
+function multiplyMatrix(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ]
+}
+
+/**
+ * Open a PDF with pdfjs-dist for operator-level access. Returns null when
+ * pdfjs can't load in this environment.
+ */
+export async function loadPdfDocument(buffer: Buffer): Promise<any | null> {
+  try {
+    const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs')
+    if (pdfjsLib.GlobalWorkerOptions) {
+      pdfjsLib.GlobalWorkerOptions.workerSrc = ''
+    }
+    const loadingTask = pdfjsLib.getDocument({
+      data: new Uint8Array(buffer),
+      disableFontFace: true,
+      isEvalSupported: false,
+      useWorkerFetch: false,
+      useSystemFonts: true,
+    })
+    return await loadingTask.promise
+  } catch (error) {
+    console.error('[PDF Utils] pdfjs document load failed:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * Read the straight line work (walls, cabinets, dimension lines, ...) and the
+ * positioned text of one page from its operator list.
+ */
+export async function extractPageGeometry(
+  doc: any,
+  pageNumber: number,
+  maxSegments: number = 60000
+): Promise<PageGeometry | null> {
+  if (pageNumber < 1 || pageNumber > doc.numPages) return null
+
+  try {
+    const { OPS } = await import('pdfjs-dist/legacy/build/pdf.mjs')
+    const page = await doc.getPage(pageNumber)
+    const [viewX0, viewY0, viewX1, viewY1] = page.view as number[]
+    const segments: PageGeometry['segments'] = []
+    let truncated = false
+
+    let ctm: Matrix = [1, 0, 0, 1, 0, 0]
+    const stack: Matrix[] = []
+    const toPage = (x: number, y: number): [number, number] => [
+      ctm[0] * x + ctm[2] * y + ctm[4] - viewX0,
+      ctm[1] * x + ctm[3] * y + ctm[5] - viewY0,
+    ]
+    const addSegment = (from: [number, number], to: [number, number]) => {
+      if (segments.length >= maxSegments) {
+        truncated = true
+        return
+      }
+      // Sub-point segments are text strokes or hatching noise
+      if (Math.hypot(to[0] - from[0], to[1] - from[1]) < 0.5) return
+      segments.push([from[0], from[1], to[0], to[1]])
+    }
+
+    const { fnArray, argsArray } = await page.getOperatorList()
+    for (let i = 0; i < fnArray.length; i++) {
+      const fn = fnArray[i]
+      const args = argsArray[i]
+
+      if (fn === OPS.save) {
+        stack.push(ctm)
+      } else if (fn === OPS.restore) {
+        ctm = stack.pop() || ctm
+      } else if (fn === OPS.transform) {
+        ctm = multiplyMatrix(ctm, args as Matrix)
+      } else if (fn === OPS.paintFormXObjectBegin) {
+        stack.push(ctm)
+        if (Array.isArray(args?.[0]) && args[0].length === 6) {
+          ctm = multiplyMatrix(ctm, args[0] as Matrix)
+        }
+      } else if (fn === OPS.paintFormXObjectEnd) {
+        ctm = stack.pop() || ctm
+      } else if (fn === OPS.constructPath) {
+        const [ops, coords] = args as [number[], number[]]
+        let j = 0
+        let current: [number, number] = [0, 0]
+        let start: [number, number] = [0, 0]
+        for (const op of ops) {
+          if (op === OPS.rectangle) {
+            const [x, y, w, h] = coords.slice(j, j + 4)
+            j += 4
+            const corners = [toPage(x, y), toPage(x + w, y), toPage(x + w, y + h), toPage(x, y + h)]
+            for (let k = 0; k < 4; k++) addSegment(corners[k], corners[(k + 1) % 4])
+            current = start = corners[0]
+          } else if (op === OPS.moveTo) {
+            current = start = toPage(coords[j], coords[j + 1])
+            j += 2
+          } else if (op === OPS.lineTo) {
+            const next = toPage(coords[j], coords[j + 1])
+            j += 2
+            addSegment(current, next)
+            current = next
+          } else if (op === OPS.curveTo) {
+            current = toPage(coords[j + 4], coords[j + 5])
+            j += 6
+          } else if (op === OPS.curveTo2 || op === OPS.curveTo3) {
+            current = toPage(coords[j + 2], coords[j + 3])
+            j += 4
+          } else if (op === OPS.closePath) {
+            addSegment(current, start)
+            current = start
+          }
+        }
+      }
+    }
+
+    const content = await page.getTextContent()
+    const textItems: PageTextItem[] = (content.items as Array<Record<string, any>>)
+      .filter(item => typeof item.str === 'string' && item.str.trim().length > 0 && Array.isArray(item.transform))
+      .map(item => {
+        const t = item.transform as number[]
+        return {
+          str: item.str.trim(),
+          x: t[4] - viewX0,
+          y: t[5] - viewY0,
+          width: typeof item.width === 'number' ? item.width : 0,
+          height: typeof item.height === 'number' && item.height > 0 ? item.height : Math.hypot(t[2], t[3]),
+        }
+      })
+
+    page.cleanup?.()
+    return {
+      pageNumber,
+      width: viewX1 - viewX0,
+      height: viewY1 - viewY0,
+      segments,
+      textItems,
+      truncated,
+    }
+  } catch (error) {
+    console.error(`[PDF Utils] Geometry extraction failed for page ${pageNumber}:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
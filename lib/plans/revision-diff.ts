@@ -0,0 +1,566 @@
+/**
+ * Plan Revision Diff
+ *
+ * Compares a revised plan set (Rev B) with what an earlier parse put into
+ * the estimate (Rev A, plan_parses.applied_snapshot):
+ * - Rooms: added, removed, renamed (same room, new name) or with changed
+ *   dimensions. Renames are paired on the same level by matching
+ *   dimensions or area, or the same base label ("BR 2" → "Bedroom 2").
+ * - Scaffold line items: added, removed or changed (description, quantity,
+ *   unit), matched per room by description, then by cost code and unit.
+ *
+ * A value the revision doesn't state (null) keeps the applied one. Changes
+ * are then checked against the rows in the estimate: a field edited since
+ * the base was applied is kept rather than overwritten.
+ */
+
+import { isAreaUnit } from '@/lib/area-mapping'
+import { sameFieldValue } from '@/lib/field-conflicts'
+import { roomLabelKey } from './room-processor'
+import type {
+  PlanParseAppliedSnapshot,
+  PlanParseSnapshotLineItem,
+  PlanParseSnapshotRoom,
+} from '@/types/db'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Room as read from the revision */
+export type RevisionRoom = Omit<PlanParseSnapshotRoom, 'room_id' | 'included'>
+
+/** Scaffold line item as it would be inserted */
+export type RevisionLineItem = Omit<PlanParseSnapshotLineItem, 'line_item_id' | 'calc_source'>
+
+export const ROOM_DIFF_FIELDS = ['name', 'level', 'length_ft', 'width_ft', 'ceiling_height_ft', 'area_sqft'] as const
+export type RoomDiffField = typeof ROOM_DIFF_FIELDS[number]
+
+export const LINE_ITEM_DIFF_FIELDS = ['description', 'quantity', 'unit'] as const
+export type LineItemDiffField = typeof LINE_ITEM_DIFF_FIELDS[number]
+
+export interface RevisionFieldChange<F extends string = string> {
+  field: F
+  /** As applied from the base */
+  from: string | number | null
+  /** As the revision reads */
+  to: string | number | null
+  /** In the estimate now */
+  current?: string | number | null
+  /** Why the estimate's value is kept instead of `to`, when it is */
+  kept?: string | null
+}
+
+export interface RoomRevisionChange {
+  id: string
+  kind: 'added' | 'removed' | 'renamed' | 'dimensions_changed'
+  base: PlanParseSnapshotRoom | null
+  revision: RevisionRoom | null
+  fields: RevisionFieldChange<RoomDiffField>[]
+  /** Project room the change applies to (null for added rooms or when it's gone) */
+  roomId: string | null
+  /** Why the change can't be applied, or needs a second look */
+  note?: string | null
+  /** Edited in the estimate since the base was applied */
+  edited?: boolean
+}
+
+export interface LineItemRevisionChange {
+  id: string
+  kind: 'added' | 'removed' | 'changed'
+  base: PlanParseSnapshotLineItem | null
+  revision: RevisionLineItem | null
+  fields: RevisionFieldChange<LineItemDiffField>[]
+  /** Room name the item belongs to in the revision (base name when removed) */
+  roomName: string
+  lineItemId: string | null
+  note?: string | null
+  edited?: boolean
+}
+
+export interface PlanRevisionDiff {
+  rooms: RoomRevisionChange[]
+  lineItems: LineItemRevisionChange[]
+  unchangedRooms: number
+  unchangedLineItems: number
+}
+
+/** Room values in the estimate now; area_sqft is the measured area for outlined rooms */
+export interface CurrentRoomValues {
+  name: string
+  level: string | null
+  length_ft: number | null
+  width_ft: number | null
+  ceiling_height_ft: number | null
+  area_sqft: number | null
+  is_in_scope: boolean | null
+}
+
+export interface CurrentLineItemValues {
+  estimate_id: string
+  description: string | null
+  quantity: number | null
+  unit: string | null
+  calc_source: string | null
+  is_active: boolean | null
+  direct_cost: number | null
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Largest difference still read as the same measurement */
+const MEASURE_TOLERANCE: Partial<Record<RoomDiffField, number>> = {
+  length_ft: 0.1,
+  width_ft: 0.1,
+  ceiling_height_ft: 0.1,
+  area_sqft: 1,
+}
+
+function normalizeText(value: string | null | undefined): string {
+  return (value || '').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+function sameRoomValue(field: RoomDiffField, a: unknown, b: unknown): boolean {
+  const tolerance = MEASURE_TOLERANCE[field]
+  if (tolerance === undefined) return normalizeText(a as string) === normalizeText(b as string)
+  const x = toNumber(a)
+  const y = toNumber(b)
+  if (x === null || y === null) return x === y
+  return Math.abs(x - y) <= tolerance
+}
+
+function sameLineItemValue(field: LineItemDiffField, a: unknown, b: unknown): boolean {
+  if (field === 'quantity') return sameFieldValue(a, b)
+  return normalizeText(a as string) === normalizeText(b as string)
+}
+
+function levelsCompatible(a: string | null, b: string | null): boolean {
+  return !a || !b || normalizeText(a) === normalizeText(b)
+}
+
+function nameSimilarity(a: string, b: string): number {
+  const tokensA = new Set(normalizeText(a).split(/[^a-z0-9]+/).filter(Boolean))
+  const tokensB = new Set(normalizeText(b).split(/[^a-z0-9]+/).filter(Boolean))
+  if (tokensA.size === 0 || tokensB.size === 0) return 0
+  let shared = 0
+  for (const token of tokensA) if (tokensB.has(token)) shared++
+  return shared / (tokensA.size + tokensB.size - shared)
+}
+
+/** Same footprint (either orientation) */
+function sameFootprint(a: RevisionRoom, b: RevisionRoom): boolean {
+  if (a.length_ft === null || a.width_ft === null || b.length_ft === null || b.width_ft === null) return false
+  const close = (x: number, y: number) => Math.abs(x - y) <= 0.25
+  return (close(a.length_ft, b.length_ft) && close(a.width_ft, b.width_ft))
+    || (close(a.length_ft, b.width_ft) && close(a.width_ft, b.length_ft))
+}
+
+function areaClose(a: RevisionRoom, b: RevisionRoom): boolean {
+  if (!a.area_sqft || !b.area_sqft) return false
+  return Math.abs(a.area_sqft - b.area_sqft) / Math.max(a.area_sqft, b.area_sqft) <= 0.05
+}
+
+/** Score for pairing a room missing from the revision with a new one, or null */
+function renameScore(base: RevisionRoom, revision: RevisionRoom): number | null {
+  if (!levelsCompatible(base.level, revision.level)) return null
+  const footprint = sameFootprint(base, revision)
+  const area = areaClose(base, revision)
+  const label = roomLabelKey(base.name) === roomLabelKey(revision.name)
+  if (!footprint && !area && !label) return null
+  return (footprint ? 2 : area ? 1.5 : 0) + (label ? 1 : 0) + nameSimilarity(base.name, revision.name)
+}
+
+function roomFieldChanges(base: RevisionRoom, revision: RevisionRoom): RevisionFieldChange<RoomDiffField>[] {
+  const changes: RevisionFieldChange<RoomDiffField>[] = []
+  for (const field of ROOM_DIFF_FIELDS) {
+    const from = base[field]
+    const to = revision[field]
+    // Not stated in the revision: keep what was applied
+    if (to === null || to === undefined || to === '') continue
+    if (sameRoomValue(field, from, to)) continue
+    changes.push({ field, from: from ?? null, to })
+  }
+  return changes
+}
+
+function lineItemFieldChanges(
+  base: PlanParseSnapshotLineItem,
+  revision: RevisionLineItem
+): RevisionFieldChange<LineItemDiffField>[] {
+  const changes: RevisionFieldChange<LineItemDiffField>[] = []
+  for (const field of LINE_ITEM_DIFF_FIELDS) {
+    // Derived quantities follow the room (or the plan measurements), not the scaffold
+    if (field === 'quantity' && base.calc_source !== 'manual') continue
+    if (sameLineItemValue(field, base[field], revision[field])) continue
+    changes.push({ field, from: base[field], to: revision[field] })
+  }
+  return changes
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+/** Revision room from a parsed (or reviewed) room */
+export function revisionRoomFromParsed(room: {
+  name: string
+  level?: string | null
+  type?: string | null
+  area_sqft?: number | null
+  length_ft?: number | null
+  width_ft?: number | null
+  ceiling_height_ft?: number | null
+  perimeter_ft?: number | null
+  polygon?: Array<[number, number]> | null
+  area_source?: 'dimensions' | 'geometry' | null
+}): RevisionRoom {
+  return {
+    name: room.name.trim(),
+    level: room.level || null,
+    type: room.type?.trim() || null,
+    area_sqft: room.area_sqft || null,
+    length_ft: room.length_ft || null,
+    width_ft: room.width_ft || null,
+    ceiling_height_ft: room.ceiling_height_ft || null,
+    perimeter_ft: room.perimeter_ft || null,
+    polygon: room.polygon || null,
+    area_source: room.area_source || null,
+  }
+}
+
+/**
+ * Line item values a scaffold item is inserted with: notes appended to the
+ * description, area units normalized to SQFT, quantity defaulting to 1
+ */
+export function scaffoldLineItemValues(li: {
+  description: string
+  category?: string | null
+  cost_code?: string | null
+  room_name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+}): RevisionLineItem {
+  const unit = li.unit || 'EA'
+  return {
+    room_name: li.room_name,
+    scaffold_description: li.description,
+    description: li.notes ? `${li.description} — ${li.notes}` : li.description,
+    category: li.category || 'Other',
+    cost_code: li.cost_code || '999',
+    quantity: li.quantity || 1,
+    unit: isAreaUnit(unit) ? 'SQFT' : unit,
+  }
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Differences between what a parse applied and a revision of the same plans
+ */
+export function diffPlanRevision(
+  base: Pick<PlanParseAppliedSnapshot, 'rooms' | 'line_items'>,
+  revision: { rooms: RevisionRoom[]; lineItems: RevisionLineItem[] }
+): PlanRevisionDiff {
+  const rooms: RoomRevisionChange[] = []
+  let unchangedRooms = 0
+
+  // ─── Rooms: same name and level, then renames ───
+  const roomKey = (room: { name: string; level: string | null }) =>
+    `${normalizeText(room.name)}|${normalizeText(room.level)}`
+
+  const revisionByKey = new Map<string, number>()
+  revision.rooms.forEach((room, i) => {
+    if (!revisionByKey.has(roomKey(room))) revisionByKey.set(roomKey(room), i)
+  })
+
+  const pairs = new Map<number, number>() // base index → revision index
+  const pairedRevision = new Set<number>()
+  base.rooms.forEach((room, i) => {
+    const match = revisionByKey.get(roomKey(room))
+    if (match !== undefined && !pairedRevision.has(match)) {
+      pairs.set(i, match)
+      pairedRevision.add(match)
+    }
+  })
+
+  // Same name with a level added or dropped (unknown level on one side)
+  base.rooms.forEach((room, i) => {
+    if (pairs.has(i)) return
+    const candidates = revision.rooms
+      .map((r, j) => ({ r, j }))
+      .filter(({ r, j }) => !pairedRevision.has(j)
+        && normalizeText(r.name) === normalizeText(room.name)
+        && levelsCompatible(r.level, room.level))
+    if (candidates.length === 1) {
+      pairs.set(i, candidates[0].j)
+      pairedRevision.add(candidates[0].j)
+    }
+  })
+
+  const renameCandidates: Array<{ i: number; j: number; score: number }> = []
+  base.rooms.forEach((room, i) => {
+    if (pairs.has(i)) return
+    revision.rooms.forEach((r, j) => {
+      if (pairedRevision.has(j)) return
+      const score = renameScore(room, r)
+      if (score !== null && score >= 1.25) renameCandidates.push({ i, j, score })
+    })
+  })
+  renameCandidates.sort((a, b) => b.score - a.score)
+  for (const { i, j } of renameCandidates) {
+    if (pairs.has(i) || pairedRevision.has(j)) continue
+    pairs.set(i, j)
+    pairedRevision.add(j)
+  }
+
+  // Base room name → revision room name, to follow line items across renames
+  const roomNameMap = new Map<string, string>()
+
+  base.rooms.forEach((room, i) => {
+    const j = pairs.get(i)
+    if (j === undefined) {
+      // Already out of scope: nothing to remove
+      if (!room.included) return
+      rooms.push({
+        id: `room:${i}:-`,
+        kind: 'removed',
+        base: room,
+        revision: null,
+        fields: [],
+        roomId: room.room_id,
+      })
+      return
+    }
+
+    const revised = revision.rooms[j]
+    roomNameMap.set(normalizeText(room.name), normalizeText(revised.name))
+    const fields = roomFieldChanges(room, revised)
+    if (fields.length === 0) {
+      unchangedRooms++
+      return
+    }
+    rooms.push({
+      id: `room:${i}:${j}`,
+      kind: fields.some(f => f.field === 'name') ? 'renamed' : 'dimensions_changed',
+      base: room,
+      revision: revised,
+      fields,
+      roomId: room.room_id,
+    })
+  })
+
+  revision.rooms.forEach((room, j) => {
+    if (pairedRevision.has(j)) return
+    rooms.push({
+      id: `room:-:${j}`,
+      kind: 'added',
+      base: null,
+      revision: room,
+      fields: [],
+      roomId: null,
+    })
+  })
+
+  // ─── Scaffold line items, per (revision) room ───
+  const lineItems: LineItemRevisionChange[] = []
+  let unchangedLineItems = 0
+
+  const baseRoomOf = (item: PlanParseSnapshotLineItem) => {
+    const name = normalizeText(item.room_name)
+    return roomNameMap.get(name) ?? name
+  }
+  const itemKey = (room: string, description: string) => `${room}|${normalizeText(description)}`
+
+  const revisionItemsByKey = new Map<string, number[]>()
+  revision.lineItems.forEach((item, j) => {
+    const key = itemKey(normalizeText(item.room_name), item.scaffold_description)
+    revisionItemsByKey.set(key, [...(revisionItemsByKey.get(key) || []), j])
+  })
+
+  const itemPairs = new Map<number, number>()
+  const pairedRevisionItems = new Set<number>()
+  base.line_items.forEach((item, i) => {
+    const candidates = revisionItemsByKey.get(itemKey(baseRoomOf(item), item.scaffold_description)) || []
+    const match = candidates.find(j => !pairedRevisionItems.has(j))
+    if (match !== undefined) {
+      itemPairs.set(i, match)
+      pairedRevisionItems.add(match)
+    }
+  })
+
+  // Reworded items: the only unmatched item in the room with the same cost code and unit
+  base.line_items.forEach((item, i) => {
+    if (itemPairs.has(i) || !item.cost_code) return
+    const room = baseRoomOf(item)
+    const sameSlot = (other: { cost_code: string | null; unit: string }) =>
+      other.cost_code === item.cost_code && normalizeText(other.unit) === normalizeText(item.unit)
+    const revisionCandidates = revision.lineItems
+      .map((r, j) => ({ r, j }))
+      .filter(({ r, j }) => !pairedRevisionItems.has(j) && normalizeText(r.room_name) === room && sameSlot(r))
+    const baseCandidates = base.line_items
+      .filter((b, k) => !itemPairs.has(k) && baseRoomOf(b) === room && sameSlot(b))
+    if (revisionCandidates.length === 1 && baseCandidates.length === 1) {
+      itemPairs.set(i, revisionCandidates[0].j)
+      pairedRevisionItems.add(revisionCandidates[0].j)
+    }
+  })
+
+  base.line_items.forEach((item, i) => {
+    const j = itemPairs.get(i)
+    if (j === undefined) {
+      lineItems.push({
+        id: `item:${i}:-`,
+        kind: 'removed',
+        base: item,
+        revision: null,
+        fields: [],
+        roomName: item.room_name,
+        lineItemId: item.line_item_id,
+      })
+      return
+    }
+    const revised = revision.lineItems[j]
+    const fields = lineItemFieldChanges(item, revised)
+    if (fields.length === 0) {
+      unchangedLineItems++
+      return
+    }
+    lineItems.push({
+      id: `item:${i}:${j}`,
+      kind: 'changed',
+      base: item,
+      revision: revised,
+      fields,
+      roomName: revised.room_name,
+      lineItemId: item.line_item_id,
+    })
+  })
+
+  revision.lineItems.forEach((item, j) => {
+    if (pairedRevisionItems.has(j)) return
+    lineItems.push({
+      id: `item:-:${j}`,
+      kind: 'added',
+      base: null,
+      revision: item,
+      fields: [],
+      roomName: item.room_name,
+      lineItemId: null,
+    })
+  })
+
+  return { rooms, lineItems, unchangedRooms, unchangedLineItems }
+}
+
+// =============================================================================
+// Edits in the estimate
+// =============================================================================
+
+/**
+ * Check changes against the rows in the estimate. Fields edited since the
+ * base was applied are kept; changes whose room or line item is gone can't
+ * be applied; removals of edited rows are flagged.
+ */
+export function markRevisionEdits(
+  diff: PlanRevisionDiff,
+  current: {
+    estimateId: string
+    rooms: Map<string, CurrentRoomValues>
+    lineItems: Map<string, CurrentLineItemValues>
+  }
+): PlanRevisionDiff {
+  const rooms = diff.rooms.map(change => {
+    if (change.kind === 'added') return change
+
+    const room = change.roomId ? current.rooms.get(change.roomId) : undefined
+    if (!room) {
+      return { ...change, roomId: null, note: 'No longer in the project' }
+    }
+
+    const edited = ROOM_DIFF_FIELDS.some(field => !sameRoomValue(field, room[field], change.base?.[field]))
+    if (change.kind === 'removed') {
+      if (room.is_in_scope === false) return { ...change, roomId: null, note: 'Already out of scope' }
+      return { ...change, edited, note: edited ? 'Edited in the estimate since it was applied' : null }
+    }
+
+    const fields = change.fields.map(f => {
+      const value = room[f.field]
+      const kept = !sameRoomValue(f.field, value, f.from) && !sameRoomValue(f.field, value, f.to)
+      return { ...f, current: value ?? null, kept: kept ? 'Edited in the estimate' : null }
+    })
+    return { ...change, fields, edited }
+  })
+
+  const lineItems = diff.lineItems.map(change => {
+    if (change.kind === 'added') return change
+
+    const item = change.lineItemId ? current.lineItems.get(change.lineItemId) : undefined
+    if (!item || item.estimate_id !== current.estimateId) {
+      return { ...change, lineItemId: null, note: 'Not in this estimate' }
+    }
+    if (item.is_active === false) {
+      return { ...change, lineItemId: null, note: 'Removed from the estimate' }
+    }
+
+    const edited = LINE_ITEM_DIFF_FIELDS.some(field =>
+      !(field === 'quantity' && change.base?.calc_source !== 'manual')
+      && !sameLineItemValue(field, item[field], change.base?.[field])
+    )
+    if (change.kind === 'removed') {
+      const priced = item.direct_cost !== null && Number(item.direct_cost) !== 0
+      return {
+        ...change,
+        edited: edited || priced,
+        note: priced ? 'Priced in the estimate' : edited ? 'Edited in the estimate since it was applied' : null,
+      }
+    }
+
+    const fields = change.fields.map(f => {
+      const value = item[f.field]
+      if (f.field === 'quantity' && item.calc_source === 'room_dimensions') {
+        return { ...f, current: value, kept: 'Follows the room area' }
+      }
+      if (f.field === 'quantity' && item.calc_source === 'takeoff') {
+        return { ...f, current: value, kept: 'Measured on the plans' }
+      }
+      const kept = !sameLineItemValue(f.field, value, f.from) && !sameLineItemValue(f.field, value, f.to)
+      return { ...f, current: value ?? null, kept: kept ? 'Edited in the estimate' : null }
+    })
+    return { ...change, fields, edited }
+  })
+
+  return { ...diff, rooms, lineItems }
+}
+
+/**
+ * Whether applying the change would do anything
+ */
+export function isRevisionChangeApplicable(change: RoomRevisionChange | LineItemRevisionChange): boolean {
+  if (change.kind === 'added') return true
+  const targetId = 'roomId' in change ? change.roomId : change.lineItemId
+  if (!targetId) return false
+  return change.kind === 'removed' || change.fields.some(f => !f.kept)
+}
+
+/**
+ * Changes selected by default: everything applicable, except removals of
+ * rows edited in the estimate
+ */
+export function defaultRevisionSelection(diff: PlanRevisionDiff): Set<string> {
+  return new Set(
+    [...diff.rooms, ...diff.lineItems]
+      .filter(change => isRevisionChangeApplicable(change) && !(change.kind === 'removed' && change.edited))
+      .map(change => change.id)
+  )
+}
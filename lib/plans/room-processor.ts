@@ -26,6 +26,7 @@ export interface SheetInfo {
 export interface SheetRoomResult {
   sheet: SheetInfo
   rooms: ExtractedRoom[]
+  error?: string // Set when the AI call failed (as opposed to finding no rooms)
 }
 
 // =============================================================================
@@ -275,6 +276,15 @@ function extractBaseName(name: string): string {
     .trim()
 }
 
+/**
+ * Comparable key for a room name or plan label: abbreviations expanded,
+ * numbering and level suffix dropped, lowercased.
+ * "BR 2" → "bedroom", "Master Bedroom – Level 2" → "master bedroom"
+ */
+export function roomLabelKey(name: string): string {
+  return cleanRoomName(extractBaseName(name)).toLowerCase()
+}
+
 /**
  * Clean up a room name: expand abbreviations, fix casing.
  */
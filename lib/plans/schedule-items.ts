@@ -0,0 +1,209 @@
+/**
+ * Schedule → Line Items
+ *
+ * Turns reviewed door, window and room finish schedule rows into counted
+ * line items (NO PRICING) and the selections that go with them:
+ * - Windows (520): one item per window type, quantity = windows of that type
+ * - Doors: one item per door type; entry doors 521, other exterior doors
+ *   522, interior doors 710
+ * - Finish hardware (810): one item per hardware set, quantity = doors
+ * - Room finishes: floor finish per room (728 tile, 733 vinyl, 734 wood,
+ *   737 carpet) and wall tile (728), measured in SF so the room's area
+ *   fills the quantity when the room is applied from the same parse
+ *
+ * Items on allowance cost codes carry a selection title; applying the parse
+ * creates that selection and links it to the line item.
+ */
+
+import { isAllowanceCostCode } from '@/lib/allowanceRules'
+import type { DoorScheduleRow, PlanSchedules, RoomFinishRow, WindowScheduleRow } from '@/types/db'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ScheduleLineItem {
+  description: string
+  category: string
+  cost_code: string
+  room_name: string
+  quantity: number | null
+  unit: string
+  notes: string | null
+  /** Title for the selection created alongside this item (allowance codes only) */
+  selection_title: string | null
+  /** Schedule rows (by id) that produced this item */
+  source_row_ids: string[]
+}
+
+/** Line items for rows that don't belong to one room */
+export const SCHEDULE_ROOM_NAME = 'General'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const FLOOR_FINISHES: Array<{ pattern: RegExp; costCode: string; category: string; label: string }> = [
+  // Order matters: "wood-look tile" is tile, "LVP (wood look)" is vinyl
+  { pattern: /\b(tile|porcelain|ceramic|stone|marble|slate|travertine|quarry)\b/i, costCode: '728', category: 'Tile', label: 'Floor tile' },
+  { pattern: /\b(vinyl|lvp|lvt|linoleum|resilient)\b/i, costCode: '733', category: 'Flooring', label: 'Vinyl flooring' },
+  { pattern: /\b(carpet|cpt)\b/i, costCode: '737', category: 'Flooring', label: 'Carpet' },
+  { pattern: /\b(wood|hardwood|engineered|oak|maple|hickory|walnut|bamboo)\b/i, costCode: '734', category: 'Flooring', label: 'Wood flooring' },
+]
+
+const WALL_TILE_PATTERN = /\b(tile|porcelain|ceramic|stone|marble)\b/i
+const ENTRY_DOOR_PATTERN = /\b(entry|front door|main entrance)\b/i
+const EXTERIOR_DOOR_PATTERN = /\b(exterior|ext\.?|patio|sliding glass|garage entry|french exterior)\b/i
+
+/** Match a finish schedule room label to a parsed room name, if any */
+export function matchScheduleRoom(label: string, roomNames: string[]): string | null {
+  const normalize = (name: string) => name.toLowerCase().replace(/\s+[–-]\s+.*$/, '').replace(/\s+/g, ' ').trim()
+  const target = normalize(label)
+  return roomNames.find(name => name.toLowerCase().trim() === label.toLowerCase().trim())
+    ?? roomNames.find(name => normalize(name) === target)
+    ?? null
+}
+
+function doorCostCode(door: DoorScheduleRow): string {
+  const text = [door.type, door.material, door.location, door.notes].filter(Boolean).join(' ')
+  if (ENTRY_DOOR_PATTERN.test(text)) return '521'
+  if (EXTERIOR_DOOR_PATTERN.test(text)) return '522'
+  return '710'
+}
+
+function groupBy<T>(rows: T[], keyOf: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const row of rows) {
+    const key = keyOf(row)
+    groups.set(key, [...(groups.get(key) || []), row])
+  }
+  return groups
+}
+
+function describeRows(rows: Array<{ mark: string; size?: string | null }>): string {
+  const marks = rows.map(r => r.mark).join(', ')
+  const sizes = Array.from(new Set(rows.map(r => r.size).filter(Boolean)))
+  return sizes.length > 0 ? `Marks ${marks}; sizes ${sizes.join(', ')}` : `Marks ${marks}`
+}
+
+const sumQuantity = (rows: Array<{ quantity: number }>) => rows.reduce((sum, r) => sum + (r.quantity || 1), 0)
+
+function item(fields: Omit<ScheduleLineItem, 'selection_title'> & { selection_title?: string }): ScheduleLineItem {
+  return {
+    ...fields,
+    selection_title: isAllowanceCostCode(fields.cost_code) ? (fields.selection_title ?? fields.description) : null,
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+export function windowLineItems(windows: WindowScheduleRow[]): ScheduleLineItem[] {
+  return Array.from(groupBy(windows, w => (w.type || 'Window').toLowerCase())).map(([, rows]) => {
+    const type = rows[0].type || 'Window'
+    return item({
+      description: `Windows – ${type}`,
+      category: 'Windows',
+      cost_code: '520',
+      room_name: SCHEDULE_ROOM_NAME,
+      quantity: sumQuantity(rows),
+      unit: 'EA',
+      notes: describeRows(rows),
+      source_row_ids: rows.map(r => r.id),
+    })
+  })
+}
+
+export function doorLineItems(doors: DoorScheduleRow[]): ScheduleLineItem[] {
+  const items = Array.from(groupBy(doors, d => `${doorCostCode(d)}::${(d.type || 'Door').toLowerCase()}`)).map(([, rows]) => {
+    const type = rows[0].type || 'Door'
+    const costCode = doorCostCode(rows[0])
+    return item({
+      description: costCode === '710' ? `Interior doors – ${type}` : `Exterior doors – ${type}`,
+      category: costCode === '521' ? 'Entry Door' : 'Doors',
+      cost_code: costCode,
+      room_name: SCHEDULE_ROOM_NAME,
+      quantity: sumQuantity(rows),
+      unit: 'EA',
+      notes: describeRows(rows),
+      source_row_ids: rows.map(r => r.id),
+    })
+  })
+
+  const withHardware = doors.filter(d => d.hardware)
+  const hardware = Array.from(groupBy(withHardware, d => d.hardware!.toLowerCase())).map(([, rows]) => item({
+    description: `Door hardware – ${rows[0].hardware}`,
+    category: 'Finish Hardware',
+    cost_code: '810',
+    room_name: SCHEDULE_ROOM_NAME,
+    quantity: sumQuantity(rows),
+    unit: 'EA',
+    notes: `Doors ${rows.map(r => r.mark).join(', ')}`,
+    source_row_ids: rows.map(r => r.id),
+  }))
+
+  return [...items, ...hardware]
+}
+
+/**
+ * Floor finish and wall tile per room. Quantity is the room's area when a
+ * parsed room matches the schedule label, otherwise left for the estimator.
+ */
+export function finishLineItems(
+  finishes: RoomFinishRow[],
+  rooms: Array<{ name: string; area_sqft?: number | null }> = []
+): ScheduleLineItem[] {
+  const items: ScheduleLineItem[] = []
+  const roomNames = rooms.map(r => r.name)
+
+  for (const finish of finishes) {
+    const roomName = matchScheduleRoom(finish.room, roomNames) ?? finish.room
+    const area = rooms.find(r => r.name === roomName)?.area_sqft ?? null
+
+    const floor = finish.floor ? FLOOR_FINISHES.find(f => f.pattern.test(finish.floor!)) : undefined
+    if (finish.floor && floor) {
+      items.push(item({
+        description: `${floor.label} – ${finish.floor}`,
+        category: floor.category,
+        cost_code: floor.costCode,
+        room_name: roomName,
+        quantity: area,
+        unit: 'SF',
+        notes: finish.base ? `Base: ${finish.base}` : null,
+        selection_title: `${finish.floor} – ${finish.room}`,
+        source_row_ids: [finish.id],
+      }))
+    }
+
+    if (finish.wall && WALL_TILE_PATTERN.test(finish.wall)) {
+      items.push(item({
+        description: `Wall tile – ${finish.wall}`,
+        category: 'Tile',
+        cost_code: '728',
+        room_name: roomName,
+        quantity: null,
+        unit: 'SF',
+        notes: null,
+        selection_title: `${finish.wall} – ${finish.room}`,
+        source_row_ids: [finish.id],
+      }))
+    }
+  }
+
+  return items
+}
+
+/**
+ * All counted line items for the included schedule rows
+ */
+export function buildScheduleLineItems(
+  schedules: PlanSchedules,
+  rooms: Array<{ name: string; area_sqft?: number | null }> = []
+): ScheduleLineItem[] {
+  return [
+    ...windowLineItems(schedules.windows),
+    ...doorLineItems(schedules.doors),
+    ...finishLineItems(schedules.finishes, rooms),
+  ]
+}
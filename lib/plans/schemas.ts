@@ -4,11 +4,13 @@
  * Phase 1: Blueprint/Plan Parsing
  * - Pass 1: Page Classification (Document Map)
  * - Pass 2: Deep Room Extraction
+ * - Schedules: door, window and room finish schedule tables
  * 
  * IMPORTANT: NO PRICING FIELDS - any pricing from AI is ignored
  */
 
 import { z } from 'zod'
+import type { PagesOfInterest, PlanParseResult } from '@/types/db'
 
 // =============================================================================
 // Page Classification Types (Pass 1)
@@ -112,6 +114,9 @@ export const ExtractedRoomSchema = z.object({
   notes: z.string().max(500).nullable().optional(),
   confidence: z.number().min(0).max(100).default(50),
   sheet_label: z.string().max(200).nullable().optional(), // Original sheet title for provenance
+  perimeter_ft: z.number().positive().nullable().optional(),
+  polygon: z.array(z.tuple([z.number(), z.number()])).nullable().optional(), // Outline in feet, from plan geometry
+  area_source: z.enum(['dimensions', 'geometry']).nullable().optional(),
 })
 
 export type ExtractedRoom = z.infer<typeof ExtractedRoomSchema>
@@ -145,6 +150,67 @@ export const Pass2OutputSchema = z.object({
 
 export type Pass2Output = z.infer<typeof Pass2OutputSchema>
 
+// =============================================================================
+// Schedule Extraction (door / window / room finish tables)
+// =============================================================================
+
+const scheduleText = (max: number) => z.string().max(max).nullable().optional()
+
+/**
+ * One door schedule row (NO PRICING)
+ */
+export const DoorScheduleEntrySchema = z.object({
+  mark: z.string().min(1).max(20),
+  size: scheduleText(50),
+  type: scheduleText(100),
+  material: scheduleText(100),
+  hardware: scheduleText(200),
+  location: scheduleText(100),
+  quantity: z.number().int().positive().default(1),
+  notes: scheduleText(300),
+})
+
+export type DoorScheduleEntry = z.infer<typeof DoorScheduleEntrySchema>
+
+/**
+ * One window schedule row (NO PRICING)
+ */
+export const WindowScheduleEntrySchema = z.object({
+  mark: z.string().min(1).max(20),
+  size: scheduleText(50),
+  type: scheduleText(100),
+  location: scheduleText(100),
+  quantity: z.number().int().positive().default(1),
+  notes: scheduleText(300),
+})
+
+export type WindowScheduleEntry = z.infer<typeof WindowScheduleEntrySchema>
+
+/**
+ * One room finish schedule row: finish per surface
+ */
+export const RoomFinishEntrySchema = z.object({
+  room: z.string().min(1).max(100),
+  floor: scheduleText(100),
+  base: scheduleText(100),
+  wall: scheduleText(100),
+  ceiling: scheduleText(100),
+  notes: scheduleText(300),
+})
+
+export type RoomFinishEntry = z.infer<typeof RoomFinishEntrySchema>
+
+/**
+ * Schedule rows found on one page
+ */
+export const ScheduleExtractionSchema = z.object({
+  doors: z.array(DoorScheduleEntrySchema),
+  windows: z.array(WindowScheduleEntrySchema),
+  finishes: z.array(RoomFinishEntrySchema),
+})
+
+export type ScheduleExtraction = z.infer<typeof ScheduleExtractionSchema>
+
 // =============================================================================
 // Sheet-Level Parse Result (Phase 1 deterministic pipeline)
 // =============================================================================
@@ -191,6 +257,7 @@ export const ParseRequestSchema = z.object({
   uploadId: z.string().uuid().optional(),
   uploadIds: z.array(z.string().uuid()).optional(), // Fallback: resolve file URLs server-side
   resolveFromProject: z.boolean().optional(), // If true, resolve file URLs from project's blueprint uploads
+  basePlanParseId: z.string().uuid().optional(), // Parse as a revision of this applied parse
 })
 
 export type ParseRequest = z.infer<typeof ParseRequestSchema>
@@ -213,6 +280,9 @@ export const ParseResponseSchema = z.object({
     dimensions: z.string().nullable().optional(),
     notes: z.string().nullable().optional(),
     confidence: z.number().optional(),
+    perimeter_ft: z.number().nullable().optional(),
+    polygon: z.array(z.tuple([z.number(), z.number()])).nullable().optional(),
+    area_source: z.enum(['dimensions', 'geometry']).nullable().optional(),
     is_included: z.boolean().default(true),
   })),
   lineItemScaffold: z.array(z.object({
@@ -232,6 +302,13 @@ export const ParseResponseSchema = z.object({
   sheets: z.array(SheetParseResultSchema).optional(),
   assumptions: z.array(z.string()),
   warnings: z.array(z.string()),
+  missingInfo: z.array(z.string()).optional(),
+  /** Schedule rows, reviewed separately and turned into counted line items */
+  schedules: z.object({
+    doors: z.array(DoorScheduleEntrySchema.extend({ id: z.string().uuid(), page: z.number().int() })),
+    windows: z.array(WindowScheduleEntrySchema.extend({ id: z.string().uuid(), page: z.number().int() })),
+    finishes: z.array(RoomFinishEntrySchema.extend({ id: z.string().uuid(), page: z.number().int() })),
+  }).optional(),
   pageClassifications: z.array(PageClassificationSchema),
   totalPages: z.number().int().nonnegative(),
   relevantPages: z.array(z.number().int().positive()),
@@ -240,6 +317,127 @@ export const ParseResponseSchema = z.object({
 
 export type ParseResponse = z.infer<typeof ParseResponseSchema>
 
+// =============================================================================
+// Parse Job State (plan_parses.progress / plan_parses.sheets)
+// =============================================================================
+
+export type PlanParseStage = 'queued' | 'classifying' | 'extracting' | 'finalizing' | 'done'
+
+/** Per-stage counters streamed to the review drawer while a job runs */
+export interface PlanParseProgress {
+  stage: PlanParseStage
+  files_total: number
+  files_prepared: number
+  pages_total: number
+  pages_classified: number
+  sheets_total: number
+  sheets_extracted: number
+  sheets_failed: number
+  rooms_found: number
+  schedule_rows_found: number
+  /** Notes from classification (scanned PDFs, download failures, ...) */
+  warnings: string[]
+  /** Concrete models that answered the job's AI requests, across runs */
+  models: string[]
+}
+
+/**
+ * How a work item is extracted:
+ * - sheet:    one classified floor plan page, text extraction
+ * - fallback: first pages of a PDF with no floor plans detected
+ * - image:    an uploaded image, vision
+ * - vision:   rendered PDF pages (scanned, or image-only pages of a mixed PDF)
+ * - schedule: a page with door/window/room finish schedule tables
+ */
+export type PlanParseSheetKind = 'sheet' | 'fallback' | 'image' | 'vision' | 'schedule'
+
+export type PlanParseSheetStatus = 'pending' | 'done' | 'failed' | 'skipped'
+
+/** One extraction work item; failed items can be retried on their own */
+export interface PlanParseSheet {
+  id: string
+  file: string // Storage path in the uploads bucket
+  kind: PlanParseSheetKind
+  pages: number[]
+  title: string
+  level: string | null
+  classification: string | null
+  confidence: number | null
+  /** Mixed-PDF vision pass: only run when the file's text sheets found nothing */
+  only_if_no_rooms?: boolean
+  status: PlanParseSheetStatus
+  rooms: ExtractedRoom[]
+  /** Schedule work items only */
+  schedules?: ScheduleExtraction
+  assumptions: string[]
+  warnings: string[]
+  missing_info: string[]
+  error: string | null
+}
+
+export function emptyPlanParseProgress(filesTotal: number = 0): PlanParseProgress {
+  return {
+    stage: 'queued',
+    files_total: filesTotal,
+    files_prepared: 0,
+    pages_total: 0,
+    pages_classified: 0,
+    sheets_total: 0,
+    sheets_extracted: 0,
+    sheets_failed: 0,
+    rooms_found: 0,
+    schedule_rows_found: 0,
+    warnings: [],
+    models: [],
+  }
+}
+
+/** Progress from a plan_parses row; older rows have an empty object */
+export function readPlanParseProgress(value: unknown): PlanParseProgress {
+  return { ...emptyPlanParseProgress(), ...(value && typeof value === 'object' ? value : {}) }
+}
+
+export function readPlanParseSheets(value: unknown): PlanParseSheet[] {
+  return Array.isArray(value) ? (value as PlanParseSheet[]) : []
+}
+
+const LEGACY_PAGE_TYPES: Record<string, PageType> = { schedule: 'room_schedule', spec: 'specs' }
+
+/**
+ * Review payload for a finished job, in the shape the parse endpoint used
+ * to return inline. Null until the job has a result.
+ */
+export function planParseToResponse(row: {
+  id: string
+  parse_result_json: unknown
+  pages_of_interest: unknown
+  processing_time_ms: number | null
+}): ParseResponse | null {
+  const result = row.parse_result_json as PlanParseResult | null
+  if (!result) return null
+  const pages = row.pages_of_interest as PagesOfInterest | null
+
+  return {
+    success: !result.fallback,
+    planParseId: row.id,
+    rooms: result.rooms,
+    lineItemScaffold: result.lineItemScaffold,
+    assumptions: result.assumptions,
+    warnings: result.warnings,
+    missingInfo: result.missingInfo || [],
+    schedules: result.schedules,
+    pageClassifications: (pages?.classifications || []).map(c => ({
+      pageNumber: c.pageNumber,
+      type: LEGACY_PAGE_TYPES[c.classification] || (c.classification as PageType),
+      confidence: c.confidence,
+      hasRoomLabels: c.hasRoomLabels,
+    })),
+    totalPages: pages?.totalPages ?? result.metadata?.totalPages ?? 0,
+    relevantPages: pages?.relevantPages || [],
+    processingTimeMs: row.processing_time_ms ?? 0,
+  }
+}
+
 // =============================================================================
 // Fallback / Default Values
 // =============================================================================
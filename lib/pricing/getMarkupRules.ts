@@ -0,0 +1,54 @@
+/**
+ * getMarkupRules - Server helper that loads a user's margin rules as
+ * MarkupRule rows for resolveMarkupStack
+ *
+ * Project rules are only loaded for the requested project; global and trade
+ * rules are always loaded.
+ */
+
+import { applyMarkupStack, resolveMarkupStack, type MarkupRule } from './markup'
+
+export async function getMarkupRules(
+  supabase: any,
+  userId: string,
+  projectId?: string | null
+): Promise<MarkupRule[]> {
+  const { data, error } = await supabase
+    .from('user_margin_rules')
+    .select('scope, margin_percent, overhead_percent, contingency_percent, sales_tax_percent')
+    .eq('user_id', userId)
+
+  if (error) {
+    console.warn('Error fetching margin rules:', error)
+    return []
+  }
+
+  return ((data || []) as MarkupRule[]).filter(rule =>
+    !rule.scope.startsWith('project:') || (projectId && rule.scope === `project:${projectId}`)
+  )
+}
+
+/**
+ * Sales tax on materials contained in the client prices of a set of line
+ * items, for the "includes sales tax" line on client documents
+ */
+export async function getIncludedSalesTax(
+  supabase: any,
+  userId: string,
+  projectId: string,
+  items: Array<{
+    cost_code?: string | null
+    labor_cost?: number | null
+    material_cost?: number | null
+    overhead_cost?: number | null
+    direct_cost?: number | null
+    is_allowance?: boolean | null
+  }>
+): Promise<number> {
+  const rules = await getMarkupRules(supabase, userId, projectId)
+  const total = items.reduce((sum, item) => {
+    const stack = resolveMarkupStack(rules, { costCode: item.cost_code, projectId })
+    return sum + applyMarkupStack(item, stack).sales_tax
+  }, 0)
+  return Math.round(total * 100) / 100
+}
@@ -0,0 +1,106 @@
+/**
+ * getPricingSuggestions - Server helper that loads a user's committed prices
+ * and builds per-task-key suggestions
+ *
+ * Sources:
+ * - pricing_events (not superseded) for committed unit costs; the task key
+ *   is rebuilt from meta.costCode / meta.description and the event unit
+ * - line_item_actuals for the actual-vs-estimate correction
+ *
+ * Gated by user_profile_settings.show_pricing_suggestions (default off, the
+ * Phase 1 behavior). When off, nothing is queried and enabled=false.
+ */
+
+import { createServerClient } from '@/lib/supabase/server'
+import { buildPricingSuggestion, groupObservationsByTaskKey, type PricingSuggestion } from './suggestions'
+
+/** How far back committed prices are considered */
+const LOOKBACK_DAYS = 3 * 365
+const MAX_EVENTS = 5000
+
+export interface PricingSuggestionsResult {
+  enabled: boolean
+  /** Keyed by task key; keys without enough history are absent */
+  suggestions: Record<string, PricingSuggestion>
+}
+
+export async function getShowPricingSuggestions(userId: string): Promise<boolean> {
+  const supabase = await createServerClient()
+  const { data } = await supabase
+    .from('user_profile_settings')
+    .select('show_pricing_suggestions')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return data?.show_pricing_suggestions === true
+}
+
+export async function getPricingSuggestions(
+  userId: string,
+  taskKeys: string[]
+): Promise<PricingSuggestionsResult> {
+  const wanted = new Set(taskKeys.filter(Boolean))
+  if (!(await getShowPricingSuggestions(userId))) {
+    return { enabled: false, suggestions: {} }
+  }
+  if (wanted.size === 0) {
+    return { enabled: true, suggestions: {} }
+  }
+
+  const supabase = await createServerClient()
+  const since = new Date(Date.now() - LOOKBACK_DAYS * 86_400_000).toISOString()
+
+  const { data: events, error } = await supabase
+    .from('pricing_events')
+    .select('created_at, line_item_id, unit, final_unit_cost, superseded_at, meta')
+    .eq('user_id', userId)
+    .is('superseded_at', null)
+    .gt('final_unit_cost', 0)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(MAX_EVENTS)
+
+  if (error) {
+    throw new Error(`Failed to load pricing history: ${error.message}`)
+  }
+
+  const byKey = groupObservationsByTaskKey(events || [], wanted)
+
+  // Attach actuals (RLS limits these to the user's own projects)
+  const lineItemIds = [...new Set(
+    [...byKey.values()].flat().map(o => o.lineItemId).filter((id): id is string => Boolean(id))
+  )]
+  if (lineItemIds.length > 0) {
+    const { data: actuals } = await supabase
+      .from('line_item_actuals')
+      .select('line_item_id, actual_unit_cost, actual_direct_cost, actual_quantity')
+      .in('line_item_id', lineItemIds)
+
+    const actualByLineItem = new Map<string, number>()
+    for (const actual of actuals || []) {
+      const unitCost = actual.actual_unit_cost !== null && actual.actual_unit_cost !== undefined
+        ? Number(actual.actual_unit_cost)
+        : actual.actual_direct_cost && actual.actual_quantity
+          ? Number(actual.actual_direct_cost) / Number(actual.actual_quantity)
+          : null
+      if (unitCost && unitCost > 0) actualByLineItem.set(actual.line_item_id, unitCost)
+    }
+
+    for (const observations of byKey.values()) {
+      for (const observation of observations) {
+        if (observation.lineItemId) {
+          observation.actualUnitCost = actualByLineItem.get(observation.lineItemId) ?? null
+        }
+      }
+    }
+  }
+
+  const now = new Date()
+  const suggestions: Record<string, PricingSuggestion> = {}
+  for (const [taskKey, observations] of byKey) {
+    const suggestion = buildPricingSuggestion(taskKey, observations, now)
+    if (suggestion) suggestions[taskKey] = suggestion
+  }
+
+  return { enabled: true, suggestions }
+}
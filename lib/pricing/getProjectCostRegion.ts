@@ -0,0 +1,32 @@
+/**
+ * getProjectCostRegion - Server helper that resolves a project's cost region
+ * from its override, its address ZIP, or the owner's region setting
+ * (see lib/pricing/regional-cost-index.ts)
+ */
+
+import { resolveCostRegion, type ResolvedCostRegion } from './regional-cost-index'
+
+export async function getProjectCostRegion(
+  supabase: any,
+  projectId: string
+): Promise<ResolvedCostRegion | null> {
+  const { data: project } = await supabase
+    .from('projects')
+    .select('user_id, project_address, cost_region')
+    .eq('id', projectId)
+    .maybeSingle()
+
+  if (!project) return null
+
+  const { data: settings } = await supabase
+    .from('user_profile_settings')
+    .select('region')
+    .eq('user_id', project.user_id)
+    .maybeSingle()
+
+  return resolveCostRegion({
+    costRegionOverride: project.cost_region,
+    projectAddress: project.project_address,
+    userRegion: settings?.region,
+  })
+}
@@ -0,0 +1,183 @@
+/**
+ * Markup Stack
+ *
+ * Resolves a user's margin rules into overhead / contingency / profit / sales
+ * tax percentages and prices a line item with them. Pure functions only, so
+ * applyPricing, the estimate editor, assembly / room dimension / takeoff
+ * repricing, proposals and the spec sheet all get the same numbers.
+ *
+ *   sales_tax    = material_cost × sales_tax%   (materials only)
+ *   base         = direct_cost + sales_tax
+ *   overhead     = base × overhead%
+ *   contingency  = base × contingency%
+ *   profit       = (base + overhead + contingency) × profit%
+ *   client_price = base + overhead + contingency + profit
+ *
+ * Each layer resolves independently: project rule → trade rule → 'all' rule
+ * → DEFAULT_MARKUP_STACK. A null layer on a rule inherits.
+ *
+ * Allowances are passed through at cost (no layers), as everywhere else.
+ */
+
+export interface MarkupStack {
+  overhead_percent: number
+  contingency_percent: number
+  profit_percent: number
+  sales_tax_percent: number
+}
+
+/** A user_margin_rules row; null layers inherit from the broader scope */
+export interface MarkupRule {
+  scope: string
+  margin_percent: number | null
+  overhead_percent: number | null
+  contingency_percent: number | null
+  sales_tax_percent: number | null
+}
+
+export interface MarkupBreakdown {
+  direct_cost: number
+  sales_tax: number
+  overhead: number
+  contingency: number
+  profit: number
+  client_price: number
+  /** Effective markup over direct cost, stored as line item margin_percent */
+  markup_percent: number
+}
+
+/** Matches the historical flat 30% fallback */
+export const DEFAULT_MARKUP_STACK: MarkupStack = {
+  overhead_percent: 0,
+  contingency_percent: 0,
+  profit_percent: 30,
+  sales_tax_percent: 0,
+}
+
+const RULE_FIELDS: Record<keyof MarkupStack, keyof MarkupRule> = {
+  overhead_percent: 'overhead_percent',
+  contingency_percent: 'contingency_percent',
+  profit_percent: 'margin_percent',
+  sales_tax_percent: 'sales_tax_percent',
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+export function tradeScope(costCode: string): string {
+  return `trade:${costCode}`
+}
+
+export function projectScope(projectId: string): string {
+  return `project:${projectId}`
+}
+
+/**
+ * Resolve the markup stack for one line item
+ */
+export function resolveMarkupStack(
+  rules: MarkupRule[],
+  context: { costCode?: string | null; projectId?: string | null }
+): MarkupStack {
+  const byScope = new Map(rules.map(rule => [rule.scope, rule]))
+  const chain = [
+    context.projectId ? byScope.get(projectScope(context.projectId)) : undefined,
+    context.costCode ? byScope.get(tradeScope(context.costCode)) : undefined,
+    byScope.get('all'),
+  ]
+
+  const stack = { ...DEFAULT_MARKUP_STACK }
+  for (const key of Object.keys(RULE_FIELDS) as Array<keyof MarkupStack>) {
+    for (const rule of chain) {
+      const value = rule?.[RULE_FIELDS[key]]
+      if (value !== null && value !== undefined) {
+        stack[key] = Number(value)
+        break
+      }
+    }
+  }
+  return stack
+}
+
+/**
+ * Price a line item with a markup stack. direct_cost is taken as given when
+ * set, otherwise labor + material + overhead.
+ */
+export function applyMarkupStack(
+  item: {
+    labor_cost?: number | null
+    material_cost?: number | null
+    overhead_cost?: number | null
+    direct_cost?: number | null
+    is_allowance?: boolean | null
+  },
+  stack: MarkupStack
+): MarkupBreakdown {
+  const material = Number(item.material_cost ?? 0)
+  const directCost = item.direct_cost !== null && item.direct_cost !== undefined
+    ? Number(item.direct_cost)
+    : Number(item.labor_cost ?? 0) + material + Number(item.overhead_cost ?? 0)
+
+  if (item.is_allowance) {
+    return {
+      direct_cost: round2(directCost),
+      sales_tax: 0,
+      overhead: 0,
+      contingency: 0,
+      profit: 0,
+      client_price: round2(directCost),
+      markup_percent: 0,
+    }
+  }
+
+  const salesTax = material * stack.sales_tax_percent / 100
+  const base = directCost + salesTax
+  const overhead = base * stack.overhead_percent / 100
+  const contingency = base * stack.contingency_percent / 100
+  const profit = (base + overhead + contingency) * stack.profit_percent / 100
+  const clientPrice = round2(base + overhead + contingency + profit)
+
+  return {
+    direct_cost: round2(directCost),
+    sales_tax: round2(salesTax),
+    overhead: round2(overhead),
+    contingency: round2(contingency),
+    profit: round2(profit),
+    client_price: clientPrice,
+    markup_percent: directCost > 0
+      ? round2((clientPrice / directCost - 1) * 100)
+      : markupPercentForStack(stack),
+  }
+}
+
+/**
+ * Effective markup % of a stack for an item with no material cost
+ */
+export function markupPercentForStack(stack: MarkupStack): number {
+  const base = 1 + (stack.overhead_percent + stack.contingency_percent) / 100
+  return round2((base * (1 + stack.profit_percent / 100) - 1) * 100)
+}
+
+/**
+ * Sum breakdowns into an estimate-level markup summary
+ */
+export function sumMarkupBreakdowns(breakdowns: MarkupBreakdown[]): Omit<MarkupBreakdown, 'markup_percent'> {
+  const total = { direct_cost: 0, sales_tax: 0, overhead: 0, contingency: 0, profit: 0, client_price: 0 }
+  for (const b of breakdowns) {
+    total.direct_cost += b.direct_cost
+    total.sales_tax += b.sales_tax
+    total.overhead += b.overhead
+    total.contingency += b.contingency
+    total.profit += b.profit
+    total.client_price += b.client_price
+  }
+  return {
+    direct_cost: round2(total.direct_cost),
+    sales_tax: round2(total.sales_tax),
+    overhead: round2(total.overhead),
+    contingency: round2(total.contingency),
+    profit: round2(total.profit),
+    client_price: round2(total.client_price),
+  }
+}
@@ -4,6 +4,11 @@
 
 import { fuzzyScore } from './fuzzy'
 import { semanticSearch } from './semantic'
+import { getLLMProvider, isLLMConfigured } from '@/lib/ai'
+import { applyLocationFactors, type CostRegion } from './regional-cost-index'
+
+// Semantic candidates below this cosine similarity are too loose to be worth scoring
+const MIN_SEMANTIC_SIMILARITY = 0.3
 
 export interface MatchResult {
   task: {
@@ -20,6 +25,8 @@ export interface MatchResult {
   }
   confidence: number // 0-100
   matched_via: 'semantic' | 'fuzzy' | 'cost_code_only'
+  /** Region whose labor/material factors were applied to the task's costs */
+  location: Pick<CostRegion, 'key' | 'labor_factor' | 'material_factor'> | null
 }
 
 export interface MatchTaskParams {
@@ -27,17 +34,23 @@ export interface MatchTaskParams {
   cost_code?: string | null
   region?: string | null
   queryEmbedding?: number[] | null
+  /** Cost region of the project; scales unit_cost_low/mid/high and material cost */
+  location?: Pick<CostRegion, 'key' | 'labor_factor' | 'material_factor'> | null
 }
 
 /**
  * Match a line item description to a task in the library
  * Uses hybrid approach: cost code filtering + semantic search + fuzzy matching
+ *
+ * When a location is given, the returned task's costs are location-adjusted
+ * (labor and material factors applied separately); library rows are national.
  */
 export async function matchTask({
   description,
   cost_code,
   region,
-  queryEmbedding
+  queryEmbedding,
+  location
 }: MatchTaskParams): Promise<MatchResult | null> {
   if (!description || description.trim().length === 0) {
     return null
@@ -47,25 +60,10 @@ export async function matchTask({
   let embedding = queryEmbedding
   
   if (!embedding || embedding.length !== 1536) {
-    const openaiApiKey = process.env.OPENAI_API_KEY
-    if (openaiApiKey) {
+    if (isLLMConfigured()) {
       try {
-        const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openaiApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'text-embedding-3-small',
-            input: description,
-          }),
-        })
-
-        if (embeddingResponse.ok) {
-          const embeddingData = await embeddingResponse.json()
-          embedding = embeddingData.data[0]?.embedding
-        }
+        const [generated] = await getLLMProvider().embed([description])
+        embedding = generated
       } catch (embedError) {
         console.warn('Failed to generate embedding, falling back to fuzzy matching:', embedError)
       }
@@ -77,7 +75,7 @@ export async function matchTask({
   
   if (embedding && embedding.length === 1536) {
     try {
-      semanticMatches = await semanticSearch(embedding, 20, cost_code || null, region || null)
+      semanticMatches = await semanticSearch(embedding, 20, cost_code || null, region || null, MIN_SEMANTIC_SIMILARITY)
     } catch (error) {
       console.error('Semantic search error:', error)
       // Fall back to fuzzy matching if semantic search fails
@@ -197,9 +195,10 @@ export async function matchTask({
   }
 
   return {
-    task: best.task,
+    task: location ? applyLocationFactors(best.task, location) : best.task,
     confidence: Math.round(best.finalScore * 100), // Convert to 0-100
-    matched_via: matchedVia
+    matched_via: matchedVia,
+    location: location ?? null
   }
 }
 
@@ -0,0 +1,159 @@
+/**
+ * Regional Cost Index
+ *
+ * Bundled location factors relative to the national average (1.00), split
+ * into labor and material because they move independently - high-wage
+ * metros are far above average on labor but only slightly on material.
+ * Values are approximate city-cost-index style figures for residential
+ * remodel work; they scale task_library unit costs, they are not a price
+ * list.
+ *
+ * Resolution for a project (resolveCostRegion):
+ * 1. projects.cost_region - explicit per-project override (region key)
+ * 2. ZIP3 of the ZIP code found in projects.project_address
+ * 3. user_profile_settings.region, matched by region name
+ * 4. null - callers fall back to profiles.region_factor / no adjustment
+ *
+ * Pure functions and data only; safe to import from client and server.
+ */
+
+export interface CostRegion {
+  key: string
+  /** Display name; matches the region names offered in pricing setup */
+  name: string
+  labor_factor: number
+  material_factor: number
+  /** First three digits of the ZIP codes in this region */
+  zip3: string[]
+}
+
+export type CostRegionSource = 'override' | 'address' | 'user_setting'
+
+export interface ResolvedCostRegion {
+  region: CostRegion
+  source: CostRegionSource
+  /** ZIP code the region was resolved from (source 'address') */
+  zip?: string
+}
+
+/** Share of a unit cost assumed to be labor when the task has no breakdown */
+export const DEFAULT_LABOR_SHARE = 0.5
+
+export const NATIONAL_REGION_KEY = 'national'
+
+export const COST_REGIONS: CostRegion[] = [
+  { key: 'seattle', name: 'Seattle', labor_factor: 1.2, material_factor: 1.05, zip3: ['980', '981', '982', '983', '984'] },
+  { key: 'bay_area', name: 'Bay Area', labor_factor: 1.45, material_factor: 1.1, zip3: ['940', '941', '943', '944', '945', '946', '947', '948', '949', '950', '951'] },
+  { key: 'los_angeles', name: 'Los Angeles', labor_factor: 1.25, material_factor: 1.05, zip3: ['900', '901', '902', '903', '904', '905', '906', '907', '908', '910', '911', '912', '913', '914', '915', '916', '917', '918'] },
+  { key: 'san_diego', name: 'San Diego', labor_factor: 1.18, material_factor: 1.04, zip3: ['919', '920', '921'] },
+  { key: 'sacramento', name: 'Sacramento', labor_factor: 1.22, material_factor: 1.05, zip3: ['956', '957', '958'] },
+  { key: 'portland', name: 'Portland', labor_factor: 1.12, material_factor: 1.03, zip3: ['970', '971', '972'] },
+  { key: 'phoenix', name: 'Phoenix', labor_factor: 0.85, material_factor: 0.99, zip3: ['850', '852', '853'] },
+  { key: 'las_vegas', name: 'Las Vegas', labor_factor: 1.1, material_factor: 1.02, zip3: ['889', '890', '891'] },
+  { key: 'denver', name: 'Denver', labor_factor: 1.0, material_factor: 1.01, zip3: ['800', '801', '802', '803', '804'] },
+  { key: 'dallas', name: 'Dallas', labor_factor: 0.8, material_factor: 0.98, zip3: ['750', '751', '752', '753', '760', '761'] },
+  { key: 'houston', name: 'Houston', labor_factor: 0.82, material_factor: 0.98, zip3: ['770', '772', '773', '774', '775'] },
+  { key: 'austin', name: 'Austin', labor_factor: 0.8, material_factor: 0.97, zip3: ['786', '787'] },
+  { key: 'chicago', name: 'Chicago', labor_factor: 1.3, material_factor: 1.02, zip3: ['600', '601', '602', '603', '604', '605', '606', '607', '608'] },
+  { key: 'minneapolis', name: 'Minneapolis', labor_factor: 1.15, material_factor: 1.01, zip3: ['553', '554', '555'] },
+  { key: 'atlanta', name: 'Atlanta', labor_factor: 0.82, material_factor: 0.98, zip3: ['300', '301', '302', '303', '311'] },
+  { key: 'miami', name: 'Miami', labor_factor: 0.8, material_factor: 0.99, zip3: ['330', '331', '332', '333', '334'] },
+  { key: 'washington_dc', name: 'Washington DC', labor_factor: 1.05, material_factor: 1.01, zip3: ['200', '202', '203', '204', '205', '206', '207', '208', '209', '220', '221', '222', '223'] },
+  { key: 'philadelphia', name: 'Philadelphia', labor_factor: 1.25, material_factor: 1.02, zip3: ['190', '191', '193', '194'] },
+  { key: 'new_york', name: 'New York', labor_factor: 1.45, material_factor: 1.08, zip3: ['100', '101', '102', '103', '104', '110', '111', '112', '113', '114', '116'] },
+  { key: 'boston', name: 'Boston', labor_factor: 1.3, material_factor: 1.04, zip3: ['018', '019', '021', '022', '024'] },
+  { key: NATIONAL_REGION_KEY, name: 'National', labor_factor: 1, material_factor: 1, zip3: [] },
+]
+
+const REGIONS_BY_KEY = new Map(COST_REGIONS.map(r => [r.key, r]))
+const REGIONS_BY_ZIP3 = new Map(COST_REGIONS.flatMap(r => r.zip3.map(z => [z, r] as const)))
+const REGIONS_BY_NAME = new Map(COST_REGIONS.map(r => [r.name.toLowerCase(), r]))
+
+export function getCostRegion(key: string | null | undefined): CostRegion | null {
+  return key ? REGIONS_BY_KEY.get(key) ?? null : null
+}
+
+/**
+ * The last US ZIP code in an address ("... Seattle, WA 98103-1234" → "98103")
+ */
+export function extractZip(address: string | null | undefined): string | null {
+  if (!address) return null
+  const matches = address.match(/\b\d{5}(?:-\d{4})?\b/g)
+  return matches ? matches[matches.length - 1].slice(0, 5) : null
+}
+
+export function costRegionForZip(zip: string | null | undefined): CostRegion | null {
+  return zip ? REGIONS_BY_ZIP3.get(zip.slice(0, 3)) ?? null : null
+}
+
+/**
+ * Match a free-form region setting ("Seattle", "bay area") to a region
+ */
+export function costRegionForName(name: string | null | undefined): CostRegion | null {
+  return name ? REGIONS_BY_NAME.get(name.trim().toLowerCase()) ?? null : null
+}
+
+export function resolveCostRegion(params: {
+  costRegionOverride?: string | null
+  projectAddress?: string | null
+  userRegion?: string | null
+}): ResolvedCostRegion | null {
+  const override = getCostRegion(params.costRegionOverride)
+  if (override) return { region: override, source: 'override' }
+
+  const zip = extractZip(params.projectAddress)
+  const byZip = costRegionForZip(zip)
+  if (byZip && zip) return { region: byZip, source: 'address', zip }
+
+  const byName = costRegionForName(params.userRegion)
+  if (byName) return { region: byName, source: 'user_setting' }
+
+  return null
+}
+
+/**
+ * Blended factor for a unit cost with the given labor share (0-1)
+ */
+export function blendedLocationFactor(region: Pick<CostRegion, 'labor_factor' | 'material_factor'>, laborShare: number): number {
+  const share = Math.min(1, Math.max(0, laborShare))
+  return share * region.labor_factor + (1 - share) * region.material_factor
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/**
+ * Apply location factors to a task_library row. Material cost per unit
+ * scales by the material factor; unit_cost_low/mid/high scale by a blend
+ * weighted by the task's material share of unit_cost_mid (DEFAULT_LABOR_SHARE
+ * when unknown). Labor hours are location-independent.
+ */
+export function applyLocationFactors<T extends {
+  unit_cost_low: number | null
+  unit_cost_mid: number | null
+  unit_cost_high: number | null
+  material_cost_per_unit: number | null
+}>(task: T, region: Pick<CostRegion, 'labor_factor' | 'material_factor'>): T {
+  const mid = task.unit_cost_mid !== null ? Number(task.unit_cost_mid) : null
+  const material = task.material_cost_per_unit !== null ? Number(task.material_cost_per_unit) : null
+  const laborShare = mid && material !== null && mid > 0
+    ? 1 - Math.min(1, material / mid)
+    : DEFAULT_LABOR_SHARE
+  const factor = blendedLocationFactor(region, laborShare)
+  const scale = (value: number | null) => (value === null ? null : round2(Number(value) * factor))
+
+  return {
+    ...task,
+    unit_cost_low: scale(task.unit_cost_low),
+    unit_cost_mid: scale(task.unit_cost_mid),
+    unit_cost_high: scale(task.unit_cost_high),
+    material_cost_per_unit: material === null ? null : round2(material * region.material_factor),
+  }
+}
+
+export function describeCostRegion(resolved: ResolvedCostRegion): string {
+  const { region, source, zip } = resolved
+  const via = source === 'override' ? 'set for this project' : source === 'address' ? `from ZIP ${zip}` : 'from your pricing settings'
+  return `${region.name} (${via}) - labor ×${region.labor_factor.toFixed(2)}, material ×${region.material_factor.toFixed(2)}`
+}
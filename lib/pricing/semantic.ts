@@ -1,6 +1,7 @@
 /**
  * Semantic search using vector embeddings
- * Uses pgvector cosine similarity for fast similarity search
+ * Ranks task_library rows in Postgres via the match_task_library RPC
+ * (pgvector cosine distance, HNSW-indexed) and returns only the top-k
  */
 
 import { createClient } from '@supabase/supabase-js'
@@ -40,38 +41,28 @@ export interface SemanticMatch {
  * @param queryEmbedding - The embedding vector to search for (1536 dimensions)
  * @param limit - Maximum number of results to return
  * @param costCode - Optional cost code filter
- * @param region - Optional region filter
+ * @param region - Optional region filter (tasks without a region always match)
+ * @param minSimilarity - Optional minimum similarity (0-1) a match must reach
  */
 export async function semanticSearch(
   queryEmbedding: number[],
   limit: number = 5,
   costCode?: string | null,
-  region?: string | null
+  region?: string | null,
+  minSimilarity: number = 0
 ): Promise<SemanticMatch[]> {
   if (!queryEmbedding || queryEmbedding.length !== 1536) {
     throw new Error('Invalid query embedding: must be 1536 dimensions')
   }
 
-  // Build query with filters
-  // Note: We fetch all matching tasks and calculate similarity in JS
-  // For better performance with large datasets, consider using pgvector's <=> operator directly in SQL
-  let query = supabase
-    .from('task_library')
-    .select('id, cost_code, description, unit, region, unit_cost_low, unit_cost_mid, unit_cost_high, labor_hours_per_unit, material_cost_per_unit, embedding')
-    .not('embedding', 'is', null)
-    .limit(100) // Limit to avoid fetching too many rows
-
-  // Apply filters
-  if (costCode) {
-    query = query.eq('cost_code', costCode)
-  }
-
-  if (region) {
-    query = query.or(`region.eq.${region},region.is.null`)
-  }
-
-  // Execute query
-  const { data, error } = await query
+  const { data, error } = await supabase.rpc('match_task_library', {
+    // pgvector accepts the '[x,y,...]' text form
+    query_embedding: JSON.stringify(queryEmbedding),
+    match_count: limit,
+    filter_cost_code: costCode || null,
+    filter_region: region || null,
+    min_similarity: minSimilarity,
+  })
 
   if (error) {
     throw new Error(`Semantic search failed: ${error.message}`)
@@ -81,61 +72,20 @@ export async function semanticSearch(
     return []
   }
 
-  // Calculate cosine similarity for each result
-  const results: SemanticMatch[] = data
-    .map((task: any) => {
-      if (!task.embedding || !Array.isArray(task.embedding)) {
-        return null
-      }
-
-      // Calculate cosine similarity: 1 - cosine_distance
-      // cosine_distance = 1 - dot(a,b) / (||a|| * ||b||)
-      const similarity = cosineSimilarity(queryEmbedding, task.embedding)
-
-      return {
-        task: {
-          id: task.id,
-          cost_code: task.cost_code,
-          description: task.description,
-          unit: task.unit,
-          region: task.region,
-          unit_cost_low: task.unit_cost_low,
-          unit_cost_mid: task.unit_cost_mid,
-          unit_cost_high: task.unit_cost_high,
-          labor_hours_per_unit: task.labor_hours_per_unit,
-          material_cost_per_unit: task.material_cost_per_unit,
-        },
-        similarity: Math.max(0, Math.min(1, similarity)) // Clamp to 0-1
-      }
-    })
-    .filter((match): match is SemanticMatch => match !== null)
-    .sort((a, b) => b.similarity - a.similarity) // Sort by similarity descending
-    .slice(0, limit)
-
-  return results
+  // Rows arrive ordered by similarity descending
+  return (data as any[]).map(row => ({
+    task: {
+      id: row.id,
+      cost_code: row.cost_code,
+      description: row.description,
+      unit: row.unit,
+      region: row.region,
+      unit_cost_low: row.unit_cost_low,
+      unit_cost_mid: row.unit_cost_mid,
+      unit_cost_high: row.unit_cost_high,
+      labor_hours_per_unit: row.labor_hours_per_unit,
+      material_cost_per_unit: row.material_cost_per_unit,
+    },
+    similarity: Number(row.similarity) || 0,
+  }))
 }
-
-/**
- * Calculate cosine similarity between two vectors
- */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same length')
-  }
-
-  let dotProduct = 0
-  let normA = 0
-  let normB = 0
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i]
-    normA += a[i] * a[i]
-    normB += b[i] * b[i]
-  }
-
-  const denominator = Math.sqrt(normA) * Math.sqrt(normB)
-  if (denominator === 0) return 0
-
-  return dotProduct / denominator
-}
-
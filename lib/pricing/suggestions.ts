@@ -0,0 +1,242 @@
+/**
+ * Pricing Suggestions - per-user statistical model
+ *
+ * Turns a contractor's own committed prices (pricing_events captured at
+ * bid_final / contract_signed / change_order_approved) into a typical unit
+ * cost per task key, with a confidence band. Pure functions only; the
+ * loader lives in getPricingSuggestions.ts.
+ *
+ * Model, per task key:
+ * - One observation per line item (its latest commit), weighted by recency
+ *   (half-life HALF_LIFE_DAYS) and commit strength (signed > final > proposal)
+ * - typical = weighted median unit cost
+ * - spread  = weighted median absolute deviation / median (the "±12%")
+ * - correction = weighted median of actual_unit_cost / committed unit cost
+ *   from line_item_actuals, applied once MIN_ACTUALS_FOR_CORRECTION jobs
+ *   have actuals and clamped to CORRECTION_LIMITS
+ *
+ * Suggestions are display-only. Per PRODUCT_CONTEXT.md Phase 1 they are
+ * never written into a line item; the user reads them and types a price.
+ */
+
+import { makeTaskKey } from './makeTaskKey'
+
+export const HALF_LIFE_DAYS = 365
+export const MIN_SAMPLES_FOR_SUGGESTION = 2
+export const MIN_ACTUALS_FOR_CORRECTION = 2
+export const CORRECTION_LIMITS = { min: 0.5, max: 2 }
+
+const STAGE_WEIGHTS: Record<string, number> = {
+  contract_signed: 1,
+  change_order_approved: 1,
+  bid_final: 0.8,
+  proposal_created: 0.5,
+}
+
+export type SuggestionConfidence = 'low' | 'medium' | 'high'
+
+export interface PricingObservation {
+  /** Line item the price was committed for (null for legacy events) */
+  lineItemId: string | null
+  unitCost: number
+  observedAt: string
+  stage: string | null
+  /** Actual unit cost recorded after the job, if any */
+  actualUnitCost?: number | null
+}
+
+export interface PricingSuggestion {
+  taskKey: string
+  /** Typical unit cost after the actuals correction */
+  typicalUnitCost: number
+  /** Weighted median of committed prices, before correction */
+  medianUnitCost: number
+  /** Relative spread (0.12 = ±12%) */
+  spreadPercent: number
+  low: number
+  high: number
+  sampleCount: number
+  /** actual / estimated multiplier, null until enough actuals exist */
+  actualsCorrection: number | null
+  actualsSampleCount: number
+  lastUsedAt: string
+  confidence: SuggestionConfidence
+}
+
+/** pricing_events row as loaded for suggestions */
+export interface PricingEventRow {
+  created_at: string
+  line_item_id: string | null
+  unit: string | null
+  final_unit_cost: number | string | null
+  superseded_at?: string | null
+  meta: unknown
+}
+
+interface Weighted {
+  value: number
+  weight: number
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function weightedMedian(samples: Weighted[]): number {
+  const sorted = samples
+    .filter(s => s.weight > 0 && Number.isFinite(s.value))
+    .sort((a, b) => a.value - b.value)
+  if (sorted.length === 0) return 0
+
+  const half = sorted.reduce((sum, s) => sum + s.weight, 0) / 2
+  let cumulative = 0
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].weight
+    if (cumulative > half) return sorted[i].value
+    // Exactly half: average with the next value, as an unweighted median would
+    if (cumulative === half && i + 1 < sorted.length) {
+      return (sorted[i].value + sorted[i + 1].value) / 2
+    }
+  }
+  return sorted[sorted.length - 1].value
+}
+
+/**
+ * Weight of an observation: recency decay times commit strength
+ */
+export function observationWeight(observation: PricingObservation, now: Date = new Date()): number {
+  const ageDays = Math.max(0, (now.getTime() - new Date(observation.observedAt).getTime()) / 86_400_000)
+  const recency = Math.pow(0.5, ageDays / HALF_LIFE_DAYS)
+  const stage = observation.stage ? STAGE_WEIGHTS[observation.stage] ?? 0.5 : 0.5
+  return recency * stage
+}
+
+/**
+ * Keep one observation per line item (its latest commit), so an item
+ * finalized and then signed isn't counted twice
+ */
+export function dedupeObservations(observations: PricingObservation[]): PricingObservation[] {
+  const byLineItem = new Map<string, PricingObservation>()
+  const unkeyed: PricingObservation[] = []
+
+  for (const observation of observations) {
+    if (!observation.lineItemId) {
+      unkeyed.push(observation)
+      continue
+    }
+    const existing = byLineItem.get(observation.lineItemId)
+    if (!existing || observation.observedAt > existing.observedAt) {
+      byLineItem.set(observation.lineItemId, {
+        ...observation,
+        actualUnitCost: observation.actualUnitCost ?? existing?.actualUnitCost ?? null,
+      })
+    }
+  }
+
+  return [...byLineItem.values(), ...unkeyed]
+}
+
+/**
+ * Observations per wanted task key from pricing events. Superseded events
+ * (a revision re-committed the price) and events without a description or
+ * a positive unit cost are left out; the task key is rebuilt from
+ * meta.costCode / meta.description and the event unit.
+ */
+export function groupObservationsByTaskKey(
+  events: PricingEventRow[],
+  taskKeys: Iterable<string>
+): Map<string, PricingObservation[]> {
+  const wanted = new Set(taskKeys)
+  const byKey = new Map<string, PricingObservation[]>()
+
+  for (const event of events) {
+    if (event.superseded_at) continue
+    const unitCost = Number(event.final_unit_cost)
+    if (!(unitCost > 0)) continue
+
+    const meta = (event.meta || {}) as { costCode?: string | null; description?: string | null; stage?: string | null }
+    if (!meta.description) continue
+
+    let taskKey: string
+    try {
+      taskKey = makeTaskKey({ costCode: meta.costCode, description: meta.description, unit: event.unit })
+    } catch {
+      continue
+    }
+    if (!wanted.has(taskKey)) continue
+
+    const observations = byKey.get(taskKey) || []
+    observations.push({
+      lineItemId: event.line_item_id,
+      unitCost,
+      observedAt: event.created_at,
+      stage: meta.stage ?? null,
+    })
+    byKey.set(taskKey, observations)
+  }
+
+  return byKey
+}
+
+/**
+ * Build the suggestion for one task key, or null when there isn't enough history
+ */
+export function buildPricingSuggestion(
+  taskKey: string,
+  observations: PricingObservation[],
+  now: Date = new Date()
+): PricingSuggestion | null {
+  const samples = dedupeObservations(observations).filter(o => Number.isFinite(o.unitCost) && o.unitCost > 0)
+  if (samples.length < MIN_SAMPLES_FOR_SUGGESTION) return null
+
+  const weighted = samples.map(o => ({ observation: o, weight: observationWeight(o, now) }))
+  const median = weightedMedian(weighted.map(w => ({ value: w.observation.unitCost, weight: w.weight })))
+  if (median <= 0) return null
+
+  const deviation = weightedMedian(weighted.map(w => ({
+    value: Math.abs(w.observation.unitCost - median),
+    weight: w.weight,
+  })))
+  const spreadPercent = deviation / median
+
+  const ratios = weighted
+    .filter(w => w.observation.actualUnitCost && w.observation.actualUnitCost > 0)
+    .map(w => ({ value: w.observation.actualUnitCost! / w.observation.unitCost, weight: w.weight }))
+  const actualsCorrection = ratios.length >= MIN_ACTUALS_FOR_CORRECTION
+    ? Math.min(CORRECTION_LIMITS.max, Math.max(CORRECTION_LIMITS.min, weightedMedian(ratios)))
+    : null
+
+  const typical = median * (actualsCorrection ?? 1)
+  const confidence: SuggestionConfidence =
+    samples.length >= 5 && spreadPercent <= 0.25 ? 'high'
+      : samples.length >= 3 && spreadPercent <= 0.5 ? 'medium'
+        : 'low'
+
+  return {
+    taskKey,
+    typicalUnitCost: round2(typical),
+    medianUnitCost: round2(median),
+    spreadPercent: Math.round(spreadPercent * 1000) / 1000,
+    low: round2(typical * (1 - spreadPercent)),
+    high: round2(typical * (1 + spreadPercent)),
+    sampleCount: samples.length,
+    actualsCorrection: actualsCorrection === null ? null : Math.round(actualsCorrection * 1000) / 1000,
+    actualsSampleCount: ratios.length,
+    lastUsedAt: samples.reduce((latest, o) => (o.observedAt > latest ? o.observedAt : latest), samples[0].observedAt),
+    confidence,
+  }
+}
+
+/**
+ * Inline label, e.g. "your typical: $42.50/SF (n=7, ±12%)"
+ */
+export function formatPricingSuggestion(suggestion: PricingSuggestion, unit?: string | null): string {
+  const price = suggestion.typicalUnitCost.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })
+  const spread = Math.round(suggestion.spreadPercent * 100)
+  return `your typical: ${price}${unit ? `/${unit}` : ''} (n=${suggestion.sampleCount}, ±${spread}%)`
+}
@@ -0,0 +1,215 @@
+import * as tus from 'tus-js-client'
+import { supabase } from './supabase/client'
+
+// Client-side file uploads shared by the Files tab, the recorder and the
+// offline outbox replay (use in 'use client' code only)
+
+export type FileTag = 'blueprint' | 'spec' | 'photo' | 'contract' | 'other'
+export type FileType = 'pdf' | 'image' | 'audio' | 'video' | 'other'
+
+// For large files (>6MB), use TUS resumable upload protocol
+const LARGE_FILE_THRESHOLD = 6 * 1024 * 1024
+
+export function detectFileType(fileName: string, mimeType?: string): FileType {
+  const ext = fileName.split('.').pop()?.toLowerCase()
+
+  if (mimeType) {
+    if (mimeType.includes('pdf')) return 'pdf'
+    if (mimeType.includes('image')) return 'image'
+    if (mimeType.includes('audio')) return 'audio'
+    if (mimeType.includes('video')) return 'video'
+  }
+
+  if (ext) {
+    if (['pdf'].includes(ext)) return 'pdf'
+    if (['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg'].includes(ext)) return 'image'
+    if (['mp3', 'wav', 'webm', 'm4a', 'ogg'].includes(ext)) return 'audio'
+    if (['mp4', 'mov', 'avi', 'webm'].includes(ext)) return 'video'
+  }
+
+  return 'other'
+}
+
+export interface UploadProjectFileInput {
+  file: Blob
+  fileName: string
+  projectId: string
+  userId: string
+  tag: FileTag
+  onProgress?: (percentage: number) => void
+}
+
+/**
+ * Upload a file to the project's storage folder and create its upload record
+ */
+export async function uploadProjectFile({
+  file,
+  fileName,
+  projectId,
+  userId,
+  tag,
+  onProgress,
+}: UploadProjectFileInput): Promise<void> {
+  // Upload to Supabase Storage
+  const timestamp = Date.now()
+  const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_')
+  const filePath = `${userId}/files/${projectId}/${timestamp}-${sanitizedFileName}`
+
+  if (file.size > LARGE_FILE_THRESHOLD) {
+    // Large file: use TUS resumable upload
+    console.log(`[Upload] Large file (${(file.size / 1024 / 1024).toFixed(1)}MB), using TUS resumable upload...`)
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const { data: { session } } = await supabase.auth.getSession()
+    const accessToken = session?.access_token
+
+    if (!accessToken) {
+      throw new Error('Authentication required for upload')
+    }
+
+    // TUS resumable upload
+    await new Promise<void>((resolve, reject) => {
+      const upload = new tus.Upload(file, {
+        endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+        retryDelays: [0, 1000, 3000, 5000],
+        headers: {
+          authorization: `Bearer ${accessToken}`,
+          'x-upsert': 'false',
+        },
+        uploadDataDuringCreation: true,
+        removeFingerprintOnSuccess: true,
+        metadata: {
+          bucketName: 'uploads',
+          objectName: filePath,
+          contentType: file.type,
+          cacheControl: '3600',
+        },
+        chunkSize: 6 * 1024 * 1024, // 6MB chunks
+        onError: (error) => {
+          console.error('[TUS Upload] Error:', error)
+          reject(new Error(`Upload failed: ${error.message}`))
+        },
+        onProgress: (bytesUploaded, bytesTotal) => {
+          onProgress?.(Math.round((bytesUploaded / bytesTotal) * 100))
+        },
+        onSuccess: () => {
+          console.log('[TUS Upload] Success!')
+          onProgress?.(100)
+          resolve()
+        },
+      })
+
+      // Check for previous uploads to resume
+      upload.findPreviousUploads().then((previousUploads) => {
+        if (previousUploads.length > 0) {
+          console.log('[TUS Upload] Resuming previous upload...')
+          upload.resumeFromPreviousUpload(previousUploads[0])
+        }
+        upload.start()
+      })
+    })
+  } else {
+    // Small file: use standard Supabase upload
+    const { error: uploadError } = await supabase.storage
+      .from('uploads')
+      .upload(filePath, file, {
+        contentType: file.type,
+        upsert: false,
+      })
+
+    if (uploadError) {
+      throw new Error(`Upload failed: ${uploadError.message}`)
+    }
+
+    onProgress?.(100)
+  }
+
+  // Get public URL
+  const { data: { publicUrl } } = supabase.storage
+    .from('uploads')
+    .getPublicUrl(filePath)
+
+  // Create upload record via API (bypasses RLS cache issues)
+  const createResponse = await fetch('/api/uploads/create', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      projectId,
+      fileUrl: publicUrl,
+      kind: tag === 'photo' ? 'photo' : tag === 'blueprint' ? 'blueprint' : 'other',
+      tag, // For blueprint parsing
+      fileType: detectFileType(fileName, file.type), // pdf, image, etc.
+      originalFilename: fileName,
+    })
+  })
+
+  const createResult = await createResponse.json()
+
+  if (!createResponse.ok) {
+    // Clean up uploaded file
+    await supabase.storage.from('uploads').remove([filePath])
+    throw new Error(`Failed to save file record: ${createResult.error}`)
+  }
+}
+
+export interface SaveAudioRecordingInput {
+  blob: Blob
+  userId: string
+  projectId?: string | null
+  /** When the recording was made; defaults to now */
+  recordedAt?: Date
+}
+
+/**
+ * Store a full walkthrough recording in audio-uploads and record it as an
+ * audio upload on the project. Resolves to the upload id.
+ */
+export async function saveAudioRecording({
+  blob,
+  userId,
+  projectId,
+  recordedAt = new Date(),
+}: SaveAudioRecordingInput): Promise<string> {
+  // Create a unique filename with user-specific path
+  const timestamp = recordedAt.toISOString().replace(/[:.]/g, '-')
+  const fileExt = blob.type.includes('webm') ? 'webm' : 'wav'
+  const fileName = `${userId}/recording-${timestamp}.${fileExt}`
+
+  // Upload to Supabase Storage with user-specific path
+  const { error: uploadError } = await supabase.storage
+    .from('audio-uploads')
+    .upload(fileName, blob, {
+      contentType: blob.type,
+      // A replayed upload may have reached storage before the connection dropped
+      upsert: true,
+    })
+
+  if (uploadError) {
+    console.error('Storage upload error:', uploadError)
+    throw new Error(`Storage error: ${uploadError.message}`)
+  }
+
+  // Get public URL
+  const { data: urlData } = supabase.storage
+    .from('audio-uploads')
+    .getPublicUrl(fileName)
+
+  // Save to database with user_id
+  const { data: upload, error: dbError } = await supabase
+    .from('uploads')
+    .insert({
+      project_id: projectId || null,
+      file_url: urlData.publicUrl,
+      kind: 'audio',
+      user_id: userId,
+    })
+    .select('id')
+    .single()
+
+  if (dbError) {
+    console.error('Database insert error:', dbError)
+    throw new Error(`Database error: ${dbError.message}`)
+  }
+
+  return upload.id
+}
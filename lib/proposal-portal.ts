@@ -0,0 +1,363 @@
+/**
+ * Client Proposal Portal - server helpers for the public proposal link
+ *
+ * The portal has no login: possession of proposals.share_token is the
+ * credential. Every helper here looks the proposal up by token first and
+ * then reads/writes with the service role client, so only server code may
+ * import this module.
+ */
+
+import { randomBytes } from 'crypto'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { isBaseItem } from '@/lib/estimate-alternates'
+import { getEffectiveLineItems } from '@/lib/estimate-diff'
+import { loadSnapshotPayload, priceProposalSelection } from '@/lib/estimate-snapshots'
+
+/**
+ * Proposal as shown to the client in the portal
+ */
+export interface PortalProposal {
+  id: string
+  title: string
+  version: number
+  status: 'draft' | 'sent' | 'approved' | 'rejected'
+  total_price: number
+  base_price: number
+  created_at: string
+  approved_at: string | null
+  rejected_at: string | null
+  signer_name: string | null
+  client_comments: string | null
+  basis_of_estimate: string
+  inclusions: string[]
+  exclusions: string[]
+  notes: string
+  allowances: Array<{ description: string; amount: number }>
+  scope_items: string[]
+  alternates: Array<{ id: string; name: string; description: string | null; amount: number }>
+  selected_alternate_ids: string[]
+  project: {
+    name: string
+    address: string | null
+    client_name: string | null
+  }
+  contractor: {
+    name: string | null
+    company: string | null
+    phone: string | null
+  }
+}
+
+export interface PortalResponse {
+  decision: 'approve' | 'reject'
+  signerName: string
+  comments?: string | null
+  selectedAlternateIds?: string[]
+  ip: string | null
+  userAgent: string | null
+}
+
+export type PortalResponseResult =
+  | { ok: true; status: 'approved' | 'rejected'; totalPrice: number }
+  | { ok: false; error: string }
+
+/**
+ * Generate an unguessable share token
+ */
+export function generateShareToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+/**
+ * Valid tokens are base64url and at least 32 characters - reject anything
+ * else before touching the database
+ */
+export function isWellFormedToken(token: string): boolean {
+  return /^[A-Za-z0-9_-]{32,}$/.test(token)
+}
+
+/**
+ * Client IP of a portal request (first x-forwarded-for hop), recorded as
+ * signature evidence
+ */
+export function getClientIp(headers: Pick<Headers, 'get'>): string | null {
+  const forwarded = headers.get('x-forwarded-for')
+  if (forwarded) {
+    return forwarded.split(',')[0].trim() || null
+  }
+  return headers.get('x-real-ip')
+}
+
+async function findProposalByToken(token: string) {
+  if (!isWellFormedToken(token)) return null
+
+  const supabase = createServiceRoleClient()
+  const { data: proposal } = await supabase
+    .from('proposals')
+    .select('*')
+    .eq('share_token', token)
+    .maybeSingle()
+
+  return proposal ? { proposal, supabase } : null
+}
+
+/**
+ * Base-scope line items the proposal was priced from: its snapshot, or the
+ * live estimate for proposals created before snapshots existed. Active items
+ * in in-scope rooms only.
+ */
+async function loadProposalBaseItems(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  proposal: { snapshot_id?: string | null; estimate_id: string | null }
+): Promise<Array<{ description: string | null; is_allowance: boolean | null }>> {
+  const snapshot = proposal.snapshot_id ? await loadSnapshotPayload(supabase, proposal.snapshot_id) : null
+  if (snapshot) {
+    // No alternates selected: base items only
+    return getEffectiveLineItems(snapshot.line_items, snapshot.rooms, [])
+  }
+  if (!proposal.estimate_id) return []
+  const lineItems = await loadInScopeLineItems(supabase, proposal.estimate_id)
+  return lineItems.filter(item => isBaseItem(item.alternate_ids))
+}
+
+/**
+ * In-scope, active line items for an estimate (with alternate membership)
+ */
+async function loadInScopeLineItems(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  estimateId: string
+) {
+  const { data: lineItems, error } = await supabase
+    .from('estimate_line_items')
+    .select(`
+      description,
+      client_price,
+      is_allowance,
+      is_active,
+      alternate_ids,
+      rooms!estimate_line_items_room_id_fkey (
+        id,
+        is_in_scope
+      )
+    `)
+    .eq('estimate_id', estimateId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch line items: ${error.message}`)
+  }
+
+  return ((lineItems || []) as any[]).filter(item => {
+    const room = item.rooms as { id: string; is_in_scope: boolean } | null
+    return item.is_active !== false && !(room && room.is_in_scope === false)
+  })
+}
+
+/**
+ * Load a proposal for the portal. Returns null for unknown tokens.
+ */
+export async function getPortalProposal(token: string): Promise<PortalProposal | null> {
+  const found = await findProposalByToken(token)
+  if (!found) return null
+  const { proposal, supabase } = found
+
+  const [{ data: project }, lineItems] = await Promise.all([
+    supabase
+      .from('projects')
+      .select('title, project_address, client_name, owner_name, user_id')
+      .eq('id', proposal.project_id)
+      .maybeSingle(),
+    loadProposalBaseItems(supabase, proposal),
+  ])
+
+  let contractor: { full_name: string | null; company_name: string | null; phone: string | null } | null = null
+  const contractorId = proposal.created_by || project?.user_id
+  if (contractorId) {
+    const { data } = await supabase
+      .from('profiles')
+      .select('full_name, company_name, phone')
+      .eq('id', contractorId)
+      .maybeSingle()
+    contractor = data
+  }
+
+  const body = (proposal.body_json || {}) as {
+    allowances?: Array<{ description: string; amount: number }>
+    inclusions?: string[]
+    exclusions?: string[]
+    basis_of_estimate?: string
+    notes?: string
+    base_price?: number
+    alternates?: Array<{ id: string; name: string; description: string | null; amount: number }>
+  }
+
+  // Scope of work = base, non-allowance items as sent (alternates are listed as add-ons)
+  const scopeItems = lineItems
+    .filter(item => {
+      const desc = (item.description || '').trim()
+      const isAllowance = item.is_allowance === true || desc.toUpperCase().startsWith('ALLOWANCE:')
+      return desc.length > 0 && !isAllowance
+    })
+    .map(item => (item.description as string).trim())
+    .sort((a, b) => a.localeCompare(b))
+
+  return {
+    id: proposal.id,
+    title: proposal.title || 'Construction Proposal',
+    version: proposal.version || 1,
+    status: proposal.status,
+    total_price: Number(proposal.total_price) || 0,
+    base_price: body.base_price ?? (Number(proposal.total_price) || 0),
+    created_at: proposal.created_at,
+    approved_at: proposal.approved_at,
+    rejected_at: proposal.rejected_at,
+    signer_name: proposal.signer_name,
+    client_comments: proposal.client_comments,
+    basis_of_estimate: body.basis_of_estimate || '',
+    inclusions: body.inclusions || [],
+    exclusions: body.exclusions || [],
+    notes: body.notes || '',
+    allowances: (body.allowances || []).map(a => ({ description: a.description, amount: a.amount })),
+    scope_items: scopeItems,
+    alternates: body.alternates || [],
+    selected_alternate_ids: proposal.selected_alternate_ids || [],
+    project: {
+      name: project?.title || 'Project',
+      address: project?.project_address || null,
+      client_name: project?.client_name || project?.owner_name || null,
+    },
+    contractor: {
+      name: contractor?.full_name || null,
+      company: contractor?.company_name || null,
+      phone: contractor?.phone || null,
+    },
+  }
+}
+
+/**
+ * Record that the client opened the portal link
+ */
+export async function recordPortalView(
+  token: string,
+  meta: { ip: string | null; userAgent: string | null }
+): Promise<void> {
+  const found = await findProposalByToken(token)
+  if (!found) return
+  const { proposal, supabase } = found
+
+  const now = new Date().toISOString()
+  await supabase
+    .from('proposals')
+    .update({
+      first_viewed_at: proposal.first_viewed_at || now,
+      last_viewed_at: now,
+    })
+    .eq('id', proposal.id)
+
+  await supabase
+    .from('proposal_events')
+    .insert({
+      proposal_id: proposal.id,
+      event_type: 'viewed',
+      metadata: {
+        ip: meta.ip,
+        user_agent: meta.userAgent,
+        first_view: !proposal.first_viewed_at,
+      },
+    })
+}
+
+/**
+ * Accept or decline a proposal from the portal.
+ *
+ * Accepting records the typed-name signature and the client's add-on
+ * selection (re-pricing total_price); the contractor is then prompted to
+ * create the contract from the approved proposal.
+ */
+export async function respondToPortalProposal(
+  token: string,
+  response: PortalResponse
+): Promise<PortalResponseResult> {
+  try {
+    const found = await findProposalByToken(token)
+    if (!found) {
+      return { ok: false, error: 'Proposal not found' }
+    }
+    const { proposal, supabase } = found
+
+    if (proposal.status === 'approved' || proposal.status === 'rejected') {
+      return { ok: false, error: `This proposal was already ${proposal.status}` }
+    }
+
+    const signerName = response.signerName.trim()
+    if (!signerName) {
+      return { ok: false, error: 'Please type your full name to sign' }
+    }
+
+    const now = new Date().toISOString()
+    let totalPrice = Number(proposal.total_price) || 0
+    let selectedAlternateIds: string[] = proposal.selected_alternate_ids || []
+
+    if (response.decision === 'approve' && response.selectedAlternateIds) {
+      const offered = ((proposal.body_json as any)?.alternates || []) as Array<{ id: string }>
+      const requested = Array.from(new Set(response.selectedAlternateIds))
+      if (requested.some(id => !offered.some(alt => alt.id === id))) {
+        return { ok: false, error: 'Selected add-on is not offered on this proposal' }
+      }
+      selectedAlternateIds = requested
+
+      // Priced as sent, not from the live estimate
+      totalPrice = await priceProposalSelection(supabase, proposal, selectedAlternateIds)
+    }
+
+    const status = response.decision === 'approve' ? 'approved' : 'rejected'
+    const { data: updated, error: updateError } = await supabase
+      .from('proposals')
+      .update({
+        status,
+        approved_at: status === 'approved' ? now : null,
+        rejected_at: status === 'rejected' ? now : null,
+        selected_alternate_ids: selectedAlternateIds,
+        total_price: totalPrice,
+        signer_name: signerName,
+        signer_ip: response.ip,
+        signer_user_agent: response.userAgent,
+        client_comments: response.comments?.trim() || null,
+      })
+      .eq('id', proposal.id)
+      // A concurrent response (double submit) already moved it on
+      .eq('status', proposal.status)
+      .select('id')
+
+    if (updateError) {
+      throw new Error(`Failed to record response: ${updateError.message}`)
+    }
+    if (!updated || updated.length === 0) {
+      return { ok: false, error: 'This proposal was already responded to' }
+    }
+
+    await supabase
+      .from('proposal_events')
+      .insert({
+        proposal_id: proposal.id,
+        event_type: status,
+        metadata: {
+          source: 'client_portal',
+          signer_name: signerName,
+          signed_at: now,
+          ip: response.ip,
+          user_agent: response.userAgent,
+          comments: response.comments?.trim() || null,
+          selected_alternate_ids: selectedAlternateIds,
+          total_price: totalPrice,
+        },
+      })
+
+    return { ok: true, status, totalPrice }
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Failed to record response',
+    }
+  }
+}
@@ -5,6 +5,7 @@
 
 import { createServerClient } from '@/lib/supabase/server'
 import { matchTask } from '@/lib/pricing/match-task'
+import { getProjectCostRegion } from '@/lib/pricing/getProjectCostRegion'
 import type { EstimateLineItem, Selection, SelectionInsert, SelectionUpdate } from '@/types/db'
 
 /**
@@ -339,6 +340,7 @@ export async function suggestAllowanceForSelection(
     .maybeSingle()
 
   const userRegion = userSettings?.region || null
+  const costRegion = await getProjectCostRegion(supabase, project.id)
 
   // Build search description from selection title and description
   const searchDescription = [
@@ -352,6 +354,7 @@ export async function suggestAllowanceForSelection(
       description: searchDescription,
       cost_code: selection.cost_code || null,
       region: userRegion,
+      location: costRegion?.region ?? null,
     })
 
     if (match && match.task) {
@@ -0,0 +1,133 @@
+/**
+ * On-plan takeoff helpers shared by the takeoff viewer and the takeoff
+ * actions.
+ *
+ * Measurements are drawn on a rendered plan page and stored in the page
+ * image's pixel coordinates. A page is calibrated once (two points and the
+ * real length between them), which gives its feet per pixel; quantities are
+ * always recomputed from the points and the current calibration, so
+ * recalibrating a page updates every measurement on it.
+ */
+
+export type TakeoffPoint = [number, number]
+
+export type TakeoffKind = 'linear' | 'area' | 'count'
+
+/** Page images are rendered at this scale (2× the PDF's 72 dpi) */
+export const TAKEOFF_RENDER_SCALE = 2
+
+export const TAKEOFF_UNITS: Record<TakeoffKind, string> = {
+  linear: 'LF',
+  area: 'SQFT',
+  count: 'EA',
+}
+
+/** Line item units (as typed in the estimate) each kind of measurement can drive */
+const KIND_UNIT_ALIASES: Record<TakeoffKind, string[]> = {
+  linear: ['LF', 'LIN FT'],
+  area: ['SQFT', 'SF', 'SQ FT'],
+  count: ['EA', 'EACH'],
+}
+
+/**
+ * The kind of measurement whose quantity a line item in this unit can take:
+ * LF from linear, SF/SQFT from area, EA from count. Null for any other unit
+ * (SQ, ROOM, ...), which takeoff can't set.
+ */
+export function takeoffKindForUnit(unit: string | null | undefined): TakeoffKind | null {
+  const normalized = (unit || '').trim().toUpperCase().replace(/\./g, '').replace(/\s+/g, ' ')
+  for (const kind of Object.keys(KIND_UNIT_ALIASES) as TakeoffKind[]) {
+    if (KIND_UNIT_ALIASES[kind].includes(normalized)) return kind
+  }
+  return null
+}
+
+/** Fewest points that make a finished measurement */
+export const TAKEOFF_MIN_POINTS: Record<TakeoffKind, number> = {
+  linear: 2,
+  area: 3,
+  count: 1,
+}
+
+/**
+ * Storage path of a rendered plan page in the uploads bucket. The first
+ * folder must be the user id for the bucket's storage policies.
+ */
+export function takeoffPageImagePath(userId: string, uploadId: string, pageNumber: number): string {
+  return `${userId}/takeoff/${uploadId}/page-${String(pageNumber).padStart(3, '0')}.png`
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+export function distance(a: TakeoffPoint, b: TakeoffPoint): number {
+  return Math.hypot(b[0] - a[0], b[1] - a[1])
+}
+
+/** Length of an open polyline, in pixels */
+export function polylineLength(points: TakeoffPoint[]): number {
+  let length = 0
+  for (let i = 1; i < points.length; i++) length += distance(points[i - 1], points[i])
+  return length
+}
+
+/** Area of a closed polygon (shoelace), in square pixels */
+export function polygonArea(points: TakeoffPoint[]): number {
+  let sum = 0
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i]
+    const [x2, y2] = points[(i + 1) % points.length]
+    sum += x1 * y2 - x2 * y1
+  }
+  return Math.abs(sum) / 2
+}
+
+/**
+ * Parse a known length typed during calibration: 12, 12.5, 12', 12'6",
+ * 12'-6", 12 ft 6 in, 6" (inches only). Returns feet, or null.
+ */
+export function parseLengthFeet(text: string): number | null {
+  const value = text.trim().toLowerCase()
+  if (!value) return null
+
+  const plain = value.match(/^(\d+(?:\.\d+)?)\s*(?:ft|feet|')?$/)
+  if (plain) return Number(plain[1]) || null
+
+  const inchesOnly = value.match(/^(\d+(?:\.\d+)?)\s*(?:in|inches|")$/)
+  if (inchesOnly) return Number(inchesOnly[1]) / 12 || null
+
+  const feetInches = value.match(/^(\d+(?:\.\d+)?)\s*(?:ft|feet|')\s*-?\s*(\d+(?:\.\d+)?)\s*(?:in|inches|")?$/)
+  if (feetInches) return Number(feetInches[1]) + Number(feetInches[2]) / 12 || null
+
+  return null
+}
+
+/** Feet per pixel from a calibration line and its real length */
+export function calibrationScale(points: [TakeoffPoint, TakeoffPoint], lengthFt: number): number | null {
+  const pixels = distance(points[0], points[1])
+  if (pixels <= 0 || lengthFt <= 0) return null
+  return lengthFt / pixels
+}
+
+/**
+ * Quantity of a measurement in its unit (LF, SQFT or EA). Linear and area
+ * measurements need a calibrated page; null until then.
+ */
+export function measurementQuantity(
+  kind: TakeoffKind,
+  points: TakeoffPoint[],
+  feetPerPixel: number | null
+): number | null {
+  if (points.length < TAKEOFF_MIN_POINTS[kind]) return null
+  if (kind === 'count') return points.length
+  if (!feetPerPixel) return null
+  if (kind === 'linear') return round2(polylineLength(points) * feetPerPixel)
+  return round2(polygonArea(points) * feetPerPixel * feetPerPixel)
+}
+
+/** "12.5 LF", "140 SQFT", "6 EA" */
+export function formatTakeoffQuantity(kind: TakeoffKind, quantity: number | null): string {
+  if (quantity === null) return kind === 'count' ? '—' : 'Not calibrated'
+  return `${quantity.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${TAKEOFF_UNITS[kind]}`
+}
@@ -0,0 +1,79 @@
+/**
+ * Voice session helpers shared by the streaming recorder, the segment
+ * transcription route and the voice session actions.
+ *
+ * A recording is cut into self-contained segments (each its own
+ * MediaRecorder run, so every segment decodes on its own). Segments are
+ * numbered from 0 by seq and may finish transcribing out of order; the
+ * transcript and the live parse only ever advance over a contiguous run.
+ */
+
+/** Length of one recorded segment */
+export const VOICE_SEGMENT_MS = 15_000
+
+export const VOICE_AUDIO_BUCKET = 'audio-uploads'
+
+/** Characters of earlier transcript passed along as context */
+const DEFAULT_TAIL_CHARS = 400
+
+export interface TranscribedSegment {
+  seq: number
+  transcript: string | null
+}
+
+export function audioExtension(mimeType: string | null | undefined): string {
+  if (!mimeType) return 'webm'
+  if (mimeType.includes('ogg')) return 'ogg'
+  if (mimeType.includes('wav')) return 'wav'
+  if (mimeType.includes('mp4') || mimeType.includes('aac')) return 'm4a'
+  return 'webm'
+}
+
+/**
+ * Storage path inside VOICE_AUDIO_BUCKET. The first folder must be the user
+ * id for the bucket's storage policies.
+ */
+export function segmentStoragePath(userId: string, sessionId: string, seq: number, mimeType: string | null | undefined): string {
+  return `${userId}/sessions/${sessionId}/${String(seq).padStart(5, '0')}.${audioExtension(mimeType)}`
+}
+
+/**
+ * Full transcript of a session in seq order, skipping empty segments
+ */
+export function joinSegmentTranscripts(segments: TranscribedSegment[]): string {
+  return [...segments]
+    .sort((a, b) => a.seq - b.seq)
+    .map(segment => segment.transcript?.trim())
+    .filter((text): text is string => Boolean(text))
+    .join(' ')
+}
+
+/**
+ * Transcript of the unbroken run of transcribed segments after `afterSeq`.
+ * Stops at the first missing segment so text is never parsed out of order.
+ */
+export function contiguousTranscriptAfter(
+  segments: TranscribedSegment[],
+  afterSeq: number
+): { throughSeq: number; text: string } {
+  const bySeq = new Map(segments.map(segment => [segment.seq, segment]))
+  const parts: string[] = []
+  let seq = afterSeq + 1
+  while (bySeq.has(seq) && bySeq.get(seq)!.transcript !== null) {
+    const text = bySeq.get(seq)!.transcript!.trim()
+    if (text) parts.push(text)
+    seq++
+  }
+  return { throughSeq: seq - 1, text: parts.join(' ') }
+}
+
+/**
+ * Last few sentences of a transcript, cut at a word boundary
+ */
+export function transcriptTail(text: string, maxChars: number = DEFAULT_TAIL_CHARS): string {
+  const trimmed = text.trim()
+  if (trimmed.length <= maxChars) return trimmed
+  const tail = trimmed.slice(-maxChars)
+  const firstSpace = tail.indexOf(' ')
+  return firstSpace >= 0 ? tail.slice(firstSpace + 1) : tail
+}
@@ -1,16 +1,19 @@
 import { defineConfig, devices } from '@playwright/test'
 
 /**
- * Phase 1 Playwright smoke tests configuration.
+ * Playwright configuration.
  *
- * These tests are intended for CI/CD or local smoke testing against a running
- * dev server.  They cover the Phase 1 release-blocking requirements.
+ * - unit: pure library tests (tests/unit) - no browser or dev server needed
+ * - chromium: Phase 1 smoke tests (tests/e2e), intended for CI/CD or local
+ *   smoke testing against a running dev server.  They cover the Phase 1
+ *   release-blocking requirements.
  *
  * Run: npx playwright test
+ * Run unit tests only: npx playwright test --project=unit
  * Run headed: npx playwright test --headed
  */
 export default defineConfig({
-  testDir: './tests/e2e',
+  testDir: './tests',
   fullyParallel: false, // sequential — tests share auth state
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 1 : 0,
@@ -24,8 +27,13 @@ export default defineConfig({
   },
 
   projects: [
+    {
+      name: 'unit',
+      testDir: './tests/unit',
+    },
     {
       name: 'chromium',
+      testDir: './tests/e2e',
       use: { ...devices['Desktop Chrome'] },
     },
   ],
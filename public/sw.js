@@ -0,0 +1,74 @@
+/*
+ * Estimatix service worker
+ *
+ * - Caches the app shell so project pages open without a connection
+ * - Wakes open pages through Background Sync so they replay the IndexedDB
+ *   outbox (lib/offline/outbox.ts). Replay runs in the page because it goes
+ *   through server actions and the Supabase session.
+ */
+
+const CACHE_VERSION = 'estimatix-shell-v1'
+const OUTBOX_SYNC_TAG = 'estimatix-outbox'
+const PRECACHE_URLS = ['/', '/manifest.json']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_VERSION).then((cache) => cache.addAll(PRECACHE_URLS)).catch(() => undefined)
+  )
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_VERSION).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+  if (url.pathname.startsWith('/api/')) return
+
+  // Build assets are content-hashed: cache first
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone()
+          caches.open(CACHE_VERSION).then((cache) => cache.put(request, copy))
+        }
+        return response
+      }))
+    )
+    return
+  }
+
+  // Pages: network first, fall back to the last copy we saw
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone()
+            caches.open(CACHE_VERSION).then((cache) => cache.put(request, copy))
+          }
+          return response
+        })
+        .catch(() => caches.match(request).then((cached) => cached || caches.match('/')))
+    )
+  }
+})
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: 'sync', tag: OUTBOX_SYNC_TAG }))
+    })
+  )
+})
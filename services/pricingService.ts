@@ -5,7 +5,7 @@
  * Waterfall Priority (Milestone A):
  * 1. Manual pricing (user-provided) - return immediately
  * 2. User Library (lookup by task_key in user_cost_library) - FEATURE-FLAGGED OFF
- * 3. Task Library (semantic search with region_factor and quality_tier multipliers) - FEATURE-FLAGGED OFF
+ * 3. Task Library (semantic search with location factors and quality_tier multipliers) - FEATURE-FLAGGED OFF
  * 4. AI-generated (no pricing found)
  * 
  * PHASE 1 (per PRODUCT_CONTEXT.md):
@@ -13,13 +13,17 @@
  * - Unit costs start blank unless manually entered
  * - We capture data but do NOT influence bids yet
  * 
- * Margin Application:
- * - Fetch user_margin_rules for trade-specific or 'all' scope
- * - Apply margin to calculate client_price
+ * Markup Application:
+ * - Resolve the user's markup stack (project → trade → 'all' rules, see
+ *   lib/pricing/markup.ts)
+ * - client_price = direct cost + sales tax on materials + overhead +
+ *   contingency + profit; margin_percent stores the effective markup
  */
 
 // FEATURE FLAGS - Per PRODUCT_CONTEXT.md Phase 1
-// These are OFF to ensure we don't auto-fill prices
+// These are OFF to ensure we don't auto-fill prices. Display-only suggestions
+// ("your typical: $X") come from lib/pricing/suggestions.ts instead, behind
+// the per-user show_pricing_suggestions setting.
 const ENABLE_USER_LIBRARY_SUGGESTIONS = false
 const ENABLE_TASK_LIBRARY_SUGGESTIONS = false
 
@@ -30,6 +34,9 @@ import { makeTaskKey } from '@/lib/pricing/makeTaskKey'
 import { lookupUserCostLibrary } from '@/lib/pricing/upsertUserCostLibrary'
 import { getProfileByUserId } from '@/lib/profile'
 import { createServerClient } from '@/lib/supabase/server'
+import { applyMarkupStack, resolveMarkupStack, DEFAULT_MARKUP_STACK, type MarkupStack } from '@/lib/pricing/markup'
+import { getMarkupRules } from '@/lib/pricing/getMarkupRules'
+import { getProjectCostRegion } from '@/lib/pricing/getProjectCostRegion'
 
 /**
  * Extended LineItem with pricing decision metadata
@@ -39,45 +46,22 @@ export interface LineItemWithPricingDecision extends LineItem {
 }
 
 /**
- * Get user's margin rule for a specific trade/cost_code
+ * Get the user's markup stack for a specific trade/cost_code and project
  */
-async function getUserMarginRule(
-  userId: string,
+async function getUserMarkupStack(
+  userId: string | undefined,
   costCode: string | null,
+  projectId: string | undefined,
   supabase: any
-): Promise<number> {
+): Promise<MarkupStack> {
+  if (!userId) return DEFAULT_MARKUP_STACK
   try {
-    // First, try to find a trade-specific rule (e.g., 'trade:404')
-    if (costCode) {
-      const { data: tradeRule } = await supabase
-        .from('user_margin_rules')
-        .select('margin_percent')
-        .eq('user_id', userId)
-        .eq('scope', `trade:${costCode}`)
-        .maybeSingle()
-
-      if (tradeRule) {
-        return Number(tradeRule.margin_percent)
-      }
-    }
-
-    // Fall back to 'all' rule
-    const { data: allRule } = await supabase
-      .from('user_margin_rules')
-      .select('margin_percent')
-      .eq('user_id', userId)
-      .eq('scope', 'all')
-      .maybeSingle()
-
-    if (allRule) {
-      return Number(allRule.margin_percent)
-    }
+    const rules = await getMarkupRules(supabase, userId, projectId)
+    return resolveMarkupStack(rules, { costCode, projectId })
   } catch (error) {
-    console.warn('Error fetching margin rule:', error)
+    console.warn('Error fetching margin rules:', error)
+    return DEFAULT_MARKUP_STACK
   }
-
-  // Default margin if no rule found
-  return 30
 }
 
 /**
@@ -100,6 +84,7 @@ function getQualityTierMultiplier(qualityTier: string | null | undefined): numbe
  * 
  * @param item - Line item (may have partial data including unitCost/direct_cost from AI)
  * @param userId - Required for history lookup and margin rules
+ * @param projectId - Lets project-level markup rules apply
  * @returns Updated LineItem with pricing applied
  */
 export async function applyPricing(
@@ -110,7 +95,8 @@ export async function applyPricing(
     task_library_id?: string | null
     is_allowance?: boolean | null
   },
-  userId?: string
+  userId?: string,
+  projectId?: string
 ): Promise<LineItem> {
   // CRITICAL: Skip allowance items entirely - do not apply pricing to them
   const isAllowance = item.is_allowance === true || 
@@ -166,8 +152,10 @@ export async function applyPricing(
     (item.unitCost !== undefined && item.unitCost !== null && item.unitCost > 0)
   ) {
     const totalCost = item.unitCost * quantity
-    const marginPercent = userId ? await getUserMarginRule(userId, item.cost_code || null, supabase) : 30
-    const clientPrice = totalCost * (1 + marginPercent / 100)
+    const stack = await getUserMarkupStack(userId, item.cost_code || null, projectId, supabase)
+    const { markup_percent: marginPercent, client_price: clientPrice } = applyMarkupStack(
+      { direct_cost: totalCost, material_cost: item.material_cost }, stack
+    )
     
     // Build task key for reference
     let taskKey: string | undefined
@@ -206,8 +194,10 @@ export async function applyPricing(
     item.direct_cost !== null &&
     item.direct_cost > 0
   ) {
-    const marginPercent = userId ? await getUserMarginRule(userId, item.cost_code || null, supabase) : 30
-    const clientPrice = item.direct_cost * (1 + marginPercent / 100)
+    const stack = await getUserMarkupStack(userId, item.cost_code || null, projectId, supabase)
+    const { markup_percent: marginPercent, client_price: clientPrice } = applyMarkupStack(
+      { direct_cost: item.direct_cost, material_cost: item.material_cost }, stack
+    )
     
     // Build task key for reference
     let taskKey: string | undefined
@@ -260,8 +250,10 @@ export async function applyPricing(
       
       if (userLibraryEntry) {
         const totalCost = userLibraryEntry.unitCost * quantity
-        const marginPercent = await getUserMarginRule(userId, item.cost_code || null, supabase)
-        const clientPrice = totalCost * (1 + marginPercent / 100)
+        const stack = await getUserMarkupStack(userId, item.cost_code || null, projectId, supabase)
+        const { markup_percent: marginPercent, client_price: clientPrice } = applyMarkupStack(
+          { direct_cost: totalCost, material_cost: item.material_cost }, stack
+        )
 
         const pricingDecision: PricingDecision = {
           unitCost: userLibraryEntry.unitCost,
@@ -286,7 +278,7 @@ export async function applyPricing(
     }
   }
 
-  // PRIORITY 3: Task Library (semantic search with region_factor and quality_tier multipliers)
+  // PRIORITY 3: Task Library (semantic search with location factors and quality_tier multipliers)
   // FEATURE-FLAGGED OFF per PRODUCT_CONTEXT.md Phase 1
   if (ENABLE_TASK_LIBRARY_SUGGESTIONS && (!item.pricing_source || item.pricing_source === 'ai' || item.pricing_source === 'seed' || item.pricing_source === 'task_library')) {
     try {
@@ -304,16 +296,26 @@ export async function applyPricing(
         }
       }
 
+      // Project cost region (override → address ZIP → user setting). When it
+      // resolves, matchTask applies its labor/material factors and the flat
+      // profile region_factor is not used.
+      const costRegion = projectId ? await getProjectCostRegion(supabase, projectId) : null
+      if (costRegion) {
+        regionFactor = 1.0
+      }
+
       // Use semantic search to find matching task
       const matchResult = await matchTask({
         description: item.description,
         cost_code: item.cost_code || null,
-        region: null // Region is now handled via region_factor multiplier
+        region: null, // task_library rows are national; location factors apply below
+        location: costRegion?.region ?? null
       })
 
       if (matchResult && matchResult.confidence >= 70) {
         const task = matchResult.task
         const qualityMultiplier = getQualityTierMultiplier(qualityTier)
+        const laborLocationFactor = matchResult.location?.labor_factor ?? 1
         
         // Calculate costs from task library data with multipliers
         let laborCost: number | null = null
@@ -324,7 +326,7 @@ export async function applyPricing(
         // Calculate labor cost from labor hours if available
         if (task.labor_hours_per_unit !== null && task.labor_hours_per_unit !== undefined) {
           const laborRatePerHour = 50 // Could be configurable per user
-          laborCost = task.labor_hours_per_unit * laborRatePerHour * quantity * regionFactor * qualityMultiplier
+          laborCost = task.labor_hours_per_unit * laborRatePerHour * quantity * laborLocationFactor * regionFactor * qualityMultiplier
         }
 
         // Calculate material cost
@@ -347,8 +349,10 @@ export async function applyPricing(
         }
 
         if (directCost && directCost > 0) {
-          const marginPercent = userId ? await getUserMarginRule(userId, item.cost_code || null, supabase) : 30
-          const clientPrice = directCost * (1 + marginPercent / 100)
+          const stack = await getUserMarkupStack(userId, item.cost_code || null, projectId, supabase)
+          const { markup_percent: marginPercent, client_price: clientPrice } = applyMarkupStack(
+            { direct_cost: directCost, material_cost: materialCost }, stack
+          )
 
           // Build task key for reference
           let taskKey: string | undefined
@@ -394,8 +398,10 @@ export async function applyPricing(
   }
 
   // PRIORITY 4: No pricing found - return as AI-generated (FALLBACK)
-  const marginPercent = userId ? await getUserMarginRule(userId, item.cost_code || null, supabase) : 30
-  const clientPrice = (item.direct_cost || 0) * (1 + marginPercent / 100)
+  const stack = await getUserMarkupStack(userId, item.cost_code || null, projectId, supabase)
+  const { markup_percent: marginPercent, client_price: clientPrice } = applyMarkupStack(
+    { direct_cost: item.direct_cost || 0, material_cost: item.material_cost }, stack
+  )
 
   // Build task key for reference
   let taskKey: string | undefined
@@ -436,7 +442,8 @@ export async function applyPricingToItems(
     pricing_source?: 'task_library' | 'user_library' | 'manual' | 'ai' | null
     is_allowance?: boolean | null
   }>,
-  userId?: string
+  userId?: string,
+  projectId?: string
 ): Promise<LineItem[]> {
   // Normalize is_allowance to boolean | undefined to satisfy applyPricing
   const normalizedItems = items.map(item => ({
@@ -444,5 +451,5 @@ export async function applyPricingToItems(
     is_allowance: item.is_allowance === null ? undefined : item.is_allowance
   }))
 
-  return Promise.all(normalizedItems.map(item => applyPricing(item, userId)))
+  return Promise.all(normalizedItems.map(item => applyPricing(item, userId, projectId)))
 }
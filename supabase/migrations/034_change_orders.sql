@@ -0,0 +1,240 @@
+-- Migration: Change Orders
+-- Lets scope change after an estimate is contract_signed without un-freezing it
+--
+-- A change order is a DELTA against a signed estimate:
+-- - 'add':    a new line item to be added to the job
+-- - 'remove': an existing line item to be taken out of the job
+-- - 'modify': an existing line item whose quantity/cost changes
+--
+-- Lifecycle: draft → sent → approved (or draft/sent → rejected)
+-- Only on approval is the delta applied to estimate_line_items,
+-- contracts.total_price and project_tasks.
+
+-- =============================================================================
+-- STEP 1: Create change_orders table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.change_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  estimate_id UUID NOT NULL REFERENCES public.estimates(id) ON DELETE CASCADE,
+  contract_id UUID REFERENCES public.contracts(id) ON DELETE SET NULL,
+
+  -- Sequential per project: CO #1, CO #2, ...
+  number INT NOT NULL,
+  title TEXT NOT NULL DEFAULT 'Change Order',
+  reason TEXT,
+
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'approved', 'rejected')),
+
+  -- Net change to the contract price (sum of item client_price deltas)
+  total_delta NUMERIC(12,2) NOT NULL DEFAULT 0,
+
+  sent_at TIMESTAMPTZ,
+  approved_at TIMESTAMPTZ,
+  rejected_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+  CONSTRAINT change_orders_project_number_unique UNIQUE (project_id, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_orders_project_id ON public.change_orders(project_id);
+CREATE INDEX IF NOT EXISTS idx_change_orders_estimate_id ON public.change_orders(estimate_id);
+CREATE INDEX IF NOT EXISTS idx_change_orders_contract_id ON public.change_orders(contract_id);
+CREATE INDEX IF NOT EXISTS idx_change_orders_status ON public.change_orders(status);
+
+-- =============================================================================
+-- STEP 2: Create change_order_items table (the delta)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.change_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  change_order_id UUID NOT NULL REFERENCES public.change_orders(id) ON DELETE CASCADE,
+  change_type TEXT NOT NULL CHECK (change_type IN ('add', 'remove', 'modify')),
+
+  -- Target line item for remove/modify; populated for 'add' once approved
+  line_item_id UUID REFERENCES public.estimate_line_items(id) ON DELETE SET NULL,
+  -- Task created/updated when the change order was approved
+  project_task_id UUID REFERENCES public.project_tasks(id) ON DELETE SET NULL,
+
+  description TEXT NOT NULL,
+  cost_code TEXT,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL,
+  room_name TEXT,
+  unit TEXT,
+
+  -- New values (NULL for 'remove')
+  quantity NUMERIC,
+  direct_cost NUMERIC(12,2),
+  client_price NUMERIC(12,2),
+
+  -- Values before the change (NULL for 'add')
+  previous_quantity NUMERIC,
+  previous_direct_cost NUMERIC(12,2),
+  previous_client_price NUMERIC(12,2),
+
+  -- client_price - previous_client_price (negative for removals)
+  price_delta NUMERIC(12,2) NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT change_order_items_target_check CHECK (
+    change_type = 'add' OR line_item_id IS NOT NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_order_items_change_order_id ON public.change_order_items(change_order_id);
+CREATE INDEX IF NOT EXISTS idx_change_order_items_line_item_id ON public.change_order_items(line_item_id);
+
+-- Line items introduced by a change order keep a back-reference
+ALTER TABLE public.estimate_line_items
+  ADD COLUMN IF NOT EXISTS change_order_id UUID REFERENCES public.change_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_eli_change_order_id ON public.estimate_line_items(change_order_id);
+
+-- =============================================================================
+-- STEP 3: Enforce change order status transitions
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION validate_change_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Allowed:
+  -- draft → sent, draft → rejected
+  -- sent → approved, sent → rejected
+  IF OLD.status = 'draft' AND NEW.status = 'sent' THEN
+    NEW.sent_at = COALESCE(NEW.sent_at, NOW());
+    RETURN NEW;
+  ELSIF OLD.status = 'sent' AND NEW.status = 'approved' THEN
+    NEW.approved_at = COALESCE(NEW.approved_at, NOW());
+    RETURN NEW;
+  ELSIF OLD.status IN ('draft', 'sent') AND NEW.status = 'rejected' THEN
+    NEW.rejected_at = COALESCE(NEW.rejected_at, NOW());
+    RETURN NEW;
+  ELSE
+    RAISE EXCEPTION 'Invalid change order status transition: % → %', OLD.status, NEW.status;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS change_order_status_transition_trigger ON public.change_orders;
+CREATE TRIGGER change_order_status_transition_trigger
+  BEFORE UPDATE OF status ON public.change_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_change_order_status_transition();
+
+DROP TRIGGER IF EXISTS update_change_orders_updated_at ON public.change_orders;
+CREATE TRIGGER update_change_orders_updated_at
+  BEFORE UPDATE ON public.change_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- STEP 4: Enable RLS and create policies
+-- =============================================================================
+
+ALTER TABLE public.change_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.change_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view change orders for their projects" ON public.change_orders
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = change_orders.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create change orders for their projects" ON public.change_orders
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = change_orders.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update change orders for their projects" ON public.change_orders
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = change_orders.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- Only drafts can be deleted; approved change orders are part of the job record
+CREATE POLICY "Users can delete draft change orders for their projects" ON public.change_orders
+  FOR DELETE USING (
+    status = 'draft' AND
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = change_orders.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view change order items for their projects" ON public.change_order_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.change_orders
+      JOIN public.projects ON projects.id = change_orders.project_id
+      WHERE change_orders.id = change_order_items.change_order_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create change order items for their projects" ON public.change_order_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.change_orders
+      JOIN public.projects ON projects.id = change_orders.project_id
+      WHERE change_orders.id = change_order_items.change_order_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update change order items for their projects" ON public.change_order_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.change_orders
+      JOIN public.projects ON projects.id = change_orders.project_id
+      WHERE change_orders.id = change_order_items.change_order_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete change order items for their projects" ON public.change_order_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.change_orders
+      JOIN public.projects ON projects.id = change_orders.project_id
+      WHERE change_orders.id = change_order_items.change_order_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE public.change_orders IS
+'Scope changes to a contract_signed estimate. Each change order is a delta of added/removed/modified line items with its own draft → sent → approved lifecycle.';
+COMMENT ON COLUMN public.change_orders.number IS 'Sequential change order number within the project (CO #1, CO #2, ...)';
+COMMENT ON COLUMN public.change_orders.total_delta IS 'Net change to the contract price. Applied to contracts.total_price on approval.';
+COMMENT ON COLUMN public.change_orders.status IS 'draft → sent → approved, or rejected. Delta is applied only on approval.';
+
+COMMENT ON TABLE public.change_order_items IS
+'Individual line item changes within a change order. previous_* columns snapshot the line item before the change.';
+COMMENT ON COLUMN public.change_order_items.change_type IS 'add (new line item), remove (take line item out of job), modify (quantity/cost change)';
+COMMENT ON COLUMN public.change_order_items.price_delta IS 'client_price - previous_client_price. Negative for removals.';
+
+COMMENT ON COLUMN public.estimate_line_items.change_order_id IS
+'Set when the line item was added to the estimate by an approved change order.';
@@ -0,0 +1,94 @@
+-- Migration: Estimate Snapshots
+-- Immutable copies of an estimate (line items, rooms, totals) taken at each
+-- lifecycle transition and on demand, so we can show what an estimate looked
+-- like when it was finalized versus what it looks like now.
+--
+-- Snapshots are APPEND-ONLY: there are no UPDATE or DELETE policies.
+-- Proposals reference the exact snapshot they were priced from.
+
+-- =============================================================================
+-- STEP 1: Create estimate_snapshots table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.estimate_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  estimate_id UUID NOT NULL REFERENCES public.estimates(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+
+  -- What caused the snapshot
+  trigger TEXT NOT NULL
+    CHECK (trigger IN ('bid_final', 'contract_signed', 'completed', 'proposal_created', 'manual')),
+  label TEXT,
+
+  -- Estimate status at the moment the snapshot was taken
+  estimate_status TEXT NOT NULL,
+
+  -- Sequential per estimate: v1, v2, ...
+  version INT NOT NULL,
+
+  -- Frozen copies
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  rooms JSONB NOT NULL DEFAULT '[]'::jsonb,
+  totals JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+  CONSTRAINT estimate_snapshots_estimate_version_unique UNIQUE (estimate_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_estimate_snapshots_estimate_id ON public.estimate_snapshots(estimate_id);
+CREATE INDEX IF NOT EXISTS idx_estimate_snapshots_project_id ON public.estimate_snapshots(project_id);
+CREATE INDEX IF NOT EXISTS idx_estimate_snapshots_created_at ON public.estimate_snapshots(created_at DESC);
+
+-- =============================================================================
+-- STEP 2: Link proposals to the snapshot they were priced from
+-- =============================================================================
+
+ALTER TABLE public.proposals
+  ADD COLUMN IF NOT EXISTS snapshot_id UUID REFERENCES public.estimate_snapshots(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_proposals_snapshot_id ON public.proposals(snapshot_id);
+
+-- =============================================================================
+-- STEP 3: Enable RLS - SELECT and INSERT only (snapshots are immutable)
+-- =============================================================================
+
+ALTER TABLE public.estimate_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view snapshots for their projects" ON public.estimate_snapshots
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = estimate_snapshots.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create snapshots for their projects" ON public.estimate_snapshots
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = estimate_snapshots.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- No UPDATE/DELETE policies: snapshots are an immutable record
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE public.estimate_snapshots IS
+'Immutable point-in-time copies of an estimate. Taken automatically at bid_final, contract_signed, completed and proposal creation, and on demand.';
+COMMENT ON COLUMN public.estimate_snapshots.trigger IS
+'What caused the snapshot: bid_final, contract_signed, completed, proposal_created, or manual.';
+COMMENT ON COLUMN public.estimate_snapshots.line_items IS
+'JSON array of line items at snapshot time (id, description, room, quantity, unit, costs, client_price, is_allowance, is_active).';
+COMMENT ON COLUMN public.estimate_snapshots.rooms IS
+'JSON array of rooms at snapshot time (id, name, level, is_in_scope, areas).';
+COMMENT ON COLUMN public.estimate_snapshots.totals IS
+'JSON object: { total, direct_cost_total, line_item_count, by_room: [{ room_id, room_name, total }] }';
+COMMENT ON COLUMN public.proposals.snapshot_id IS
+'The estimate snapshot this proposal was priced from.';
@@ -0,0 +1,182 @@
+-- Migration: Estimate Revisions & Status History
+-- Allows a finalized bid to be re-opened for revision before the contract
+-- is signed, without losing the record of what was bid.
+--
+-- - bid_final → draft is allowed ONLY when estimates.revision is bumped
+-- - pricing_events captured at the superseded bid_final commit are marked
+--   superseded (never deleted - they remain part of the audit log)
+-- - every lifecycle transition is recorded in estimate_status_history
+--   with who/when/why
+
+-- =============================================================================
+-- STEP 1: Add revision number to estimates
+-- =============================================================================
+
+ALTER TABLE public.estimates
+  ADD COLUMN IF NOT EXISTS revision INT NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.estimates.revision IS
+'Bid revision number. Starts at 1 and is incremented each time a finalized bid is re-opened (bid_final → draft).';
+
+-- =============================================================================
+-- STEP 2: Allow bid_final → draft when the revision is bumped
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION validate_estimate_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- If status hasn't changed, allow the update
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+  
+  -- Validate allowed transitions:
+  -- draft → bid_final
+  -- bid_final → contract_signed
+  -- bid_final → draft (revise bid - revision must be incremented)
+  -- contract_signed → completed
+  
+  IF OLD.status = 'draft' AND NEW.status = 'bid_final' THEN
+    NEW.status_changed_at = NOW();
+    RETURN NEW;
+  ELSIF OLD.status = 'bid_final' AND NEW.status = 'contract_signed' THEN
+    NEW.status_changed_at = NOW();
+    RETURN NEW;
+  ELSIF OLD.status = 'bid_final' AND NEW.status = 'draft' THEN
+    IF NEW.revision <= OLD.revision THEN
+      RAISE EXCEPTION 'Invalid estimate status transition: bid_final → draft requires a new revision';
+    END IF;
+    NEW.status_changed_at = NOW();
+    RETURN NEW;
+  ELSIF OLD.status = 'contract_signed' AND NEW.status = 'completed' THEN
+    NEW.status_changed_at = NOW();
+    RETURN NEW;
+  ELSE
+    RAISE EXCEPTION 'Invalid estimate status transition: % → %', OLD.status, NEW.status;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION validate_estimate_status_transition() IS
+'Enforces allowed estimate status transitions:
+- draft → bid_final (user finalizes bid)
+- bid_final → contract_signed (contract generated/accepted)
+- bid_final → draft (bid revised before signing; revision must be incremented)
+- contract_signed → completed (job finished, actuals collected)
+Illegal transitions are rejected with an exception.';
+
+-- =============================================================================
+-- STEP 3: Mark superseded pricing events
+-- =============================================================================
+
+ALTER TABLE public.pricing_events
+  ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMPTZ;
+
+ALTER TABLE public.pricing_events
+  ADD COLUMN IF NOT EXISTS superseded_revision INT;
+
+CREATE INDEX IF NOT EXISTS idx_pricing_events_estimate_active
+  ON public.pricing_events(estimate_id)
+  WHERE superseded_at IS NULL;
+
+COMMENT ON COLUMN public.pricing_events.superseded_at IS
+'Set when the commit this event was captured at was revised (bid re-opened). Superseded events stay in the log but should be excluded from learning.';
+COMMENT ON COLUMN public.pricing_events.superseded_revision IS
+'Estimate revision number the superseded commit belonged to.';
+
+-- pricing_events has no UPDATE policy (events are an immutable audit log),
+-- so superseding goes through this function. It only ever sets the
+-- superseded_* columns, and only on the caller's own events.
+CREATE OR REPLACE FUNCTION supersede_pricing_events(
+  p_estimate_id UUID,
+  p_stage TEXT,
+  p_revision INT
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected INT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.estimates
+    JOIN public.projects ON projects.id = estimates.project_id
+    WHERE estimates.id = p_estimate_id
+    AND projects.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Estimate not found';
+  END IF;
+
+  UPDATE public.pricing_events
+  SET superseded_at = NOW(),
+      superseded_revision = p_revision
+  WHERE estimate_id = p_estimate_id
+    AND user_id = auth.uid()
+    AND superseded_at IS NULL
+    AND meta->>'stage' = p_stage;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$;
+
+COMMENT ON FUNCTION supersede_pricing_events(UUID, TEXT, INT) IS
+'Marks the caller''s pricing events for an estimate/stage as superseded. Used when a finalized bid is revised.';
+
+-- =============================================================================
+-- STEP 4: Create estimate_status_history table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.estimate_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  estimate_id UUID NOT NULL REFERENCES public.estimates(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  -- Estimate revision after the transition
+  revision INT NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_estimate_status_history_estimate_id ON public.estimate_status_history(estimate_id);
+CREATE INDEX IF NOT EXISTS idx_estimate_status_history_project_id ON public.estimate_status_history(project_id);
+CREATE INDEX IF NOT EXISTS idx_estimate_status_history_created_at ON public.estimate_status_history(created_at DESC);
+
+-- =============================================================================
+-- STEP 5: Enable RLS - SELECT and INSERT only (history is an audit log)
+-- =============================================================================
+
+ALTER TABLE public.estimate_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view status history for their projects" ON public.estimate_status_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = estimate_status_history.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create status history for their projects" ON public.estimate_status_history
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = estimate_status_history.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- No UPDATE/DELETE policies: history is an immutable audit log
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE public.estimate_status_history IS
+'Audit trail of estimate lifecycle transitions: who changed the status, when, and why (reason is required for bid revisions).';
+COMMENT ON COLUMN public.estimate_status_history.revision IS
+'Estimate revision number after the transition.';
@@ -0,0 +1,145 @@
+-- Migration: Estimate Alternates (good / better / best)
+-- Lets an estimate carry named, optional scope packages ("Upgrade quartz",
+-- "Add deck") alongside the base scope.
+--
+-- - A line item with an empty alternate_ids array is BASE scope
+-- - A line item listing one or more alternates is only included when at
+--   least one of those alternates is selected
+-- - Proposals present alternates as optional add-ons; the client's
+--   selection is stored on the proposal and carried to the contract and
+--   estimate, where it flows into total_price / estimates.total
+
+-- =============================================================================
+-- STEP 1: Create estimate_alternates table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.estimate_alternates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  estimate_id UUID NOT NULL REFERENCES public.estimates(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  sort_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_estimate_alternates_estimate_id ON public.estimate_alternates(estimate_id);
+CREATE INDEX IF NOT EXISTS idx_estimate_alternates_project_id ON public.estimate_alternates(project_id);
+
+DROP TRIGGER IF EXISTS update_estimate_alternates_updated_at ON public.estimate_alternates;
+CREATE TRIGGER update_estimate_alternates_updated_at
+  BEFORE UPDATE ON public.estimate_alternates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- STEP 2: Alternate membership and selections
+-- =============================================================================
+
+-- Empty array = base scope
+ALTER TABLE public.estimate_line_items
+  ADD COLUMN IF NOT EXISTS alternate_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_eli_alternate_ids ON public.estimate_line_items USING GIN (alternate_ids);
+
+-- Alternates accepted into the job (included in estimates.total)
+ALTER TABLE public.estimates
+  ADD COLUMN IF NOT EXISTS selected_alternate_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Alternates the client selected on a proposal (included in proposals.total_price)
+ALTER TABLE public.proposals
+  ADD COLUMN IF NOT EXISTS selected_alternate_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Alternates carried into a contract (included in contracts.total_price)
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS selected_alternate_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- =============================================================================
+-- STEP 3: Clean up membership when an alternate is deleted
+-- Items that belonged ONLY to the deleted alternate are deleted with it,
+-- so they never silently fall back into base scope.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION remove_deleted_alternate_from_line_items()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.estimate_line_items
+  WHERE estimate_id = OLD.estimate_id
+    AND alternate_ids = ARRAY[OLD.id];
+
+  UPDATE public.estimate_line_items
+  SET alternate_ids = array_remove(alternate_ids, OLD.id)
+  WHERE estimate_id = OLD.estimate_id
+    AND OLD.id = ANY(alternate_ids);
+
+  UPDATE public.estimates
+  SET selected_alternate_ids = array_remove(selected_alternate_ids, OLD.id)
+  WHERE id = OLD.estimate_id;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS estimate_alternate_delete_trigger ON public.estimate_alternates;
+CREATE TRIGGER estimate_alternate_delete_trigger
+  BEFORE DELETE ON public.estimate_alternates
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_deleted_alternate_from_line_items();
+
+-- =============================================================================
+-- STEP 4: Enable RLS and create policies
+-- =============================================================================
+
+ALTER TABLE public.estimate_alternates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view alternates for their projects" ON public.estimate_alternates
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = estimate_alternates.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create alternates for their projects" ON public.estimate_alternates
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = estimate_alternates.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update alternates for their projects" ON public.estimate_alternates
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = estimate_alternates.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete alternates for their projects" ON public.estimate_alternates
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = estimate_alternates.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE public.estimate_alternates IS
+'Named optional scope packages on an estimate (good / better / best). Line items opt in via estimate_line_items.alternate_ids.';
+COMMENT ON COLUMN public.estimate_line_items.alternate_ids IS
+'Alternates this line item belongs to. Empty = base scope. Non-empty items are included only when one of these alternates is selected.';
+COMMENT ON COLUMN public.estimates.selected_alternate_ids IS
+'Alternates accepted into the job. estimates.total = base + items in these alternates.';
+COMMENT ON COLUMN public.proposals.selected_alternate_ids IS
+'Alternates the client selected on this proposal. total_price = base + selected alternates.';
+COMMENT ON COLUMN public.contracts.selected_alternate_ids IS
+'Alternates included in the contract, copied from the proposal at contract creation.';
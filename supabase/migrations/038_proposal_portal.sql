@@ -0,0 +1,58 @@
+-- Migration: Client Proposal Portal
+-- Lets the homeowner open a proposal from a tokenized link (no login),
+-- then accept (typed-name e-signature) or decline it.
+--
+-- - proposals.share_token is the unguessable link token; regenerating it
+--   revokes the previous link
+-- - Signature evidence (typed name, IP, user agent, timestamp) and the
+--   client's comments are stored on the proposal
+-- - proposal_events gains 'viewed' and 'rejected' so the portal can log
+--   views and declines alongside 'sent' and 'approved'
+--
+-- The portal reads and writes through the server with the service role key
+-- after validating the token, so no anonymous RLS policies are added.
+
+-- =============================================================================
+-- STEP 1: Share link and response columns on proposals
+-- =============================================================================
+
+ALTER TABLE public.proposals
+  ADD COLUMN IF NOT EXISTS share_token TEXT,
+  ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS first_viewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_viewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS signer_name TEXT,
+  ADD COLUMN IF NOT EXISTS signer_ip TEXT,
+  ADD COLUMN IF NOT EXISTS signer_user_agent TEXT,
+  ADD COLUMN IF NOT EXISTS client_comments TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proposals_share_token
+  ON public.proposals(share_token)
+  WHERE share_token IS NOT NULL;
+
+-- =============================================================================
+-- STEP 2: Portal event types
+-- =============================================================================
+
+ALTER TABLE public.proposal_events
+  DROP CONSTRAINT IF EXISTS proposal_events_event_type_check;
+
+ALTER TABLE public.proposal_events
+  ADD CONSTRAINT proposal_events_event_type_check
+  CHECK (event_type IN ('created', 'sent', 'viewed', 'approved', 'rejected', 'revised'));
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN public.proposals.share_token IS 'Token for the public client portal link (/portal/proposals/<token>). NULL = not shared.';
+COMMENT ON COLUMN public.proposals.sent_at IS 'When the proposal link was first shared with the client';
+COMMENT ON COLUMN public.proposals.first_viewed_at IS 'First time the client opened the portal link';
+COMMENT ON COLUMN public.proposals.last_viewed_at IS 'Most recent time the client opened the portal link';
+COMMENT ON COLUMN public.proposals.rejected_at IS 'When the client declined the proposal';
+COMMENT ON COLUMN public.proposals.signer_name IS 'Typed-name signature entered by the client when accepting or declining';
+COMMENT ON COLUMN public.proposals.signer_ip IS 'IP address the client responded from';
+COMMENT ON COLUMN public.proposals.signer_user_agent IS 'Browser user agent the client responded from';
+COMMENT ON COLUMN public.proposals.client_comments IS 'Optional comments the client left with their response';
+COMMENT ON COLUMN public.proposal_events.event_type IS 'Type of event: created, sent, viewed, approved, rejected, or revised';
@@ -0,0 +1,151 @@
+-- Migration: Contract E-Signature Workflow
+-- Two-party signing for contracts:
+--   1. Contractor sends the contract -> client signs via a tokenized link
+--      (typed-name signature, IP / user agent / timestamp captured)
+--   2. Contractor countersigns in the Contracts tab -> status 'signed'
+--   3. The final PDF (with a signature audit certificate page) is stored in
+--      the uploads bucket and recorded as an immutable uploads row
+--
+-- Status flow: draft -> sent -> client_signed -> signed
+
+-- =============================================================================
+-- STEP 1: Contract status + signature columns
+-- =============================================================================
+
+ALTER TABLE public.contracts
+  DROP CONSTRAINT IF EXISTS contracts_status_check;
+
+ALTER TABLE public.contracts
+  ADD CONSTRAINT contracts_status_check
+  CHECK (status IN ('draft', 'sent', 'client_signed', 'signed'));
+
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS signing_token TEXT,
+  ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS client_signer_name TEXT,
+  ADD COLUMN IF NOT EXISTS client_signed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS client_signer_ip TEXT,
+  ADD COLUMN IF NOT EXISTS client_signer_user_agent TEXT,
+  ADD COLUMN IF NOT EXISTS contractor_signer_name TEXT,
+  ADD COLUMN IF NOT EXISTS contractor_signed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS contractor_signer_ip TEXT,
+  ADD COLUMN IF NOT EXISTS contractor_signed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS signed_upload_id UUID,
+  ADD COLUMN IF NOT EXISTS signed_pdf_sha256 TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contracts_signing_token
+  ON public.contracts(signing_token)
+  WHERE signing_token IS NOT NULL;
+
+-- =============================================================================
+-- STEP 2: Contract events (signature audit trail)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.contract_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('sent', 'viewed', 'client_signed', 'countersigned', 'archived')),
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES public.profiles(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_events_contract_id ON public.contract_events(contract_id);
+CREATE INDEX IF NOT EXISTS idx_contract_events_created_at ON public.contract_events(created_at);
+
+ALTER TABLE public.contract_events ENABLE ROW LEVEL SECURITY;
+
+-- Audit rows are append-only: SELECT and INSERT only
+CREATE POLICY "Users can view contract events for their projects"
+  ON public.contract_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.contracts
+      JOIN public.projects ON projects.id = contracts.project_id
+      WHERE contracts.id = contract_events.contract_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert contract events for their projects"
+  ON public.contract_events
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.contracts
+      JOIN public.projects ON projects.id = contracts.project_id
+      WHERE contracts.id = contract_events.contract_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- =============================================================================
+-- STEP 3: Immutable uploads for signed contracts
+-- =============================================================================
+
+ALTER TABLE uploads
+  ADD COLUMN IF NOT EXISTS contract_id UUID REFERENCES public.contracts(id),
+  ADD COLUMN IF NOT EXISTS is_immutable BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_uploads_contract_id ON uploads(contract_id);
+
+ALTER TABLE public.contracts
+  DROP CONSTRAINT IF EXISTS contracts_signed_upload_id_fkey;
+
+ALTER TABLE public.contracts
+  ADD CONSTRAINT contracts_signed_upload_id_fkey
+  FOREIGN KEY (signed_upload_id) REFERENCES uploads(id);
+
+-- Allow the 'contract' tag/kind for archived contract PDFs
+ALTER TABLE uploads DROP CONSTRAINT IF EXISTS uploads_tag_check;
+ALTER TABLE uploads
+  ADD CONSTRAINT uploads_tag_check
+  CHECK (tag IN ('blueprint', 'spec', 'photo', 'contract', 'other'));
+
+ALTER TABLE uploads DROP CONSTRAINT IF EXISTS uploads_kind_check;
+ALTER TABLE uploads
+  ADD CONSTRAINT uploads_kind_check
+  CHECK (kind IN ('photo', 'blueprint', 'audio', 'spec', 'contract', 'other'));
+
+-- Immutable uploads can't be edited or deleted. The only exception is the
+-- cascade when the whole project is deleted.
+CREATE OR REPLACE FUNCTION prevent_immutable_upload_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.is_immutable THEN
+    IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.projects WHERE id = OLD.project_id) THEN
+      RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'Upload % is an archived signed document and cannot be modified', OLD.id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_immutable_upload_changes ON uploads;
+CREATE TRIGGER prevent_immutable_upload_changes
+  BEFORE UPDATE OR DELETE ON uploads
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_immutable_upload_changes();
+
+-- =============================================================================
+-- STEP 4: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN public.contracts.status IS 'Contract status: draft, sent (awaiting client signature), client_signed (awaiting countersignature), signed';
+COMMENT ON COLUMN public.contracts.signing_token IS 'Token for the public client signing link (/portal/contracts/<token>). NULL = not sent.';
+COMMENT ON COLUMN public.contracts.client_signer_name IS 'Typed-name signature entered by the client';
+COMMENT ON COLUMN public.contracts.contractor_signer_name IS 'Typed-name countersignature entered by the contractor';
+COMMENT ON COLUMN public.contracts.signed_upload_id IS 'Archived final signed PDF (immutable uploads row)';
+COMMENT ON COLUMN public.contracts.signed_pdf_sha256 IS 'SHA-256 of the archived signed PDF, for tamper detection';
+
+COMMENT ON TABLE public.contract_events IS 'Append-only signature audit trail for contracts (sent, viewed, client_signed, countersigned, archived).';
+COMMENT ON COLUMN public.contract_events.metadata IS 'Event details: signer name, IP address, user agent, document hash';
+
+COMMENT ON COLUMN uploads.contract_id IS 'Contract this upload archives (signed contract PDFs)';
+COMMENT ON COLUMN uploads.is_immutable IS 'Archived signed documents: updates and deletes are rejected by trigger';
@@ -0,0 +1,104 @@
+-- Migration: Progress Billing (Pay Applications)
+-- AIA G702/G703-style pay applications billed by percent complete per task.
+--
+-- A pay application is an invoice (invoice_type = 'pay_application') with one
+-- invoice_items row per project task - the continuation sheet. Each row
+-- snapshots the task's scheduled value, work completed in previous periods,
+-- percent complete to date and retainage so the PDF can be reproduced exactly.
+--
+-- invoice_items.amount stays "work billed this period" for every invoice
+-- type; project_tasks.billed_amount is the gross work billed to date and can
+-- never exceed the task price.
+
+-- =============================================================================
+-- STEP 1: Pay application columns on invoices
+-- =============================================================================
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS invoice_type TEXT NOT NULL DEFAULT 'standard',
+  ADD COLUMN IF NOT EXISTS application_number INTEGER,
+  ADD COLUMN IF NOT EXISTS period_to DATE,
+  ADD COLUMN IF NOT EXISTS retainage_percent NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS retainage_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoices
+  DROP CONSTRAINT IF EXISTS invoices_invoice_type_check;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_invoice_type_check
+  CHECK (invoice_type IN ('standard', 'pay_application'));
+
+ALTER TABLE public.invoices
+  DROP CONSTRAINT IF EXISTS invoices_retainage_percent_check;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_retainage_percent_check
+  CHECK (retainage_percent >= 0 AND retainage_percent <= 100);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_project_application_number
+  ON public.invoices(project_id, application_number)
+  WHERE application_number IS NOT NULL;
+
+-- =============================================================================
+-- STEP 2: Continuation sheet columns on invoice_items
+-- =============================================================================
+
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS scheduled_value NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS previous_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS percent_complete NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS previous_retainage NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS retainage_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+-- =============================================================================
+-- STEP 3: Over-billing guard
+-- =============================================================================
+
+-- NOT VALID: enforced for every new write without rechecking legacy rows
+ALTER TABLE public.project_tasks
+  DROP CONSTRAINT IF EXISTS project_tasks_billed_within_price;
+
+ALTER TABLE public.project_tasks
+  ADD CONSTRAINT project_tasks_billed_within_price
+  CHECK (billed_amount >= 0 AND billed_amount <= price)
+  NOT VALID;
+
+-- Atomically add to a task's billed_amount. Runs as the caller so RLS still
+-- applies; raises if the task would be billed past its price.
+CREATE OR REPLACE FUNCTION bill_project_task(p_task_id UUID, p_amount NUMERIC)
+RETURNS NUMERIC AS $$
+DECLARE
+  new_billed NUMERIC;
+BEGIN
+  UPDATE public.project_tasks
+  SET billed_amount = billed_amount + p_amount
+  WHERE id = p_task_id
+    AND billed_amount + p_amount <= price
+    AND billed_amount + p_amount >= 0
+  RETURNING billed_amount INTO new_billed;
+
+  IF new_billed IS NULL THEN
+    RAISE EXCEPTION 'Billing % would exceed the remaining balance of task %', p_amount, p_task_id;
+  END IF;
+
+  RETURN new_billed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- STEP 4: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN public.invoices.invoice_type IS 'standard (bill selected tasks) or pay_application (G702/G703 progress billing by percent complete)';
+COMMENT ON COLUMN public.invoices.application_number IS 'Sequential pay application number per project (pay applications only)';
+COMMENT ON COLUMN public.invoices.period_to IS 'End of the billing period covered by a pay application';
+COMMENT ON COLUMN public.invoices.retainage_percent IS 'Percent of work completed this period withheld as retainage';
+COMMENT ON COLUMN public.invoices.retainage_amount IS 'Retainage withheld on this invoice. total_amount is already net of it.';
+
+COMMENT ON COLUMN public.invoice_items.scheduled_value IS 'Task price at the time of the pay application (G703 column C)';
+COMMENT ON COLUMN public.invoice_items.previous_amount IS 'Work completed in previous periods (G703 column D)';
+COMMENT ON COLUMN public.invoice_items.percent_complete IS 'Percent complete to date after this period (G703 column G/C)';
+COMMENT ON COLUMN public.invoice_items.previous_retainage IS 'Retainage held on this task before this pay application';
+COMMENT ON COLUMN public.invoice_items.retainage_amount IS 'Retainage withheld on this line in this invoice';
+
+COMMENT ON FUNCTION bill_project_task(UUID, NUMERIC) IS 'Atomically increments project_tasks.billed_amount, refusing to bill past the task price';
@@ -0,0 +1,43 @@
+-- Migration: Retainage Tracking and Release
+-- A per-contract retainage percentage is withheld from every invoice's
+-- work amount until closeout, when a retainage release invoice pays it out.
+--
+-- Sign convention for retainage_amount (invoices and invoice_items):
+--   positive = retainage withheld by that invoice / line
+--   negative = retainage released by a 'retainage_release' invoice
+-- so the retainage currently held on a project (or task) is simply
+-- SUM(retainage_amount).
+
+-- =============================================================================
+-- STEP 1: Contract retainage percentage
+-- =============================================================================
+
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS retainage_percent NUMERIC(5,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.contracts
+  DROP CONSTRAINT IF EXISTS contracts_retainage_percent_check;
+
+ALTER TABLE public.contracts
+  ADD CONSTRAINT contracts_retainage_percent_check
+  CHECK (retainage_percent >= 0 AND retainage_percent <= 100);
+
+-- =============================================================================
+-- STEP 2: Retainage release invoice type
+-- =============================================================================
+
+ALTER TABLE public.invoices
+  DROP CONSTRAINT IF EXISTS invoices_invoice_type_check;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_invoice_type_check
+  CHECK (invoice_type IN ('standard', 'pay_application', 'retainage_release'));
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN public.contracts.retainage_percent IS 'Percent of each invoice withheld as retainage until closeout (0 = none)';
+COMMENT ON COLUMN public.invoices.invoice_type IS 'standard (bill selected tasks), pay_application (G702/G703 progress billing) or retainage_release (pays out held retainage at closeout)';
+COMMENT ON COLUMN public.invoices.retainage_amount IS 'Retainage withheld (positive) or released (negative, retainage_release invoices). total_amount is the net amount due. SUM over a project = retainage held.';
+COMMENT ON COLUMN public.invoice_items.retainage_amount IS 'Retainage withheld (positive) or released (negative) on this line. SUM over a task = retainage held on the task.';
@@ -0,0 +1,164 @@
+-- Migration: Payments Ledger and Invoice Status Derivation
+-- Records payments received against invoices (date, amount, method,
+-- reference) and derives invoice status from them.
+--
+-- invoices.amount_paid is maintained by a trigger on payments and is always
+-- SUM(payments.amount) for the invoice. Status is derived the same way in SQL
+-- (derive_invoice_status) and in lib/invoice-status.ts:
+--   draft          - not issued yet and nothing paid
+--   paid           - balance fully covered
+--   overdue        - balance outstanding and due_date has passed
+--   partially_paid - some payment received, balance outstanding
+--   sent           - issued, nothing paid, not yet due
+-- "overdue" depends on the current date, so readers re-derive it rather than
+-- trusting the stored value.
+
+-- =============================================================================
+-- STEP 1: Payments table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL DEFAULT 'check' CHECK (method IN ('check', 'ach', 'wire', 'card', 'cash', 'other')),
+  reference TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON public.payments(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_payments_project_id ON public.payments(project_id);
+CREATE INDEX IF NOT EXISTS idx_payments_payment_date ON public.payments(payment_date);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payments for their projects" ON public.payments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = payments.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create payments for their projects" ON public.payments
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = payments.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete payments for their projects" ON public.payments
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = payments.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- =============================================================================
+-- STEP 2: Invoice amount paid and partially_paid status
+-- =============================================================================
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoices
+  DROP CONSTRAINT IF EXISTS invoices_status_check;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('draft', 'sent', 'partially_paid', 'paid', 'overdue'));
+
+-- =============================================================================
+-- STEP 3: Status derivation
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION derive_invoice_status(
+  p_status TEXT,
+  p_total NUMERIC,
+  p_paid NUMERIC,
+  p_due_date DATE
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_paid > 0 AND p_paid >= p_total THEN
+    RETURN 'paid';
+  END IF;
+
+  IF p_status = 'draft' AND p_paid <= 0 THEN
+    RETURN 'draft';
+  END IF;
+
+  IF p_due_date IS NOT NULL AND p_due_date < CURRENT_DATE THEN
+    RETURN 'overdue';
+  END IF;
+
+  IF p_paid > 0 THEN
+    RETURN 'partially_paid';
+  END IF;
+
+  RETURN 'sent';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Recompute amount_paid and status whenever an invoice's payments change
+CREATE OR REPLACE FUNCTION sync_invoice_payments()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_invoice UUID;
+  paid NUMERIC;
+BEGIN
+  target_invoice := COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  SELECT COALESCE(SUM(amount), 0) INTO paid
+  FROM public.payments
+  WHERE invoice_id = target_invoice;
+
+  UPDATE public.invoices
+  SET amount_paid = paid,
+      status = derive_invoice_status(status, total_amount, paid, due_date),
+      updated_at = NOW()
+  WHERE id = target_invoice;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payments_sync_invoice ON public.payments;
+
+CREATE TRIGGER payments_sync_invoice
+  AFTER INSERT OR UPDATE OR DELETE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_invoice_payments();
+
+-- =============================================================================
+-- STEP 4: Backfill invoices already marked paid
+-- =============================================================================
+
+-- Invoices marked paid before the ledger existed get a single payment for
+-- their full amount so amount_paid and the A/R report agree with them.
+INSERT INTO public.payments (invoice_id, project_id, payment_date, amount, method, notes)
+SELECT id, project_id, COALESCE(updated_at::date, issued_date), total_amount, 'other', 'Recorded before payment tracking'
+FROM public.invoices
+WHERE status = 'paid'
+  AND total_amount > 0
+  AND NOT EXISTS (SELECT 1 FROM public.payments WHERE payments.invoice_id = invoices.id);
+
+-- =============================================================================
+-- STEP 5: Comments
+-- =============================================================================
+
+COMMENT ON TABLE public.payments IS 'Payments received against invoices. invoices.amount_paid and status are kept in sync by trigger.';
+COMMENT ON COLUMN public.payments.method IS 'check, ach, wire, card, cash or other';
+COMMENT ON COLUMN public.payments.reference IS 'Check number, transaction ID or other reference for the payment';
+COMMENT ON COLUMN public.invoices.amount_paid IS 'Sum of payments recorded against this invoice (maintained by trigger)';
+COMMENT ON COLUMN public.invoices.status IS 'Invoice status: draft, sent, partially_paid, paid or overdue. Derived from payments and due_date once issued.';
+COMMENT ON FUNCTION derive_invoice_status(TEXT, NUMERIC, NUMERIC, DATE) IS 'Invoice status from its stored status, total, amount paid and due date (mirrors lib/invoice-status.ts)';
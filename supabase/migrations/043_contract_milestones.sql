@@ -0,0 +1,114 @@
+-- Migration: Contract Payment Milestones
+-- Turns the contract payment schedule into records that drive invoicing.
+--
+-- contracts.payment_schedule (JSONB) stays the printed snapshot. Each entry
+-- (plus the down payment) also becomes a contract_milestones row. A milestone
+-- with a cost code range (e.g. 400-499 "Rough-in complete") is ready to
+-- invoice once every project task whose estimate line item falls in that
+-- range is completed; a milestone without a range is ready at any time.
+--
+-- Invoicing a milestone links the invoice here, so a milestone is invoiced
+-- while invoice_id is set and paid once that invoice is paid. Deleting the
+-- invoice frees the milestone to be invoiced again.
+
+-- =============================================================================
+-- STEP 1: Milestones table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.contract_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  is_down_payment BOOLEAN NOT NULL DEFAULT false,
+  cost_code_start INTEGER,
+  cost_code_end INTEGER,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  invoiced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT contract_milestones_cost_code_range CHECK (
+    (cost_code_start IS NULL AND cost_code_end IS NULL)
+    OR (cost_code_start IS NOT NULL AND cost_code_end IS NOT NULL AND cost_code_start <= cost_code_end)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_milestones_contract_id ON public.contract_milestones(contract_id);
+CREATE INDEX IF NOT EXISTS idx_contract_milestones_project_id ON public.contract_milestones(project_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_milestones_invoice_id
+  ON public.contract_milestones(invoice_id)
+  WHERE invoice_id IS NOT NULL;
+
+ALTER TABLE public.contract_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view milestones for their projects" ON public.contract_milestones
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = contract_milestones.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create milestones for their projects" ON public.contract_milestones
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = contract_milestones.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update milestones for their projects" ON public.contract_milestones
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = contract_milestones.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete milestones for their projects" ON public.contract_milestones
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = contract_milestones.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- =============================================================================
+-- STEP 2: Backfill existing contracts
+-- =============================================================================
+
+-- Down payments
+INSERT INTO public.contract_milestones (contract_id, project_id, sort_order, name, amount, is_down_payment)
+SELECT c.id, c.project_id, 0, 'Down payment', c.down_payment, true
+FROM public.contracts c
+WHERE COALESCE(c.down_payment, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM public.contract_milestones m WHERE m.contract_id = c.id);
+
+-- Payment schedule entries (no cost code range - ready whenever the contractor bills them)
+INSERT INTO public.contract_milestones (contract_id, project_id, sort_order, name, amount)
+SELECT c.id, c.project_id, entry.ordinality::INTEGER,
+       COALESCE(NULLIF(entry.value->>'milestone', ''), 'Milestone ' || entry.ordinality),
+       GREATEST(COALESCE(NULLIF(entry.value->>'amount', '')::NUMERIC, 0), 0)
+FROM public.contracts c
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(c.payment_schedule) = 'array' THEN c.payment_schedule ELSE '[]'::jsonb END
+) WITH ORDINALITY AS entry(value, ordinality)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.contract_milestones m
+  WHERE m.contract_id = c.id AND m.is_down_payment = false
+);
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON TABLE public.contract_milestones IS 'Contract payment schedule entries as records. Drive milestone invoices and track invoiced/paid state.';
+COMMENT ON COLUMN public.contract_milestones.is_down_payment IS 'True for the contract down payment (sort_order 0)';
+COMMENT ON COLUMN public.contract_milestones.cost_code_start IS 'First cost code (inclusive) whose tasks must be completed before this milestone can be invoiced. NULL = no task trigger.';
+COMMENT ON COLUMN public.contract_milestones.cost_code_end IS 'Last cost code (inclusive) of the trigger range';
+COMMENT ON COLUMN public.contract_milestones.invoice_id IS 'Invoice billing this milestone. Set = invoiced; paid once that invoice is paid.';
@@ -0,0 +1,68 @@
+-- Migration: Server-side Vector Search for the Task Library
+-- semanticSearch() used to pull up to 100 task_library rows with their full
+-- embeddings and rank them in JavaScript, silently missing better matches
+-- beyond those rows. match_task_library ranks in SQL with pgvector's cosine
+-- distance operator (<=>), which the HNSW index from migration 011 serves,
+-- and returns only the top-k rows with their similarity scores.
+--
+-- similarity = 1 - cosine distance, clamped to 0..1 (1 = identical).
+
+-- =============================================================================
+-- STEP 1: Similarity search function
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.match_task_library(
+  query_embedding vector(1536),
+  match_count INTEGER DEFAULT 5,
+  filter_cost_code TEXT DEFAULT NULL,
+  filter_region TEXT DEFAULT NULL,
+  min_similarity DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  cost_code TEXT,
+  description TEXT,
+  unit TEXT,
+  region TEXT,
+  unit_cost_low NUMERIC,
+  unit_cost_mid NUMERIC,
+  unit_cost_high NUMERIC,
+  labor_hours_per_unit NUMERIC,
+  material_cost_per_unit NUMERIC,
+  similarity DOUBLE PRECISION
+) AS $$
+  SELECT
+    t.id,
+    t.cost_code::TEXT,
+    t.description::TEXT,
+    t.unit::TEXT,
+    t.region::TEXT,
+    t.unit_cost_low::NUMERIC,
+    t.unit_cost_mid::NUMERIC,
+    t.unit_cost_high::NUMERIC,
+    t.labor_hours_per_unit::NUMERIC,
+    t.material_cost_per_unit::NUMERIC,
+    GREATEST(0, LEAST(1, 1 - (t.embedding <=> query_embedding)))::DOUBLE PRECISION AS similarity
+  FROM public.task_library t
+  WHERE t.embedding IS NOT NULL
+    AND (filter_cost_code IS NULL OR t.cost_code = filter_cost_code)
+    AND (filter_region IS NULL OR t.region = filter_region OR t.region IS NULL)
+    AND 1 - (t.embedding <=> query_embedding) >= min_similarity
+  -- Order by the raw distance so the planner can use the HNSW index
+  ORDER BY t.embedding <=> query_embedding
+  LIMIT GREATEST(match_count, 1);
+$$ LANGUAGE sql STABLE
+-- Filters are applied after the index scan; widen the candidate list so
+-- filtered searches still fill match_count
+SET hnsw.ef_search = 200;
+
+GRANT EXECUTE ON FUNCTION public.match_task_library(vector, INTEGER, TEXT, TEXT, DOUBLE PRECISION)
+  TO authenticated, service_role;
+
+-- =============================================================================
+-- STEP 2: Comments
+-- =============================================================================
+
+COMMENT ON FUNCTION public.match_task_library(vector, INTEGER, TEXT, TEXT, DOUBLE PRECISION) IS
+  'Top-k task_library rows by cosine similarity to query_embedding (HNSW-indexed). Optional cost code and region filters (region also matches NULL-region rows) and a minimum similarity (0-1).';
+COMMENT ON COLUMN public.task_library.embedding IS 'Task description embedding vector (1536 dimensions), searched via match_task_library()';
@@ -0,0 +1,30 @@
+-- Migration: Per-user Pricing Suggestions
+-- Lets a contractor see their own typical unit cost next to a line item's
+-- price ("your typical: $42.50/SF (n=7, ±12%)"), computed from committed
+-- pricing_events and corrected by line_item_actuals (lib/pricing/suggestions.ts).
+--
+-- Suggestions are display-only and OFF by default, preserving the Phase 1
+-- no-autofill rule; each user opts in via show_pricing_suggestions.
+
+-- =============================================================================
+-- STEP 1: Per-user opt-in
+-- =============================================================================
+
+ALTER TABLE public.user_profile_settings
+  ADD COLUMN IF NOT EXISTS show_pricing_suggestions BOOLEAN NOT NULL DEFAULT false;
+
+-- =============================================================================
+-- STEP 2: Index for the suggestion loader
+-- (user's active, non-superseded events, newest first)
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_pricing_events_user_active_created
+  ON public.pricing_events(user_id, created_at DESC)
+  WHERE superseded_at IS NULL;
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN public.user_profile_settings.show_pricing_suggestions IS
+'Show the user''s typical unit cost (from their committed prices) inline in the estimate table. Display-only - never auto-fills prices.';
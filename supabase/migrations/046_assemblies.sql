@@ -0,0 +1,156 @@
+-- Migration: Assemblies (kits)
+-- A user-defined bundle of tasks ("Full bathroom gut": demo, rough plumbing,
+-- drywall, tile floor, ...) that expands into several line items at once.
+--
+-- Each assembly item carries a quantity expression over the target room's
+-- measures (floor, wall, ceiling, perimeter, length, width, height, count -
+-- see lib/assemblies.ts), e.g. "floor * 1.1" or "roundup(wall / 32)".
+--
+-- Inserting an assembly into a room copies its items into
+-- estimate_line_items. The copies keep their expression and share an
+-- assembly_instance_id, so updateRoomDimensions() re-evaluates the whole
+-- group when the room's dimensions change (calc_source = 'room_dimensions').
+
+-- =============================================================================
+-- STEP 1: Assemblies
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.assemblies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS assemblies_user_name_unique
+  ON public.assemblies(user_id, lower(name));
+
+CREATE TRIGGER update_assemblies_updated_at
+  BEFORE UPDATE ON public.assemblies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.assemblies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own assemblies"
+  ON public.assemblies
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own assemblies"
+  ON public.assemblies
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own assemblies"
+  ON public.assemblies
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own assemblies"
+  ON public.assemblies
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- STEP 2: Assembly items
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.assembly_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assembly_id UUID NOT NULL REFERENCES public.assemblies(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  category TEXT,
+  cost_code TEXT,
+  unit TEXT,
+  quantity_expression TEXT NOT NULL DEFAULT 'count',
+  unit_cost NUMERIC(12,2) CHECK (unit_cost IS NULL OR unit_cost >= 0),
+  margin_percent NUMERIC(6,2) CHECK (margin_percent IS NULL OR margin_percent >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assembly_items_assembly_id
+  ON public.assembly_items(assembly_id, sort_order);
+
+ALTER TABLE public.assembly_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own assembly items"
+  ON public.assembly_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.assemblies
+      WHERE assemblies.id = assembly_items.assembly_id
+      AND assemblies.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert their own assembly items"
+  ON public.assembly_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.assemblies
+      WHERE assemblies.id = assembly_items.assembly_id
+      AND assemblies.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own assembly items"
+  ON public.assembly_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.assemblies
+      WHERE assemblies.id = assembly_items.assembly_id
+      AND assemblies.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own assembly items"
+  ON public.assembly_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.assemblies
+      WHERE assemblies.id = assembly_items.assembly_id
+      AND assemblies.user_id = auth.uid()
+    )
+  );
+
+-- =============================================================================
+-- STEP 3: Link line items to the assembly they came from
+-- =============================================================================
+
+ALTER TABLE public.estimate_line_items
+  ADD COLUMN IF NOT EXISTS assembly_id UUID REFERENCES public.assemblies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assembly_item_id UUID REFERENCES public.assembly_items(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assembly_instance_id UUID,
+  ADD COLUMN IF NOT EXISTS assembly_count NUMERIC(10,2),
+  ADD COLUMN IF NOT EXISTS quantity_expression TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_estimate_line_items_assembly_instance
+  ON public.estimate_line_items(assembly_instance_id)
+  WHERE assembly_instance_id IS NOT NULL;
+
+-- =============================================================================
+-- STEP 4: Comments
+-- =============================================================================
+
+COMMENT ON TABLE public.assemblies IS
+'User-defined kits that expand into several line items when inserted into a room.';
+
+COMMENT ON COLUMN public.assembly_items.quantity_expression IS
+'Quantity formula over room measures: floor, wall, ceiling, perimeter, length, width, height, count. Evaluated by lib/assemblies.ts.';
+
+COMMENT ON COLUMN public.assembly_items.unit_cost IS
+'The user''s own unit cost for this task, copied onto inserted line items. NULL leaves the line item unpriced.';
+
+COMMENT ON COLUMN public.estimate_line_items.assembly_instance_id IS
+'Groups the line items created by one assembly insertion so they can be updated or removed together.';
+
+COMMENT ON COLUMN public.estimate_line_items.assembly_count IS
+'Value of "count" in quantity_expression for this insertion (e.g. number of fixtures).';
+
+COMMENT ON COLUMN public.estimate_line_items.quantity_expression IS
+'Assembly quantity formula. When set and calc_source = room_dimensions, quantity is re-evaluated from it on room dimension changes instead of the area mapping.';
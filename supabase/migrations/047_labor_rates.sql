@@ -0,0 +1,94 @@
+-- Migration: Labor Hours and Crew Rates
+-- Lets a line item be costed from hours instead of opaque labor dollars:
+--
+--   labor_hours = quantity × labor_hours_per_unit × productivity_factor
+--   labor_cost  = labor_hours × burdened_hourly_rate
+--   direct_cost = labor_cost + material_cost + overhead_cost (unchanged rule)
+--
+-- labor_rates holds each user's crews per trade. labor_hours_per_unit is in
+-- worker-hours (the same unit as task_library.labor_hours_per_unit); crew
+-- size only turns hours into crew-days for scheduling. productivity_factor
+-- scales hours for a crew that runs slower (> 1) or faster (< 1) than the
+-- book rate.
+--
+-- Stored labor_hours totals per room / trade in the estimate and are the
+-- estimate side of the project_actuals.actual_labor_hours variance.
+
+-- =============================================================================
+-- STEP 1: Labor rates
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.labor_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  trade TEXT NOT NULL,
+  crew_name TEXT,
+  cost_code TEXT,
+  burdened_hourly_rate NUMERIC(10,2) NOT NULL CHECK (burdened_hourly_rate >= 0),
+  crew_size INTEGER NOT NULL DEFAULT 1 CHECK (crew_size >= 1),
+  productivity_factor NUMERIC(6,3) NOT NULL DEFAULT 1 CHECK (productivity_factor > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_labor_rates_user_id ON public.labor_rates(user_id);
+
+CREATE TRIGGER update_labor_rates_updated_at
+  BEFORE UPDATE ON public.labor_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.labor_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own labor rates"
+  ON public.labor_rates
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own labor rates"
+  ON public.labor_rates
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own labor rates"
+  ON public.labor_rates
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own labor rates"
+  ON public.labor_rates
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- STEP 2: Hours on line items
+-- =============================================================================
+
+ALTER TABLE public.estimate_line_items
+  ADD COLUMN IF NOT EXISTS labor_rate_id UUID REFERENCES public.labor_rates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS labor_hours_per_unit NUMERIC(10,4) CHECK (labor_hours_per_unit IS NULL OR labor_hours_per_unit >= 0),
+  ADD COLUMN IF NOT EXISTS labor_hours NUMERIC(12,2);
+
+CREATE INDEX IF NOT EXISTS idx_estimate_line_items_labor_rate_id
+  ON public.estimate_line_items(labor_rate_id)
+  WHERE labor_rate_id IS NOT NULL;
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON TABLE public.labor_rates IS
+'Per-user crew rates by trade, used to cost line items from labor hours.';
+
+COMMENT ON COLUMN public.labor_rates.burdened_hourly_rate IS
+'Cost of one worker-hour including wages, payroll taxes, insurance and benefits.';
+
+COMMENT ON COLUMN public.labor_rates.productivity_factor IS
+'Multiplier on book hours for this crew: 1 = standard, 1.2 = 20% slower, 0.9 = 10% faster.';
+
+COMMENT ON COLUMN public.estimate_line_items.labor_hours_per_unit IS
+'Worker-hours per unit. When set, labor_hours and (with a labor rate) labor_cost are derived from quantity.';
+
+COMMENT ON COLUMN public.estimate_line_items.labor_hours IS
+'Derived: quantity × labor_hours_per_unit × productivity_factor. Compared with actual labor hours at close-out.';
@@ -0,0 +1,61 @@
+-- Migration: Markup Stack on Margin Rules
+-- Turns user_margin_rules from a single flat margin into a markup stack:
+--
+--   sales_tax    = material_cost × sales_tax_percent        (materials only)
+--   base         = direct_cost + sales_tax
+--   overhead     = base × overhead_percent
+--   contingency  = base × contingency_percent
+--   profit       = (base + overhead + contingency) × margin_percent
+--   client_price = base + overhead + contingency + profit
+--
+-- margin_percent keeps its meaning (profit). Scopes are 'all', 'trade:<code>'
+-- and now 'project:<project_id>'. Each layer resolves independently from the
+-- most specific rule that sets it: project → trade → all → default. A NULL
+-- layer on a rule means "inherit", so margin_percent becomes nullable.
+--
+-- Line items keep a single margin_percent: the effective total markup over
+-- direct cost, so client_price = direct_cost × (1 + margin_percent / 100)
+-- still holds everywhere prices are summed (estimate, proposals, spec sheet).
+
+-- =============================================================================
+-- STEP 1: Markup layers
+-- =============================================================================
+
+ALTER TABLE public.user_margin_rules
+  ALTER COLUMN margin_percent DROP NOT NULL;
+
+ALTER TABLE public.user_margin_rules
+  ADD COLUMN IF NOT EXISTS overhead_percent NUMERIC CHECK (overhead_percent IS NULL OR (overhead_percent >= 0 AND overhead_percent <= 100)),
+  ADD COLUMN IF NOT EXISTS contingency_percent NUMERIC CHECK (contingency_percent IS NULL OR (contingency_percent >= 0 AND contingency_percent <= 100)),
+  ADD COLUMN IF NOT EXISTS sales_tax_percent NUMERIC CHECK (sales_tax_percent IS NULL OR (sales_tax_percent >= 0 AND sales_tax_percent <= 25));
+
+-- =============================================================================
+-- STEP 2: Scope format
+-- =============================================================================
+
+ALTER TABLE public.user_margin_rules
+  DROP CONSTRAINT IF EXISTS user_margin_rules_scope_format;
+
+ALTER TABLE public.user_margin_rules
+  ADD CONSTRAINT user_margin_rules_scope_format
+  CHECK (scope = 'all' OR scope LIKE 'trade:%' OR scope LIKE 'project:%')
+  NOT VALID;
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON TABLE public.user_margin_rules IS
+'User-defined markup stacks. Scope is "all" (global), "trade:CODE" or "project:ID". NULL layers inherit from the broader scope.';
+
+COMMENT ON COLUMN public.user_margin_rules.margin_percent IS
+'Profit %, applied on top of direct cost + sales tax + overhead + contingency.';
+
+COMMENT ON COLUMN public.user_margin_rules.overhead_percent IS
+'Overhead % of direct cost + sales tax.';
+
+COMMENT ON COLUMN public.user_margin_rules.contingency_percent IS
+'Contingency % of direct cost + sales tax.';
+
+COMMENT ON COLUMN public.user_margin_rules.sales_tax_percent IS
+'Sales tax % charged on material cost only.';
@@ -0,0 +1,19 @@
+-- Migration: Per-Project Cost Region
+-- Regional cost factors come from the bundled index in
+-- lib/pricing/regional-cost-index.ts (ZIP3 → metro, separate labor and
+-- material factors). A project's region is resolved from the ZIP in
+-- project_address unless cost_region overrides it.
+
+-- =============================================================================
+-- STEP 1: Override column
+-- =============================================================================
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS cost_region TEXT;
+
+-- =============================================================================
+-- STEP 2: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN public.projects.cost_region IS
+'Region key from the regional cost index (e.g. "seattle"). NULL = resolve from the project address ZIP, then the user''s region setting.';
@@ -0,0 +1,125 @@
+-- Migration: Streaming Voice Sessions
+-- A walkthrough recording is captured as a series of self-contained audio
+-- segments (~15s each). Each segment is uploaded to the audio-uploads bucket
+-- and transcribed as soon as it is recorded, so the contractor sees the
+-- transcript and extracted line items while still walking the job.
+--
+-- voice_sessions tracks one recording and how far the live parse has got
+-- (parsed_through_seq, current_room), so a session interrupted by a dropped
+-- connection or a closed tab can be resumed without re-parsing segments.
+-- voice_session_segments holds one row per uploaded segment; (session_id,
+-- seq) is unique so a retried upload is idempotent.
+--
+-- Audio path: audio-uploads/{user_id}/sessions/{session_id}/{seq}.{ext}
+
+-- =============================================================================
+-- STEP 1: Sessions
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.voice_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  estimate_id UUID REFERENCES public.estimates(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'recording'
+    CHECK (status IN ('recording', 'completed', 'abandoned')),
+  mime_type TEXT,
+  current_room TEXT,
+  parsed_through_seq INTEGER NOT NULL DEFAULT -1,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_sessions_user_id ON public.voice_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_voice_sessions_project_status
+  ON public.voice_sessions(project_id, status);
+
+CREATE TRIGGER update_voice_sessions_updated_at
+  BEFORE UPDATE ON public.voice_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.voice_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own voice sessions"
+  ON public.voice_sessions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own voice sessions"
+  ON public.voice_sessions
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own voice sessions"
+  ON public.voice_sessions
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own voice sessions"
+  ON public.voice_sessions
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- STEP 2: Segments
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.voice_session_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.voice_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL CHECK (seq >= 0),
+  storage_path TEXT NOT NULL,
+  duration_ms INTEGER,
+  transcript TEXT,
+  status TEXT NOT NULL DEFAULT 'uploaded'
+    CHECK (status IN ('uploaded', 'transcribed', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (session_id, seq)
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_session_segments_session_id
+  ON public.voice_session_segments(session_id);
+
+ALTER TABLE public.voice_session_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own voice segments"
+  ON public.voice_session_segments
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own voice segments"
+  ON public.voice_session_segments
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own voice segments"
+  ON public.voice_session_segments
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own voice segments"
+  ON public.voice_session_segments
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON TABLE public.voice_sessions IS
+'One streaming voice recording. Segments are transcribed and parsed into line items while recording; resumable until completed.';
+
+COMMENT ON COLUMN public.voice_sessions.parsed_through_seq IS
+'Highest segment seq whose transcript has been sent to the line item parser (-1 = none).';
+
+COMMENT ON COLUMN public.voice_sessions.current_room IS
+'Room the contractor was last describing; carried into the next incremental parse so unlabeled items land in the right room.';
+
+COMMENT ON TABLE public.voice_session_segments IS
+'Self-contained audio segment of a voice session with its transcript. (session_id, seq) is unique so retried uploads are idempotent.';
@@ -0,0 +1,53 @@
+-- Migration: Speaker-aware Walkthrough Transcripts
+-- Walkthrough recordings mix the contractor's scope notes with homeowner
+-- wishes and side chatter. The full recording is transcribed with speaker
+-- labels and timestamps (diarization) and the result is stored on its audio
+-- `uploads` row. The user names each speaker and marks which speakers are
+-- authoritative for scope; only their statements become line items.
+--
+-- Line items parsed from a diarized recording point back at the recording
+-- and the transcript segments that produced them, so the estimator can
+-- replay the exact audio snippet.
+--
+-- transcript_segments: [{ "id": "s0", "start": 0.0, "end": 4.2,
+--                         "speaker": "A", "text": "..." }]
+-- speaker_roles:       { "A": "contractor", "B": "homeowner" }
+
+-- =============================================================================
+-- STEP 1: Diarized transcript on audio uploads
+-- =============================================================================
+
+ALTER TABLE uploads
+  ADD COLUMN IF NOT EXISTS transcript TEXT,
+  ADD COLUMN IF NOT EXISTS transcript_segments JSONB,
+  ADD COLUMN IF NOT EXISTS transcript_status TEXT
+    CHECK (transcript_status IN ('processing', 'ready', 'failed')),
+  ADD COLUMN IF NOT EXISTS speaker_roles JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS authoritative_speakers TEXT[] NOT NULL DEFAULT '{}';
+
+-- =============================================================================
+-- STEP 2: Line item back-references to the transcript
+-- =============================================================================
+
+ALTER TABLE estimate_line_items
+  ADD COLUMN IF NOT EXISTS source_upload_id UUID REFERENCES uploads(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS source_segment_ids TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS source_start_sec NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS source_end_sec NUMERIC(10, 2);
+
+CREATE INDEX IF NOT EXISTS idx_estimate_line_items_source_upload_id
+  ON estimate_line_items(source_upload_id)
+  WHERE source_upload_id IS NOT NULL;
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN uploads.transcript_segments IS 'Diarized transcript: ordered segments with id, start/end seconds, speaker label and text';
+COMMENT ON COLUMN uploads.transcript_status IS 'Diarization progress for audio uploads; NULL when never requested';
+COMMENT ON COLUMN uploads.speaker_roles IS 'Speaker label -> role (contractor, homeowner, other) as tagged by the user';
+COMMENT ON COLUMN uploads.authoritative_speakers IS 'Speaker labels whose statements define scope when parsing line items';
+COMMENT ON COLUMN estimate_line_items.source_upload_id IS 'Recording the item was parsed from';
+COMMENT ON COLUMN estimate_line_items.source_segment_ids IS 'Transcript segments (uploads.transcript_segments ids) that produced the item';
+COMMENT ON COLUMN estimate_line_items.source_start_sec IS 'Start of the audio snippet for the item, in seconds into the recording';
+COMMENT ON COLUMN estimate_line_items.source_end_sec IS 'End of the audio snippet for the item, in seconds into the recording';
@@ -0,0 +1,70 @@
+-- Migration: Plan Parse Job Queue
+-- Blueprint parsing used to run classification, rendering and per-sheet
+-- extraction inside one request, so large plan sets hit the function time
+-- limit. plan_parses rows now act as durable jobs: the parse endpoint queues
+-- a row and a worker advances it in time-boxed runs, persisting each stage.
+--
+-- Lifecycle: uploaded → queued → processing → parsed / failed / cancelled
+--            → applied
+-- A worker that runs out of time puts the job back to 'queued' with its
+-- progress kept; a worker that dies leaves a stale heartbeat and the job is
+-- requeued by the next run.
+--
+-- progress: { "stage": "extracting", "files_total": 1, "files_prepared": 1,
+--             "pages_total": 42, "pages_classified": 20, "sheets_total": 6,
+--             "sheets_extracted": 3, "sheets_failed": 0, "rooms_found": 14,
+--             "warnings": [] }
+-- sheets:   [{ "id": "0:p4", "file": "...", "kind": "sheet", "pages": [4],
+--              "title": "A1.1 FIRST FLOOR PLAN", "status": "done",
+--              "rooms": [...], "error": null, ... }]
+
+-- =============================================================================
+-- STEP 1: Queue statuses
+-- =============================================================================
+
+ALTER TABLE plan_parses DROP CONSTRAINT IF EXISTS plan_parses_status_check;
+ALTER TABLE plan_parses
+  ADD CONSTRAINT plan_parses_status_check
+  CHECK (status IN ('uploaded', 'queued', 'processing', 'parsed', 'failed', 'cancelled', 'applied'));
+
+-- =============================================================================
+-- STEP 2: Job state
+-- =============================================================================
+
+ALTER TABLE plan_parses
+  ADD COLUMN IF NOT EXISTS progress JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS sheets JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_plan_parses_active
+  ON plan_parses(status, heartbeat_at)
+  WHERE status IN ('queued', 'processing');
+
+-- =============================================================================
+-- STEP 3: Realtime progress
+-- =============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'plan_parses'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE plan_parses;
+  END IF;
+END $$;
+
+-- =============================================================================
+-- STEP 4: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN plan_parses.status IS 'Lifecycle: uploaded → queued → processing → parsed/failed/cancelled → applied';
+COMMENT ON COLUMN plan_parses.progress IS 'Per-stage counters for the running job (pages classified, sheets extracted, rooms found)';
+COMMENT ON COLUMN plan_parses.sheets IS 'Extraction work items, one per sheet/image, with status, rooms and error; failed items can be retried';
+COMMENT ON COLUMN plan_parses.attempts IS 'Number of worker runs that have claimed the job';
+COMMENT ON COLUMN plan_parses.heartbeat_at IS 'Last time the worker reported progress; stale processing jobs are requeued';
+COMMENT ON COLUMN plan_parses.cancel_requested_at IS 'Set by the user to stop a running job at the next work item';
@@ -0,0 +1,75 @@
+-- Migration: Room Geometry From Vector Plans
+-- Room areas were computed only from length_ft × width_ft, which treats
+-- every room as a rectangle. Rooms measured from a vector plan's line work
+-- now keep their outline, polygon area and perimeter, and the area trigger
+-- uses those instead of the rectangle when area_source = 'geometry'.
+--
+-- polygon: [[x, y], ...] in feet, page bottom-left origin
+--
+-- Editing a geometry room's length or width switches it back to
+-- 'dimensions' (done by the app, see updateRoomDimensions).
+
+-- =============================================================================
+-- STEP 1: Geometry columns
+-- =============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS polygon JSONB,
+  ADD COLUMN IF NOT EXISTS polygon_area_sqft NUMERIC(10,2),
+  ADD COLUMN IF NOT EXISTS perimeter_ft NUMERIC(10,2),
+  ADD COLUMN IF NOT EXISTS area_source TEXT;
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS rooms_area_source_check;
+ALTER TABLE rooms
+  ADD CONSTRAINT rooms_area_source_check
+  CHECK (area_source IS NULL OR area_source IN ('dimensions', 'geometry'));
+
+-- =============================================================================
+-- STEP 2: Area trigger
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION compute_room_areas()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.area_source = 'geometry' AND NEW.polygon_area_sqft IS NOT NULL THEN
+    NEW.floor_area_sqft   := ROUND(NEW.polygon_area_sqft, 2);
+    NEW.ceiling_area_sqft := ROUND(NEW.polygon_area_sqft, 2);
+    IF NEW.perimeter_ft IS NOT NULL AND NEW.ceiling_height_ft IS NOT NULL THEN
+      NEW.wall_area_sqft := ROUND(NEW.perimeter_ft * NEW.ceiling_height_ft, 2);
+    ELSE
+      NEW.wall_area_sqft := NULL;
+    END IF;
+  ELSIF NEW.length_ft IS NOT NULL AND NEW.width_ft IS NOT NULL THEN
+    NEW.floor_area_sqft   := ROUND(NEW.length_ft * NEW.width_ft, 2);
+    NEW.ceiling_area_sqft := ROUND(NEW.length_ft * NEW.width_ft, 2);
+    IF NEW.ceiling_height_ft IS NOT NULL THEN
+      NEW.wall_area_sqft := ROUND(
+        2.0 * (NEW.length_ft + NEW.width_ft) * NEW.ceiling_height_ft, 2
+      );
+    ELSE
+      NEW.wall_area_sqft := NULL;
+    END IF;
+  ELSE
+    NEW.floor_area_sqft   := NULL;
+    NEW.wall_area_sqft    := NULL;
+    NEW.ceiling_area_sqft := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_compute_room_areas ON public.rooms;
+CREATE TRIGGER trg_compute_room_areas
+  BEFORE INSERT OR UPDATE OF length_ft, width_ft, ceiling_height_ft, polygon_area_sqft, perimeter_ft, area_source
+  ON public.rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION compute_room_areas();
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN rooms.polygon IS 'Room outline measured from vector plan geometry, [[x, y], ...] in feet';
+COMMENT ON COLUMN rooms.polygon_area_sqft IS 'Floor area of the measured outline';
+COMMENT ON COLUMN rooms.perimeter_ft IS 'Perimeter of the measured outline; wall area = perimeter × ceiling height';
+COMMENT ON COLUMN rooms.area_source IS 'What the computed areas come from: dimensions (length × width) or geometry (measured outline)';
@@ -0,0 +1,152 @@
+-- Migration: On-Plan Takeoff
+-- Estimators can measure plans themselves instead of relying on the
+-- dimensions the AI read. A plan page is rendered once to an image
+-- (uploads/{user_id}/takeoff/{upload_id}/page-NNN.png), calibrated by
+-- clicking two points of known length, and marked up with linear, area and
+-- count measurements.
+--
+-- takeoff_pages:        one row per (upload, page): rendered image and
+--                       calibration
+-- takeoff_measurements: the markup on a page; points are in the page
+--                       image's pixels, quantity is recomputed from them and
+--                       the page calibration
+--
+-- A measurement can be bound to a room and a line item. The line item's
+-- quantity is the sum of its bound measurements and calc_source = 'takeoff'
+-- until the estimator edits the quantity by hand.
+--
+-- calibration: { "points": [[x1, y1], [x2, y2]], "length_ft": 12.5 }
+-- points:      [[x, y], ...]
+
+-- =============================================================================
+-- STEP 1: Pages
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.takeoff_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  upload_id UUID NOT NULL REFERENCES public.uploads(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL CHECK (page_number >= 1),
+  page_count INTEGER NOT NULL DEFAULT 1,
+  image_path TEXT,
+  calibration JSONB,
+  feet_per_pixel NUMERIC(14,8),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (upload_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_takeoff_pages_project_id ON public.takeoff_pages(project_id);
+
+CREATE TRIGGER update_takeoff_pages_updated_at
+  BEFORE UPDATE ON public.takeoff_pages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.takeoff_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own takeoff pages"
+  ON public.takeoff_pages
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own takeoff pages"
+  ON public.takeoff_pages
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own takeoff pages"
+  ON public.takeoff_pages
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own takeoff pages"
+  ON public.takeoff_pages
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- STEP 2: Measurements
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.takeoff_measurements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID NOT NULL REFERENCES public.takeoff_pages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('linear', 'area', 'count')),
+  label TEXT,
+  points JSONB NOT NULL DEFAULT '[]'::jsonb,
+  quantity NUMERIC(12,2),
+  unit TEXT NOT NULL,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL,
+  line_item_id UUID REFERENCES public.estimate_line_items(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_takeoff_measurements_page_id ON public.takeoff_measurements(page_id);
+CREATE INDEX IF NOT EXISTS idx_takeoff_measurements_line_item_id
+  ON public.takeoff_measurements(line_item_id)
+  WHERE line_item_id IS NOT NULL;
+
+CREATE TRIGGER update_takeoff_measurements_updated_at
+  BEFORE UPDATE ON public.takeoff_measurements
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.takeoff_measurements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own takeoff measurements"
+  ON public.takeoff_measurements
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own takeoff measurements"
+  ON public.takeoff_measurements
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own takeoff measurements"
+  ON public.takeoff_measurements
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own takeoff measurements"
+  ON public.takeoff_measurements
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- STEP 3: Takeoff quantities on line items
+-- =============================================================================
+
+ALTER TABLE public.estimate_line_items DROP CONSTRAINT IF EXISTS chk_line_item_calc_source;
+ALTER TABLE public.estimate_line_items
+  ADD CONSTRAINT chk_line_item_calc_source
+  CHECK (calc_source IN ('manual', 'room_dimensions', 'takeoff'));
+
+-- =============================================================================
+-- STEP 4: Comments
+-- =============================================================================
+
+COMMENT ON TABLE public.takeoff_pages IS
+'A plan page prepared for on-plan takeoff: rendered image and scale calibration. One row per (upload, page).';
+
+COMMENT ON COLUMN public.takeoff_pages.calibration IS
+'Calibration line in image pixels and its real length: { points: [[x1, y1], [x2, y2]], length_ft }';
+
+COMMENT ON COLUMN public.takeoff_pages.feet_per_pixel IS
+'Scale derived from the calibration; NULL until the page is calibrated (count measurements still work).';
+
+COMMENT ON TABLE public.takeoff_measurements IS
+'Linear, area or count markup on a takeoff page, optionally bound to a room and a line item whose quantity it drives.';
+
+COMMENT ON COLUMN public.takeoff_measurements.quantity IS
+'LF, SQFT or EA computed from points and the page calibration; NULL for uncalibrated linear/area measurements.';
+
+COMMENT ON COLUMN public.estimate_line_items.calc_source IS
+'How quantity is set: manual, room_dimensions (derived from room areas) or takeoff (sum of bound plan measurements).';
@@ -0,0 +1,43 @@
+-- Migration: Plan Revisions
+-- Architects issue revised plan sets (Rev A, Rev B) mid-bid. A revision is
+-- parsed against an applied plan parse (its base) and only the differences
+-- are applied: rooms added, removed, renamed or resized and scaffold line
+-- items added, removed or changed. Rooms and line items the estimator edited
+-- since the base was applied keep their edits.
+--
+-- base_plan_parse_id: the applied parse a revision is compared against
+-- applied_snapshot:   what a parse put into the estimate, as applied (after
+--                     review edits), with the ids of the rows it created or
+--                     matched. Edits are found by comparing those rows with
+--                     the snapshot.
+--
+-- applied_snapshot: { "estimate_id": "...",
+--                     "rooms": [{ "room_id": "...", "name": "Kitchen",
+--                                 "level": "Level 1", "length_ft": 12, ... }],
+--                     "line_items": [{ "line_item_id": "...",
+--                                      "room_name": "Kitchen",
+--                                      "scaffold_description": "Tile floor",
+--                                      "description": "Tile floor — 12x24",
+--                                      "quantity": 140, "unit": "SQFT", ... }] }
+
+-- =============================================================================
+-- STEP 1: Revision link and applied snapshot
+-- =============================================================================
+
+ALTER TABLE plan_parses
+  ADD COLUMN IF NOT EXISTS base_plan_parse_id UUID REFERENCES plan_parses(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS applied_snapshot JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_plan_parses_base_plan_parse_id
+  ON plan_parses(base_plan_parse_id)
+  WHERE base_plan_parse_id IS NOT NULL;
+
+-- =============================================================================
+-- STEP 2: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN plan_parses.base_plan_parse_id IS
+'Applied parse this parse is a revision of; only the differences from it are applied.';
+
+COMMENT ON COLUMN plan_parses.applied_snapshot IS
+'Rooms and scaffold line items as applied to the estimate, with their row ids. Base for revision diffs and edit detection.';
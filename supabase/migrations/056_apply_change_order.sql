@@ -0,0 +1,116 @@
+-- Migration: Apply Change Orders Atomically
+-- Approving a change order used to write its line items, tasks and the
+-- contract total one request at a time, then flip the status. Two concurrent
+-- approvals (or a retry after a failure part way through) applied the delta
+-- twice. apply_change_order claims the change order (sent → approved) and
+-- applies the whole delta in one transaction: either all of it lands, once,
+-- or none of it does.
+
+-- =============================================================================
+-- STEP 1: Apply a change order
+-- =============================================================================
+
+-- Runs as the caller so RLS still applies. Raises if the change order is not
+-- awaiting approval (already approved, or never sent).
+CREATE OR REPLACE FUNCTION apply_change_order(p_change_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  co public.change_orders%ROWTYPE;
+  item RECORD;
+  job_started BOOLEAN;
+  new_line_item_id UUID;
+  task_id UUID;
+BEGIN
+  -- Claim: only the first approval of a sent change order gets past here
+  UPDATE public.change_orders
+  SET status = 'approved'
+  WHERE id = p_change_order_id
+    AND status = 'sent'
+  RETURNING * INTO co;
+
+  IF co.id IS NULL THEN
+    RAISE EXCEPTION 'Change order % is not awaiting approval', p_change_order_id;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.project_tasks WHERE project_id = co.project_id
+  ) INTO job_started;
+
+  FOR item IN
+    SELECT * FROM public.change_order_items
+    WHERE change_order_id = co.id
+    ORDER BY created_at, id
+  LOOP
+    IF item.change_type = 'add' THEN
+      INSERT INTO public.estimate_line_items (
+        estimate_id, project_id, description, cost_code, room_id, room_name,
+        unit, quantity, direct_cost, client_price, pricing_source, calc_source,
+        change_order_id
+      ) VALUES (
+        co.estimate_id, co.project_id, item.description, item.cost_code, item.room_id, item.room_name,
+        item.unit, item.quantity, item.direct_cost, item.client_price, 'manual', 'manual',
+        co.id
+      )
+      RETURNING id INTO new_line_item_id;
+
+      task_id := NULL;
+      IF job_started THEN
+        INSERT INTO public.project_tasks (
+          project_id, original_line_item_id, description, status, price, billed_amount
+        ) VALUES (
+          co.project_id, new_line_item_id, item.description, 'pending', COALESCE(item.client_price, 0), 0
+        )
+        RETURNING id INTO task_id;
+      END IF;
+
+      UPDATE public.change_order_items
+      SET line_item_id = new_line_item_id, project_task_id = task_id
+      WHERE id = item.id;
+
+    ELSIF item.change_type = 'modify' THEN
+      UPDATE public.estimate_line_items
+      SET description = item.description,
+          unit = item.unit,
+          quantity = item.quantity,
+          direct_cost = item.direct_cost,
+          client_price = item.client_price
+      WHERE id = item.line_item_id;
+
+      task_id := NULL;
+      UPDATE public.project_tasks
+      SET price = COALESCE(item.client_price, 0), description = item.description
+      WHERE project_id = co.project_id
+        AND original_line_item_id = item.line_item_id
+      RETURNING id INTO task_id;
+
+      IF task_id IS NOT NULL THEN
+        UPDATE public.change_order_items SET project_task_id = task_id WHERE id = item.id;
+      END IF;
+
+    ELSIF item.change_type = 'remove' THEN
+      -- Deactivate rather than delete so actuals and history stay linked
+      UPDATE public.estimate_line_items
+      SET is_active = false
+      WHERE id = item.line_item_id;
+
+      -- Nothing billed yet (checked before approval): drop the task from the job
+      DELETE FROM public.project_tasks
+      WHERE project_id = co.project_id
+        AND original_line_item_id = item.line_item_id;
+    END IF;
+  END LOOP;
+
+  -- Atomic increment: concurrent change orders on one contract don't race
+  IF co.contract_id IS NOT NULL THEN
+    UPDATE public.contracts
+    SET total_price = ROUND(COALESCE(total_price, 0) + co.total_delta, 2)
+    WHERE id = co.contract_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- STEP 2: Comments
+-- =============================================================================
+
+COMMENT ON FUNCTION apply_change_order(UUID) IS 'Claims a sent change order (sent → approved) and applies its line item, task and contract total delta in one transaction';
@@ -0,0 +1,21 @@
+-- Migration: Archive the Document the Client Signs
+-- The client signature only recorded a name, IP and timestamp; the PDF was
+-- first rendered at countersign, from whatever the contract and estimate
+-- said by then. The client's signing step now renders the document they are
+-- agreeing to, archives it as an immutable upload and pins its hash on the
+-- contract, so the terms they signed can be proven later.
+
+-- =============================================================================
+-- STEP 1: Client-signed copy columns
+-- =============================================================================
+
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS client_signed_upload_id UUID REFERENCES uploads(id),
+  ADD COLUMN IF NOT EXISTS client_signed_pdf_sha256 TEXT;
+
+-- =============================================================================
+-- STEP 2: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN public.contracts.client_signed_upload_id IS 'Archived copy of the contract as the client signed it (immutable uploads row)';
+COMMENT ON COLUMN public.contracts.client_signed_pdf_sha256 IS 'SHA-256 of the contract PDF the client signed, for tamper detection';
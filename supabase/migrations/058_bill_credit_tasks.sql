@@ -0,0 +1,57 @@
+-- Migration: Bill Credit Tasks
+-- Pay applications bill credit lines (tasks with a negative price, e.g. a
+-- deduct change order) towards their negative value, but the over-billing
+-- guard from 040 only allowed 0 <= billed_amount <= price, so no credit
+-- could ever be billed. Both the constraint and bill_project_task now bound
+-- billed_amount between 0 and the price on whichever side of zero it is.
+
+-- =============================================================================
+-- STEP 1: Sign-aware over-billing guard
+-- =============================================================================
+
+-- NOT VALID: enforced for every new write without rechecking legacy rows
+ALTER TABLE public.project_tasks
+  DROP CONSTRAINT IF EXISTS project_tasks_billed_within_price;
+
+ALTER TABLE public.project_tasks
+  ADD CONSTRAINT project_tasks_billed_within_price
+  CHECK (
+    (price >= 0 AND billed_amount >= 0 AND billed_amount <= price)
+    OR (price < 0 AND billed_amount <= 0 AND billed_amount >= price)
+  )
+  NOT VALID;
+
+-- =============================================================================
+-- STEP 2: Sign-aware billing RPC
+-- =============================================================================
+
+-- Atomically add to a task's billed_amount. Runs as the caller so RLS still
+-- applies; raises if the task would be billed past its price or back across
+-- zero. Credit tasks are billed with negative amounts.
+CREATE OR REPLACE FUNCTION bill_project_task(p_task_id UUID, p_amount NUMERIC)
+RETURNS NUMERIC AS $$
+DECLARE
+  new_billed NUMERIC;
+BEGIN
+  UPDATE public.project_tasks
+  SET billed_amount = billed_amount + p_amount
+  WHERE id = p_task_id
+    AND (
+      (price >= 0 AND billed_amount + p_amount >= 0 AND billed_amount + p_amount <= price)
+      OR (price < 0 AND billed_amount + p_amount <= 0 AND billed_amount + p_amount >= price)
+    )
+  RETURNING billed_amount INTO new_billed;
+
+  IF new_billed IS NULL THEN
+    RAISE EXCEPTION 'Billing % would exceed the remaining balance of task %', p_amount, p_task_id;
+  END IF;
+
+  RETURN new_billed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- STEP 3: Comments
+-- =============================================================================
+
+COMMENT ON FUNCTION bill_project_task(UUID, NUMERIC) IS 'Atomically adds to project_tasks.billed_amount, keeping it between 0 and the task price (negative for credit tasks)';
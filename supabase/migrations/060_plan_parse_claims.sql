@@ -0,0 +1,19 @@
+-- Migration: Plan Parse Job Claims
+-- A run that stalls past the stale-heartbeat window gets its job requeued and
+-- picked up by another run, but the stalled run kept saving over the new
+-- run's progress when it woke up. Each run now stamps the job with its own
+-- claim_id when it claims it, and only writes while that claim is still
+-- current and its heartbeat fresh.
+
+-- =============================================================================
+-- STEP 1: Claim owner
+-- =============================================================================
+
+ALTER TABLE plan_parses
+  ADD COLUMN IF NOT EXISTS claim_id UUID;
+
+-- =============================================================================
+-- STEP 2: Comments
+-- =============================================================================
+
+COMMENT ON COLUMN plan_parses.claim_id IS 'Run that currently owns the job; a run whose claim was taken over stops writing';
@@ -0,0 +1,243 @@
+/**
+ * Assembly quantity expressions (lib/assemblies.ts)
+ *
+ * Parser, evaluation and room measures: precedence, functions, aliases,
+ * rounding, missing measures, division by zero and malformed formulas; and
+ * pricing an evaluated quantity with the markup stack.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  assemblyItemStack,
+  dependsOnRoomDimensions,
+  evaluateQuantityExpression,
+  expressionMeasures,
+  priceAssemblyQuantity,
+  roomMeasures,
+  validateQuantityExpression,
+  type RoomMeasures,
+} from '@/lib/assemblies'
+import { DEFAULT_MARKUP_STACK } from '@/lib/pricing/markup'
+import { markupStack, measurableRoom } from './factories'
+
+const ROOM = measurableRoom()
+
+const MEASURES: RoomMeasures = roomMeasures(ROOM, 3)
+
+const EMPTY: RoomMeasures = roomMeasures(null)
+
+test.describe('evaluateQuantityExpression', () => {
+  test('evaluates measures with operator precedence and parentheses', () => {
+    expect(evaluateQuantityExpression('floor * 1.1', MEASURES)).toBe(132)
+    expect(evaluateQuantityExpression('perimeter - 3', MEASURES)).toBe(41)
+    expect(evaluateQuantityExpression('2 + 3 * 4', MEASURES)).toBe(14)
+    expect(evaluateQuantityExpression('(2 + 3) * 4', MEASURES)).toBe(20)
+    expect(evaluateQuantityExpression('count * 2', MEASURES)).toBe(6)
+    expect(evaluateQuantityExpression('8 / 2 / 2', MEASURES)).toBe(2)
+  })
+
+  test('supports functions', () => {
+    expect(evaluateQuantityExpression('roundup(wall / 32)', MEASURES)).toBe(11)
+    expect(evaluateQuantityExpression('rounddown(wall / 32)', MEASURES)).toBe(11)
+    expect(evaluateQuantityExpression('roundup(wall / 30)', MEASURES)).toBe(12)
+    expect(evaluateQuantityExpression('round(2.5)', MEASURES)).toBe(3)
+    expect(evaluateQuantityExpression('min(length, width, height)', MEASURES)).toBe(8)
+    expect(evaluateQuantityExpression('max(length, width)', MEASURES)).toBe(12)
+  })
+
+  test('roundup and rounddown ignore floating point noise', () => {
+    // 0.1 * 3 = 0.30000000000000004
+    expect(evaluateQuantityExpression('roundup(0.1 * 3 * 10)', MEASURES)).toBe(3)
+    // 0.7 * 10 = 6.999999999999999
+    expect(evaluateQuantityExpression('rounddown(0.7 * 10)', MEASURES)).toBe(7)
+  })
+
+  test('accepts rooms column names and any case', () => {
+    expect(evaluateQuantityExpression('floor_area_sqft + LENGTH_FT', MEASURES)).toBe(132)
+    expect(evaluateQuantityExpression('Floor', MEASURES)).toBe(120)
+  })
+
+  test('supports unary minus and plus', () => {
+    expect(evaluateQuantityExpression('floor - -10', MEASURES)).toBe(130)
+    expect(evaluateQuantityExpression('+5', MEASURES)).toBe(5)
+    expect(evaluateQuantityExpression('-(-5)', MEASURES)).toBe(5)
+  })
+
+  test('rounds to two decimals', () => {
+    expect(evaluateQuantityExpression('10 / 3', MEASURES)).toBe(3.33)
+    expect(evaluateQuantityExpression('.125 * 2', MEASURES)).toBe(0.25)
+  })
+
+  test('never returns a negative quantity', () => {
+    expect(evaluateQuantityExpression('perimeter - 100', MEASURES)).toBe(0)
+    expect(evaluateQuantityExpression('-5', MEASURES)).toBe(0)
+  })
+
+  test('zero is a valid quantity', () => {
+    expect(evaluateQuantityExpression('0', MEASURES)).toBe(0)
+    expect(evaluateQuantityExpression('count * 0', MEASURES)).toBe(0)
+  })
+
+  test('is null when a referenced measure is missing', () => {
+    expect(evaluateQuantityExpression('floor * 1.1', EMPTY)).toBeNull()
+    expect(evaluateQuantityExpression('max(floor, 1)', EMPTY)).toBeNull()
+    expect(evaluateQuantityExpression('-perimeter', EMPTY)).toBeNull()
+  })
+
+  test('count alone works without room dimensions', () => {
+    expect(evaluateQuantityExpression('count * 2', EMPTY)).toBe(2)
+  })
+
+  test('is null on division by zero', () => {
+    expect(evaluateQuantityExpression('floor / 0', MEASURES)).toBeNull()
+    expect(evaluateQuantityExpression('floor / (length - 12)', MEASURES)).toBeNull()
+  })
+
+  test('is null for malformed formulas', () => {
+    for (const expression of ['', '   ', 'floor *', '(floor', 'floor)', 'floor floor', '2 ** 3', 'sqrt(floor)', 'area', '1.2.3', 'floor; 1', 'max(1)', 'round(1, 2)', 'min()']) {
+      expect(evaluateQuantityExpression(expression, MEASURES), expression).toBeNull()
+    }
+  })
+})
+
+test.describe('validateQuantityExpression', () => {
+  test('is null for valid expressions', () => {
+    expect(validateQuantityExpression('roundup(wall / 32) + 2')).toBeNull()
+    expect(validateQuantityExpression('  floor  ')).toBeNull()
+  })
+
+  test('explains what is wrong', () => {
+    expect(validateQuantityExpression('')).toBe('Expression is empty')
+    expect(validateQuantityExpression('floor *')).toBe('Unexpected end of expression')
+    expect(validateQuantityExpression('(floor')).toBe('Expected ")" at end of expression')
+    expect(validateQuantityExpression('floor )')).toBe('Unexpected ")" at position 7')
+    expect(validateQuantityExpression('floor # 2')).toBe('Unexpected "#" at position 7')
+    expect(validateQuantityExpression('sqrt(floor)')).toBe('Unknown function "sqrt"')
+    expect(validateQuantityExpression('round(1, 2)')).toBe('round() takes 1 argument')
+    expect(validateQuantityExpression('max(1)')).toBe('max() takes 2 to 10 arguments')
+    expect(validateQuantityExpression('area')).toMatch(/^Unknown measure "area"\. Use floor, wall/)
+    expect(validateQuantityExpression('.')).toBe('Invalid number at position 1')
+  })
+
+  test('rejects overly long expressions', () => {
+    expect(validateQuantityExpression(Array(101).fill('1').join('+'))).toBe('Expression is longer than 200 characters')
+  })
+})
+
+test.describe('expressionMeasures', () => {
+  test('lists each referenced measure once, resolving aliases', () => {
+    expect(expressionMeasures('floor + floor_area_sqft * count')).toEqual(['floor', 'count'])
+  })
+
+  test('is empty for constants and invalid expressions', () => {
+    expect(expressionMeasures('4')).toEqual([])
+    expect(expressionMeasures('floor *')).toEqual([])
+  })
+
+  test('dependsOnRoomDimensions ignores count', () => {
+    expect(dependsOnRoomDimensions('count * 2')).toBe(false)
+    expect(dependsOnRoomDimensions('4')).toBe(false)
+    expect(dependsOnRoomDimensions('perimeter')).toBe(true)
+  })
+})
+
+test.describe('roomMeasures', () => {
+  test('derives perimeter from length and width', () => {
+    expect(MEASURES).toEqual({
+      floor: 120,
+      wall: 352,
+      ceiling: 120,
+      perimeter: 44,
+      length: 12,
+      width: 10,
+      height: 8,
+      count: 3,
+    })
+  })
+
+  test('uses the measured perimeter for geometry rooms only', () => {
+    expect(roomMeasures({ ...ROOM, perimeter_ft: 47.5, area_source: 'geometry' }).perimeter).toBe(47.5)
+    expect(roomMeasures({ ...ROOM, perimeter_ft: 47.5, area_source: 'manual' }).perimeter).toBe(44)
+  })
+
+  test('leaves unknown measures null', () => {
+    const measures = roomMeasures({ ...ROOM, width_ft: null, wall_area_sqft: null })
+
+    expect(measures.perimeter).toBeNull()
+    expect(measures.wall).toBeNull()
+    expect(measures.length).toBe(12)
+  })
+
+  test('defaults count to 1 and keeps zero', () => {
+    expect(roomMeasures(ROOM, null).count).toBe(1)
+    expect(roomMeasures(ROOM, Number.NaN).count).toBe(1)
+    expect(roomMeasures(ROOM, 0).count).toBe(0)
+  })
+})
+
+test.describe('priceAssemblyQuantity', () => {
+  test('prices quantity × unit cost with the stack', () => {
+    expect(priceAssemblyQuantity(12.5, 4, DEFAULT_MARKUP_STACK)).toEqual({
+      direct_cost: 50,
+      client_price: 65,
+      margin_percent: 30,
+    })
+  })
+
+  test('rounds direct cost and client price to cents', () => {
+    expect(priceAssemblyQuantity(3.33, 7, DEFAULT_MARKUP_STACK)).toEqual({
+      direct_cost: 23.31,
+      client_price: 30.3,
+      // Effective markup of the rounded price
+      margin_percent: 29.99,
+    })
+  })
+
+  test('stays unpriced without a quantity or unit cost', () => {
+    expect(priceAssemblyQuantity(null, 4, DEFAULT_MARKUP_STACK)).toEqual({ direct_cost: null, client_price: null })
+    expect(priceAssemblyQuantity(10, null, DEFAULT_MARKUP_STACK)).toEqual({ direct_cost: null, client_price: null })
+  })
+
+  test('a zero quantity is priced at zero', () => {
+    expect(priceAssemblyQuantity(0, 4, DEFAULT_MARKUP_STACK)).toEqual({
+      direct_cost: 0,
+      client_price: 0,
+      margin_percent: 30,
+    })
+  })
+
+  test('the item margin replaces only the profit layer', () => {
+    const stack = assemblyItemStack({ ...DEFAULT_MARKUP_STACK, overhead_percent: 10 }, 20)
+
+    expect(stack.profit_percent).toBe(20)
+    expect(stack.overhead_percent).toBe(10)
+    expect(priceAssemblyQuantity(10, 10, stack)).toEqual({
+      direct_cost: 100,
+      client_price: 132,
+      margin_percent: 32,
+    })
+  })
+
+  test('an item without a margin keeps the resolved stack', () => {
+    const stack = { ...DEFAULT_MARKUP_STACK, profit_percent: 15 }
+
+    expect(assemblyItemStack(stack, null)).toBe(stack)
+    expect(assemblyItemStack(stack, 0).profit_percent).toBe(0)
+  })
+
+  test('taxes the item material cost', () => {
+    expect(priceAssemblyQuantity(10, 10, markupStack(), { material_cost: 40 })).toEqual({
+      direct_cost: 100,
+      client_price: 142.42,
+      margin_percent: 42.42,
+    })
+  })
+
+  test('passes allowances through at cost', () => {
+    expect(priceAssemblyQuantity(10, 10, markupStack(), { material_cost: 40, is_allowance: true })).toEqual({
+      direct_cost: 100,
+      client_price: 100,
+      margin_percent: 0,
+    })
+  })
+})
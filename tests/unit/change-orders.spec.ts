@@ -0,0 +1,31 @@
+/**
+ * Change order lifecycle (types/db.ts)
+ *
+ * Change orders move draft -> sent -> approved, or are rejected before
+ * approval; approved and rejected are terminal.
+ */
+
+import { test, expect } from '@playwright/test'
+import { isValidChangeOrderTransition } from '@/types/db'
+
+test.describe('isValidChangeOrderTransition', () => {
+  test('sends drafts and approves sent change orders', () => {
+    expect(isValidChangeOrderTransition('draft', 'sent')).toBe(true)
+    expect(isValidChangeOrderTransition('sent', 'approved')).toBe(true)
+  })
+
+  test('does not approve a change order the client never received', () => {
+    expect(isValidChangeOrderTransition('draft', 'approved')).toBe(false)
+  })
+
+  test('rejects drafts and sent change orders', () => {
+    expect(isValidChangeOrderTransition('draft', 'rejected')).toBe(true)
+    expect(isValidChangeOrderTransition('sent', 'rejected')).toBe(true)
+  })
+
+  test('treats approved and rejected as terminal', () => {
+    expect(isValidChangeOrderTransition('approved', 'rejected')).toBe(false)
+    expect(isValidChangeOrderTransition('approved', 'draft')).toBe(false)
+    expect(isValidChangeOrderTransition('rejected', 'sent')).toBe(false)
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Contract payment milestones (lib/contract-milestones.ts)
+ *
+ * Cost code parsing and trigger ranges, milestone progress and status
+ * (pending, ready, invoiced, paid) and spreading a milestone amount over
+ * unbilled task balances without overbilling, including rounding.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  allocateMilestoneAmount,
+  deriveMilestoneStatus,
+  formatMilestoneTrigger,
+  getMilestoneProgress,
+  getMilestoneTasks,
+  parseCostCode,
+} from '@/lib/contract-milestones'
+import { milestoneTask } from './factories'
+
+const ROUGH_IN = { cost_code_start: 400, cost_code_end: 499 }
+const UNRANGED = { cost_code_start: null, cost_code_end: null }
+
+const TASKS = [
+  milestoneTask('demo', { cost_code: '201', status: 'completed' }),
+  milestoneTask('electrical', { cost_code: '402', status: 'completed' }),
+  milestoneTask('plumbing', { cost_code: '404.1', status: 'in_progress' }),
+  milestoneTask('untagged', { cost_code: null }),
+]
+
+test.describe('parseCostCode', () => {
+  test('reads the leading number of a code', () => {
+    expect(parseCostCode('402')).toBe(402)
+    expect(parseCostCode(' 402.1 ')).toBe(402)
+  })
+
+  test('is null for missing and non-numeric codes', () => {
+    expect(parseCostCode(null)).toBeNull()
+    expect(parseCostCode('')).toBeNull()
+    expect(parseCostCode('GC-1')).toBeNull()
+  })
+})
+
+test.describe('formatMilestoneTrigger', () => {
+  test('describes a range or a single code', () => {
+    expect(formatMilestoneTrigger(ROUGH_IN)).toBe('Cost codes 400-499')
+    expect(formatMilestoneTrigger({ cost_code_start: 520, cost_code_end: 520 })).toBe('Cost code 520')
+  })
+
+  test('is null without a complete range', () => {
+    expect(formatMilestoneTrigger(UNRANGED)).toBeNull()
+    expect(formatMilestoneTrigger({ cost_code_start: 400, cost_code_end: null })).toBeNull()
+  })
+})
+
+test.describe('getMilestoneTasks', () => {
+  test('picks tasks whose cost code is in the range, inclusive', () => {
+    expect(getMilestoneTasks(ROUGH_IN, TASKS).map(t => t.id)).toEqual(['electrical', 'plumbing'])
+    expect(getMilestoneTasks({ cost_code_start: 201, cost_code_end: 402 }, TASKS).map(t => t.id)).toEqual(['demo', 'electrical'])
+  })
+
+  test('returns every task for an unranged milestone', () => {
+    expect(getMilestoneTasks(UNRANGED, TASKS)).toHaveLength(4)
+  })
+})
+
+test.describe('getMilestoneProgress', () => {
+  test('counts completed trigger tasks', () => {
+    expect(getMilestoneProgress(ROUGH_IN, TASKS)).toEqual({ completed: 1, total: 2 })
+    expect(getMilestoneProgress({ cost_code_start: 900, cost_code_end: 999 }, TASKS)).toEqual({ completed: 0, total: 0 })
+  })
+})
+
+test.describe('deriveMilestoneStatus', () => {
+  test('is pending until every trigger task is completed', () => {
+    expect(deriveMilestoneStatus({ ...ROUGH_IN, invoice_id: null }, TASKS)).toBe('pending')
+
+    const done = TASKS.map(t => ({ ...t, status: 'completed' }))
+    expect(deriveMilestoneStatus({ ...ROUGH_IN, invoice_id: null }, done)).toBe('ready')
+  })
+
+  test('stays pending when the range matches no tasks', () => {
+    expect(deriveMilestoneStatus({ cost_code_start: 900, cost_code_end: 999, invoice_id: null }, TASKS)).toBe('pending')
+  })
+
+  test('is always ready without a range', () => {
+    expect(deriveMilestoneStatus({ ...UNRANGED, invoice_id: null }, [])).toBe('ready')
+  })
+
+  test('follows the linked invoice once invoiced', () => {
+    expect(deriveMilestoneStatus({ ...ROUGH_IN, invoice_id: 'inv-1' }, TASKS, 'sent')).toBe('invoiced')
+    expect(deriveMilestoneStatus({ ...ROUGH_IN, invoice_id: 'inv-1' }, TASKS, null)).toBe('invoiced')
+    expect(deriveMilestoneStatus({ ...ROUGH_IN, invoice_id: 'inv-1' }, TASKS, 'paid')).toBe('paid')
+  })
+})
+
+test.describe('allocateMilestoneAmount', () => {
+  test('spreads the amount in proportion to unbilled balances', () => {
+    const lines = allocateMilestoneAmount(1500, [
+      milestoneTask('a', { price: 1000, billed_amount: 0 }),
+      milestoneTask('b', { price: 3000, billed_amount: 1000 }),
+    ])
+
+    expect(lines).toEqual([
+      { taskId: 'a', amount: 500 },
+      { taskId: 'b', amount: 1000 },
+    ])
+  })
+
+  test('skips tasks that are fully billed', () => {
+    const lines = allocateMilestoneAmount(100, [
+      milestoneTask('billed', { price: 1000, billed_amount: 1000 }),
+      milestoneTask('open', { price: 1000, billed_amount: 200 }),
+    ])
+
+    expect(lines).toEqual([{ taskId: 'open', amount: 100 }])
+  })
+
+  test('never bills past the unbilled balance', () => {
+    const lines = allocateMilestoneAmount(5000, [
+      milestoneTask('a', { price: 1000, billed_amount: 250 }),
+      milestoneTask('b', { price: 500, billed_amount: 0 }),
+    ])
+
+    expect(lines).toEqual([
+      { taskId: 'a', amount: 750 },
+      { taskId: 'b', amount: 500 },
+    ])
+  })
+
+  test('lets the last line absorb rounding so lines add up to the amount', () => {
+    const lines = allocateMilestoneAmount(100, [
+      milestoneTask('a', { price: 100 }),
+      milestoneTask('b', { price: 100 }),
+      milestoneTask('c', { price: 100 }),
+    ])
+
+    expect(lines.map(l => l.amount)).toEqual([33.33, 33.33, 33.34])
+    expect(lines.reduce((sum, l) => sum + l.amount, 0)).toBeCloseTo(100, 2)
+  })
+
+  test('is empty for zero, negative or unbillable amounts', () => {
+    const tasks = [milestoneTask('a')]
+    expect(allocateMilestoneAmount(0, tasks)).toEqual([])
+    expect(allocateMilestoneAmount(-50, tasks)).toEqual([])
+    expect(allocateMilestoneAmount(100, [])).toEqual([])
+    expect(allocateMilestoneAmount(100, [milestoneTask('credit', { price: -200 })])).toEqual([])
+  })
+})
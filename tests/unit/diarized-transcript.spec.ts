@@ -0,0 +1,149 @@
+/**
+ * Diarized walkthrough transcripts (lib/diarized-transcript.ts)
+ *
+ * Storing provider segments, reading stored ones back, the default speaker
+ * roles, the transcript the parser sees (who is authoritative, segment ids
+ * to cite), replay ranges for cited segments and storage paths.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  defaultSpeakerRoles,
+  formatTimestamp,
+  formatTranscriptForParse,
+  readTranscriptSegments,
+  snippetRange,
+  speakerName,
+  speakersOf,
+  storagePathFromPublicUrl,
+  toRecordingTranscript,
+  toTranscriptSegments,
+} from '@/lib/diarized-transcript'
+import { transcriptSegment } from './factories'
+
+const SEGMENTS = [
+  transcriptSegment('s0', 'A', 'We are taking the kitchen down to the studs and tiling the floor.'),
+  transcriptSegment('s1', 'B', 'Can we keep the pantry?'),
+  transcriptSegment('s2', 'A', 'Yes, the pantry stays.'),
+  transcriptSegment('s3', 'C', 'I will need the panel schedule.'),
+]
+
+test.describe('toTranscriptSegments', () => {
+  test('numbers segments and labels unnamed speakers A', () => {
+    expect(toTranscriptSegments([
+      { start: 0, end: 4.2, text: 'Tile the floor', speaker: 'spk_1' },
+      { start: 4.2, end: 6, text: 'Keep the pantry', speaker: null },
+    ])).toEqual([
+      { id: 's0', start: 0, end: 4.2, speaker: 'spk_1', text: 'Tile the floor' },
+      { id: 's1', start: 4.2, end: 6, speaker: 'A', text: 'Keep the pantry' },
+    ])
+  })
+
+  test('clamps negative starts and never ends before the start', () => {
+    expect(toTranscriptSegments([{ start: -1, end: 3, text: 'Hello', speaker: null }])[0]).toMatchObject({ start: 0, end: 3 })
+    expect(toTranscriptSegments([{ start: 5, end: 2, text: 'Hello', speaker: null }])[0]).toMatchObject({ start: 5, end: 5 })
+  })
+})
+
+test.describe('readTranscriptSegments', () => {
+  test('reads stored segments and drops entries without an id or text', () => {
+    expect(readTranscriptSegments([
+      { id: 's0', start: '1.5', end: 3, speaker: 'B', text: 'Keep the pantry' },
+      { id: 's1', start: 3, end: 4, text: 'No speaker' },
+      { id: '', start: 0, end: 1, text: 'No id' },
+      { id: 's3', start: 0, end: 1, text: '' },
+      null,
+      'garbage',
+    ])).toEqual([
+      { id: 's0', start: 1.5, end: 3, speaker: 'B', text: 'Keep the pantry' },
+      { id: 's1', start: 3, end: 4, speaker: 'A', text: 'No speaker' },
+    ])
+  })
+
+  test('is empty for anything but an array', () => {
+    expect(readTranscriptSegments(null)).toEqual([])
+    expect(readTranscriptSegments({ segments: [] })).toEqual([])
+  })
+})
+
+test.describe('toRecordingTranscript', () => {
+  test('maps an upload row, defaulting missing tagging', () => {
+    expect(toRecordingTranscript({ id: 'u1', file_url: 'https://x/audio.m4a', transcript_segments: SEGMENTS })).toEqual({
+      uploadId: 'u1',
+      fileUrl: 'https://x/audio.m4a',
+      status: null,
+      segments: SEGMENTS,
+      speakerRoles: {},
+      authoritativeSpeakers: [],
+    })
+  })
+})
+
+test.describe('speaker roles', () => {
+  test('lists speakers in order of first appearance', () => {
+    expect(speakersOf(SEGMENTS)).toEqual(['A', 'B', 'C'])
+  })
+
+  test('guesses the most talkative speaker is the authoritative contractor', () => {
+    expect(defaultSpeakerRoles(SEGMENTS)).toEqual({
+      speakerRoles: { A: 'contractor', C: 'homeowner', B: 'other' },
+      authoritativeSpeakers: ['A'],
+    })
+  })
+
+  test('has no authoritative speaker without segments', () => {
+    expect(defaultSpeakerRoles([])).toEqual({ speakerRoles: {}, authoritativeSpeakers: [] })
+  })
+
+  test('names tagged speakers by role', () => {
+    expect(speakerName('A', { A: 'contractor' })).toBe('Contractor (A)')
+    expect(speakerName('B', { A: 'contractor' })).toBe('Speaker B')
+  })
+})
+
+test.describe('formatTimestamp', () => {
+  test('formats m:ss', () => {
+    expect(formatTimestamp(0)).toBe('0:00')
+    expect(formatTimestamp(65.9)).toBe('1:05')
+    expect(formatTimestamp(-3)).toBe('0:00')
+  })
+})
+
+test.describe('formatTranscriptForParse', () => {
+  test('marks each line with its segment id, time, speaker and authority', () => {
+    const text = formatTranscriptForParse(SEGMENTS.slice(0, 2), { A: 'contractor', B: 'homeowner' }, ['A'])
+
+    expect(text).toBe([
+      '[s0 0:00] Contractor (A), AUTHORITATIVE: We are taking the kitchen down to the studs and tiling the floor.',
+      '[s1 0:10] Homeowner (B), context only: Can we keep the pantry?',
+    ].join('\n'))
+  })
+})
+
+test.describe('snippetRange', () => {
+  test('covers the cited segments with padding', () => {
+    expect(snippetRange(SEGMENTS, ['s1', 's2'])).toEqual({ start: 9.5, end: 28.5 })
+  })
+
+  test('does not start before the recording', () => {
+    expect(snippetRange(SEGMENTS, ['s0'])).toEqual({ start: 0, end: 8.5 })
+  })
+
+  test('is null when no cited id is known', () => {
+    expect(snippetRange(SEGMENTS, ['s9'])).toBeNull()
+    expect(snippetRange(SEGMENTS, [])).toBeNull()
+  })
+})
+
+test.describe('storagePathFromPublicUrl', () => {
+  test('extracts the object path from a public URL', () => {
+    expect(storagePathFromPublicUrl(
+      'https://abc.supabase.co/storage/v1/object/public/uploads/user-1/audio/walk%20through.m4a?t=1',
+      'uploads'
+    )).toBe('user-1/audio/walk through.m4a')
+  })
+
+  test('is null for another bucket', () => {
+    expect(storagePathFromPublicUrl('https://abc.supabase.co/storage/v1/object/public/plans/a.pdf', 'uploads')).toBeNull()
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Estimate alternates (lib/estimate-alternates.ts)
+ *
+ * Base scope versus alternate items, inclusion under a selection, per
+ * alternate totals with shared items and the price of a selection, which
+ * charges a shared item once.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  computeAlternateTotals,
+  computeSelectionTotal,
+  isBaseItem,
+  isIncludedBySelection,
+} from '@/lib/estimate-alternates'
+import { snapshotItem } from './factories'
+
+const ITEMS = [
+  snapshotItem('base', { client_price: 1000 }),
+  snapshotItem('good', { client_price: 200, alternate_ids: ['good'] }),
+  snapshotItem('better', { client_price: 350.55, alternate_ids: ['better'] }),
+  snapshotItem('shared', { client_price: 100.1, alternate_ids: ['good', 'better'] }),
+]
+
+test.describe('isIncludedBySelection', () => {
+  test('always includes base scope', () => {
+    expect(isIncludedBySelection(null, [])).toBe(true)
+    expect(isIncludedBySelection(undefined, null)).toBe(true)
+    expect(isIncludedBySelection([], ['good'])).toBe(true)
+  })
+
+  test('includes an alternate item when any of its alternates is selected', () => {
+    expect(isIncludedBySelection(['good', 'better'], ['better'])).toBe(true)
+    expect(isIncludedBySelection(['good'], ['better'])).toBe(false)
+  })
+
+  test('leaves alternate items out when nothing is selected', () => {
+    expect(isIncludedBySelection(['good'], [])).toBe(false)
+    expect(isIncludedBySelection(['good'], null)).toBe(false)
+  })
+})
+
+test.describe('isBaseItem', () => {
+  test('is true only for items in no alternate', () => {
+    expect(isBaseItem(null)).toBe(true)
+    expect(isBaseItem([])).toBe(true)
+    expect(isBaseItem(['good'])).toBe(false)
+  })
+})
+
+test.describe('computeAlternateTotals', () => {
+  test('totals base scope and each alternate, counting shared items in both', () => {
+    const { base, byAlternate } = computeAlternateTotals(ITEMS)
+
+    expect(base).toBe(1000)
+    expect(byAlternate.get('good')).toBe(300.1)
+    expect(byAlternate.get('better')).toBe(450.65)
+  })
+
+  test('treats missing prices as zero', () => {
+    const { base, byAlternate } = computeAlternateTotals([
+      snapshotItem('base', { client_price: null }),
+      snapshotItem('alt', { client_price: null, alternate_ids: ['good'] }),
+    ])
+
+    expect(base).toBe(0)
+    expect(byAlternate.get('good')).toBe(0)
+  })
+
+  test('is empty for no items', () => {
+    const { base, byAlternate } = computeAlternateTotals([])
+    expect(base).toBe(0)
+    expect(byAlternate.size).toBe(0)
+  })
+})
+
+test.describe('computeSelectionTotal', () => {
+  test('is the base scope when nothing is selected', () => {
+    expect(computeSelectionTotal(ITEMS, [])).toBe(1000)
+    expect(computeSelectionTotal(ITEMS, null)).toBe(1000)
+  })
+
+  test('adds the selected alternates', () => {
+    expect(computeSelectionTotal(ITEMS, ['good'])).toBe(1300.1)
+    expect(computeSelectionTotal(ITEMS, ['better'])).toBe(1450.65)
+  })
+
+  test('charges an item shared by two selected alternates once', () => {
+    expect(computeSelectionTotal(ITEMS, ['good', 'better'])).toBe(1650.65)
+  })
+
+  test('ignores selections that match no alternate', () => {
+    expect(computeSelectionTotal(ITEMS, ['best'])).toBe(1000)
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * Estimate snapshot diff (lib/estimate-diff.ts)
+ *
+ * Effective-item filtering (inactive items, out-of-scope rooms, alternates),
+ * snapshot totals and line/room level differences, including empty
+ * snapshots, missing values and rounding.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  computeSnapshotTotals,
+  diffEstimateSnapshots,
+  getEffectiveLineItems,
+} from '@/lib/estimate-diff'
+import { estimateSnapshot, snapshotItem, snapshotRoom } from './factories'
+
+test.describe('getEffectiveLineItems', () => {
+  test('drops inactive items, out-of-scope rooms and unselected alternates', () => {
+    const rooms = [snapshotRoom('kitchen', 'Kitchen'), snapshotRoom('bath', 'Bath', { is_in_scope: false })]
+    const items = [
+      snapshotItem('base'),
+      snapshotItem('inactive', { is_active: false }),
+      snapshotItem('excluded', { room_id: 'bath' }),
+      snapshotItem('alt-a', { alternate_ids: ['a'] }),
+      snapshotItem('alt-b', { alternate_ids: ['b'] }),
+      snapshotItem('unassigned', { room_id: null }),
+    ]
+
+    const ids = getEffectiveLineItems(items, rooms, ['a']).map(i => i.id)
+    expect(ids).toEqual(['base', 'alt-a', 'unassigned'])
+  })
+
+  test('keeps items whose room is missing from the snapshot', () => {
+    expect(getEffectiveLineItems([snapshotItem('orphan', { room_id: 'gone' })], [])).toHaveLength(1)
+  })
+
+  test('is empty for an empty snapshot', () => {
+    expect(getEffectiveLineItems([], [])).toEqual([])
+  })
+})
+
+test.describe('computeSnapshotTotals', () => {
+  test('sums effective items by room, sorted by room name', () => {
+    const rooms = [snapshotRoom('kitchen', 'Kitchen'), snapshotRoom('bath', 'Bath')]
+    const totals = computeSnapshotTotals(
+      [snapshotItem('1'), snapshotItem('2', { room_id: 'bath', client_price: 50, direct_cost: 40 }), snapshotItem('3', { room_id: null, room_name: null })],
+      rooms
+    )
+
+    expect(totals.total).toBe(250)
+    expect(totals.direct_cost_total).toBe(200)
+    expect(totals.line_item_count).toBe(3)
+    expect(totals.by_room.map(r => [r.room_name, r.total])).toEqual([
+      ['Bath', 50],
+      ['Kitchen', 100],
+      ['Unassigned', 100],
+    ])
+  })
+
+  test('treats missing prices as zero', () => {
+    const totals = computeSnapshotTotals([snapshotItem('1', { client_price: null, direct_cost: null })], [snapshotRoom('kitchen', 'Kitchen')])
+
+    expect(totals.total).toBe(0)
+    expect(totals.direct_cost_total).toBe(0)
+  })
+
+  test('rounds to cents without floating point drift', () => {
+    const totals = computeSnapshotTotals(
+      [snapshotItem('1', { client_price: 0.1 }), snapshotItem('2', { client_price: 0.2 })],
+      [snapshotRoom('kitchen', 'Kitchen')]
+    )
+
+    expect(totals.total).toBe(0.3)
+  })
+
+  test('includes negative (credit) items', () => {
+    const totals = computeSnapshotTotals([snapshotItem('1'), snapshotItem('credit', { client_price: -30 })], [snapshotRoom('kitchen', 'Kitchen')])
+
+    expect(totals.total).toBe(70)
+  })
+
+  test('records the selection it was computed for', () => {
+    expect(computeSnapshotTotals([], [], ['a']).selected_alternate_ids).toEqual(['a'])
+    expect(computeSnapshotTotals([], []).selected_alternate_ids).toEqual([])
+  })
+})
+
+test.describe('diffEstimateSnapshots', () => {
+  test('reports nothing for identical snapshots', () => {
+    const before = estimateSnapshot([snapshotItem('1'), snapshotItem('2')])
+    const diff = diffEstimateSnapshots(before, estimateSnapshot([snapshotItem('1'), snapshotItem('2')]))
+
+    expect(diff.line_items).toEqual([])
+    expect(diff.rooms).toEqual([])
+    expect(diff.totals.total_delta).toBe(0)
+  })
+
+  test('reports nothing between two empty snapshots', () => {
+    const diff = diffEstimateSnapshots(estimateSnapshot([], []), estimateSnapshot([], []))
+
+    expect(diff.line_items).toEqual([])
+    expect(diff.totals.total_before).toBe(0)
+    expect(diff.totals.total_after).toBe(0)
+  })
+
+  test('classifies added, removed and changed items', () => {
+    const diff = diffEstimateSnapshots(
+      estimateSnapshot([snapshotItem('kept'), snapshotItem('edited'), snapshotItem('dropped')]),
+      estimateSnapshot([snapshotItem('kept'), snapshotItem('edited', { quantity: 3, client_price: 300 }), snapshotItem('new', { client_price: 40 })])
+    )
+
+    expect(diff.line_items.map(d => [d.line_item_id, d.change_type])).toEqual([
+      ['dropped', 'removed'],
+      ['edited', 'changed'],
+      ['new', 'added'],
+    ])
+
+    const edited = diff.line_items.find(d => d.line_item_id === 'edited')!
+    expect(edited.changed_fields).toEqual(['quantity', 'client_price'])
+    expect(edited.quantity_delta).toBe(2)
+    expect(edited.client_price_delta).toBe(200)
+
+    expect(diff.totals).toMatchObject({
+      total_before: 300,
+      total_after: 440,
+      total_delta: 140,
+      added_count: 1,
+      removed_count: 1,
+      changed_count: 1,
+    })
+  })
+
+  test('ignores sub-cent price noise', () => {
+    const diff = diffEstimateSnapshots(
+      estimateSnapshot([snapshotItem('1', { client_price: 100 })]),
+      estimateSnapshot([snapshotItem('1', { client_price: 100.001 })])
+    )
+
+    expect(diff.line_items).toEqual([])
+  })
+
+  test('treats null and empty text fields as equal', () => {
+    const diff = diffEstimateSnapshots(
+      estimateSnapshot([snapshotItem('1', { unit: null, description: null })]),
+      estimateSnapshot([snapshotItem('1', { unit: '', description: '' })])
+    )
+
+    expect(diff.line_items).toEqual([])
+  })
+
+  test('a room taken out of scope shows its items as removed', () => {
+    const diff = diffEstimateSnapshots(
+      estimateSnapshot([snapshotItem('1')]),
+      estimateSnapshot([snapshotItem('1')], [snapshotRoom('kitchen', 'Kitchen', { is_in_scope: false })])
+    )
+
+    expect(diff.line_items.map(d => d.change_type)).toEqual(['removed'])
+    expect(diff.rooms).toHaveLength(1)
+    expect(diff.rooms[0]).toMatchObject({ room_name: 'Kitchen', total_before: 100, total_after: 0, total_delta: -100 })
+  })
+
+  test('alternate items follow each snapshot\'s own selection', () => {
+    const items = [snapshotItem('base'), snapshotItem('alt', { alternate_ids: ['a'], client_price: 60 })]
+    const diff = diffEstimateSnapshots(
+      estimateSnapshot(items, undefined, []),
+      estimateSnapshot(items, undefined, ['a'])
+    )
+
+    expect(diff.line_items.map(d => [d.line_item_id, d.change_type])).toEqual([['alt', 'added']])
+    expect(diff.totals.total_delta).toBe(60)
+  })
+
+  test('an item moved between rooms is changed and counted against its new room', () => {
+    const rooms = [snapshotRoom('kitchen', 'Kitchen'), snapshotRoom('bath', 'Bath')]
+    const diff = diffEstimateSnapshots(
+      estimateSnapshot([snapshotItem('1')], rooms),
+      estimateSnapshot([snapshotItem('1', { room_id: 'bath' })], rooms)
+    )
+
+    expect(diff.line_items[0].changed_fields).toEqual(['room_name'])
+    const bath = diff.rooms.find(r => r.room_name === 'Bath')!
+    const kitchen = diff.rooms.find(r => r.room_name === 'Kitchen')!
+    expect(bath).toMatchObject({ changed_count: 1, total_delta: 100 })
+    expect(kitchen).toMatchObject({ changed_count: 0, total_delta: -100 })
+  })
+
+  test('uses the room name from the snapshot rooms over the item copy', () => {
+    const diff = diffEstimateSnapshots(
+      estimateSnapshot([], [snapshotRoom('kitchen', 'Kitchen')]),
+      estimateSnapshot([snapshotItem('1', { room_name: 'Old name' })], [snapshotRoom('kitchen', 'Main Kitchen')])
+    )
+
+    expect(diff.line_items[0].room_name).toBe('Main Kitchen')
+  })
+})
@@ -0,0 +1,36 @@
+/**
+ * Estimate lifecycle (types/db.ts)
+ *
+ * draft -> bid_final -> contract_signed -> completed, plus the revise path
+ * that reopens a finalized bid as a draft.
+ */
+
+import { test, expect } from '@playwright/test'
+import { isPricingTruthState, isValidEstimateTransition } from '@/types/db'
+
+test.describe('isValidEstimateTransition', () => {
+  test('moves forward one stage at a time', () => {
+    expect(isValidEstimateTransition('draft', 'bid_final')).toBe(true)
+    expect(isValidEstimateTransition('bid_final', 'contract_signed')).toBe(true)
+    expect(isValidEstimateTransition('contract_signed', 'completed')).toBe(true)
+    expect(isValidEstimateTransition('draft', 'contract_signed')).toBe(false)
+  })
+
+  test('reopens a finalized bid as a draft', () => {
+    expect(isValidEstimateTransition('bid_final', 'draft')).toBe(true)
+  })
+
+  test('does not reopen a signed or completed estimate', () => {
+    expect(isValidEstimateTransition('contract_signed', 'draft')).toBe(false)
+    expect(isValidEstimateTransition('completed', 'draft')).toBe(false)
+  })
+})
+
+test.describe('isPricingTruthState', () => {
+  test('treats finalized and signed pricing as truth, drafts as not', () => {
+    expect(isPricingTruthState('bid_final')).toBe(true)
+    expect(isPricingTruthState('contract_signed')).toBe(true)
+    expect(isPricingTruthState('draft')).toBe(false)
+    expect(isPricingTruthState('completed')).toBe(false)
+  })
+})
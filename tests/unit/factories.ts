@@ -0,0 +1,319 @@
+/**
+ * Row factories shared by the unit specs
+ *
+ * Each builds a valid row with neutral defaults; specs pass only the fields
+ * a test is about.
+ */
+
+import { computeSnapshotTotals, type EstimateSnapshotPayload } from '@/lib/estimate-diff'
+import type { PayApplicationTask } from '@/lib/pay-application'
+import type { InvoicePaymentState } from '@/lib/invoice-status'
+import type { MilestoneTask } from '@/lib/contract-milestones'
+import type { PricingEventRow, PricingObservation } from '@/lib/pricing/suggestions'
+import type { MeasurableRoom } from '@/lib/assemblies'
+import type { LaborRateTerms } from '@/lib/labor'
+import type { MarkupRule, MarkupStack } from '@/lib/pricing/markup'
+import type { PageTextItem } from '@/lib/plans/pdf-utils'
+import type { ExtractedRoom } from '@/lib/plans/schemas'
+import type {
+  CurrentLineItemValues,
+  CurrentRoomValues,
+  RevisionLineItem,
+  RevisionRoom,
+} from '@/lib/plans/revision-diff'
+import type {
+  DoorScheduleRow,
+  EstimateSnapshotLineItem,
+  EstimateSnapshotRoom,
+  PlanParseSnapshotLineItem,
+  PlanParseSnapshotRoom,
+  RoomFinishRow,
+  TranscriptSegment,
+  WindowScheduleRow,
+} from '@/types/db'
+
+// =============================================================================
+// Estimates
+// =============================================================================
+
+export function snapshotItem(id: string, overrides: Partial<EstimateSnapshotLineItem> = {}): EstimateSnapshotLineItem {
+  return {
+    id,
+    description: `Item ${id}`,
+    cost_code: null,
+    room_id: 'kitchen',
+    room_name: 'Kitchen',
+    unit: 'EA',
+    quantity: 1,
+    labor_cost: null,
+    material_cost: null,
+    direct_cost: 80,
+    margin_percent: 25,
+    client_price: 100,
+    is_allowance: false,
+    is_active: true,
+    ...overrides,
+  }
+}
+
+export function snapshotRoom(id: string, name: string, overrides: Partial<EstimateSnapshotRoom> = {}): EstimateSnapshotRoom {
+  return {
+    id,
+    name,
+    level: null,
+    is_in_scope: true,
+    floor_area_sqft: null,
+    wall_area_sqft: null,
+    ceiling_area_sqft: null,
+    ...overrides,
+  }
+}
+
+export function estimateSnapshot(
+  lineItems: EstimateSnapshotLineItem[],
+  rooms: EstimateSnapshotRoom[] = [snapshotRoom('kitchen', 'Kitchen')],
+  selectedAlternateIds: string[] = []
+): EstimateSnapshotPayload {
+  return {
+    line_items: lineItems,
+    rooms,
+    totals: computeSnapshotTotals(lineItems, rooms, selectedAlternateIds),
+  }
+}
+
+// =============================================================================
+// Billing
+// =============================================================================
+
+export function payApplicationTask(overrides: Partial<PayApplicationTask> = {}): PayApplicationTask {
+  return {
+    id: 'task-1',
+    description: 'Framing',
+    price: 1000,
+    billed_amount: 0,
+    ...overrides,
+  }
+}
+
+export function invoicePaymentState(overrides: Partial<InvoicePaymentState> = {}): InvoicePaymentState {
+  return {
+    status: 'sent',
+    total_amount: 1000,
+    amount_paid: 0,
+    due_date: '2026-03-31',
+    ...overrides,
+  }
+}
+
+export function milestoneTask(id: string, overrides: Partial<MilestoneTask> = {}): MilestoneTask {
+  return {
+    id,
+    status: 'pending',
+    price: 1000,
+    billed_amount: 0,
+    cost_code: null,
+    ...overrides,
+  }
+}
+
+// =============================================================================
+// Pricing
+// =============================================================================
+
+export function pricingObservation(
+  unitCost: number,
+  observedAt: string,
+  overrides: Partial<PricingObservation> = {}
+): PricingObservation {
+  return {
+    lineItemId: null,
+    unitCost,
+    observedAt,
+    stage: 'contract_signed',
+    actualUnitCost: null,
+    ...overrides,
+  }
+}
+
+/** Tile floor priced at 12/SF on a signed contract */
+export function pricingEvent(overrides: Partial<PricingEventRow> = {}): PricingEventRow {
+  return {
+    created_at: '2026-06-01T00:00:00Z',
+    line_item_id: null,
+    unit: 'SF',
+    final_unit_cost: 12,
+    superseded_at: null,
+    meta: { costCode: '728', description: 'Tile floor', stage: 'contract_signed' },
+    ...overrides,
+  }
+}
+
+/** 12' × 10' room with 8' ceilings */
+export function measurableRoom(overrides: Partial<MeasurableRoom> = {}): MeasurableRoom {
+  return {
+    length_ft: 12,
+    width_ft: 10,
+    ceiling_height_ft: 8,
+    floor_area_sqft: 120,
+    wall_area_sqft: 352,
+    ceiling_area_sqft: 120,
+    ...overrides,
+  }
+}
+
+export function laborRate(overrides: Partial<LaborRateTerms> = {}): LaborRateTerms {
+  return {
+    burdened_hourly_rate: 60,
+    crew_size: 1,
+    productivity_factor: 1,
+    ...overrides,
+  }
+}
+
+export function markupRule(scope: string, overrides: Partial<MarkupRule> = {}): MarkupRule {
+  return {
+    scope,
+    margin_percent: null,
+    overhead_percent: null,
+    contingency_percent: null,
+    sales_tax_percent: null,
+    ...overrides,
+  }
+}
+
+export function markupStack(overrides: Partial<MarkupStack> = {}): MarkupStack {
+  return {
+    overhead_percent: 10,
+    contingency_percent: 5,
+    profit_percent: 20,
+    sales_tax_percent: 8,
+    ...overrides,
+  }
+}
+
+export interface LibraryTaskCosts {
+  unit_cost_low: number | null
+  unit_cost_mid: number | null
+  unit_cost_high: number | null
+  material_cost_per_unit: number | null
+}
+
+export function libraryTaskCosts(overrides: Partial<LibraryTaskCosts> = {}): LibraryTaskCosts {
+  return {
+    unit_cost_low: 80,
+    unit_cost_mid: 100,
+    unit_cost_high: 120,
+    material_cost_per_unit: 40,
+    ...overrides,
+  }
+}
+
+// =============================================================================
+// Recordings
+// =============================================================================
+
+export function transcriptSegment(
+  id: string,
+  speaker: string,
+  text: string,
+  overrides: Partial<TranscriptSegment> = {}
+): TranscriptSegment {
+  const index = Number(id.replace(/\D/g, '')) || 0
+  return { id, start: index * 10, end: index * 10 + 8, speaker, text, ...overrides }
+}
+
+// =============================================================================
+// Plans
+// =============================================================================
+
+export function windowScheduleRow(mark: string, overrides: Partial<WindowScheduleRow> = {}): WindowScheduleRow {
+  return { id: `w-${mark}`, mark, type: null, size: null, quantity: 1, page: 1, ...overrides }
+}
+
+export function doorScheduleRow(mark: string, overrides: Partial<DoorScheduleRow> = {}): DoorScheduleRow {
+  return { id: `d-${mark}`, mark, type: null, size: null, hardware: null, quantity: 1, page: 1, ...overrides }
+}
+
+export function roomFinishRow(room: string, overrides: Partial<RoomFinishRow> = {}): RoomFinishRow {
+  return { id: `f-${room}`, room, floor: null, base: null, wall: null, page: 1, ...overrides }
+}
+
+export function pageText(str: string, x: number, y: number, width = str.length * 5): PageTextItem {
+  return { str, x, y, width, height: 8 }
+}
+
+export function extractedRoom(name: string, overrides: Partial<ExtractedRoom> = {}): ExtractedRoom {
+  return { name, confidence: 50, ...overrides }
+}
+
+export function revisionRoom(name: string, overrides: Partial<RevisionRoom> = {}): RevisionRoom {
+  return {
+    name,
+    level: 'Level 1',
+    type: null,
+    area_sqft: null,
+    length_ft: null,
+    width_ft: null,
+    ceiling_height_ft: null,
+    perimeter_ft: null,
+    polygon: null,
+    area_source: null,
+    ...overrides,
+  }
+}
+
+export function baseRoom(name: string, overrides: Partial<PlanParseSnapshotRoom> = {}): PlanParseSnapshotRoom {
+  return { room_id: `room-${name}`, ...revisionRoom(name), included: true, ...overrides }
+}
+
+export function revisionItem(roomName: string, description: string, overrides: Partial<RevisionLineItem> = {}): RevisionLineItem {
+  return {
+    room_name: roomName,
+    scaffold_description: description,
+    description,
+    category: 'Other',
+    cost_code: '999',
+    quantity: 1,
+    unit: 'EA',
+    ...overrides,
+  }
+}
+
+export function baseItem(
+  roomName: string,
+  description: string,
+  overrides: Partial<PlanParseSnapshotLineItem> = {}
+): PlanParseSnapshotLineItem {
+  return {
+    line_item_id: `li-${description}`,
+    ...revisionItem(roomName, description),
+    calc_source: 'manual',
+    ...overrides,
+  }
+}
+
+export function currentRoom(room: PlanParseSnapshotRoom, overrides: Partial<CurrentRoomValues> = {}): CurrentRoomValues {
+  return {
+    name: room.name,
+    level: room.level,
+    length_ft: room.length_ft,
+    width_ft: room.width_ft,
+    ceiling_height_ft: room.ceiling_height_ft,
+    area_sqft: room.area_sqft,
+    is_in_scope: true,
+    ...overrides,
+  }
+}
+
+export function currentItem(item: PlanParseSnapshotLineItem, overrides: Partial<CurrentLineItemValues> = {}): CurrentLineItemValues {
+  return {
+    estimate_id: 'est-1',
+    description: item.description,
+    quantity: item.quantity,
+    unit: item.unit,
+    calc_source: item.calc_source,
+    is_active: true,
+    direct_cost: null,
+    ...overrides,
+  }
+}
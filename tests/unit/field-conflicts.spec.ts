@@ -0,0 +1,102 @@
+/**
+ * Field-level conflict detection (lib/field-conflicts.ts)
+ *
+ * Replaying an offline edit: a field conflicts only when the server changed
+ * it since the client saw it and to a different value than the client's.
+ * Covers the loose value comparison (blank vs zero, numeric strings, JSON
+ * values) and finding the fields an edit actually changed.
+ */
+
+import { test, expect } from '@playwright/test'
+import { changedFields, findFieldConflicts, sameFieldValue } from '@/lib/field-conflicts'
+
+test.describe('sameFieldValue', () => {
+  test('treats null, undefined and empty string as the same blank', () => {
+    expect(sameFieldValue(null, undefined)).toBe(true)
+    expect(sameFieldValue('', null)).toBe(true)
+  })
+
+  test('compares numbers and numeric strings to the cent', () => {
+    expect(sameFieldValue(12.5, '12.50')).toBe(true)
+    expect(sameFieldValue('100', 100.004)).toBe(true)
+    expect(sameFieldValue(100, 100.01)).toBe(false)
+  })
+
+  test('treats a blank cost as zero', () => {
+    expect(sameFieldValue(null, 0)).toBe(true)
+    expect(sameFieldValue('0', undefined)).toBe(true)
+    expect(sameFieldValue(null, 5)).toBe(false)
+  })
+
+  test('compares text exactly', () => {
+    expect(sameFieldValue('Tile floor', 'Tile floor')).toBe(true)
+    expect(sameFieldValue('Tile floor', 'tile floor')).toBe(false)
+    expect(sameFieldValue('', 'Tile floor')).toBe(false)
+  })
+
+  test('compares arrays and objects by value', () => {
+    expect(sameFieldValue(['a', 'b'], ['a', 'b'])).toBe(true)
+    expect(sameFieldValue(['a', 'b'], ['b', 'a'])).toBe(false)
+    expect(sameFieldValue({ width: 10 }, { width: 10 })).toBe(true)
+    expect(sameFieldValue(null, [])).toBe(false)
+  })
+})
+
+test.describe('findFieldConflicts', () => {
+  const SAW = { quantity: 10, description: 'Tile floor', notes: null }
+
+  test('finds nothing when the server still has what the client saw', () => {
+    expect(findFieldConflicts({ ...SAW, unit: 'SF' }, SAW, { ...SAW, quantity: 12 })).toEqual([])
+  })
+
+  test('reports a field both sides changed to different values', () => {
+    const conflicts = findFieldConflicts(
+      { quantity: 14, description: 'Tile floor', notes: null },
+      SAW,
+      { quantity: 12, description: 'Tile floor', notes: null }
+    )
+
+    expect(conflicts).toEqual([{ field: 'quantity', expected: 10, server: 14, mine: 12 }])
+  })
+
+  test('does not report a field both sides changed to the same value', () => {
+    expect(findFieldConflicts({ ...SAW, quantity: '12.00' }, SAW, { ...SAW, quantity: 12 })).toEqual([])
+  })
+
+  test('keeps server changes to fields the client did not send', () => {
+    expect(findFieldConflicts(
+      { quantity: 10, description: 'Porcelain tile floor', notes: 'Per homeowner' },
+      { quantity: 10 },
+      { quantity: 12 }
+    )).toEqual([])
+  })
+
+  test('reports each conflicting field, including one the server cleared', () => {
+    const conflicts = findFieldConflicts(
+      { quantity: 14, description: null, notes: null },
+      SAW,
+      { quantity: 12, description: 'Tile floor - herringbone', notes: null }
+    )
+
+    expect(conflicts.map(c => c.field)).toEqual(['quantity', 'description'])
+    expect(conflicts[1]).toEqual({
+      field: 'description',
+      expected: 'Tile floor',
+      server: null,
+      mine: 'Tile floor - herringbone',
+    })
+  })
+})
+
+test.describe('changedFields', () => {
+  test('lists the fields that differ from the base copy', () => {
+    const base = { quantity: 10, unit_cost: 12.5, description: 'Tile floor', notes: null }
+    const next = { quantity: 12, unit_cost: '12.50', description: 'Tile floor', notes: '' }
+
+    expect(changedFields<Record<string, unknown>>(base, next)).toEqual(['quantity'])
+  })
+
+  test('counts fields missing from the base copy as changed', () => {
+    expect(changedFields<Record<string, unknown>>({}, { quantity: 10, notes: null })).toEqual(['quantity'])
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * Vector plan geometry takeoff (lib/plans/geometry.ts)
+ *
+ * Polygon area and perimeter (empty and degenerate polygons, orientation),
+ * scale notation and scale bar detection, and measuring rooms from a small
+ * synthetic plan: rectangular and L-shaped rooms, rooms that can't be
+ * measured and the fallbacks to plan dimensions.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  detectDrawingScale,
+  measureRoomsFromGeometry,
+  parseScaleNotation,
+  polygonArea,
+  polygonPerimeter,
+  type Point,
+} from '@/lib/plans/geometry'
+import type { PageGeometry } from '@/lib/plans/pdf-utils'
+import { extractedRoom, pageText } from './factories'
+
+/** 1/4" = 1'-0": 18 points per foot */
+const PT_PER_FT = 18
+
+/** A closed outline (in feet) drawn as one-foot wall segments, in points */
+function walls(outline: Point[], skipEdge?: number): PageGeometry['segments'] {
+  const segments: PageGeometry['segments'] = []
+  outline.forEach(([x1, y1], i) => {
+    if (i === skipEdge) return
+    const [x2, y2] = outline[(i + 1) % outline.length]
+    const steps = Math.max(1, Math.round(Math.hypot(x2 - x1, y2 - y1)))
+    for (let s = 0; s < steps; s++) {
+      segments.push([
+        (x1 + ((x2 - x1) * s) / steps) * PT_PER_FT,
+        (y1 + ((y2 - y1) * s) / steps) * PT_PER_FT,
+        (x1 + ((x2 - x1) * (s + 1)) / steps) * PT_PER_FT,
+        (y1 + ((y2 - y1) * (s + 1)) / steps) * PT_PER_FT,
+      ])
+    }
+  })
+  return segments
+}
+
+/** 12' × 10' kitchen */
+const KITCHEN: Point[] = [[5, 5], [17, 5], [17, 15], [5, 15]]
+
+/** L-shaped dining room: 12' × 16' less a 6' × 8' notch = 144 sq ft, 56' around */
+const DINING: Point[] = [[19, 5], [31, 5], [31, 13], [25, 13], [25, 21], [19, 21]]
+
+function plan(overrides: Partial<PageGeometry> = {}, skipKitchenEdge?: number): PageGeometry {
+  return {
+    pageNumber: 2,
+    width: 612,
+    height: 792,
+    segments: [...walls(KITCHEN, skipKitchenEdge), ...walls(DINING)],
+    textItems: [
+      pageText('KITCHEN', 11 * PT_PER_FT - 17.5, 10 * PT_PER_FT - 4, 35),
+      pageText('DINING', 25 * PT_PER_FT - 15, 9 * PT_PER_FT - 4, 30),
+      pageText('FIRST FLOOR PLAN', 60, 40),
+      pageText('1/4" = 1\'-0"', 60, 28),
+    ],
+    truncated: false,
+    ...overrides,
+  }
+}
+
+const ROOMS = [
+  extractedRoom('Kitchen', { length_ft: 12, width_ft: 10 }),
+  extractedRoom('Dining Room', { area_sqft: 150 }),
+]
+
+test.describe('polygonArea', () => {
+  test('is zero for empty and degenerate polygons', () => {
+    expect(polygonArea([])).toBe(0)
+    expect(polygonArea([[3, 4]])).toBe(0)
+    expect(polygonArea([[0, 0], [3, 4]])).toBe(0)
+    expect(polygonArea([[0, 0], [1, 1], [2, 2]])).toBe(0)
+  })
+
+  test('is signed by orientation', () => {
+    const square: Point[] = [[0, 0], [4, 0], [4, 4], [0, 4]]
+
+    expect(polygonArea(square)).toBe(16)
+    expect(polygonArea([...square].reverse())).toBe(-16)
+  })
+
+  test('measures concave outlines', () => {
+    expect(polygonArea(DINING)).toBe(144)
+  })
+})
+
+test.describe('polygonPerimeter', () => {
+  test('is zero for empty and single-point polygons', () => {
+    expect(polygonPerimeter([])).toBe(0)
+    expect(polygonPerimeter([[3, 4]])).toBe(0)
+  })
+
+  test('closes the outline', () => {
+    expect(polygonPerimeter([[0, 0], [3, 4]])).toBe(10)
+    expect(polygonPerimeter(KITCHEN)).toBe(44)
+    expect(polygonPerimeter(DINING)).toBe(56)
+  })
+})
+
+test.describe('parseScaleNotation', () => {
+  test('reads architectural scales', () => {
+    expect(parseScaleNotation('SCALE: 1/4" = 1\'-0"')).toMatchObject({ feetPerPoint: 1 / PT_PER_FT, source: 'notation' })
+    expect(parseScaleNotation('3/16"=1\'-0"')!.feetPerPoint).toBeCloseTo(1 / 13.5, 10)
+    expect(parseScaleNotation('1 1/2" = 1\'-0"')!.feetPerPoint).toBeCloseTo(1 / 108, 10)
+    expect(parseScaleNotation('1" = 20\'')!.feetPerPoint).toBeCloseTo(20 / 72, 10)
+  })
+
+  test('reads ratio scales', () => {
+    expect(parseScaleNotation('SCALE 1:50')).toMatchObject({ feetPerPoint: 50 / 72 / 12, label: '1:50' })
+  })
+
+  test('is null for text that is not a scale or not to scale', () => {
+    expect(parseScaleNotation('')).toBeNull()
+    expect(parseScaleNotation('KITCHEN 12\'-0" x 14\'-0"')).toBeNull()
+    expect(parseScaleNotation('SCALE: NTS')).toBeNull()
+    expect(parseScaleNotation('1/4" = 1\'-0" (NOT TO SCALE)')).toBeNull()
+    expect(parseScaleNotation('0" = 1\'-0"')).toBeNull()
+  })
+})
+
+test.describe('detectDrawingScale', () => {
+  test('prefers the notation nearest a plan title', () => {
+    const geometry = plan({
+      textItems: [
+        pageText('FLOOR PLAN', 60, 40),
+        pageText('1/4" = 1\'-0"', 60, 28),
+        pageText('WALL DETAIL', 500, 700),
+        pageText('1/2" = 1\'-0"', 500, 688),
+      ],
+    })
+
+    expect(detectDrawingScale(geometry, '')!.label).toBe('1/4" = 1\'-0"')
+  })
+
+  test('ignores scales that make the page implausibly small or large', () => {
+    // 1" = 1' on a letter sheet is 8.5 ft wide
+    expect(detectDrawingScale(plan({ textItems: [pageText('1" = 1\'-0"', 60, 28)] }), '')).toBeNull()
+  })
+
+  test('falls back to the page text when the notation is split across runs', () => {
+    const geometry = plan({ textItems: [pageText('SCALE: 1/4"', 60, 28), pageText('= 1\'-0"', 120, 28)] })
+
+    expect(detectDrawingScale(geometry, 'SCALE: 1/4" = 1\'-0"')!.feetPerPoint).toBe(1 / PT_PER_FT)
+  })
+
+  test('reads a scale bar', () => {
+    const geometry = plan({
+      textItems: [pageText('0', 100, 50, 0), pageText('4', 172, 50, 0), pageText('8', 244, 50, 0), pageText('16', 388, 50, 0)],
+    })
+
+    expect(detectDrawingScale(geometry, '')).toMatchObject({ feetPerPoint: 4 / 72, source: 'scale_bar' })
+  })
+
+  test('is null without a scale', () => {
+    expect(detectDrawingScale(plan({ textItems: [] }), '')).toBeNull()
+  })
+})
+
+test.describe('measureRoomsFromGeometry', () => {
+  test('measures rectangular and L-shaped rooms from the line work', () => {
+    const result = measureRoomsFromGeometry(plan(), ROOMS, '')
+
+    expect(result.measured).toBe(2)
+    expect(result.scale!.label).toBe('1/4" = 1\'-0"')
+    expect(result.warnings).toEqual([])
+
+    const [kitchen, dining] = result.rooms
+    expect(kitchen.area_source).toBe('geometry')
+    expect(kitchen.area_sqft).toBeGreaterThan(117)
+    expect(kitchen.area_sqft).toBeLessThan(123)
+    expect(kitchen.perimeter_ft).toBeGreaterThan(43)
+    expect(kitchen.perimeter_ft).toBeLessThan(45)
+    expect(kitchen.polygon).toHaveLength(4)
+
+    expect(dining.area_source).toBe('geometry')
+    expect(dining.area_sqft).toBeGreaterThan(140)
+    expect(dining.area_sqft).toBeLessThan(148)
+    expect(dining.perimeter_ft).toBeGreaterThan(55)
+    expect(dining.perimeter_ft).toBeLessThan(57)
+    expect(dining.polygon).toHaveLength(6)
+  })
+
+  test('does nothing without rooms or line work', () => {
+    expect(measureRoomsFromGeometry(plan(), [], '')).toMatchObject({ rooms: [], measured: 0, warnings: [] })
+
+    const sparse = measureRoomsFromGeometry(plan({ segments: walls(KITCHEN).slice(0, 10) }), ROOMS, '')
+    expect(sparse.rooms).toBe(ROOMS)
+    expect(sparse.measured).toBe(0)
+  })
+
+  test('keeps plan dimensions when no scale is found', () => {
+    const result = measureRoomsFromGeometry(plan({ textItems: plan().textItems.slice(0, 2) }), ROOMS, '')
+
+    expect(result.measured).toBe(0)
+    expect(result.rooms).toBe(ROOMS)
+    expect(result.warnings).toEqual(['Page 2: no drawing scale found; room areas come from plan dimensions'])
+  })
+
+  test('keeps plan dimensions when the measurement disagrees with them', () => {
+    const result = measureRoomsFromGeometry(plan(), [extractedRoom('Kitchen', { length_ft: 30, width_ft: 30 })], '')
+
+    expect(result.measured).toBe(0)
+    expect(result.rooms[0].area_source).toBeUndefined()
+    expect(result.warnings[0]).toMatch(/^Page 2: measured [\d.]+ sq ft for Kitchen disagrees with its dimensions \(900 sq ft\)/)
+  })
+
+  test('does not measure a room open to the rest of the page', () => {
+    // Kitchen's bottom wall left out: the fill leaks to the page edge
+    const result = measureRoomsFromGeometry(plan({}, 0), ROOMS, '')
+
+    expect(result.rooms[0].area_source).toBeUndefined()
+    expect(result.rooms[1].area_source).toBe('geometry')
+    expect(result.measured).toBe(1)
+  })
+
+  test('leaves rooms without a label on the plan alone', () => {
+    const result = measureRoomsFromGeometry(plan(), [...ROOMS, extractedRoom('Pantry', { length_ft: 4, width_ft: 4 })], '')
+
+    expect(result.measured).toBe(2)
+    expect(result.rooms[2]).toEqual(extractedRoom('Pantry', { length_ft: 4, width_ft: 4 }))
+    expect(result.assumptions).toEqual(['Page 2: measured 2 of 3 rooms from plan geometry at 1/4" = 1\'-0"'])
+  })
+
+  test('warns when the line work was truncated', () => {
+    const result = measureRoomsFromGeometry(plan({ truncated: true }), ROOMS, '')
+
+    expect(result.warnings).toContain('Page 2: plan line work was truncated; some rooms may not be measurable')
+  })
+})
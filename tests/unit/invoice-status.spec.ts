@@ -0,0 +1,109 @@
+/**
+ * Invoice status and aging (lib/invoice-status.ts)
+ *
+ * Balances and derived status for partial, full and over payments, the
+ * overdue boundary on the due date, days past due and the A/R aging
+ * buckets at each edge.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  agingBucket,
+  daysPastDue,
+  deriveInvoiceStatus,
+  formatInvoiceStatus,
+  invoiceBalance,
+} from '@/lib/invoice-status'
+import { invoicePaymentState } from './factories'
+
+const DUE = '2026-03-31'
+
+test.describe('invoiceBalance', () => {
+  test('is the unpaid part of the total', () => {
+    expect(invoiceBalance({ total_amount: 1000, amount_paid: 250.25 })).toBe(749.75)
+    expect(invoiceBalance({ total_amount: 1000, amount_paid: null })).toBe(1000)
+  })
+
+  test('never goes negative on overpayment', () => {
+    expect(invoiceBalance({ total_amount: 1000, amount_paid: 1200 })).toBe(0)
+  })
+
+  test('rounds to cents', () => {
+    expect(invoiceBalance({ total_amount: 0.3, amount_paid: 0.1 })).toBe(0.2)
+  })
+})
+
+test.describe('deriveInvoiceStatus', () => {
+  test('keeps unpaid drafts as drafts, even past due', () => {
+    expect(deriveInvoiceStatus(invoicePaymentState({ status: 'draft' }), '2026-05-01')).toBe('draft')
+  })
+
+  test('is sent until the due date has passed', () => {
+    expect(deriveInvoiceStatus(invoicePaymentState(), '2026-03-30')).toBe('sent')
+    expect(deriveInvoiceStatus(invoicePaymentState(), DUE)).toBe('sent')
+    expect(deriveInvoiceStatus(invoicePaymentState({ due_date: null }), '2027-01-01')).toBe('sent')
+  })
+
+  test('is overdue from the day after the due date', () => {
+    expect(deriveInvoiceStatus(invoicePaymentState(), '2026-04-01')).toBe('overdue')
+    expect(deriveInvoiceStatus(invoicePaymentState({ due_date: '2026-03-31T17:00:00Z' }), DUE)).toBe('sent')
+  })
+
+  test('is partially paid while a balance remains', () => {
+    expect(deriveInvoiceStatus(invoicePaymentState({ amount_paid: 400 }), DUE)).toBe('partially_paid')
+    expect(deriveInvoiceStatus(invoicePaymentState({ status: 'draft', amount_paid: 400 }), DUE)).toBe('partially_paid')
+  })
+
+  test('reports overdue over partially paid once past due', () => {
+    expect(deriveInvoiceStatus(invoicePaymentState({ amount_paid: 400 }), '2026-04-01')).toBe('overdue')
+  })
+
+  test('is paid once payments cover the total, whatever the date', () => {
+    expect(deriveInvoiceStatus(invoicePaymentState({ amount_paid: 1000 }), '2026-05-01')).toBe('paid')
+    expect(deriveInvoiceStatus(invoicePaymentState({ amount_paid: 1200, status: 'draft' }), DUE)).toBe('paid')
+  })
+
+  test('does not treat a zero-total invoice as paid without a payment', () => {
+    expect(deriveInvoiceStatus(invoicePaymentState({ total_amount: 0 }), DUE)).toBe('sent')
+  })
+})
+
+test.describe('formatInvoiceStatus', () => {
+  test('title-cases each word', () => {
+    expect(formatInvoiceStatus('partially_paid')).toBe('Partially Paid')
+    expect(formatInvoiceStatus('overdue')).toBe('Overdue')
+  })
+})
+
+test.describe('daysPastDue', () => {
+  test('counts whole days after the due date', () => {
+    expect(daysPastDue({ due_date: DUE, issued_date: '2026-03-01' }, '2026-04-30')).toBe(30)
+    expect(daysPastDue({ due_date: DUE, issued_date: '2026-03-01' }, DUE)).toBe(0)
+    expect(daysPastDue({ due_date: DUE, issued_date: '2026-03-01' }, '2026-03-21')).toBe(-10)
+  })
+
+  test('falls back to the issue date without a due date', () => {
+    expect(daysPastDue({ due_date: null, issued_date: '2026-03-01' }, '2026-03-11')).toBe(10)
+  })
+
+  test('ignores the time part of stored dates', () => {
+    expect(daysPastDue({ due_date: '2026-03-31T23:59:59Z', issued_date: '2026-03-01' }, '2026-04-01')).toBe(1)
+  })
+})
+
+test.describe('agingBucket', () => {
+  test('is current until past due', () => {
+    expect(agingBucket(-5)).toBe('current')
+    expect(agingBucket(0)).toBe('current')
+  })
+
+  test('puts each boundary day in the lower bucket', () => {
+    expect(agingBucket(1)).toBe('days_1_30')
+    expect(agingBucket(30)).toBe('days_1_30')
+    expect(agingBucket(31)).toBe('days_31_60')
+    expect(agingBucket(60)).toBe('days_31_60')
+    expect(agingBucket(61)).toBe('days_61_90')
+    expect(agingBucket(90)).toBe('days_61_90')
+    expect(agingBucket(91)).toBe('days_90_plus')
+  })
+})
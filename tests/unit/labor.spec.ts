@@ -0,0 +1,157 @@
+/**
+ * Hours-based labor costing (lib/labor.ts)
+ *
+ * Labor hours with the crew's productivity factor, cost at the burdened
+ * rate, crew-days by crew size, hours summaries by room and trade, and
+ * repricing an hours-based item at a new quantity with the markup stack.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  computeCrewDays,
+  computeLaborCost,
+  computeLaborHours,
+  costHoursBasedItem,
+  deriveLaborFromHours,
+  formatLaborRate,
+  isHoursBased,
+  summarizeLaborHours,
+} from '@/lib/labor'
+import { laborRate, markupStack } from './factories'
+
+const STACK = markupStack({ overhead_percent: 0, contingency_percent: 0, profit_percent: 20, sales_tax_percent: 10 })
+
+test.describe('isHoursBased', () => {
+  test('is true once hours per unit are set, including zero', () => {
+    expect(isHoursBased({ labor_hours_per_unit: 0.5 })).toBe(true)
+    expect(isHoursBased({ labor_hours_per_unit: 0 })).toBe(true)
+    expect(isHoursBased({ labor_hours_per_unit: null })).toBe(false)
+    expect(isHoursBased({})).toBe(false)
+  })
+})
+
+test.describe('computeLaborHours', () => {
+  test('is quantity times hours per unit', () => {
+    expect(computeLaborHours(120, 0.05)).toBe(6)
+    expect(computeLaborHours(120, 0.05, laborRate())).toBe(6)
+  })
+
+  test('scales by the crew productivity factor', () => {
+    expect(computeLaborHours(120, 0.05, laborRate({ productivity_factor: 1.25 }))).toBe(7.5)
+    expect(computeLaborHours(120, 0.05, laborRate({ productivity_factor: 0.8 }))).toBe(4.8)
+  })
+
+  test('treats a missing productivity factor as 1', () => {
+    expect(computeLaborHours(120, 0.05, laborRate({ productivity_factor: 0 }))).toBe(6)
+  })
+
+  test('rounds to hundredths', () => {
+    expect(computeLaborHours(7, 0.333)).toBe(2.33)
+  })
+
+  test('is null when quantity or hours per unit are unknown', () => {
+    expect(computeLaborHours(null, 0.05)).toBeNull()
+    expect(computeLaborHours(120, undefined)).toBeNull()
+  })
+})
+
+test.describe('computeLaborCost', () => {
+  test('prices hours at the burdened rate', () => {
+    expect(computeLaborCost(7.5, laborRate({ burdened_hourly_rate: 68.5 }))).toBe(513.75)
+  })
+
+  test('is independent of crew size, since hours are worker-hours', () => {
+    expect(computeLaborCost(8, laborRate({ crew_size: 3 }))).toBe(480)
+  })
+
+  test('is null without hours or a rate', () => {
+    expect(computeLaborCost(null, laborRate())).toBeNull()
+    expect(computeLaborCost(8, null)).toBeNull()
+  })
+})
+
+test.describe('computeCrewDays', () => {
+  test('divides hours across the crew in 8 hour days', () => {
+    expect(computeCrewDays(16, laborRate())).toBe(2)
+    expect(computeCrewDays(16, laborRate({ crew_size: 2 }))).toBe(1)
+    expect(computeCrewDays(6, laborRate({ crew_size: 2 }))).toBe(0.4)
+  })
+
+  test('assumes one worker without a rate or crew size', () => {
+    expect(computeCrewDays(12, null)).toBe(1.5)
+    expect(computeCrewDays(12, laborRate({ crew_size: 0 }))).toBe(1.5)
+  })
+
+  test('is null without hours', () => {
+    expect(computeCrewDays(null, laborRate())).toBeNull()
+  })
+})
+
+test.describe('deriveLaborFromHours', () => {
+  test('returns hours and cost with a rate', () => {
+    expect(deriveLaborFromHours({ quantity: 100, labor_hours_per_unit: 0.1 }, laborRate({ productivity_factor: 1.5 })))
+      .toEqual({ labor_hours: 15, labor_cost: 900 })
+  })
+
+  test('returns only hours without a rate, so the stored labor cost is kept', () => {
+    expect(deriveLaborFromHours({ quantity: 100, labor_hours_per_unit: 0.1 }, null)).toEqual({ labor_hours: 10 })
+  })
+})
+
+test.describe('formatLaborRate', () => {
+  test('names the crew, or its size when it has no name', () => {
+    expect(formatLaborRate({ trade: 'Tile', crew_name: null, crew_size: 2, burdened_hourly_rate: 68 }))
+      .toBe('Tile - 2-person crew ($68.00/hr)')
+    expect(formatLaborRate({ trade: 'Tile', crew_name: 'Setters', crew_size: 2, burdened_hourly_rate: 68 }))
+      .toBe('Tile - Setters ($68.00/hr)')
+    expect(formatLaborRate({ trade: 'Paint', crew_name: null, crew_size: 1, burdened_hourly_rate: 45.5 }))
+      .toBe('Paint ($45.50/hr)')
+  })
+})
+
+test.describe('summarizeLaborHours', () => {
+  test('groups hours by room and by the rate trade, falling back to category', () => {
+    const summary = summarizeLaborHours([
+      { labor_hours: 6, labor_rate_id: 'tile', room_name: 'Bath', category: 'Flooring' },
+      { labor_hours: 2.5, labor_rate_id: null, room_name: 'Bath', category: 'Paint' },
+      { labor_hours: 4, labor_rate_id: 'missing', room_name: null, category: null },
+      { labor_hours: null, labor_rate_id: 'tile', room_name: 'Kitchen', category: null },
+    ], new Map([['tile', { trade: 'Tile' }]]))
+
+    expect(summary.total).toBe(12.5)
+    expect(Object.fromEntries(summary.byRoom)).toEqual({ Bath: 8.5, Unassigned: 4 })
+    expect(Object.fromEntries(summary.byTrade)).toEqual({ Tile: 6, Paint: 2.5, Other: 4 })
+  })
+})
+
+test.describe('costHoursBasedItem', () => {
+  const ITEM = { labor_hours_per_unit: 0.5, material_cost: 200, overhead_cost: 0 }
+
+  test('recosts labor and reprices the item with the stack', () => {
+    // 10 × 0.5 h = 5 h at $60 = $300 labor; $500 direct, $20 tax on materials
+    expect(costHoursBasedItem(ITEM, 10, laborRate({ crew_size: 2 }), STACK)).toEqual({
+      labor_hours: 5,
+      labor_cost: 300,
+      direct_cost: 500,
+      client_price: 624,
+      margin_percent: 24.8,
+    })
+  })
+
+  test('applies productivity before the burdened rate', () => {
+    const costed = costHoursBasedItem(ITEM, 10, laborRate({ productivity_factor: 1.2, burdened_hourly_rate: 75 }), STACK)
+    expect(costed).toMatchObject({ labor_hours: 6, labor_cost: 450, direct_cost: 650 })
+  })
+
+  test('passes allowances through at cost', () => {
+    expect(costHoursBasedItem({ ...ITEM, is_allowance: true }, 10, laborRate(), STACK)).toMatchObject({
+      direct_cost: 500,
+      client_price: 500,
+      margin_percent: 0,
+    })
+  })
+
+  test('returns only hours without a rate', () => {
+    expect(costHoursBasedItem(ITEM, 10, null, STACK)).toEqual({ labor_hours: 5 })
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Markup stack (lib/pricing/markup.ts)
+ *
+ * Rule resolution (project → trade → all → default, null layers inherit)
+ * and pricing: sales tax on materials, allowances, zero and negative direct
+ * cost, rounding and estimate-level sums.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  DEFAULT_MARKUP_STACK,
+  applyMarkupStack,
+  markupPercentForStack,
+  projectScope,
+  resolveMarkupStack,
+  sumMarkupBreakdowns,
+  tradeScope,
+  type MarkupRule,
+} from '@/lib/pricing/markup'
+import { markupRule, markupStack } from './factories'
+
+const RULES: MarkupRule[] = [
+  markupRule('all', { margin_percent: 20, overhead_percent: 10, sales_tax_percent: 8 }),
+  markupRule(tradeScope('09'), { margin_percent: 25 }),
+  markupRule(projectScope('p1'), { overhead_percent: 15 }),
+]
+
+const STACK = markupStack()
+
+test.describe('resolveMarkupStack', () => {
+  test('resolves each layer from the narrowest rule that sets it', () => {
+    expect(resolveMarkupStack(RULES, { costCode: '09', projectId: 'p1' })).toEqual({
+      overhead_percent: 15,
+      contingency_percent: 0,
+      profit_percent: 25,
+      sales_tax_percent: 8,
+    })
+    expect(resolveMarkupStack(RULES, { costCode: '09' })).toMatchObject({ overhead_percent: 10, profit_percent: 25 })
+    expect(resolveMarkupStack(RULES, {})).toMatchObject({ overhead_percent: 10, profit_percent: 20 })
+  })
+
+  test('ignores trade and project rules that do not match', () => {
+    expect(resolveMarkupStack(RULES, { costCode: '03', projectId: 'p2' })).toEqual({
+      overhead_percent: 10,
+      contingency_percent: 0,
+      profit_percent: 20,
+      sales_tax_percent: 8,
+    })
+  })
+
+  test('falls back to the default stack without rules', () => {
+    expect(resolveMarkupStack([], { costCode: '09', projectId: 'p1' })).toEqual(DEFAULT_MARKUP_STACK)
+  })
+
+  test('a zero layer is set, not inherited', () => {
+    const stack = resolveMarkupStack([markupRule('all', { margin_percent: 0 })], {})
+
+    expect(stack.profit_percent).toBe(0)
+  })
+
+  test('reads numeric strings from the database as numbers', () => {
+    const stack = resolveMarkupStack([markupRule('all', { margin_percent: '12.5' as unknown as number })], {})
+
+    expect(stack.profit_percent).toBe(12.5)
+  })
+})
+
+test.describe('applyMarkupStack', () => {
+  test('layers sales tax, overhead, contingency and profit', () => {
+    const priced = applyMarkupStack({ labor_cost: 100, material_cost: 200, overhead_cost: 0 }, STACK)
+
+    expect(priced).toEqual({
+      direct_cost: 300,
+      sales_tax: 16,
+      overhead: 31.6,
+      contingency: 15.8,
+      profit: 72.68,
+      client_price: 436.08,
+      markup_percent: 45.36,
+    })
+  })
+
+  test('takes direct_cost as given when set', () => {
+    const priced = applyMarkupStack({ labor_cost: 100, direct_cost: 500 }, DEFAULT_MARKUP_STACK)
+
+    expect(priced.direct_cost).toBe(500)
+    expect(priced.client_price).toBe(650)
+    expect(priced.markup_percent).toBe(30)
+  })
+
+  test('passes allowances through at cost', () => {
+    const priced = applyMarkupStack({ material_cost: 250, is_allowance: true }, STACK)
+
+    expect(priced).toEqual({
+      direct_cost: 250,
+      sales_tax: 0,
+      overhead: 0,
+      contingency: 0,
+      profit: 0,
+      client_price: 250,
+      markup_percent: 0,
+    })
+  })
+
+  test('zero direct cost prices at zero and reports the stack markup', () => {
+    const priced = applyMarkupStack({}, STACK)
+
+    expect(priced.client_price).toBe(0)
+    expect(priced.markup_percent).toBe(markupPercentForStack(STACK))
+  })
+
+  test('credits (negative direct cost) are marked up like charges', () => {
+    const priced = applyMarkupStack({ direct_cost: -100 }, DEFAULT_MARKUP_STACK)
+
+    expect(priced.client_price).toBe(-130)
+    expect(priced.markup_percent).toBe(30)
+  })
+
+  test('rounds to cents', () => {
+    const priced = applyMarkupStack({ direct_cost: 33.33 }, DEFAULT_MARKUP_STACK)
+
+    expect(priced.client_price).toBe(43.33)
+    expect(priced.profit).toBe(10)
+    expect(priced.markup_percent).toBe(30)
+  })
+})
+
+test.describe('markupPercentForStack', () => {
+  test('compounds profit over overhead and contingency', () => {
+    expect(markupPercentForStack(DEFAULT_MARKUP_STACK)).toBe(30)
+    expect(markupPercentForStack(STACK)).toBe(38)
+  })
+
+  test('ignores sales tax (no materials)', () => {
+    expect(markupPercentForStack({ ...DEFAULT_MARKUP_STACK, sales_tax_percent: 10 })).toBe(30)
+  })
+})
+
+test.describe('sumMarkupBreakdowns', () => {
+  test('sums each layer without floating point drift', () => {
+    const total = sumMarkupBreakdowns([
+      applyMarkupStack({ direct_cost: 0.1 }, { ...DEFAULT_MARKUP_STACK, profit_percent: 0 }),
+      applyMarkupStack({ direct_cost: 0.2 }, { ...DEFAULT_MARKUP_STACK, profit_percent: 0 }),
+    ])
+
+    expect(total.direct_cost).toBe(0.3)
+    expect(total.client_price).toBe(0.3)
+  })
+
+  test('is all zeros for no items', () => {
+    expect(sumMarkupBreakdowns([])).toEqual({
+      direct_cost: 0,
+      sales_tax: 0,
+      overhead: 0,
+      contingency: 0,
+      profit: 0,
+      client_price: 0,
+    })
+  })
+})
@@ -0,0 +1,228 @@
+/**
+ * Pay application math (lib/pay-application.ts)
+ *
+ * G702/G703 line and summary math: clamping of percent complete, rounding,
+ * retainage, zero-value and credit (negative) lines, and the request
+ * validation createPayApplication runs before saving.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  computePayApplicationLine,
+  planPayApplication,
+  previousPercentComplete,
+  summarizePayApplication,
+} from '@/lib/pay-application'
+import { payApplicationTask } from './factories'
+
+test.describe('previousPercentComplete', () => {
+  test('is the billed share of the price', () => {
+    expect(previousPercentComplete({ price: 1000, billed_amount: 250 })).toBe(25)
+  })
+
+  test('is 0 for zero-price tasks', () => {
+    expect(previousPercentComplete({ price: 0, billed_amount: 0 })).toBe(0)
+    expect(previousPercentComplete({ price: 0, billed_amount: 50 })).toBe(0)
+  })
+
+  test('caps over-billed tasks at 100', () => {
+    expect(previousPercentComplete({ price: 1000, billed_amount: 1200 })).toBe(100)
+  })
+
+  test('works for credit tasks billed with negative amounts', () => {
+    expect(previousPercentComplete({ price: -400, billed_amount: -100 })).toBe(25)
+  })
+
+  test('rounds to two decimals', () => {
+    expect(previousPercentComplete({ price: 3, billed_amount: 1 })).toBe(33.33)
+  })
+})
+
+test.describe('computePayApplicationLine', () => {
+  test('bills the difference between percent to date and what was billed', () => {
+    const line = computePayApplicationLine(payApplicationTask({ billed_amount: 250 }), 60, 10)
+
+    expect(line.scheduledValue).toBe(1000)
+    expect(line.previousAmount).toBe(250)
+    expect(line.completedToDate).toBe(600)
+    expect(line.thisPeriodAmount).toBe(350)
+    expect(line.percentComplete).toBe(60)
+    expect(line.balanceToFinish).toBe(400)
+    expect(line.retainageAmount).toBe(35)
+    expect(line.retainageToDate).toBe(35)
+  })
+
+  test('never un-bills: percent below what was billed is raised to it', () => {
+    const line = computePayApplicationLine(payApplicationTask({ billed_amount: 500 }), 20, 0)
+
+    expect(line.completedToDate).toBe(500)
+    expect(line.thisPeriodAmount).toBe(0)
+  })
+
+  test('never bills past the scheduled value', () => {
+    const line = computePayApplicationLine(payApplicationTask({ billed_amount: 900 }), 150, 0)
+
+    expect(line.completedToDate).toBe(1000)
+    expect(line.thisPeriodAmount).toBe(100)
+    expect(line.balanceToFinish).toBe(0)
+  })
+
+  test('treats negative and non-numeric percents as zero', () => {
+    expect(computePayApplicationLine(payApplicationTask(), -20, 0).thisPeriodAmount).toBe(0)
+    expect(computePayApplicationLine(payApplicationTask(), Number.NaN, 0).thisPeriodAmount).toBe(0)
+  })
+
+  test('100% bills exactly the remaining balance despite rounding', () => {
+    const odd = payApplicationTask({ price: 100.01, billed_amount: 33.34 })
+    const line = computePayApplicationLine(odd, 100, 0)
+
+    expect(line.completedToDate).toBe(100.01)
+    expect(line.thisPeriodAmount).toBe(66.67)
+    expect(line.balanceToFinish).toBe(0)
+  })
+
+  test('rounds partial progress to cents', () => {
+    const line = computePayApplicationLine(payApplicationTask({ price: 333.33 }), 33.33, 5)
+
+    expect(line.completedToDate).toBe(111.1)
+    expect(line.retainageAmount).toBe(5.56)
+  })
+
+  test('zero-value tasks produce an all-zero line', () => {
+    const line = computePayApplicationLine(payApplicationTask({ price: 0 }), 50, 10)
+
+    expect(line.scheduledValue).toBe(0)
+    expect(line.completedToDate).toBe(0)
+    expect(line.thisPeriodAmount).toBe(0)
+    expect(line.percentComplete).toBe(0)
+    expect(line.retainageAmount).toBe(0)
+  })
+
+  test('ignores negative retainage percents', () => {
+    expect(computePayApplicationLine(payApplicationTask(), 50, -10).retainageAmount).toBe(0)
+  })
+
+  test('carries retainage held by earlier invoices', () => {
+    const line = computePayApplicationLine(payApplicationTask({ billed_amount: 500, previous_retainage: 50 }), 75, 10)
+
+    expect(line.previousRetainage).toBe(50)
+    expect(line.retainageAmount).toBe(25)
+    expect(line.retainageToDate).toBe(75)
+  })
+
+  test('credit lines progress towards their negative value', () => {
+    const credit = payApplicationTask({ price: -400 })
+    const first = computePayApplicationLine(credit, 50, 10)
+
+    expect(first.previousAmount).toBe(0)
+    expect(first.completedToDate).toBe(-200)
+    expect(first.thisPeriodAmount).toBe(-200)
+    expect(first.balanceToFinish).toBe(-200)
+    expect(first.percentComplete).toBe(50)
+    expect(first.retainageAmount).toBe(-20)
+
+    const second = computePayApplicationLine({ ...credit, billed_amount: -200 }, 25, 0)
+    expect(second.previousAmount).toBe(-200)
+    expect(second.completedToDate).toBe(-200)
+    expect(second.thisPeriodAmount).toBe(0)
+  })
+})
+
+test.describe('summarizePayApplication', () => {
+  test('rolls lines up into the G702 summary', () => {
+    const lines = [
+      computePayApplicationLine(payApplicationTask({ id: 'a', price: 1000, billed_amount: 500, previous_retainage: 50 }), 100, 10),
+      computePayApplicationLine(payApplicationTask({ id: 'b', price: 2000 }), 25, 10),
+    ]
+    const summary = summarizePayApplication(lines)
+
+    expect(summary.contractSum).toBe(3000)
+    expect(summary.completedToDate).toBe(1500)
+    expect(summary.thisPeriodAmount).toBe(1000)
+    expect(summary.thisPeriodRetainage).toBe(100)
+    expect(summary.retainageToDate).toBe(150)
+    expect(summary.earnedLessRetainage).toBe(1350)
+    expect(summary.previousCertificates).toBe(450)
+    expect(summary.currentPaymentDue).toBe(900)
+    expect(summary.balanceToFinishWithRetainage).toBe(1650)
+  })
+
+  test('is all zeros for no lines', () => {
+    const summary = summarizePayApplication([])
+
+    expect(summary.contractSum).toBe(0)
+    expect(summary.currentPaymentDue).toBe(0)
+    expect(summary.balanceToFinishWithRetainage).toBe(0)
+  })
+
+  test('sums without floating point drift', () => {
+    const lines = [0.1, 0.2, 0.3].map((price, i) =>
+      computePayApplicationLine(payApplicationTask({ id: String(i), price }), 100, 0)
+    )
+
+    expect(summarizePayApplication(lines).completedToDate).toBe(0.6)
+  })
+})
+
+test.describe('planPayApplication', () => {
+  const framing = payApplicationTask({ id: 'framing', price: 1000 })
+  const deduct = payApplicationTask({ id: 'deduct', description: 'Deduct: owner-supplied fixtures', price: -400 })
+
+  test('bills a credit line alongside completed work', () => {
+    const { lines, summary } = planPayApplication(
+      [framing, deduct],
+      [{ taskId: 'framing', percentComplete: 50 }, { taskId: 'deduct', percentComplete: 100 }],
+      10
+    )
+
+    expect(lines.map(line => line.thisPeriodAmount)).toEqual([500, -400])
+    expect(summary.thisPeriodAmount).toBe(100)
+    expect(summary.thisPeriodRetainage).toBe(10)
+    expect(summary.currentPaymentDue).toBe(90)
+  })
+
+  test('leaves zero-price tasks off the continuation sheet', () => {
+    const allowance = payApplicationTask({ id: 'allowance', price: 0 })
+    const { lines } = planPayApplication([framing, allowance], [{ taskId: 'framing', percentComplete: 10 }], 0)
+
+    expect(lines.map(line => line.taskId)).toEqual(['framing'])
+  })
+
+  test('keeps unmentioned tasks at what was already billed', () => {
+    const { lines } = planPayApplication(
+      [framing, { ...deduct, billed_amount: -100 }],
+      [{ taskId: 'framing', percentComplete: 20 }],
+      0
+    )
+
+    expect(lines[1].completedToDate).toBe(-100)
+    expect(lines[1].thisPeriodAmount).toBe(0)
+  })
+
+  test('rejects a period that nets to a credit', () => {
+    expect(() => planPayApplication([framing, deduct], [{ taskId: 'deduct', percentComplete: 50 }], 0))
+      .toThrow('nets to a credit')
+  })
+
+  test('rejects a request that moves no line', () => {
+    expect(() => planPayApplication([framing, deduct], [], 0)).toThrow('No work completed')
+  })
+
+  test('rejects lowering percent complete on a billed credit', () => {
+    expect(() => planPayApplication(
+      [framing, { ...deduct, billed_amount: -200 }],
+      [{ taskId: 'framing', percentComplete: 50 }, { taskId: 'deduct', percentComplete: 25 }],
+      0
+    )).toThrow('already billed to 50.0%')
+  })
+
+  test('rejects unknown tasks, out-of-range percents and retainage', () => {
+    expect(() => planPayApplication([framing], [{ taskId: 'other', percentComplete: 10 }], 0)).toThrow('not on this project')
+    expect(() => planPayApplication([framing], [{ taskId: 'framing', percentComplete: 120 }], 0)).toThrow('between 0 and 100')
+    expect(() => planPayApplication([framing], [{ taskId: 'framing', percentComplete: 10 }], 101)).toThrow('Retainage')
+  })
+
+  test('rejects projects with no priced tasks', () => {
+    expect(() => planPayApplication([payApplicationTask({ price: 0 })], [], 0)).toThrow('no priced tasks')
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Plan parse pipeline in fixture mode (lib/plans + lib/ai)
+ *
+ * Runs the stages the plan parse worker runs - classify pages, pick floor
+ * plan sheets by level, extract rooms per sheet, dedupe across sheets and
+ * generate the line item scaffold - against the model responses in
+ * tests/fixtures/ai (AI_PROVIDER=fixture, no network).
+ *
+ * The pipeline swallows model errors into fallbacks, so the assertions pin
+ * the fixture content: a prompt change that misses its fixture fails here
+ * instead of passing on a fallback. Re-record with AI_PROVIDER=record after
+ * changing a prompt (see docs/AI_PROVIDERS.md).
+ */
+
+import path from 'path'
+import { test, expect } from '@playwright/test'
+import { FixtureProvider } from '@/lib/ai/fixture'
+import { getLLMProvider, type LLMProvider } from '@/lib/ai'
+import {
+  classifyPagesWithAI,
+  enrichClassificationsWithLevel,
+  extractRoomsFromSheetWithAI,
+  generateLineItemScaffoldWithAI,
+  groupPagesByLevel,
+} from '@/lib/plans/ai-classifier'
+import { preparePagesForClassification } from '@/lib/plans/pdf-utils'
+import { deduplicateAcrossSheets } from '@/lib/plans/room-processor'
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'ai')
+
+/** Text layer of a small two-storey plan set */
+const PAGES = [
+  {
+    pageNumber: 1,
+    text: [
+      'A0.0 COVER SHEET',
+      'MILLER RESIDENCE REMODEL',
+      '1420 ALDER STREET',
+      'SHEET INDEX: A0.0 COVER SHEET, A1.1 FIRST FLOOR PLAN, A1.2 SECOND FLOOR PLAN',
+    ].join('\n'),
+  },
+  {
+    pageNumber: 2,
+    text: [
+      'A1.1 FIRST FLOOR PLAN',
+      'SCALE: 1/4" = 1\'-0"',
+      'KITCHEN 12\'-0" x 14\'-0"',
+      'LIVING ROOM 16\'-0" x 18\'-0"',
+      'PWDR 5\'-0" x 6\'-0"',
+    ].join('\n'),
+  },
+  {
+    pageNumber: 3,
+    text: [
+      'A1.2 SECOND FLOOR PLAN',
+      'SCALE: 1/4" = 1\'-0"',
+      'MBR 14\'-0" x 16\'-0"',
+      'BR 11\'-0" x 12\'-0"',
+      'BATH 8\'-0" x 10\'-0"',
+      'KITCHEN (BELOW)',
+    ].join('\n'),
+  },
+]
+
+/**
+ * The worker's stages, minus storage and job bookkeeping
+ */
+async function runPipeline(provider: LLMProvider) {
+  const classification = await classifyPagesWithAI({
+    pages: preparePagesForClassification(PAGES.map(p => ({ ...p, hasText: true }))),
+    provider,
+  })
+  const sheets = groupPagesByLevel(enrichClassificationsWithLevel(classification.pages, PAGES))
+
+  const sheetResults = []
+  for (const sheet of sheets) {
+    const pageText = PAGES.find(p => p.pageNumber === sheet.pageNumber)!.text
+    sheetResults.push(await extractRoomsFromSheetWithAI({ sheet, pageText, provider }))
+  }
+  const rooms = deduplicateAcrossSheets(sheetResults)
+  const lineItems = await generateLineItemScaffoldWithAI({ rooms, provider })
+
+  return { classification, sheets, sheetResults, rooms, lineItems }
+}
+
+test.describe('plan parse pipeline (fixture mode)', () => {
+  const env = { provider: process.env.AI_PROVIDER, dir: process.env.AI_FIXTURES_DIR }
+
+  test.beforeAll(() => {
+    // AI_PROVIDER=record re-records missing fixtures against a live model
+    if (process.env.AI_PROVIDER !== 'record') process.env.AI_PROVIDER = 'fixture'
+    process.env.AI_FIXTURES_DIR = FIXTURES_DIR
+  })
+
+  test.afterAll(() => {
+    process.env.AI_PROVIDER = env.provider
+    process.env.AI_FIXTURES_DIR = env.dir
+  })
+
+  test('uses the fixture provider', () => {
+    expect(getLLMProvider().name).toMatch(/^(fixture|record\()/)
+  })
+
+  test('turns the plan set into rooms and a line item scaffold', async () => {
+    const { classification, sheets, sheetResults, rooms, lineItems } = await runPipeline(getLLMProvider())
+
+    expect(classification.pages.map(p => [p.pageNumber, p.type])).toEqual([
+      [1, 'cover'],
+      [2, 'floor_plan'],
+      [3, 'floor_plan'],
+    ])
+    expect(sheets.map(s => [s.pageNumber, s.detectedLevel])).toEqual([
+      [2, 'Level 1'],
+      [3, 'Level 2'],
+    ])
+    expect(sheetResults.every(r => !r.error)).toBe(true)
+
+    expect(rooms.map(r => [r.name, r.level])).toEqual([
+      ['Kitchen', 'Level 1'],
+      ['Living Room', 'Level 1'],
+      ['Powder Room', 'Level 1'],
+      ['Master Bedroom', 'Level 2'],
+      ['Bedroom', 'Level 2'],
+      ['Bathroom', 'Level 2'],
+    ])
+
+    const kitchen = rooms.find(r => r.name === 'Kitchen')!
+    expect(kitchen.length_ft).toBe(12)
+    expect(kitchen.width_ft).toBe(14)
+    expect(kitchen.sheet_label).toBe('A1.1 FIRST FLOOR PLAN')
+
+    expect(lineItems.length).toBeGreaterThan(0)
+    const roomNames = new Set(rooms.map(r => r.name))
+    expect(lineItems.every(item => roomNames.has(item.room_name))).toBe(true)
+    expect(lineItems.filter(item => item.room_name === 'Kitchen').map(item => item.cost_code)).toEqual(['716', '721', '733', '723'])
+    // The scaffold never carries pricing
+    expect(lineItems.every(item => !('direct_cost' in item) && !('client_price' in item))).toBe(true)
+  })
+
+  test('a request without a fixture fails with its hash', async () => {
+    const provider = new FixtureProvider(FIXTURES_DIR)
+    const request = { messages: [{ role: 'user' as const, content: 'not recorded' }] }
+
+    await expect(provider.chat(request)).rejects.toThrow(FixtureProvider.chatKey(request))
+  })
+})
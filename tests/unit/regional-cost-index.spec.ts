@@ -0,0 +1,148 @@
+/**
+ * Regional cost index (lib/pricing/regional-cost-index.ts)
+ *
+ * Looking up a project's location factors - per-project override, then the
+ * ZIP in the project address, then the user's region setting, then no
+ * adjustment - and applying them to task library unit costs.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  COST_REGIONS,
+  NATIONAL_REGION_KEY,
+  applyLocationFactors,
+  blendedLocationFactor,
+  costRegionForName,
+  costRegionForZip,
+  describeCostRegion,
+  extractZip,
+  getCostRegion,
+  resolveCostRegion,
+} from '@/lib/pricing/regional-cost-index'
+import { libraryTaskCosts } from './factories'
+
+const SEATTLE = getCostRegion('seattle')!
+
+test.describe('region lookup', () => {
+  test('finds regions by key', () => {
+    expect(SEATTLE).toMatchObject({ name: 'Seattle', labor_factor: 1.2, material_factor: 1.05 })
+    expect(getCostRegion('atlantis')).toBeNull()
+    expect(getCostRegion(null)).toBeNull()
+  })
+
+  test('maps each ZIP3 to a single region', () => {
+    const zip3s = COST_REGIONS.flatMap(r => r.zip3)
+    expect(new Set(zip3s).size).toBe(zip3s.length)
+  })
+
+  test('finds regions by ZIP3', () => {
+    expect(costRegionForZip('98103')?.key).toBe('seattle')
+    expect(costRegionForZip('02139')?.key).toBe('boston')
+    expect(costRegionForZip('59801')).toBeNull()
+    expect(costRegionForZip(null)).toBeNull()
+  })
+
+  test('matches a region setting by name, ignoring case and spacing', () => {
+    expect(costRegionForName(' bay area ')?.key).toBe('bay_area')
+    expect(costRegionForName('National')?.key).toBe(NATIONAL_REGION_KEY)
+    expect(costRegionForName('Pacific Northwest')).toBeNull()
+    expect(costRegionForName('')).toBeNull()
+  })
+})
+
+test.describe('extractZip', () => {
+  test('takes the last ZIP in an address, without the +4', () => {
+    expect(extractZip('123 Main St, Seattle, WA 98103-1234')).toBe('98103')
+    expect(extractZip('12345 Lake City Way NE, Seattle, WA 98125')).toBe('98125')
+  })
+
+  test('is null without a five-digit ZIP', () => {
+    expect(extractZip('123 Main St, Seattle, WA')).toBeNull()
+    expect(extractZip('PO Box 9810')).toBeNull()
+    expect(extractZip(null)).toBeNull()
+  })
+})
+
+test.describe('resolveCostRegion', () => {
+  const ADDRESS = '500 Pine St, Seattle, WA 98101'
+
+  test('prefers the per-project override', () => {
+    expect(resolveCostRegion({ costRegionOverride: 'denver', projectAddress: ADDRESS, userRegion: 'Boston' }))
+      .toEqual({ region: getCostRegion('denver'), source: 'override' })
+  })
+
+  test('falls back to the ZIP in the project address', () => {
+    expect(resolveCostRegion({ costRegionOverride: 'atlantis', projectAddress: ADDRESS, userRegion: 'Boston' }))
+      .toEqual({ region: SEATTLE, source: 'address', zip: '98101' })
+  })
+
+  test('falls back to the user region when the address has no known ZIP', () => {
+    expect(resolveCostRegion({ projectAddress: '1 Main St, Missoula, MT 59801', userRegion: 'Boston' }))
+      .toEqual({ region: getCostRegion('boston'), source: 'user_setting' })
+    expect(resolveCostRegion({ projectAddress: null, userRegion: 'boston' })?.source).toBe('user_setting')
+  })
+
+  test('is null when nothing matches, so callers apply no adjustment', () => {
+    expect(resolveCostRegion({})).toBeNull()
+    expect(resolveCostRegion({ projectAddress: '1 Main St, Missoula, MT 59801', userRegion: 'Montana' })).toBeNull()
+  })
+})
+
+test.describe('blendedLocationFactor', () => {
+  test('weights labor and material factors by the labor share', () => {
+    expect(blendedLocationFactor(SEATTLE, 1)).toBe(1.2)
+    expect(blendedLocationFactor(SEATTLE, 0)).toBe(1.05)
+    expect(blendedLocationFactor(SEATTLE, 0.5)).toBeCloseTo(1.125, 10)
+  })
+
+  test('clamps the labor share to 0-1', () => {
+    expect(blendedLocationFactor(SEATTLE, 2)).toBe(1.2)
+    expect(blendedLocationFactor(SEATTLE, -1)).toBe(1.05)
+  })
+})
+
+test.describe('applyLocationFactors', () => {
+  test('scales unit costs by a blend weighted by the material share', () => {
+    // $40 of $100 is material: 60% labor at 1.2, 40% material at 1.05 = 1.14
+    expect(applyLocationFactors(libraryTaskCosts(), SEATTLE)).toEqual({
+      unit_cost_low: 91.2,
+      unit_cost_mid: 114,
+      unit_cost_high: 136.8,
+      material_cost_per_unit: 42,
+    })
+  })
+
+  test('assumes half labor when the material share is unknown', () => {
+    expect(applyLocationFactors(libraryTaskCosts({ material_cost_per_unit: null }), SEATTLE)).toMatchObject({
+      unit_cost_mid: 112.5,
+      material_cost_per_unit: null,
+    })
+    expect(applyLocationFactors(libraryTaskCosts({ unit_cost_mid: null }), SEATTLE)).toMatchObject({
+      unit_cost_low: 90,
+      unit_cost_mid: null,
+    })
+  })
+
+  test('treats material above the unit cost as all material', () => {
+    expect(applyLocationFactors(libraryTaskCosts({ material_cost_per_unit: 150 }), SEATTLE).unit_cost_mid).toBe(105)
+  })
+
+  test('leaves costs unchanged for the national average', () => {
+    const task = libraryTaskCosts()
+    expect(applyLocationFactors(task, getCostRegion(NATIONAL_REGION_KEY)!)).toEqual(task)
+  })
+
+  test('keeps other task fields', () => {
+    const task = { ...libraryTaskCosts(), task_key: '728|tile floor|sf', labor_hours_per_unit: 0.2 }
+    expect(applyLocationFactors(task, SEATTLE)).toMatchObject({ task_key: '728|tile floor|sf', labor_hours_per_unit: 0.2 })
+  })
+})
+
+test.describe('describeCostRegion', () => {
+  test('says where the region came from', () => {
+    expect(describeCostRegion({ region: SEATTLE, source: 'address', zip: '98101' }))
+      .toBe('Seattle (from ZIP 98101) - labor ×1.20, material ×1.05')
+    expect(describeCostRegion({ region: SEATTLE, source: 'override' })).toContain('set for this project')
+    expect(describeCostRegion({ region: SEATTLE, source: 'user_setting' })).toContain('from your pricing settings')
+  })
+})
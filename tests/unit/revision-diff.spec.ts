@@ -0,0 +1,351 @@
+/**
+ * Plan revision diff (lib/plans/revision-diff.ts)
+ *
+ * Pairing revised rooms with applied ones (same name, level added or
+ * dropped, renames by footprint or label, never across levels), measurement
+ * tolerance and unstated values, scaffold line items (renamed rooms,
+ * rewording, duplicates, derived quantities), and checking changes against
+ * edits made in the estimate since.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  defaultRevisionSelection,
+  diffPlanRevision,
+  isRevisionChangeApplicable,
+  markRevisionEdits,
+  revisionRoomFromParsed,
+  scaffoldLineItemValues,
+} from '@/lib/plans/revision-diff'
+import {
+  baseItem,
+  baseRoom,
+  currentItem,
+  currentRoom,
+  revisionItem,
+  revisionRoom,
+} from './factories'
+
+const KITCHEN = baseRoom('Kitchen', { length_ft: 12, width_ft: 10, ceiling_height_ft: 9 })
+
+test.describe('diffPlanRevision rooms', () => {
+  test('finds nothing when the revision reads the same', () => {
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [baseItem('Kitchen', 'Tile floor')] },
+      { rooms: [revisionRoom('kitchen ', { length_ft: 12, width_ft: 10, ceiling_height_ft: 9 })], lineItems: [revisionItem('Kitchen', 'Tile floor')] }
+    )
+
+    expect(diff).toEqual({ rooms: [], lineItems: [], unchangedRooms: 1, unchangedLineItems: 1 })
+  })
+
+  test('ignores drift within tolerance and values the revision does not state', () => {
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [] },
+      { rooms: [revisionRoom('Kitchen', { length_ft: 12.05, width_ft: null, ceiling_height_ft: 8 })], lineItems: [] }
+    )
+
+    expect(diff.rooms).toHaveLength(1)
+    expect(diff.rooms[0]).toMatchObject({ kind: 'dimensions_changed', roomId: 'room-Kitchen' })
+    expect(diff.rooms[0].fields).toEqual([{ field: 'ceiling_height_ft', from: 9, to: 8 }])
+  })
+
+  test('pairs a room whose level was added', () => {
+    const diff = diffPlanRevision(
+      { rooms: [baseRoom('Kitchen', { level: null })], line_items: [] },
+      { rooms: [revisionRoom('Kitchen', { level: 'Level 1' })], lineItems: [] }
+    )
+
+    expect(diff.rooms).toHaveLength(1)
+    expect(diff.rooms[0].kind).toBe('dimensions_changed')
+    expect(diff.rooms[0].fields).toEqual([{ field: 'level', from: null, to: 'Level 1' }])
+  })
+
+  test('pairs a renamed room by its footprint, and its line items follow it', () => {
+    const diff = diffPlanRevision(
+      {
+        rooms: [KITCHEN, baseRoom('Bedroom 2', { length_ft: 12, width_ft: 11 })],
+        line_items: [baseItem('Bedroom 2', 'Carpet')],
+      },
+      {
+        rooms: [
+          revisionRoom('Kitchen', { length_ft: 12, width_ft: 10, ceiling_height_ft: 9 }),
+          revisionRoom('Guest Room', { length_ft: 11, width_ft: 12 }),
+        ],
+        lineItems: [revisionItem('Guest Room', 'Carpet')],
+      }
+    )
+
+    expect(diff.unchangedRooms).toBe(1)
+    expect(diff.rooms).toHaveLength(1)
+    expect(diff.rooms[0]).toMatchObject({ id: 'room:1:1', kind: 'renamed', roomId: 'room-Bedroom 2' })
+    expect(diff.rooms[0].fields.map(f => f.field)).toEqual(['name', 'length_ft', 'width_ft'])
+    expect(diff.lineItems).toEqual([])
+    expect(diff.unchangedLineItems).toBe(1)
+  })
+
+  test('pairs a renamed room by its label when its size changed', () => {
+    const diff = diffPlanRevision(
+      { rooms: [baseRoom('BR 2', { length_ft: 12, width_ft: 11 })], line_items: [] },
+      { rooms: [revisionRoom('Bedroom 2', { length_ft: 13, width_ft: 11 })], lineItems: [] }
+    )
+
+    expect(diff.rooms).toHaveLength(1)
+    expect(diff.rooms[0].kind).toBe('renamed')
+    expect(diff.rooms[0].fields).toEqual([
+      { field: 'name', from: 'BR 2', to: 'Bedroom 2' },
+      { field: 'length_ft', from: 12, to: 13 },
+    ])
+  })
+
+  test('does not pair renames across levels', () => {
+    const diff = diffPlanRevision(
+      { rooms: [baseRoom('Office', { length_ft: 10, width_ft: 10 })], line_items: [] },
+      { rooms: [revisionRoom('Den', { level: 'Level 2', length_ft: 10, width_ft: 10 })], lineItems: [] }
+    )
+
+    expect(diff.rooms.map(c => [c.id, c.kind])).toEqual([['room:0:-', 'removed'], ['room:-:0', 'added']])
+  })
+
+  test('does not remove a room that was left out of scope', () => {
+    const diff = diffPlanRevision({ rooms: [baseRoom('Storage', { included: false })], line_items: [] }, { rooms: [], lineItems: [] })
+
+    expect(diff.rooms).toEqual([])
+    expect(diff.unchangedRooms).toBe(0)
+  })
+})
+
+test.describe('diffPlanRevision line items', () => {
+  test('pairs a reworded item by its cost code and unit', () => {
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [baseItem('Kitchen', 'Base cabinets', { cost_code: '06', unit: 'LF' })] },
+      { rooms: [], lineItems: [revisionItem('Kitchen', 'Shaker base cabinets', { cost_code: '06', unit: 'LF' })] }
+    )
+
+    expect(diff.lineItems).toHaveLength(1)
+    expect(diff.lineItems[0]).toMatchObject({ id: 'item:0:0', kind: 'changed', lineItemId: 'li-Base cabinets' })
+    expect(diff.lineItems[0].fields).toEqual([{ field: 'description', from: 'Base cabinets', to: 'Shaker base cabinets' }])
+  })
+
+  test('does not guess between several rewordings in the same slot', () => {
+    const diff = diffPlanRevision(
+      {
+        rooms: [KITCHEN],
+        line_items: [
+          baseItem('Kitchen', 'Base cabinets', { cost_code: '06', unit: 'LF' }),
+          baseItem('Kitchen', 'Wall cabinets', { cost_code: '06', unit: 'LF' }),
+        ],
+      },
+      {
+        rooms: [],
+        lineItems: [
+          revisionItem('Kitchen', 'Lower cabinets', { cost_code: '06', unit: 'LF' }),
+          revisionItem('Kitchen', 'Upper cabinets', { cost_code: '06', unit: 'LF' }),
+        ],
+      }
+    )
+
+    expect(diff.lineItems.map(c => c.kind)).toEqual(['removed', 'removed', 'added', 'added'])
+  })
+
+  test('pairs duplicate items one to one', () => {
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [baseItem('Kitchen', 'Outlet'), baseItem('Kitchen', 'Outlet')] },
+      {
+        rooms: [],
+        lineItems: [revisionItem('Kitchen', 'Outlet'), revisionItem('Kitchen', 'Outlet'), revisionItem('Kitchen', 'Outlet')],
+      }
+    )
+
+    expect(diff.unchangedLineItems).toBe(2)
+    expect(diff.lineItems.map(c => [c.id, c.kind])).toEqual([['item:-:2', 'added']])
+  })
+
+  test('compares quantities of manual items only', () => {
+    const diff = diffPlanRevision(
+      {
+        rooms: [KITCHEN],
+        line_items: [
+          baseItem('Kitchen', 'Recessed light', { quantity: 4 }),
+          baseItem('Kitchen', 'Tile floor', { quantity: 120, unit: 'SQFT', calc_source: 'room_dimensions' }),
+        ],
+      },
+      {
+        rooms: [],
+        lineItems: [
+          revisionItem('Kitchen', 'Recessed light', { quantity: 6 }),
+          revisionItem('Kitchen', 'Tile floor', { quantity: 1, unit: 'SQFT' }),
+        ],
+      }
+    )
+
+    expect(diff.unchangedLineItems).toBe(1)
+    expect(diff.lineItems).toHaveLength(1)
+    expect(diff.lineItems[0].fields).toEqual([{ field: 'quantity', from: 4, to: 6 }])
+  })
+})
+
+test.describe('markRevisionEdits', () => {
+  const estimateId = 'est-1'
+
+  test('keeps fields edited in the estimate', () => {
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [] },
+      { rooms: [revisionRoom('Kitchen', { length_ft: 14, width_ft: 11 })], lineItems: [] }
+    )
+
+    const marked = markRevisionEdits(diff, {
+      estimateId,
+      rooms: new Map([['room-Kitchen', currentRoom(KITCHEN, { length_ft: 13 })]]),
+      lineItems: new Map(),
+    })
+
+    const [change] = marked.rooms
+    expect(change.edited).toBe(true)
+    expect(change.fields).toEqual([
+      { field: 'length_ft', from: 12, to: 14, current: 13, kept: 'Edited in the estimate' },
+      { field: 'width_ft', from: 10, to: 11, current: 10, kept: null },
+    ])
+    expect(isRevisionChangeApplicable(change)).toBe(true)
+  })
+
+  test('a change whose fields are all kept does nothing', () => {
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [] },
+      { rooms: [revisionRoom('Kitchen', { length_ft: 14 })], lineItems: [] }
+    )
+
+    const marked = markRevisionEdits(diff, {
+      estimateId,
+      rooms: new Map([['room-Kitchen', currentRoom(KITCHEN, { length_ft: 13 })]]),
+      lineItems: new Map(),
+    })
+
+    expect(isRevisionChangeApplicable(marked.rooms[0])).toBe(false)
+    expect(defaultRevisionSelection(marked).size).toBe(0)
+  })
+
+  test('a value the estimate already has is not an edit to keep', () => {
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [] },
+      { rooms: [revisionRoom('Kitchen', { length_ft: 14 })], lineItems: [] }
+    )
+
+    const marked = markRevisionEdits(diff, {
+      estimateId,
+      rooms: new Map([['room-Kitchen', currentRoom(KITCHEN, { length_ft: 14 })]]),
+      lineItems: new Map(),
+    })
+
+    expect(marked.rooms[0].fields[0].kept).toBeNull()
+  })
+
+  test('changes to rooms that are gone or already out of scope cannot be applied', () => {
+    const pantry = baseRoom('Pantry')
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN, pantry], line_items: [] },
+      { rooms: [revisionRoom('Kitchen', { length_ft: 14 })], lineItems: [] }
+    )
+
+    const gone = markRevisionEdits(diff, { estimateId, rooms: new Map(), lineItems: new Map() })
+    expect(gone.rooms.map(c => c.note)).toEqual(['No longer in the project', 'No longer in the project'])
+    expect(gone.rooms.every(c => !isRevisionChangeApplicable(c))).toBe(true)
+
+    const outOfScope = markRevisionEdits(diff, {
+      estimateId,
+      rooms: new Map([['room-Pantry', currentRoom(pantry, { is_in_scope: false })]]),
+      lineItems: new Map(),
+    })
+    expect(outOfScope.rooms[1]).toMatchObject({ kind: 'removed', roomId: null, note: 'Already out of scope' })
+  })
+
+  test('flags removals of priced items and leaves them unselected', () => {
+    const trim = baseItem('Kitchen', 'Trim')
+    const outlet = baseItem('Kitchen', 'Outlet')
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [trim, outlet] },
+      { rooms: [], lineItems: [revisionItem('Kitchen', 'Backsplash')] }
+    )
+
+    const marked = markRevisionEdits(diff, {
+      estimateId,
+      rooms: new Map(),
+      lineItems: new Map([
+        ['li-Trim', currentItem(trim, { direct_cost: 250 })],
+        ['li-Outlet', currentItem(outlet)],
+      ]),
+    })
+
+    expect(marked.lineItems.map(c => [c.id, c.kind, c.edited ?? null, c.note ?? null])).toEqual([
+      ['item:0:-', 'removed', true, 'Priced in the estimate'],
+      ['item:1:-', 'removed', false, null],
+      ['item:-:0', 'added', null, null],
+    ])
+    expect(Array.from(defaultRevisionSelection(marked))).toEqual(['item:1:-', 'item:-:0'])
+  })
+
+  test('keeps quantities measured on the plans or following the room', () => {
+    const light = baseItem('Kitchen', 'Recessed light', { quantity: 4 })
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [light] },
+      { rooms: [], lineItems: [revisionItem('Kitchen', 'Recessed light', { quantity: 6 })] }
+    )
+
+    const measured = markRevisionEdits(diff, {
+      estimateId,
+      rooms: new Map(),
+      lineItems: new Map([['li-Recessed light', currentItem(light, { calc_source: 'takeoff', quantity: 5 })]]),
+    })
+    expect(measured.lineItems[0].fields[0]).toMatchObject({ current: 5, kept: 'Measured on the plans' })
+
+    const derived = markRevisionEdits(diff, {
+      estimateId,
+      rooms: new Map(),
+      lineItems: new Map([['li-Recessed light', currentItem(light, { calc_source: 'room_dimensions' })]]),
+    })
+    expect(derived.lineItems[0].fields[0].kept).toBe('Follows the room area')
+  })
+
+  test('changes to items outside the estimate or removed from it cannot be applied', () => {
+    const light = baseItem('Kitchen', 'Recessed light', { quantity: 4 })
+    const diff = diffPlanRevision(
+      { rooms: [KITCHEN], line_items: [light] },
+      { rooms: [], lineItems: [revisionItem('Kitchen', 'Recessed light', { quantity: 6 })] }
+    )
+
+    const otherEstimate = markRevisionEdits(diff, {
+      estimateId,
+      rooms: new Map(),
+      lineItems: new Map([['li-Recessed light', currentItem(light, { estimate_id: 'est-2' })]]),
+    })
+    expect(otherEstimate.lineItems[0]).toMatchObject({ lineItemId: null, note: 'Not in this estimate' })
+
+    const inactive = markRevisionEdits(diff, {
+      estimateId,
+      rooms: new Map(),
+      lineItems: new Map([['li-Recessed light', currentItem(light, { is_active: false })]]),
+    })
+    expect(inactive.lineItems[0]).toMatchObject({ lineItemId: null, note: 'Removed from the estimate' })
+    expect(isRevisionChangeApplicable(inactive.lineItems[0])).toBe(false)
+  })
+})
+
+test.describe('normalization', () => {
+  test('revision rooms read zero and blank values as unstated', () => {
+    expect(revisionRoomFromParsed({ name: ' Den ', level: '', type: '  ', area_sqft: 0, length_ft: 10 })).toEqual(
+      revisionRoom('Den', { level: null, length_ft: 10 })
+    )
+  })
+
+  test('scaffold items take their notes, a normalized unit and defaults', () => {
+    expect(scaffoldLineItemValues({ description: 'Tile floor', room_name: 'Kitchen', unit: 'SF', notes: 'Porcelain' })).toEqual({
+      room_name: 'Kitchen',
+      scaffold_description: 'Tile floor',
+      description: 'Tile floor — Porcelain',
+      category: 'Other',
+      cost_code: '999',
+      quantity: 1,
+      unit: 'SQFT',
+    })
+    expect(scaffoldLineItemValues({ description: 'Outlet', room_name: 'Kitchen', quantity: 3 })).toMatchObject({ quantity: 3, unit: 'EA' })
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Schedule line items (lib/plans/schedule-items.ts)
+ *
+ * Counting door, window and room finish schedule rows into line items:
+ * grouping by type, door cost codes, hardware sets, floor finish matching,
+ * room areas for finishes and selection titles on allowance cost codes.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  SCHEDULE_ROOM_NAME,
+  buildScheduleLineItems,
+  doorLineItems,
+  finishLineItems,
+  matchScheduleRoom,
+  windowLineItems,
+} from '@/lib/plans/schedule-items'
+import { doorScheduleRow, roomFinishRow, windowScheduleRow } from './factories'
+
+test.describe('windowLineItems', () => {
+  test('counts windows per type', () => {
+    const items = windowLineItems([
+      windowScheduleRow('W1', { type: 'Casement', size: '3040', quantity: 2 }),
+      windowScheduleRow('W2', { type: 'casement', size: '2030' }),
+      windowScheduleRow('W3', { type: 'Double hung', size: '3040', quantity: 0 }),
+    ])
+
+    expect(items).toEqual([
+      {
+        description: 'Windows – Casement',
+        category: 'Windows',
+        cost_code: '520',
+        room_name: SCHEDULE_ROOM_NAME,
+        quantity: 3,
+        unit: 'EA',
+        notes: 'Marks W1, W2; sizes 3040, 2030',
+        selection_title: 'Windows – Casement',
+        source_row_ids: ['w-W1', 'w-W2'],
+      },
+      expect.objectContaining({ description: 'Windows – Double hung', quantity: 1, notes: 'Marks W3; sizes 3040' }),
+    ])
+  })
+
+  test('groups untyped windows together', () => {
+    const items = windowLineItems([windowScheduleRow('W1'), windowScheduleRow('W2')])
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({ description: 'Windows – Window', quantity: 2, notes: 'Marks W1, W2' })
+  })
+})
+
+test.describe('doorLineItems', () => {
+  test('codes entry, other exterior and interior doors', () => {
+    const items = doorLineItems([
+      doorScheduleRow('101', { type: 'Fiberglass', location: 'Front door' }),
+      doorScheduleRow('102', { type: 'Sliding glass', notes: 'Patio' }),
+      doorScheduleRow('201', { type: 'Solid core flush', quantity: 3 }),
+    ])
+
+    expect(items.map(i => [i.description, i.category, i.cost_code, i.quantity])).toEqual([
+      ['Exterior doors – Fiberglass', 'Entry Door', '521', 1],
+      ['Exterior doors – Sliding glass', 'Doors', '522', 1],
+      ['Interior doors – Solid core flush', 'Doors', '710', 3],
+    ])
+  })
+
+  test('titles selections only on allowance cost codes', () => {
+    const items = doorLineItems([
+      doorScheduleRow('101', { type: 'Fiberglass', location: 'Entry' }),
+      doorScheduleRow('102', { type: 'Sliding glass', location: 'Patio' }),
+    ])
+
+    expect(items.map(i => i.selection_title)).toEqual(['Exterior doors – Fiberglass', null])
+  })
+
+  test('adds one hardware item per hardware set', () => {
+    const items = doorLineItems([
+      doorScheduleRow('201', { type: 'Flush', hardware: 'Passage set' }),
+      doorScheduleRow('202', { type: 'Flush', hardware: 'passage set', quantity: 2 }),
+      doorScheduleRow('203', { type: 'Flush', hardware: 'Privacy set' }),
+      doorScheduleRow('204', { type: 'Flush' }),
+    ])
+
+    expect(items.filter(i => i.cost_code === '810')).toEqual([
+      expect.objectContaining({ description: 'Door hardware – Passage set', quantity: 3, notes: 'Doors 201, 202' }),
+      expect.objectContaining({ description: 'Door hardware – Privacy set', quantity: 1, notes: 'Doors 203' }),
+    ])
+  })
+})
+
+test.describe('matchScheduleRoom', () => {
+  const ROOMS = ['Kitchen', 'Primary Bath', 'Bedroom 2']
+
+  test('matches names ignoring case and spacing', () => {
+    expect(matchScheduleRoom('KITCHEN', ROOMS)).toBe('Kitchen')
+    expect(matchScheduleRoom('Primary  Bath', ROOMS)).toBe('Primary Bath')
+  })
+
+  test('ignores a dashed suffix on the schedule label', () => {
+    expect(matchScheduleRoom('Kitchen – 101', ROOMS)).toBe('Kitchen')
+  })
+
+  test('is null when no room matches', () => {
+    expect(matchScheduleRoom('Laundry', ROOMS)).toBeNull()
+    expect(matchScheduleRoom('Bedroom', ROOMS)).toBeNull()
+  })
+})
+
+test.describe('finishLineItems', () => {
+  const ROOMS = [{ name: 'Kitchen', area_sqft: 180 }, { name: 'Primary Bath', area_sqft: 65 }]
+
+  test('codes each floor finish, reading tile and vinyl before wood', () => {
+    const items = finishLineItems([
+      roomFinishRow('Kitchen', { floor: 'Wood-look porcelain tile' }),
+      roomFinishRow('Den', { floor: 'LVP (wood look)' }),
+      roomFinishRow('Bedroom', { floor: 'Carpet' }),
+      roomFinishRow('Living', { floor: 'White oak' }),
+      roomFinishRow('Garage', { floor: 'Sealed concrete' }),
+    ], ROOMS)
+
+    expect(items.map(i => [i.room_name, i.cost_code, i.category])).toEqual([
+      ['Kitchen', '728', 'Tile'],
+      ['Den', '733', 'Flooring'],
+      ['Bedroom', '737', 'Flooring'],
+      ['Living', '734', 'Flooring'],
+    ])
+  })
+
+  test('fills the area of a matching parsed room and leaves others for the estimator', () => {
+    const items = finishLineItems([
+      roomFinishRow('KITCHEN', { floor: 'Porcelain tile', base: 'Tile cove' }),
+      roomFinishRow('Mudroom', { floor: 'Porcelain tile' }),
+    ], ROOMS)
+
+    expect(items[0]).toEqual({
+      description: 'Floor tile – Porcelain tile',
+      category: 'Tile',
+      cost_code: '728',
+      room_name: 'Kitchen',
+      quantity: 180,
+      unit: 'SF',
+      notes: 'Base: Tile cove',
+      selection_title: 'Porcelain tile – KITCHEN',
+      source_row_ids: ['f-KITCHEN'],
+    })
+    expect(items[1]).toMatchObject({ room_name: 'Mudroom', quantity: null })
+  })
+
+  test('adds wall tile without a quantity', () => {
+    const items = finishLineItems([roomFinishRow('Primary Bath', { wall: 'Ceramic subway tile', floor: null })], ROOMS)
+
+    expect(items).toEqual([expect.objectContaining({
+      description: 'Wall tile – Ceramic subway tile',
+      cost_code: '728',
+      room_name: 'Primary Bath',
+      quantity: null,
+      selection_title: 'Ceramic subway tile – Primary Bath',
+    })])
+  })
+
+  test('titles no selection on non-allowance finishes', () => {
+    const items = finishLineItems([roomFinishRow('Den', { floor: 'Vinyl plank' })])
+    expect(items[0].selection_title).toBeNull()
+  })
+})
+
+test.describe('buildScheduleLineItems', () => {
+  test('lists windows, then doors, then finishes', () => {
+    const items = buildScheduleLineItems({
+      windows: [windowScheduleRow('W1', { type: 'Casement' })],
+      doors: [doorScheduleRow('101', { type: 'Flush', hardware: 'Passage set' })],
+      finishes: [roomFinishRow('Kitchen', { floor: 'Tile' })],
+    }, [{ name: 'Kitchen', area_sqft: 180 }])
+
+    expect(items.map(i => i.cost_code)).toEqual(['520', '710', '810', '728'])
+    expect(items[3].quantity).toBe(180)
+  })
+
+  test('is empty for empty schedules', () => {
+    expect(buildScheduleLineItems({ windows: [], doors: [], finishes: [] })).toEqual([])
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Pricing suggestions (lib/pricing/suggestions.ts)
+ *
+ * Which pricing events count (superseded, unwanted and unpriced events are
+ * left out), one observation per line item, how observations rank by
+ * commit stage and age, and the suggestion built from them: weighted
+ * median, spread, confidence and the actuals correction.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  CORRECTION_LIMITS,
+  buildPricingSuggestion,
+  dedupeObservations,
+  formatPricingSuggestion,
+  groupObservationsByTaskKey,
+  observationWeight,
+} from '@/lib/pricing/suggestions'
+import { pricingEvent, pricingObservation } from './factories'
+
+const NOW = new Date('2026-06-01T00:00:00Z')
+const TODAY = '2026-06-01T00:00:00Z'
+const ONE_YEAR_AGO = '2025-06-01T00:00:00Z'
+const TWO_YEARS_AGO = '2024-06-01T00:00:00Z'
+
+const TILE_KEY = '728|tile floor|sf'
+
+test.describe('groupObservationsByTaskKey', () => {
+  test('groups events under the task key rebuilt from cost code, description and unit', () => {
+    const byKey = groupObservationsByTaskKey([
+      pricingEvent({ line_item_id: 'li-1' }),
+      pricingEvent({ line_item_id: 'li-2', unit: 'sf', final_unit_cost: '14.5', meta: { costCode: '728', description: '  Tile   FLOOR ' } }),
+    ], [TILE_KEY])
+
+    expect([...byKey.keys()]).toEqual([TILE_KEY])
+    expect(byKey.get(TILE_KEY)).toEqual([
+      { lineItemId: 'li-1', unitCost: 12, observedAt: TODAY, stage: 'contract_signed' },
+      { lineItemId: 'li-2', unitCost: 14.5, observedAt: TODAY, stage: null },
+    ])
+  })
+
+  test('leaves out superseded events', () => {
+    const byKey = groupObservationsByTaskKey([
+      pricingEvent({ line_item_id: 'li-1', final_unit_cost: 10, superseded_at: TODAY }),
+      pricingEvent({ line_item_id: 'li-1', final_unit_cost: 12 }),
+    ], [TILE_KEY])
+
+    expect(byKey.get(TILE_KEY)?.map(o => o.unitCost)).toEqual([12])
+  })
+
+  test('leaves out keys that were not asked for, unpriced events and events without a description', () => {
+    const byKey = groupObservationsByTaskKey([
+      pricingEvent({ meta: { costCode: '733', description: 'Vinyl plank' } }),
+      pricingEvent({ final_unit_cost: 0 }),
+      pricingEvent({ final_unit_cost: null }),
+      pricingEvent({ meta: { costCode: '728' } }),
+      pricingEvent({ meta: null }),
+    ], [TILE_KEY])
+
+    expect(byKey.size).toBe(0)
+  })
+})
+
+test.describe('observationWeight', () => {
+  test('ranks signed and approved commits above final bids above proposals', () => {
+    const weight = (stage: string | null) => observationWeight(pricingObservation(10, TODAY, { stage }), NOW)
+
+    expect(weight('contract_signed')).toBe(1)
+    expect(weight('change_order_approved')).toBe(1)
+    expect(weight('bid_final')).toBe(0.8)
+    expect(weight('proposal_created')).toBe(0.5)
+    expect(weight('unknown_stage')).toBe(0.5)
+    expect(weight(null)).toBe(0.5)
+  })
+
+  test('halves each year', () => {
+    expect(observationWeight(pricingObservation(10, ONE_YEAR_AGO), NOW)).toBeCloseTo(0.5, 3)
+    expect(observationWeight(pricingObservation(10, TWO_YEARS_AGO), NOW)).toBeCloseTo(0.25, 3)
+  })
+
+  test('does not boost observations dated in the future', () => {
+    expect(observationWeight(pricingObservation(10, '2026-07-01T00:00:00Z'), NOW)).toBe(1)
+  })
+})
+
+test.describe('dedupeObservations', () => {
+  test('keeps the latest commit per line item', () => {
+    const deduped = dedupeObservations([
+      pricingObservation(10, ONE_YEAR_AGO, { lineItemId: 'li-1', stage: 'bid_final' }),
+      pricingObservation(11, TODAY, { lineItemId: 'li-1', stage: 'contract_signed' }),
+      pricingObservation(9, ONE_YEAR_AGO, { lineItemId: 'li-1', stage: 'proposal_created' }),
+    ])
+
+    expect(deduped).toHaveLength(1)
+    expect(deduped[0]).toMatchObject({ unitCost: 11, stage: 'contract_signed' })
+  })
+
+  test('carries an actual recorded on an earlier commit forward', () => {
+    const deduped = dedupeObservations([
+      pricingObservation(10, ONE_YEAR_AGO, { lineItemId: 'li-1', actualUnitCost: 13 }),
+      pricingObservation(11, TODAY, { lineItemId: 'li-1' }),
+    ])
+
+    expect(deduped[0]).toMatchObject({ unitCost: 11, actualUnitCost: 13 })
+  })
+
+  test('keeps every observation without a line item', () => {
+    expect(dedupeObservations([pricingObservation(10, TODAY), pricingObservation(10, TODAY)])).toHaveLength(2)
+  })
+})
+
+test.describe('buildPricingSuggestion', () => {
+  test('needs at least two line items of history', () => {
+    expect(buildPricingSuggestion(TILE_KEY, [pricingObservation(10, TODAY)], NOW)).toBeNull()
+    expect(buildPricingSuggestion(TILE_KEY, [
+      pricingObservation(10, ONE_YEAR_AGO, { lineItemId: 'li-1' }),
+      pricingObservation(11, TODAY, { lineItemId: 'li-1' }),
+    ], NOW)).toBeNull()
+  })
+
+  test('ignores unpriced observations', () => {
+    expect(buildPricingSuggestion(TILE_KEY, [pricingObservation(10, TODAY), pricingObservation(0, TODAY)], NOW)).toBeNull()
+  })
+
+  test('reports the median with its spread', () => {
+    const suggestion = buildPricingSuggestion(TILE_KEY, [
+      pricingObservation(90, TODAY),
+      pricingObservation(100, ONE_YEAR_AGO),
+      pricingObservation(110, TODAY),
+    ], NOW)
+
+    expect(suggestion).toMatchObject({
+      taskKey: TILE_KEY,
+      typicalUnitCost: 100,
+      medianUnitCost: 100,
+      spreadPercent: 0.1,
+      low: 90,
+      high: 110,
+      sampleCount: 3,
+      actualsCorrection: null,
+      actualsSampleCount: 0,
+      lastUsedAt: TODAY,
+      confidence: 'medium',
+    })
+  })
+
+  test('lets recent signed prices outrank old proposals', () => {
+    const suggestion = buildPricingSuggestion(TILE_KEY, [
+      pricingObservation(100, TODAY),
+      pricingObservation(200, TWO_YEARS_AGO, { stage: 'proposal_created' }),
+      pricingObservation(210, TWO_YEARS_AGO, { stage: 'proposal_created' }),
+    ], NOW)
+
+    // The unweighted median would be 200
+    expect(suggestion?.medianUnitCost).toBe(100)
+  })
+
+  test('rates confidence by sample count and spread', () => {
+    const tight = [98, 99, 100, 101, 102].map(cost => pricingObservation(cost, TODAY))
+    expect(buildPricingSuggestion(TILE_KEY, tight, NOW)?.confidence).toBe('high')
+    expect(buildPricingSuggestion(TILE_KEY, tight.slice(0, 4), NOW)?.confidence).toBe('medium')
+    expect(buildPricingSuggestion(TILE_KEY, tight.slice(0, 2), NOW)?.confidence).toBe('low')
+
+    const wide = [50, 100, 200, 400, 800].map(cost => pricingObservation(cost, TODAY))
+    expect(buildPricingSuggestion(TILE_KEY, wide, NOW)?.confidence).toBe('low')
+  })
+
+  test('corrects the typical price by the actual / estimated ratio once two jobs have actuals', () => {
+    const suggestion = buildPricingSuggestion(TILE_KEY, [
+      pricingObservation(100, TODAY, { lineItemId: 'li-1', actualUnitCost: 120 }),
+      pricingObservation(100, TODAY, { lineItemId: 'li-2', actualUnitCost: 130 }),
+    ], NOW)
+
+    expect(suggestion).toMatchObject({
+      medianUnitCost: 100,
+      actualsCorrection: 1.25,
+      actualsSampleCount: 2,
+      typicalUnitCost: 125,
+    })
+  })
+
+  test('skips the correction with a single actual and clamps extreme ratios', () => {
+    const single = buildPricingSuggestion(TILE_KEY, [
+      pricingObservation(100, TODAY, { lineItemId: 'li-1', actualUnitCost: 150 }),
+      pricingObservation(100, TODAY, { lineItemId: 'li-2' }),
+    ], NOW)
+    expect(single).toMatchObject({ actualsCorrection: null, actualsSampleCount: 1, typicalUnitCost: 100 })
+
+    const extreme = buildPricingSuggestion(TILE_KEY, [
+      pricingObservation(100, TODAY, { lineItemId: 'li-1', actualUnitCost: 500 }),
+      pricingObservation(100, TODAY, { lineItemId: 'li-2', actualUnitCost: 400 }),
+    ], NOW)
+    expect(extreme?.actualsCorrection).toBe(CORRECTION_LIMITS.max)
+  })
+})
+
+test.describe('formatPricingSuggestion', () => {
+  test('shows the typical price, unit, sample count and spread', () => {
+    const suggestion = buildPricingSuggestion(TILE_KEY, [
+      pricingObservation(38, TODAY),
+      pricingObservation(42.5, TODAY),
+      pricingObservation(47, TODAY),
+    ], NOW)!
+
+    expect(formatPricingSuggestion(suggestion, 'SF')).toBe('your typical: $42.50/SF (n=3, ±11%)')
+    expect(formatPricingSuggestion(suggestion)).toBe('your typical: $42.50 (n=3, ±11%)')
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * On-plan takeoff helpers (lib/takeoff.ts)
+ *
+ * Which line item units each kind of measurement can drive, typed lengths
+ * and measurement quantities before and after calibration.
+ */
+
+import { test, expect } from '@playwright/test'
+import {
+  calibrationScale,
+  measurementQuantity,
+  parseLengthFeet,
+  takeoffKindForUnit,
+  type TakeoffPoint,
+} from '@/lib/takeoff'
+
+test.describe('takeoffKindForUnit', () => {
+  test('maps each takeoff unit to its kind', () => {
+    expect(takeoffKindForUnit('LF')).toBe('linear')
+    expect(takeoffKindForUnit('SQFT')).toBe('area')
+    expect(takeoffKindForUnit('EA')).toBe('count')
+  })
+
+  test('accepts the units the estimate table uses', () => {
+    expect(takeoffKindForUnit('SF')).toBe('area')
+    expect(takeoffKindForUnit(' sq. ft ')).toBe('area')
+    expect(takeoffKindForUnit('each')).toBe('count')
+  })
+
+  test('is null for units takeoff cannot set', () => {
+    expect(takeoffKindForUnit('SQ')).toBeNull()
+    expect(takeoffKindForUnit('ROOM')).toBeNull()
+    expect(takeoffKindForUnit('')).toBeNull()
+    expect(takeoffKindForUnit(null)).toBeNull()
+  })
+})
+
+test.describe('parseLengthFeet', () => {
+  test('reads feet, inches and feet-inches', () => {
+    expect(parseLengthFeet('12')).toBe(12)
+    expect(parseLengthFeet("12'6\"")).toBe(12.5)
+    expect(parseLengthFeet('12 ft 6 in')).toBe(12.5)
+    expect(parseLengthFeet('6"')).toBe(0.5)
+  })
+
+  test('is null for empty, zero and unreadable lengths', () => {
+    expect(parseLengthFeet('')).toBeNull()
+    expect(parseLengthFeet('0')).toBeNull()
+    expect(parseLengthFeet('twelve')).toBeNull()
+  })
+})
+
+test.describe('measurementQuantity', () => {
+  // 100 px = 10 ft
+  const feetPerPixel = calibrationScale([[0, 0], [100, 0]], 10)!
+  const square: TakeoffPoint[] = [[0, 0], [100, 0], [100, 100], [0, 100]]
+
+  test('measures lines and areas on a calibrated page', () => {
+    expect(measurementQuantity('linear', square, feetPerPixel)).toBe(30)
+    expect(measurementQuantity('area', square, feetPerPixel)).toBe(100)
+    expect(measurementQuantity('count', square, feetPerPixel)).toBe(4)
+  })
+
+  test('counts without a calibration; lines and areas need one', () => {
+    expect(measurementQuantity('count', square, null)).toBe(4)
+    expect(measurementQuantity('linear', square, null)).toBeNull()
+    expect(measurementQuantity('area', square, null)).toBeNull()
+  })
+
+  test('is null until the measurement has enough points', () => {
+    expect(measurementQuantity('area', square.slice(0, 2), feetPerPixel)).toBeNull()
+    expect(calibrationScale([[5, 5], [5, 5]], 10)).toBeNull()
+  })
+})
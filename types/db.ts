@@ -16,6 +16,7 @@ export type Json =
  * Transitions (ONLY these are allowed):
  * - draft → bid_final
  * - bid_final → contract_signed
+ * - bid_final → draft (revise bid - bumps estimates.revision)
  * - contract_signed → completed
  * 
  * PRICING TRUTH is captured at:
@@ -50,6 +51,7 @@ export interface Database {
           missing_data_count: number | null
           last_summary_update: string | null
           status: 'draft' | 'active' | 'completed' | null
+          cost_region: string | null
           created_at: string
         }
         Insert: {
@@ -71,6 +73,7 @@ export interface Database {
           missing_data_count?: number | null
           last_summary_update?: string | null
           status?: 'draft' | 'active' | 'completed' | null
+          cost_region?: string | null
           created_at?: string
         }
         Update: {
@@ -92,6 +95,7 @@ export interface Database {
           missing_data_count?: number | null
           last_summary_update?: string | null
           status?: 'draft' | 'active' | 'completed' | null
+          cost_region?: string | null
           created_at?: string
         }
         Relationships: []
@@ -164,7 +168,7 @@ export interface Database {
           direct_cost: number | null
           margin_percent: number | null
           client_price: number | null
-          calc_source: 'manual' | 'room_dimensions'
+          calc_source: 'manual' | 'room_dimensions' | 'takeoff'
           selection_id: string | null
           task_library_id: string | null
           pricing_source: string | null
@@ -172,6 +176,20 @@ export interface Database {
           matched_via: string | null
           is_allowance: boolean | null
           is_active: boolean | null
+          change_order_id: string | null
+          alternate_ids: string[]        // Empty = base scope; otherwise optional alternates
+          assembly_id: string | null
+          assembly_item_id: string | null
+          assembly_instance_id: string | null  // Shared by items from one assembly insertion
+          assembly_count: number | null
+          quantity_expression: string | null   // Re-evaluated on room dimension changes
+          labor_rate_id: string | null
+          labor_hours_per_unit: number | null  // Worker-hours per unit; drives labor_hours
+          labor_hours: number | null           // Derived: quantity × hours/unit × productivity
+          source_upload_id: string | null      // Recording the item was parsed from
+          source_segment_ids: string[]         // uploads.transcript_segments ids
+          source_start_sec: number | null
+          source_end_sec: number | null
           created_at: string
           updated_at: string
         }
@@ -198,7 +216,7 @@ export interface Database {
           direct_cost?: number | null
           margin_percent?: number | null
           client_price?: number | null
-          calc_source?: 'manual' | 'room_dimensions'
+          calc_source?: 'manual' | 'room_dimensions' | 'takeoff'
           selection_id?: string | null
           task_library_id?: string | null
           pricing_source?: string | null
@@ -206,6 +224,20 @@ export interface Database {
           matched_via?: string | null
           is_allowance?: boolean | null
           is_active?: boolean | null
+          change_order_id?: string | null
+          alternate_ids?: string[]
+          assembly_id?: string | null
+          assembly_item_id?: string | null
+          assembly_instance_id?: string | null
+          assembly_count?: number | null
+          quantity_expression?: string | null
+          labor_rate_id?: string | null
+          labor_hours_per_unit?: number | null
+          labor_hours?: number | null
+          source_upload_id?: string | null
+          source_segment_ids?: string[]
+          source_start_sec?: number | null
+          source_end_sec?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -232,7 +264,7 @@ export interface Database {
           direct_cost?: number | null
           margin_percent?: number | null
           client_price?: number | null
-          calc_source?: 'manual' | 'room_dimensions'
+          calc_source?: 'manual' | 'room_dimensions' | 'takeoff'
           selection_id?: string | null
           task_library_id?: string | null
           pricing_source?: string | null
@@ -240,6 +272,20 @@ export interface Database {
           matched_via?: string | null
           is_allowance?: boolean | null
           is_active?: boolean | null
+          change_order_id?: string | null
+          alternate_ids?: string[]
+          assembly_id?: string | null
+          assembly_item_id?: string | null
+          assembly_instance_id?: string | null
+          assembly_count?: number | null
+          quantity_expression?: string | null
+          labor_rate_id?: string | null
+          labor_hours_per_unit?: number | null
+          labor_hours?: number | null
+          source_upload_id?: string | null
+          source_segment_ids?: string[]
+          source_start_sec?: number | null
+          source_end_sec?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -298,6 +344,10 @@ export interface Database {
           floor_area_sqft: number | null
           wall_area_sqft: number | null
           ceiling_area_sqft: number | null
+          polygon: Array<[number, number]> | null     // Outline in feet (migration 053)
+          polygon_area_sqft: number | null
+          perimeter_ft: number | null
+          area_source: string | null    // 'dimensions' | 'geometry'
           is_in_scope: boolean
           source: string | null
           is_active: boolean | null
@@ -326,6 +376,10 @@ export interface Database {
           floor_area_sqft?: number | null
           wall_area_sqft?: number | null
           ceiling_area_sqft?: number | null
+          polygon?: Array<[number, number]> | null
+          polygon_area_sqft?: number | null
+          perimeter_ft?: number | null
+          area_source?: string | null
           is_in_scope?: boolean
           source?: string | null
           is_active?: boolean | null
@@ -349,6 +403,10 @@ export interface Database {
           floor_area_sqft?: number | null
           wall_area_sqft?: number | null
           ceiling_area_sqft?: number | null
+          polygon?: Array<[number, number]> | null
+          polygon_area_sqft?: number | null
+          perimeter_ft?: number | null
+          area_source?: string | null
           is_in_scope?: boolean
           source?: string | null
           is_active?: boolean | null
@@ -432,30 +490,51 @@ export interface Database {
           id: string
           project_id: string
           file_url: string
-          kind: 'photo' | 'blueprint' | 'audio'
+          kind: 'photo' | 'blueprint' | 'audio' | 'spec' | 'contract' | 'other'
           original_filename: string | null
           file_type: 'pdf' | 'image' | 'audio' | 'video' | 'other' | null
-          tag: 'blueprint' | 'spec' | 'photo' | 'other' | null
+          tag: 'blueprint' | 'spec' | 'photo' | 'contract' | 'other' | null
+          contract_id: string | null
+          is_immutable: boolean
+          transcript: string | null
+          transcript_segments: Json | null     // TranscriptSegment[]
+          transcript_status: TranscriptStatus | null
+          speaker_roles: Json                  // Record<speaker label, SpeakerRole>
+          authoritative_speakers: string[]
           created_at: string
         }
         Insert: {
           id?: string
           project_id: string
           file_url: string
-          kind: 'photo' | 'blueprint' | 'audio'
+          kind: 'photo' | 'blueprint' | 'audio' | 'spec' | 'contract' | 'other'
           original_filename?: string | null
           file_type?: 'pdf' | 'image' | 'audio' | 'video' | 'other' | null
-          tag?: 'blueprint' | 'spec' | 'photo' | 'other' | null
+          tag?: 'blueprint' | 'spec' | 'photo' | 'contract' | 'other' | null
+          contract_id?: string | null
+          is_immutable?: boolean
+          transcript?: string | null
+          transcript_segments?: Json | null
+          transcript_status?: TranscriptStatus | null
+          speaker_roles?: Json
+          authoritative_speakers?: string[]
           created_at?: string
         }
         Update: {
           id?: string
           project_id?: string
           file_url?: string
-          kind?: 'photo' | 'blueprint' | 'audio'
+          kind?: 'photo' | 'blueprint' | 'audio' | 'spec' | 'contract' | 'other'
           original_filename?: string | null
           file_type?: 'pdf' | 'image' | 'audio' | 'video' | 'other' | null
-          tag?: 'blueprint' | 'spec' | 'photo' | 'other' | null
+          tag?: 'blueprint' | 'spec' | 'photo' | 'contract' | 'other' | null
+          contract_id?: string | null
+          is_immutable?: boolean
+          transcript?: string | null
+          transcript_segments?: Json | null
+          transcript_status?: TranscriptStatus | null
+          speaker_roles?: Json
+          authoritative_speakers?: string[]
           created_at?: string
         }
         Relationships: [
@@ -475,7 +554,7 @@ export interface Database {
           estimate_id: string | null
           upload_id: string | null
           file_urls: Json // string[]
-          status: 'uploaded' | 'processing' | 'parsed' | 'failed' | 'applied'
+          status: 'uploaded' | 'queued' | 'processing' | 'parsed' | 'failed' | 'cancelled' | 'applied'
           parse_result_json: Json | null
           pages_of_interest: Json | null
           source_file_pages: number | null
@@ -489,6 +568,14 @@ export interface Database {
           applied_rooms_count: number | null
           applied_line_items_count: number | null
           excluded_rooms_count: number | null
+          progress: Json // PlanParseProgress
+          sheets: Json // PlanParseSheet[]
+          attempts: number
+          heartbeat_at: string | null
+          claim_id: string | null
+          cancel_requested_at: string | null
+          base_plan_parse_id: string | null
+          applied_snapshot: Json | null // PlanParseAppliedSnapshot
         }
         Insert: {
           id?: string
@@ -496,7 +583,7 @@ export interface Database {
           estimate_id?: string | null
           upload_id?: string | null
           file_urls?: Json
-          status?: 'uploaded' | 'processing' | 'parsed' | 'failed' | 'applied'
+          status?: 'uploaded' | 'queued' | 'processing' | 'parsed' | 'failed' | 'cancelled' | 'applied'
           parse_result_json?: Json | null
           pages_of_interest?: Json | null
           source_file_pages?: number | null
@@ -510,6 +597,14 @@ export interface Database {
           applied_rooms_count?: number | null
           applied_line_items_count?: number | null
           excluded_rooms_count?: number | null
+          progress?: Json
+          sheets?: Json
+          attempts?: number
+          heartbeat_at?: string | null
+          claim_id?: string | null
+          cancel_requested_at?: string | null
+          base_plan_parse_id?: string | null
+          applied_snapshot?: Json | null
         }
         Update: {
           id?: string
@@ -517,7 +612,7 @@ export interface Database {
           estimate_id?: string | null
           upload_id?: string | null
           file_urls?: Json
-          status?: 'uploaded' | 'processing' | 'parsed' | 'failed' | 'applied'
+          status?: 'uploaded' | 'queued' | 'processing' | 'parsed' | 'failed' | 'cancelled' | 'applied'
           parse_result_json?: Json | null
           pages_of_interest?: Json | null
           source_file_pages?: number | null
@@ -531,6 +626,14 @@ export interface Database {
           applied_rooms_count?: number | null
           applied_line_items_count?: number | null
           excluded_rooms_count?: number | null
+          progress?: Json
+          sheets?: Json
+          attempts?: number
+          heartbeat_at?: string | null
+          claim_id?: string | null
+          cancel_requested_at?: string | null
+          base_plan_parse_id?: string | null
+          applied_snapshot?: Json | null
         }
         Relationships: [
           {
@@ -570,6 +673,8 @@ export interface Database {
            */
           status: EstimateStatus
           status_changed_at: string | null
+          revision: number               // Bumped each time a bid_final estimate is revised
+          selected_alternate_ids: string[]  // Alternates accepted into the job (in estimates.total)
           created_at: string
         }
         Insert: {
@@ -580,6 +685,8 @@ export interface Database {
           total?: number | null
           status?: EstimateStatus
           status_changed_at?: string | null
+          revision?: number
+          selected_alternate_ids?: string[]
           created_at?: string
         }
         Update: {
@@ -590,6 +697,8 @@ export interface Database {
           total?: number | null
           status?: EstimateStatus
           status_changed_at?: string | null
+          revision?: number
+          selected_alternate_ids?: string[]
           created_at?: string
         }
         Relationships: [
@@ -696,7 +805,10 @@ export interface Database {
           id: string
           user_id: string
           scope: string
-          margin_percent: number
+          margin_percent: number | null
+          overhead_percent: number | null
+          contingency_percent: number | null
+          sales_tax_percent: number | null
           created_at: string
           updated_at: string
         }
@@ -704,7 +816,10 @@ export interface Database {
           id?: string
           user_id: string
           scope: string
-          margin_percent: number
+          margin_percent?: number | null
+          overhead_percent?: number | null
+          contingency_percent?: number | null
+          sales_tax_percent?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -712,7 +827,10 @@ export interface Database {
           id?: string
           user_id?: string
           scope?: string
-          margin_percent?: number
+          margin_percent?: number | null
+          overhead_percent?: number | null
+          contingency_percent?: number | null
+          sales_tax_percent?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -758,9 +876,11 @@ export type PlanParseUpdate = Database['public']['Tables']['plan_parses']['Updat
 /**
  * Plan parse lifecycle status
  * - uploaded:   File uploaded, not yet parsed
- * - processing: Parse job started, AI analyzing
+ * - queued:     Waiting for a worker run (new, yielded or retried)
+ * - processing: A worker run is advancing the job
  * - parsed:     Parse completed successfully, awaiting user review
  * - failed:     Parse failed with error
+ * - cancelled:  Stopped by the user
  * - applied:    User reviewed and applied results to estimate/rooms
  */
 export type PlanParseStatus = PlanParse['status']
@@ -828,7 +948,7 @@ export interface EstimateLineItem {
   matched_via?: 'semantic' | 'fuzzy' | 'cost_code_only'
 
   // Quantity source tracking
-  calc_source?: 'manual' | 'room_dimensions'
+  calc_source?: 'manual' | 'room_dimensions' | 'takeoff'
 
   // Selections + allowances
   selection_id?: string | null
@@ -863,11 +983,13 @@ export type ProjectWithUploadsAndEstimates = Project & {
 // =============================================================================
 
 /**
- * Valid state transitions for estimates
+ * Valid state transitions for estimates.
+ * bid_final → draft is the "revise bid" path and must go through reviseBid()
+ * so the revision is bumped and the superseded commit is recorded.
  */
 export const ESTIMATE_STATUS_TRANSITIONS: Record<EstimateStatus, EstimateStatus[]> = {
   draft: ['bid_final'],
-  bid_final: ['contract_signed'],
+  bid_final: ['contract_signed', 'draft'],
   contract_signed: ['completed'],
   completed: [] // Terminal state
 }
@@ -891,6 +1013,22 @@ export function isPricingTruthState(status: EstimateStatus): boolean {
   return PRICING_TRUTH_STATES.includes(status)
 }
 
+/**
+ * Estimate status history entry - one row per lifecycle transition
+ */
+export interface EstimateStatusHistoryEntry {
+  id: string
+  estimate_id: string
+  project_id: string
+  from_status: EstimateStatus
+  to_status: EstimateStatus
+  revision: number
+  reason: string | null
+  changed_by: string | null
+  created_at: string
+  changed_by_name?: string | null  // Joined from profiles.full_name
+}
+
 // =============================================================================
 // Pricing Feedback System Types (Milestone A)
 // =============================================================================
@@ -930,6 +1068,8 @@ export interface PricingEvent {
   final_unit_cost: number
   user_action: PricingUserAction
   meta: Record<string, unknown>
+  superseded_at: string | null       // Set when the commit was revised (bid re-opened)
+  superseded_revision: number | null
 }
 
 export interface PricingEventInsert {
@@ -1126,6 +1266,370 @@ export interface LineItemActualsUpdate {
   updated_at?: string
 }
 
+// =============================================================================
+// Change Order Types
+// =============================================================================
+
+/**
+ * Change order lifecycle states.
+ *
+ * Transitions (ONLY these are allowed):
+ * - draft → sent
+ * - sent → approved
+ * - draft | sent → rejected
+ *
+ * The delta is applied to the estimate, contract and project tasks
+ * ONLY when a change order reaches 'approved'.
+ */
+export type ChangeOrderStatus = 'draft' | 'sent' | 'approved' | 'rejected'
+
+/**
+ * Kind of change a change order item makes to the signed scope
+ */
+export type ChangeOrderItemType = 'add' | 'remove' | 'modify'
+
+/**
+ * Change order record - a priced delta against a contract_signed estimate
+ */
+export interface ChangeOrder {
+  id: string
+  project_id: string
+  estimate_id: string
+  contract_id: string | null
+  number: number
+  title: string
+  reason: string | null
+  status: ChangeOrderStatus
+  total_delta: number
+  sent_at: string | null
+  approved_at: string | null
+  rejected_at: string | null
+  created_at: string
+  updated_at: string
+  created_by: string | null
+}
+
+/**
+ * Individual line item change within a change order.
+ * previous_* fields snapshot the line item before the change (null for 'add').
+ */
+export interface ChangeOrderItem {
+  id: string
+  change_order_id: string
+  change_type: ChangeOrderItemType
+  line_item_id: string | null
+  project_task_id: string | null
+  description: string
+  cost_code: string | null
+  room_id: string | null
+  room_name: string | null
+  unit: string | null
+  quantity: number | null
+  direct_cost: number | null
+  client_price: number | null
+  previous_quantity: number | null
+  previous_direct_cost: number | null
+  previous_client_price: number | null
+  price_delta: number
+  created_at: string
+}
+
+export interface ChangeOrderWithItems extends ChangeOrder {
+  change_order_items: ChangeOrderItem[]
+}
+
+/**
+ * Valid state transitions for change orders
+ */
+export const CHANGE_ORDER_STATUS_TRANSITIONS: Record<ChangeOrderStatus, ChangeOrderStatus[]> = {
+  draft: ['sent', 'rejected'],
+  sent: ['approved', 'rejected'],
+  approved: [], // Terminal state
+  rejected: [] // Terminal state
+}
+
+/**
+ * Check if a change order status transition is valid
+ */
+export function isValidChangeOrderTransition(from: ChangeOrderStatus, to: ChangeOrderStatus): boolean {
+  return CHANGE_ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+// =============================================================================
+// Estimate Snapshot Types
+// =============================================================================
+
+/**
+ * What caused an estimate snapshot to be taken.
+ * Lifecycle transitions and proposal creation snapshot automatically;
+ * 'manual' snapshots are taken on demand from the Estimate tab.
+ */
+export type EstimateSnapshotTrigger =
+  | 'bid_final'
+  | 'contract_signed'
+  | 'completed'
+  | 'proposal_created'
+  | 'manual'
+
+/**
+ * Line item as frozen inside a snapshot
+ */
+export interface EstimateSnapshotLineItem {
+  id: string
+  description: string | null
+  cost_code: string | null
+  room_id: string | null
+  room_name: string | null
+  unit: string | null
+  quantity: number | null
+  labor_cost: number | null
+  material_cost: number | null
+  direct_cost: number | null
+  margin_percent: number | null
+  client_price: number | null
+  is_allowance: boolean | null
+  is_active: boolean | null
+  alternate_ids?: string[]   // Absent on snapshots taken before alternates existed
+}
+
+/**
+ * Room as frozen inside a snapshot
+ */
+export interface EstimateSnapshotRoom {
+  id: string
+  name: string
+  level: string | null
+  is_in_scope: boolean
+  floor_area_sqft: number | null
+  wall_area_sqft: number | null
+  ceiling_area_sqft: number | null
+}
+
+/**
+ * Totals computed at snapshot time (in-scope, active items only)
+ */
+export interface EstimateSnapshotTotals {
+  total: number
+  direct_cost_total: number
+  line_item_count: number
+  /** Alternates included in the totals (base + these) */
+  selected_alternate_ids?: string[]
+  by_room: Array<{
+    room_id: string | null
+    room_name: string
+    total: number
+  }>
+}
+
+/**
+ * Immutable point-in-time copy of an estimate
+ */
+export interface EstimateSnapshot {
+  id: string
+  estimate_id: string
+  project_id: string
+  trigger: EstimateSnapshotTrigger
+  label: string | null
+  estimate_status: EstimateStatus
+  version: number
+  line_items: EstimateSnapshotLineItem[]
+  rooms: EstimateSnapshotRoom[]
+  totals: EstimateSnapshotTotals
+  created_at: string
+  created_by: string | null
+}
+
+/**
+ * Snapshot without its frozen payload - used for history lists
+ */
+export type EstimateSnapshotSummary = Omit<EstimateSnapshot, 'line_items' | 'rooms'>
+
+// =============================================================================
+// Estimate Alternate Types
+// =============================================================================
+
+/**
+ * Named optional scope package on an estimate (good / better / best).
+ * Line items opt in via estimate_line_items.alternate_ids; items with no
+ * alternates are base scope.
+ */
+export interface EstimateAlternate {
+  id: string
+  estimate_id: string
+  project_id: string
+  name: string
+  description: string | null
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+// =============================================================================
+// Assembly Types
+// =============================================================================
+
+/**
+ * One task in an assembly. quantity_expression is evaluated against the
+ * target room's measures (see lib/assemblies.ts).
+ */
+export interface AssemblyItem {
+  id: string
+  assembly_id: string
+  sort_order: number
+  description: string
+  category: string | null
+  cost_code: string | null
+  unit: string | null
+  quantity_expression: string
+  unit_cost: number | null
+  margin_percent: number | null
+  created_at: string
+}
+
+/**
+ * User-defined kit that expands into several line items when inserted
+ * into a room
+ */
+export interface Assembly {
+  id: string
+  user_id: string
+  name: string
+  description: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AssemblyWithItems extends Assembly {
+  items: AssemblyItem[]
+}
+
+// =============================================================================
+// Labor Rate Types
+// =============================================================================
+
+/**
+ * A user's crew rate for a trade. Line items with labor_hours_per_unit and
+ * a labor rate are costed from hours (see lib/labor.ts).
+ */
+export interface LaborRate {
+  id: string
+  user_id: string
+  trade: string
+  crew_name: string | null
+  cost_code: string | null
+  burdened_hourly_rate: number
+  crew_size: number
+  productivity_factor: number
+  created_at: string
+  updated_at: string
+}
+
+// =============================================================================
+// Voice Session Types
+// =============================================================================
+
+export type VoiceSessionStatus = 'recording' | 'completed' | 'abandoned'
+
+/**
+ * A streaming walkthrough recording. parsed_through_seq and current_room let
+ * an interrupted session resume its live line item extraction.
+ */
+export interface VoiceSession {
+  id: string
+  user_id: string
+  project_id: string | null
+  estimate_id: string | null
+  status: VoiceSessionStatus
+  mime_type: string | null
+  current_room: string | null
+  parsed_through_seq: number
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type VoiceSegmentStatus = 'uploaded' | 'transcribed' | 'failed'
+
+/**
+ * One self-contained audio segment of a voice session
+ */
+export interface VoiceSessionSegment {
+  id: string
+  session_id: string
+  user_id: string
+  seq: number
+  storage_path: string
+  duration_ms: number | null
+  transcript: string | null
+  status: VoiceSegmentStatus
+  error: string | null
+  created_at: string
+}
+
+// =============================================================================
+// Diarized Transcript Types
+// =============================================================================
+
+export type TranscriptStatus = 'processing' | 'ready' | 'failed'
+
+export type SpeakerRole = 'contractor' | 'homeowner' | 'other'
+
+/**
+ * One speaker turn of a diarized recording, stored in
+ * uploads.transcript_segments. Times are seconds into the recording.
+ */
+export interface TranscriptSegment {
+  id: string
+  start: number
+  end: number
+  speaker: string
+  text: string
+}
+
+// =============================================================================
+// Plan Takeoff Types
+// =============================================================================
+
+export type TakeoffKind = 'linear' | 'area' | 'count'
+
+/**
+ * A plan page prepared for takeoff. image_path is NULL for image uploads
+ * (the upload itself is the page).
+ */
+export interface TakeoffPage {
+  id: string
+  user_id: string
+  project_id: string
+  upload_id: string
+  page_number: number
+  page_count: number
+  image_path: string | null
+  calibration: { points: Array<[number, number]>; length_ft: number } | null
+  feet_per_pixel: number | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Linear, area or count markup on a takeoff page. Points are in the page
+ * image's pixels.
+ */
+export interface TakeoffMeasurement {
+  id: string
+  page_id: string
+  user_id: string
+  project_id: string
+  kind: TakeoffKind
+  label: string | null
+  points: Array<[number, number]>
+  quantity: number | null
+  unit: string
+  room_id: string | null
+  line_item_id: string | null
+  created_at: string
+  updated_at: string
+}
+
 // =============================================================================
 // Plan Parsing Types (Phase 1)
 // =============================================================================
@@ -1178,6 +1682,9 @@ export interface ParsedRoom {
   dimensions?: string | null
   notes?: string | null
   confidence?: number
+  perimeter_ft?: number | null
+  polygon?: Array<[number, number]> | null // Outline in feet, when measured from plan geometry
+  area_source?: 'dimensions' | 'geometry' | null
   is_included: boolean // User can toggle during review
 }
 
@@ -1200,6 +1707,57 @@ export interface ParsedLineItem {
   client_price: null
 }
 
+/**
+ * Door schedule row extracted from a schedule table on the plans.
+ * Used in parse_result_json.schedules.doors
+ */
+export interface DoorScheduleRow {
+  id: string // Client-generated UUID for UI tracking
+  mark: string // Door number/tag as shown on the plans ("101", "D3")
+  size?: string | null // e.g. "3'-0\" x 6'-8\""
+  type?: string | null // e.g. "Solid core flush", "Exterior fiberglass"
+  material?: string | null
+  hardware?: string | null // Hardware set or description
+  location?: string | null // Room or opening the door serves
+  quantity: number
+  notes?: string | null
+  page: number
+}
+
+/**
+ * Window schedule row. Used in parse_result_json.schedules.windows
+ */
+export interface WindowScheduleRow {
+  id: string
+  mark: string
+  size?: string | null
+  type?: string | null // e.g. "Casement", "Double hung"
+  location?: string | null
+  quantity: number
+  notes?: string | null
+  page: number
+}
+
+/**
+ * Room finish schedule row. Used in parse_result_json.schedules.finishes
+ */
+export interface RoomFinishRow {
+  id: string
+  room: string // Room name as labeled in the schedule
+  floor?: string | null
+  base?: string | null
+  wall?: string | null
+  ceiling?: string | null
+  notes?: string | null
+  page: number
+}
+
+export interface PlanSchedules {
+  doors: DoorScheduleRow[]
+  windows: WindowScheduleRow[]
+  finishes: RoomFinishRow[]
+}
+
 /**
  * Full parse result stored in plan_parses.parse_result_json
  */
@@ -1208,6 +1766,11 @@ export interface PlanParseResult {
   lineItemScaffold: ParsedLineItem[]
   assumptions: string[]
   warnings: string[]
+  missingInfo?: string[]
+  /** Nothing was detected; rooms/lineItemScaffold hold the manual-entry placeholder */
+  fallback?: boolean
+  /** Door, window and room finish schedule tables found on the plans */
+  schedules?: PlanSchedules
   metadata?: {
     model?: string
     totalPages?: number
@@ -1225,6 +1788,52 @@ export interface PagesOfInterest {
   totalPages: number
 }
 
+/**
+ * Room as applied from a parse. room_id is the room the parse created or
+ * matched by name. Used in plan_parses.applied_snapshot.rooms
+ */
+export interface PlanParseSnapshotRoom {
+  room_id: string | null
+  name: string
+  level: string | null
+  type: string | null
+  area_sqft: number | null
+  length_ft: number | null
+  width_ft: number | null
+  ceiling_height_ft: number | null
+  perimeter_ft: number | null
+  polygon: Array<[number, number]> | null
+  area_source: 'dimensions' | 'geometry' | null
+  included: boolean
+}
+
+/**
+ * Scaffold line item as inserted (description with notes, normalized unit).
+ * scaffold_description is the parsed description, used to match revisions.
+ * Used in plan_parses.applied_snapshot.line_items
+ */
+export interface PlanParseSnapshotLineItem {
+  line_item_id: string | null
+  room_name: string
+  scaffold_description: string
+  description: string
+  category: string
+  cost_code: string | null
+  quantity: number | null
+  unit: string
+  calc_source: 'manual' | 'room_dimensions' | 'takeoff'
+}
+
+/**
+ * What a parse put into the estimate, stored in plan_parses.applied_snapshot.
+ * Base for plan revision diffs.
+ */
+export interface PlanParseAppliedSnapshot {
+  estimate_id: string
+  rooms: PlanParseSnapshotRoom[]
+  line_items: PlanParseSnapshotLineItem[]
+}
+
 /**
  * Extended PlanParse with typed JSON fields
  */
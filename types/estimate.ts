@@ -24,8 +24,18 @@ export interface LineItem {
   confidence?: number | null
   notes?: string
   is_allowance?: boolean | null // Flag to indicate if this is an allowance item
+  alternate_ids?: string[] // Alternates this item belongs to (empty = base scope)
+  assembly_instance_id?: string | null // Set when the item came from an assembly insertion
+  quantity_expression?: string | null // Assembly quantity formula (lib/assemblies.ts)
+  labor_rate_id?: string | null // Crew rate used to cost labor from hours
+  labor_hours_per_unit?: number | null // Worker-hours per unit
+  labor_hours?: number | null // Derived: quantity × hours/unit × productivity
+  source_upload_id?: string | null // Walkthrough recording the item was parsed from
+  source_segment_ids?: string[] // Transcript segments that produced the item
+  source_start_sec?: number | null // Audio snippet range in the recording
+  source_end_sec?: number | null
   // Quantity source tracking
-  calc_source?: 'manual' | 'room_dimensions'  // How quantity was determined
+  calc_source?: 'manual' | 'room_dimensions' | 'takeoff'  // How quantity was determined
   // Optional fields for dimensions (legacy support)
   dimensions?: {
     unit: 'in' | 'ft' | 'cm' | 'm'